@@ -388,6 +388,153 @@ export function extractReferenceFields(): string[] {
   return Array.from(refFieldsSet).sort();
 }
 
+/**
+ * Extract the ID prefixes each reference field may point to.
+ *
+ * Returns field name -> schema definition declaring the field -> prefixes,
+ * resolved from the field's `$ref` targets in refs.defs.yaml. The same
+ * field name can point to different element types in different
+ * definitions (e.g. `parent` in Process, Location and Capability).
+ */
+export function extractReferenceTargets(): Record<string, Record<string, string[]>> {
+  const refs = loadYamlFile(join(SCHEMAS_DIR, 'defs', 'refs.defs.yaml')) as {
+    $defs?: Record<string, { pattern?: string }>;
+  };
+  const prefixByRef = new Map<string, string>();
+  for (const [name, def] of Object.entries(refs.$defs ?? {})) {
+    const match = name.endsWith('Ref') ? def.pattern?.match(/^\^([A-Z]+)\\d/) : null;
+    if (match) prefixByRef.set(name, match[1]);
+  }
+
+  const targets: Record<string, Record<string, Set<string>>> = {};
+
+  function prefixesOf(def: Record<string, unknown>): string[] {
+    const candidates: unknown[] = [def, ...((def.oneOf || def.anyOf) as unknown[] | undefined ?? [])];
+    if (def.items && typeof def.items === 'object') {
+      const items = def.items as Record<string, unknown>;
+      candidates.push(items, ...((items.oneOf || items.anyOf) as unknown[] | undefined ?? []));
+    }
+    const prefixes: string[] = [];
+    for (const candidate of candidates) {
+      const ref = (candidate as Record<string, unknown> | null)?.$ref;
+      const prefix = typeof ref === 'string' ? prefixByRef.get(ref.split('/').pop()!) : undefined;
+      if (prefix) prefixes.push(prefix);
+    }
+    return prefixes;
+  }
+
+  function walkSchema(obj: unknown, defName: string): void {
+    if (!obj || typeof obj !== 'object') return;
+
+    if (Array.isArray(obj)) {
+      obj.forEach((item) => walkSchema(item, defName));
+      return;
+    }
+
+    const record = obj as Record<string, unknown>;
+    if (record.properties && typeof record.properties === 'object') {
+      for (const [propName, propDef] of Object.entries(record.properties as Record<string, unknown>)) {
+        if (!propDef || typeof propDef !== 'object') continue;
+        for (const prefix of prefixesOf(propDef as Record<string, unknown>)) {
+          targets[propName] ??= {};
+          (targets[propName][defName] ??= new Set()).add(prefix);
+        }
+      }
+    }
+
+    for (const [key, value] of Object.entries(record)) {
+      if (key === '$defs' && value && typeof value === 'object') {
+        for (const [name, def] of Object.entries(value as Record<string, unknown>)) walkSchema(def, name);
+      } else {
+        walkSchema(value, defName);
+      }
+    }
+  }
+
+  for (const dir of ['defs', 'documents', 'types']) {
+    for (const file of readdirSync(join(SCHEMAS_DIR, dir)).filter((f: string) => f.endsWith('.yaml')).sort()) {
+      // Properties outside $defs (document roots) are keyed by file, e.g. 'process.schema'
+      walkSchema(loadYamlFile(join(SCHEMAS_DIR, dir, file)), file.replace(/\.yaml$/, ''));
+    }
+  }
+
+  return Object.fromEntries(
+    Object.keys(targets)
+      .sort()
+      .map((field) => [
+        field,
+        Object.fromEntries(
+          Object.keys(targets[field])
+            .sort()
+            .map((defName) => [defName, [...targets[field][defName]].sort()])
+        ),
+      ])
+  );
+}
+
+/**
+ * Extract the schema definitions each property holds.
+ *
+ * Returns property name -> definitions of the objects under it: its own
+ * value, the items of an array or the values keyed by ID (e.g. processes ->
+ * Process, links -> Link). Reference types (*Ref) are not objects and are
+ * left out.
+ */
+export function extractContainerDefinitions(): Record<string, string[]> {
+  const containers: Record<string, Set<string>> = {};
+
+  function definitionsOf(def: Record<string, unknown>): string[] {
+    const candidates: unknown[] = [def, ...((def.oneOf || def.anyOf) as unknown[] | undefined ?? [])];
+    for (const nested of [def.items, def.additionalProperties, ...Object.values((def.patternProperties ?? {}) as Record<string, unknown>)]) {
+      if (!nested || typeof nested !== 'object') continue;
+      const record = nested as Record<string, unknown>;
+      candidates.push(record, ...((record.oneOf || record.anyOf) as unknown[] | undefined ?? []));
+    }
+    const definitions: string[] = [];
+    for (const candidate of candidates) {
+      const ref = (candidate as Record<string, unknown> | null)?.$ref;
+      const name = typeof ref === 'string' && ref.includes('#/$defs/') ? ref.split('/').pop()! : undefined;
+      if (name && !name.endsWith('Ref')) definitions.push(name);
+    }
+    return definitions;
+  }
+
+  function walkSchema(obj: unknown): void {
+    if (!obj || typeof obj !== 'object') return;
+
+    if (Array.isArray(obj)) {
+      obj.forEach((item) => walkSchema(item));
+      return;
+    }
+
+    const record = obj as Record<string, unknown>;
+    if (record.properties && typeof record.properties === 'object') {
+      for (const [propName, propDef] of Object.entries(record.properties as Record<string, unknown>)) {
+        if (!propDef || typeof propDef !== 'object') continue;
+        for (const definition of definitionsOf(propDef as Record<string, unknown>)) {
+          (containers[propName] ??= new Set()).add(definition);
+        }
+      }
+    }
+
+    for (const value of Object.values(record)) {
+      walkSchema(value);
+    }
+  }
+
+  for (const dir of ['defs', 'documents', 'types']) {
+    for (const file of readdirSync(join(SCHEMAS_DIR, dir)).filter((f: string) => f.endsWith('.yaml')).sort()) {
+      walkSchema(loadYamlFile(join(SCHEMAS_DIR, dir, file)));
+    }
+  }
+
+  return Object.fromEntries(
+    Object.keys(containers)
+      .sort()
+      .map((propName) => [propName, [...containers[propName]].sort()])
+  );
+}
+
 // =============================================================================
 // Template Data Extraction
 // =============================================================================
@@ -31,6 +31,8 @@ export function generateDataTs(
   types: string[],
   refInfos: RefInfo[],
   refFields: string[],
+  refTargets: Record<string, Record<string, string[]>>,
+  containerDefinitions: Record<string, string[]>,
   toolingHints: ToolingHints,
   idConfig: IdConfig,
   detectionConfig: ContentDetectionConfig[],
@@ -143,6 +145,20 @@ export type ElementType = (typeof ID_PREFIXES)[IdPrefix];
  */
 export const REFERENCE_FIELDS = ${JSON.stringify(refFields, null, 2)} as const;
 
+/**
+ * ID prefixes each reference field may point to, keyed by field name and
+ * then by the schema definition that declares the field.
+ * Extracted from: $ref targets of reference fields in all schemas
+ */
+export const REFERENCE_FIELD_TARGETS: Readonly<Record<string, Readonly<Record<string, readonly IdPrefix[]>>>> = ${JSON.stringify(refTargets, null, 2)};
+
+/**
+ * Schema definitions of the objects each property holds: its value, the
+ * items of an array or the values keyed by ID.
+ * Extracted from: $ref targets of object properties in all schemas
+ */
+export const CONTAINER_DEFINITIONS: Readonly<Record<string, readonly string[]>> = ${JSON.stringify(containerDefinitions, null, 2)};
+
 // ============================================================================
 // COMMON PROPERTIES
 // ============================================================================
@@ -41,6 +41,8 @@ import {
   extractIdPatterns,
   extractIdConfig,
   extractReferenceFields,
+  extractReferenceTargets,
+  extractContainerDefinitions,
   extractTemplateData,
   extractToolingHints,
   extractContentDetectionConfig,
@@ -89,6 +91,12 @@ async function main() {
     `   Found ${refFields.length} reference fields: ${refFields.slice(0, 10).join(', ')}${refFields.length > 10 ? '...' : ''}`
   );
 
+  const refTargets = extractReferenceTargets();
+  console.log(`   Resolved $ref targets for ${Object.keys(refTargets).length} reference fields`);
+
+  const containerDefinitions = extractContainerDefinitions();
+  console.log(`   Mapped ${Object.keys(containerDefinitions).length} properties to the definitions they hold`);
+
   // Phase 4: Extract tooling hints from x-ubml metadata
   console.log('\n🎯 Extracting tooling hints from x-ubml metadata...');
   const toolingHints = extractToolingHints();
@@ -139,6 +147,8 @@ async function main() {
     types,
     refInfos,
     refFields,
+    refTargets,
+    containerDefinitions,
     toolingHints,
     idConfig,
     detectionConfig,
@@ -0,0 +1,466 @@
+/**
+ * Activity-Based Cost Model (Browser-Safe)
+ *
+ * Computes the expected cost per case of a process from the work of its
+ * steps, the rates of the actors doing it and the routing of its links.
+ *
+ * COST OF A STEP EXECUTION
+ * - Labor: `effort` (or `duration` without effort) in working hours times
+ *   the hourly rate of the step's first responsible actor. A resource pool
+ *   of that actor overrides the actor's own rate, as in simulation.
+ * - `fixedCost` replaces labor: it is the price of outsourced work.
+ * - `calls` add the cost per case of the called process when they run on
+ *   every execution: synchronous calls and `on: complete` triggers. Calls
+ *   `on: error` or `on: timeout` only run by exception; they are listed as
+ *   `contingentCalls` with their cost per call instead.
+ * - `loop` multiplies the cost by its expected iterations: `max` for a
+ *   repeat loop without probability, the geometric series of `probability`
+ *   (up to `max`) for rework, and the `over` value in `options.scope` for
+ *   forEach loops.
+ *
+ * EXPECTED EXECUTIONS
+ * A case enters at the start step. Links with `probability` split it
+ * (links without one share the rest), decisions without probabilities
+ * split it equally and other steps follow all of their links in parallel.
+ * Parallel branches count once where they join again (the nearest step
+ * every branch passes). Cycles of links are solved exactly, so a rework
+ * link raises the executions of every step it repeats.
+ *
+ * Guards, call conditions and link conditions are not evaluated; duration
+ * expressions use `options.scope` and the mean of distributions. Money is
+ * converted to `workspace.defaults.currency` with `defaults.exchangeRates`
+ * and rounded to cents only in the result, after called processes are added.
+ *
+ * @module ubml/analysis/cost
+ */
+
+import type {
+  Actor,
+  ActorsDocument,
+  Duration,
+  Link,
+  Money,
+  Process,
+  ProcessDocument,
+  Rate,
+  ResourcePool,
+  Step,
+  WorkspaceDocument,
+} from '../generated/types.js';
+import { evaluateExpression, type ExpressionScope } from '../expression/evaluator.js';
+import type { UBMLDocument } from '../parser.js';
+import { DURATION_UNIT_HOURS, parseDuration } from '../utils/duration.js';
+
+// =============================================================================
+// Public Types
+// =============================================================================
+
+/**
+ * Options for computing the cost of a process.
+ */
+export interface CostOptions {
+  /** Currency of the result (default: the workspace's `defaults.currency`) */
+  currency?: string;
+  /** Exchange rates into the result currency (default: the workspace's `defaults.exchangeRates`) */
+  exchangeRates?: Record<string, number>;
+  /** Work attribute values for duration expressions and forEach loops */
+  scope?: ExpressionScope;
+}
+
+/**
+ * Cost of one step. Money is in the result currency.
+ */
+export interface StepCost {
+  id: string;
+  name: string;
+  /** Expected executions per case, including loop iterations */
+  executions: number;
+  /** Working hours per execution (effort, else duration) */
+  hours?: number;
+  /** Actor whose rate applies */
+  actor?: string;
+  /** Resource pool whose rate overrides the actor's */
+  pool?: string;
+  hourlyRate?: number;
+  /** Cost per execution: labor or fixed cost, plus called processes */
+  unitCost: number;
+  /** Expected cost per case */
+  cost: number;
+  /** Share of the process cost per case (0-1) */
+  share: number;
+}
+
+/**
+ * A call that only runs when a step fails or times out.
+ */
+export interface ContingentCall {
+  step: string;
+  process: string;
+  on: 'error' | 'timeout';
+  /** Cost per case of the called process, per call */
+  cost: number;
+}
+
+/**
+ * Expected cost per case of a process.
+ */
+export interface ProcessCost {
+  processId: string;
+  name: string;
+  currency: string;
+  costPerCase: number;
+  /** Expected working hours of its steps per case, excluding called processes */
+  hoursPerCase: number;
+  /** Steps in process order */
+  steps: StepCost[];
+  /** Calls on errors and timeouts, not included in the cost per case */
+  contingentCalls: ContingentCall[];
+  /** Assumptions the model had to make, such as steps without a rate */
+  warnings: string[];
+}
+
+// =============================================================================
+// Workspace Lookup
+// =============================================================================
+
+function contentsOf<T>(documents: UBMLDocument[], type: string): T[] {
+  return documents.filter((document) => document.meta.type === type).map((document) => document.content as T);
+}
+
+/**
+ * Find a process or subprocess by ID.
+ */
+function findProcess(processes: Record<string, Process> | undefined, processId: string): Process | undefined {
+  for (const [id, process] of Object.entries(processes ?? {})) {
+    if (id === processId) return process;
+    const nested = findProcess(process.subprocesses as Record<string, Process> | undefined, processId);
+    if (nested) return nested;
+  }
+  return undefined;
+}
+
+function roundMoney(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function round(value: number): number {
+  return Math.round(value * 10000) / 10000;
+}
+
+// =============================================================================
+// Expected Executions
+// =============================================================================
+
+/**
+ * Outgoing links of a step with the share of the case each one carries,
+ * and whether the step splits the case into parallel branches.
+ */
+function routing(id: string, step: Step, links: Link[], warnings: string[]): { routes: { to: string; share: number }[]; parallel: boolean } {
+  if (links.some((link) => link.probability !== undefined)) {
+    const given = links.reduce((sum, link) => sum + (link.probability ?? 0), 0);
+    const rest = links.filter((link) => link.probability === undefined).length;
+    if (round(given) > 1) {
+      warnings.push(`${id} ${step.name}: link probabilities add up to ${round(given)}${rest > 0 ? ', links without one get no share' : ''}`);
+    }
+    return {
+      routes: links.map((link) => ({ to: link.to, share: link.probability ?? Math.max(0, 1 - given) / rest })),
+      parallel: false,
+    };
+  }
+  if (step.kind === 'decision') {
+    if (links.length > 1) warnings.push(`${id} ${step.name}: no link probabilities, assuming equal shares`);
+    return { routes: links.map((link) => ({ to: link.to, share: 1 / links.length })), parallel: false };
+  }
+  return { routes: links.map((link) => ({ to: link.to, share: 1 })), parallel: links.length > 1 };
+}
+
+/**
+ * Nearest step that every path from a step passes (its immediate
+ * post-dominator), or undefined when the paths only meet at the end.
+ */
+function postDominators(ids: string[], successors: Map<string, string[]>): Map<string, string | undefined> {
+  const all = new Set(ids);
+  const dominators = new Map(ids.map((id) => [id, new Set(all)]));
+  let changed = true;
+  while (changed) {
+    changed = false;
+    for (const id of ids) {
+      const next = successors.get(id) ?? [];
+      let common: Set<string> = new Set();
+      if (next.length > 0) {
+        common = new Set(dominators.get(next[0]));
+        for (const other of next.slice(1)) {
+          const set = dominators.get(other)!;
+          common = new Set([...common].filter((candidate) => set.has(candidate)));
+        }
+      }
+      common.add(id);
+      if (common.size !== dominators.get(id)!.size) {
+        dominators.set(id, common);
+        changed = true;
+      }
+    }
+  }
+
+  const nearest = new Map<string, string | undefined>();
+  for (const id of ids) {
+    const candidates = [...dominators.get(id)!].filter((candidate) => candidate !== id);
+    candidates.sort((a, b) => dominators.get(b)!.size - dominators.get(a)!.size);
+    nearest.set(id, candidates[0]);
+  }
+  return nearest;
+}
+
+/**
+ * Solve `matrix * x = vector` by Gaussian elimination with partial pivoting.
+ *
+ * @returns undefined when the system is singular
+ */
+function solve(matrix: number[][], vector: number[]): number[] | undefined {
+  const size = vector.length;
+  const rows = matrix.map((row, index) => [...row, vector[index]]);
+  for (let column = 0; column < size; column++) {
+    let pivot = column;
+    for (let row = column + 1; row < size; row++) {
+      if (Math.abs(rows[row][column]) > Math.abs(rows[pivot][column])) pivot = row;
+    }
+    if (Math.abs(rows[pivot][column]) < 1e-12) return undefined;
+    [rows[column], rows[pivot]] = [rows[pivot], rows[column]];
+    for (let row = 0; row < size; row++) {
+      if (row === column) continue;
+      const factor = rows[row][column] / rows[column][column];
+      if (factor === 0) continue;
+      for (let k = column; k <= size; k++) rows[row][k] -= factor * rows[column][k];
+    }
+  }
+  return rows.map((row, index) => row[size] / row[index]);
+}
+
+/**
+ * Expected executions of each step per case, before loop iterations.
+ */
+function expectedExecutions(processId: string, steps: [string, Step][], process: Process, warnings: string[]): Map<string, number> {
+  const ids = steps.map(([id]) => id);
+  const index = new Map(ids.map((id, i) => [id, i]));
+  const outgoing = new Map<string, Link[]>(ids.map((id) => [id, []]));
+  const incoming = new Map<string, number>(ids.map((id) => [id, 0]));
+  for (const link of (process.links ?? []) as Link[]) {
+    if (!index.has(link.from) || !index.has(link.to)) continue;
+    outgoing.get(link.from)!.push(link);
+    incoming.set(link.to, incoming.get(link.to)! + 1);
+  }
+
+  const entry =
+    steps.find(([, step]) => step.kind === 'start')?.[0] ??
+    ids.find((id) => incoming.get(id) === 0) ??
+    ids[0];
+
+  // x = entry + sum of flows into x, i.e. (I - T) x = entry
+  const matrix = ids.map((_, row) => ids.map((__, column) => (row === column ? 1 : 0)));
+  const successors = new Map(ids.map((id) => [id, outgoing.get(id)!.map((link) => link.to)]));
+  const joins = postDominators(ids, successors);
+  for (const [id, step] of steps) {
+    const from = index.get(id)!;
+    const { routes, parallel } = routing(id, step, outgoing.get(id)!, warnings);
+    for (const { to, share } of routes) matrix[index.get(to)!][from] -= share;
+
+    // Parallel branches meet again at the join: count them once there
+    const join = joins.get(id);
+    if (parallel && join !== undefined) matrix[index.get(join)!][from] += routes.length - 1;
+  }
+
+  const executions = solve(matrix, ids.map((id) => (id === entry ? 1 : 0)));
+  if (!executions || executions.some((value) => value < -1e-9 || !Number.isFinite(value))) {
+    throw new Error(`Process ${processId} has a cycle without an exit; check its link probabilities`);
+  }
+  return new Map(ids.map((id, i) => [id, Math.max(0, executions[i])]));
+}
+
+/**
+ * Expected iterations of a step's loop per execution.
+ */
+function loopIterations(id: string, step: Step, scope: ExpressionScope, warnings: string[]): number {
+  const loop = step.loop;
+  if (!loop || loop.kind === undefined || loop.kind === 'none') return 1;
+  if (loop.kind === 'forEach') {
+    const count = loop.over === undefined ? undefined : scope[loop.over];
+    if (typeof count !== 'number') {
+      warnings.push(`${id} ${step.name}: no value for forEach "${loop.over ?? ''}", assuming ${loop.max ?? 1} iteration(s)`);
+      return loop.max ?? 1;
+    }
+    return Math.max(0, Math.min(Math.round(count), loop.max ?? Infinity));
+  }
+  if (loop.kind === 'repeat' && loop.probability === undefined) return loop.max ?? 1;
+
+  const probability = loop.probability ?? 0;
+  if (loop.max !== undefined) {
+    return probability === 1 ? loop.max : (1 - probability ** loop.max) / (1 - probability);
+  }
+  if (probability >= 1) {
+    throw new Error(`Step ${id} repeats with probability 1 and no max`);
+  }
+  return 1 / (1 - probability);
+}
+
+// =============================================================================
+// Public API
+// =============================================================================
+
+/**
+ * Compute the expected cost per case of a process.
+ *
+ * @param documents - Workspace documents (processes, actors and the workspace document)
+ * @param processId - Process to cost (e.g., 'PR00001')
+ * @param options - Result currency and work attribute values
+ * @throws Error if the process is not found, money cannot be converted,
+ *   a duration is invalid or the process has a cycle without an exit
+ *
+ * @example
+ * ```typescript
+ * import { calculateProcessCost } from 'ubml';
+ *
+ * const cost = calculateProcessCost(documents, 'PR00001');
+ * console.log(`${cost.costPerCase} ${cost.currency} per case`);
+ * for (const step of cost.steps) console.log(step.id, step.cost);
+ * ```
+ */
+export function calculateProcessCost(documents: UBMLDocument[], processId: string, options: CostOptions = {}): ProcessCost {
+  const processDocuments = contentsOf<ProcessDocument>(documents, 'process');
+  const actors = new Map<string, Actor>();
+  const pools: [string, ResourcePool][] = [];
+  for (const document of contentsOf<ActorsDocument>(documents, 'actors')) {
+    for (const [id, actor] of Object.entries((document.actors ?? {}) as Record<string, Actor>)) actors.set(id, actor);
+    pools.push(...Object.entries((document.resourcePools ?? {}) as Record<string, ResourcePool>));
+  }
+  pools.sort(([a], [b]) => a.localeCompare(b));
+  const defaults = contentsOf<WorkspaceDocument>(documents, 'workspace')[0]?.defaults;
+  const exchangeRates = options.exchangeRates ?? defaults?.exchangeRates ?? {};
+  const scope = options.scope ?? {};
+  const warnings: string[] = [];
+
+  // The result currency is the first one seen when the workspace sets none.
+  // Workspace exchange rates are values in its default currency, so another
+  // result currency converts through it.
+  let currency = options.currency ?? defaults?.currency;
+  const base = options.exchangeRates ? undefined : defaults?.currency;
+  const convert = (money: Money | Rate, context: string): number => {
+    currency ??= money.currency;
+    if (money.currency === currency) return money.amount;
+    const value = (code: string) => (code === (base ?? currency) ? 1 : exchangeRates[code]);
+    const from = value(money.currency);
+    const to = value(currency);
+    if (from === undefined || to === undefined) {
+      throw new Error(`${context}: no exchange rate from ${money.currency} to ${currency}; add it to defaults.exchangeRates of the workspace`);
+    }
+    return (money.amount * from) / to;
+  };
+
+  const hoursOf = (duration: Duration, context: string): number => {
+    if (typeof duration === 'string' || 'fixed' in duration) {
+      const literal = typeof duration === 'string' ? duration : duration.fixed;
+      const hours = parseDuration(literal);
+      if (hours === undefined) throw new Error(`${context}: invalid duration "${literal}"`);
+      return hours;
+    }
+    let value: unknown;
+    try {
+      value = evaluateExpression(duration.expr, scope);
+    } catch (err) {
+      throw new Error(`${context}: ${err instanceof Error ? err.message : String(err)}`);
+    }
+    if (typeof value !== 'number') throw new Error(`${context}: expression "${duration.expr}" is not a number`);
+    return value;
+  };
+
+  const costing: string[] = [];
+  const costed = new Map<string, ProcessCost>();
+  const costProcess = (id: string): ProcessCost => {
+    const known = costed.get(id);
+    if (known) return known;
+    const process = processDocuments.map((document) => findProcess(document.processes as Record<string, Process>, id)).find(Boolean);
+    if (!process) {
+      throw new Error(`Process ${id} not found`);
+    }
+    if (costing.includes(id)) {
+      throw new Error(`Process ${id} calls itself (${[...costing, id].join(' -> ')})`);
+    }
+    costing.push(id);
+
+    const contingentCalls: ContingentCall[] = [];
+    const stepEntries = Object.entries((process.steps ?? {}) as Record<string, Step>);
+    const executions = stepEntries.length === 0 ? new Map<string, number>() : expectedExecutions(id, stepEntries, process, warnings);
+    const steps = stepEntries.map(([stepId, step]): StepCost => {
+      const work = step.effort ?? step.duration;
+      const hours = work === undefined ? undefined : hoursOf(work, `Step ${stepId} ${step.effort ? 'effort' : 'duration'}`);
+      const actor = step.RACI?.responsible?.[0];
+      const pool = actor === undefined ? undefined : pools.find(([, candidate]) => candidate.actor === actor);
+      const rate = pool?.[1].rate ?? (actor === undefined ? undefined : actors.get(actor)?.rate);
+      const hourlyRate = rate ? convert(rate, `Step ${stepId} rate`) / DURATION_UNIT_HOURS[rate.per] : undefined;
+
+      let unitCost = 0;
+      if (step.fixedCost) {
+        unitCost = convert(step.fixedCost, `Step ${stepId} fixedCost`);
+      } else if (hours) {
+        if (hourlyRate !== undefined) unitCost = hours * hourlyRate;
+        else warnings.push(`${stepId} ${step.name}: ${actor ? `no rate for ${actor}` : 'no responsible actor'}, labor not costed`);
+      }
+      for (const call of step.calls ?? []) {
+        if (call.on === 'error' || call.on === 'timeout') {
+          contingentCalls.push({ step: stepId, process: call.process, on: call.on, cost: costProcess(call.process).costPerCase });
+        } else {
+          unitCost += costProcess(call.process).costPerCase;
+        }
+      }
+
+      const count = (executions.get(stepId) ?? 0) * loopIterations(stepId, step, scope, warnings);
+      return {
+        id: stepId,
+        name: step.name,
+        executions: count,
+        ...(hours !== undefined ? { hours } : {}),
+        ...(actor !== undefined ? { actor } : {}),
+        ...(pool ? { pool: pool[0] } : {}),
+        ...(hourlyRate !== undefined ? { hourlyRate } : {}),
+        unitCost,
+        cost: count * unitCost,
+        share: 0,
+      };
+    });
+    costing.pop();
+
+    const total = steps.reduce((sum, step) => sum + step.cost, 0);
+    for (const step of steps) step.share = total > 0 ? step.cost / total : 0;
+    const result: ProcessCost = {
+      processId: id,
+      name: process.name,
+      currency: currency ?? 'USD',
+      costPerCase: total,
+      hoursPerCase: steps.reduce((sum, step) => sum + (step.hours ?? 0) * step.executions, 0),
+      steps,
+      contingentCalls,
+      warnings,
+    };
+    costed.set(id, result);
+    return result;
+  };
+
+  // Costs of called processes add up unrounded; only the result is rounded
+  const result = costProcess(processId);
+  if (currency === undefined) warnings.push('No currency in the options, the workspace defaults or any cost, assuming USD');
+  return {
+    ...result,
+    currency: currency ?? 'USD',
+    costPerCase: roundMoney(result.costPerCase),
+    hoursPerCase: round(result.hoursPerCase),
+    steps: result.steps.map((step) => ({
+      ...step,
+      executions: round(step.executions),
+      ...(step.hourlyRate !== undefined ? { hourlyRate: roundMoney(step.hourlyRate) } : {}),
+      unitCost: roundMoney(step.unitCost),
+      cost: roundMoney(step.cost),
+      share: round(step.share),
+    })),
+    contingentCalls: result.contingentCalls.map((call) => ({ ...call, cost: roundMoney(call.cost) })),
+    warnings: [...new Set(warnings)],
+  };
+}
@@ -0,0 +1,249 @@
+/**
+ * Semantic Workspace Diff (Browser-Safe)
+ *
+ * Compares two revisions of a workspace element by element, using IDs,
+ * instead of line by line. Elements are the values of ID keys anywhere in a
+ * document (processes, steps, actors, KPIs, ...). Links between steps have
+ * no ID and are matched by their `from` and `to` steps within their owner.
+ *
+ * An element's properties exclude its child elements and links, which are
+ * compared as elements of their own. Nested objects are compared per field
+ * (e.g. `duration.value`); lists are compared as a whole.
+ *
+ * @module ubml/analysis/diff
+ */
+
+import { getElementTypeFromId, isValidId } from '../metadata.js';
+
+// =============================================================================
+// Public Types
+// =============================================================================
+
+/**
+ * A document of one revision.
+ */
+export interface DiffDocument {
+  /** Path of the document, relative to the workspace */
+  path: string;
+  /** Parsed document content */
+  content: unknown;
+}
+
+/**
+ * A changed property of an element, as a dotted path.
+ */
+export interface PropertyChange {
+  property: string;
+  /** Value before (undefined when added) */
+  before?: unknown;
+  /** Value after (undefined when removed) */
+  after?: unknown;
+}
+
+/**
+ * An added, removed or changed element.
+ */
+export interface ElementChange {
+  kind: 'added' | 'removed' | 'changed';
+  /** Element ID, or `FROM -> TO` for links */
+  id: string;
+  /** Element type (e.g. `step`, `actor`, `link`) */
+  type: string;
+  /** Element name (after the change, or before for removed elements) */
+  name?: string;
+  /** ID of the element that contains it (e.g. the process of a step) */
+  parent?: string;
+  /** Document that holds the element (after, or before for removed elements) */
+  path: string;
+  /** Previous document, when the element moved to another document */
+  movedFrom?: string;
+  /** Property changes (for changed elements) */
+  changes: PropertyChange[];
+}
+
+/**
+ * Element counts per type.
+ */
+export interface DiffSummaryEntry {
+  type: string;
+  added: number;
+  removed: number;
+  changed: number;
+}
+
+/**
+ * Result of comparing two workspace revisions.
+ */
+export interface WorkspaceDiff {
+  /** Changes in document order of the newer revision, then removals */
+  changes: ElementChange[];
+  /** Counts per element type, sorted by type */
+  summary: DiffSummaryEntry[];
+}
+
+// =============================================================================
+// Element Extraction
+// =============================================================================
+
+interface Element {
+  id: string;
+  type: string;
+  parent?: string;
+  path: string;
+  properties: Record<string, unknown>;
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/** An object whose keys are all element IDs (e.g. `steps`) */
+function isElementMap(value: unknown): value is Record<string, unknown> {
+  if (!isObject(value)) return false;
+  const keys = Object.keys(value);
+  return keys.length > 0 && keys.every((key) => isValidId(key) && isObject(value[key]));
+}
+
+function isLinkList(value: unknown): value is Record<string, unknown>[] {
+  return Array.isArray(value) && value.length > 0 && value.every((item) => isObject(item) && 'from' in item && 'to' in item);
+}
+
+function collectElements(doc: DiffDocument, elements: Map<string, Element>): void {
+  const visitElement = (id: string, value: Record<string, unknown>, parent: string | undefined): void => {
+    const properties: Record<string, unknown> = {};
+    if (!elements.has(id)) {
+      elements.set(id, { id, type: getElementTypeFromId(id) ?? 'element', parent, path: doc.path, properties });
+    }
+    for (const [key, child] of Object.entries(value)) {
+      if (isElementMap(child)) {
+        for (const [childId, childValue] of Object.entries(child)) {
+          visitElement(childId, childValue as Record<string, unknown>, id);
+        }
+      } else if (key === 'links' && isLinkList(child)) {
+        visitLinks(child, id);
+      } else {
+        properties[key] = child;
+      }
+    }
+  };
+
+  const visitLinks = (links: Record<string, unknown>[], owner: string): void => {
+    const seen = new Map<string, number>();
+    for (const link of links) {
+      const base = `${String(link.from)} -> ${String(link.to)}`;
+      const count = (seen.get(base) ?? 0) + 1;
+      seen.set(base, count);
+      // Parallel links between the same steps are told apart by position
+      const id = count === 1 ? base : `${base} #${count}`;
+      const properties = Object.fromEntries(Object.entries(link).filter(([key]) => key !== 'from' && key !== 'to'));
+      const key = `${owner}: ${id}`;
+      if (!elements.has(key)) elements.set(key, { id, type: 'link', parent: owner, path: doc.path, properties });
+    }
+  };
+
+  if (!isObject(doc.content)) return;
+  for (const section of Object.values(doc.content)) {
+    if (isElementMap(section)) {
+      for (const [id, value] of Object.entries(section)) visitElement(id, value as Record<string, unknown>, undefined);
+    }
+  }
+}
+
+// =============================================================================
+// Comparison
+// =============================================================================
+
+function flatten(value: Record<string, unknown>, prefix = '', result: Record<string, unknown> = {}): Record<string, unknown> {
+  for (const [key, child] of Object.entries(value)) {
+    const property = prefix ? `${prefix}.${key}` : key;
+    if (isObject(child) && Object.keys(child).length > 0) {
+      flatten(child, property, result);
+    } else {
+      result[property] = child;
+    }
+  }
+  return result;
+}
+
+function isEqual(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+function compareProperties(before: Record<string, unknown>, after: Record<string, unknown>): PropertyChange[] {
+  const flatBefore = flatten(before);
+  const flatAfter = flatten(after);
+  const changes: PropertyChange[] = [];
+  for (const property of new Set([...Object.keys(flatBefore), ...Object.keys(flatAfter)])) {
+    if (!isEqual(flatBefore[property], flatAfter[property])) {
+      changes.push({ property, before: flatBefore[property], after: flatAfter[property] });
+    }
+  }
+  return changes;
+}
+
+function nameOf(element: Element): string | undefined {
+  const name = element.properties.name ?? element.properties.label;
+  return typeof name === 'string' ? name : undefined;
+}
+
+function toChange(kind: ElementChange['kind'], element: Element, changes: PropertyChange[] = []): ElementChange {
+  const change: ElementChange = { kind, id: element.id, type: element.type, path: element.path, changes };
+  const name = nameOf(element);
+  if (name !== undefined) change.name = name;
+  if (element.parent) change.parent = element.parent;
+  return change;
+}
+
+/**
+ * Compare two revisions of a workspace.
+ *
+ * @param before - Documents of the older revision
+ * @param after - Documents of the newer revision
+ *
+ * @example
+ * ```typescript
+ * import { diffWorkspaces } from 'ubml';
+ *
+ * const diff = diffWorkspaces(
+ *   [{ path: 'claims.process.ubml.yaml', content: oldContent }],
+ *   [{ path: 'claims.process.ubml.yaml', content: newContent }]
+ * );
+ * for (const change of diff.changes) console.log(change.kind, change.id);
+ * ```
+ */
+export function diffWorkspaces(before: DiffDocument[], after: DiffDocument[]): WorkspaceDiff {
+  const beforeElements = new Map<string, Element>();
+  const afterElements = new Map<string, Element>();
+  for (const doc of before) collectElements(doc, beforeElements);
+  for (const doc of after) collectElements(doc, afterElements);
+
+  const changes: ElementChange[] = [];
+  for (const [key, element] of afterElements) {
+    const previous = beforeElements.get(key);
+    if (!previous) {
+      changes.push(toChange('added', element));
+      continue;
+    }
+    const propertyChanges = compareProperties(previous.properties, element.properties);
+    if (propertyChanges.length > 0 || previous.path !== element.path || previous.parent !== element.parent) {
+      const change = toChange('changed', element, propertyChanges);
+      if (previous.path !== element.path) change.movedFrom = previous.path;
+      if (previous.parent !== element.parent && element.type !== 'link') {
+        change.changes.unshift({ property: '(parent)', before: previous.parent, after: element.parent });
+      }
+      changes.push(change);
+    }
+  }
+  for (const [key, element] of beforeElements) {
+    if (!afterElements.has(key)) changes.push(toChange('removed', element));
+  }
+
+  const counts = new Map<string, DiffSummaryEntry>();
+  for (const change of changes) {
+    if (!counts.has(change.type)) counts.set(change.type, { type: change.type, added: 0, removed: 0, changed: 0 });
+    counts.get(change.type)![change.kind]++;
+  }
+  const summary = [...counts.values()].sort((a, b) => a.type.localeCompare(b.type));
+
+  return { changes, summary };
+}
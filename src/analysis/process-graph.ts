@@ -0,0 +1,274 @@
+/**
+ * Process Graph Checker (Browser-Safe)
+ *
+ * Builds the step/link graph of a process and reports structural problems
+ * that schema and reference validation cannot see:
+ *
+ * - steps that cannot be reached from the start steps, or cannot reach an
+ *   end step
+ * - decisions with fewer than two outgoing links
+ * - outgoing probabilities that do not sum to 1, and more than one
+ *   `isDefault` link from a step
+ * - cycles that are neither inside a `loop` block nor carried by a step
+ *   with `loop`
+ * - `start` steps with incoming links and `end` steps with outgoing links
+ *
+ * Start steps are `startsWith`, else steps of kind `start`, else steps
+ * without incoming links. End steps are found the same way from `endsWith`.
+ * Reachability is not checked when a process has no start or end step.
+ *
+ * @module ubml/analysis/process-graph
+ */
+
+import type { Block, Link, Process, Step } from '../generated/types.js';
+
+// =============================================================================
+// Public Types
+// =============================================================================
+
+/**
+ * A structural problem in a process graph.
+ */
+export interface ProcessGraphDiagnostic {
+  /** Diagnostic code (e.g., 'ubml/unreachable-step') */
+  code: string;
+  severity: 'error' | 'warning';
+  message: string;
+  /** Path of the offending element relative to the process (e.g., ['links', 2]) */
+  path: (string | number)[];
+}
+
+// =============================================================================
+// Graph Helpers
+// =============================================================================
+
+const PROBABILITY_TOLERANCE = 1e-6;
+
+/**
+ * Steps reachable from the given steps along the given edges.
+ */
+function reachable(from: string[], edges: Map<string, string[]>): Set<string> {
+  const seen = new Set(from);
+  const queue = [...from];
+  while (queue.length > 0) {
+    for (const next of edges.get(queue.shift()!) ?? []) {
+      if (!seen.has(next)) {
+        seen.add(next);
+        queue.push(next);
+      }
+    }
+  }
+  return seen;
+}
+
+/**
+ * Strongly connected components with a cycle (Tarjan), in discovery order.
+ */
+function cycles(stepIds: string[], edges: Map<string, string[]>): string[][] {
+  const index = new Map<string, number>();
+  const lowLink = new Map<string, number>();
+  const stack: string[] = [];
+  const onStack = new Set<string>();
+  const components: string[][] = [];
+
+  const visit = (id: string): void => {
+    index.set(id, index.size);
+    lowLink.set(id, index.get(id)!);
+    stack.push(id);
+    onStack.add(id);
+    for (const next of edges.get(id) ?? []) {
+      if (!index.has(next)) {
+        visit(next);
+        lowLink.set(id, Math.min(lowLink.get(id)!, lowLink.get(next)!));
+      } else if (onStack.has(next)) {
+        lowLink.set(id, Math.min(lowLink.get(id)!, index.get(next)!));
+      }
+    }
+    if (lowLink.get(id) !== index.get(id)) return;
+
+    const component: string[] = [];
+    let member: string;
+    do {
+      member = stack.pop()!;
+      onStack.delete(member);
+      component.push(member);
+    } while (member !== id);
+    if (component.length > 1 || (edges.get(id) ?? []).includes(id)) {
+      components.push(component.sort());
+    }
+  };
+
+  for (const id of stepIds) {
+    if (!index.has(id)) visit(id);
+  }
+  return components;
+}
+
+/**
+ * Step members of each loop block, including nested blocks and operands.
+ */
+function loopBlockMembers(blocks: Record<string, Block>): Set<string>[] {
+  const membersOf = (block: Block, seen: Set<Block>): string[] => {
+    if (seen.has(block)) return [];
+    seen.add(block);
+    const members: string[] = [];
+    for (const id of block.steps ?? []) {
+      members.push(...(blocks[id] ? membersOf(blocks[id], seen) : [id]));
+    }
+    for (const operand of Object.values((block.operands ?? {}) as Record<string, Block>)) {
+      members.push(...membersOf(operand, seen));
+    }
+    return members;
+  };
+
+  const loops: Set<string>[] = [];
+  const collect = (block: Block): void => {
+    if (block.operator === 'loop') loops.push(new Set(membersOf(block, new Set())));
+    for (const operand of Object.values((block.operands ?? {}) as Record<string, Block>)) collect(operand);
+  };
+  Object.values(blocks).forEach(collect);
+  return loops;
+}
+
+// =============================================================================
+// Public API
+// =============================================================================
+
+/**
+ * Check the step/link graph of a process for structural problems.
+ *
+ * Only steps of the process itself are checked; subprocesses are separate
+ * processes. Links to unknown steps are left to reference validation.
+ *
+ * @example
+ * ```typescript
+ * import { checkProcessGraph } from 'ubml';
+ *
+ * for (const diagnostic of checkProcessGraph(content.processes.PR00001)) {
+ *   console.log(diagnostic.severity, diagnostic.message);
+ * }
+ * ```
+ */
+export function checkProcessGraph(process: Process): ProcessGraphDiagnostic[] {
+  const steps = (process.steps ?? {}) as Record<string, Step>;
+  const stepIds = Object.keys(steps);
+  if (stepIds.length === 0) return [];
+
+  const diagnostics: ProcessGraphDiagnostic[] = [];
+  const links = ((process.links ?? []) as Link[])
+    .map((link, index) => ({ link, index }))
+    .filter(({ link }) => link && steps[link.from] && steps[link.to]);
+
+  const forward = new Map<string, string[]>();
+  const backward = new Map<string, string[]>();
+  const outgoing = new Map<string, { link: Link; index: number }[]>();
+  for (const entry of links) {
+    const { from, to } = entry.link;
+    forward.set(from, [...(forward.get(from) ?? []), to]);
+    backward.set(to, [...(backward.get(to) ?? []), from]);
+    outgoing.set(from, [...(outgoing.get(from) ?? []), entry]);
+  }
+
+  // Boundaries: start steps without incoming, end steps without outgoing links
+  for (const { link, index } of links) {
+    if (steps[link.to].kind === 'start') {
+      diagnostics.push({
+        code: 'ubml/start-step-incoming',
+        severity: 'error',
+        message: `Start step ${link.to} has an incoming link from ${link.from}`,
+        path: ['links', index],
+      });
+    }
+    if (steps[link.from].kind === 'end') {
+      diagnostics.push({
+        code: 'ubml/end-step-outgoing',
+        severity: 'error',
+        message: `End step ${link.from} has an outgoing link to ${link.to}`,
+        path: ['links', index],
+      });
+    }
+  }
+
+  // Reachability from start and to end
+  const boundary = (declared: string[] | undefined, kind: Step['kind'], edges: Map<string, string[]>): string[] => {
+    const valid = (declared ?? []).filter((id) => steps[id]);
+    if (valid.length > 0) return valid;
+    const byKind = stepIds.filter((id) => steps[id].kind === kind);
+    return byKind.length > 0 ? byKind : stepIds.filter((id) => !edges.has(id));
+  };
+  const starts = boundary(process.startsWith, 'start', backward);
+  const ends = boundary(process.endsWith, 'end', forward);
+  const fromStart = reachable(starts, forward);
+  const toEnd = reachable(ends, backward);
+  for (const id of stepIds) {
+    if (starts.length > 0 && !fromStart.has(id)) {
+      diagnostics.push({
+        code: 'ubml/unreachable-step',
+        severity: 'warning',
+        message: `Step ${id} cannot be reached from the start (${starts.join(', ')})`,
+        path: ['steps', id],
+      });
+    } else if (ends.length > 0 && !toEnd.has(id)) {
+      diagnostics.push({
+        code: 'ubml/dead-end-step',
+        severity: 'warning',
+        message: `Step ${id} cannot reach an end (${ends.join(', ')})`,
+        path: ['steps', id],
+      });
+    }
+  }
+
+  // Branching: decisions, probabilities and default links
+  for (const id of stepIds) {
+    const branches = outgoing.get(id) ?? [];
+    if (steps[id].kind === 'decision' && branches.length < 2) {
+      diagnostics.push({
+        code: 'ubml/decision-branches',
+        severity: 'warning',
+        message: `Decision ${id} has ${branches.length} outgoing link${branches.length === 1 ? '' : 's'} (expected at least 2)`,
+        path: ['steps', id],
+      });
+    }
+
+    const weighted = branches.filter(({ link }) => typeof link.probability === 'number');
+    if (weighted.length > 0) {
+      const sum = weighted.reduce((total, { link }) => total + link.probability!, 0);
+      const complete = weighted.length === branches.length;
+      if (complete ? Math.abs(sum - 1) > PROBABILITY_TOLERANCE : sum > 1 + PROBABILITY_TOLERANCE) {
+        diagnostics.push({
+          code: 'ubml/probability-sum',
+          severity: 'error',
+          message: `Outgoing probabilities of ${id} sum to ${Math.round(sum * 1e6) / 1e6} (expected 1)`,
+          path: ['links', weighted[0].index],
+        });
+      }
+    }
+
+    const defaults = branches.filter(({ link }) => link.isDefault);
+    if (defaults.length > 1) {
+      diagnostics.push({
+        code: 'ubml/multiple-defaults',
+        severity: 'error',
+        message: `Step ${id} has ${defaults.length} default links (to ${defaults.map(({ link }) => link.to).join(', ')}); only one is allowed`,
+        path: ['links', defaults[1].index],
+      });
+    }
+  }
+
+  // Cycles must be modelled as loops
+  const loops = loopBlockMembers((process.blocks ?? {}) as Record<string, Block>);
+  for (const cycle of cycles(stepIds, forward)) {
+    const carriedByStep = cycle.some((id) => steps[id].loop && steps[id].loop!.kind !== 'none');
+    const insideLoopBlock = loops.some((members) => cycle.every((id) => members.has(id)));
+    if (!carriedByStep && !insideLoopBlock) {
+      diagnostics.push({
+        code: 'ubml/uncovered-cycle',
+        severity: 'warning',
+        message: `Steps ${cycle.join(', ')} form a cycle that is not inside a loop block and has no step loop`,
+        path: ['steps', cycle[0]],
+      });
+    }
+  }
+
+  return diagnostics;
+}
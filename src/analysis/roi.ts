@@ -0,0 +1,264 @@
+/**
+ * ROI Calculator (Browser-Safe)
+ *
+ * Computes the `results` of an ROI analysis from its cost and benefit lines:
+ * totals, ROI %, NPV, IRR, payback period and the cash flow per period.
+ *
+ * Periods are months: period 0 is the project start and the analysis runs
+ * to `analysisPeriod` (default 36). One-time items occur at `startPeriod`
+ * (default 0). Recurring items occur every `frequency` interval from
+ * `startPeriod` (default 1, the first period after go-live) to `endPeriod`.
+ * `discountRate` and the IRR are annual rates.
+ *
+ * @module ubml/analysis/roi
+ */
+
+import type { ROI } from '../generated/types.js';
+
+// =============================================================================
+// Public Types
+// =============================================================================
+
+/**
+ * ROI results as stored in the `results` block of an ROI analysis.
+ */
+export type RoiResults = NonNullable<ROI['results']>;
+
+/**
+ * Cash flow of one period (month).
+ */
+export interface RoiPeriod {
+  period: number;
+  costs: number;
+  benefits: number;
+  /** Benefits minus costs */
+  net: number;
+  /** Net cash flow up to and including this period */
+  cumulative: number;
+}
+
+/**
+ * Result of an ROI calculation.
+ */
+export interface RoiCalculation {
+  currency: string;
+  periods: RoiPeriod[];
+  results: RoiResults;
+}
+
+/**
+ * A stored result that differs from the computed one.
+ */
+export interface RoiDiscrepancy {
+  field: keyof RoiResults;
+  /** Stored value */
+  stored: number;
+  /** Computed value (null when it cannot be computed, e.g. no payback) */
+  computed: number | null;
+}
+
+// =============================================================================
+// Calculation
+// =============================================================================
+
+type RoiComponent = ROI['costs'][number];
+
+const DEFAULT_ANALYSIS_PERIOD = 36;
+
+/** Months between occurrences of recurring items */
+const FREQUENCY_MONTHS: Record<string, number> = {
+  monthly: 1,
+  bimonthly: 2,
+  quarterly: 3,
+  semiannually: 6,
+  'semi-annually': 6,
+  annually: 12,
+  yearly: 12,
+};
+
+function roundMoney(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/**
+ * Periods in which a component occurs.
+ */
+function occurrences(component: RoiComponent, kind: string, horizon: number): number[] {
+  const recurring = component.timing === 'recurring' || (component.timing === undefined && component.frequency !== undefined);
+  if (!recurring) {
+    const period = component.startPeriod ?? 0;
+    return period <= horizon ? [period] : [];
+  }
+
+  const frequency = component.frequency ?? 'monthly';
+  const interval = FREQUENCY_MONTHS[frequency.toLowerCase()];
+  if (interval === undefined) {
+    throw new Error(
+      `${kind} "${component.name}": unknown frequency "${frequency}" (use ${Object.keys(FREQUENCY_MONTHS).join(', ')})`
+    );
+  }
+  const periods: number[] = [];
+  const end = Math.min(component.endPeriod ?? horizon, horizon);
+  for (let period = component.startPeriod ?? 1; period <= end; period += interval) {
+    periods.push(period);
+  }
+  return periods;
+}
+
+/**
+ * Net present value of monthly cash flows at a monthly rate.
+ */
+function presentValue(flows: number[], monthlyRate: number): number {
+  return flows.reduce((sum, flow, period) => sum + flow / Math.pow(1 + monthlyRate, period), 0);
+}
+
+/**
+ * Annual internal rate of return, or undefined when the cash flows have no
+ * single rate at which NPV is zero within the search range.
+ */
+function internalRateOfReturn(flows: number[]): number | undefined {
+  let low = -0.99;
+  let high = 10;
+  let lowValue = presentValue(flows, low);
+  if (lowValue === 0) return Math.pow(1 + low, 12) - 1;
+  if (Math.sign(lowValue) === Math.sign(presentValue(flows, high))) return undefined;
+
+  for (let i = 0; i < 200; i++) {
+    const middle = (low + high) / 2;
+    const value = presentValue(flows, middle);
+    if (Math.sign(value) === Math.sign(lowValue)) {
+      low = middle;
+      lowValue = value;
+    } else {
+      high = middle;
+    }
+  }
+  return Math.pow(1 + (low + high) / 2, 12) - 1;
+}
+
+/**
+ * Calculate an ROI analysis.
+ *
+ * @throws Error if components use different currencies or an unknown frequency
+ *
+ * @example
+ * ```typescript
+ * import { calculateRoi } from 'ubml';
+ *
+ * const { results, periods } = calculateRoi(document.roiAnalyses.ROI00001);
+ * console.log(results.npv?.amount, results.paybackMonths);
+ * ```
+ */
+export function calculateRoi(roi: ROI): RoiCalculation {
+  const horizon = roi.analysisPeriod ?? DEFAULT_ANALYSIS_PERIOD;
+  const components = [
+    ...roi.costs.map((component) => ({ component, kind: 'Cost', sign: -1 })),
+    ...roi.benefits.map((component) => ({ component, kind: 'Benefit', sign: 1 })),
+  ];
+
+  const currencies = [...new Set(components.map(({ component }) => component.amount.currency))];
+  if (currencies.length > 1) {
+    throw new Error(`ROI "${roi.name}" mixes currencies (${currencies.join(', ')})`);
+  }
+  const currency = currencies[0] ?? 'USD';
+
+  const periods: RoiPeriod[] = Array.from({ length: horizon + 1 }, (_, period) => ({
+    period,
+    costs: 0,
+    benefits: 0,
+    net: 0,
+    cumulative: 0,
+  }));
+  for (const { component, kind, sign } of components) {
+    for (const period of occurrences(component, kind, horizon)) {
+      if (sign < 0) periods[period].costs += component.amount.amount;
+      else periods[period].benefits += component.amount.amount;
+    }
+  }
+
+  let cumulative = 0;
+  for (const period of periods) {
+    period.net = period.benefits - period.costs;
+    cumulative += period.net;
+    period.cumulative = cumulative;
+  }
+
+  const totalCosts = periods.reduce((sum, period) => sum + period.costs, 0);
+  const totalBenefits = periods.reduce((sum, period) => sum + period.benefits, 0);
+  const flows = periods.map((period) => period.net);
+  const monthlyRate = Math.pow(1 + (roi.discountRate ?? 0), 1 / 12) - 1;
+
+  // Payback: first period from which the cumulative cash flow stays non-negative
+  let payback: number | undefined;
+  for (let index = periods.length - 1; index >= 0 && periods[index].cumulative >= 0; index--) {
+    payback = periods[index].period;
+  }
+
+  const irr = internalRateOfReturn(flows);
+  const money = (amount: number) => ({ amount: roundMoney(amount), currency });
+  const results: RoiResults = {
+    totalCosts: money(totalCosts),
+    totalBenefits: money(totalBenefits),
+    netBenefit: money(totalBenefits - totalCosts),
+    ...(totalCosts > 0 && { roiPercent: roundMoney(((totalBenefits - totalCosts) / totalCosts) * 100) }),
+    npv: money(presentValue(flows, monthlyRate)),
+    ...(payback !== undefined && { paybackMonths: payback }),
+    ...(irr !== undefined && { irr: Math.round(irr * 10000) / 10000 }),
+  };
+
+  return {
+    currency,
+    periods: periods.map((period) => ({
+      ...period,
+      costs: roundMoney(period.costs),
+      benefits: roundMoney(period.benefits),
+      net: roundMoney(period.net),
+      cumulative: roundMoney(period.cumulative),
+    })),
+    results,
+  };
+}
+
+// =============================================================================
+// Comparison
+// =============================================================================
+
+/** Allowed difference per field: money within 0.5% (at least 1), rates within half a point */
+function withinTolerance(field: keyof RoiResults, stored: number, computed: number): boolean {
+  switch (field) {
+    case 'paybackMonths':
+      return stored === computed;
+    case 'roiPercent':
+      return Math.abs(stored - computed) <= 0.5;
+    case 'irr':
+      return Math.abs(stored - computed) <= 0.005;
+    default:
+      return Math.abs(stored - computed) <= Math.max(1, Math.abs(computed) * 0.005);
+  }
+}
+
+/**
+ * Compare stored ROI results with computed ones.
+ *
+ * Only fields present in `stored` are compared, so partially filled results
+ * are not flagged for what they leave out. Money values must also use the
+ * computed currency.
+ */
+export function compareRoiResults(stored: RoiResults, computed: RoiResults): RoiDiscrepancy[] {
+  const discrepancies: RoiDiscrepancy[] = [];
+  for (const field of Object.keys(stored) as (keyof RoiResults)[]) {
+    const storedValue = stored[field];
+    const computedValue = computed[field];
+    if (storedValue === undefined) continue;
+
+    const storedNumber = typeof storedValue === 'number' ? storedValue : storedValue.amount;
+    const computedNumber = computedValue === undefined ? null : typeof computedValue === 'number' ? computedValue : computedValue.amount;
+    const sameCurrency =
+      typeof storedValue === 'number' || typeof computedValue !== 'object' || storedValue.currency === computedValue.currency;
+
+    if (computedNumber === null || !sameCurrency || !withinTolerance(field, storedNumber, computedNumber)) {
+      discrepancies.push({ field, stored: storedNumber, computed: computedNumber });
+    }
+  }
+  return discrepancies;
+}
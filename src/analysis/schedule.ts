@@ -0,0 +1,593 @@
+/**
+ * Critical Path Scheduler (Browser-Safe)
+ *
+ * Treats a process as a project plan and computes earliest and latest start
+ * and finish, total float and the critical path of its steps (CPM).
+ *
+ * MODEL
+ * - Times count working hours from the project start: days are 8 hours
+ *   (09:00-17:00), weeks 5 working days, weekends are skipped.
+ * - A step lasts its `duration`, or its `effort` when it has no duration.
+ *   Expression durations use distribution means and may not reference work
+ *   attributes.
+ * - Links are dependencies: `schedule.type` is finish-to-start (default),
+ *   start-to-start, finish-to-finish or start-to-finish, and `schedule.lag`
+ *   delays (positive) or overlaps (negative) the linked steps.
+ * - `constraint` with `constraintDate`: startNoEarlierThan and mustStartOn
+ *   bound the early start, mustFinishOn the early finish; finishNoLaterThan,
+ *   mustFinishOn and mustStartOn bound the late finish. alap steps are
+ *   scheduled at their late dates. Constraints that dependencies cannot
+ *   meet are reported as warnings and show up as negative float.
+ * - Date-only constraint dates mean the start (09:00) of the day for start
+ *   constraints and the end (17:00) of the day for finish constraints.
+ * - Only one branch of a decision is taken, so the schedule plans for the
+ *   longest one: the branch whose first step has the least float when all
+ *   branches are scheduled. Steps that only other branches lead to are left
+ *   out and listed as `alternatives`.
+ * - Critical paths are chains of critical steps joined by links that drive
+ *   the successor's early dates.
+ *
+ * @module ubml/analysis/schedule
+ */
+
+import type { Duration, Link, Phase, Process, ProcessDocument, SchedulingProperties, Step } from '../generated/types.js';
+import { evaluateExpression } from '../expression/evaluator.js';
+import { findProcess, resolvePhaseMembers } from '../export/common.js';
+import { DURATION_UNIT_HOURS, parseDuration } from '../utils/duration.js';
+
+// =============================================================================
+// Public Types
+// =============================================================================
+
+/**
+ * Scheduling dependency type of a link.
+ */
+export type DependencyType = NonNullable<SchedulingProperties['type']>;
+
+/**
+ * Schedule constraint type of a step.
+ */
+export type ScheduleConstraint = NonNullable<Step['constraint']>;
+
+/**
+ * Options for schedule computation.
+ */
+export interface ScheduleOptions {
+  /** Project start date (YYYY-MM-DD, default: today). Weekends move to the next Monday. */
+  start?: string;
+}
+
+/**
+ * Computed schedule of one step.
+ *
+ * Early and late times are working hours from the project start.
+ */
+export interface ScheduledStep {
+  id: string;
+  name: string;
+  /** Duration in working hours */
+  duration: number;
+  constraint?: ScheduleConstraint;
+  constraintDate?: string;
+  /** Phase the step belongs to (delivery phases first, then lifecycle phases) */
+  phase?: { id: string; name: string };
+  earlyStart: number;
+  earlyFinish: number;
+  lateStart: number;
+  lateFinish: number;
+  /** Late start minus early start; negative when constraints cannot be met */
+  totalFloat: number;
+  critical: boolean;
+  /** Calendar dates (YYYY-MM-DD HH:mm) of the early and late times */
+  dates: { earlyStart: string; earlyFinish: string; lateStart: string; lateFinish: string };
+  /** Scheduled start date: the early start, or the late start for alap steps */
+  start: string;
+  /** Scheduled finish date */
+  finish: string;
+}
+
+/**
+ * Result of a schedule computation.
+ */
+export interface ScheduleResult {
+  processId: string;
+  name: string;
+  /** Project start date (YYYY-MM-DD HH:mm) */
+  start: string;
+  /** Project finish date (YYYY-MM-DD HH:mm) */
+  finish: string;
+  /** Project duration in working hours */
+  duration: number;
+  /** Steps in schedule order (early start, then ID) */
+  steps: ScheduledStep[];
+  /** IDs of the critical steps in schedule order */
+  criticalPath: string[];
+  /** Chains of critical steps joined by driving links, in schedule order */
+  criticalPaths: string[][];
+  /** Steps on decision branches the schedule does not take, in process order */
+  alternatives: string[];
+  /** Constraint conflicts and steps without a duration */
+  warnings: string[];
+}
+
+// =============================================================================
+// Working Calendar
+// =============================================================================
+
+const HOURS_PER_DAY = DURATION_UNIT_HOURS.d;
+const DAY_START_HOUR = 9;
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+const EPSILON = 1e-6;
+
+const DATE_PATTERN = /^(\d{4})-(\d{2})-(\d{2})(?:[T ](\d{2}):(\d{2})(?::\d{2}(?:\.\d+)?)?(?:Z|[+-]\d{2}:?\d{2})?)?$/;
+
+function isWeekend(day: number): boolean {
+  const weekday = new Date(day * MS_PER_DAY).getUTCDay();
+  return weekday === 0 || weekday === 6;
+}
+
+/**
+ * Parse an ISO date into a day number and, for date-times, working hours into the day.
+ */
+function parseDate(value: string): { day: number; hours?: number } | undefined {
+  const match = value.trim().match(DATE_PATTERN);
+  if (!match) return undefined;
+  const [, year, month, date, hour, minute] = match;
+  const time = Date.UTC(Number(year), Number(month) - 1, Number(date));
+  if (new Date(time).getUTCDate() !== Number(date)) return undefined;
+  const day = time / MS_PER_DAY;
+  if (hour === undefined) return { day };
+  const hours = Number(hour) + Number(minute) / 60 - DAY_START_HOUR;
+  return { day, hours: Math.min(Math.max(hours, 0), HOURS_PER_DAY) };
+}
+
+interface Calendar {
+  /** Working hours from the project start to a constraint date */
+  toHours(value: string, atEnd: boolean): number | undefined;
+  /** Calendar date of working hours from the project start */
+  toDate(hours: number, atEnd: boolean): string;
+}
+
+function createCalendar(start: string | undefined): Calendar {
+  let startDay: number;
+  if (start === undefined) {
+    startDay = Math.floor(Date.now() / MS_PER_DAY);
+  } else {
+    const parsed = parseDate(start);
+    if (!parsed) throw new Error(`Invalid start date "${start}" (expected YYYY-MM-DD)`);
+    startDay = parsed.day;
+  }
+  while (isWeekend(startDay)) startDay++;
+
+  const workingDaysUntil = (day: number): number => {
+    let count = 0;
+    for (let current = startDay; current < day; current++) if (!isWeekend(current)) count++;
+    for (let current = day; current < startDay; current++) if (!isWeekend(current)) count--;
+    return count;
+  };
+
+  return {
+    toHours(value, atEnd) {
+      const parsed = parseDate(value);
+      if (!parsed) return undefined;
+      // A weekend date falls between the end of Friday and the start of Monday
+      const hours = isWeekend(parsed.day) ? 0 : parsed.hours ?? (atEnd ? HOURS_PER_DAY : 0);
+      return workingDaysUntil(parsed.day) * HOURS_PER_DAY + hours;
+    },
+    toDate(hours, atEnd) {
+      let days = Math.floor(hours / HOURS_PER_DAY + EPSILON);
+      let minutes = Math.round((hours - days * HOURS_PER_DAY) * 60);
+      if (atEnd && minutes === 0) {
+        days--;
+        minutes = HOURS_PER_DAY * 60;
+      }
+      let day = startDay;
+      for (let remaining = days; remaining > 0; ) {
+        day++;
+        if (!isWeekend(day)) remaining--;
+      }
+      for (let remaining = days; remaining < 0; ) {
+        day--;
+        if (!isWeekend(day)) remaining++;
+      }
+      const date = new Date(day * MS_PER_DAY + (DAY_START_HOUR * 60 + minutes) * 60 * 1000);
+      return date.toISOString().slice(0, 16).replace('T', ' ');
+    },
+  };
+}
+
+// =============================================================================
+// Durations and Dependencies
+// =============================================================================
+
+interface Dependency {
+  from: string;
+  to: string;
+  type: DependencyType;
+  lag: number;
+}
+
+/**
+ * Convert a duration or lag to working hours. Literals may be negative.
+ */
+function hoursOf(value: Duration | NonNullable<SchedulingProperties['lag']>, context: string): number {
+  if (typeof value === 'string' || 'fixed' in value) {
+    const literal = (typeof value === 'string' ? value : value.fixed).trim();
+    const negative = literal.startsWith('-');
+    const hours = parseDuration(negative ? literal.slice(1) : literal);
+    if (hours === undefined) {
+      throw new Error(`${context}: invalid duration "${literal}"`);
+    }
+    return negative ? -hours : hours;
+  }
+  let result: unknown;
+  try {
+    result = evaluateExpression(value.expr, {});
+  } catch (err) {
+    throw new Error(`${context}: ${err instanceof Error ? err.message : String(err)}`);
+  }
+  if (typeof result !== 'number' || !Number.isFinite(result)) {
+    throw new Error(`${context}: expression must evaluate to a number of hours`);
+  }
+  return result;
+}
+
+/**
+ * Order steps so that every step comes after its predecessors.
+ *
+ * @throws Error if the dependencies contain a cycle
+ */
+function topologicalOrder(processId: string, stepIds: string[], dependencies: Dependency[]): string[] {
+  const incoming = new Map(stepIds.map((id) => [id, 0]));
+  for (const dependency of dependencies) incoming.set(dependency.to, incoming.get(dependency.to)! + 1);
+
+  const ready = stepIds.filter((id) => incoming.get(id) === 0);
+  const order: string[] = [];
+  while (ready.length > 0) {
+    const id = ready.shift()!;
+    order.push(id);
+    for (const dependency of dependencies) {
+      if (dependency.from !== id) continue;
+      const remaining = incoming.get(dependency.to)! - 1;
+      incoming.set(dependency.to, remaining);
+      if (remaining === 0) ready.push(dependency.to);
+    }
+  }
+
+  if (order.length < stepIds.length) {
+    const cyclic = stepIds.filter((id) => !order.includes(id));
+    throw new Error(`Process ${processId} cannot be scheduled: dependency cycle through ${cyclic.join(', ')}`);
+  }
+  return order;
+}
+
+/**
+ * Phase of each step: delivery phases take precedence over lifecycle phases.
+ */
+function phasesOf(process: Process): Map<string, { id: string; name: string }> {
+  const phases = Object.entries((process.phases ?? {}) as Record<string, Phase>);
+  const result = new Map<string, { id: string; name: string }>();
+  for (const kind of ['delivery', 'lifecycle']) {
+    for (const [id, phase] of phases) {
+      if ((phase.kind ?? 'lifecycle') !== kind) continue;
+      for (const member of resolvePhaseMembers(phase, process)) {
+        if (!result.has(member)) result.set(member, { id, name: phase.name ?? id });
+      }
+    }
+  }
+  return result;
+}
+
+function round(value: number): number {
+  return Math.round(value * 1e6) / 1e6;
+}
+
+// =============================================================================
+// Schedule Passes
+// =============================================================================
+
+interface ScheduleModel {
+  steps: Map<string, Step>;
+  durations: Map<string, number>;
+  constraintHours: Map<string, number>;
+  calendar: Calendar;
+}
+
+interface ScheduleTimes {
+  earlyStart: Map<string, number>;
+  earlyFinish: Map<string, number>;
+  lateStart: Map<string, number>;
+  lateFinish: Map<string, number>;
+  projectFinish: number;
+  /** Constraints that dependencies cannot meet */
+  warnings: string[];
+}
+
+/**
+ * Forward and backward pass over steps in topological order.
+ */
+function computeTimes(order: string[], dependencies: Dependency[], model: ScheduleModel): ScheduleTimes {
+  const { steps, durations, constraintHours, calendar } = model;
+  const warnings: string[] = [];
+
+  // Forward pass: earliest start and finish
+  const earlyStart = new Map<string, number>();
+  const earlyFinish = new Map<string, number>();
+  for (const id of order) {
+    const duration = durations.get(id)!;
+    let start = 0;
+    for (const dependency of dependencies) {
+      if (dependency.to !== id) continue;
+      const predecessorStart = earlyStart.get(dependency.from)!;
+      const predecessorFinish = earlyFinish.get(dependency.from)!;
+      switch (dependency.type) {
+        case 'finish-to-start': start = Math.max(start, predecessorFinish + dependency.lag); break;
+        case 'start-to-start': start = Math.max(start, predecessorStart + dependency.lag); break;
+        case 'finish-to-finish': start = Math.max(start, predecessorFinish + dependency.lag - duration); break;
+        case 'start-to-finish': start = Math.max(start, predecessorStart + dependency.lag - duration); break;
+      }
+    }
+
+    const step = steps.get(id)!;
+    const date = constraintHours.get(id);
+    if (date !== undefined) {
+      if (step.constraint === 'startNoEarlierThan' || step.constraint === 'mustStartOn') {
+        if (step.constraint === 'mustStartOn' && start > date + EPSILON) {
+          warnings.push(`Step ${id} must start on ${step.constraintDate} but its dependencies allow ${calendar.toDate(start, false)} at the earliest`);
+        }
+        start = Math.max(start, date);
+      } else if (step.constraint === 'mustFinishOn') {
+        if (start + duration > date + EPSILON) {
+          warnings.push(`Step ${id} must finish on ${step.constraintDate} but its dependencies allow ${calendar.toDate(start + duration, true)} at the earliest`);
+        }
+        start = Math.max(start, date - duration);
+      } else if (step.constraint === 'finishNoLaterThan' && start + duration > date + EPSILON) {
+        warnings.push(`Step ${id} must finish by ${step.constraintDate} but its dependencies allow ${calendar.toDate(start + duration, true)} at the earliest`);
+      }
+    }
+    earlyStart.set(id, start);
+    earlyFinish.set(id, start + duration);
+  }
+
+  // Backward pass: latest start and finish
+  const projectFinish = Math.max(...earlyFinish.values());
+  const lateStart = new Map<string, number>();
+  const lateFinish = new Map<string, number>();
+  for (const id of [...order].reverse()) {
+    const duration = durations.get(id)!;
+    let finish = projectFinish;
+    for (const dependency of dependencies) {
+      if (dependency.from !== id) continue;
+      const successorStart = lateStart.get(dependency.to)!;
+      const successorFinish = lateFinish.get(dependency.to)!;
+      switch (dependency.type) {
+        case 'finish-to-start': finish = Math.min(finish, successorStart - dependency.lag); break;
+        case 'start-to-start': finish = Math.min(finish, successorStart - dependency.lag + duration); break;
+        case 'finish-to-finish': finish = Math.min(finish, successorFinish - dependency.lag); break;
+        case 'start-to-finish': finish = Math.min(finish, successorFinish - dependency.lag + duration); break;
+      }
+    }
+
+    const step = steps.get(id)!;
+    const date = constraintHours.get(id);
+    if (date !== undefined) {
+      if (step.constraint === 'finishNoLaterThan' || step.constraint === 'mustFinishOn') {
+        finish = Math.min(finish, date);
+      } else if (step.constraint === 'mustStartOn') {
+        finish = Math.min(finish, date + duration);
+      }
+    }
+    lateFinish.set(id, finish);
+    lateStart.set(id, finish - duration);
+  }
+
+  return { earlyStart, earlyFinish, lateStart, lateFinish, projectFinish, warnings };
+}
+
+/**
+ * Dependencies the schedule follows: all of them, except that each decision
+ * keeps only the link to the branch with the least float (the first such link on ties).
+ */
+function takenDependencies(order: string[], dependencies: Dependency[], steps: Map<string, Step>, times: ScheduleTimes): Dependency[] {
+  const dropped = new Set<Dependency>();
+  const floatOf = (id: string) => times.lateStart.get(id)! - times.earlyStart.get(id)!;
+  for (const id of order) {
+    if (steps.get(id)!.kind !== 'decision') continue;
+    const branches = dependencies.filter((dependency) => dependency.from === id);
+    if (branches.length < 2) continue;
+    const longest = branches.reduce((best, branch) => (floatOf(branch.to) < floatOf(best.to) - EPSILON ? branch : best));
+    for (const branch of branches) if (branch !== longest) dropped.add(branch);
+  }
+  return dependencies.filter((dependency) => !dropped.has(dependency));
+}
+
+/**
+ * Steps reached from the steps without predecessors along the taken dependencies.
+ */
+function reachableSteps(order: string[], dependencies: Dependency[], taken: Dependency[]): Set<string> {
+  const reached = new Set(order.filter((id) => !dependencies.some((dependency) => dependency.to === id)));
+  for (const id of order) {
+    if (!reached.has(id)) continue;
+    for (const dependency of taken) if (dependency.from === id) reached.add(dependency.to);
+  }
+  return reached;
+}
+
+/**
+ * Whether a dependency determines the early dates of its successor.
+ */
+function isDriving(dependency: Dependency, times: ScheduleTimes): boolean {
+  const predecessor = dependency.type === 'start-to-start' || dependency.type === 'start-to-finish'
+    ? times.earlyStart.get(dependency.from)!
+    : times.earlyFinish.get(dependency.from)!;
+  const successor = dependency.type === 'finish-to-finish' || dependency.type === 'start-to-finish'
+    ? times.earlyFinish.get(dependency.to)!
+    : times.earlyStart.get(dependency.to)!;
+  return Math.abs(predecessor + dependency.lag - successor) <= EPSILON;
+}
+
+/**
+ * Chains of critical steps along driving dependencies, from steps no
+ * critical predecessor drives to steps that drive no critical successor.
+ */
+function criticalChains(scheduled: ScheduledStep[], dependencies: Dependency[], times: ScheduleTimes): string[][] {
+  const critical = scheduled.filter((step) => step.critical).map((step) => step.id);
+  const position = new Map(critical.map((id, index) => [id, index]));
+  const next = new Map<string, string[]>(critical.map((id) => [id, []]));
+  const driven = new Set<string>();
+  for (const dependency of dependencies) {
+    if (!position.has(dependency.from) || !position.has(dependency.to) || !isDriving(dependency, times)) continue;
+    next.get(dependency.from)!.push(dependency.to);
+    driven.add(dependency.to);
+  }
+  for (const successors of next.values()) successors.sort((a, b) => position.get(a)! - position.get(b)!);
+
+  const chains: string[][] = [];
+  const walk = (chain: string[]): void => {
+    const successors = next.get(chain[chain.length - 1])!;
+    if (successors.length === 0) chains.push(chain);
+    for (const successor of successors) walk([...chain, successor]);
+  };
+  for (const id of critical) if (!driven.has(id)) walk([id]);
+  return chains;
+}
+
+// =============================================================================
+// Public API
+// =============================================================================
+
+/**
+ * Compute the critical path schedule of a process.
+ *
+ * @param document - Parsed process document content
+ * @param processId - Process to schedule (top-level or subprocess)
+ * @param options - Schedule options
+ * @throws Error if the process is not found, has a dependency cycle, or has invalid durations or constraint dates
+ *
+ * @example
+ * ```typescript
+ * import { schedule } from 'ubml';
+ *
+ * const plan = schedule(content, 'PR00001', { start: '2025-03-03' });
+ * console.log(plan.finish, plan.criticalPath);
+ * ```
+ */
+export function schedule(document: ProcessDocument, processId: string, options: ScheduleOptions = {}): ScheduleResult {
+  const process = findProcess(document, processId);
+  if (!process) {
+    throw new Error(`Process ${processId} not found in document`);
+  }
+  const stepEntries = Object.entries((process.steps ?? {}) as Record<string, Step>);
+  if (stepEntries.length === 0) {
+    throw new Error(`Process ${processId} has no steps`);
+  }
+
+  const calendar = createCalendar(options.start);
+  const steps = new Map(stepEntries);
+  const warnings: string[] = [];
+
+  const durations = new Map<string, number>();
+  for (const [id, step] of stepEntries) {
+    const value = step.duration ?? step.effort;
+    if (value === undefined) {
+      if (!['start', 'end', 'milestone', 'decision'].includes(step.kind ?? 'action')) {
+        warnings.push(`Step ${id} has no duration or effort; scheduled as 0h`);
+      }
+      durations.set(id, 0);
+      continue;
+    }
+    const hours = hoursOf(value, `Step ${id} ${step.duration !== undefined ? 'duration' : 'effort'}`);
+    if (hours < 0) throw new Error(`Step ${id} duration must not be negative`);
+    durations.set(id, hours);
+  }
+
+  const dependencies: Dependency[] = [];
+  for (const link of (process.links ?? []) as Link[]) {
+    if (!steps.has(link.from) || !steps.has(link.to)) continue;
+    dependencies.push({
+      from: link.from,
+      to: link.to,
+      type: link.schedule?.type ?? 'finish-to-start',
+      lag: link.schedule?.lag === undefined ? 0 : hoursOf(link.schedule.lag, `Link ${link.from} -> ${link.to} lag`),
+    });
+  }
+  const order = topologicalOrder(processId, stepEntries.map(([id]) => id), dependencies);
+
+  const constraintHours = new Map<string, number>();
+  for (const [id, step] of stepEntries) {
+    if (!step.constraint || step.constraint === 'asap' || step.constraint === 'alap') continue;
+    if (!step.constraintDate) {
+      throw new Error(`Step ${id} has constraint ${step.constraint} but no constraintDate`);
+    }
+    const atEnd = step.constraint === 'mustFinishOn' || step.constraint === 'finishNoLaterThan';
+    const hours = calendar.toHours(step.constraintDate, atEnd);
+    if (hours === undefined) {
+      throw new Error(`Step ${id} has invalid constraintDate "${step.constraintDate}" (expected an ISO 8601 date)`);
+    }
+    constraintHours.set(id, hours);
+  }
+
+  let times = computeTimes(order, dependencies, { steps, durations, constraintHours, calendar });
+
+  // Plan each decision for its longest branch and drop the steps only the others lead to
+  const alternatives = new Set<string>();
+  let followed = dependencies;
+  const taken = takenDependencies(order, dependencies, steps, times);
+  if (taken.length < dependencies.length) {
+    const reached = reachableSteps(order, dependencies, taken);
+    for (const id of order) if (!reached.has(id)) alternatives.add(id);
+    followed = taken.filter((dependency) => reached.has(dependency.from));
+    times = computeTimes(order.filter((id) => reached.has(id)), followed, { steps, durations, constraintHours, calendar });
+  }
+  const { earlyStart, earlyFinish, lateStart, lateFinish, projectFinish } = times;
+
+  const phases = phasesOf(process);
+  const scheduled: ScheduledStep[] = stepEntries
+    .filter(([id]) => !alternatives.has(id))
+    .map(([id, step]) => {
+      const es = earlyStart.get(id)!;
+      const ef = earlyFinish.get(id)!;
+      const ls = lateStart.get(id)!;
+      const lf = lateFinish.get(id)!;
+      // Milestones at a day boundary show at the end of the day their predecessors finish
+      const milestone = durations.get(id) === 0;
+      const dates = {
+        earlyStart: calendar.toDate(es, milestone && es > 0),
+        earlyFinish: calendar.toDate(ef, ef > 0),
+        lateStart: calendar.toDate(ls, milestone && ls > 0),
+        lateFinish: calendar.toDate(lf, lf > 0),
+      };
+      const alap = step.constraint === 'alap';
+      return {
+        id,
+        name: step.name,
+        duration: round(durations.get(id)!),
+        ...(step.constraint && { constraint: step.constraint }),
+        ...(step.constraintDate && { constraintDate: step.constraintDate }),
+        ...(phases.has(id) && { phase: phases.get(id) }),
+        earlyStart: round(es),
+        earlyFinish: round(ef),
+        lateStart: round(ls),
+        lateFinish: round(lf),
+        totalFloat: round(ls - es),
+        critical: ls - es <= EPSILON,
+        dates,
+        start: alap ? dates.lateStart : dates.earlyStart,
+        finish: alap ? dates.lateFinish : dates.earlyFinish,
+      };
+    });
+  scheduled.sort((a, b) => a.earlyStart - b.earlyStart || a.earlyFinish - b.earlyFinish || a.id.localeCompare(b.id));
+
+  return {
+    processId,
+    name: process.name,
+    start: calendar.toDate(0, false),
+    finish: calendar.toDate(projectFinish, projectFinish > 0),
+    duration: round(projectFinish),
+    steps: scheduled,
+    criticalPath: scheduled.filter((step) => step.critical).map((step) => step.id),
+    criticalPaths: criticalChains(scheduled, followed, times),
+    alternatives: [...alternatives],
+    warnings: [...warnings, ...times.warnings],
+  };
+}
@@ -0,0 +1,171 @@
+/**
+ * Cost command for UBML CLI.
+ *
+ * Computes the expected cost per case of a process from step work, actor
+ * and resource pool rates, fixed costs, loops and link probabilities, and
+ * reports it step by step.
+ *
+ * @module ubml/cli/commands/cost
+ */
+
+import { Command } from 'commander';
+import chalk from 'chalk';
+import { writeFileSync } from 'fs';
+import { resolve } from 'path';
+import { glob } from 'glob';
+import { getUBMLFilePatterns } from '../../metadata.js';
+import { calculateProcessCost, parseFile, type ProcessCost, type UBMLDocument } from '../../node/index';
+import { INDENT, dim, header, subheader, success, warning } from '../formatters/text';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+interface CostCommandOptions {
+  dir: string;
+  currency?: string;
+  format: 'text' | 'json';
+  output?: string;
+}
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+/**
+ * Parse all UBML documents in a workspace directory.
+ */
+async function loadDocuments(dir: string): Promise<UBMLDocument[]> {
+  const files = await glob(getUBMLFilePatterns(), { cwd: dir, absolute: true, ignore: '**/node_modules/**' });
+  const documents: UBMLDocument[] = [];
+  for (const file of [...new Set(files)].sort()) {
+    const result = await parseFile(file);
+    if (result.ok && result.document) {
+      documents.push(result.document);
+    } else {
+      console.error(warning(`Skipping ${file}: ${result.errors[0]?.message ?? 'parse failed'}`));
+    }
+  }
+  return documents;
+}
+
+function formatAmount(amount: number): string {
+  return amount.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+}
+
+function formatNumber(value: number): string {
+  return Number.isInteger(value) ? String(value) : value.toFixed(2);
+}
+
+/**
+ * Format a process cost as a text report.
+ */
+function formatReport(cost: ProcessCost): string {
+  const lines: string[] = [];
+  lines.push(header(`Cost: ${cost.processId} ${cost.name}`));
+  lines.push(`${INDENT}Cost per case   ${formatAmount(cost.costPerCase)} ${cost.currency}`);
+  lines.push(`${INDENT}Hours per case  ${formatNumber(cost.hoursPerCase)}h ${dim('(working hours of its own steps)')}`);
+  lines.push('');
+
+  lines.push(subheader(`Steps (${cost.currency})`));
+  if (cost.steps.length === 0) {
+    lines.push(dim(`${INDENT}No steps`));
+  } else {
+    const rows = cost.steps.map((step) => [
+      `${step.id} ${step.name}`,
+      step.pool ?? step.actor ?? '-',
+      step.hours === undefined ? '-' : formatNumber(step.hours),
+      step.hourlyRate === undefined ? '-' : formatAmount(step.hourlyRate),
+      formatNumber(step.executions),
+      formatAmount(step.unitCost),
+      formatAmount(step.cost),
+      `${(step.share * 100).toFixed(1)}%`,
+    ]);
+    const headings = ['Step', 'Resource', 'Hours', 'Rate/h', 'Runs', 'Unit cost', 'Cost/case', 'Share'];
+    const widths = headings.map((heading, column) => Math.max(heading.length, ...rows.map((row) => row[column].length)));
+    const format = (row: string[]) =>
+      INDENT + row.map((cell, column) => (column < 2 ? cell.padEnd(widths[column]) : cell.padStart(widths[column]))).join('  ');
+    lines.push(dim(format(headings)));
+    for (const row of rows) lines.push(format(row));
+  }
+
+  if (cost.contingentCalls.length > 0) {
+    lines.push('');
+    lines.push(subheader('Calls on errors and timeouts (not in the cost per case)'));
+    for (const call of cost.contingentCalls) {
+      lines.push(`${INDENT}${call.step} on ${call.on}: ${call.process} ${formatAmount(call.cost)} ${cost.currency} per call`);
+    }
+  }
+
+  if (cost.warnings.length > 0) {
+    lines.push('');
+    lines.push(subheader('Warnings'));
+    for (const message of cost.warnings) lines.push(`${INDENT}${warning(message)}`);
+  }
+
+  return lines.join('\n') + '\n';
+}
+
+// =============================================================================
+// Command Handler
+// =============================================================================
+
+async function runCost(processId: string, options: CostCommandOptions): Promise<void> {
+  if (options.format !== 'text' && options.format !== 'json') {
+    console.error(chalk.red(`Unknown format "${options.format}" (expected text or json)`));
+    process.exit(1);
+  }
+
+  const documents = await loadDocuments(resolve(options.dir));
+  if (documents.length === 0) {
+    console.error(chalk.red(`No UBML files found in ${options.dir}`));
+    process.exit(1);
+  }
+
+  let cost: ProcessCost;
+  try {
+    cost = calculateProcessCost(documents, processId, { currency: options.currency });
+  } catch (err) {
+    console.error(chalk.red(err instanceof Error ? err.message : String(err)));
+    process.exit(1);
+  }
+
+  const output = options.format === 'json' ? JSON.stringify(cost, null, 2) + '\n' : formatReport(cost);
+  if (options.output) {
+    writeFileSync(resolve(options.output), output, 'utf8');
+    console.error(success(`Wrote ${options.output}`));
+  } else {
+    process.stdout.write(output);
+  }
+}
+
+// =============================================================================
+// Command Definition
+// =============================================================================
+
+/**
+ * Create the cost command.
+ */
+export function costCommand(): Command {
+  return new Command('cost')
+    .description('Compute the expected cost per case of a process')
+    .argument('<process-id>', 'Process to cost (e.g., PR00001)')
+    .option('-d, --dir <dir>', 'Workspace directory', '.')
+    .option('-c, --currency <code>', 'Currency of the result (default: workspace defaults.currency)')
+    .option('-f, --format <format>', 'Output format: text, json', 'text')
+    .option('-o, --output <file>', 'Write the report to a file instead of stdout')
+    .addHelpText('after', `
+${chalk.bold('Examples:')}
+  ${chalk.cyan('ubml cost PR00001')}
+  ${chalk.cyan('ubml cost PR00001 --currency EUR -f json -o cost.json')}
+
+${chalk.bold('Notes:')}
+  Labor is step effort (or duration) in working hours times the rate of the
+  first responsible actor, or of its resource pool. fixedCost replaces labor.
+  Called processes count when they run on every execution (synchronous or
+  on: complete); calls on errors and timeouts are listed separately.
+  Executions follow link probabilities, loops and rework links; other
+  currencies are converted with defaults.exchangeRates of the workspace.
+`)
+    .action(runCost);
+}
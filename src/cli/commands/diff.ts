@@ -0,0 +1,136 @@
+/**
+ * Diff command for UBML CLI.
+ *
+ * Compares two workspace revisions (git revisions or directories) element
+ * by element, using IDs, and reports added, removed and changed elements
+ * with their property changes.
+ *
+ * @module ubml/cli/commands/diff
+ */
+
+import { Command } from 'commander';
+import chalk from 'chalk';
+import {
+  diffRevisions,
+  toDiffMarkdown,
+  type ElementChange,
+  type RevisionDiff,
+} from '../../node/index';
+import { INDENT, dim, header, warning } from '../formatters/text';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+interface DiffCommandOptions {
+  dir: string;
+  format: 'text' | 'json' | 'markdown';
+}
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+const KIND_MARKERS: Record<ElementChange['kind'], string> = {
+  added: chalk.green('+'),
+  removed: chalk.red('-'),
+  changed: chalk.yellow('~'),
+};
+
+function formatValue(value: unknown): string {
+  if (value === undefined) return dim('(none)');
+  return JSON.stringify(value) ?? String(value);
+}
+
+/**
+ * Format a diff as a text report.
+ */
+function formatReport(diff: RevisionDiff): string {
+  const lines: string[] = ['', header(`Changes from ${diff.before} to ${diff.after}`), ''];
+
+  if (diff.changes.length === 0) {
+    lines.push(dim(`${INDENT}No model changes`), '');
+    return lines.join('\n') + '\n';
+  }
+
+  for (const change of diff.changes) {
+    const name = change.name ? ` ${change.name}` : '';
+    const context = [change.parent ? `in ${change.parent}` : undefined, change.path].filter(Boolean).join(', ');
+    const moved = change.movedFrom ? `, moved from ${change.movedFrom}` : '';
+    lines.push(`${INDENT}${KIND_MARKERS[change.kind]} ${change.type} ${chalk.bold(change.id)}${name}  ${dim(`(${context}${moved})`)}`);
+    for (const property of change.changes) {
+      lines.push(`${INDENT}${INDENT}${property.property}: ${formatValue(property.before)} ${dim('->')} ${formatValue(property.after)}`);
+    }
+  }
+  lines.push('');
+
+  const totals = diff.summary.map((entry) => {
+    const parts = [
+      entry.added ? chalk.green(`+${entry.added}`) : '',
+      entry.removed ? chalk.red(`-${entry.removed}`) : '',
+      entry.changed ? chalk.yellow(`~${entry.changed}`) : '',
+    ].filter(Boolean);
+    return `${entry.type} ${parts.join(' ')}`;
+  });
+  lines.push(`${INDENT}${totals.join(dim(', '))}`, '');
+
+  return lines.join('\n') + '\n';
+}
+
+// =============================================================================
+// Command Handler
+// =============================================================================
+
+async function runDiff(before: string, after: string | undefined, options: DiffCommandOptions): Promise<void> {
+  if (!['text', 'json', 'markdown'].includes(options.format)) {
+    console.error(chalk.red(`Unknown format "${options.format}" (expected text, json or markdown)`));
+    process.exit(1);
+  }
+
+  let diff: RevisionDiff;
+  try {
+    diff = await diffRevisions(before, after ?? options.dir, { cwd: options.dir });
+  } catch (err) {
+    console.error(chalk.red(err instanceof Error ? err.message : String(err)));
+    process.exit(1);
+  }
+
+  for (const message of diff.warnings) {
+    console.error(warning(`Skipped ${message}`));
+  }
+
+  process.stdout.write(
+    options.format === 'json' ? JSON.stringify(diff, null, 2) + '\n' :
+    options.format === 'markdown' ? toDiffMarkdown(diff) :
+    formatReport(diff)
+  );
+}
+
+// =============================================================================
+// Command Definition
+// =============================================================================
+
+/**
+ * Create the diff command.
+ */
+export function diffCommand(): Command {
+  return new Command('diff')
+    .description('Compare two workspace revisions element by element')
+    .argument('<before>', 'Older revision: git revision (branch, tag, commit) or directory')
+    .argument('[after]', 'Newer revision: git revision or directory (default: the workspace directory)')
+    .option('-d, --dir <dir>', 'Workspace directory (git revisions are read for this directory)', '.')
+    .option('-f, --format <format>', 'Output format: text, json, markdown', 'text')
+    .addHelpText('after', `
+${chalk.bold('Examples:')}
+  ${chalk.cyan('ubml diff main')}                       Working tree against main
+  ${chalk.cyan('ubml diff main feature/claims')}        Two branches
+  ${chalk.cyan('ubml diff ./v1 ./v2')}                  Two directories
+  ${chalk.cyan('ubml diff origin/main HEAD -f markdown')}  Summary for a PR comment
+
+${chalk.bold('Notes:')}
+  Elements are matched by ID; links by their from and to steps. A renamed
+  label shows as a changed name, a rerouted decision as a removed and an
+  added link.
+`)
+    .action(runDiff);
+}
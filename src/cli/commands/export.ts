@@ -0,0 +1,329 @@
+/**
+ * Export command for UBML CLI.
+ *
+ * Converts UBML documents into formats understood by other tools:
+ * BPMN 2.0 XML, Mermaid flowcharts, Graphviz DOT graphs, sequence
+ * diagrams (Mermaid or PlantUML) and ArchiMate Open Exchange XML.
+ *
+ * @module ubml/cli/commands/export
+ */
+
+import { Command } from 'commander';
+import chalk from 'chalk';
+import { writeFileSync } from 'fs';
+import { dirname, resolve } from 'path';
+import { glob } from 'glob';
+import { getUBMLFilePatterns } from '../../metadata.js';
+import {
+  parseFile,
+  toArchimate,
+  toBpmn,
+  toDot,
+  toMermaid,
+  toSequenceDiagram,
+  type Actor,
+  type ActorsDocument,
+  type DiagramOptions,
+  type LinksDocument,
+  type ProcessDocument,
+  type UBMLDocument,
+} from '../../node/index';
+import { INDENT, dim, success, warning } from '../formatters/text';
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+/**
+ * Load a process document or exit with an error.
+ */
+async function loadProcessDocument(file: string): Promise<ProcessDocument> {
+  const result = await parseFile<ProcessDocument>(file);
+  if (!result.ok || !result.document) {
+    console.error(chalk.red(`Failed to parse ${file}`));
+    for (const err of result.errors) {
+      console.error(chalk.red(`${INDENT}${err.message}`));
+    }
+    process.exit(1);
+  }
+  if (result.document.meta.type !== 'process') {
+    console.error(chalk.red(`Not a process document: ${file}`));
+    process.exit(1);
+  }
+  return result.document.content;
+}
+
+/**
+ * Load all documents of one type found in a workspace directory.
+ */
+async function loadWorkspaceDocuments<T>(dir: string, type: string): Promise<T[]> {
+  const files = await glob([`**/*.${type}.ubml.yaml`, `**/${type}.ubml.yaml`], { cwd: dir, absolute: true, ignore: '**/node_modules/**' });
+  const documents: T[] = [];
+  for (const file of files.sort()) {
+    const result = await parseFile<T>(file);
+    if (result.ok && result.document) {
+      documents.push(result.document.content);
+    }
+  }
+  return documents;
+}
+
+/**
+ * Write output to a file or stdout.
+ */
+function writeOutput(content: string, output: string | undefined): void {
+  if (output) {
+    writeFileSync(resolve(output), content, 'utf8');
+    console.error(success(`Wrote ${output}`));
+  } else {
+    process.stdout.write(content);
+  }
+}
+
+// =============================================================================
+// BPMN Subcommand
+// =============================================================================
+
+interface BpmnOptions {
+  output?: string;
+  process?: string;
+  dir?: string;
+  report?: string;
+}
+
+async function exportBpmn(file: string, options: BpmnOptions): Promise<void> {
+  const document = await loadProcessDocument(file);
+  const linksDocuments = await loadWorkspaceDocuments<LinksDocument>(resolve(options.dir ?? dirname(resolve(file))), 'links');
+
+  let result;
+  try {
+    result = toBpmn(document, { processId: options.process, linksDocuments });
+  } catch (err) {
+    console.error(chalk.red(err instanceof Error ? err.message : String(err)));
+    process.exit(1);
+  }
+
+  writeOutput(result.xml, options.output);
+
+  if (options.report) {
+    writeFileSync(resolve(options.report), JSON.stringify({ losses: result.losses }, null, 2) + '\n', 'utf8');
+    console.error(success(`Wrote loss report to ${options.report}`));
+  }
+
+  // Loss summary goes to stderr so stdout stays valid XML
+  if (result.losses.length > 0) {
+    console.error(warning(`${result.losses.length} construct(s) not representable in BPMN:`));
+    for (const loss of result.losses) {
+      const where = loss.elementId ? `${loss.processId}/${loss.elementId}` : loss.processId;
+      console.error(`${INDENT}${dim(`[${loss.construct}]`)} ${where}: ${loss.message}`);
+    }
+  }
+}
+
+// =============================================================================
+// Diagram Subcommands
+// =============================================================================
+
+interface DiagramCommandOptions {
+  output?: string;
+  process?: string;
+  direction: string;
+  phaseKind: string;
+}
+
+/**
+ * Create an action that renders a process document as a diagram.
+ */
+function exportDiagram(render: (document: ProcessDocument, options: DiagramOptions) => string) {
+  return async (file: string, options: DiagramCommandOptions): Promise<void> => {
+    const direction = options.direction.toUpperCase();
+    if (direction !== 'LR' && direction !== 'TB') {
+      console.error(chalk.red(`Invalid direction: ${options.direction} (use LR or TB)`));
+      process.exit(1);
+    }
+    if (options.phaseKind !== 'lifecycle' && options.phaseKind !== 'delivery') {
+      console.error(chalk.red(`Invalid phase kind: ${options.phaseKind} (use lifecycle or delivery)`));
+      process.exit(1);
+    }
+
+    const document = await loadProcessDocument(file);
+    let output: string;
+    try {
+      output = render(document, {
+        processId: options.process,
+        direction,
+        phaseKind: options.phaseKind,
+      });
+    } catch (err) {
+      console.error(chalk.red(err instanceof Error ? err.message : String(err)));
+      process.exit(1);
+    }
+    writeOutput(output, options.output);
+  };
+}
+
+// =============================================================================
+// Sequence Subcommand
+// =============================================================================
+
+interface SequenceCommandOptions {
+  output?: string;
+  process?: string;
+  format: string;
+  dir?: string;
+}
+
+async function exportSequence(file: string, options: SequenceCommandOptions): Promise<void> {
+  if (options.format !== 'mermaid' && options.format !== 'plantuml') {
+    console.error(chalk.red(`Invalid format: ${options.format} (use mermaid or plantuml)`));
+    process.exit(1);
+  }
+
+  const document = await loadProcessDocument(file);
+  const actorsDocuments = await loadWorkspaceDocuments<ActorsDocument>(resolve(options.dir ?? dirname(resolve(file))), 'actors');
+  const actors: Record<string, Actor> = {};
+  for (const actorsDocument of actorsDocuments) {
+    Object.assign(actors, actorsDocument.actors ?? {});
+  }
+
+  let output: string;
+  try {
+    output = toSequenceDiagram(document, {
+      processId: options.process,
+      format: options.format,
+      actors,
+    });
+  } catch (err) {
+    console.error(chalk.red(err instanceof Error ? err.message : String(err)));
+    process.exit(1);
+  }
+  writeOutput(output, options.output);
+}
+
+// =============================================================================
+// ArchiMate Subcommand
+// =============================================================================
+
+interface ArchimateCommandOptions {
+  output?: string;
+  name?: string;
+}
+
+async function exportArchimate(workspace: string, options: ArchimateCommandOptions): Promise<void> {
+  const dir = resolve(workspace);
+  const files = await glob(getUBMLFilePatterns(), { cwd: dir, absolute: true, ignore: '**/node_modules/**' });
+  if (files.length === 0) {
+    console.error(chalk.red(`No UBML files found in ${workspace}`));
+    process.exit(1);
+  }
+
+  const documents: UBMLDocument[] = [];
+  for (const file of [...new Set(files)].sort()) {
+    const result = await parseFile(file);
+    if (result.ok && result.document) {
+      documents.push(result.document);
+    } else {
+      console.error(warning(`Skipping ${file}: ${result.errors[0]?.message ?? 'parse failed'}`));
+    }
+  }
+
+  writeOutput(toArchimate(documents, { name: options.name }), options.output);
+}
+
+// =============================================================================
+// Command Definition
+// =============================================================================
+
+/**
+ * Create the export command.
+ */
+export function exportCommand(): Command {
+  const command = new Command('export')
+    .description('Export UBML documents to other modeling formats');
+
+  command
+    .command('bpmn')
+    .description('Export a process document as BPMN 2.0 XML')
+    .argument('<process-file>', 'Process document (*.process.ubml.yaml)')
+    .option('-o, --output <file>', 'Write XML to file instead of stdout')
+    .option('-p, --process <id>', 'Export only this process (e.g., PR00001)')
+    .option('-d, --dir <dir>', 'Workspace directory to search for links documents (default: file directory)')
+    .option('-r, --report <file>', 'Write the loss report as JSON')
+    .addHelpText('after', `
+${chalk.bold('Examples:')}
+  ${chalk.cyan('ubml export bpmn order.process.ubml.yaml')}
+  ${chalk.cyan('ubml export bpmn order.process.ubml.yaml -o order.bpmn --report losses.json')}
+
+${chalk.bold('Notes:')}
+  Constructs without a BPMN equivalent (probabilities, messages, cross-process
+  links, ...) are listed in the loss report instead of being dropped silently.
+`)
+    .action(exportBpmn);
+
+  command
+    .command('mermaid')
+    .description('Render a process document as a Mermaid flowchart')
+    .argument('<process-file>', 'Process document (*.process.ubml.yaml)')
+    .option('-o, --output <file>', 'Write diagram to file instead of stdout')
+    .option('-p, --process <id>', 'Render only this process (e.g., PR00001)')
+    .option('--direction <dir>', 'Layout direction: LR or TB', 'LR')
+    .option('--phase-kind <kind>', 'Phases to draw as clusters: lifecycle or delivery', 'lifecycle')
+    .addHelpText('after', `
+${chalk.bold('Examples:')}
+  ${chalk.cyan('ubml export mermaid order.process.ubml.yaml --process PR00001')}
+  ${chalk.cyan('ubml export mermaid order.process.ubml.yaml -o docs/order.mmd')}
+`)
+    .action(exportDiagram(toMermaid));
+
+  command
+    .command('dot')
+    .description('Render a process document as a Graphviz DOT graph')
+    .argument('<process-file>', 'Process document (*.process.ubml.yaml)')
+    .option('-o, --output <file>', 'Write graph to file instead of stdout')
+    .option('-p, --process <id>', 'Render only this process (e.g., PR00001)')
+    .option('--direction <dir>', 'Layout direction: LR or TB', 'LR')
+    .option('--phase-kind <kind>', 'Phases to draw as clusters: lifecycle or delivery', 'lifecycle')
+    .addHelpText('after', `
+${chalk.bold('Examples:')}
+  ${chalk.cyan('ubml export dot order.process.ubml.yaml | dot -Tsvg -o order.svg')}
+`)
+    .action(exportDiagram(toDot));
+
+  command
+    .command('sequence')
+    .description('Render the messages of a process as a sequence diagram')
+    .argument('<process-file>', 'Process document (*.process.ubml.yaml)')
+    .option('-o, --output <file>', 'Write diagram to file instead of stdout')
+    .option('-p, --process <id>', 'Process to render (required if the document has several)')
+    .option('-f, --format <format>', 'Notation: mermaid or plantuml', 'mermaid')
+    .option('-d, --dir <dir>', 'Workspace directory to search for actors documents (default: file directory)')
+    .addHelpText('after', `
+${chalk.bold('Examples:')}
+  ${chalk.cyan('ubml export sequence order.process.ubml.yaml')}
+  ${chalk.cyan('ubml export sequence order.process.ubml.yaml -p PR00001 -f plantuml -o order.puml')}
+
+${chalk.bold('Notes:')}
+  Participants are the performers and systems of steps and the recipients of
+  their messages. par, alt, opt and loop blocks become combined fragments.
+`)
+    .action(exportSequence);
+
+  command
+    .command('archimate')
+    .description('Export a workspace as an ArchiMate Open Exchange Format model')
+    .argument('[workspace]', 'Workspace directory', '.')
+    .option('-o, --output <file>', 'Write XML to file instead of stdout')
+    .option('-n, --name <name>', 'Model name (default: workspace name)')
+    .addHelpText('after', `
+${chalk.bold('Examples:')}
+  ${chalk.cyan('ubml export archimate . -o model.xml')}
+
+${chalk.bold('Notes:')}
+  Actors, systems, processes, steps, entities, capabilities and value streams
+  become ArchiMate elements. The file can be imported in Archi via
+  File > Import > Model from Open Exchange File.
+`)
+    .action(exportArchimate);
+
+  return command;
+}
@@ -0,0 +1,129 @@
+/**
+ * Fmt command for UBML CLI.
+ *
+ * Formats UBML documents canonically (key order, ID order, quoting and
+ * indentation) while keeping comments. With --check, reports files that
+ * are not formatted and exits non-zero, for use in CI.
+ *
+ * @module ubml/cli/commands/fmt
+ */
+
+import { Command } from 'commander';
+import chalk from 'chalk';
+import { statSync } from 'fs';
+import { relative, resolve } from 'path';
+import { formatFile, nodeFS } from '../../node/index';
+import { INDENT, dim, success, warning } from '../formatters/text';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+interface FmtOptions {
+  check?: boolean;
+}
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+/**
+ * Expand the given paths into UBML files, searching directories recursively.
+ * Also used by the migrate command.
+ */
+export async function collectFiles(paths: string[]): Promise<string[]> {
+  const files: string[] = [];
+  for (const path of paths) {
+    const absolutePath = resolve(path);
+    let isDirectory: boolean;
+    try {
+      isDirectory = statSync(absolutePath).isDirectory();
+    } catch {
+      console.error(chalk.red(`Path not found: ${path}`));
+      process.exit(1);
+    }
+
+    if (!isDirectory) {
+      files.push(absolutePath);
+      continue;
+    }
+    const matches = await nodeFS.glob('**/*.ubml.yaml', { cwd: absolutePath });
+    files.push(
+      ...matches
+        .filter((match) => !relative(absolutePath, match).split(/[\\/]/).some((s) => s.startsWith('.') || s === 'node_modules'))
+        .sort()
+    );
+  }
+  return [...new Set(files)];
+}
+
+// =============================================================================
+// Command Handler
+// =============================================================================
+
+async function runFmt(paths: string[], options: FmtOptions): Promise<void> {
+  const files = await collectFiles(paths.length > 0 ? paths : ['.']);
+  const changed: string[] = [];
+  let failed = 0;
+
+  for (const file of files) {
+    const display = relative(process.cwd(), file) || file;
+    try {
+      if (await formatFile(file, { check: options.check })) {
+        changed.push(display);
+      }
+    } catch (err) {
+      failed++;
+      console.error(chalk.red(`${display}: ${err instanceof Error ? err.message : String(err)}`));
+    }
+  }
+
+  if (options.check) {
+    for (const file of changed) {
+      console.log(`${INDENT}${warning(file)}`);
+    }
+    if (changed.length > 0) {
+      console.log();
+      console.log(chalk.red(`${changed.length} of ${files.length} file${files.length === 1 ? '' : 's'} not formatted. Run ${chalk.cyan('ubml fmt')} to fix.`));
+    } else if (failed === 0) {
+      console.log(success(`All ${files.length} file${files.length === 1 ? '' : 's'} formatted`));
+    }
+    process.exit(changed.length > 0 || failed > 0 ? 1 : 0);
+  }
+
+  for (const file of changed) {
+    console.log(`${INDENT}${file}`);
+  }
+  if (changed.length > 0) {
+    console.log(success(`Formatted ${changed.length} of ${files.length} file${files.length === 1 ? '' : 's'}`));
+  } else if (failed === 0) {
+    console.log(dim(`${files.length} file${files.length === 1 ? '' : 's'} already formatted`));
+  }
+  if (failed > 0) process.exit(1);
+}
+
+// =============================================================================
+// Command Definition
+// =============================================================================
+
+/**
+ * Create the fmt command.
+ */
+export function fmtCommand(): Command {
+  return new Command('fmt')
+    .description('Format UBML documents canonically, keeping comments')
+    .argument('[paths...]', 'Files or directories to format (default: current directory)')
+    .option('--check', 'Report unformatted files and exit non-zero instead of writing')
+    .addHelpText('after', `
+${chalk.bold('Examples:')}
+  ${chalk.cyan('ubml fmt')}
+  ${chalk.cyan('ubml fmt claims.process.ubml.yaml')}
+  ${chalk.cyan('ubml fmt --check')}
+
+${chalk.bold('Formatting:')}
+  Keys follow the schema's property order (name, kind and description
+  first), ID-keyed maps are sorted by ID, unneeded quotes are removed and
+  indentation is normalized. Comments stay with the keys they describe.
+`)
+    .action(runFmt);
+}
@@ -0,0 +1,177 @@
+/**
+ * Import command for UBML CLI.
+ *
+ * Converts models from other tools into UBML documents.
+ *
+ * @module ubml/cli/commands/import
+ */
+
+import { Command } from 'commander';
+import chalk from 'chalk';
+import { existsSync, readFileSync, writeFileSync } from 'fs';
+import { basename, extname, join, relative, resolve } from 'path';
+import { glob } from 'glob';
+import { parseDocument } from 'yaml';
+import { fromBpmn, serialize, type Actor, type ActorsDocument, type BpmnImportResult } from '../../index';
+import { getNextAvailableIds } from '../../node/id-scanner';
+import { parseFile } from '../../node/index';
+import { getDocumentHeader } from '../../templates.js';
+import { stringifyYaml } from '../../utils/yaml-layout.js';
+import { SCHEMA_VERSION } from '../../metadata.js';
+import { INDENT, dim, success, warning } from '../formatters/text';
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+/**
+ * Convert a name to kebab-case for filenames.
+ */
+function toKebabCase(name: string): string {
+  return name
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+}
+
+/**
+ * Find the first actors document in a workspace directory.
+ */
+async function findActorsFile(dir: string): Promise<string | undefined> {
+  const files = await glob(['**/*.actors.ubml.yaml', '**/actors.ubml.yaml'], {
+    cwd: dir,
+    absolute: true,
+    ignore: '**/node_modules/**',
+  });
+  return files.sort()[0];
+}
+
+/**
+ * Add placeholder actors to an existing actors document, preserving comments
+ * and the layout of the other lines.
+ */
+function appendActors(file: string, actors: Record<string, Actor>): void {
+  const source = readFileSync(file, 'utf8');
+  const doc = parseDocument(source);
+  for (const [id, actor] of Object.entries(actors)) {
+    doc.setIn(['actors', id], doc.createNode(actor));
+  }
+  writeFileSync(file, stringifyYaml(doc, source), 'utf8');
+}
+
+// =============================================================================
+// BPMN Subcommand
+// =============================================================================
+
+interface BpmnOptions {
+  output?: string;
+  process?: string;
+  dir?: string;
+  force?: boolean;
+}
+
+async function importBpmn(file: string, options: BpmnOptions): Promise<void> {
+  const inputPath = resolve(file);
+  if (!existsSync(inputPath)) {
+    console.error(chalk.red(`File not found: ${file}`));
+    process.exit(1);
+  }
+
+  const dir = resolve(options.dir ?? process.cwd());
+  const outputPath = resolve(options.output
+    ?? join(dir, `${toKebabCase(basename(inputPath, extname(inputPath))) || 'imported'}.process.ubml.yaml`));
+  if (existsSync(outputPath) && !options.force) {
+    console.error(chalk.red(`File already exists: ${relative(process.cwd(), outputPath)}`));
+    console.error(dim('Use --force to overwrite or --output to choose another file.'));
+    process.exit(1);
+  }
+
+  // Existing actors are matched by lane name
+  const actorsFile = await findActorsFile(dir);
+  let existingActors: Record<string, Actor> = {};
+  if (actorsFile) {
+    const parsed = await parseFile<ActorsDocument>(actorsFile);
+    existingActors = (parsed.document?.content.actors ?? {}) as Record<string, Actor>;
+  }
+
+  let result: BpmnImportResult;
+  try {
+    result = fromBpmn(readFileSync(inputPath, 'utf8'), {
+      processId: options.process,
+      actors: existingActors,
+      allocateIds: (requests) => getNextAvailableIds(requests.filter((r) => r.count > 0), dir),
+    });
+  } catch (err) {
+    console.error(chalk.red(`Failed to import ${file}: ${err instanceof Error ? err.message : String(err)}`));
+    process.exit(1);
+  }
+
+  const header = getDocumentHeader('process', result.document.name ?? Object.values(result.document.processes)[0]?.name);
+  writeFileSync(outputPath, `${header}\n${serialize(result.document)}`, 'utf8');
+  console.log(success(`Created ${relative(process.cwd(), outputPath)}`));
+
+  const processCount = Object.keys(result.document.processes).length;
+  const stepCount = Object.values(result.document.processes)
+    .reduce((sum, p) => sum + Object.keys(p.steps).length, 0);
+  console.log(`${INDENT}${processCount} process(es), ${stepCount} step(s)`);
+
+  // Placeholder actors for lanes
+  const newActors = Object.keys(result.actors);
+  if (newActors.length > 0) {
+    if (actorsFile) {
+      appendActors(actorsFile, result.actors);
+      console.log(success(`Added ${newActors.length} placeholder actor(s) to ${relative(process.cwd(), actorsFile)}`));
+    } else {
+      const created = join(dir, 'actors.ubml.yaml');
+      const content = serialize({ ubml: SCHEMA_VERSION, actors: result.actors });
+      writeFileSync(created, `${getDocumentHeader('actors')}\n${content}`, 'utf8');
+      console.log(success(`Created ${relative(process.cwd(), created)} with ${newActors.length} placeholder actor(s)`));
+    }
+    for (const id of newActors) {
+      console.log(`${INDENT}${id}  ${result.actors[id].name}`);
+    }
+  }
+
+  if (result.warnings.length > 0) {
+    console.log();
+    console.log(warning(`${result.warnings.length} BPMN element(s) not imported faithfully:`));
+    for (const item of result.warnings) {
+      const where = item.bpmnId ? `${item.element} ${item.bpmnId}` : item.element;
+      console.log(`${INDENT}${dim(`[${where}]`)} ${item.message}`);
+    }
+  }
+}
+
+// =============================================================================
+// Command Definition
+// =============================================================================
+
+/**
+ * Create the import command.
+ */
+export function importCommand(): Command {
+  const command = new Command('import')
+    .description('Import models from other formats into UBML documents');
+
+  command
+    .command('bpmn')
+    .description('Import BPMN 2.0 XML as a process document')
+    .argument('<file>', 'BPMN 2.0 XML file (*.bpmn)')
+    .option('-o, --output <file>', 'Output file (default: <name>.process.ubml.yaml in the workspace)')
+    .option('-p, --process <id>', 'Import only this BPMN process')
+    .option('-d, --dir <dir>', 'Workspace directory for IDs and actors (default: current directory)')
+    .option('-f, --force', 'Overwrite the output file if it exists')
+    .addHelpText('after', `
+${chalk.bold('Examples:')}
+  ${chalk.cyan('ubml import bpmn order-to-cash.bpmn')}
+  ${chalk.cyan('ubml import bpmn client.bpmn --process Process_1 -o client.process.ubml.yaml')}
+
+${chalk.bold('Notes:')}
+  IDs are allocated after the highest existing IDs in the workspace.
+  Lanes become actor references; lanes without a matching actor (by name)
+  get placeholder actors in the workspace actors document.
+`)
+    .action(importBpmn);
+
+  return command;
+}
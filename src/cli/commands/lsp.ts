@@ -0,0 +1,49 @@
+/**
+ * LSP command for UBML CLI.
+ *
+ * Runs the UBML language server over stdio for editors with a Language
+ * Server Protocol client.
+ *
+ * @module ubml/cli/commands/lsp
+ */
+
+import { Command } from 'commander';
+import chalk from 'chalk';
+import { startLanguageServer } from '../../lsp/server.js';
+
+// =============================================================================
+// Command Handler
+// =============================================================================
+
+async function runLsp(): Promise<void> {
+  const code = await startLanguageServer(process.stdin, process.stdout);
+  process.exit(code);
+}
+
+// =============================================================================
+// Command Definition
+// =============================================================================
+
+/**
+ * Create the lsp command.
+ */
+export function lspCommand(): Command {
+  return new Command('lsp')
+    .description('Run the UBML language server (LSP over stdio)')
+    .option('--stdio', 'Communicate over stdin/stdout (default)')
+    .addHelpText('after', `
+${chalk.bold('Examples:')}
+  ${chalk.cyan('ubml lsp --stdio')}
+
+${chalk.bold('Editor setup:')}
+  Register ${chalk.cyan('ubml lsp --stdio')} as a language server for *.ubml.yaml
+  files in your editor's LSP client (VS Code, Neovim, JetBrains). The
+  workspace root is the folder opened in the editor.
+
+${chalk.bold('Features:')}
+  Diagnostics from schema and reference validation, hover with schema
+  descriptions, ID completion in reference fields, go to definition,
+  find all references, and quick fixes for common enum mistakes.
+`)
+    .action(runLsp);
+}
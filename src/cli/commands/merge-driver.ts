@@ -0,0 +1,93 @@
+/**
+ * Merge driver command for UBML CLI.
+ *
+ * Git merge driver that merges UBML documents by element ID instead of by
+ * line. Registered in .gitattributes, git runs it with the base, current
+ * and other revisions of a file; the merged result replaces the current one.
+ *
+ * @module ubml/cli/commands/merge-driver
+ */
+
+import { Command } from 'commander';
+import chalk from 'chalk';
+import { mergeFiles, type MergeFilesResult } from '../../node/index';
+import { INDENT, dim, warning } from '../formatters/text';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+interface MergeDriverCommandOptions {
+  markerSize?: string;
+}
+
+// =============================================================================
+// Command Handler
+// =============================================================================
+
+async function runMergeDriver(base: string, current: string, other: string, path: string | undefined, options: MergeDriverCommandOptions): Promise<void> {
+  const markerSize = options.markerSize !== undefined ? Number(options.markerSize) : undefined;
+  if (markerSize !== undefined && (!Number.isInteger(markerSize) || markerSize < 1)) {
+    console.error(chalk.red(`Invalid marker size "${options.markerSize}" (expected a positive integer)`));
+    process.exit(1);
+  }
+
+  let result: MergeFilesResult;
+  try {
+    result = await mergeFiles(base, current, other, { markerSize });
+  } catch (err) {
+    console.error(chalk.red(err instanceof Error ? err.message : String(err)));
+    process.exit(1);
+  }
+
+  // Git shows the driver's output while merging, so report on stderr
+  const file = path ?? current;
+  if (result.fallback) {
+    console.error(warning(`${file}: merged by line (${result.fallback})`));
+  }
+  for (const { from, to } of result.renumbered) {
+    console.error(`${INDENT}${file}: renumbered ${from} ${dim('->')} ${chalk.cyan(to)} (added on both sides)`);
+  }
+  if (result.conflicts.length > 0) {
+    if (!result.fallback) {
+      for (const conflict of result.conflicts) {
+        console.error(`${INDENT}${file}: conflict in ${chalk.bold(conflict.path || '(whole document)')} ${dim(`(${conflict.properties.join(', ')})`)}`);
+      }
+    }
+    process.exit(1);
+  }
+}
+
+// =============================================================================
+// Command Definition
+// =============================================================================
+
+/**
+ * Create the merge-driver command.
+ */
+export function mergeDriverCommand(): Command {
+  return new Command('merge-driver')
+    .description('Git merge driver that merges UBML documents by element ID')
+    .argument('<base>', 'Common ancestor revision (%O)')
+    .argument('<current>', 'Current revision, replaced with the result (%A)')
+    .argument('<other>', 'Other revision (%B)')
+    .argument('[path]', 'Path of the file in the repository, for messages (%P)')
+    .option('--marker-size <size>', 'Length of conflict markers (%L)')
+    .addHelpText('after', `
+${chalk.bold('Setup:')}
+  Add to ${chalk.cyan('.gitattributes')}:
+    ${chalk.cyan('*.ubml.yaml merge=ubml')}
+
+  Register the driver:
+    ${chalk.cyan('git config merge.ubml.name "UBML merge driver"')}
+    ${chalk.cyan('git config merge.ubml.driver "ubml merge-driver %O %A %B %P --marker-size %L"')}
+
+${chalk.bold('Notes:')}
+  Edits to different elements or properties merge cleanly. IDs added on
+  both sides for different elements are renumbered in the other branch's
+  copy, along with their references. Remaining conflicts are marked around
+  the smallest element that contains them, and the command exits with 1.
+  Files that are not valid YAML are merged line by line.
+`)
+    .action(runMergeDriver);
+}
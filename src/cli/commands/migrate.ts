@@ -0,0 +1,116 @@
+/**
+ * Migrate command for UBML CLI.
+ *
+ * Upgrades UBML documents written for older schema versions, keeping
+ * comments, and reports each change. With --dry-run, only reports.
+ *
+ * @module ubml/cli/commands/migrate
+ */
+
+import { Command } from 'commander';
+import chalk from 'chalk';
+import { relative } from 'path';
+import { MIGRATABLE_VERSIONS, SCHEMA_VERSION, migrateFile, type MigrationResult } from '../../node/index';
+import { INDENT, dim, success, warning } from '../formatters/text';
+import { collectFiles } from './fmt';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+interface MigrateCommandOptions {
+  to: string;
+  dryRun?: boolean;
+}
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+/**
+ * Print the changes of one file.
+ */
+function printResult(file: string, result: MigrationResult): void {
+  console.log(`${chalk.bold(file)} ${dim(`${result.from} -> ${result.to}`)}`);
+  for (const change of result.changes) {
+    console.log(`${INDENT}${dim(change.path)} ${change.description}`);
+  }
+  for (const change of result.warnings) {
+    console.log(`${INDENT}${warning(`${change.path} ${change.description}`)}`);
+  }
+  console.log();
+}
+
+// =============================================================================
+// Command Handler
+// =============================================================================
+
+async function runMigrate(paths: string[], options: MigrateCommandOptions): Promise<void> {
+  if (!MIGRATABLE_VERSIONS.includes(options.to)) {
+    console.error(chalk.red(`Unknown version "${options.to}" (expected one of ${MIGRATABLE_VERSIONS.join(', ')})`));
+    process.exit(1);
+  }
+
+  const files = await collectFiles(paths.length > 0 ? paths : ['.']);
+  let migrated = 0;
+  let warnings = 0;
+  let failed = 0;
+
+  console.log();
+  for (const file of files) {
+    const display = relative(process.cwd(), file) || file;
+    try {
+      const result = await migrateFile(file, { to: options.to, dryRun: options.dryRun });
+      if (result.from === result.to) continue;
+      printResult(display, result);
+      migrated++;
+      warnings += result.warnings.length;
+    } catch (err) {
+      failed++;
+      console.error(chalk.red(`${display}: ${err instanceof Error ? err.message : String(err)}`));
+    }
+  }
+
+  const count = `${migrated} of ${files.length} file${files.length === 1 ? '' : 's'}`;
+  if (migrated === 0 && failed === 0) {
+    console.log(dim(`${files.length} file${files.length === 1 ? '' : 's'} already at ${options.to}`));
+  } else if (options.dryRun) {
+    console.log(dim(`Dry run: ${count} would be migrated to ${options.to}`));
+  } else if (migrated > 0) {
+    console.log(success(`Migrated ${count} to ${options.to}`));
+  }
+  if (warnings > 0) {
+    console.log(warning(`${warnings} change${warnings === 1 ? '' : 's'} need${warnings === 1 ? 's' : ''} manual attention`));
+  }
+  console.log();
+  if (failed > 0) process.exit(1);
+}
+
+// =============================================================================
+// Command Definition
+// =============================================================================
+
+/**
+ * Create the migrate command.
+ */
+export function migrateCommand(): Command {
+  return new Command('migrate')
+    .description('Upgrade documents to a newer schema version, keeping comments')
+    .argument('[paths...]', 'Files or directories to migrate (default: current directory)')
+    .option('--to <version>', 'Target schema version', SCHEMA_VERSION)
+    .option('--dry-run', 'Report the changes without writing files')
+    .addHelpText('after', `
+${chalk.bold('Examples:')}
+  ${chalk.cyan('ubml migrate')}
+  ${chalk.cyan('ubml migrate --dry-run')}
+  ${chalk.cyan('ubml migrate processes/ --to 1.1')}
+
+${chalk.bold('Migrations:')}
+  1.0 -> 1.1  processRef, process triggers and links to processes become
+              step calls
+  1.1 -> 1.2  calls lose mode (calls with on are asynchronous), actors get
+              a kind derived from their type, RACI and SCQH properties move
+              into their sections, mistaken enum values are renamed
+`)
+    .action(runMigrate);
+}
@@ -0,0 +1,554 @@
+/**
+ * Mine command for UBML CLI.
+ *
+ * Works with the event logs of mining sources. `ubml mine load` reads a
+ * local CSV or XES file, applies the source's filters and records the
+ * event log profile in the mining document. `ubml mine discover` drafts a
+ * process from the directly-follows graph of the log,
+ * `ubml mine conformance` replays the log against the modeled process and
+ * `ubml mine evidence` records its measured durations and rates as
+ * scenario evidence.
+ *
+ * @module ubml/cli/commands/mine
+ */
+
+import { Command } from 'commander';
+import chalk from 'chalk';
+import { writeFileSync } from 'fs';
+import { relative, resolve } from 'path';
+import {
+  addMiningEvidence,
+  checkMiningConformance,
+  discoverMiningSource,
+  formatConformanceCsv,
+  loadMiningSource,
+  type AddedMiningEvidence,
+  type CheckedMiningSource,
+  type DurationStatistics,
+  type DiscoveredMiningSource,
+  type LoadedMiningSource,
+} from '../../node/index';
+import { INDENT, dim, header, subheader, success, warning } from '../formatters/text';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+interface LoadCommandOptions {
+  dir: string;
+  file?: string;
+  format: 'text' | 'json';
+  dryRun?: boolean;
+}
+
+interface DiscoverCommandOptions {
+  dir: string;
+  file?: string;
+  output?: string;
+  force?: boolean;
+  activityThreshold: string;
+  pathThreshold: string;
+  format: 'text' | 'json';
+  dryRun?: boolean;
+}
+
+interface ConformanceCommandOptions {
+  dir: string;
+  file?: string;
+  process?: string;
+  csv?: string;
+  top: string;
+  format: 'text' | 'json';
+}
+
+interface EvidenceCommandOptions {
+  dir: string;
+  scenario: string;
+  file?: string;
+  process?: string;
+  format: 'text' | 'json';
+  dryRun?: boolean;
+}
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+function display(path: string): string {
+  return relative(process.cwd(), path) || path;
+}
+
+/**
+ * Print a list, truncated after a few entries.
+ */
+function formatList(values: string[], limit = 10): string[] {
+  const lines = values.slice(0, limit).map((value) => `${INDENT}${INDENT}${value}`);
+  if (values.length > limit) lines.push(dim(`${INDENT}${INDENT}... and ${values.length - limit} more`));
+  return lines;
+}
+
+/**
+ * Format a loaded mining source as a text report.
+ */
+function formatLoadReport(loaded: LoadedMiningSource): string {
+  const { profile, log } = loaded;
+  const lines: string[] = [];
+
+  lines.push(header(`Mining source: ${loaded.id} ${loaded.source.name}`));
+  lines.push(dim(`${INDENT}${display(loaded.file)} (${loaded.source.type})`));
+  lines.push('');
+
+  lines.push(subheader('Profile'));
+  lines.push(`${INDENT}Events         ${profile.recordCount}`);
+  lines.push(`${INDENT}Cases          ${profile.caseCount}`);
+  lines.push(`${INDENT}Date range     ${profile.dateRange ? `${profile.dateRange.from} to ${profile.dateRange.to}` : '-'}`);
+  lines.push(`${INDENT}Completeness   ${profile.quality.completeness}%`);
+  lines.push(`${INDENT}Unmapped       ${profile.quality.unmappedActivities} activities, ${profile.quality.unmappedResources} resources`);
+
+  if (profile.unmapped.activities.length > 0) {
+    lines.push('');
+    lines.push(warning(`${INDENT}Activities without a step mapping:`));
+    lines.push(...formatList(profile.unmapped.activities));
+  }
+  if (profile.unmapped.resources.length > 0) {
+    lines.push('');
+    lines.push(warning(`${INDENT}Resources without an actor mapping:`));
+    lines.push(...formatList(profile.unmapped.resources));
+  }
+  if (log.warnings.length > 0) {
+    lines.push('');
+    lines.push(subheader('Warnings'));
+    for (const message of log.warnings) {
+      lines.push(warning(`${INDENT}${message}`));
+    }
+  }
+
+  return lines.join('\n') + '\n';
+}
+
+function formatHours(hours: number | undefined): string {
+  if (hours === undefined) return '-';
+  if (hours < 1) return `${Math.round(hours * 60)}min`;
+  return hours < 48 ? `${(Math.round(hours * 10) / 10)}h` : `${Math.round((hours / 24) * 10) / 10} days`;
+}
+
+/**
+ * Format a discovered process as a text report.
+ */
+function formatDiscoverReport(discovered: DiscoveredMiningSource): string {
+  const { graph } = discovered.discovery;
+  const lines: string[] = [];
+
+  lines.push(header(`Discovered: ${discovered.id} ${discovered.source.name}`));
+  lines.push(dim(`${INDENT}${graph.caseCount} cases, ${graph.activities.length} activities, ${graph.edges.length} paths`));
+  lines.push('');
+
+  lines.push(subheader('Activities'));
+  lines.push(dim(`${INDENT}${'Activity'.padEnd(32)} ${'Events'.padStart(8)} ${'Cases'.padStart(8)} ${'Median'.padStart(10)}`));
+  for (const activity of graph.activities) {
+    lines.push(`${INDENT}${activity.activity.padEnd(32)} ${String(activity.frequency).padStart(8)} ` +
+      `${String(activity.cases).padStart(8)} ${formatHours(activity.medianDurationHours).padStart(10)}`);
+  }
+  lines.push('');
+
+  lines.push(subheader('Paths'));
+  for (const edge of graph.edges) {
+    const from = edge.from || dim('(start)');
+    const to = edge.to || dim('(end)');
+    const wait = edge.medianWaitHours === undefined ? '' : dim(`, median wait ${formatHours(edge.medianWaitHours)}`);
+    lines.push(`${INDENT}${from} -> ${to}  ${edge.frequency}x, ${Math.round(edge.probability * 100)}%${wait}`);
+  }
+
+  const { filtered } = graph;
+  if (filtered.activities.length > 0 || filtered.edges > 0) {
+    lines.push('');
+    lines.push(dim(`${INDENT}Filtered out ${filtered.activities.length} activities and ${filtered.edges} paths as noise`));
+  }
+
+  return lines.join('\n') + '\n';
+}
+
+function percent(share: number): string {
+  return `${(share * 100).toFixed(1)}%`;
+}
+
+/**
+ * Format a conformance check as a text report.
+ */
+function formatConformanceReport(checked: CheckedMiningSource, top: number): string {
+  const { conformance } = checked;
+  const lines: string[] = [];
+
+  lines.push(header(`Conformance: ${checked.id} ${checked.source.name}`));
+  lines.push(dim(`${INDENT}against ${checked.processId} ${checked.process.name}`));
+  lines.push('');
+
+  lines.push(subheader('Results'));
+  lines.push(`${INDENT}Cases          ${conformance.caseCount}`);
+  lines.push(`${INDENT}Fitting cases  ${conformance.fittingCases} (${percent(conformance.caseCount === 0 ? 1 : conformance.fittingCases / conformance.caseCount)})`);
+  lines.push(`${INDENT}Fitness        ${percent(conformance.fitness)}`);
+
+  if (conformance.deviations.length > 0) {
+    lines.push('');
+    lines.push(subheader('Most common deviations'));
+    lines.push(dim(`${INDENT}${'Cases'.padStart(7)} ${'Count'.padStart(7)}  Deviation`));
+    for (const deviation of conformance.deviations.slice(0, top)) {
+      lines.push(`${INDENT}${String(deviation.cases).padStart(7)} ${String(deviation.occurrences).padStart(7)}  ${deviation.message}`);
+    }
+    if (conformance.deviations.length > top) {
+      lines.push(dim(`${INDENT}... and ${conformance.deviations.length - top} more`));
+    }
+  }
+
+  return lines.join('\n') + '\n';
+}
+
+function formatRate(perDay: number | undefined): string {
+  return perDay === undefined ? '-' : `${Math.round(perDay * 100) / 100} per working day`;
+}
+
+/**
+ * Format added evidence as a text report.
+ */
+function formatEvidenceReport(added: AddedMiningEvidence): string {
+  const { mined } = added;
+  const lines: string[] = [];
+
+  lines.push(header(`Evidence: ${added.id} ${added.source.name}`));
+  lines.push(dim(`${INDENT}for ${added.scenarioId}${added.processId ? ` and ${added.processId}` : ''}`));
+  lines.push('');
+
+  lines.push(subheader('Cases'));
+  lines.push(`${INDENT}Cases          ${mined.caseCount}`);
+  lines.push(`${INDENT}Arrival rate   ${formatRate(mined.arrivalRate)}`);
+  lines.push(`${INDENT}Throughput     ${formatRate(mined.throughput)}`);
+  lines.push(`${INDENT}Cycle time     ${mined.cycleTime
+    ? `${formatHours(mined.cycleTime.percentiles.p50)} median, ${formatHours(mined.cycleTime.percentiles.p90)} p90`
+    : '-'}`);
+
+  const rows = mined.steps.flatMap(({ step, activities, ...durations }) => ([
+    ['waiting', durations.waiting],
+    ['processing', durations.processing],
+    ['elapsed', durations.elapsed],
+  ] as const).flatMap(([metric, stats]) => (stats ? [{ step, activities, metric, stats }] : [])));
+  if (rows.length > 0) {
+    lines.push('');
+    lines.push(subheader('Steps'));
+    lines.push(dim(`${INDENT}${'Step'.padEnd(10)} ${'Metric'.padEnd(11)} ${'Count'.padStart(6)} ${'Mean'.padStart(9)} ` +
+      `${'Median'.padStart(9)} ${'P90'.padStart(9)}  Activities`));
+    for (const { step, activities, metric, stats } of rows) {
+      lines.push(`${INDENT}${step.padEnd(10)} ${metric.padEnd(11)} ${String(stats.sampleSize).padStart(6)} ` +
+        `${formatHours(stats.mean).padStart(9)} ${formatHours(stats.percentiles.p50).padStart(9)} ` +
+        `${formatHours(stats.percentiles.p90).padStart(9)}  ${dim(activities.join(', '))}`);
+    }
+
+    const fits = rows.filter(({ metric }) => metric !== 'waiting');
+    if (fits.length > 0) {
+      lines.push('');
+      lines.push(subheader('Duration fits'));
+      for (const { step, stats } of fits) {
+        lines.push(`${INDENT}${step.padEnd(10)} ${formatFit(stats)}`);
+      }
+    }
+  }
+
+  return lines.join('\n') + '\n';
+}
+
+function formatFit(stats: DurationStatistics): string {
+  return [stats.fit.tri, stats.fit.lognormal].filter(Boolean).join('  ');
+}
+
+/**
+ * Parse a threshold option between 0 and 1.
+ */
+function parseThreshold(name: string, value: string): number {
+  const threshold = Number(value);
+  if (Number.isNaN(threshold) || threshold < 0 || threshold > 1) {
+    console.error(chalk.red(`${name} must be a number between 0 and 1, got "${value}"`));
+    process.exit(1);
+  }
+  return threshold;
+}
+
+// =============================================================================
+// Command Handlers
+// =============================================================================
+
+async function runLoad(id: string, options: LoadCommandOptions): Promise<void> {
+  if (options.format !== 'text' && options.format !== 'json') {
+    console.error(chalk.red(`Unknown format "${options.format}" (expected text or json)`));
+    process.exit(1);
+  }
+
+  let loaded: LoadedMiningSource;
+  try {
+    loaded = await loadMiningSource(resolve(options.dir), id, { file: options.file, dryRun: options.dryRun });
+  } catch (err) {
+    console.error(chalk.red(err instanceof Error ? err.message : String(err)));
+    process.exit(1);
+  }
+
+  if (options.format === 'json') {
+    const { recordCount, caseCount, dateRange, quality, unmapped } = loaded.profile;
+    process.stdout.write(JSON.stringify({
+      id,
+      file: loaded.file,
+      recordCount,
+      caseCount,
+      dateRange,
+      quality,
+      unmapped,
+      warnings: loaded.log.warnings,
+    }, null, 2) + '\n');
+  } else {
+    process.stdout.write(formatLoadReport(loaded));
+  }
+
+  const documentPath = display(loaded.document.meta.filepath!);
+  if (!loaded.updated) {
+    console.error(dim(`${documentPath} is up to date`));
+  } else if (options.dryRun) {
+    console.error(dim(`Dry run: ${documentPath} not updated`));
+  } else {
+    console.error(success(`Updated ${id} in ${documentPath}`));
+  }
+}
+
+async function runDiscover(id: string, options: DiscoverCommandOptions): Promise<void> {
+  if (options.format !== 'text' && options.format !== 'json') {
+    console.error(chalk.red(`Unknown format "${options.format}" (expected text or json)`));
+    process.exit(1);
+  }
+  const activityThreshold = parseThreshold('--activity-threshold', options.activityThreshold);
+  const pathThreshold = parseThreshold('--path-threshold', options.pathThreshold);
+
+  let discovered: DiscoveredMiningSource;
+  try {
+    discovered = await discoverMiningSource(resolve(options.dir), id, {
+      file: options.file,
+      output: options.output,
+      force: options.force,
+      dryRun: options.dryRun,
+      activityThreshold,
+      pathThreshold,
+    });
+  } catch (err) {
+    console.error(chalk.red(err instanceof Error ? err.message : String(err)));
+    if (err instanceof Error && err.message.startsWith('File already exists')) {
+      console.error(dim('Use --force to overwrite or --output to choose another file.'));
+    }
+    process.exit(1);
+  }
+
+  if (options.format === 'json') {
+    const { processId, graph, activityMappings } = discovered.discovery;
+    process.stdout.write(JSON.stringify({ id, processId, output: discovered.output, graph, activityMappings }, null, 2) + '\n');
+  } else {
+    process.stdout.write(formatDiscoverReport(discovered));
+  }
+
+  const output = display(discovered.output);
+  const documentPath = display(discovered.document.meta.filepath!);
+  const mappings = `${discovered.addedMappings.length} activity mapping${discovered.addedMappings.length === 1 ? '' : 's'}`;
+  if (options.dryRun) {
+    console.error(dim(`Dry run: ${output} not written, ${mappings} not added to ${documentPath}`));
+  } else {
+    console.error(success(`Created ${output} with process ${discovered.discovery.processId}`));
+    if (discovered.addedMappings.length > 0) {
+      console.error(success(`Added ${mappings} to ${id} in ${documentPath}`));
+    }
+  }
+}
+
+async function runConformance(id: string, options: ConformanceCommandOptions): Promise<void> {
+  if (options.format !== 'text' && options.format !== 'json') {
+    console.error(chalk.red(`Unknown format "${options.format}" (expected text or json)`));
+    process.exit(1);
+  }
+  const top = Number(options.top);
+  if (!Number.isInteger(top) || top < 1) {
+    console.error(chalk.red(`--top must be a positive integer, got "${options.top}"`));
+    process.exit(1);
+  }
+
+  let checked: CheckedMiningSource;
+  try {
+    checked = await checkMiningConformance(resolve(options.dir), id, { file: options.file, process: options.process });
+  } catch (err) {
+    console.error(chalk.red(err instanceof Error ? err.message : String(err)));
+    process.exit(1);
+  }
+
+  if (options.format === 'json') {
+    process.stdout.write(JSON.stringify({ id, processId: checked.processId, ...checked.conformance }, null, 2) + '\n');
+  } else {
+    process.stdout.write(formatConformanceReport(checked, top));
+  }
+
+  if (options.csv) {
+    writeFileSync(options.csv, formatConformanceCsv(checked.conformance), 'utf8');
+    console.error(success(`Wrote ${checked.conformance.caseCount} cases to ${display(resolve(options.csv))}`));
+  }
+}
+
+async function runEvidence(id: string, options: EvidenceCommandOptions): Promise<void> {
+  if (options.format !== 'text' && options.format !== 'json') {
+    console.error(chalk.red(`Unknown format "${options.format}" (expected text or json)`));
+    process.exit(1);
+  }
+
+  let added: AddedMiningEvidence;
+  try {
+    added = await addMiningEvidence(resolve(options.dir), id, {
+      scenario: options.scenario,
+      file: options.file,
+      process: options.process,
+      dryRun: options.dryRun,
+    });
+  } catch (err) {
+    console.error(chalk.red(err instanceof Error ? err.message : String(err)));
+    process.exit(1);
+  }
+
+  if (options.format === 'json') {
+    const { scenarioId, processId, mined } = added;
+    process.stdout.write(JSON.stringify({ id, scenarioId, processId, ...mined }, null, 2) + '\n');
+  } else {
+    process.stdout.write(formatEvidenceReport(added));
+  }
+
+  const documentPath = display(added.scenarioDocument.meta.filepath!);
+  const entries = `${added.mined.evidence.length} evidence entr${added.mined.evidence.length === 1 ? 'y' : 'ies'}`;
+  const replaced = added.replaced > 0 ? `, replacing ${added.replaced} from an earlier run` : '';
+  if (!added.updated) {
+    console.error(dim(`${documentPath} is up to date`));
+  } else if (options.dryRun) {
+    console.error(dim(`Dry run: ${entries} not added to ${added.scenarioId} in ${documentPath}`));
+  } else {
+    console.error(success(`Added ${entries} to ${added.scenarioId} in ${documentPath}${replaced}`));
+  }
+}
+
+// =============================================================================
+// Command Definition
+// =============================================================================
+
+/**
+ * Create the mine command.
+ */
+export function mineCommand(): Command {
+  const command = new Command('mine')
+    .description('Load and analyze event logs of mining sources');
+
+  command
+    .command('load')
+    .description('Read the event log of a mining source and record its profile')
+    .argument('<source-id>', 'Mining source to load (e.g., MS00001)')
+    .option('-d, --dir <dir>', 'Workspace directory', '.')
+    .option('--file <path>', 'Event log file (default: connection.path of the source)')
+    .option('-f, --format <format>', 'Output format: text, json', 'text')
+    .option('--dry-run', 'Report the profile without updating the mining document')
+    .addHelpText('after', `
+${chalk.bold('Examples:')}
+  ${chalk.cyan('ubml mine load MS00001')}
+  ${chalk.cyan('ubml mine load MS00001 --file exports/orders-2024-06.csv')}
+  ${chalk.cyan('ubml mine load MS00001 --dry-run -f json')}
+
+${chalk.bold('Notes:')}
+  Supports local csv and xes sources. The file is connection.path (or a
+  file: connection.url) relative to the mining document. recordCount,
+  caseCount, dateRange and quality are written into the source.
+`)
+    .action(runLoad);
+
+  command
+    .command('discover')
+    .description('Draft a process from the directly-follows graph of a mining source')
+    .argument('<source-id>', 'Mining source to discover from (e.g., MS00001)')
+    .option('-d, --dir <dir>', 'Workspace directory', '.')
+    .option('--file <path>', 'Event log file (default: connection.path of the source)')
+    .option('-o, --output <file>', 'Process document to create (default: named after the source)')
+    .option('--force', 'Overwrite an existing process document')
+    .option('--activity-threshold <share>', 'Drop activities found in fewer than this share of cases', '0')
+    .option('--path-threshold <share>', 'Drop paths taken by fewer than this share of cases leaving an activity', '0')
+    .option('-f, --format <format>', 'Output format: text, json', 'text')
+    .option('--dry-run', 'Report the graph without writing files')
+    .addHelpText('after', `
+${chalk.bold('Examples:')}
+  ${chalk.cyan('ubml mine discover MS00001')}
+  ${chalk.cyan('ubml mine discover MS00001 --activity-threshold 0.05 --path-threshold 0.1')}
+  ${chalk.cyan('ubml mine discover MS00001 --dry-run')}
+
+${chalk.bold('Notes:')}
+  The draft has a start step, one action step per activity and an end
+  step. Links carry the observed branch probability. Activities without
+  an activity mapping get one for their new step, and the source's
+  process is set when it has none. Every activity keeps its strongest
+  incoming and outgoing path, so filtering never disconnects the draft.
+`)
+    .action(runDiscover);
+
+  command
+    .command('conformance')
+    .description('Replay the event log of a mining source against its process')
+    .argument('<source-id>', 'Mining source to check (e.g., MS00001)')
+    .option('-d, --dir <dir>', 'Workspace directory', '.')
+    .option('--file <path>', 'Event log file (default: connection.path of the source)')
+    .option('--process <id>', 'Process to check against (default: process of the source)')
+    .option('--csv <file>', 'Write per-case results as CSV')
+    .option('--top <n>', 'Number of deviations to list', '10')
+    .option('-f, --format <format>', 'Output format: text, json', 'text')
+    .addHelpText('after', `
+${chalk.bold('Examples:')}
+  ${chalk.cyan('ubml mine conformance MS00001')}
+  ${chalk.cyan('ubml mine conformance MS00001 --csv cases.csv')}
+  ${chalk.cyan('ubml mine conformance MS00001 --process PR00002 -f json')}
+
+${chalk.bold('Deviations:')}
+  skipped step        A mapped step on the modeled path did not run
+  unmodeled activity  An activity without a mapping to a step of the process
+  unexpected order    A step that cannot follow the previous one
+  wrong actor         A mapped resource that is not responsible or
+                      accountable for the step
+
+  Fitness is the share of executed activities and skipped steps without
+  a deviation. Wrong actors are reported but do not lower fitness.
+`)
+    .action(runConformance);
+
+  command
+    .command('evidence')
+    .description('Add durations and rates measured in a mining source to a scenario as evidence')
+    .argument('<source-id>', 'Mining source to measure (e.g., MS00001)')
+    .requiredOption('--scenario <id>', 'Scenario to add the evidence to')
+    .option('-d, --dir <dir>', 'Workspace directory', '.')
+    .option('--file <path>', 'Event log file (default: connection.path of the source)')
+    .option('--process <id>', 'Process the evidence relates to (default: process of the source)')
+    .option('-f, --format <format>', 'Output format: text, json', 'text')
+    .option('--dry-run', 'Report the evidence without updating the scenario')
+    .addHelpText('after', `
+${chalk.bold('Examples:')}
+  ${chalk.cyan('ubml mine evidence MS00001 --scenario SC00001')}
+  ${chalk.cyan('ubml mine evidence MS00001 --scenario SC00001 --dry-run -f json')}
+
+${chalk.bold('Metrics:')}
+  caseCount       Cases in the log (count)
+  arrivalRate     Cases started per working day (rate)
+  throughput      Cases completed per working day (rate)
+  cycleTime       First to last event of a case
+  waitingTime     Previous completion to the start of a step
+  processingTime  Start to completion of a step (needs start times)
+  elapsedTime     Previous completion to completion, without start times
+
+${chalk.bold('Notes:')}
+  Durations are working hours (09:00-17:00, Monday to Friday), the time
+  base of step durations and simulation. Each duration entry lists its
+  percentiles, sample size and tri()/lognormal() fits that can be pasted
+  into a step duration, e.g. duration: { expr: "tri(h(1), h(2.5), h(6))" }.
+  Evidence from an earlier run for the same source is replaced.
+`)
+    .action(runEvidence);
+
+  return command;
+}
@@ -0,0 +1,172 @@
+/**
+ * Rename and renumber commands for UBML CLI.
+ *
+ * Change IDs across a workspace: the defining key and every reference,
+ * preserving comments and formatting, and keep the ID cache up to date.
+ *
+ * @module ubml/cli/commands/rename
+ */
+
+import { Command } from 'commander';
+import chalk from 'chalk';
+import { relative, resolve } from 'path';
+import { ID_PREFIXES, type IdPrefix } from '../../metadata.js';
+import {
+  renameWorkspaceId,
+  renumberWorkspaceIds,
+  type WorkspaceRenameResult,
+} from '../../node/index';
+import { INDENT, dim, header, success } from '../formatters/text';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+interface RenameCommandOptions {
+  dir: string;
+  file?: string[];
+  dryRun?: boolean;
+}
+
+interface RenumberCommandOptions extends RenameCommandOptions {
+  prefix: string;
+  start?: string;
+  step?: string;
+}
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+/**
+ * Print the planned renames and changed files.
+ */
+function printResult(title: string, result: WorkspaceRenameResult, options: RenameCommandOptions): void {
+  const dir = resolve(options.dir);
+  console.log();
+  console.log(header(title));
+  console.log();
+
+  if (result.renames.length === 0) {
+    console.log(dim(`${INDENT}Nothing to change`));
+    console.log();
+    return;
+  }
+
+  for (const rename of result.renames) {
+    console.log(`${INDENT}${rename.from} ${dim('->')} ${chalk.cyan(rename.to)}  ${dim(relative(dir, rename.path))}`);
+  }
+  console.log();
+  for (const file of result.files) {
+    console.log(`${INDENT}${relative(dir, file.path)}  ${dim(`${file.replacements} occurrence${file.replacements === 1 ? '' : 's'}`)}`);
+  }
+  console.log();
+
+  if (options.dryRun) {
+    console.log(dim(`${INDENT}Dry run: no files were written`));
+  } else {
+    console.log(success(`Updated ${result.files.length} file${result.files.length === 1 ? '' : 's'}`));
+  }
+  console.log();
+}
+
+function parseInteger(value: string | undefined, name: string): number | undefined {
+  if (value === undefined) return undefined;
+  const number = Number(value);
+  if (!Number.isInteger(number)) {
+    console.error(chalk.red(`Invalid ${name} "${value}" (expected an integer)`));
+    process.exit(1);
+  }
+  return number;
+}
+
+// =============================================================================
+// Command Handlers
+// =============================================================================
+
+async function runRename(oldId: string, newId: string, options: RenameCommandOptions): Promise<void> {
+  let result: WorkspaceRenameResult;
+  try {
+    result = await renameWorkspaceId(options.dir, oldId, newId, { files: options.file, dryRun: options.dryRun });
+  } catch (err) {
+    console.error(chalk.red(err instanceof Error ? err.message : String(err)));
+    process.exit(1);
+  }
+  printResult(`Rename ${oldId} to ${newId}`, result, options);
+}
+
+async function runRenumber(options: RenumberCommandOptions): Promise<void> {
+  const prefix = options.prefix.toUpperCase();
+  if (!(prefix in ID_PREFIXES)) {
+    console.error(chalk.red(`Unknown ID prefix "${options.prefix}" (expected one of ${Object.keys(ID_PREFIXES).join(', ')})`));
+    process.exit(1);
+  }
+
+  let result: WorkspaceRenameResult;
+  try {
+    result = await renumberWorkspaceIds(options.dir, prefix as IdPrefix, {
+      files: options.file,
+      dryRun: options.dryRun,
+      start: parseInteger(options.start, 'start'),
+      step: parseInteger(options.step, 'step'),
+    });
+  } catch (err) {
+    console.error(chalk.red(err instanceof Error ? err.message : String(err)));
+    process.exit(1);
+  }
+  printResult(`Renumber ${prefix} IDs`, result, options);
+}
+
+// =============================================================================
+// Command Definitions
+// =============================================================================
+
+/**
+ * Create the rename command.
+ */
+export function renameCommand(): Command {
+  return new Command('rename')
+    .description('Rename an ID and every reference to it across the workspace')
+    .argument('<old-id>', 'ID to rename (e.g., ST00010)')
+    .argument('<new-id>', 'New ID with the same prefix (e.g., ST00110)')
+    .option('-d, --dir <dir>', 'Workspace directory', '.')
+    .option('--file <files...>', 'Only rename the definition in these files (for duplicate IDs)')
+    .option('--dry-run', 'Show what would change without writing files')
+    .addHelpText('after', `
+${chalk.bold('Examples:')}
+  ${chalk.cyan('ubml rename ST00010 ST00110')}
+  ${chalk.cyan('ubml rename ST00010 ST00110 --file claims.process.ubml.yaml')}
+
+${chalk.bold('Notes:')}
+  When an ID is defined in more than one file, choose the definition to
+  rename with --file. References in that file follow its definition;
+  references elsewhere keep pointing to the other definition.
+`)
+    .action(runRename);
+}
+
+/**
+ * Create the renumber command.
+ */
+export function renumberCommand(): Command {
+  return new Command('renumber')
+    .description('Renumber IDs with a prefix across the workspace')
+    .requiredOption('--prefix <prefix>', `ID prefix (${Object.keys(ID_PREFIXES).join(', ')})`)
+    .option('-d, --dir <dir>', 'Workspace directory', '.')
+    .option('--file <files...>', 'Only renumber IDs defined in these files')
+    .option('--start <number>', 'First number (default: 1, or after the highest ID in use with --file)')
+    .option('--step <number>', 'Increment between numbers', '1')
+    .option('--dry-run', 'Show what would change without writing files')
+    .addHelpText('after', `
+${chalk.bold('Examples:')}
+  ${chalk.cyan('ubml renumber --prefix ST')}
+  ${chalk.cyan('ubml renumber --prefix ST --file consultant-b.process.ubml.yaml')}
+  ${chalk.cyan('ubml renumber --prefix AC --start 100 --step 10 --dry-run')}
+
+${chalk.bold('Notes:')}
+  After merging branches with duplicate IDs, renumber the IDs defined in
+  one branch's files with --file: they get fresh numbers and the
+  references in those files are updated with them.
+`)
+    .action(runRenumber);
+}
@@ -0,0 +1,184 @@
+/**
+ * ROI command for UBML CLI.
+ *
+ * Computes NPV, IRR, payback period and cash flow of an ROI analysis,
+ * flags stored results that disagree with the computed ones and optionally
+ * writes the computed results back into the metrics document.
+ *
+ * @module ubml/cli/commands/roi
+ */
+
+import { Command } from 'commander';
+import chalk from 'chalk';
+import { readFileSync, writeFileSync } from 'fs';
+import { relative, resolve } from 'path';
+import { glob } from 'glob';
+import { parseDocument } from 'yaml';
+import {
+  calculateRoi,
+  compareRoiResults,
+  parseFile,
+  type MetricsDocument,
+  type ROI,
+  type RoiCalculation,
+  type RoiDiscrepancy,
+} from '../../node/index';
+import { stringifyYaml } from '../../utils/yaml-layout.js';
+import { INDENT, dim, header, subheader, success, warning } from '../formatters/text';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+interface RoiCommandOptions {
+  dir: string;
+  format: 'text' | 'json';
+  write?: boolean;
+  check?: boolean;
+}
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+/**
+ * Find the metrics document that defines an ROI analysis.
+ */
+async function findRoi(dir: string, id: string): Promise<{ file: string; roi: ROI } | undefined> {
+  const files = await glob(['**/*.metrics.ubml.yaml', '**/metrics.ubml.yaml'], { cwd: dir, absolute: true, ignore: '**/node_modules/**' });
+  for (const file of files.sort()) {
+    const result = await parseFile<MetricsDocument>(file);
+    const roi = result.document?.content.roiAnalyses?.[id] as ROI | undefined;
+    if (roi) return { file, roi };
+  }
+  return undefined;
+}
+
+function formatAmount(amount: number): string {
+  return amount.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+}
+
+/**
+ * Format an ROI calculation as a text report.
+ */
+function formatReport(id: string, roi: ROI, calculation: RoiCalculation, discrepancies: RoiDiscrepancy[]): string {
+  const { results, currency } = calculation;
+  const money = (value: { amount: number } | undefined) => (value ? `${formatAmount(value.amount)} ${currency}` : '-');
+  const lines: string[] = [];
+
+  lines.push(header(`ROI: ${id} ${roi.name}`));
+  lines.push(dim(`${INDENT}${calculation.periods.length - 1} months, discount rate ${((roi.discountRate ?? 0) * 100).toFixed(1)}% per year`));
+  lines.push('');
+
+  lines.push(subheader('Results'));
+  lines.push(`${INDENT}Total costs      ${money(results.totalCosts)}`);
+  lines.push(`${INDENT}Total benefits   ${money(results.totalBenefits)}`);
+  lines.push(`${INDENT}Net benefit      ${money(results.netBenefit)}`);
+  lines.push(`${INDENT}ROI              ${results.roiPercent === undefined ? '-' : `${results.roiPercent.toFixed(2)}%`}`);
+  lines.push(`${INDENT}NPV              ${money(results.npv)}`);
+  lines.push(`${INDENT}IRR              ${results.irr === undefined ? '-' : `${(results.irr * 100).toFixed(2)}% per year`}`);
+  lines.push(`${INDENT}Payback          ${results.paybackMonths === undefined ? 'not within the analysis period' : `${results.paybackMonths} months`}`);
+  lines.push('');
+
+  lines.push(subheader('Cash flow'));
+  lines.push(dim(`${INDENT}${'Month'.padStart(5)}  ${'Costs'.padStart(14)}  ${'Benefits'.padStart(14)}  ${'Net'.padStart(14)}  ${'Cumulative'.padStart(14)}`));
+  for (const period of calculation.periods) {
+    if (period.costs === 0 && period.benefits === 0) continue;
+    const cumulative = formatAmount(period.cumulative).padStart(14);
+    lines.push(
+      `${INDENT}${String(period.period).padStart(5)}  ${formatAmount(period.costs).padStart(14)}  ` +
+      `${formatAmount(period.benefits).padStart(14)}  ${formatAmount(period.net).padStart(14)}  ` +
+      (period.cumulative < 0 ? chalk.red(cumulative) : cumulative)
+    );
+  }
+
+  if (discrepancies.length > 0) {
+    lines.push('');
+    lines.push(warning('Stored results are out of date:'));
+    for (const discrepancy of discrepancies) {
+      lines.push(warning(`${INDENT}${discrepancy.field}: stored ${discrepancy.stored}, computed ${discrepancy.computed ?? 'no value'}`));
+    }
+  }
+
+  return lines.join('\n') + '\n';
+}
+
+/**
+ * Write computed results into the ROI analysis, preserving comments and
+ * the layout of the other lines.
+ */
+function writeResults(file: string, id: string, calculation: RoiCalculation): void {
+  const source = readFileSync(file, 'utf8');
+  const doc = parseDocument(source);
+  doc.setIn(['roiAnalyses', id, 'results'], doc.createNode(calculation.results));
+  writeFileSync(file, stringifyYaml(doc, source), 'utf8');
+}
+
+// =============================================================================
+// Command Handler
+// =============================================================================
+
+async function runRoi(id: string, options: RoiCommandOptions): Promise<void> {
+  if (options.format !== 'text' && options.format !== 'json') {
+    console.error(chalk.red(`Unknown format "${options.format}" (expected text or json)`));
+    process.exit(1);
+  }
+
+  const dir = resolve(options.dir);
+  const found = await findRoi(dir, id);
+  if (!found) {
+    console.error(chalk.red(`ROI analysis ${id} not found in ${options.dir}`));
+    process.exit(1);
+  }
+
+  let calculation: RoiCalculation;
+  try {
+    calculation = calculateRoi(found.roi);
+  } catch (err) {
+    console.error(chalk.red(err instanceof Error ? err.message : String(err)));
+    process.exit(1);
+  }
+  const discrepancies = found.roi.results ? compareRoiResults(found.roi.results, calculation.results) : [];
+
+  if (options.format === 'json') {
+    process.stdout.write(JSON.stringify({ id, ...calculation, discrepancies }, null, 2) + '\n');
+  } else {
+    process.stdout.write(formatReport(id, found.roi, calculation, discrepancies));
+  }
+
+  if (options.write) {
+    writeResults(found.file, id, calculation);
+    console.error(success(`Updated results of ${id} in ${relative(process.cwd(), found.file)}`));
+  } else if (options.check && discrepancies.length > 0) {
+    process.exit(1);
+  }
+}
+
+// =============================================================================
+// Command Definition
+// =============================================================================
+
+/**
+ * Create the roi command.
+ */
+export function roiCommand(): Command {
+  return new Command('roi')
+    .description('Compute NPV, IRR, payback and cash flow of an ROI analysis')
+    .argument('<roi-id>', 'ROI analysis to compute (e.g., ROI00001)')
+    .option('-d, --dir <dir>', 'Workspace directory', '.')
+    .option('-f, --format <format>', 'Output format: text, json', 'text')
+    .option('-w, --write', 'Write the computed results into the metrics document')
+    .option('--check', 'Exit with code 1 when stored results are out of date')
+    .addHelpText('after', `
+${chalk.bold('Examples:')}
+  ${chalk.cyan('ubml roi ROI00001')}
+  ${chalk.cyan('ubml roi ROI00001 --write')}
+  ${chalk.cyan('ubml roi ROI00001 --check')}      Fail in CI when results are stale
+
+${chalk.bold('Notes:')}
+  Periods are months. One-time items occur at startPeriod (default 0),
+  recurring items every frequency interval (monthly, quarterly, annually, ...)
+  from startPeriod (default 1) to endPeriod. discountRate and IRR are annual.
+`)
+    .action(runRoi);
+}
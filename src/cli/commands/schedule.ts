@@ -0,0 +1,178 @@
+/**
+ * Schedule command for UBML CLI.
+ *
+ * Computes the critical path schedule of a process from its step durations,
+ * link dependencies and step constraints, and prints it as a table, JSON or
+ * a Mermaid Gantt chart.
+ *
+ * @module ubml/cli/commands/schedule
+ */
+
+import { Command } from 'commander';
+import chalk from 'chalk';
+import { writeFileSync } from 'fs';
+import { resolve } from 'path';
+import { glob } from 'glob';
+import {
+  parseFile,
+  schedule,
+  toGantt,
+  type Process,
+  type ProcessDocument,
+  type ScheduleResult,
+} from '../../node/index';
+import { INDENT, dim, header, subheader, success, warning } from '../formatters/text';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+interface ScheduleCommandOptions {
+  dir: string;
+  start?: string;
+  format: 'text' | 'json' | 'gantt';
+  output?: string;
+}
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+/**
+ * Check whether a process or one of its subprocesses has the given ID.
+ */
+function containsProcess(processes: Record<string, Process> | undefined, processId: string): boolean {
+  return Object.entries(processes ?? {}).some(
+    ([id, process]) => id === processId || containsProcess(process.subprocesses as Record<string, Process> | undefined, processId)
+  );
+}
+
+/**
+ * Find the process document that defines a process.
+ */
+async function findProcessDocument(dir: string, processId: string): Promise<ProcessDocument | undefined> {
+  const files = await glob(['**/*.process.ubml.yaml', '**/process.ubml.yaml'], { cwd: dir, absolute: true, ignore: '**/node_modules/**' });
+  for (const file of files.sort()) {
+    const result = await parseFile<ProcessDocument>(file);
+    const content = result.document?.content;
+    if (content && containsProcess(content.processes as Record<string, Process> | undefined, processId)) return content;
+  }
+  return undefined;
+}
+
+/**
+ * Format working hours as days when they are whole days.
+ */
+function formatHours(hours: number): string {
+  if (hours !== 0 && Number.isInteger(hours / 8)) return `${hours / 8}d`;
+  return `${Number.isInteger(hours) ? hours : hours.toFixed(2)}h`;
+}
+
+/**
+ * Format a schedule as a text report.
+ */
+function formatReport(result: ScheduleResult): string {
+  const lines: string[] = [];
+  lines.push(header(`Schedule: ${result.processId} ${result.name}`));
+  lines.push(dim(`${INDENT}${result.start} to ${result.finish}, ${formatHours(result.duration)} of working time`));
+  lines.push('');
+
+  const nameWidth = Math.max(...result.steps.map((step) => `${step.id} ${step.name}`.length), 4);
+  lines.push(subheader('Steps'));
+  lines.push(dim(
+    `${INDENT}  ${'Step'.padEnd(nameWidth)}  ${'Duration'.padStart(8)}  ${'Early start'.padEnd(16)}  ${'Early finish'.padEnd(16)}  ` +
+    `${'Late start'.padEnd(16)}  ${'Late finish'.padEnd(16)}  ${'Float'.padStart(7)}`
+  ));
+  for (const step of result.steps) {
+    const line =
+      `${step.critical ? '*' : ' '} ${`${step.id} ${step.name}`.padEnd(nameWidth)}  ${formatHours(step.duration).padStart(8)}  ` +
+      `${step.dates.earlyStart}  ${step.dates.earlyFinish}  ${step.dates.lateStart}  ${step.dates.lateFinish}  ` +
+      `${formatHours(step.totalFloat).padStart(7)}`;
+    lines.push(INDENT + (step.critical ? chalk.red(line) : line));
+  }
+  lines.push('');
+  if (result.criticalPaths.length === 0) {
+    lines.push(dim(`${INDENT}* critical path: none`));
+  }
+  for (const path of result.criticalPaths) {
+    lines.push(dim(`${INDENT}* critical path: ${path.join(' -> ')}`));
+  }
+  if (result.alternatives.length > 0) {
+    lines.push(dim(`${INDENT}Not scheduled (other decision branches): ${result.alternatives.join(', ')}`));
+  }
+
+  if (result.warnings.length > 0) {
+    lines.push('');
+    for (const message of result.warnings) {
+      lines.push(warning(message));
+    }
+  }
+
+  return lines.join('\n') + '\n';
+}
+
+// =============================================================================
+// Command Handler
+// =============================================================================
+
+async function runSchedule(processId: string, options: ScheduleCommandOptions): Promise<void> {
+  if (!['text', 'json', 'gantt'].includes(options.format)) {
+    console.error(chalk.red(`Unknown format "${options.format}" (expected text, json or gantt)`));
+    process.exit(1);
+  }
+
+  const document = await findProcessDocument(resolve(options.dir), processId);
+  if (!document) {
+    console.error(chalk.red(`Process ${processId} not found in ${options.dir}`));
+    process.exit(1);
+  }
+
+  let result: ScheduleResult;
+  try {
+    result = schedule(document, processId, { start: options.start });
+  } catch (err) {
+    console.error(chalk.red(err instanceof Error ? err.message : String(err)));
+    process.exit(1);
+  }
+
+  const output =
+    options.format === 'json' ? JSON.stringify(result, null, 2) + '\n' :
+    options.format === 'gantt' ? toGantt(result) :
+    formatReport(result);
+  if (options.output) {
+    writeFileSync(resolve(options.output), output, 'utf8');
+    console.error(success(`Wrote ${options.output}`));
+  } else {
+    process.stdout.write(output);
+  }
+}
+
+// =============================================================================
+// Command Definition
+// =============================================================================
+
+/**
+ * Create the schedule command.
+ */
+export function scheduleCommand(): Command {
+  return new Command('schedule')
+    .description('Compute the critical path schedule of a process')
+    .argument('<process-id>', 'Process to schedule (e.g., PR00001)')
+    .option('-d, --dir <dir>', 'Workspace directory', '.')
+    .option('--start <date>', 'Project start date, YYYY-MM-DD (default: today)')
+    .option('-f, --format <format>', 'Output format: text, json, gantt (Mermaid)', 'text')
+    .option('-o, --output <file>', 'Write the schedule to a file instead of stdout')
+    .addHelpText('after', `
+${chalk.bold('Examples:')}
+  ${chalk.cyan('ubml schedule PR00001 --start 2025-03-03')}
+  ${chalk.cyan('ubml schedule PR00001 -f gantt -o docs/plan.mmd')}
+  ${chalk.cyan('ubml schedule PR00001 -f json')}
+
+${chalk.bold('Notes:')}
+  Durations come from step duration (or effort) in working time: 8h days,
+  5-day weeks. Link schedule.type (finish-to-start, start-to-start,
+  finish-to-finish, start-to-finish) and schedule.lag set the dependencies;
+  step constraint and constraintDate pin or bound dates.
+`)
+    .action(runSchedule);
+}
@@ -10,193 +10,39 @@
 import { Command } from 'commander';
 import chalk from 'chalk';
 import { resolve, basename } from 'path';
-import { readdirSync, readFileSync, statSync } from 'fs';
-import { parse as parseYaml } from 'yaml';
-import { 
+import { statSync } from 'fs';
+import {
+  openWorkspace,
   type DocumentType,
-  detectDocumentType,
-} from '../../metadata.js';
+  type OpenedWorkspace,
+  type WorkspaceElement,
+} from '../../node/index';
 import { INDENT, header, subheader, dim, highlight, success } from '../formatters/text';
 
 // =============================================================================
-// Workspace Parsing
+// Workspace Contents
 // =============================================================================
 
-interface WorkspaceElement {
-  id: string;
-  name: string;
-  type: string;
-  file: string;
-  children?: WorkspaceElement[];
-}
-
-interface WorkspaceInfo {
-  name?: string;
-  description?: string;
-  files: { path: string; type: DocumentType }[];
-  actors: WorkspaceElement[];
-  processes: WorkspaceElement[];
-  entities: WorkspaceElement[];
-  steps: Map<string, WorkspaceElement[]>;
-  metrics: WorkspaceElement[];
-  hypotheses: WorkspaceElement[];
-  scenarios: WorkspaceElement[];
-  totalElements: number;
+/**
+ * Elements of a top-level collection (e.g., 'actors'), in document order.
+ */
+function collection(workspace: OpenedWorkspace, key: string): WorkspaceElement[] {
+  return workspace.elements.filter((element) => element.path.length === 2 && element.path[0] === key);
 }
 
 /**
- * Scan a directory for UBML files and parse their contents.
+ * Type of an element for display, from its `type` or `kind` property.
  */
-function scanWorkspace(dir: string): WorkspaceInfo {
-  const info: WorkspaceInfo = {
-    files: [],
-    actors: [],
-    processes: [],
-    entities: [],
-    steps: new Map(),
-    metrics: [],
-    hypotheses: [],
-    scenarios: [],
-    totalElements: 0,
-  };
-
-  function scanDir(currentDir: string): void {
-    try {
-      const entries = readdirSync(currentDir, { withFileTypes: true });
-      
-      for (const entry of entries) {
-        const fullPath = resolve(currentDir, entry.name);
-        
-        if (entry.isDirectory() && !entry.name.startsWith('.')) {
-          scanDir(fullPath);
-        } else if (entry.isFile() && entry.name.endsWith('.ubml.yaml')) {
-          const type = detectDocumentType(entry.name);
-          if (type) {
-            info.files.push({ path: fullPath, type });
-            parseUbmlFile(fullPath, type, info);
-          }
-        }
-      }
-    } catch {
-      // Skip unreadable directories
-    }
-  }
-
-  scanDir(dir);
-  return info;
+function displayType(element: WorkspaceElement, property: 'type' | 'kind', fallback: string): string {
+  const value = element.data[property];
+  return typeof value === 'string' ? value : fallback;
 }
 
 /**
- * Parse a UBML file and extract elements.
+ * File name of the document defining an element.
  */
-function parseUbmlFile(filepath: string, type: DocumentType, info: WorkspaceInfo): void {
-  try {
-    const content = readFileSync(filepath, 'utf8');
-    const parsed = parseYaml(content) as Record<string, unknown>;
-    const filename = basename(filepath);
-
-    // Extract workspace info
-    if (type === 'workspace') {
-      info.name = parsed.name as string | undefined;
-      info.description = parsed.description as string | undefined;
-    }
-
-    // Extract actors
-    if (parsed.actors && typeof parsed.actors === 'object') {
-      for (const [id, actor] of Object.entries(parsed.actors as Record<string, { name?: string; type?: string }>)) {
-        info.actors.push({
-          id,
-          name: actor.name || id,
-          type: actor.type || 'unknown',
-          file: filename,
-        });
-        info.totalElements++;
-      }
-    }
-
-    // Extract processes and their steps
-    if (parsed.processes && typeof parsed.processes === 'object') {
-      for (const [id, process] of Object.entries(parsed.processes as Record<string, { name?: string; steps?: Record<string, { name?: string; kind?: string }> }>)) {
-        const steps: WorkspaceElement[] = [];
-        
-        if (process.steps && typeof process.steps === 'object') {
-          for (const [stepId, step] of Object.entries(process.steps)) {
-            steps.push({
-              id: stepId,
-              name: step.name || stepId,
-              type: step.kind || 'action',
-              file: filename,
-            });
-            info.totalElements++;
-          }
-        }
-        
-        info.processes.push({
-          id,
-          name: process.name || id,
-          type: 'process',
-          file: filename,
-          children: steps,
-        });
-        info.steps.set(id, steps);
-        info.totalElements++;
-      }
-    }
-
-    // Extract entities
-    if (parsed.entities && typeof parsed.entities === 'object') {
-      for (const [id, entity] of Object.entries(parsed.entities as Record<string, { name?: string; type?: string }>)) {
-        info.entities.push({
-          id,
-          name: entity.name || id,
-          type: entity.type || 'entity',
-          file: filename,
-        });
-        info.totalElements++;
-      }
-    }
-
-    // Extract metrics
-    if (parsed.kpis && typeof parsed.kpis === 'object') {
-      for (const [id, kpi] of Object.entries(parsed.kpis as Record<string, { name?: string }>)) {
-        info.metrics.push({
-          id,
-          name: kpi.name || id,
-          type: 'kpi',
-          file: filename,
-        });
-        info.totalElements++;
-      }
-    }
-
-    // Extract hypotheses
-    if (parsed.hypothesisTrees && typeof parsed.hypothesisTrees === 'object') {
-      for (const [id, tree] of Object.entries(parsed.hypothesisTrees as Record<string, { name?: string }>)) {
-        info.hypotheses.push({
-          id,
-          name: tree.name || id,
-          type: 'hypothesis',
-          file: filename,
-        });
-        info.totalElements++;
-      }
-    }
-
-    // Extract scenarios
-    if (parsed.scenarios && typeof parsed.scenarios === 'object') {
-      for (const [id, scenario] of Object.entries(parsed.scenarios as Record<string, { name?: string }>)) {
-        info.scenarios.push({
-          id,
-          name: scenario.name || id,
-          type: 'scenario',
-          file: filename,
-        });
-        info.totalElements++;
-      }
-    }
-  } catch {
-    // Skip files that can't be parsed
-  }
+function fileName(element: WorkspaceElement): string {
+  return basename(element.document.meta.filepath ?? element.document.meta.filename ?? '');
 }
 
 // =============================================================================
@@ -206,17 +52,25 @@ function parseUbmlFile(filepath: string, type: DocumentType, info: WorkspaceInfo
 /**
  * Show workspace summary.
  */
-function showSummary(dir: string): void {
-  const absoluteDir = resolve(dir);
-  const info = scanWorkspace(absoluteDir);
+function showSummary(workspace: OpenedWorkspace): void {
+  const actors = collection(workspace, 'actors');
+  const processes = workspace.getElements('process').filter((proc) => proc.path[0] === 'processes');
+  const entities = collection(workspace, 'entities');
+  const metrics = collection(workspace, 'kpis');
+  const hypotheses = collection(workspace, 'hypothesisTrees');
+  const scenarios = collection(workspace, 'scenarios');
+  const totalSteps = processes.reduce((sum, proc) => sum + proc.steps.length, 0);
+  // Counted elements: the listed collections and the steps of processes
+  const totalElements = actors.length + processes.length + totalSteps + entities.length
+    + metrics.length + hypotheses.length + scenarios.length;
 
   console.log();
   
   // Workspace header
-  if (info.name) {
-    console.log(header(info.name));
-    if (info.description) {
-      console.log(dim(info.description));
+  if (workspace.name) {
+    console.log(header(workspace.name));
+    if (workspace.description) {
+      console.log(dim(workspace.description));
     }
   } else {
     console.log(header('UBML Workspace'));
@@ -227,11 +81,13 @@ function showSummary(dir: string): void {
   // Files summary
   console.log(subheader('Files'));
   const typeCount = new Map<DocumentType, number>();
-  for (const file of info.files) {
-    typeCount.set(file.type, (typeCount.get(file.type) || 0) + 1);
+  for (const document of workspace.documents) {
+    if (document.meta.type) {
+      typeCount.set(document.meta.type, (typeCount.get(document.meta.type) || 0) + 1);
+    }
   }
   
-  if (info.files.length === 0) {
+  if (workspace.documents.length === 0) {
     console.log(INDENT + dim('No UBML files found'));
   } else {
     for (const [type, count] of typeCount) {
@@ -243,101 +99,98 @@ function showSummary(dir: string): void {
   // Elements summary
   console.log(subheader('Elements'));
   
-  if (info.actors.length > 0) {
+  if (actors.length > 0) {
     const actorTypes = new Map<string, number>();
-    for (const actor of info.actors) {
-      actorTypes.set(actor.type, (actorTypes.get(actor.type) || 0) + 1);
+    for (const actor of actors) {
+      const type = displayType(actor, 'type', 'unknown');
+      actorTypes.set(type, (actorTypes.get(type) || 0) + 1);
     }
     const typeInfo = [...actorTypes.entries()].map(([t, c]) => `${c} ${t}`).join(', ');
-    console.log(INDENT + `Actors (${info.actors.length}): ${dim(typeInfo)}`);
+    console.log(INDENT + `Actors (${actors.length}): ${dim(typeInfo)}`);
   }
   
-  if (info.processes.length > 0) {
-    let totalSteps = 0;
-    for (const proc of info.processes) {
-      totalSteps += proc.children?.length || 0;
-    }
-    console.log(INDENT + `Processes (${info.processes.length}): ${dim(`${totalSteps} total steps`)}`);
+  if (processes.length > 0) {
+    console.log(INDENT + `Processes (${processes.length}): ${dim(`${totalSteps} total steps`)}`);
   }
   
-  if (info.entities.length > 0) {
-    console.log(INDENT + `Entities (${info.entities.length})`);
+  if (entities.length > 0) {
+    console.log(INDENT + `Entities (${entities.length})`);
   }
   
-  if (info.metrics.length > 0) {
-    console.log(INDENT + `Metrics/KPIs (${info.metrics.length})`);
+  if (metrics.length > 0) {
+    console.log(INDENT + `Metrics/KPIs (${metrics.length})`);
   }
   
-  if (info.hypotheses.length > 0) {
-    console.log(INDENT + `Hypothesis Trees (${info.hypotheses.length})`);
+  if (hypotheses.length > 0) {
+    console.log(INDENT + `Hypothesis Trees (${hypotheses.length})`);
   }
   
-  if (info.scenarios.length > 0) {
-    console.log(INDENT + `Scenarios (${info.scenarios.length})`);
+  if (scenarios.length > 0) {
+    console.log(INDENT + `Scenarios (${scenarios.length})`);
   }
   
-  if (info.totalElements === 0) {
+  if (totalElements === 0) {
     console.log(INDENT + dim('No elements defined'));
   }
   
   console.log();
   console.log(dim('─'.repeat(60)));
-  console.log(dim(`Total: ${info.files.length} files, ${info.totalElements} elements`));
+  console.log(dim(`Total: ${workspace.documents.length} files, ${totalElements} elements`));
   console.log();
 }
 
 /**
  * Show workspace as tree.
  */
-function showTree(dir: string): void {
-  const absoluteDir = resolve(dir);
-  const info = scanWorkspace(absoluteDir);
+function showTree(workspace: OpenedWorkspace): void {
+  const actors = collection(workspace, 'actors');
+  const entities = collection(workspace, 'entities');
+  const metrics = collection(workspace, 'kpis');
 
   console.log();
-  console.log(header(info.name || 'UBML Workspace'));
+  console.log(header(workspace.name || 'UBML Workspace'));
   console.log();
 
   // Show actors
-  if (info.actors.length > 0) {
+  if (actors.length > 0) {
     console.log(subheader('Actors'));
-    for (const actor of info.actors) {
-      console.log(INDENT + `${highlight(actor.id)} ${actor.name} ${dim(`[${actor.type}]`)}`);
+    for (const actor of actors) {
+      console.log(INDENT + `${highlight(actor.id)} ${actor.name ?? actor.id} ${dim(`[${displayType(actor, 'type', 'unknown')}]`)}`);
     }
     console.log();
   }
 
   // Show processes with steps
-  if (info.processes.length > 0) {
+  const processes = workspace.getElements('process').filter((proc) => proc.path[0] === 'processes');
+  if (processes.length > 0) {
     console.log(subheader('Processes'));
-    for (const proc of info.processes) {
-      console.log(INDENT + `${highlight(proc.id)} ${proc.name}`);
-      if (proc.children && proc.children.length > 0) {
-        for (let i = 0; i < proc.children.length; i++) {
-          const step = proc.children[i];
-          const isLast = i === proc.children.length - 1;
-          const prefix = isLast ? '└──' : '├──';
-          const kindIcon = getStepIcon(step.type);
-          console.log(INDENT + INDENT + `${dim(prefix)} ${kindIcon} ${dim(step.id)} ${step.name}`);
-        }
+    for (const proc of processes) {
+      console.log(INDENT + `${highlight(proc.id)} ${proc.name ?? proc.id}`);
+      for (let i = 0; i < proc.steps.length; i++) {
+        const step = proc.steps[i];
+        const isLast = i === proc.steps.length - 1;
+        const prefix = isLast ? '└──' : '├──';
+        const kindIcon = getStepIcon(displayType(step, 'kind', 'action'));
+        console.log(INDENT + INDENT + `${dim(prefix)} ${kindIcon} ${dim(step.id)} ${step.name ?? step.id}`);
       }
     }
     console.log();
   }
 
   // Show entities
-  if (info.entities.length > 0) {
+  if (entities.length > 0) {
     console.log(subheader('Entities'));
-    for (const entity of info.entities) {
-      console.log(INDENT + `${highlight(entity.id)} ${entity.name} ${dim(`[${entity.type}]`)}`);
+    for (const entity of entities) {
+      console.log(INDENT + `${highlight(entity.id)} ${entity.name ?? entity.id} ${dim(`[${displayType(entity, 'type', 'entity')}]`)}`);
     }
     console.log();
   }
 
   // Show metrics
-  if (info.metrics.length > 0) {
+  if (metrics.length > 0) {
     console.log(subheader('Metrics'));
-    for (const metric of info.metrics) {
-      console.log(INDENT + `${highlight(metric.id)} ${metric.name}`);
+    for (const metric of metrics) {
+      console.log(INDENT + `${highlight(metric.id)} ${metric.name ?? metric.id}`);
     }
     console.log();
   }
@@ -361,24 +214,22 @@ function getStepIcon(kind: string): string {
 /**
  * Show list of processes.
  */
-function showProcesses(dir: string): void {
-  const absoluteDir = resolve(dir);
-  const info = scanWorkspace(absoluteDir);
+function showProcesses(workspace: OpenedWorkspace): void {
+  const processes = workspace.getElements('process').filter((proc) => proc.path[0] === 'processes');
 
   console.log();
   console.log(header('Processes'));
   console.log(dim('─'.repeat(60)));
   console.log();
 
-  if (info.processes.length === 0) {
+  if (processes.length === 0) {
     console.log(dim('No processes defined'));
     console.log();
     console.log('Add a process with: ' + chalk.cyan('ubml add process'));
   } else {
-    for (const proc of info.processes) {
-      const stepCount = proc.children?.length || 0;
-      console.log(`${highlight(proc.id)} ${proc.name}`);
-      console.log(INDENT + dim(`${stepCount} steps | ${proc.file}`));
+    for (const proc of processes) {
+      console.log(`${highlight(proc.id)} ${proc.name ?? proc.id}`);
+      console.log(INDENT + dim(`${proc.steps.length} steps | ${fileName(proc)}`));
       console.log();
     }
   }
@@ -389,32 +240,32 @@ function showProcesses(dir: string): void {
 /**
  * Show list of actors.
  */
-function showActors(dir: string): void {
-  const absoluteDir = resolve(dir);
-  const info = scanWorkspace(absoluteDir);
+function showActors(workspace: OpenedWorkspace): void {
+  const actors = collection(workspace, 'actors');
 
   console.log();
   console.log(header('Actors'));
   console.log(dim('─'.repeat(60)));
   console.log();
 
-  if (info.actors.length === 0) {
+  if (actors.length === 0) {
     console.log(dim('No actors defined'));
     console.log();
     console.log('Add actors with: ' + chalk.cyan('ubml add actors'));
   } else {
     // Group by type
     const byType = new Map<string, WorkspaceElement[]>();
-    for (const actor of info.actors) {
-      const list = byType.get(actor.type) || [];
+    for (const actor of actors) {
+      const type = displayType(actor, 'type', 'unknown');
+      const list = byType.get(type) || [];
       list.push(actor);
-      byType.set(actor.type, list);
+      byType.set(type, list);
     }
 
-    for (const [type, actors] of byType) {
+    for (const [type, group] of byType) {
       console.log(subheader(type.charAt(0).toUpperCase() + type.slice(1) + 's'));
-      for (const actor of actors) {
-        console.log(INDENT + `${highlight(actor.id)} ${actor.name}`);
+      for (const actor of group) {
+        console.log(INDENT + `${highlight(actor.id)} ${actor.name ?? actor.id}`);
       }
       console.log();
     }
@@ -455,7 +306,7 @@ Views:
   processes   List processes with step counts
   actors      List actors grouped by type
 `)
-    .action((view: string | undefined, options: { dir: string }) => {
+    .action(async (view: string | undefined, options: { dir: string }) => {
       const viewType = view?.toLowerCase() || 'summary';
       const dir = resolve(options.dir);
 
@@ -470,24 +321,26 @@ Views:
         process.exit(1);
       }
 
+      const workspace = await openWorkspace(dir);
+
       switch (viewType) {
         case 'summary':
         case 's':
-          showSummary(dir);
+          showSummary(workspace);
           break;
         case 'tree':
         case 't':
-          showTree(dir);
+          showTree(workspace);
           break;
         case 'processes':
         case 'process':
         case 'p':
-          showProcesses(dir);
+          showProcesses(workspace);
           break;
         case 'actors':
         case 'actor':
         case 'a':
-          showActors(dir);
+          showActors(workspace);
           break;
         default:
           console.error(chalk.red(`Unknown view: ${view}`));
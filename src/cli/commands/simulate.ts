@@ -0,0 +1,211 @@
+/**
+ * Simulate command for UBML CLI.
+ *
+ * Runs a scenario through a process with the discrete-event simulation
+ * engine and reports cycle times, throughput, WIP, queues and resource
+ * utilization.
+ *
+ * @module ubml/cli/commands/simulate
+ */
+
+import { Command } from 'commander';
+import chalk from 'chalk';
+import { writeFileSync } from 'fs';
+import { resolve } from 'path';
+import { glob } from 'glob';
+import { getUBMLFilePatterns } from '../../metadata.js';
+import { parseDuration, parseFile, simulate, type SimulationResult, type UBMLDocument } from '../../node/index';
+import { INDENT, dim, header, subheader, success, warning } from '../formatters/text';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+interface SimulateCommandOptions {
+  dir: string;
+  process?: string;
+  replications?: string;
+  seed?: string;
+  runLength?: string;
+  warmup?: string;
+  format: 'text' | 'json';
+  output?: string;
+}
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+/**
+ * Parse all UBML documents in a workspace directory.
+ */
+async function loadDocuments(dir: string): Promise<UBMLDocument[]> {
+  const files = await glob(getUBMLFilePatterns(), { cwd: dir, absolute: true, ignore: '**/node_modules/**' });
+  const documents: UBMLDocument[] = [];
+  for (const file of [...new Set(files)].sort()) {
+    const result = await parseFile(file);
+    if (result.ok && result.document) {
+      documents.push(result.document);
+    } else {
+      console.error(warning(`Skipping ${file}: ${result.errors[0]?.message ?? 'parse failed'}`));
+    }
+  }
+  return documents;
+}
+
+/**
+ * Parse a numeric option or exit with an error.
+ */
+function parseInteger(value: string | undefined, name: string): number | undefined {
+  if (value === undefined) return undefined;
+  const number = Number(value);
+  if (!Number.isInteger(number)) {
+    console.error(chalk.red(`${name} must be an integer, got "${value}"`));
+    process.exit(1);
+  }
+  return number;
+}
+
+/**
+ * Parse a duration option or exit with an error.
+ */
+function parseHours(value: string | undefined, name: string): number | undefined {
+  if (value === undefined) return undefined;
+  const hours = parseDuration(value);
+  if (hours === undefined) {
+    console.error(chalk.red(`${name} must be a duration like 2wk or 20d, got "${value}"`));
+    process.exit(1);
+  }
+  return hours;
+}
+
+function formatNumber(value: number): string {
+  return Number.isInteger(value) ? String(value) : value.toFixed(2);
+}
+
+function formatPercent(value: number | null): string {
+  return value === null ? '-' : `${(value * 100).toFixed(1)}%`;
+}
+
+/**
+ * Format simulation results as a text report.
+ */
+function formatReport(result: SimulationResult): string {
+  const lines: string[] = [];
+  lines.push(header(`Simulation: ${result.scenario.id} ${result.scenario.name}`));
+  lines.push(dim(
+    `${INDENT}Process ${result.processId}, ${result.replications} replication(s), seed ${result.seed}, ` +
+    `run length ${formatNumber(result.runLength)}h, warmup ${formatNumber(result.warmupPeriod)}h (working hours)`
+  ));
+  lines.push('');
+
+  lines.push(subheader('Work items (per replication)'));
+  lines.push(`${INDENT}Arrived      ${formatNumber(result.arrivals)}`);
+  lines.push(`${INDENT}Completed    ${formatNumber(result.completed)}`);
+  lines.push(`${INDENT}Throughput   ${formatNumber(result.throughput.perDay)}/day (${formatNumber(result.throughput.perHour)}/h)`);
+  lines.push(`${INDENT}WIP          mean ${formatNumber(result.wip.mean)}, max ${result.wip.max}`);
+  lines.push('');
+
+  lines.push(subheader('Cycle time (working hours)'));
+  if (result.cycleTime) {
+    const { mean, p50, p90, p95, max } = result.cycleTime;
+    lines.push(
+      `${INDENT}mean ${formatNumber(mean)}  p50 ${formatNumber(p50)}  p90 ${formatNumber(p90)}  ` +
+      `p95 ${formatNumber(p95)}  max ${formatNumber(max)}`
+    );
+  } else {
+    lines.push(dim(`${INDENT}No work items completed`));
+  }
+
+  if (result.resources.length > 0) {
+    lines.push('');
+    lines.push(subheader('Resources'));
+    const nameWidth = Math.max(...result.resources.map((resource) => `${resource.id} ${resource.name}`.length), 8);
+    lines.push(dim(
+      `${INDENT}${'Resource'.padEnd(nameWidth)}  ${'Capacity'.padStart(8)}  ${'Util.'.padStart(7)}  ` +
+      `${'Queue avg/max'.padStart(13)}  ${'Wait (h)'.padStart(8)}`
+    ));
+    for (const resource of result.resources) {
+      const queue = `${formatNumber(resource.queue.mean)}/${resource.queue.max}`;
+      lines.push(
+        `${INDENT}${`${resource.id} ${resource.name}`.padEnd(nameWidth)}  ` +
+        `${(resource.capacity === null ? 'unlimited' : String(resource.capacity)).padStart(8)}  ` +
+        `${formatPercent(resource.utilization).padStart(7)}  ${queue.padStart(13)}  ` +
+        `${formatNumber(resource.meanWait).padStart(8)}`
+      );
+    }
+  }
+
+  return lines.join('\n') + '\n';
+}
+
+// =============================================================================
+// Command Handler
+// =============================================================================
+
+async function runSimulation(scenarioId: string, options: SimulateCommandOptions): Promise<void> {
+  if (options.format !== 'text' && options.format !== 'json') {
+    console.error(chalk.red(`Unknown format "${options.format}" (expected text or json)`));
+    process.exit(1);
+  }
+
+  const documents = await loadDocuments(resolve(options.dir));
+  if (documents.length === 0) {
+    console.error(chalk.red(`No UBML files found in ${options.dir}`));
+    process.exit(1);
+  }
+
+  let result: SimulationResult;
+  try {
+    result = simulate(documents, scenarioId, {
+      processId: options.process,
+      replications: parseInteger(options.replications, 'Replications'),
+      seed: parseInteger(options.seed, 'Seed'),
+      runLength: parseHours(options.runLength, 'Run length'),
+      warmupPeriod: parseHours(options.warmup, 'Warmup'),
+    });
+  } catch (err) {
+    console.error(chalk.red(err instanceof Error ? err.message : String(err)));
+    process.exit(1);
+  }
+
+  const output = options.format === 'json' ? JSON.stringify(result, null, 2) + '\n' : formatReport(result);
+  if (options.output) {
+    writeFileSync(resolve(options.output), output, 'utf8');
+    console.error(success(`Wrote ${options.output}`));
+  } else {
+    process.stdout.write(output);
+  }
+}
+
+// =============================================================================
+// Command Definition
+// =============================================================================
+
+/**
+ * Create the simulate command.
+ */
+export function simulateCommand(): Command {
+  return new Command('simulate')
+    .description('Run a scenario through a process with discrete-event simulation')
+    .argument('<scenario-id>', 'Scenario to simulate (e.g., SC00001)')
+    .option('-d, --dir <dir>', 'Workspace directory', '.')
+    .option('-p, --process <id>', 'Process to simulate (default: the only top-level process)')
+    .option('-r, --replications <n>', 'Number of replications (default: simulationConfig or 10)')
+    .option('-s, --seed <n>', 'Random seed (default: simulationConfig or 1)')
+    .option('--run-length <duration>', 'Run length, e.g. 3mo (default: simulationConfig or 1mo)')
+    .option('--warmup <duration>', 'Warmup period excluded from statistics, e.g. 1wk')
+    .option('-f, --format <format>', 'Output format: text, json', 'text')
+    .option('-o, --output <file>', 'Write the report to a file instead of stdout')
+    .addHelpText('after', `
+${chalk.bold('Examples:')}
+  ${chalk.cyan('ubml simulate SC00001')}
+  ${chalk.cyan('ubml simulate SC00002 -p PR00001 -r 30 --seed 7 -f json -o results.json')}
+
+${chalk.bold('Notes:')}
+  Times are working hours (1d = 8h). Runs with the same seed give the same
+  results. Utilization is reported for resource pools and for actors
+  responsible for steps.
+`)
+    .action(runSimulation);
+}
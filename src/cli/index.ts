@@ -8,6 +8,20 @@
  * - add: Add new UBML documents to workspace
  * - validate: Validate UBML documents against schemas
  * - schema: Explore UBML schema and learn what you can model
+ * - export: Export documents to other formats (BPMN, Mermaid, DOT, sequence diagrams, ArchiMate)
+ * - import: Import models from other formats (BPMN)
+ * - simulate: Run scenarios with discrete-event simulation
+ * - roi: Compute ROI analyses (NPV, IRR, payback)
+ * - schedule: Critical path schedule and Gantt chart of a process
+ * - lsp: Language server for editors
+ * - fmt: Format documents canonically, keeping comments
+ * - diff: Compare workspace revisions element by element
+ * - migrate: Upgrade documents to a newer schema version
+ * - mine: Load and analyze event logs of mining sources
+ * - cost: Expected cost per case of a process
+ * - rename: Rename an ID across the workspace
+ * - renumber: Renumber IDs with a prefix
+ * - merge-driver: Git merge driver that merges documents by element ID
  * - help: Interactive help system
  * - syntax: Quick syntax lookup for element types
  * - examples: Show examples for types or properties
@@ -26,6 +40,19 @@ import { schemaCommand } from './commands/schema';
 import { addCommand } from './commands/add';
 import { showCommand } from './commands/show';
 import { helpCommand } from './commands/help';
+import { exportCommand } from './commands/export';
+import { importCommand } from './commands/import';
+import { simulateCommand } from './commands/simulate';
+import { roiCommand } from './commands/roi';
+import { scheduleCommand } from './commands/schedule';
+import { lspCommand } from './commands/lsp';
+import { fmtCommand } from './commands/fmt';
+import { diffCommand } from './commands/diff';
+import { migrateCommand } from './commands/migrate';
+import { mineCommand } from './commands/mine';
+import { costCommand } from './commands/cost';
+import { renameCommand, renumberCommand } from './commands/rename';
+import { mergeDriverCommand } from './commands/merge-driver';
 import { syntaxCommand, idsCommand, enumsCommand, nextidCommand, syncidsCommand } from './commands/ref';
 
 /**
@@ -60,6 +87,17 @@ ${chalk.dim('Documentation: https://ubml.talxis.com/docs')}
   program.addCommand(addCommand());       // 3. Add content
   program.addCommand(validateCommand());  // 4. Validate
   program.addCommand(showCommand());      // 5. Visualize workspace
+  program.addCommand(exportCommand());    // 6. Export to other tools
+  program.addCommand(importCommand());    // 7. Import from other tools
+  program.addCommand(simulateCommand());  // 8. Simulate scenarios
+  program.addCommand(roiCommand());       // 9. Business case figures
+  program.addCommand(scheduleCommand());  // 10. Project schedules
+  program.addCommand(lspCommand());       // 11. Editor integration
+  program.addCommand(fmtCommand());       // 12. Canonical formatting
+  program.addCommand(diffCommand());      // 13. Review model changes
+  program.addCommand(migrateCommand());   // 14. Schema upgrades
+  program.addCommand(mineCommand());      // 15. Event log data
+  program.addCommand(costCommand());      // 16. Cost per case
   program.addCommand(helpCommand());      // Unified help
   
   // Quick reference commands
@@ -68,6 +106,9 @@ ${chalk.dim('Documentation: https://ubml.talxis.com/docs')}
   program.addCommand(enumsCommand());     // Enum values
   program.addCommand(nextidCommand());    // Next available ID
   program.addCommand(syncidsCommand());   // Sync ID stats from files
+  program.addCommand(renameCommand());    // Rename an ID everywhere
+  program.addCommand(renumberCommand());  // Renumber IDs by prefix
+  program.addCommand(mergeDriverCommand()); // Git merge driver
 
   return program;
 }
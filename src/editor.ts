@@ -0,0 +1,287 @@
+/**
+ * UBML Document Editor (Browser-Safe)
+ *
+ * Structural edits of parsed UBML documents. Edits are applied to the YAML
+ * document kept by `parse()`, not to `content`, so comments, key order,
+ * quoting and blank lines survive. The text is written in the source's own
+ * indentation without wrapping long lines, so untouched lines stay as they
+ * are; edits that leave the content as it was leave the text alone.
+ *
+ * @module ubml
+ */
+
+import { isCollection, isMap, isScalar, isSeq, type Document, type Node } from 'yaml';
+import { parse, type SourceLocation, type UBMLDocument } from './parser.js';
+import { stringifyYaml } from './utils/yaml-layout.js';
+import type { ValidationError, Validator } from './validator.js';
+
+/**
+ * Options for editing a document.
+ */
+export interface EditDocumentOptions {
+  /**
+   * Validator used to check each edit against the schema.
+   * Without one, edits are not validated.
+   */
+  validator?: Validator;
+}
+
+/**
+ * Outcome of one edit.
+ */
+export interface DocumentEditResult {
+  op: 'set' | 'delete' | 'insert';
+  /** JSON pointer of the changed node */
+  path: string;
+  /** Location of the changed node in the edited source (undefined after delete) */
+  location?: SourceLocation;
+  /** Schema errors introduced by this edit */
+  errors: ValidationError[];
+  /** False when the edit left the content as it was (e.g., set to the current value) */
+  changed: boolean;
+}
+
+/**
+ * Chainable editor for a UBML document.
+ */
+export interface DocumentEditor<T = unknown> {
+  /**
+   * Set the value at a path, creating missing maps on the way.
+   * Scalars that are replaced by scalars keep their comments and quoting.
+   */
+  set(path: string, value: unknown): DocumentEditor<T>;
+  /** Delete the key or sequence item at a path. */
+  delete(path: string): DocumentEditor<T>;
+  /**
+   * Insert a new key into the map at a path, or an item into the sequence
+   * at a path before the given index.
+   */
+  insert(path: string, key: string | number, value: unknown): DocumentEditor<T>;
+  /** The edited document, re-parsed with updated source locations */
+  readonly document: UBMLDocument<T>;
+  /** Results of the edits so far, in order */
+  readonly results: DocumentEditResult[];
+  /** Schema errors of the edited document (empty without a validator) */
+  readonly errors: ValidationError[];
+  /**
+   * Whether the content differs from the original document. False when the
+   * edits changed nothing or undid each other.
+   */
+  readonly changed: boolean;
+  /** The edited YAML source */
+  toString(): string;
+}
+
+function splitPath(path: string): string[] {
+  return path.split('/').filter(Boolean);
+}
+
+function joinPath(segments: (string | number)[]): string {
+  return '/' + segments.join('/');
+}
+
+function errorKey(error: ValidationError): string {
+  return `${error.path ?? ''}\n${error.code ?? ''}\n${error.message}`;
+}
+
+/**
+ * Find the collection at a path.
+ *
+ * @throws When the path does not lead to a map or sequence
+ */
+function getCollection(yamlDoc: Document, segments: string[]): Node {
+  let node: unknown = yamlDoc.contents;
+  for (let i = 0; i < segments.length; i++) {
+    if (isMap(node)) {
+      node = node.get(segments[i], true);
+    } else if (isSeq(node)) {
+      node = node.get(Number(segments[i]), true);
+    } else {
+      node = undefined;
+    }
+    if (node === undefined) {
+      throw new Error(`Path not found: ${joinPath(segments.slice(0, i + 1))}`);
+    }
+  }
+  if (!isCollection(node)) {
+    throw new Error(`Not a map or sequence: ${joinPath(segments)}`);
+  }
+  return node;
+}
+
+/**
+ * Replace a scalar's value in place, keeping its comments. Quoting is kept
+ * for strings only, so numbers and booleans are not written as strings.
+ *
+ * @returns False when the node or the value is not a scalar
+ */
+function updateScalar(node: unknown, value: unknown): boolean {
+  if (!isScalar(node) || (typeof value === 'object' && value !== null)) return false;
+  node.value = value;
+  if (typeof value !== 'string') node.type = undefined;
+  return true;
+}
+
+/**
+ * The YAML document of a parsed document, re-parsed from its source when
+ * the document was built without one.
+ *
+ * @throws When the source is not valid YAML
+ */
+function yamlDocumentOf(doc: UBMLDocument<unknown>): Document {
+  if (doc.yamlDocument) return doc.yamlDocument;
+  const reparsed = parse(doc.source, doc.meta.filename);
+  if (!reparsed.document?.yamlDocument) {
+    throw new Error(`Cannot edit ${doc.meta.filename ?? 'document'}: ${reparsed.errors[0]?.message ?? 'invalid YAML'}`);
+  }
+  return reparsed.document.yamlDocument;
+}
+
+function seqIndex(segment: string | number, length: number, path: string): number {
+  const index = Number(segment);
+  if (!Number.isInteger(index) || index < 0 || index > length) {
+    throw new Error(`Invalid sequence index ${segment} at ${path}`);
+  }
+  return index;
+}
+
+/**
+ * Edit a parsed UBML document while keeping its source formatting.
+ *
+ * The original document is not modified. Documents without a
+ * `yamlDocument` are re-parsed from `source`. After each edit the source is
+ * re-parsed, so `document.getSourceLocation()` and the edit results point
+ * into the edited text.
+ *
+ * @param doc - Document from `parse()`
+ * @param options - Editor options
+ *
+ * @example
+ * ```typescript
+ * import { parse, editDocument, createValidator } from 'ubml';
+ *
+ * const { document } = parse(yaml, 'claims.process.ubml.yaml');
+ * const editor = editDocument(document!, { validator: await createValidator() })
+ *   .set('/processes/PR00001/name', 'Claims Handling')
+ *   .insert('/processes/PR00001/steps', 'ST00003', { name: 'Archive', kind: 'action' })
+ *   .delete('/processes/PR00001/description');
+ *
+ * console.log(editor.results.map((r) => r.location?.line));
+ * const updated = editor.toString();
+ * ```
+ */
+export function editDocument<T = unknown>(doc: UBMLDocument<T>, options: EditDocumentOptions = {}): DocumentEditor<T> {
+  const { validator } = options;
+  let current = doc;
+  let errors = validator ? validator.validateDocument(current).errors : [];
+  const results: DocumentEditResult[] = [];
+
+  const apply = (op: DocumentEditResult['op'], path: string, change: (yamlDoc: Document) => void): void => {
+    const yamlDoc = yamlDocumentOf(current).clone();
+    change(yamlDoc);
+
+    if (JSON.stringify(yamlDoc.toJS()) === JSON.stringify(current.content)) {
+      results.push({ op, path, location: current.getSourceLocation(path), errors: [], changed: false });
+      return;
+    }
+
+    const source = stringifyYaml(yamlDoc, current.source);
+    const reparsed = parse<T>(source, current.meta.filename);
+    if (!reparsed.document) {
+      throw new Error(`Edit of ${path} produced invalid YAML: ${reparsed.errors[0]?.message}`);
+    }
+    current = reparsed.document;
+
+    const before = new Set(errors.map(errorKey));
+    errors = validator ? validator.validateDocument(current).errors : [];
+    results.push({
+      op,
+      path,
+      location: op === 'delete' ? undefined : current.getSourceLocation(path),
+      errors: errors.filter((error) => !before.has(errorKey(error))),
+      changed: true,
+    });
+  };
+
+  const editor: DocumentEditor<T> = {
+    set(path, value) {
+      const segments = splitPath(path);
+      if (segments.length === 0) throw new Error('Cannot set the document root');
+      apply('set', path, (yamlDoc) => {
+        // Create missing maps on the way to the parent
+        let parentSegments = segments.slice(0, -1);
+        let created: unknown = value;
+        while (parentSegments.length > 0 && !yamlDoc.hasIn(parentSegments)) {
+          created = { [segments[parentSegments.length]]: created };
+          parentSegments = parentSegments.slice(0, -1);
+        }
+        const key = segments[parentSegments.length];
+        const parent = getCollection(yamlDoc, parentSegments);
+
+        if (isSeq(parent)) {
+          const index = seqIndex(key, parent.items.length, path);
+          if (created !== value || !updateScalar(parent.items[index], value)) {
+            parent.set(index, yamlDoc.createNode(created));
+          }
+        } else if (isMap(parent)) {
+          if (created !== value || !updateScalar(parent.get(key, true), value)) {
+            parent.set(key, yamlDoc.createNode(created));
+          }
+        }
+      });
+      return editor;
+    },
+
+    delete(path) {
+      const segments = splitPath(path);
+      if (segments.length === 0) throw new Error('Cannot delete the document root');
+      apply('delete', path, (yamlDoc) => {
+        const parent = getCollection(yamlDoc, segments.slice(0, -1));
+        const key = segments[segments.length - 1];
+        const deleted = isSeq(parent) ? parent.delete(Number(key)) : isMap(parent) && parent.delete(key);
+        if (!deleted) throw new Error(`Path not found: ${path}`);
+      });
+      return editor;
+    },
+
+    insert(path, key, value) {
+      const segments = splitPath(path);
+      const itemPath = joinPath([...segments, key]);
+      apply('insert', itemPath, (yamlDoc) => {
+        const collection = getCollection(yamlDoc, segments);
+        if (isSeq(collection)) {
+          const index = seqIndex(key, collection.items.length, itemPath);
+          collection.items.splice(index, 0, yamlDoc.createNode(value));
+        } else if (isMap(collection)) {
+          if (collection.has(String(key))) {
+            throw new Error(`Key already exists: ${itemPath} (use set to replace it)`);
+          }
+          collection.add(yamlDoc.createPair(String(key), value));
+        }
+      });
+      return editor;
+    },
+
+    get document() {
+      return current;
+    },
+
+    get results() {
+      return results;
+    },
+
+    get errors() {
+      return errors;
+    },
+
+    get changed() {
+      return results.some((result) => result.changed) && JSON.stringify(current.content) !== JSON.stringify(doc.content);
+    },
+
+    toString() {
+      return current.source;
+    },
+  };
+
+  return editor;
+}
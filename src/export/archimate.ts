@@ -0,0 +1,346 @@
+/**
+ * ArchiMate Exporter (Browser-Safe)
+ *
+ * Projects a UBML workspace onto an ArchiMate 3.1 model in the Open Group
+ * Open Exchange Format, so enterprise architects can import it into Archi or
+ * any other conforming repository tool.
+ *
+ * | UBML                          | ArchiMate                           |
+ * |-------------------------------|-------------------------------------|
+ * | actor (role)                  | Business Role                       |
+ * | actor (system)                | Application Component               |
+ * | actor (other types)           | Business Actor                      |
+ * | process (level 1)             | Business Function                   |
+ * | process, activity step        | Business Process                    |
+ * | start/end/milestone/wait step | Business Event                      |
+ * | entity                        | Business Object                     |
+ * | document                      | Representation                      |
+ * | capability                    | Capability                          |
+ * | value stream and its stages   | Value Stream                        |
+ *
+ * Relationships are derived from process structure (composition), links and
+ * calls (triggering), responsible actors (assignment), step systems (serving),
+ * step inputs/outputs (access) and strategy references (realization).
+ *
+ * @module ubml/export/archimate
+ */
+
+import type {
+  ActorsDocument,
+  EntitiesDocument,
+  LinksDocument,
+  Process,
+  ProcessDocument,
+  Step,
+  StrategyDocument,
+  WorkspaceDocument,
+} from '../generated/types.js';
+import type { UBMLDocument } from '../parser.js';
+import { renderXml, xmlElement, type XmlElement } from '../utils/xml.js';
+
+// =============================================================================
+// Public Types
+// =============================================================================
+
+/**
+ * Options for ArchiMate export.
+ */
+export interface ArchimateExportOptions {
+  /** Model name (default: workspace name, else 'UBML Model') */
+  name?: string;
+}
+
+// =============================================================================
+// Model
+// =============================================================================
+
+type ElementType =
+  | 'BusinessActor'
+  | 'BusinessRole'
+  | 'BusinessProcess'
+  | 'BusinessFunction'
+  | 'BusinessEvent'
+  | 'BusinessObject'
+  | 'Representation'
+  | 'ApplicationComponent'
+  | 'Capability'
+  | 'ValueStream';
+
+type RelationshipType =
+  | 'Composition'
+  | 'Assignment'
+  | 'Realization'
+  | 'Serving'
+  | 'Access'
+  | 'Triggering'
+  | 'Association';
+
+interface ModelElement {
+  type: ElementType;
+  name: string;
+  documentation?: string;
+}
+
+interface ModelRelationship {
+  type: RelationshipType;
+  source: string;
+  target: string;
+  name?: string;
+  accessType?: 'Read' | 'Write' | 'ReadWrite';
+}
+
+/**
+ * Elements and relationships collected during export.
+ */
+interface ArchimateModel {
+  elements: Map<string, ModelElement>;
+  relationships: Map<string, ModelRelationship>;
+}
+
+/**
+ * Add an element unless one with the same ID exists.
+ */
+function addElement(model: ArchimateModel, id: string, type: ElementType, name: string, documentation?: string): void {
+  if (!model.elements.has(id)) {
+    model.elements.set(id, { type, name, documentation });
+  }
+}
+
+/**
+ * Add a relationship. Repeated access relationships between the same pair
+ * are merged (read + write becomes ReadWrite).
+ */
+function relate(
+  model: ArchimateModel,
+  type: RelationshipType,
+  source: string,
+  target: string,
+  extra: Partial<ModelRelationship> = {}
+): void {
+  const key = `${type}_${source}_${target}`;
+  const existing = model.relationships.get(key);
+  if (!existing) {
+    model.relationships.set(key, { type, source, target, ...extra });
+  } else if (existing.accessType && extra.accessType && existing.accessType !== extra.accessType) {
+    existing.accessType = 'ReadWrite';
+  }
+}
+
+/**
+ * Map an actor to its ArchiMate element type.
+ */
+function actorElementType(actor: { type: string; kind: string }): ElementType {
+  if (actor.type === 'system' || actor.kind === 'system') return 'ApplicationComponent';
+  if (actor.type === 'role') return 'BusinessRole';
+  return 'BusinessActor';
+}
+
+/**
+ * Map a step kind to its ArchiMate element type.
+ */
+function stepElementType(kind: Step['kind']): ElementType {
+  switch (kind) {
+    case 'start':
+    case 'end':
+    case 'milestone':
+    case 'wait':
+      return 'BusinessEvent';
+    default:
+      return 'BusinessProcess';
+  }
+}
+
+/**
+ * Add a step, its nested steps and its relationships.
+ */
+function addStep(model: ArchimateModel, parentId: string, stepId: string, step: Step): void {
+  addElement(model, stepId, stepElementType(step.kind), step.name ?? stepId, step.description);
+  relate(model, 'Composition', parentId, stepId);
+
+  for (const actorId of step.RACI?.responsible ?? []) {
+    relate(model, 'Assignment', actorId, stepId);
+  }
+  for (const systemId of step.systems ?? []) {
+    relate(model, 'Serving', systemId, stepId);
+  }
+  for (const input of step.inputs ?? []) {
+    relate(model, 'Access', stepId, input.ref, { accessType: 'Read' });
+  }
+  for (const output of step.outputs ?? []) {
+    relate(model, 'Access', stepId, output.ref, { accessType: 'Write' });
+  }
+  for (const call of step.calls ?? []) {
+    relate(model, 'Triggering', stepId, call.process);
+  }
+  for (const [childId, child] of Object.entries((step.steps ?? {}) as Record<string, Step>)) {
+    addStep(model, stepId, childId, child);
+  }
+}
+
+/**
+ * Add a process, its steps and its subprocesses.
+ */
+function addProcess(model: ArchimateModel, processId: string, process: Process, parentId?: string): void {
+  addElement(model, processId, process.level === 1 ? 'BusinessFunction' : 'BusinessProcess', process.name, process.description);
+  if (parentId) {
+    relate(model, 'Composition', parentId, processId);
+  }
+  for (const [stepId, step] of Object.entries(process.steps as Record<string, Step>)) {
+    addStep(model, processId, stepId, step);
+  }
+  for (const link of process.links ?? []) {
+    relate(model, 'Triggering', link.from, link.to);
+  }
+  for (const [subId, sub] of Object.entries((process.subprocesses ?? {}) as Record<string, Process>)) {
+    addProcess(model, subId, sub, processId);
+  }
+}
+
+/**
+ * Add capabilities and value streams from a strategy document.
+ */
+function addStrategy(model: ArchimateModel, strategy: StrategyDocument): void {
+  const capabilities = Object.entries(strategy.capabilities ?? {});
+  for (const [capabilityId, capability] of capabilities) {
+    addElement(model, capabilityId, 'Capability', capability.name, capability.description);
+  }
+  for (const [capabilityId, capability] of capabilities) {
+    if (capability.parent) relate(model, 'Composition', capability.parent, capabilityId);
+    for (const processId of capability.processes ?? []) {
+      relate(model, 'Realization', processId, capabilityId);
+    }
+    for (const systemId of capability.systems ?? []) {
+      relate(model, 'Realization', systemId, capabilityId);
+    }
+  }
+
+  for (const [streamId, stream] of Object.entries(strategy.valueStreams ?? {})) {
+    addElement(model, streamId, 'ValueStream', stream.name, stream.description);
+    if (stream.customer) relate(model, 'Serving', streamId, stream.customer);
+
+    // Stages become nested value streams, triggering each other in order
+    let previous: string | undefined;
+    (stream.stages ?? []).forEach((stage, index) => {
+      const stageId = `${streamId}_stage${index + 1}`;
+      addElement(model, stageId, 'ValueStream', stage.name, stage.description);
+      relate(model, 'Composition', streamId, stageId);
+      if (previous) relate(model, 'Triggering', previous, stageId);
+      for (const processId of stage.processes ?? []) {
+        relate(model, 'Realization', processId, stageId);
+      }
+      previous = stageId;
+    });
+  }
+}
+
+/**
+ * Add business objects for entities and representations for documents.
+ */
+function addEntities(model: ArchimateModel, entities: EntitiesDocument): void {
+  for (const [entityId, entity] of Object.entries(entities.entities ?? {})) {
+    addElement(model, entityId, 'BusinessObject', entity.name, entity.description);
+  }
+  for (const [documentId, document] of Object.entries(entities.documents ?? {})) {
+    addElement(model, documentId, 'Representation', document.name, document.description);
+  }
+  for (const [entityId, entity] of Object.entries(entities.entities ?? {})) {
+    for (const [name, relationship] of Object.entries(entity.relationships ?? {})) {
+      if (relationship) relate(model, 'Association', entityId, relationship.target, { name });
+    }
+  }
+}
+
+// =============================================================================
+// Rendering
+// =============================================================================
+
+/**
+ * Render a language-tagged text element (name or documentation).
+ */
+function langElement(name: string, text: string): XmlElement {
+  return xmlElement(name, { 'xml:lang': 'en' }, [text]);
+}
+
+// =============================================================================
+// Public API
+// =============================================================================
+
+/**
+ * Export the documents of a UBML workspace as an ArchiMate Open Exchange
+ * Format model.
+ *
+ * Relationships whose source or target is not part of the model (for example
+ * references to documents that were not passed in) are omitted.
+ *
+ * @param documents - Parsed workspace documents (any types; unsupported ones are ignored)
+ * @param options - Export options
+ *
+ * @example
+ * ```typescript
+ * import { parse, toArchimate } from 'ubml';
+ *
+ * const documents = files.map((file) => parse(file.content, file.name).document!);
+ * const xml = toArchimate(documents);
+ * ```
+ */
+export function toArchimate(documents: UBMLDocument[], options: ArchimateExportOptions = {}): string {
+  const model: ArchimateModel = { elements: new Map(), relationships: new Map() };
+  const byType = (type: string) => documents.filter((document) => document.meta.type === type).map((document) => document.content);
+
+  for (const actors of byType('actors') as ActorsDocument[]) {
+    for (const [actorId, actor] of Object.entries(actors.actors ?? {})) {
+      addElement(model, actorId, actorElementType(actor), actor.name, actor.description);
+    }
+  }
+  for (const entities of byType('entities') as EntitiesDocument[]) {
+    addEntities(model, entities);
+  }
+  for (const processes of byType('process') as ProcessDocument[]) {
+    for (const [processId, process] of Object.entries(processes.processes ?? {})) {
+      addProcess(model, processId, process as Process);
+    }
+  }
+  for (const links of byType('links') as LinksDocument[]) {
+    for (const link of links.links ?? []) {
+      relate(model, 'Triggering', link.from, link.to);
+    }
+  }
+  for (const strategy of byType('strategy') as StrategyDocument[]) {
+    addStrategy(model, strategy);
+  }
+
+  const [workspace] = byType('workspace') as WorkspaceDocument[];
+  const modelName = options.name ?? workspace?.name ?? 'UBML Model';
+
+  const elements = [...model.elements].map(([id, element]) =>
+    xmlElement('element', { identifier: id, 'xsi:type': element.type }, [
+      langElement('name', element.name),
+      element.documentation ? langElement('documentation', element.documentation) : undefined,
+    ])
+  );
+  const relationships = [...model.relationships]
+    .filter(([, relationship]) => model.elements.has(relationship.source) && model.elements.has(relationship.target))
+    .map(([id, relationship]) =>
+      xmlElement('relationship', {
+        identifier: id,
+        source: relationship.source,
+        target: relationship.target,
+        'xsi:type': relationship.type,
+        accessType: relationship.accessType,
+      }, [relationship.name ? langElement('name', relationship.name) : undefined])
+    );
+
+  const root = xmlElement('model', {
+    xmlns: 'http://www.opengroup.org/xsd/archimate/3.0/',
+    'xmlns:xsi': 'http://www.w3.org/2001/XMLSchema-instance',
+    'xsi:schemaLocation': 'http://www.opengroup.org/xsd/archimate/3.0/ http://www.opengroup.org/xsd/archimate/3.1/archimate3_Model.xsd',
+    identifier: 'ubml-model',
+  }, [
+    langElement('name', modelName),
+    workspace?.description ? langElement('documentation', workspace.description) : undefined,
+    elements.length > 0 ? xmlElement('elements', undefined, elements) : undefined,
+    relationships.length > 0 ? xmlElement('relationships', undefined, relationships) : undefined,
+  ]);
+
+  return renderXml(root);
+}
@@ -0,0 +1,1196 @@
+/**
+ * BPMN 2.0 Exporter (Browser-Safe)
+ *
+ * Projects UBML process documents onto BPMN 2.0 XML following the
+ * projection tables in docs/DESIGN-DECISIONS.md (DD-001, DD-003, DD-005).
+ * Constructs without a BPMN equivalent are collected in a loss report
+ * instead of being silently dropped.
+ *
+ * @module ubml/export/bpmn
+ */
+
+import type { Block, Link, LinksDocument, Phase, Process, ProcessDocument, Step } from '../generated/types.js';
+import { VERSION } from '../constants.js';
+import { renderXml, xmlElement, type XmlElement } from '../utils/xml.js';
+import { findProcess, resolvePhaseMembers, selectProcesses } from './common.js';
+
+// =============================================================================
+// Public Types
+// =============================================================================
+
+/**
+ * Options for BPMN export.
+ */
+export interface BpmnExportOptions {
+  /** Export only this process (default: all top-level processes in the document) */
+  processId?: string;
+  /** Links documents from the workspace, checked for cross-process links */
+  linksDocuments?: LinksDocument[];
+  /** Include diagram interchange (shapes and edges) so modelers can render the result (default: true) */
+  includeDiagram?: boolean;
+}
+
+/**
+ * A UBML construct that could not be projected onto BPMN.
+ */
+export interface BpmnLoss {
+  /** Construct identifier (e.g., 'link.probability', 'step.guard') */
+  construct: string;
+  /** Process the construct belongs to */
+  processId: string;
+  /** ID of the element carrying the construct, if any */
+  elementId?: string;
+  /** Human-readable explanation */
+  message: string;
+}
+
+/**
+ * Result of a BPMN export.
+ */
+export interface BpmnExportResult {
+  /** BPMN 2.0 XML document */
+  xml: string;
+  /** Constructs that were not projected */
+  losses: BpmnLoss[];
+}
+
+// =============================================================================
+// Projection Model
+// =============================================================================
+
+type FlowNodeType =
+  | 'startEvent'
+  | 'endEvent'
+  | 'intermediateThrowEvent'
+  | 'intermediateCatchEvent'
+  | 'boundaryEvent'
+  | 'task'
+  | 'callActivity'
+  | 'subProcess'
+  | 'exclusiveGateway'
+  | 'parallelGateway';
+
+interface EventDefinition {
+  type: 'timer' | 'message' | 'signal' | 'error';
+  /** Referenced root element (signal or error) */
+  ref?: string;
+  /** ISO 8601 duration for timers */
+  duration?: string;
+}
+
+interface FlowNode {
+  id: string;
+  type: FlowNodeType;
+  name?: string;
+  documentation?: string;
+  eventDefinition?: EventDefinition;
+  calledElement?: string;
+  attachedTo?: string;
+  loop?: { kind: 'standard' | 'multiInstance'; maximum?: number };
+  defaultFlow?: string;
+  /** Inline nested steps for collapsed sub-processes */
+  children?: FlowNode[];
+  /** Sequence flows between the children */
+  flows?: SequenceFlow[];
+  /** Lane (lifecycle phase) the node belongs to */
+  lane?: string;
+}
+
+interface SequenceFlow {
+  id: string;
+  source: string;
+  target: string;
+  name?: string;
+  condition?: string;
+}
+
+interface ProcessProjection {
+  id: string;
+  name: string;
+  nodes: Map<string, FlowNode>;
+  flows: SequenceFlow[];
+  lanes: { id: string; name: string }[];
+  groups: { id: string; name: string; members: string[] }[];
+}
+
+interface ExportContext {
+  document: ProcessDocument;
+  losses: BpmnLoss[];
+  signals: Map<string, string>;
+  errors: Map<string, string>;
+}
+
+const ACTIVITY_TYPES: FlowNodeType[] = ['task', 'callActivity', 'subProcess'];
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+/**
+ * Convert a UBML duration string (e.g., "2h", "1.5d") to ISO 8601 (e.g., "PT2H", "P1.5D").
+ */
+function toIsoDuration(duration: string): string | undefined {
+  const match = duration.match(/^([0-9]+(?:\.[0-9]+)?)(min|h|d|wk|mo)$/);
+  if (!match) return undefined;
+  const [, amount, unit] = match;
+  switch (unit) {
+    case 'min': return `PT${amount}M`;
+    case 'h': return `PT${amount}H`;
+    case 'd': return `P${amount}D`;
+    case 'wk': return `P${amount}W`;
+    case 'mo': return `P${amount}M`;
+    default: return undefined;
+  }
+}
+
+/**
+ * Get the literal duration string of a Duration value (expressions have none).
+ */
+function literalDuration(duration: Step['duration']): string | undefined {
+  if (typeof duration === 'string') return duration;
+  if (duration && 'fixed' in duration) return duration.fixed;
+  return undefined;
+}
+
+/**
+ * Get a display name for a called process.
+ */
+function processLabel(context: ExportContext, processId: string): string {
+  const process = findProcess(context.document, processId);
+  return process ? process.name : processId;
+}
+
+// =============================================================================
+// Step Projection
+// =============================================================================
+
+/**
+ * Map a step to its BPMN flow node.
+ */
+function projectStep(
+  stepId: string,
+  step: Step,
+  processId: string,
+  context: ExportContext
+): FlowNode {
+  const node: FlowNode = { id: stepId, type: 'task', name: step.name, documentation: step.description };
+  const syncCalls = (step.calls ?? []).filter((call) => !call.on);
+
+  switch (step.kind) {
+    case 'start':
+      node.type = 'startEvent';
+      break;
+    case 'end':
+      node.type = 'endEvent';
+      break;
+    case 'decision':
+      node.type = 'exclusiveGateway';
+      break;
+    case 'milestone':
+      node.type = 'intermediateThrowEvent';
+      break;
+    case 'wait': {
+      node.type = 'intermediateCatchEvent';
+      const literal = literalDuration(step.duration) ?? literalDuration(step.trigger?.delay);
+      const isTimer = literal !== undefined || step.trigger?.type === 'scheduled';
+      node.eventDefinition = isTimer
+        ? { type: 'timer', duration: literal ? toIsoDuration(literal) : undefined }
+        : { type: 'message' };
+      break;
+    }
+    case 'subprocess':
+      node.type = 'subProcess';
+      if (step.steps && syncCalls.length === 0) {
+        node.children = Object.entries(step.steps as Record<string, Step>).map(([childId, child]) =>
+          projectStep(childId, child, processId, context)
+        );
+      }
+      break;
+    default:
+      node.type = 'task';
+  }
+
+  // Synchronous calls → Call Activity (DD-001)
+  if (syncCalls.length > 0) {
+    if (ACTIVITY_TYPES.includes(node.type)) {
+      node.type = 'callActivity';
+      node.calledElement = syncCalls[0].process;
+      node.children = undefined;
+      for (const extra of syncCalls.slice(1)) {
+        context.losses.push({
+          construct: 'step.calls',
+          processId,
+          elementId: stepId,
+          message: `Additional synchronous call to ${extra.process} not projected (a Call Activity calls exactly one process)`,
+        });
+      }
+    } else {
+      for (const call of syncCalls) {
+        context.losses.push({
+          construct: 'step.calls',
+          processId,
+          elementId: stepId,
+          message: `Synchronous call to ${call.process} on a ${step.kind} step not projected (only activities can be Call Activities)`,
+        });
+      }
+    }
+  }
+
+  // Step loops → loop characteristics
+  if (step.loop && step.loop.kind && step.loop.kind !== 'none') {
+    if (ACTIVITY_TYPES.includes(node.type)) {
+      node.loop = step.loop.kind === 'forEach'
+        ? { kind: 'multiInstance' }
+        : { kind: 'standard', maximum: step.loop.max };
+      if (step.loop.probability !== undefined) {
+        context.losses.push({
+          construct: 'step.loop.probability',
+          processId,
+          elementId: stepId,
+          message: `Rework probability ${step.loop.probability} not projected`,
+        });
+      }
+    } else {
+      context.losses.push({
+        construct: 'step.loop',
+        processId,
+        elementId: stepId,
+        message: `Loop on a ${step.kind} step not projected (only activities carry loop markers)`,
+      });
+    }
+  }
+
+  if (step.messages && step.messages.length > 0) {
+    context.losses.push({
+      construct: 'step.messages',
+      processId,
+      elementId: stepId,
+      message: `${step.messages.length} message(s) not projected (use the sequence diagram export)`,
+    });
+  }
+
+  return node;
+}
+
+/**
+ * Add throw events for asynchronous calls of a step.
+ * Returns the ID of the node that now ends the step's chain.
+ */
+function projectAsyncCalls(
+  stepId: string,
+  step: Step,
+  projection: ProcessProjection,
+  context: ExportContext
+): string {
+  let exit = stepId;
+  const host = projection.nodes.get(stepId)!;
+  const asyncCalls = (step.calls ?? []).filter((call) => call.on);
+
+  asyncCalls.forEach((call, index) => {
+    const throwId = `${stepId}_call${index + 1}`;
+    const label = processLabel(context, call.process);
+
+    if (call.on === 'complete') {
+      // Async on completion → Intermediate Signal Throw Event, in-line after the step
+      const signalId = `Signal_${call.process}`;
+      context.signals.set(signalId, `Trigger ${label}`);
+      projection.nodes.set(throwId, {
+        id: throwId,
+        type: 'intermediateThrowEvent',
+        name: `Trigger ${label}`,
+        documentation: call.condition ? `Condition: ${call.condition}` : undefined,
+        eventDefinition: { type: 'signal', ref: signalId },
+      });
+      addFlow(projection, exit, throwId);
+      exit = throwId;
+      return;
+    }
+
+    // Async on error/timeout → boundary event on the step, then throw event
+    if (!ACTIVITY_TYPES.includes(host.type)) {
+      context.losses.push({
+        construct: 'step.calls',
+        processId: projection.id,
+        elementId: stepId,
+        message: `Asynchronous call to ${call.process} on ${call.on} not projected (boundary events need an activity)`,
+      });
+      return;
+    }
+
+    const boundaryId = `${stepId}_${call.on}${index + 1}`;
+    projection.nodes.set(boundaryId, {
+      id: boundaryId,
+      type: 'boundaryEvent',
+      attachedTo: stepId,
+      eventDefinition: call.on === 'error' ? { type: 'error' } : { type: 'timer' },
+    });
+
+    let definition: EventDefinition;
+    if (call.on === 'error') {
+      const errorId = `Error_${call.process}`;
+      context.errors.set(errorId, label);
+      definition = { type: 'error', ref: errorId };
+    } else {
+      const signalId = `Signal_${call.process}`;
+      context.signals.set(signalId, `Trigger ${label}`);
+      definition = { type: 'signal', ref: signalId };
+    }
+
+    projection.nodes.set(throwId, {
+      id: throwId,
+      type: 'intermediateThrowEvent',
+      name: `Trigger ${label}`,
+      documentation: call.condition ? `Condition: ${call.condition}` : undefined,
+      eventDefinition: definition,
+    });
+    addFlow(projection, boundaryId, throwId);
+  });
+
+  return exit;
+}
+
+// =============================================================================
+// Flow and Block Projection
+// =============================================================================
+
+/**
+ * Add a sequence flow with a deterministic ID.
+ */
+function addFlow(
+  container: { flows?: SequenceFlow[] },
+  source: string,
+  target: string,
+  extra: Pick<SequenceFlow, 'name' | 'condition'> = {}
+): SequenceFlow {
+  const flows = (container.flows ??= []);
+  const base = `Flow_${source}_${target}`;
+  let id = base;
+  let suffix = 2;
+  while (flows.some((flow) => flow.id === id)) {
+    id = `${base}_${suffix++}`;
+  }
+  const flow: SequenceFlow = { id, source, target, ...extra };
+  flows.push(flow);
+  return flow;
+}
+
+/**
+ * Project a block onto gateways and flows (DD-003).
+ * Returns the entry and exit nodes of the block.
+ */
+function projectBlock(
+  blockId: string,
+  block: Block,
+  process: Process,
+  projection: ProcessProjection,
+  endpoints: Map<string, { entry: string; exit: string }>,
+  context: ExportContext
+): { entry: string; exit: string } {
+  const existing = endpoints.get(blockId);
+  if (existing) return existing;
+
+  const blocks = (process.blocks ?? {}) as Record<string, Block>;
+  const operands = (block.operands ?? {}) as Record<string, Block>;
+  const members: string[] = [...(block.steps ?? []), ...Object.keys(operands)];
+  const operator = block.operator ?? 'seq';
+
+  // Resolve member endpoints (nested blocks first)
+  const memberEndpoint = (memberId: string): { entry: string; exit: string } | undefined => {
+    if (operands[memberId]) {
+      return projectBlock(memberId, operands[memberId], process, projection, endpoints, context);
+    }
+    if (blocks[memberId]) {
+      return projectBlock(memberId, blocks[memberId], process, projection, endpoints, context);
+    }
+    return endpoints.get(memberId);
+  };
+
+  const resolved = members
+    .map((id) => ({ id, endpoint: memberEndpoint(id) }))
+    .filter((m): m is { id: string; endpoint: { entry: string; exit: string } } => m.endpoint !== undefined);
+
+  if (resolved.length === 0) {
+    context.losses.push({
+      construct: 'block',
+      processId: projection.id,
+      elementId: blockId,
+      message: `Block "${block.name}" has no resolvable steps and was not projected`,
+    });
+    return { entry: blockId, exit: blockId };
+  }
+
+  // Internal links decide branch heads and tails
+  const memberIds = new Set(resolved.map((m) => m.id));
+  const internal = (process.links ?? []).filter((link) => memberIds.has(link.from) && memberIds.has(link.to));
+  const heads = resolved.filter((m) => !internal.some((link) => link.to === m.id));
+  const tails = resolved.filter((m) => !internal.some((link) => link.from === m.id));
+
+  // Sequential content: chain members in listed order unless linked explicitly
+  const chain = (): { entry: string; exit: string } => {
+    if (internal.length === 0) {
+      for (let i = 1; i < resolved.length; i++) {
+        addFlow(projection, resolved[i - 1].endpoint.exit, resolved[i].endpoint.entry);
+      }
+      return { entry: resolved[0].endpoint.entry, exit: resolved[resolved.length - 1].endpoint.exit };
+    }
+    return { entry: heads[0]?.endpoint.entry ?? resolved[0].endpoint.entry, exit: tails[tails.length - 1]?.endpoint.exit ?? resolved[resolved.length - 1].endpoint.exit };
+  };
+
+  const guardOf = (memberId: string): string | undefined => {
+    if (operands[memberId]) return operands[memberId].guard;
+    if (blocks[memberId]) return blocks[memberId].guard;
+    return (process.steps[memberId] as Step | undefined)?.guard;
+  };
+
+  let result: { entry: string; exit: string };
+
+  switch (operator) {
+    case 'par':
+    case 'alt': {
+      const gatewayType: FlowNodeType = operator === 'par' ? 'parallelGateway' : 'exclusiveGateway';
+      const split = `${blockId}_split`;
+      const join = `${blockId}_join`;
+      projection.nodes.set(split, { id: split, type: gatewayType, name: block.name });
+      projection.nodes.set(join, { id: join, type: gatewayType });
+      for (const head of heads) {
+        const condition = operator === 'alt' ? guardOf(head.id) : undefined;
+        addFlow(projection, split, head.endpoint.entry, { condition });
+      }
+      for (const tail of tails) {
+        addFlow(projection, tail.endpoint.exit, join);
+      }
+      result = { entry: split, exit: join };
+      break;
+    }
+    case 'opt': {
+      const split = `${blockId}_split`;
+      const join = `${blockId}_join`;
+      projection.nodes.set(split, { id: split, type: 'exclusiveGateway', name: block.name });
+      projection.nodes.set(join, { id: join, type: 'exclusiveGateway' });
+      const content = chain();
+      addFlow(projection, split, content.entry, { condition: block.guard });
+      const skip = addFlow(projection, split, join, { name: 'skip' });
+      projection.nodes.get(split)!.defaultFlow = skip.id;
+      addFlow(projection, content.exit, join);
+      result = { entry: split, exit: join };
+      break;
+    }
+    case 'loop': {
+      const merge = `${blockId}_merge`;
+      const check = `${blockId}_check`;
+      projection.nodes.set(merge, { id: merge, type: 'exclusiveGateway', name: block.name });
+      projection.nodes.set(check, {
+        id: check,
+        type: 'exclusiveGateway',
+        documentation: block.maxIterations ? `At most ${block.maxIterations} iterations` : undefined,
+      });
+      const content = chain();
+      addFlow(projection, merge, content.entry);
+      addFlow(projection, content.exit, check);
+      addFlow(projection, check, merge, { name: 'repeat', condition: block.guard });
+      result = { entry: merge, exit: check };
+      break;
+    }
+    default: {
+      if (operator === 'break') {
+        context.losses.push({
+          construct: 'block.break',
+          processId: projection.id,
+          elementId: blockId,
+          message: `Break block "${block.name}" projected as a plain sequence`,
+        });
+      }
+      if (block.guard) {
+        context.losses.push({
+          construct: 'block.guard',
+          processId: projection.id,
+          elementId: blockId,
+          message: `Guard "${block.guard}" on ${operator} block not projected`,
+        });
+      }
+      result = chain();
+    }
+  }
+
+  endpoints.set(blockId, result);
+  return result;
+}
+
+/**
+ * Project a single UBML process.
+ */
+function projectProcess(processId: string, process: Process, context: ExportContext): ProcessProjection {
+  const projection: ProcessProjection = {
+    id: processId,
+    name: process.name,
+    nodes: new Map(),
+    flows: [],
+    lanes: [],
+    groups: [],
+  };
+  const endpoints = new Map<string, { entry: string; exit: string }>();
+  const steps = process.steps as Record<string, Step>;
+  const blocks = (process.blocks ?? {}) as Record<string, Block>;
+
+  // Steps
+  for (const [stepId, step] of Object.entries(steps)) {
+    projection.nodes.set(stepId, projectStep(stepId, step, processId, context));
+  }
+  for (const [stepId, step] of Object.entries(steps)) {
+    const exit = projectAsyncCalls(stepId, step, projection, context);
+    endpoints.set(stepId, { entry: stepId, exit });
+  }
+
+  // Blocks
+  for (const [blockId, block] of Object.entries(blocks)) {
+    projectBlock(blockId, block, process, projection, endpoints, context);
+  }
+
+  // Guards are projected as branch conditions of alt blocks only
+  const altMembers = new Set<string>();
+  for (const block of Object.values(blocks)) {
+    if (block.operator === 'alt') {
+      for (const member of block.steps ?? []) altMembers.add(member);
+    }
+  }
+  for (const [stepId, step] of Object.entries(steps)) {
+    if (step.guard && !altMembers.has(stepId)) {
+      context.losses.push({
+        construct: 'step.guard',
+        processId,
+        elementId: stepId,
+        message: `Guard "${step.guard}" not projected (only branch conditions of alt blocks map to BPMN)`,
+      });
+    }
+  }
+
+  // Inline steps of subprocesses, by the subprocess that contains them
+  const parentOf = new Map<string, FlowNode>();
+  const collectChildren = (node: FlowNode) => {
+    for (const child of node.children ?? []) {
+      parentOf.set(child.id, node);
+      collectChildren(child);
+    }
+  };
+  for (const node of projection.nodes.values()) {
+    collectChildren(node);
+  }
+
+  // Links → sequence flows. A link entering or leaving a block is attached
+  // to the outermost block it crosses, so gateways are not bypassed. Links
+  // between inline steps become flows inside their subprocess.
+  const container = new Map<string, string>();
+  const collectContainers = (blockId: string, block: Block) => {
+    for (const member of block.steps ?? []) container.set(member, blockId);
+    for (const [operandId, operand] of Object.entries((block.operands ?? {}) as Record<string, Block>)) {
+      container.set(operandId, blockId);
+      collectContainers(operandId, operand);
+    }
+  };
+  for (const [blockId, block] of Object.entries(blocks)) {
+    collectContainers(blockId, block);
+  }
+  const ancestors = (id: string): string[] => {
+    const chain: string[] = [];
+    for (let current = container.get(id); current && !chain.includes(current); current = container.get(current)) {
+      chain.push(current);
+    }
+    return chain;
+  };
+  const crossing = (id: string, other: string): string => {
+    const shared = new Set(ancestors(other));
+    return [id, ...ancestors(id)].filter((candidate) => !shared.has(candidate)).pop() ?? id;
+  };
+
+  for (const link of (process.links ?? []) as Link[]) {
+    const parent = parentOf.get(link.from) ?? parentOf.get(link.to);
+    if (parent && parentOf.get(link.from) !== parentOf.get(link.to)) {
+      context.losses.push({
+        construct: 'link.subprocessBoundary',
+        processId,
+        elementId: parent.id,
+        message: `Link ${link.from} → ${link.to} crosses the boundary of subprocess ${parent.id} not projected`,
+      });
+      continue;
+    }
+
+    let flow: SequenceFlow;
+    let sourceNode: FlowNode | undefined;
+    if (parent) {
+      flow = addFlow(parent, link.from, link.to, { name: link.label, condition: link.condition });
+      sourceNode = parent.children!.find((child) => child.id === link.from);
+    } else {
+      const from = endpoints.get(link.from);
+      const to = endpoints.get(link.to);
+      if (!from || !to) {
+        const missing = !from ? link.from : link.to;
+        const elsewhere = findProcess(context.document, missing) !== undefined || isStepElsewhere(context.document, missing, processId);
+        context.losses.push({
+          construct: elsewhere ? 'link.crossProcess' : 'link.unresolved',
+          processId,
+          elementId: missing,
+          message: elsewhere
+            ? `Link ${link.from} → ${link.to} crosses process boundaries (use calls instead)`
+            : `Link ${link.from} → ${link.to} references unknown element ${missing}`,
+        });
+        continue;
+      }
+
+      const source = endpoints.get(crossing(link.from, link.to))?.exit ?? from.exit;
+      const target = endpoints.get(crossing(link.to, link.from))?.entry ?? to.entry;
+      const existing = projection.flows.find((flow) => flow.source === source && flow.target === target);
+      flow = existing && !link.condition && !link.label
+        ? existing
+        : addFlow(projection, source, target, { name: link.label, condition: link.condition });
+      sourceNode = projection.nodes.get(source);
+    }
+
+    if (link.isDefault && sourceNode) {
+      sourceNode.defaultFlow = flow.id;
+    }
+    if (link.probability !== undefined) {
+      context.losses.push({
+        construct: 'link.probability',
+        processId,
+        elementId: link.from,
+        message: `Probability ${link.probability} on link ${link.from} → ${link.to} not projected`,
+      });
+    }
+    if (link.schedule) {
+      context.losses.push({
+        construct: 'link.schedule',
+        processId,
+        elementId: link.from,
+        message: `Scheduling properties on link ${link.from} → ${link.to} not projected`,
+      });
+    }
+  }
+
+  // Phases → lanes (lifecycle) and groups (delivery)
+  for (const [phaseId, phase] of Object.entries((process.phases ?? {}) as Record<string, Phase>)) {
+    const members = resolvePhaseMembers(phase, process);
+    if (phase.kind === 'delivery') {
+      projection.groups.push({ id: phaseId, name: phase.name, members });
+      continue;
+    }
+    projection.lanes.push({ id: phaseId, name: phase.name });
+    for (const member of members) {
+      const node = projection.nodes.get(member);
+      if (!node) continue;
+      if (node.lane) {
+        context.losses.push({
+          construct: 'phase.overlap',
+          processId,
+          elementId: member,
+          message: `Step ${member} is in lifecycle phases ${node.lane} and ${phaseId}; kept in ${node.lane}`,
+        });
+        continue;
+      }
+      node.lane = phaseId;
+    }
+  }
+  if (projection.lanes.length > 0) {
+    assignGeneratedLanes(projection);
+  }
+
+  return projection;
+}
+
+/**
+ * Check whether a step ID is defined in another process of the document.
+ */
+function isStepElsewhere(document: ProcessDocument, stepId: string, processId: string): boolean {
+  let found = false;
+  const visit = (processes: Record<string, Process> | undefined) => {
+    for (const [id, process] of Object.entries(processes ?? {})) {
+      if (id !== processId && process.steps[stepId]) found = true;
+      visit(process.subprocesses as Record<string, Process> | undefined);
+    }
+  };
+  visit(document.processes as Record<string, Process>);
+  return found;
+}
+
+/**
+ * Put generated nodes (gateways, throw events) into the lane of a neighbour.
+ */
+function assignGeneratedLanes(projection: ProcessProjection): void {
+  let changed = true;
+  while (changed) {
+    changed = false;
+    for (const node of projection.nodes.values()) {
+      if (node.lane) continue;
+      if (node.attachedTo) {
+        node.lane = projection.nodes.get(node.attachedTo)?.lane;
+      }
+      if (!node.lane) {
+        const neighbour = projection.flows
+          .filter((flow) => flow.source === node.id || flow.target === node.id)
+          .map((flow) => projection.nodes.get(flow.source === node.id ? flow.target : flow.source))
+          .find((other) => other?.lane);
+        node.lane = neighbour?.lane;
+      }
+      if (node.lane) changed = true;
+    }
+  }
+}
+
+// =============================================================================
+// Layout (Diagram Interchange)
+// =============================================================================
+
+interface Bounds {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+interface ProcessLayout {
+  pool: Bounds;
+  lanes: Map<string, Bounds>;
+  shapes: Map<string, Bounds>;
+  edges: Map<string, { x: number; y: number }[]>;
+  groups: Map<string, Bounds>;
+}
+
+const COLUMN_WIDTH = 160;
+const ROW_HEIGHT = 120;
+const HEADER_WIDTH = 30;
+const MARGIN = 20;
+const UNASSIGNED_LANE = '';
+
+/**
+ * Get the shape size of a flow node.
+ */
+function shapeSize(type: FlowNodeType): { width: number; height: number } {
+  if (ACTIVITY_TYPES.includes(type)) return { width: 100, height: 80 };
+  if (type === 'exclusiveGateway' || type === 'parallelGateway') return { width: 50, height: 50 };
+  return { width: 36, height: 36 };
+}
+
+/**
+ * Lay out a process as columns by longest path and rows per lane.
+ */
+function layoutProcess(projection: ProcessProjection, top: number): ProcessLayout {
+  const nodes = [...projection.nodes.values()].filter((node) => node.type !== 'boundaryEvent');
+  const hostOf = (id: string) => projection.nodes.get(id)?.attachedTo ?? id;
+
+  const successors = new Map<string, string[]>(nodes.map((node) => [node.id, []]));
+  for (const flow of projection.flows) {
+    successors.get(hostOf(flow.source))?.push(flow.target);
+  }
+
+  // Depth-first search marks back edges so cycles don't break layering
+  const state = new Map<string, 'active' | 'done'>();
+  const backEdges = new Set<string>();
+  const hasIncoming = new Set(projection.flows.map((flow) => flow.target));
+  const roots = [...nodes.filter((node) => !hasIncoming.has(node.id)), ...nodes];
+  for (const root of roots) {
+    if (state.has(root.id)) continue;
+    const stack: { id: string; index: number }[] = [{ id: root.id, index: 0 }];
+    state.set(root.id, 'active');
+    while (stack.length > 0) {
+      const frame = stack[stack.length - 1];
+      const next = successors.get(frame.id)?.[frame.index++];
+      if (next === undefined) {
+        state.set(frame.id, 'done');
+        stack.pop();
+        continue;
+      }
+      if (state.get(next) === 'active') {
+        backEdges.add(`${frame.id}->${next}`);
+      } else if (!state.has(next)) {
+        state.set(next, 'active');
+        stack.push({ id: next, index: 0 });
+      }
+    }
+  }
+
+  // Longest-path ranking over forward edges (Kahn's algorithm)
+  const rank = new Map<string, number>(nodes.map((node) => [node.id, 0]));
+  const indegree = new Map<string, number>(nodes.map((node) => [node.id, 0]));
+  for (const [source, targets] of successors) {
+    for (const target of targets) {
+      if (!backEdges.has(`${source}->${target}`)) {
+        indegree.set(target, (indegree.get(target) ?? 0) + 1);
+      }
+    }
+  }
+  const order: string[] = [];
+  const queue = nodes.filter((node) => indegree.get(node.id) === 0).map((node) => node.id);
+  while (queue.length > 0) {
+    const current = queue.shift()!;
+    order.push(current);
+    for (const target of successors.get(current) ?? []) {
+      if (backEdges.has(`${current}->${target}`)) continue;
+      rank.set(target, Math.max(rank.get(target) ?? 0, (rank.get(current) ?? 0) + 1));
+      indegree.set(target, (indegree.get(target) ?? 0) - 1);
+      if (indegree.get(target) === 0) queue.push(target);
+    }
+  }
+
+  // Rows within each lane
+  const hasLanes = projection.lanes.length > 0;
+  const laneIds = hasLanes ? projection.lanes.map((lane) => lane.id) : [UNASSIGNED_LANE];
+  if (hasLanes && nodes.some((node) => !node.lane)) {
+    laneIds.push(UNASSIGNED_LANE);
+  }
+  const rows = new Map<string, number>();
+  const laneRowCount = new Map<string, number>(laneIds.map((id) => [id, 1]));
+  const used = new Map<string, number>();
+  for (const id of order) {
+    const lane = hasLanes ? projection.nodes.get(id)?.lane ?? UNASSIGNED_LANE : UNASSIGNED_LANE;
+    const key = `${lane}|${rank.get(id)}`;
+    const row = used.get(key) ?? 0;
+    used.set(key, row + 1);
+    rows.set(id, row);
+    laneRowCount.set(lane, Math.max(laneRowCount.get(lane) ?? 1, row + 1));
+  }
+
+  const maxRank = Math.max(0, ...rank.values());
+  const contentX = HEADER_WIDTH + (hasLanes ? HEADER_WIDTH : 0) + MARGIN;
+  const poolWidth = contentX + (maxRank + 1) * COLUMN_WIDTH + MARGIN;
+  const laneTops = new Map<string, number>();
+  const lanes = new Map<string, Bounds>();
+  let y = top;
+  for (const laneId of laneIds) {
+    const height = (laneRowCount.get(laneId) ?? 1) * ROW_HEIGHT;
+    laneTops.set(laneId, y);
+    if (hasLanes) {
+      lanes.set(laneId, { x: HEADER_WIDTH, y, width: poolWidth - HEADER_WIDTH, height });
+    }
+    y += height;
+  }
+  const pool: Bounds = { x: 0, y: top, width: poolWidth, height: y - top };
+
+  const shapes = new Map<string, Bounds>();
+  for (const id of order) {
+    const node = projection.nodes.get(id)!;
+    const lane = hasLanes ? node.lane ?? UNASSIGNED_LANE : UNASSIGNED_LANE;
+    const size = shapeSize(node.type);
+    const centerX = contentX + (rank.get(id) ?? 0) * COLUMN_WIDTH + 50;
+    const centerY = (laneTops.get(lane) ?? top) + (rows.get(id) ?? 0) * ROW_HEIGHT + ROW_HEIGHT / 2;
+    shapes.set(id, { x: centerX - size.width / 2, y: centerY - size.height / 2, ...size });
+  }
+
+  // Boundary events sit on the bottom edge of their host
+  const boundaryCount = new Map<string, number>();
+  for (const node of projection.nodes.values()) {
+    if (node.type !== 'boundaryEvent' || !node.attachedTo) continue;
+    const host = shapes.get(node.attachedTo);
+    if (!host) continue;
+    const index = boundaryCount.get(node.attachedTo) ?? 0;
+    boundaryCount.set(node.attachedTo, index + 1);
+    shapes.set(node.id, { x: host.x + host.width - 28 - index * 40, y: host.y + host.height - 18, width: 36, height: 36 });
+  }
+
+  // Orthogonal edge routing
+  const edges = new Map<string, { x: number; y: number }[]>();
+  const bottom = pool.y + pool.height - 8;
+  for (const flow of projection.flows) {
+    const s = shapes.get(flow.source);
+    const t = shapes.get(flow.target);
+    if (!s || !t) continue;
+    const sc = { x: s.x + s.width / 2, y: s.y + s.height / 2 };
+    const tc = { x: t.x + t.width / 2, y: t.y + t.height / 2 };
+
+    if (projection.nodes.get(flow.source)?.type === 'boundaryEvent') {
+      edges.set(flow.id, [
+        { x: sc.x, y: s.y + s.height },
+        { x: sc.x, y: s.y + s.height + 14 },
+        { x: tc.x, y: s.y + s.height + 14 },
+        { x: tc.x, y: t.y + t.height },
+      ]);
+    } else if (t.x >= s.x + s.width) {
+      const start = { x: s.x + s.width, y: sc.y };
+      const end = { x: t.x, y: tc.y };
+      if (start.y === end.y) {
+        edges.set(flow.id, [start, end]);
+      } else {
+        const midX = (start.x + end.x) / 2;
+        edges.set(flow.id, [start, { x: midX, y: start.y }, { x: midX, y: end.y }, end]);
+      }
+    } else {
+      edges.set(flow.id, [
+        { x: sc.x, y: s.y + s.height },
+        { x: sc.x, y: bottom },
+        { x: tc.x, y: bottom },
+        { x: tc.x, y: t.y + t.height },
+      ]);
+    }
+  }
+
+  const groups = new Map<string, Bounds>();
+  for (const group of projection.groups) {
+    const memberShapes = group.members.map((id) => shapes.get(id)).filter((b): b is Bounds => b !== undefined);
+    if (memberShapes.length === 0) continue;
+    const minX = Math.min(...memberShapes.map((b) => b.x)) - 15;
+    const minY = Math.min(...memberShapes.map((b) => b.y)) - 15;
+    const maxX = Math.max(...memberShapes.map((b) => b.x + b.width)) + 15;
+    const maxY = Math.max(...memberShapes.map((b) => b.y + b.height)) + 15;
+    groups.set(group.id, { x: minX, y: minY, width: maxX - minX, height: maxY - minY });
+  }
+
+  return { pool, lanes, shapes, edges, groups };
+}
+
+// =============================================================================
+// XML Rendering
+// =============================================================================
+
+/**
+ * Render an event definition element.
+ */
+function renderEventDefinition(nodeId: string, definition: EventDefinition): XmlElement {
+  const id = `${nodeId}_definition`;
+  switch (definition.type) {
+    case 'timer':
+      return xmlElement('bpmn:timerEventDefinition', { id }, [
+        definition.duration
+          ? xmlElement('bpmn:timeDuration', { 'xsi:type': 'bpmn:tFormalExpression' }, [definition.duration])
+          : undefined,
+      ]);
+    case 'message':
+      return xmlElement('bpmn:messageEventDefinition', { id });
+    case 'signal':
+      return xmlElement('bpmn:signalEventDefinition', { id, signalRef: definition.ref });
+    case 'error':
+      return xmlElement('bpmn:errorEventDefinition', { id, errorRef: definition.ref });
+  }
+}
+
+/**
+ * Render a flow node with its incoming/outgoing references.
+ */
+function renderFlowNode(node: FlowNode, flows: SequenceFlow[]): XmlElement {
+  const attributes: Record<string, string | boolean | undefined> = { id: node.id, name: node.name };
+  if (node.calledElement) attributes.calledElement = node.calledElement;
+  if (node.attachedTo) attributes.attachedToRef = node.attachedTo;
+  if (node.defaultFlow) attributes.default = node.defaultFlow;
+  if (node.type === 'boundaryEvent' && node.eventDefinition?.type === 'timer') attributes.cancelActivity = false;
+
+  const children: Array<XmlElement | undefined> = [
+    node.documentation ? xmlElement('bpmn:documentation', {}, [node.documentation]) : undefined,
+    ...flows.filter((flow) => flow.target === node.id).map((flow) => xmlElement('bpmn:incoming', {}, [flow.id])),
+    ...flows.filter((flow) => flow.source === node.id).map((flow) => xmlElement('bpmn:outgoing', {}, [flow.id])),
+  ];
+
+  if (node.loop?.kind === 'standard') {
+    children.push(xmlElement('bpmn:standardLoopCharacteristics', { loopMaximum: node.loop.maximum }));
+  } else if (node.loop?.kind === 'multiInstance') {
+    children.push(xmlElement('bpmn:multiInstanceLoopCharacteristics', { isSequential: true }));
+  }
+  for (const child of node.children ?? []) {
+    children.push(renderFlowNode(child, node.flows ?? []));
+  }
+  for (const flow of node.flows ?? []) {
+    children.push(renderSequenceFlow(flow));
+  }
+  if (node.eventDefinition) {
+    children.push(renderEventDefinition(node.id, node.eventDefinition));
+  }
+
+  return xmlElement(`bpmn:${node.type}`, attributes, children);
+}
+
+/**
+ * Render a sequence flow element.
+ */
+function renderSequenceFlow(flow: SequenceFlow): XmlElement {
+  return xmlElement('bpmn:sequenceFlow', {
+    id: flow.id,
+    name: flow.name,
+    sourceRef: flow.source,
+    targetRef: flow.target,
+  }, [
+    flow.condition
+      ? xmlElement('bpmn:conditionExpression', { 'xsi:type': 'bpmn:tFormalExpression' }, [flow.condition])
+      : undefined,
+  ]);
+}
+
+/**
+ * Render a process projection as a bpmn:process element.
+ */
+function renderProcess(projection: ProcessProjection): XmlElement {
+  const children: Array<XmlElement | undefined> = [];
+
+  if (projection.lanes.length > 0) {
+    const laneElements = projection.lanes.map((lane) => xmlElement('bpmn:lane', { id: lane.id, name: lane.name },
+      [...projection.nodes.values()].filter((node) => node.lane === lane.id).map((node) =>
+        xmlElement('bpmn:flowNodeRef', {}, [node.id])
+      )
+    ));
+    const unassigned = [...projection.nodes.values()].filter((node) => !node.lane);
+    if (unassigned.length > 0) {
+      laneElements.push(xmlElement('bpmn:lane', { id: `${projection.id}_unassigned` },
+        unassigned.map((node) => xmlElement('bpmn:flowNodeRef', {}, [node.id]))
+      ));
+    }
+    children.push(xmlElement('bpmn:laneSet', { id: `${projection.id}_lanes` }, laneElements));
+  }
+
+  for (const node of projection.nodes.values()) {
+    children.push(renderFlowNode(node, projection.flows));
+  }
+
+  for (const flow of projection.flows) {
+    children.push(renderSequenceFlow(flow));
+  }
+
+  for (const group of projection.groups) {
+    children.push(xmlElement('bpmn:group', { id: group.id, categoryValueRef: `${group.id}_category_value` }));
+  }
+
+  return xmlElement('bpmn:process', { id: projection.id, name: projection.name, isExecutable: false }, children);
+}
+
+/**
+ * Render diagram interchange for all projections.
+ */
+function renderDiagram(projections: ProcessProjection[]): XmlElement {
+  const elements: XmlElement[] = [];
+  const bounds = (b: Bounds) => xmlElement('dc:Bounds', {
+    x: Math.round(b.x), y: Math.round(b.y), width: Math.round(b.width), height: Math.round(b.height),
+  });
+  const offsetX = 160;
+  const shift = (b: Bounds): Bounds => ({ ...b, x: b.x + offsetX });
+
+  let top = 80;
+  for (const projection of projections) {
+    const layout = layoutProcess(projection, top);
+    top += layout.pool.height + 40;
+
+    elements.push(xmlElement('bpmndi:BPMNShape', {
+      id: `Participant_${projection.id}_di`,
+      bpmnElement: `Participant_${projection.id}`,
+      isHorizontal: true,
+    }, [bounds(shift(layout.pool))]));
+
+    for (const [laneId, laneBounds] of layout.lanes) {
+      const id = laneId === UNASSIGNED_LANE ? `${projection.id}_unassigned` : laneId;
+      elements.push(xmlElement('bpmndi:BPMNShape', { id: `${id}_di`, bpmnElement: id, isHorizontal: true }, [
+        bounds(shift(laneBounds)),
+      ]));
+    }
+
+    for (const node of projection.nodes.values()) {
+      const shape = layout.shapes.get(node.id);
+      if (!shape) continue;
+      elements.push(xmlElement('bpmndi:BPMNShape', {
+        id: `${node.id}_di`,
+        bpmnElement: node.id,
+        isMarkerVisible: node.type === 'exclusiveGateway' ? true : undefined,
+        isExpanded: node.type === 'subProcess' ? false : undefined,
+      }, [bounds(shift(shape))]));
+    }
+
+    for (const flow of projection.flows) {
+      const points = layout.edges.get(flow.id);
+      if (!points) continue;
+      elements.push(xmlElement('bpmndi:BPMNEdge', { id: `${flow.id}_di`, bpmnElement: flow.id },
+        points.map((point) => xmlElement('di:waypoint', { x: Math.round(point.x + offsetX), y: Math.round(point.y) }))
+      ));
+    }
+
+    for (const [groupId, groupBounds] of layout.groups) {
+      elements.push(xmlElement('bpmndi:BPMNShape', { id: `${groupId}_di`, bpmnElement: groupId }, [
+        bounds(shift(groupBounds)),
+      ]));
+    }
+  }
+
+  return xmlElement('bpmndi:BPMNDiagram', { id: 'BPMNDiagram_1' }, [
+    xmlElement('bpmndi:BPMNPlane', { id: 'BPMNPlane_1', bpmnElement: 'Collaboration_1' }, elements),
+  ]);
+}
+
+// =============================================================================
+// Public API
+// =============================================================================
+
+/**
+ * Export a UBML process document as BPMN 2.0 XML.
+ *
+ * Each process becomes a pool in a single collaboration. Projection follows
+ * the design decision tables: decisions → exclusive gateways, synchronous
+ * `calls` → Call Activities, async `on: complete` → signal throw events,
+ * async `on: error` → error throw events, blocks → gateway pairs,
+ * lifecycle phases → lanes and delivery phases → groups.
+ *
+ * @param document - Parsed process document content
+ * @param options - Export options
+ *
+ * @example
+ * ```typescript
+ * import { parse, toBpmn, type ProcessDocument } from 'ubml';
+ *
+ * const result = parse<ProcessDocument>(yaml, 'onboarding.process.ubml.yaml');
+ * const { xml, losses } = toBpmn(result.document!.content);
+ * ```
+ */
+export function toBpmn(document: ProcessDocument, options: BpmnExportOptions = {}): BpmnExportResult {
+  const { includeDiagram = true } = options;
+  const context: ExportContext = { document, losses: [], signals: new Map(), errors: new Map() };
+
+  const entries = selectProcesses(document, options.processId);
+
+  const projections = entries.map(([id, process]) => projectProcess(id, process, context));
+
+  // Cross-process links from links documents have no BPMN equivalent (DD-005)
+  for (const linksDocument of options.linksDocuments ?? []) {
+    for (const link of linksDocument.links ?? []) {
+      for (const [id, process] of entries) {
+        const touchesFrom = link.from in process.steps;
+        const touchesTo = link.to in process.steps;
+        if (touchesFrom !== touchesTo) {
+          context.losses.push({
+            construct: 'link.crossProcess',
+            processId: id,
+            elementId: touchesFrom ? link.from : link.to,
+            message: `Cross-process link ${link.from} → ${link.to} from a links document not projected`,
+          });
+        }
+      }
+    }
+  }
+
+  const rootElements: XmlElement[] = [];
+  for (const [id, name] of context.signals) {
+    rootElements.push(xmlElement('bpmn:signal', { id, name }));
+  }
+  for (const [id, name] of context.errors) {
+    rootElements.push(xmlElement('bpmn:error', { id, name, errorCode: id.replace(/^Error_/, '') }));
+  }
+  for (const projection of projections) {
+    for (const group of projection.groups) {
+      rootElements.push(xmlElement('bpmn:category', { id: `${group.id}_category` }, [
+        xmlElement('bpmn:categoryValue', { id: `${group.id}_category_value`, value: group.name }),
+      ]));
+    }
+  }
+
+  rootElements.push(xmlElement('bpmn:collaboration', { id: 'Collaboration_1' },
+    projections.map((projection) => xmlElement('bpmn:participant', {
+      id: `Participant_${projection.id}`,
+      name: projection.name,
+      processRef: projection.id,
+    }))
+  ));
+  rootElements.push(...projections.map(renderProcess));
+
+  const definitions = xmlElement('bpmn:definitions', {
+    'xmlns:bpmn': 'http://www.omg.org/spec/BPMN/20100524/MODEL',
+    'xmlns:bpmndi': 'http://www.omg.org/spec/BPMN/20100524/DI',
+    'xmlns:dc': 'http://www.omg.org/spec/DD/20100524/DC',
+    'xmlns:di': 'http://www.omg.org/spec/DD/20100524/DI',
+    'xmlns:xsi': 'http://www.w3.org/2001/XMLSchema-instance',
+    id: 'Definitions_1',
+    targetNamespace: 'https://ubml.talxis.com/bpmn',
+    exporter: 'ubml',
+    exporterVersion: VERSION,
+  }, [...rootElements, includeDiagram ? renderDiagram(projections) : undefined]);
+
+  return { xml: renderXml(definitions), losses: context.losses };
+}
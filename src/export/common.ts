@@ -0,0 +1,90 @@
+/**
+ * Shared helpers for exporters (Browser-Safe)
+ *
+ * @module ubml/export/common
+ */
+
+import type { Block, Phase, Process, ProcessDocument } from '../generated/types.js';
+
+/**
+ * Find a process by ID anywhere in the document (including subprocesses).
+ */
+export function findProcess(document: ProcessDocument, id: string): Process | undefined {
+  function search(processes: Record<string, Process> | undefined): Process | undefined {
+    if (!processes) return undefined;
+    if (processes[id]) return processes[id];
+    for (const process of Object.values(processes)) {
+      const found = search(process.subprocesses as Record<string, Process> | undefined);
+      if (found) return found;
+    }
+    return undefined;
+  }
+  return search(document.processes as Record<string, Process>);
+}
+
+/**
+ * Select the processes to export: one by ID, or all top-level processes.
+ *
+ * @throws Error if the requested process does not exist
+ */
+export function selectProcesses(document: ProcessDocument, processId?: string): [string, Process][] {
+  if (!processId) {
+    return Object.entries((document.processes ?? {}) as Record<string, Process>);
+  }
+  const process = findProcess(document, processId);
+  if (!process) {
+    throw new Error(`Process ${processId} not found in document`);
+  }
+  return [[processId, process]];
+}
+
+/**
+ * Resolve which steps belong to a phase.
+ *
+ * Uses `includeSteps` when present, otherwise the steps between the
+ * phase's start and end milestones.
+ */
+export function resolvePhaseMembers(phase: Phase, process: Process): string[] {
+  if (Array.isArray(phase.includeSteps)) {
+    return phase.includeSteps as string[];
+  }
+  if (!phase.startMilestone || !phase.endMilestone) {
+    return [];
+  }
+
+  // Steps between the milestones: reachable from start and able to reach end
+  const forward = new Map<string, string[]>();
+  const backward = new Map<string, string[]>();
+  const connect = (from: string, to: string) => {
+    forward.set(from, [...(forward.get(from) ?? []), to]);
+    backward.set(to, [...(backward.get(to) ?? []), from]);
+  };
+  for (const link of process.links ?? []) {
+    connect(link.from, link.to);
+  }
+  for (const [blockId, block] of Object.entries((process.blocks ?? {}) as Record<string, Block>)) {
+    for (const member of block.steps ?? []) {
+      connect(blockId, member);
+      connect(member, blockId);
+    }
+  }
+
+  const reach = (start: string, edges: Map<string, string[]>): Set<string> => {
+    const seen = new Set<string>([start]);
+    const queue = [start];
+    while (queue.length > 0) {
+      const current = queue.shift()!;
+      for (const next of edges.get(current) ?? []) {
+        if (!seen.has(next)) {
+          seen.add(next);
+          queue.push(next);
+        }
+      }
+    }
+    return seen;
+  };
+
+  const fromStart = reach(phase.startMilestone, forward);
+  const toEnd = reach(phase.endMilestone, backward);
+  return Object.keys(process.steps).filter((id) => fromStart.has(id) && toEnd.has(id));
+}
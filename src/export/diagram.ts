@@ -0,0 +1,310 @@
+/**
+ * Diagram Exporters (Browser-Safe)
+ *
+ * Renders UBML processes as Mermaid flowcharts and Graphviz DOT graphs for
+ * embedding in Markdown, documentation sites and pull requests.
+ *
+ * Steps get kind-specific shapes, links carry their label, condition and
+ * probability, blocks become subgraphs and phases become clusters.
+ *
+ * @module ubml/export/diagram
+ */
+
+import type { Block, Link, Phase, Process, ProcessDocument, Step } from '../generated/types.js';
+import { resolvePhaseMembers, selectProcesses } from './common.js';
+
+// =============================================================================
+// Public Types
+// =============================================================================
+
+/**
+ * Options for diagram export.
+ */
+export interface DiagramOptions {
+  /** Render only this process (default: all top-level processes) */
+  processId?: string;
+  /** Layout direction (default: 'LR') */
+  direction?: 'LR' | 'TB';
+  /** Which phases to draw as clusters (default: 'lifecycle') */
+  phaseKind?: 'lifecycle' | 'delivery';
+}
+
+// =============================================================================
+// Cluster Tree
+// =============================================================================
+
+interface Cluster {
+  id: string;
+  label: string;
+  kind: 'process' | 'phase' | 'block';
+  steps: string[];
+  children: Cluster[];
+}
+
+/**
+ * Label for a block subgraph, e.g. "Fulfilment (par)".
+ */
+function blockLabel(block: Block): string {
+  const operator = block.operator ?? 'seq';
+  const guard = block.guard ? ` [${block.guard}]` : '';
+  return `${block.name ?? ''} (${operator})${guard}`.trim();
+}
+
+/**
+ * Build the cluster tree of a process: phases contain blocks, blocks contain
+ * operands and nested blocks, and every step is placed in its innermost cluster.
+ */
+function buildClusters(processId: string, process: Process, phaseKind: string): Cluster {
+  const root: Cluster = { id: processId, label: process.name, kind: 'process', steps: [], children: [] };
+  const steps = process.steps as Record<string, Step>;
+  const blocks = (process.blocks ?? {}) as Record<string, Block>;
+  const placed = new Set<string>();
+
+  // Blocks (operands and BK references in `steps` become nested clusters)
+  const nestedBlocks = new Set<string>();
+  for (const block of Object.values(blocks)) {
+    for (const member of block.steps ?? []) {
+      if (blocks[member]) nestedBlocks.add(member);
+    }
+  }
+  const buildBlock = (blockId: string, block: Block, trail: string[]): Cluster => {
+    const cluster: Cluster = { id: blockId, label: blockLabel(block), kind: 'block', steps: [], children: [] };
+    for (const member of block.steps ?? []) {
+      if (blocks[member] && !trail.includes(member)) {
+        cluster.children.push(buildBlock(member, blocks[member], [...trail, member]));
+      } else if (steps[member] && !placed.has(member)) {
+        placed.add(member);
+        cluster.steps.push(member);
+      }
+    }
+    for (const [operandId, operand] of Object.entries((block.operands ?? {}) as Record<string, Block>)) {
+      cluster.children.push(buildBlock(operandId, operand, [...trail, operandId]));
+    }
+    return cluster;
+  };
+  const topBlocks = Object.entries(blocks)
+    .filter(([id]) => !nestedBlocks.has(id))
+    .map(([id, block]) => buildBlock(id, block, [id]));
+
+  // Phases of the requested kind
+  const phaseOf = new Map<string, string>();
+  const phaseClusters: Cluster[] = [];
+  for (const [phaseId, phase] of Object.entries((process.phases ?? {}) as Record<string, Phase>)) {
+    if ((phase.kind ?? 'lifecycle') !== phaseKind) continue;
+    phaseClusters.push({ id: phaseId, label: phase.name ?? phaseId, kind: 'phase', steps: [], children: [] });
+    for (const member of resolvePhaseMembers(phase, process)) {
+      if (steps[member] && !phaseOf.has(member)) phaseOf.set(member, phaseId);
+    }
+  }
+
+  // A block goes into a phase only if all of its steps are in that phase
+  const allSteps = (cluster: Cluster): string[] => [...cluster.steps, ...cluster.children.flatMap(allSteps)];
+  const containerFor = (stepIds: string[]): Cluster => {
+    const phases = new Set(stepIds.map((id) => phaseOf.get(id)));
+    const [only] = [...phases];
+    return phases.size === 1 && only ? phaseClusters.find((phase) => phase.id === only)! : root;
+  };
+
+  for (const block of topBlocks) {
+    containerFor(allSteps(block)).children.push(block);
+  }
+  for (const stepId of Object.keys(steps)) {
+    if (!placed.has(stepId)) {
+      containerFor([stepId]).steps.push(stepId);
+    }
+  }
+
+  root.children.unshift(...phaseClusters.filter((phase) => phase.steps.length > 0 || phase.children.length > 0));
+  return root;
+}
+
+/**
+ * Build the text shown on a link: label, condition, probability and default marker.
+ */
+function linkText(link: Link): string[] {
+  const parts: string[] = [];
+  if (link.label) parts.push(link.label);
+  if (link.condition) parts.push(`[${link.condition}]`);
+  if (link.probability !== undefined) parts.push(`${Math.round(link.probability * 1000) / 10}%`);
+  if (link.isDefault) parts.push('(default)');
+  return parts;
+}
+
+// =============================================================================
+// Mermaid
+// =============================================================================
+
+/**
+ * Escape text for a quoted Mermaid label.
+ */
+function mermaidText(text: string): string {
+  return text.replace(/"/g, '#quot;').replace(/\r?\n/g, '<br/>');
+}
+
+/**
+ * Render a step node with a kind-specific Mermaid shape.
+ */
+function mermaidNode(stepId: string, step: Step): string {
+  const label = `"${mermaidText(step.name ?? stepId)}"`;
+  switch (step.kind) {
+    case 'start': return `${stepId}((${label}))`;
+    case 'end': return `${stepId}(((${label})))`;
+    case 'decision': return `${stepId}{${label}}`;
+    case 'wait': return `${stepId}{{${label}}}`;
+    case 'subprocess': return `${stepId}[[${label}]]`;
+    case 'milestone': return `${stepId}>${label}]`;
+    case 'handoff': return `${stepId}[/${label}/]`;
+    default: return `${stepId}(${label})`;
+  }
+}
+
+/**
+ * Render a cluster and its contents as Mermaid lines.
+ */
+function mermaidCluster(cluster: Cluster, steps: Record<string, Step>, depth: number, lines: string[], asSubgraph: boolean): void {
+  const pad = '  '.repeat(depth);
+  const inner = asSubgraph ? depth + 1 : depth;
+  if (asSubgraph) {
+    lines.push(`${pad}subgraph ${cluster.id}["${mermaidText(cluster.label)}"]`);
+  }
+  for (const stepId of cluster.steps) {
+    lines.push(`${'  '.repeat(inner)}${mermaidNode(stepId, steps[stepId])}`);
+  }
+  for (const child of cluster.children) {
+    mermaidCluster(child, steps, inner, lines, true);
+  }
+  if (asSubgraph) {
+    lines.push(`${pad}end`);
+  }
+}
+
+/**
+ * Render UBML processes as a Mermaid flowchart.
+ *
+ * @param document - Parsed process document content
+ * @param options - Diagram options
+ * @throws Error if `processId` is given but not found
+ *
+ * @example
+ * ```typescript
+ * import { toMermaid } from 'ubml';
+ *
+ * const markdown = '```mermaid\n' + toMermaid(content, { processId: 'PR00001' }) + '```\n';
+ * ```
+ */
+export function toMermaid(document: ProcessDocument, options: DiagramOptions = {}): string {
+  const { direction = 'LR', phaseKind = 'lifecycle' } = options;
+  const processes = selectProcesses(document, options.processId);
+  const lines: string[] = [`flowchart ${direction}`];
+
+  for (const [processId, process] of processes) {
+    const steps = process.steps as Record<string, Step>;
+    const clusters = buildClusters(processId, process, phaseKind);
+    mermaidCluster(clusters, steps, 1, lines, processes.length > 1);
+
+    for (const link of (process.links ?? []) as Link[]) {
+      const text = linkText(link);
+      const arrow = link.isDefault ? '-.->' : '-->';
+      const edge = text.length > 0 ? `${arrow}|"${mermaidText(text.join(' '))}"|` : arrow;
+      lines.push(`  ${link.from} ${edge} ${link.to}`);
+    }
+  }
+
+  return lines.join('\n') + '\n';
+}
+
+// =============================================================================
+// Graphviz DOT
+// =============================================================================
+
+/**
+ * Quote a string as a DOT ID.
+ */
+function dotString(text: string): string {
+  return `"${text.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\r?\n/g, '\\n')}"`;
+}
+
+/**
+ * Get DOT node attributes for a step kind.
+ */
+function dotShape(kind: Step['kind']): string {
+  switch (kind) {
+    case 'start': return 'shape=circle';
+    case 'end': return 'shape=doublecircle';
+    case 'decision': return 'shape=diamond';
+    case 'wait': return 'shape=hexagon';
+    case 'subprocess': return 'shape=box, peripheries=2';
+    case 'milestone': return 'shape=cds';
+    case 'handoff': return 'shape=parallelogram';
+    default: return 'shape=box, style=rounded';
+  }
+}
+
+/**
+ * Render a cluster and its contents as DOT lines.
+ */
+function dotCluster(cluster: Cluster, steps: Record<string, Step>, depth: number, lines: string[], asSubgraph: boolean): void {
+  const pad = '  '.repeat(depth);
+  const inner = asSubgraph ? depth + 1 : depth;
+  const innerPad = '  '.repeat(inner);
+  if (asSubgraph) {
+    lines.push(`${pad}subgraph cluster_${cluster.id} {`);
+    lines.push(`${innerPad}label=${dotString(cluster.label)};`);
+    lines.push(`${innerPad}style=${cluster.kind === 'block' ? 'dashed' : 'rounded'};`);
+  }
+  for (const stepId of cluster.steps) {
+    const step = steps[stepId];
+    lines.push(`${innerPad}${stepId} [label=${dotString(step.name ?? stepId)}, ${dotShape(step.kind)}];`);
+  }
+  for (const child of cluster.children) {
+    dotCluster(child, steps, inner, lines, true);
+  }
+  if (asSubgraph) {
+    lines.push(`${pad}}`);
+  }
+}
+
+/**
+ * Render UBML processes as a Graphviz DOT digraph.
+ *
+ * @param document - Parsed process document content
+ * @param options - Diagram options
+ * @throws Error if `processId` is given but not found
+ *
+ * @example
+ * ```typescript
+ * import { toDot } from 'ubml';
+ *
+ * const dot = toDot(content);
+ * // dot -Tsvg process.dot -o process.svg
+ * ```
+ */
+export function toDot(document: ProcessDocument, options: DiagramOptions = {}): string {
+  const { direction = 'LR', phaseKind = 'lifecycle' } = options;
+  const processes = selectProcesses(document, options.processId);
+  const graphName = processes.length === 1 ? processes[0][0] : 'ubml';
+  const lines: string[] = [
+    `digraph ${graphName} {`,
+    `  rankdir=${direction};`,
+    '  node [fontname="Helvetica"];',
+    '  edge [fontname="Helvetica", fontsize=10];',
+  ];
+
+  for (const [processId, process] of processes) {
+    const steps = process.steps as Record<string, Step>;
+    const clusters = buildClusters(processId, process, phaseKind);
+    dotCluster(clusters, steps, 1, lines, processes.length > 1);
+
+    for (const link of (process.links ?? []) as Link[]) {
+      const attributes: string[] = [];
+      const text = linkText(link);
+      if (text.length > 0) attributes.push(`label=${dotString(text.join('\n'))}`);
+      if (link.isDefault) attributes.push('style=dashed');
+      const suffix = attributes.length > 0 ? ` [${attributes.join(', ')}]` : '';
+      lines.push(`  ${link.from} -> ${link.to}${suffix};`);
+    }
+  }
+
+  lines.push('}');
+  return lines.join('\n') + '\n';
+}
@@ -0,0 +1,80 @@
+/**
+ * Diff Markdown Exporter (Browser-Safe)
+ *
+ * Renders a semantic workspace diff (see `diffWorkspaces`) as a Markdown
+ * summary for pull request comments: a table of counts per element type,
+ * then the added, removed and changed elements with their property changes.
+ *
+ * @module ubml/export/diff
+ */
+
+import type { ElementChange, WorkspaceDiff } from '../analysis/diff.js';
+
+/**
+ * Options for the Markdown summary.
+ */
+export interface DiffMarkdownOptions {
+  /** Heading of the summary (default: "Model changes") */
+  title?: string;
+}
+
+/**
+ * Format a property value as inline code.
+ */
+function markdownValue(value: unknown): string {
+  if (value === undefined) return '_none_';
+  const text = (typeof value === 'string' ? value : JSON.stringify(value)).replace(/\s+/g, ' ');
+  return text.includes('`') ? `\`\` ${text} \`\`` : `\`${text}\``;
+}
+
+function describeElement(change: ElementChange): string {
+  const name = change.name ? ` ${change.name.replace(/([\\*_[\]<>|])/g, '\\$1')}` : '';
+  const context = [change.parent ? `in ${change.parent}` : undefined, `\`${change.path}\``].filter(Boolean).join(', ');
+  const moved = change.movedFrom ? `, moved from \`${change.movedFrom}\`` : '';
+  return `- **${change.type} ${change.id}**${name} (${context}${moved})`;
+}
+
+/**
+ * Render a workspace diff as Markdown.
+ *
+ * @param diff - Diff computed by `diffWorkspaces`
+ * @param options - Summary options
+ *
+ * @example
+ * ```typescript
+ * import { diffWorkspaces, toDiffMarkdown } from 'ubml';
+ *
+ * const comment = toDiffMarkdown(diffWorkspaces(before, after));
+ * ```
+ */
+export function toDiffMarkdown(diff: WorkspaceDiff, options: DiffMarkdownOptions = {}): string {
+  const lines: string[] = [`## ${options.title ?? 'Model changes'}`, ''];
+
+  if (diff.changes.length === 0) {
+    lines.push('No model changes.', '');
+    return lines.join('\n');
+  }
+
+  lines.push('| Type | Added | Removed | Changed |', '| --- | ---: | ---: | ---: |');
+  for (const entry of diff.summary) {
+    lines.push(`| ${entry.type} | ${entry.added} | ${entry.removed} | ${entry.changed} |`);
+  }
+  lines.push('');
+
+  const sections: [ElementChange['kind'], string][] = [['added', 'Added'], ['removed', 'Removed'], ['changed', 'Changed']];
+  for (const [kind, heading] of sections) {
+    const changes = diff.changes.filter((change) => change.kind === kind);
+    if (changes.length === 0) continue;
+
+    lines.push(`### ${heading}`, '');
+    for (const change of changes) {
+      lines.push(describeElement(change));
+      for (const property of change.changes) {
+        lines.push(`  - \`${property.property}\`: ${markdownValue(property.before)} → ${markdownValue(property.after)}`);
+      }
+    }
+    lines.push('');
+  }
+
+  return lines.join('\n');
+}
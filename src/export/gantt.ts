@@ -0,0 +1,60 @@
+/**
+ * Gantt Chart Exporter (Browser-Safe)
+ *
+ * Renders a computed schedule (see `schedule`) as a Mermaid `gantt` chart.
+ * Steps are grouped into sections by phase, critical steps are marked
+ * `crit` and zero-duration steps become milestones.
+ *
+ * @module ubml/export/gantt
+ */
+
+import type { ScheduleResult } from '../analysis/schedule.js';
+
+/**
+ * Escape text for a Mermaid Gantt task or section name.
+ *
+ * Colons separate the task name from its metadata and `#`/`;` start
+ * comments and entities, so they are replaced.
+ */
+function ganttText(text: string): string {
+  return text.replace(/[:;#]/g, ' ').replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * Render a schedule as a Mermaid Gantt chart.
+ *
+ * @param result - Schedule computed by `schedule`
+ *
+ * @example
+ * ```typescript
+ * import { schedule, toGantt } from 'ubml';
+ *
+ * const markdown = '```mermaid\n' + toGantt(schedule(content, 'PR00001')) + '```\n';
+ * ```
+ */
+export function toGantt(result: ScheduleResult): string {
+  const lines: string[] = [
+    'gantt',
+    `  title ${ganttText(result.name)}`,
+    '  dateFormat YYYY-MM-DD HH:mm',
+    '  axisFormat %Y-%m-%d',
+    '  excludes weekends',
+  ];
+
+  const sections = new Map<string, ScheduleResult['steps']>();
+  for (const step of result.steps) {
+    const section = step.phase?.name ?? result.name;
+    sections.set(section, [...(sections.get(section) ?? []), step]);
+  }
+
+  for (const [section, steps] of sections) {
+    lines.push(`  section ${ganttText(section)}`);
+    for (const step of steps) {
+      const tags = [...(step.critical ? ['crit'] : []), ...(step.duration === 0 ? ['milestone'] : [])];
+      const timing = step.duration === 0 ? `${step.start}, 0d` : `${step.start}, ${step.finish}`;
+      lines.push(`    ${ganttText(step.name)} :${[...tags, step.id].join(', ')}, ${timing}`);
+    }
+  }
+
+  return lines.join('\n') + '\n';
+}
@@ -0,0 +1,346 @@
+/**
+ * Sequence Diagram Exporter (Browser-Safe)
+ *
+ * Renders the messages exchanged in a UBML process as a Mermaid
+ * `sequenceDiagram` or PlantUML sequence diagram.
+ *
+ * The process is walked in link order starting from its start steps. Each
+ * step's messages are drawn from the step's performer (first responsible
+ * actor, else first system) to the recipient. `par`, `alt`, `opt`, `loop`
+ * and `break` blocks become the corresponding combined fragments.
+ *
+ * @module ubml/export/sequence
+ */
+
+import type { Actor, Block, Link, Process, ProcessDocument, Step } from '../generated/types.js';
+import { selectProcesses } from './common.js';
+
+// =============================================================================
+// Public Types
+// =============================================================================
+
+/**
+ * Options for sequence diagram export.
+ */
+export interface SequenceDiagramOptions {
+  /** Output notation (default: 'mermaid') */
+  format?: 'mermaid' | 'plantuml';
+  /** Process to render (required when the document has more than one) */
+  processId?: string;
+  /** Actors catalog used for participant names and kinds */
+  actors?: Record<string, Actor>;
+}
+
+// =============================================================================
+// Sequence Model
+// =============================================================================
+
+interface Participant {
+  id: string;
+  label: string;
+  isHuman: boolean;
+}
+
+interface MessageItem {
+  type: 'message';
+  from: string;
+  to: string;
+  text: string;
+}
+
+interface FragmentItem {
+  type: 'fragment';
+  operator: 'par' | 'alt' | 'opt' | 'loop' | 'break';
+  branches: { label?: string; items: SequenceItem[] }[];
+}
+
+type SequenceItem = MessageItem | FragmentItem;
+
+/**
+ * Order steps by walking links from the start steps (breadth-first, links in
+ * declaration order). Unreachable steps follow in document order.
+ */
+function walkOrder(process: Process): string[] {
+  const steps = process.steps as Record<string, Step>;
+  const links = (process.links ?? []) as Link[];
+  const hasIncoming = new Set(links.map((link) => link.to));
+  const starts = process.startsWith?.length
+    ? process.startsWith
+    : Object.keys(steps).filter((id) => steps[id].kind === 'start' || !hasIncoming.has(id));
+
+  const order: string[] = [];
+  const seen = new Set<string>();
+  const queue = starts.filter((id) => steps[id]);
+  queue.forEach((id) => seen.add(id));
+  while (queue.length > 0) {
+    const current = queue.shift()!;
+    order.push(current);
+    for (const link of links) {
+      if (link.from === current && steps[link.to] && !seen.has(link.to)) {
+        seen.add(link.to);
+        queue.push(link.to);
+      }
+    }
+  }
+  for (const id of Object.keys(steps)) {
+    if (!seen.has(id)) order.push(id);
+  }
+  return order;
+}
+
+/**
+ * Build the sequence of messages and fragments for a process.
+ */
+function buildSequence(
+  process: Process,
+  participants: Map<string, Participant>,
+  declare: (id: string) => void
+): SequenceItem[] {
+  const steps = process.steps as Record<string, Step>;
+  const blocks = (process.blocks ?? {}) as Record<string, Block>;
+  const links = (process.links ?? []) as Link[];
+  const order = walkOrder(process);
+  const position = new Map(order.map((id, index) => [id, index]));
+  const processParticipant = '__process__';
+
+  // Direct members of each block (steps and nested blocks)
+  const memberSteps = (block: Block, trail: string[]): string[] => [
+    ...(block.steps ?? []).flatMap((member) =>
+      blocks[member] && !trail.includes(member) ? memberSteps(blocks[member], [...trail, member]) : [member]
+    ),
+    ...Object.entries((block.operands ?? {}) as Record<string, Block>)
+      .flatMap(([id, operand]) => memberSteps(operand, [...trail, id])),
+  ];
+  const nested = new Set(Object.values(blocks).flatMap((block) => (block.steps ?? []).filter((id) => blocks[id])));
+  const topBlocks = Object.entries(blocks).filter(([id]) => !nested.has(id));
+  const blockOf = new Map<string, string>();
+  for (const [blockId, block] of topBlocks) {
+    for (const stepId of memberSteps(block, [blockId])) {
+      if (!blockOf.has(stepId)) blockOf.set(stepId, blockId);
+    }
+  }
+
+  const stepMessages = (stepId: string): MessageItem[] => {
+    const step = steps[stepId];
+    if (!step?.messages?.length) return [];
+    const from = step.RACI?.responsible?.[0] ?? step.systems?.[0] ?? processParticipant;
+    declare(from);
+    return step.messages.map((message) => {
+      declare(message.to);
+      return {
+        type: 'message' as const,
+        from,
+        to: message.to,
+        text: message.channel ? `${message.name} (${message.channel})` : message.name,
+      };
+    });
+  };
+
+  // Nested blocks sort by their earliest step
+  const positionOf = (id: string): number => blocks[id]
+    ? Math.min(...memberSteps(blocks[id], [id]).map((stepId) => position.get(stepId) ?? order.length))
+    : position.get(id) ?? order.length;
+  const byPosition = (a: string, b: string) => positionOf(a) - positionOf(b);
+
+  const renderBlock = (blockId: string, block: Block, trail: string[]): SequenceItem[] => {
+    const operator = block.operator ?? 'seq';
+    const operands = Object.entries((block.operands ?? {}) as Record<string, Block>);
+
+    // Branches: operands when present, otherwise the block's own members
+    let branches: { label?: string; members: string[]; operand?: [string, Block] }[];
+    if (operands.length > 0) {
+      branches = operands.map(([id, operand]) => ({ label: operand.guard ?? operand.name, members: [], operand: [id, operand] }));
+    } else if (operator === 'par' || operator === 'alt') {
+      // Each chain of internally linked members is one branch
+      const members = (block.steps ?? []).slice().sort(byPosition);
+      const branchOf = new Map<string, number>();
+      branches = [];
+      for (const member of members) {
+        const memberIds = blocks[member] && !trail.includes(member) ? memberSteps(blocks[member], [member]) : [member];
+        const previous = links.find((link) => memberIds.includes(link.to) && branchOf.has(link.from));
+        const index = previous ? branchOf.get(previous.from)! : branches.length;
+        if (previous) {
+          branches[index].members.push(member);
+        } else {
+          const guard = operator === 'alt' ? blocks[member]?.guard ?? steps[member]?.guard : undefined;
+          branches.push({ label: guard, members: [member] });
+        }
+        memberIds.forEach((id) => branchOf.set(id, index));
+      }
+    } else {
+      branches = [{ label: block.guard, members: block.steps ?? [] }];
+    }
+
+    const branchItems = branches.map((branch) => {
+      if (branch.operand) {
+        const [id, operand] = branch.operand;
+        return { label: branch.label, items: renderBlock(id, operand, [...trail, id]) };
+      }
+      const items = branch.members.slice().sort(byPosition).flatMap((member): SequenceItem[] =>
+        blocks[member] && !trail.includes(member)
+          ? renderBlock(member, blocks[member], [...trail, member])
+          : stepMessages(member)
+      );
+      return { label: branch.label, items };
+    }).filter((branch) => branch.items.length > 0);
+
+    if (branchItems.length === 0) return [];
+    if (operator === 'seq') return branchItems.flatMap((branch) => branch.items);
+    if (operator === 'opt' || operator === 'loop' || operator === 'break') {
+      const label = block.guard ?? (operator === 'loop' && block.maxIterations ? `max ${block.maxIterations}` : block.name);
+      return [{ type: 'fragment', operator, branches: [{ label, items: branchItems.flatMap((branch) => branch.items) }] }];
+    }
+    if (!branchItems[0].label) {
+      branchItems[0].label = block.name;
+    }
+    return [{ type: 'fragment', operator, branches: branchItems }];
+  };
+
+  const items: SequenceItem[] = [];
+  const rendered = new Set<string>();
+  for (const stepId of order) {
+    const blockId = blockOf.get(stepId);
+    if (blockId) {
+      if (!rendered.has(blockId)) {
+        rendered.add(blockId);
+        items.push(...renderBlock(blockId, blocks[blockId], [blockId]));
+      }
+      continue;
+    }
+    items.push(...stepMessages(stepId));
+  }
+
+  if (participants.has(processParticipant)) {
+    participants.get(processParticipant)!.label = process.name;
+  }
+  return items;
+}
+
+// =============================================================================
+// Rendering
+// =============================================================================
+
+/**
+ * Escape text for Mermaid sequence diagrams (semicolons and hashes end statements).
+ */
+function mermaidText(text: string): string {
+  return text.replace(/[#;]/g, (char) => `#${char.charCodeAt(0)};`).replace(/\r?\n/g, '<br/>');
+}
+
+/**
+ * Render sequence items as Mermaid lines.
+ */
+function renderMermaid(items: SequenceItem[], ids: Map<string, string>, depth: number, lines: string[]): void {
+  const pad = '    '.repeat(depth);
+  for (const item of items) {
+    if (item.type === 'message') {
+      lines.push(`${pad}${ids.get(item.from)}->>${ids.get(item.to)}: ${mermaidText(item.text)}`);
+      continue;
+    }
+    const separator = item.operator === 'par' ? 'and' : 'else';
+    item.branches.forEach((branch, index) => {
+      const keyword = index === 0 ? item.operator : separator;
+      lines.push(`${pad}${keyword}${branch.label ? ` ${mermaidText(branch.label)}` : ''}`);
+      renderMermaid(branch.items, ids, depth + 1, lines);
+    });
+    lines.push(`${pad}end`);
+  }
+}
+
+/**
+ * Render sequence items as PlantUML lines.
+ */
+function renderPlantUml(items: SequenceItem[], ids: Map<string, string>, depth: number, lines: string[]): void {
+  const pad = '  '.repeat(depth);
+  for (const item of items) {
+    if (item.type === 'message') {
+      lines.push(`${pad}${ids.get(item.from)} -> ${ids.get(item.to)} : ${item.text.replace(/\r?\n/g, '\\n')}`);
+      continue;
+    }
+    item.branches.forEach((branch, index) => {
+      const keyword = index === 0 ? item.operator : 'else';
+      lines.push(`${pad}${keyword}${branch.label ? ` ${branch.label}` : ''}`);
+      renderPlantUml(branch.items, ids, depth + 1, lines);
+    });
+    lines.push(`${pad}end`);
+  }
+}
+
+// =============================================================================
+// Public API
+// =============================================================================
+
+/**
+ * Render the messages of a UBML process as a sequence diagram.
+ *
+ * @param document - Parsed process document content
+ * @param options - Diagram options
+ * @throws Error if the process is not found, or if the document has several
+ *   processes and no `processId` is given
+ *
+ * @example
+ * ```typescript
+ * import { toSequenceDiagram } from 'ubml';
+ *
+ * const plantuml = toSequenceDiagram(content, {
+ *   processId: 'PR00001',
+ *   format: 'plantuml',
+ *   actors: actorsDocument.actors,
+ * });
+ * ```
+ */
+export function toSequenceDiagram(document: ProcessDocument, options: SequenceDiagramOptions = {}): string {
+  const { format = 'mermaid', actors = {} } = options;
+  const processes = selectProcesses(document, options.processId);
+  if (processes.length !== 1) {
+    throw new Error(
+      `Document has ${processes.length} processes; choose one with processId (${processes.map(([id]) => id).join(', ')})`
+    );
+  }
+  const [[processId, process]] = processes;
+
+  // Participants in order of first appearance: performers and systems of steps, then recipients
+  const participants = new Map<string, Participant>();
+  const declare = (id: string) => {
+    if (participants.has(id)) return;
+    const actor = actors[id];
+    participants.set(id, {
+      id,
+      label: actor?.name ?? id,
+      isHuman: actor ? actor.kind === 'human' || ['person', 'role', 'customer'].includes(actor.type) : false,
+    });
+  };
+  for (const stepId of walkOrder(process)) {
+    const step = (process.steps as Record<string, Step>)[stepId];
+    for (const id of [...(step.RACI?.responsible ?? []), ...(step.systems ?? [])]) declare(id);
+  }
+  const items = buildSequence(process, participants, declare);
+
+  // Diagram identifiers: actor IDs as-is, the process placeholder by process ID
+  const ids = new Map<string, string>();
+  for (const id of participants.keys()) {
+    ids.set(id, id === '__process__' ? processId : id);
+  }
+
+  const lines: string[] = [];
+  if (format === 'plantuml') {
+    lines.push('@startuml');
+    lines.push(`title ${process.name}`);
+    for (const participant of participants.values()) {
+      const keyword = participant.isHuman ? 'actor' : 'participant';
+      lines.push(`${keyword} "${participant.label.replace(/"/g, "'")}" as ${ids.get(participant.id)}`);
+    }
+    renderPlantUml(items, ids, 0, lines);
+    lines.push('@enduml');
+  } else {
+    lines.push('sequenceDiagram');
+    lines.push(`    title ${mermaidText(process.name)}`);
+    for (const participant of participants.values()) {
+      const keyword = participant.isHuman ? 'actor' : 'participant';
+      lines.push(`    ${keyword} ${ids.get(participant.id)} as ${mermaidText(participant.label)}`);
+    }
+    renderMermaid(items, ids, 1, lines);
+  }
+
+  return lines.join('\n') + '\n';
+}
@@ -0,0 +1,146 @@
+/**
+ * Expression Built-in Functions (Browser-Safe)
+ *
+ * The functions callable from ts-subset-v1 expressions. Durations are
+ * expressed in working hours, so `d(2)` evaluates to 16 and `min(30)` to 0.5.
+ *
+ * `min` is overloaded: with one argument it is the minutes helper, with two
+ * or more it returns the smallest argument.
+ *
+ * @module ubml/expression/builtins
+ */
+
+import { DURATION_UNIT_HOURS } from '../utils/duration.js';
+
+/**
+ * Runtime services available to built-in functions.
+ */
+export interface BuiltinContext {
+  /** Random source in [0, 1); distributions return their mean when absent */
+  random?: () => number;
+}
+
+/**
+ * A built-in function definition.
+ */
+export interface BuiltinFunction {
+  /** Minimum number of arguments */
+  minArgs: number;
+  /** Maximum number of arguments (Infinity for variadic) */
+  maxArgs: number;
+  /** Signature shown in error messages */
+  signature: string;
+  /** Implementation; arguments are already checked to be numbers */
+  call: (args: number[], context: BuiltinContext) => number;
+}
+
+/**
+ * Sample a triangular distribution, or return its mean without a random source.
+ */
+function triangular(low: number, mode: number, high: number, random?: () => number): number {
+  if (!(low <= mode && mode <= high)) {
+    throw new Error(`tri() expects min <= mode <= max, got ${low}, ${mode}, ${high}`);
+  }
+  if (!random) return (low + mode + high) / 3;
+  if (high === low) return low;
+  const u = random();
+  const split = (mode - low) / (high - low);
+  return u < split
+    ? low + Math.sqrt(u * (high - low) * (mode - low))
+    : high - Math.sqrt((1 - u) * (high - low) * (high - mode));
+}
+
+/**
+ * Sample a log-normal distribution given the mean and standard deviation of
+ * its values, or return the mean without a random source.
+ */
+function lognormal(mean: number, stdDev: number, random?: () => number): number {
+  if (!(mean > 0 && stdDev >= 0)) {
+    throw new Error(`lognormal() expects mean > 0 and stdDev >= 0, got ${mean}, ${stdDev}`);
+  }
+  if (!random) return mean;
+  const sigma2 = Math.log(1 + (stdDev * stdDev) / (mean * mean));
+  const mu = Math.log(mean) - sigma2 / 2;
+  const normal = Math.sqrt(-2 * Math.log(1 - random())) * Math.cos(2 * Math.PI * random());
+  return Math.exp(mu + Math.sqrt(sigma2) * normal);
+}
+
+/**
+ * Create a duration helper that converts an amount of `unit` to hours.
+ */
+function durationHelper(unit: keyof typeof DURATION_UNIT_HOURS): BuiltinFunction {
+  return {
+    minArgs: 1,
+    maxArgs: 1,
+    signature: `${unit}(amount)`,
+    call: ([amount]) => amount * DURATION_UNIT_HOURS[unit],
+  };
+}
+
+/**
+ * Built-in functions by name.
+ */
+export const BUILTIN_FUNCTIONS: Record<string, BuiltinFunction> = {
+  tri: {
+    minArgs: 3,
+    maxArgs: 3,
+    signature: 'tri(min, mode, max)',
+    call: ([low, mode, high], context) => triangular(low, mode, high, context.random),
+  },
+  lognormal: {
+    minArgs: 2,
+    maxArgs: 2,
+    signature: 'lognormal(mean, stdDev)',
+    call: ([mean, stdDev], context) => lognormal(mean, stdDev, context.random),
+  },
+  min: {
+    minArgs: 1,
+    maxArgs: Infinity,
+    signature: 'min(minutes) or min(a, b, ...)',
+    call: (args) => (args.length === 1 ? args[0] * DURATION_UNIT_HOURS.min : Math.min(...args)),
+  },
+  max: {
+    minArgs: 1,
+    maxArgs: Infinity,
+    signature: 'max(a, b, ...)',
+    call: (args) => Math.max(...args),
+  },
+  clamp: {
+    minArgs: 3,
+    maxArgs: 3,
+    signature: 'clamp(x, lo, hi)',
+    call: ([x, lo, hi]) => Math.min(Math.max(x, lo), hi),
+  },
+  round: {
+    minArgs: 1,
+    maxArgs: 2,
+    signature: 'round(x, digits?)',
+    call: ([x, digits = 0]) => {
+      const factor = 10 ** digits;
+      return Math.round(x * factor) / factor;
+    },
+  },
+  floor: {
+    minArgs: 1,
+    maxArgs: 1,
+    signature: 'floor(x)',
+    call: ([x]) => Math.floor(x),
+  },
+  ceil: {
+    minArgs: 1,
+    maxArgs: 1,
+    signature: 'ceil(x)',
+    call: ([x]) => Math.ceil(x),
+  },
+  h: durationHelper('h'),
+  d: durationHelper('d'),
+  wk: durationHelper('wk'),
+  mo: durationHelper('mo'),
+};
+
+/**
+ * Check whether a name is a built-in function.
+ */
+export function isBuiltinFunction(name: string): boolean {
+  return Object.hasOwn(BUILTIN_FUNCTIONS, name);
+}
@@ -0,0 +1,259 @@
+/**
+ * Expression Type Checker (Browser-Safe)
+ *
+ * Statically checks a parsed ts-subset-v1 expression against declared work
+ * attributes: identifiers must be declared, categorical attributes may only
+ * be compared with their declared values, and operators must receive
+ * operands of the right type (numbers for arithmetic, booleans for logic).
+ *
+ * Identifiers used as the root of a property access (`customer.segment`)
+ * refer to the information model and are not checked.
+ *
+ * @module ubml/expression/checker
+ */
+
+import type { ExpressionNode, ExpressionSpan } from './parser.js';
+
+// =============================================================================
+// Public Types
+// =============================================================================
+
+/**
+ * Static type of an expression.
+ */
+export type ExpressionType = 'number' | 'string' | 'boolean' | 'null' | 'unknown';
+
+/**
+ * Declared type of a work attribute.
+ */
+export interface AttributeDeclaration {
+  type: 'number' | 'string' | 'boolean';
+  /** Allowed values of a categorical attribute */
+  values?: string[];
+}
+
+/**
+ * A problem found while checking an expression.
+ */
+export interface ExpressionDiagnostic {
+  message: string;
+  /**
+   * Diagnostic code: 'ubml/expression-unknown-identifier',
+   * 'ubml/expression-invalid-value' or 'ubml/expression-type-mismatch'
+   */
+  code: string;
+  /** Offset in the expression source (0-based) */
+  offset: number;
+  /** Line number (1-indexed) */
+  line: number;
+  /** Column number (1-indexed) */
+  column: number;
+  /** The undeclared identifier, for unknown-identifier diagnostics */
+  identifier?: string;
+}
+
+/**
+ * Result of checking an expression.
+ */
+export interface ExpressionCheckResult {
+  /** Inferred type of the whole expression */
+  type: ExpressionType;
+  diagnostics: ExpressionDiagnostic[];
+}
+
+/**
+ * Options for expression checking.
+ */
+export interface CheckExpressionOptions {
+  /** Type the expression must produce (e.g., 'boolean' for guards) */
+  expected?: Exclude<ExpressionType, 'null' | 'unknown'>;
+}
+
+// =============================================================================
+// Checking
+// =============================================================================
+
+interface Inferred {
+  type: ExpressionType;
+  /** Set when the value is a categorical attribute */
+  attribute?: { name: string; values: string[] };
+}
+
+/**
+ * Describe a node for messages: identifiers by name, literals by value.
+ */
+function describe(node: ExpressionNode): string {
+  if (node.type === 'Identifier') return `"${node.name}"`;
+  if (node.type === 'Literal') return JSON.stringify(node.value);
+  return 'expression';
+}
+
+function isKnown(type: ExpressionType): boolean {
+  return type !== 'unknown' && type !== 'null';
+}
+
+/**
+ * Check an expression AST against declared work attributes.
+ *
+ * @param ast - AST from `parseExpression`
+ * @param attributes - Declared work attributes by name
+ * @param options - Checking options
+ *
+ * @example
+ * ```typescript
+ * import { checkExpression, parseExpression } from 'ubml';
+ *
+ * const { ast } = parseExpression("region == 'Nort'");
+ * const result = checkExpression(ast!, {
+ *   region: { type: 'string', values: ['North', 'South'] },
+ * });
+ * // result.diagnostics[0].message: '"Nort" is not a value of categorical attribute "region" (North, South)'
+ * ```
+ */
+export function checkExpression(
+  ast: ExpressionNode,
+  attributes: Record<string, AttributeDeclaration>,
+  options: CheckExpressionOptions = {}
+): ExpressionCheckResult {
+  const diagnostics: ExpressionDiagnostic[] = [];
+
+  const report = (code: string, message: string, node: ExpressionSpan, identifier?: string) => {
+    diagnostics.push({ message, code, offset: node.start, line: node.line, column: node.column, identifier });
+  };
+
+  const mismatch = (message: string, node: ExpressionSpan) => report('ubml/expression-type-mismatch', message, node);
+
+  /** Require a known operand type to be one of `allowed`. */
+  const requireType = (node: ExpressionNode, inferred: Inferred, allowed: ExpressionType[], context: string) => {
+    if (isKnown(inferred.type) && !allowed.includes(inferred.type)) {
+      mismatch(`${context} expects ${allowed.join(' or ')}, but ${describe(node)} is ${inferred.type}`, node);
+    }
+  };
+
+  /** Check a string literal compared with a categorical attribute. */
+  const checkCategorical = (attributeSide: Inferred, other: ExpressionNode) => {
+    if (!attributeSide.attribute || other.type !== 'Literal' || typeof other.value !== 'string') return;
+    const { name, values } = attributeSide.attribute;
+    if (!values.includes(other.value)) {
+      report(
+        'ubml/expression-invalid-value',
+        `"${other.value}" is not a value of categorical attribute "${name}" (${values.join(', ')})`,
+        other
+      );
+    }
+  };
+
+  const infer = (node: ExpressionNode): Inferred => {
+    switch (node.type) {
+      case 'Literal':
+        return { type: node.value === null ? 'null' : (typeof node.value as ExpressionType) };
+
+      case 'Identifier': {
+        if (!Object.hasOwn(attributes, node.name)) {
+          report(
+            'ubml/expression-unknown-identifier',
+            `Unknown identifier "${node.name}" (not declared in any scenario's workAttributes)`,
+            node,
+            node.name
+          );
+          return { type: 'unknown' };
+        }
+        const declaration = attributes[node.name];
+        return {
+          type: declaration.type,
+          attribute: declaration.values?.length ? { name: node.name, values: declaration.values } : undefined,
+        };
+      }
+
+      case 'Member': {
+        // Property access on a declared attribute is a mistake; other roots are information model objects
+        if (node.object.type === 'Identifier') {
+          const declaration = Object.hasOwn(attributes, node.object.name) ? attributes[node.object.name] : undefined;
+          if (declaration) {
+            mismatch(`Cannot read property "${node.property}" of ${declaration.type} attribute "${node.object.name}"`, node);
+          }
+        } else {
+          infer(node.object);
+        }
+        return { type: 'unknown' };
+      }
+
+      case 'Unary': {
+        const argument = infer(node.argument);
+        if (node.operator === '!') {
+          requireType(node.argument, argument, ['boolean'], 'Operator "!"');
+          return { type: 'boolean' };
+        }
+        requireType(node.argument, argument, ['number'], `Unary "${node.operator}"`);
+        return { type: 'number' };
+      }
+
+      case 'Logical': {
+        const left = infer(node.left);
+        const right = infer(node.right);
+        requireType(node.left, left, ['boolean'], `Operator "${node.operator}"`);
+        requireType(node.right, right, ['boolean'], `Operator "${node.operator}"`);
+        return { type: left.type === 'boolean' && right.type === 'boolean' ? 'boolean' : 'unknown' };
+      }
+
+      case 'Conditional': {
+        const test = infer(node.test);
+        requireType(node.test, test, ['boolean'], 'Condition of "?:"');
+        const consequent = infer(node.consequent);
+        const alternate = infer(node.alternate);
+        if (isKnown(consequent.type) && isKnown(alternate.type) && consequent.type !== alternate.type) {
+          mismatch(`Branches of "?:" have different types (${consequent.type} and ${alternate.type})`, node);
+        }
+        return { type: consequent.type === alternate.type ? consequent.type : 'unknown' };
+      }
+
+      case 'Binary': {
+        const left = infer(node.left);
+        const right = infer(node.right);
+        const context = `Operator "${node.operator}"`;
+        switch (node.operator) {
+          case '==':
+          case '!=':
+          case '===':
+          case '!==':
+            if (isKnown(left.type) && isKnown(right.type) && left.type !== right.type) {
+              mismatch(`Comparing ${left.type} ${describe(node.left)} with ${right.type} ${describe(node.right)}`, node);
+            }
+            checkCategorical(left, node.right);
+            checkCategorical(right, node.left);
+            return { type: 'boolean' };
+          case '<':
+          case '<=':
+          case '>':
+          case '>=':
+            if (left.type === 'string' && right.type === 'string') return { type: 'boolean' };
+            requireType(node.left, left, ['number'], context);
+            requireType(node.right, right, ['number'], context);
+            return { type: 'boolean' };
+          case '+':
+            if (left.type === 'string' || right.type === 'string') return { type: 'string' };
+            requireType(node.left, left, ['number', 'string'], context);
+            requireType(node.right, right, ['number', 'string'], context);
+            return { type: isKnown(left.type) && isKnown(right.type) ? 'number' : 'unknown' };
+          default:
+            requireType(node.left, left, ['number'], context);
+            requireType(node.right, right, ['number'], context);
+            return { type: 'number' };
+        }
+      }
+
+      case 'Call':
+        for (const argument of node.arguments) {
+          requireType(argument, infer(argument), ['number'], `${node.callee}()`);
+        }
+        return { type: 'number' };
+    }
+  };
+
+  const result = infer(ast);
+  if (options.expected && isKnown(result.type) && result.type !== options.expected) {
+    mismatch(`Expected a ${options.expected} result, but the expression evaluates to ${result.type}`, ast);
+  }
+
+  return { type: result.type, diagnostics };
+}
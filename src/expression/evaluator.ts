@@ -0,0 +1,221 @@
+/**
+ * Expression Evaluator (Browser-Safe)
+ *
+ * Evaluates ts-subset-v1 expressions against a scope of work attributes and
+ * information model values. Identifiers resolve only to own properties of the
+ * scope, so expressions cannot reach globals or prototypes.
+ *
+ * Equality is strict (`==` behaves like `===`); arithmetic and ordering
+ * operators require numbers (`+` also concatenates strings). Type errors are
+ * reported with the position of the offending sub-expression.
+ *
+ * @module ubml/expression/evaluator
+ */
+
+import { BUILTIN_FUNCTIONS } from './builtins.js';
+import { parseExpression, type ExpressionNode, type ExpressionSpan } from './parser.js';
+
+// =============================================================================
+// Public Types
+// =============================================================================
+
+/**
+ * A value produced by an expression.
+ */
+export type ExpressionValue = number | string | boolean | null | { [key: string]: unknown } | unknown[];
+
+/**
+ * Values that identifiers in an expression resolve to.
+ */
+export type ExpressionScope = Record<string, unknown>;
+
+/**
+ * Options for expression evaluation.
+ */
+export interface EvaluateOptions {
+  /** Random source in [0, 1) for distributions such as `tri()` and `lognormal()` (default: use the mean) */
+  random?: () => number;
+}
+
+// =============================================================================
+// Evaluation
+// =============================================================================
+
+/**
+ * Throw an evaluation error positioned at a node.
+ */
+function evaluationError(message: string, node: ExpressionSpan): never {
+  throw new Error(`${message} at line ${node.line}, column ${node.column}`);
+}
+
+/**
+ * Describe a value's type for error messages.
+ */
+function typeName(value: unknown): string {
+  if (value === null || value === undefined) return 'null';
+  if (Array.isArray(value)) return 'array';
+  return typeof value;
+}
+
+/**
+ * Normalize values read from the scope (undefined becomes null).
+ */
+function toValue(value: unknown): ExpressionValue {
+  return value === undefined ? null : (value as ExpressionValue);
+}
+
+function expectNumber(value: ExpressionValue, node: ExpressionNode, context: string): number {
+  if (typeof value !== 'number') {
+    evaluationError(`${context} expects a number, got ${typeName(value)}`, node);
+  }
+  return value;
+}
+
+/**
+ * Evaluate an AST node.
+ */
+function evaluateNode(node: ExpressionNode, scope: ExpressionScope, options: EvaluateOptions): ExpressionValue {
+  switch (node.type) {
+    case 'Literal':
+      return node.value;
+
+    case 'Identifier':
+      if (!Object.hasOwn(scope, node.name)) {
+        evaluationError(`Unknown identifier "${node.name}"`, node);
+      }
+      return toValue(scope[node.name]);
+
+    case 'Member': {
+      const object = evaluateNode(node.object, scope, options);
+      if (object === null || typeof object !== 'object') {
+        evaluationError(`Cannot read property "${node.property}" of ${typeName(object)}`, node);
+      }
+      return Object.hasOwn(object, node.property)
+        ? toValue((object as Record<string, unknown>)[node.property])
+        : null;
+    }
+
+    case 'Unary': {
+      const argument = evaluateNode(node.argument, scope, options);
+      if (node.operator === '!') return !argument;
+      const value = expectNumber(argument, node.argument, `Unary "${node.operator}"`);
+      return node.operator === '-' ? -value : value;
+    }
+
+    case 'Logical': {
+      const left = evaluateNode(node.left, scope, options);
+      if (node.operator === '&&') return left ? evaluateNode(node.right, scope, options) : left;
+      return left ? left : evaluateNode(node.right, scope, options);
+    }
+
+    case 'Conditional':
+      return evaluateNode(node.test, scope, options)
+        ? evaluateNode(node.consequent, scope, options)
+        : evaluateNode(node.alternate, scope, options);
+
+    case 'Binary': {
+      const left = evaluateNode(node.left, scope, options);
+      const right = evaluateNode(node.right, scope, options);
+      switch (node.operator) {
+        case '==':
+        case '===':
+          return left === right;
+        case '!=':
+        case '!==':
+          return left !== right;
+        case '+':
+          if (typeof left === 'string' || typeof right === 'string') {
+            return `${left}${right}`;
+          }
+          return expectNumber(left, node.left, 'Operator "+"') + expectNumber(right, node.right, 'Operator "+"');
+        case '<':
+        case '<=':
+        case '>':
+        case '>=': {
+          if (typeof left === 'string' && typeof right === 'string') {
+            return compare(node.operator, left, right);
+          }
+          const context = `Operator "${node.operator}"`;
+          return compare(node.operator, expectNumber(left, node.left, context), expectNumber(right, node.right, context));
+        }
+        default: {
+          const context = `Operator "${node.operator}"`;
+          const a = expectNumber(left, node.left, context);
+          const b = expectNumber(right, node.right, context);
+          if (node.operator === '-') return a - b;
+          if (node.operator === '*') return a * b;
+          if (node.operator === '/') return a / b;
+          return a % b;
+        }
+      }
+    }
+
+    case 'Call': {
+      const builtin = BUILTIN_FUNCTIONS[node.callee];
+      const args = node.arguments.map((argument) =>
+        expectNumber(evaluateNode(argument, scope, options), argument, `${node.callee}()`)
+      );
+      try {
+        return builtin.call(args, options);
+      } catch (err) {
+        evaluationError(err instanceof Error ? err.message : String(err), node);
+      }
+    }
+  }
+}
+
+function compare(operator: '<' | '<=' | '>' | '>=', a: number | string, b: number | string): boolean {
+  switch (operator) {
+    case '<': return a < b;
+    case '<=': return a <= b;
+    case '>': return a > b;
+    case '>=': return a >= b;
+  }
+}
+
+// =============================================================================
+// Public API
+// =============================================================================
+
+/**
+ * Evaluate a ts-subset-v1 expression.
+ *
+ * Durations are in working hours (`d(1)` is 8). `tri()` and `lognormal()`
+ * sample from `options.random` when given and return the distribution mean
+ * otherwise.
+ *
+ * @param expression - Expression source or an AST from `parseExpression`
+ * @param scope - Values for identifiers (work attributes, entities, ...)
+ * @param options - Evaluation options
+ * @throws Error with line and column on syntax errors, unknown identifiers and type errors
+ *
+ * @example
+ * ```typescript
+ * import { evaluateExpression } from 'ubml';
+ *
+ * evaluateExpression("orderValue > 50000 && customer.segment == 'enterprise'", {
+ *   orderValue: 72000,
+ *   customer: { segment: 'enterprise' },
+ * }); // true
+ *
+ * evaluateExpression('baseEffort * 1.5 + d(1)', { baseEffort: 4 }); // 14
+ * ```
+ */
+export function evaluateExpression(
+  expression: string | ExpressionNode,
+  scope: ExpressionScope = {},
+  options: EvaluateOptions = {}
+): ExpressionValue {
+  let ast: ExpressionNode;
+  if (typeof expression === 'string') {
+    const result = parseExpression(expression);
+    if (!result.ok || !result.ast) {
+      const [error] = result.errors;
+      throw new Error(`${error.message} at line ${error.line}, column ${error.column}`);
+    }
+    ast = result.ast;
+  } else {
+    ast = expression;
+  }
+  return evaluateNode(ast, scope, options);
+}
@@ -0,0 +1,580 @@
+/**
+ * Expression Parser (Browser-Safe)
+ *
+ * Parses ts-subset-v1 expressions, the TypeScript subset used by guards, link
+ * conditions, duration expressions, work attributes and KPI formulas, into an
+ * AST. See the `Expression` definition in primitives.defs.yaml.
+ *
+ * Allowed: number, string, boolean and null literals; arithmetic, comparison
+ * and logical operators; the ternary operator; property access; calls to
+ * built-in functions. Everything on the DISALLOWED list (assignments, loops,
+ * statements, `new`, classes, imports, global access) is rejected with a
+ * position-aware error.
+ *
+ * @module ubml/expression/parser
+ */
+
+import { BUILTIN_FUNCTIONS, isBuiltinFunction } from './builtins.js';
+
+// =============================================================================
+// AST
+// =============================================================================
+
+/**
+ * Position of an AST node in the expression source.
+ */
+export interface ExpressionSpan {
+  /** Start offset (0-based, inclusive) */
+  start: number;
+  /** End offset (0-based, exclusive) */
+  end: number;
+  /** Line of the start offset (1-indexed) */
+  line: number;
+  /** Column of the start offset (1-indexed) */
+  column: number;
+}
+
+export type BinaryOperator =
+  | '+' | '-' | '*' | '/' | '%'
+  | '==' | '!=' | '===' | '!=='
+  | '<' | '<=' | '>' | '>=';
+
+export type LogicalOperator = '&&' | '||';
+
+export type UnaryOperator = '!' | '-' | '+';
+
+export interface LiteralNode extends ExpressionSpan {
+  type: 'Literal';
+  value: number | string | boolean | null;
+}
+
+export interface IdentifierNode extends ExpressionSpan {
+  type: 'Identifier';
+  name: string;
+}
+
+export interface MemberNode extends ExpressionSpan {
+  type: 'Member';
+  object: ExpressionNode;
+  property: string;
+}
+
+export interface UnaryNode extends ExpressionSpan {
+  type: 'Unary';
+  operator: UnaryOperator;
+  argument: ExpressionNode;
+}
+
+export interface BinaryNode extends ExpressionSpan {
+  type: 'Binary';
+  operator: BinaryOperator;
+  left: ExpressionNode;
+  right: ExpressionNode;
+}
+
+export interface LogicalNode extends ExpressionSpan {
+  type: 'Logical';
+  operator: LogicalOperator;
+  left: ExpressionNode;
+  right: ExpressionNode;
+}
+
+export interface ConditionalNode extends ExpressionSpan {
+  type: 'Conditional';
+  test: ExpressionNode;
+  consequent: ExpressionNode;
+  alternate: ExpressionNode;
+}
+
+export interface CallNode extends ExpressionSpan {
+  type: 'Call';
+  /** Built-in function name */
+  callee: string;
+  arguments: ExpressionNode[];
+}
+
+/**
+ * A node of the expression AST.
+ */
+export type ExpressionNode =
+  | LiteralNode
+  | IdentifierNode
+  | MemberNode
+  | UnaryNode
+  | BinaryNode
+  | LogicalNode
+  | ConditionalNode
+  | CallNode;
+
+// =============================================================================
+// Results
+// =============================================================================
+
+/**
+ * An expression syntax error with location information.
+ */
+export interface ExpressionError {
+  message: string;
+  /** Error code: 'ubml/expression-syntax' or 'ubml/expression-disallowed' */
+  code: string;
+  /** Offset in the expression source (0-based) */
+  offset: number;
+  /** Line number (1-indexed) */
+  line: number;
+  /** Column number (1-indexed) */
+  column: number;
+  /** End position for range highlighting */
+  endLine: number;
+  endColumn: number;
+}
+
+/**
+ * Result of parsing an expression.
+ */
+export interface ExpressionParseResult {
+  /** Expression AST, or undefined on error */
+  ast: ExpressionNode | undefined;
+  /** Syntax errors, if any */
+  errors: ExpressionError[];
+  /** Whether parsing succeeded (no errors) */
+  ok: boolean;
+}
+
+// =============================================================================
+// Tokenizer
+// =============================================================================
+
+type TokenType = 'number' | 'string' | 'identifier' | 'operator' | 'eof';
+
+interface Token {
+  type: TokenType;
+  value: string;
+  start: number;
+  end: number;
+}
+
+/** Operators, longest first so that `===` wins over `==` and `=` */
+const OPERATORS = [
+  '===', '!==', '**=', '&&=', '||=', '??=',
+  '==', '!=', '<=', '>=', '&&', '||', '=>', '++', '--', '+=', '-=', '*=', '/=', '%=', '**', '??', '?.',
+  '+', '-', '*', '/', '%', '<', '>', '!', '?', ':', '.', ',', '(', ')', '[', ']', '{', '}', ';', '=',
+];
+
+/** Keywords rejected by ts-subset-v1, with the reason */
+const DISALLOWED_KEYWORDS: Record<string, string> = {
+  new: "'new' is not allowed",
+  class: 'Classes are not allowed',
+  import: 'Imports are not allowed',
+  export: 'Exports are not allowed',
+  require: 'Imports are not allowed',
+  function: 'Function definitions are not allowed',
+  if: 'If statements are not allowed; use the ternary operator (cond ? a : b)',
+  else: 'If statements are not allowed; use the ternary operator (cond ? a : b)',
+  switch: 'Statements are not allowed',
+  for: 'Loops are not allowed',
+  while: 'Loops are not allowed',
+  do: 'Loops are not allowed',
+  return: 'Statements are not allowed',
+  var: 'Variable declarations are not allowed',
+  let: 'Variable declarations are not allowed',
+  const: 'Variable declarations are not allowed',
+  try: 'Statements are not allowed',
+  throw: 'Statements are not allowed',
+  delete: "'delete' is not allowed",
+  typeof: "'typeof' is not allowed",
+  instanceof: "'instanceof' is not allowed",
+  in: "'in' is not allowed",
+  void: "'void' is not allowed",
+  await: "'await' is not allowed",
+  async: "'async' is not allowed",
+  yield: "'yield' is not allowed",
+  this: "'this' is not allowed",
+  super: "'super' is not allowed",
+};
+
+/** Global objects that expressions may not reach */
+const DISALLOWED_GLOBALS = new Set([
+  'window', 'globalThis', 'global', 'self', 'document', 'process', 'module', 'exports',
+  'eval', 'Function', 'Object', 'Array', 'Math', 'JSON', 'Reflect', 'Proxy', 'Symbol', 'Promise',
+]);
+
+/** Properties that expose object internals */
+const DISALLOWED_PROPERTIES = new Set(['__proto__', 'prototype', 'constructor']);
+
+const ASSIGNMENT_OPERATORS = new Set(['=', '+=', '-=', '*=', '/=', '%=', '**=', '&&=', '||=', '??=', '++', '--']);
+
+/**
+ * A syntax failure raised while parsing; converted to an ExpressionError.
+ */
+interface Failure {
+  failure: true;
+  message: string;
+  code: string;
+  start: number;
+  end: number;
+}
+
+function fail(message: string, start: number, end: number, code = 'ubml/expression-syntax'): never {
+  throw { failure: true, message, code, start, end } satisfies Failure;
+}
+
+function isFailure(err: unknown): err is Failure {
+  return typeof err === 'object' && err !== null && (err as Failure).failure === true;
+}
+
+/**
+ * Convert a source offset to a 1-indexed line and column.
+ */
+function positionAt(source: string, offset: number): { line: number; column: number } {
+  let line = 1;
+  let lineStart = 0;
+  for (let i = 0; i < offset && i < source.length; i++) {
+    if (source[i] === '\n') {
+      line++;
+      lineStart = i + 1;
+    }
+  }
+  return { line, column: offset - lineStart + 1 };
+}
+
+/**
+ * Split an expression into tokens.
+ */
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < source.length) {
+    const char = source[i];
+
+    if (/\s/.test(char)) {
+      i++;
+      continue;
+    }
+
+    // Numbers: 12, 1.5, .5, 1e3
+    if (/[0-9]/.test(char) || (char === '.' && /[0-9]/.test(source[i + 1] ?? ''))) {
+      const match = source.slice(i).match(/^(?:[0-9]+(?:\.[0-9]*)?|\.[0-9]+)(?:[eE][+-]?[0-9]+)?/)!;
+      const end = i + match[0].length;
+      if (/[A-Za-z_$]/.test(source[end] ?? '')) {
+        const unit = source.slice(end).match(/^[A-Za-z_$]+/)![0];
+        fail(
+          `Invalid number "${match[0]}${unit}"; write durations with helpers, e.g. ${unit}(${match[0]})`,
+          i,
+          end + unit.length
+        );
+      }
+      tokens.push({ type: 'number', value: match[0], start: i, end });
+      i = end;
+      continue;
+    }
+
+    // Strings: single or double quoted, with backslash escapes
+    if (char === '"' || char === "'") {
+      let value = '';
+      let j = i + 1;
+      while (j < source.length && source[j] !== char) {
+        if (source[j] === '\n') break;
+        if (source[j] === '\\' && j + 1 < source.length) {
+          const escaped = source[j + 1];
+          value += escaped === 'n' ? '\n' : escaped === 't' ? '\t' : escaped;
+          j += 2;
+        } else {
+          value += source[j];
+          j++;
+        }
+      }
+      if (source[j] !== char) {
+        fail('Unterminated string literal', i, j);
+      }
+      tokens.push({ type: 'string', value, start: i, end: j + 1 });
+      i = j + 1;
+      continue;
+    }
+
+    if (char === '`') {
+      fail('Template literals are not allowed', i, i + 1, 'ubml/expression-disallowed');
+    }
+
+    // Identifiers and keywords
+    if (/[A-Za-z_$]/.test(char)) {
+      const match = source.slice(i).match(/^[A-Za-z_$][A-Za-z0-9_$]*/)!;
+      tokens.push({ type: 'identifier', value: match[0], start: i, end: i + match[0].length });
+      i += match[0].length;
+      continue;
+    }
+
+    // `a ?.5 : b` is a ternary, not optional chaining
+    const operator = OPERATORS.find((op) => source.startsWith(op, i) && !(op === '?.' && /[0-9]/.test(source[i + 2] ?? '')));
+    if (!operator) {
+      fail(`Unexpected character "${char}"`, i, i + 1);
+    }
+    tokens.push({ type: 'operator', value: operator, start: i, end: i + operator.length });
+    i += operator.length;
+  }
+
+  tokens.push({ type: 'eof', value: '', start: source.length, end: source.length });
+  return tokens;
+}
+
+// =============================================================================
+// Parser
+// =============================================================================
+
+const EQUALITY_OPERATORS = new Set(['==', '!=', '===', '!==']);
+const RELATIONAL_OPERATORS = new Set(['<', '<=', '>', '>=']);
+const ADDITIVE_OPERATORS = new Set(['+', '-']);
+const MULTIPLICATIVE_OPERATORS = new Set(['*', '/', '%']);
+
+/**
+ * Parse tokens into an AST (recursive descent, lowest precedence first).
+ */
+function parseTokens(source: string, tokens: Token[]): ExpressionNode {
+  let index = 0;
+  const peek = () => tokens[index];
+  const next = () => tokens[index++];
+  const isOperator = (value: string) => peek().type === 'operator' && peek().value === value;
+
+  const span = (start: number, end: number): ExpressionSpan => ({ start, end, ...positionAt(source, start) });
+
+  const describe = (token: Token) => (token.type === 'eof' ? 'end of expression' : `"${token.value}"`);
+
+  const expect = (value: string): Token => {
+    if (!isOperator(value)) {
+      const token = peek();
+      fail(`Expected "${value}" but found ${describe(token)}`, token.start, Math.max(token.end, token.start + 1));
+    }
+    return next();
+  };
+
+  /**
+   * Reject disallowed operators where a binary operator could appear.
+   */
+  const checkDisallowedOperator = () => {
+    const token = peek();
+    if (token.type !== 'operator') return;
+    if (ASSIGNMENT_OPERATORS.has(token.value)) {
+      fail('Assignments are not allowed', token.start, token.end, 'ubml/expression-disallowed');
+    }
+    if (token.value === '=>') {
+      fail('Arrow functions are not allowed', token.start, token.end, 'ubml/expression-disallowed');
+    }
+    if (token.value === ';') {
+      fail('Statements are not allowed; an expression must be a single expression', token.start, token.end, 'ubml/expression-disallowed');
+    }
+    if (token.value === '**' || token.value === '??' || token.value === '?.') {
+      fail(`Operator "${token.value}" is not supported`, token.start, token.end);
+    }
+  };
+
+  const binaryLevel = (
+    operators: Set<string>,
+    parseOperand: () => ExpressionNode,
+    type: 'Binary' | 'Logical'
+  ) => (): ExpressionNode => {
+    let left = parseOperand();
+    checkDisallowedOperator();
+    while (peek().type === 'operator' && operators.has(peek().value)) {
+      const operator = next().value;
+      const right = parseOperand();
+      left = {
+        type,
+        operator,
+        left,
+        right,
+        ...span(left.start, right.end),
+      } as BinaryNode | LogicalNode;
+      checkDisallowedOperator();
+    }
+    return left;
+  };
+
+  const parsePrimary = (): ExpressionNode => {
+    const token = next();
+    switch (token.type) {
+      case 'number':
+        return { type: 'Literal', value: Number(token.value), ...span(token.start, token.end) };
+      case 'string':
+        return { type: 'Literal', value: token.value, ...span(token.start, token.end) };
+      case 'identifier': {
+        const name = token.value;
+        if (Object.hasOwn(DISALLOWED_KEYWORDS, name)) {
+          fail(DISALLOWED_KEYWORDS[name], token.start, token.end, 'ubml/expression-disallowed');
+        }
+        if (DISALLOWED_GLOBALS.has(name)) {
+          fail(`Global access is not allowed ("${name}")`, token.start, token.end, 'ubml/expression-disallowed');
+        }
+        if (name === 'true' || name === 'false') {
+          return { type: 'Literal', value: name === 'true', ...span(token.start, token.end) };
+        }
+        if (name === 'null') {
+          return { type: 'Literal', value: null, ...span(token.start, token.end) };
+        }
+        if (isOperator('(')) {
+          return parseCall(token);
+        }
+        return { type: 'Identifier', name, ...span(token.start, token.end) };
+      }
+      case 'operator':
+        if (token.value === '(') {
+          const inner = parseConditional();
+          const close = expect(')');
+          return { ...inner, ...span(token.start, close.end) };
+        }
+        if (token.value === '[') {
+          fail('Array literals and computed property access are not allowed', token.start, token.end, 'ubml/expression-disallowed');
+        }
+        if (token.value === '{') {
+          fail('Object literals and blocks are not allowed', token.start, token.end, 'ubml/expression-disallowed');
+        }
+        if (ASSIGNMENT_OPERATORS.has(token.value)) {
+          fail('Assignments are not allowed', token.start, token.end, 'ubml/expression-disallowed');
+        }
+        fail(`Unexpected ${describe(token)}`, token.start, token.end);
+        break;
+      case 'eof':
+        fail('Unexpected end of expression', token.start, token.end);
+    }
+  };
+
+  const parseCall = (calleeToken: Token): CallNode => {
+    const callee = calleeToken.value;
+    if (!isBuiltinFunction(callee)) {
+      fail(
+        `Unknown function "${callee}"; only built-in functions can be called (${Object.keys(BUILTIN_FUNCTIONS).join(', ')})`,
+        calleeToken.start,
+        calleeToken.end
+      );
+    }
+    expect('(');
+    const args: ExpressionNode[] = [];
+    if (!isOperator(')')) {
+      args.push(parseConditional());
+      while (isOperator(',')) {
+        next();
+        args.push(parseConditional());
+      }
+    }
+    const close = expect(')');
+
+    const builtin = BUILTIN_FUNCTIONS[callee];
+    if (args.length < builtin.minArgs || args.length > builtin.maxArgs) {
+      fail(
+        `${callee}() takes ${builtin.signature}, got ${args.length} argument(s)`,
+        calleeToken.start,
+        close.end
+      );
+    }
+    return { type: 'Call', callee, arguments: args, ...span(calleeToken.start, close.end) };
+  };
+
+  const parsePostfix = (): ExpressionNode => {
+    let node = parsePrimary();
+    for (;;) {
+      if (isOperator('.')) {
+        next();
+        const property = next();
+        if (property.type !== 'identifier') {
+          fail(`Expected property name after "." but found ${describe(property)}`, property.start, Math.max(property.end, property.start + 1));
+        }
+        if (DISALLOWED_PROPERTIES.has(property.value)) {
+          fail(`Access to "${property.value}" is not allowed`, property.start, property.end, 'ubml/expression-disallowed');
+        }
+        if (isOperator('(')) {
+          fail('Method calls are not allowed; only built-in functions can be called', property.start, property.end, 'ubml/expression-disallowed');
+        }
+        node = { type: 'Member', object: node, property: property.value, ...span(node.start, property.end) };
+      } else if (isOperator('[')) {
+        const token = peek();
+        fail('Computed property access is not allowed; use obj.property', token.start, token.end, 'ubml/expression-disallowed');
+      } else if (isOperator('(')) {
+        const token = peek();
+        fail('Only built-in functions can be called', node.start, token.end);
+      } else {
+        return node;
+      }
+    }
+  };
+
+  const parseUnary = (): ExpressionNode => {
+    const token = peek();
+    if (token.type === 'operator' && (token.value === '!' || token.value === '-' || token.value === '+')) {
+      next();
+      const argument = parseUnary();
+      return { type: 'Unary', operator: token.value as UnaryOperator, argument, ...span(token.start, argument.end) };
+    }
+    if (token.type === 'operator' && (token.value === '++' || token.value === '--')) {
+      fail('Assignments are not allowed', token.start, token.end, 'ubml/expression-disallowed');
+    }
+    return parsePostfix();
+  };
+
+  const parseMultiplicative = binaryLevel(MULTIPLICATIVE_OPERATORS, parseUnary, 'Binary');
+  const parseAdditive = binaryLevel(ADDITIVE_OPERATORS, parseMultiplicative, 'Binary');
+  const parseRelational = binaryLevel(RELATIONAL_OPERATORS, parseAdditive, 'Binary');
+  const parseEquality = binaryLevel(EQUALITY_OPERATORS, parseRelational, 'Binary');
+  const parseAnd = binaryLevel(new Set(['&&']), parseEquality, 'Logical');
+  const parseOr = binaryLevel(new Set(['||']), parseAnd, 'Logical');
+
+  function parseConditional(): ExpressionNode {
+    const test = parseOr();
+    if (!isOperator('?')) return test;
+    next();
+    const consequent = parseConditional();
+    expect(':');
+    const alternate = parseConditional();
+    return { type: 'Conditional', test, consequent, alternate, ...span(test.start, alternate.end) };
+  }
+
+  const ast = parseConditional();
+  checkDisallowedOperator();
+  const trailing = peek();
+  if (trailing.type !== 'eof') {
+    fail(`Unexpected ${describe(trailing)} after expression`, trailing.start, trailing.end);
+  }
+  return ast;
+}
+
+// =============================================================================
+// Public API
+// =============================================================================
+
+/**
+ * Parse a ts-subset-v1 expression into an AST.
+ *
+ * @param source - Expression source (e.g., a guard or `expr` value)
+ *
+ * @example
+ * ```typescript
+ * import { parseExpression } from 'ubml';
+ *
+ * const result = parseExpression("orderValue > 50000 && customer.segment == 'enterprise'");
+ * if (!result.ok) {
+ *   const [error] = result.errors;
+ *   console.error(`${error.message} (column ${error.column})`);
+ * }
+ * ```
+ */
+export function parseExpression(source: string): ExpressionParseResult {
+  try {
+    const ast = parseTokens(source, tokenize(source));
+    return { ast, errors: [], ok: true };
+  } catch (err) {
+    if (!isFailure(err)) throw err;
+    const start = positionAt(source, err.start);
+    const end = positionAt(source, Math.max(err.end, err.start));
+    return {
+      ast: undefined,
+      errors: [{
+        message: err.message,
+        code: err.code,
+        offset: err.start,
+        line: start.line,
+        column: start.column,
+        endLine: end.line,
+        endColumn: end.column,
+      }],
+      ok: false,
+    };
+  }
+}
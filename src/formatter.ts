@@ -0,0 +1,256 @@
+/**
+ * UBML Formatter (Browser-Safe)
+ *
+ * Canonical formatting of UBML YAML text. Unlike `serialize()`, which
+ * stringifies plain objects, the formatter works on the parsed YAML
+ * document, so comments stay attached to the nodes they belong to.
+ *
+ * Formatting:
+ * - orders keys canonically: `ubml`, `name`, `kind` and `description`
+ *   first, then the schema's property order, then unknown keys as written
+ * - sorts ID-keyed maps by prefix and number
+ * - removes quotes that are not needed, and uses double quotes otherwise
+ * - normalizes indentation
+ *
+ * @module ubml
+ */
+
+import { parseDocument, isMap, isPair, isScalar, isSeq, Scalar, type YAMLMap } from 'yaml';
+import { documentSchemas, getAllSchemasById } from './generated/bundled.js';
+import {
+  detectDocumentType,
+  detectDocumentTypeFromContent,
+  getIdPrefix,
+  isValidId,
+  parseIdNumber,
+  type DocumentType,
+} from './metadata.js';
+
+/**
+ * Options for formatting.
+ */
+export interface FormatOptions {
+  /** Filename, used to detect the document type (default: detect from content) */
+  filename?: string;
+  /** Indentation spaces (default: 2) */
+  indent?: number;
+  /** Line width before wrapping plain strings (default: 0 = never wrap) */
+  lineWidth?: number;
+}
+
+/** Keys that come first in every map, in this order. */
+const LEADING_KEYS = ['ubml', 'name', 'kind', 'description'];
+
+// =============================================================================
+// Schema Navigation
+// =============================================================================
+
+type SchemaNode = Record<string, unknown>;
+
+/**
+ * Schema nodes that may describe a YAML node, with the schema file each was
+ * found in (to resolve local `#/$defs/...` references).
+ */
+type SchemaScope = { node: SchemaNode; root: SchemaNode }[];
+
+let schemasByFile: Map<string, SchemaNode> | undefined;
+
+function getSchemaByFile(file: string): SchemaNode | undefined {
+  if (!schemasByFile) {
+    schemasByFile = new Map();
+    for (const [id, schema] of getAllSchemasById()) {
+      schemasByFile.set(id.slice(id.lastIndexOf('/') + 1), schema as SchemaNode);
+    }
+  }
+  return schemasByFile.get(file);
+}
+
+function resolveRef(ref: string, root: SchemaNode): { node: SchemaNode; root: SchemaNode } | undefined {
+  const [file, pointer = ''] = ref.split('#');
+  const target = file ? getSchemaByFile(file.slice(file.lastIndexOf('/') + 1)) : root;
+  let node: unknown = target;
+  for (const segment of pointer.split('/').filter(Boolean)) {
+    node = (node as SchemaNode | undefined)?.[segment];
+  }
+  return target && node && typeof node === 'object' ? { node: node as SchemaNode, root: target } : undefined;
+}
+
+/**
+ * Expand references and schema composition into the nodes that apply.
+ */
+function expand(scope: SchemaScope): SchemaScope {
+  const result: SchemaScope = [];
+  const visit = (node: SchemaNode, root: SchemaNode, depth: number): void => {
+    if (depth > 16 || result.some((entry) => entry.node === node)) return;
+    result.push({ node, root });
+    if (typeof node.$ref === 'string') {
+      const resolved = resolveRef(node.$ref, root);
+      if (resolved) visit(resolved.node, resolved.root, depth + 1);
+    }
+    for (const keyword of ['allOf', 'oneOf', 'anyOf']) {
+      const branches = node[keyword];
+      if (Array.isArray(branches)) {
+        for (const branch of branches) visit(branch as SchemaNode, root, depth + 1);
+      }
+    }
+  };
+  for (const { node, root } of scope) visit(node, root, 0);
+  return result;
+}
+
+function propertyOrder(scope: SchemaScope): string[] {
+  const keys: string[] = [];
+  for (const { node } of scope) {
+    for (const key of Object.keys((node.properties as SchemaNode | undefined) ?? {})) {
+      if (!keys.includes(key)) keys.push(key);
+    }
+  }
+  return keys;
+}
+
+function childScope(scope: SchemaScope, key: string): SchemaScope {
+  const result: SchemaScope = [];
+  for (const { node, root } of scope) {
+    const property = (node.properties as SchemaNode | undefined)?.[key];
+    if (property && typeof property === 'object') {
+      result.push({ node: property as SchemaNode, root });
+      continue;
+    }
+    const patterns = (node.patternProperties as SchemaNode | undefined) ?? {};
+    const pattern = Object.keys(patterns).find((p) => new RegExp(p).test(key));
+    if (pattern) {
+      result.push({ node: patterns[pattern] as SchemaNode, root });
+    } else if (node.additionalProperties && typeof node.additionalProperties === 'object') {
+      result.push({ node: node.additionalProperties as SchemaNode, root });
+    }
+  }
+  return expand(result);
+}
+
+function itemScope(scope: SchemaScope): SchemaScope {
+  return expand(
+    scope
+      .filter(({ node }) => node.items && typeof node.items === 'object')
+      .map(({ node, root }) => ({ node: node.items as SchemaNode, root }))
+  );
+}
+
+// =============================================================================
+// Formatting
+// =============================================================================
+
+function keyOf(item: unknown): string | undefined {
+  if (!isPair(item) || !isScalar(item.key)) return undefined;
+  return String(item.key.value);
+}
+
+function compareIds(a: string, b: string): number {
+  const prefixA = getIdPrefix(a) ?? '';
+  const prefixB = getIdPrefix(b) ?? '';
+  if (prefixA !== prefixB) return prefixA < prefixB ? -1 : 1;
+  return (parseIdNumber(a) ?? 0) - (parseIdNumber(b) ?? 0);
+}
+
+/**
+ * Reorder the pairs of a map. Sorting is stable, so keys without a
+ * canonical position keep their written order.
+ */
+function sortMap(map: YAMLMap, scope: SchemaScope, isTopLevel: boolean): void {
+  const keys = map.items.map(keyOf);
+  if (keys.some((key) => key === undefined)) return;
+
+  let compare: (a: string, b: string) => number;
+  if (keys.length > 0 && keys.every((key) => isValidId(key!))) {
+    compare = compareIds;
+  } else {
+    // Maps without declared properties (attribute maps, custom fields) keep their order
+    const properties = propertyOrder(scope);
+    if (properties.length === 0) return;
+    const order = [
+      ...LEADING_KEYS.filter((key) => properties.includes(key)),
+      ...properties.filter((key) => !LEADING_KEYS.includes(key)),
+    ];
+    const rank = (key: string): number => {
+      const index = order.indexOf(key);
+      return index < 0 ? order.length : index;
+    };
+    compare = (a, b) => rank(a) - rank(b);
+  }
+
+  const sorted = [...map.items].sort((a, b) => compare(keyOf(a)!, keyOf(b)!));
+  if (sorted.every((item, index) => item === map.items[index])) return;
+
+  // A comment above the first key is stored on the map; keep it with that key.
+  // At the top level it is the document's header comment and stays in place.
+  if (!isTopLevel && map.commentBefore && !map.flow) {
+    const first = map.items[0].key as Scalar;
+    first.commentBefore = first.commentBefore ? `${map.commentBefore}\n${first.commentBefore}` : map.commentBefore;
+    map.commentBefore = undefined;
+  }
+  map.items = sorted;
+}
+
+/**
+ * Drop quotes from single-line strings; the stringifier adds them back
+ * (as double quotes) where a plain scalar would be read differently.
+ */
+function normalizeScalar(scalar: Scalar): void {
+  if (
+    (scalar.type === Scalar.QUOTE_SINGLE || scalar.type === Scalar.QUOTE_DOUBLE) &&
+    typeof scalar.value === 'string' &&
+    !scalar.value.includes('\n')
+  ) {
+    scalar.type = undefined;
+  }
+}
+
+function formatNode(node: unknown, scope: SchemaScope, isTopLevel = false): void {
+  if (isMap(node)) {
+    sortMap(node, scope, isTopLevel);
+    for (const pair of node.items) {
+      if (isScalar(pair.key)) normalizeScalar(pair.key);
+      formatNode(pair.value, isScalar(pair.key) ? childScope(scope, String(pair.key.value)) : []);
+    }
+  } else if (isSeq(node)) {
+    const items = itemScope(scope);
+    for (const item of node.items) formatNode(item, items);
+  } else if (isScalar(node)) {
+    normalizeScalar(node);
+  }
+}
+
+/**
+ * Format UBML YAML text canonically, keeping comments.
+ *
+ * @param source - YAML text
+ * @param options - Format options
+ * @returns The formatted text
+ * @throws When the text is not valid YAML
+ *
+ * @example
+ * ```typescript
+ * import { format } from 'ubml';
+ *
+ * const formatted = format(yaml, { filename: 'claims.process.ubml.yaml' });
+ * if (formatted !== yaml) console.log('Needs formatting');
+ * ```
+ */
+export function format(source: string, options: FormatOptions = {}): string {
+  const doc = parseDocument(source);
+  if (doc.errors.length > 0) {
+    throw new Error(`Cannot format invalid YAML: ${doc.errors[0].message}`);
+  }
+
+  const type: DocumentType | undefined =
+    (options.filename ? detectDocumentType(options.filename) : undefined) ??
+    detectDocumentTypeFromContent(doc.toJS());
+  const schema = type ? (documentSchemas[type] as SchemaNode) : undefined;
+
+  formatNode(doc.contents, schema ? expand([{ node: schema, root: schema }]) : [], true);
+
+  return doc.toString({
+    indent: options.indent ?? 2,
+    lineWidth: options.lineWidth ?? 0,
+    minContentWidth: 0,
+  });
+}
@@ -0,0 +1,736 @@
+/**
+ * BPMN 2.0 Importer (Browser-Safe)
+ *
+ * Reads BPMN 2.0 XML and produces a UBML process document. This is the
+ * reverse of the projection in ../export/bpmn.ts: tasks become actions,
+ * exclusive split gateways become decisions, parallel fork/join pairs become
+ * `par` blocks, call activities become `calls`, and lanes become actor
+ * references. Elements without a UBML equivalent are reported as warnings.
+ *
+ * @module ubml/import/bpmn
+ */
+
+import type { Actor, Block, Link, Process, ProcessDocument, Step } from '../generated/types.js';
+import { SCHEMA_VERSION } from '../constants.js';
+import { ID_CONFIG, formatId, isValidId, type IdPrefix } from '../metadata.js';
+import { childElements, localName, parseXml, textContent, type XmlElement } from '../utils/xml.js';
+
+// =============================================================================
+// Public Types
+// =============================================================================
+
+/**
+ * Allocates fresh IDs for imported elements.
+ * Matches the signature of `getNextAvailableIds` from 'ubml/node' bound to a workspace.
+ */
+export type IdAllocator = (requests: { prefix: IdPrefix; count: number }[]) => Map<IdPrefix, string[]>;
+
+/**
+ * Options for BPMN import.
+ */
+export interface BpmnImportOptions {
+  /** Import only the BPMN process with this ID (default: all processes) */
+  processId?: string;
+  /** Existing actors, matched against lane names (case-insensitive) */
+  actors?: Record<string, Actor>;
+  /** ID allocator (default: sequential IDs from the `ubml add` range, in steps of 10) */
+  allocateIds?: IdAllocator;
+}
+
+/**
+ * A BPMN element that could not be imported faithfully.
+ */
+export interface BpmnImportWarning {
+  /** BPMN element type (local name, e.g., 'dataObject') */
+  element: string;
+  /** BPMN element ID, if any */
+  bpmnId?: string;
+  /** Human-readable explanation */
+  message: string;
+}
+
+/**
+ * Result of a BPMN import.
+ */
+export interface BpmnImportResult {
+  /** The generated process document */
+  document: ProcessDocument;
+  /** Placeholder actors created for lanes without a matching actor */
+  actors: Record<string, Actor>;
+  /** Mapping from BPMN element IDs to UBML IDs */
+  idMap: Record<string, string>;
+  /** Elements that were dropped or imported with reduced fidelity */
+  warnings: BpmnImportWarning[];
+}
+
+// =============================================================================
+// Intermediate Model
+// =============================================================================
+
+type GatewayKind = 'exclusive' | 'parallel' | 'inclusive' | 'eventBased' | 'complex';
+
+interface ImportedNode {
+  bpmnId: string;
+  element: string;
+  name: string;
+  kind: Step['kind'];
+  description?: string;
+  gateway?: GatewayKind;
+  defaultFlow?: string;
+  calledElement?: string;
+  duration?: string;
+  trigger?: Step['trigger'];
+  loop?: Step['loop'];
+  lane?: string;
+  children?: ImportedNode[];
+}
+
+interface ImportedFlow {
+  bpmnId: string;
+  source: string;
+  target: string;
+  name?: string;
+  condition?: string;
+}
+
+interface ImportedBlock {
+  split: string;
+  join: string;
+  name: string;
+  members: string[];
+}
+
+interface ImportedProcess {
+  bpmnId: string;
+  name: string;
+  description?: string;
+  nodes: Map<string, ImportedNode>;
+  flows: ImportedFlow[];
+  blocks: ImportedBlock[];
+}
+
+const TASK_ELEMENTS = new Set([
+  'task',
+  'userTask',
+  'manualTask',
+  'serviceTask',
+  'scriptTask',
+  'sendTask',
+  'receiveTask',
+  'businessRuleTask',
+]);
+
+const GATEWAY_ELEMENTS: Record<string, GatewayKind> = {
+  exclusiveGateway: 'exclusive',
+  parallelGateway: 'parallel',
+  inclusiveGateway: 'inclusive',
+  eventBasedGateway: 'eventBased',
+  complexGateway: 'complex',
+};
+
+/** Process children that are handled separately or carry no modeling content */
+const STRUCTURAL_ELEMENTS = new Set([
+  'laneSet',
+  'sequenceFlow',
+  'documentation',
+  'extensionElements',
+]);
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+/**
+ * Read a string attribute.
+ */
+function attr(element: XmlElement, name: string): string | undefined {
+  const value = element.attributes?.[name];
+  return value === undefined ? undefined : String(value);
+}
+
+/**
+ * Get the documentation text of an element.
+ */
+function documentation(element: XmlElement): string | undefined {
+  const text = childElements(element, 'documentation').map(textContent).join('\n').trim();
+  return text || undefined;
+}
+
+/**
+ * Get the event definition elements of an event.
+ */
+function eventDefinitions(element: XmlElement): XmlElement[] {
+  return childElements(element).filter((child) => localName(child.name).endsWith('EventDefinition'));
+}
+
+/**
+ * Convert an ISO 8601 duration (e.g., "PT2H", "P3D") to a UBML duration (e.g., "2h", "3d").
+ * Returns undefined for combined durations that have no single-unit equivalent.
+ */
+function fromIsoDuration(iso: string): string | undefined {
+  const match = iso.trim().match(/^P(?:([0-9.]+)Y)?(?:([0-9.]+)M)?(?:([0-9.]+)W)?(?:([0-9.]+)D)?(?:T(?:([0-9.]+)H)?(?:([0-9.]+)M)?(?:([0-9.]+)S)?)?$/);
+  if (!match) return undefined;
+  const [, years, months, weeks, days, hours, minutes, seconds] = match;
+  const parts: [string | undefined, string][] = [
+    [years, 'y'], [months, 'mo'], [weeks, 'wk'], [days, 'd'], [hours, 'h'], [minutes, 'min'], [seconds, 's'],
+  ];
+  const present = parts.filter(([value]) => value !== undefined);
+  if (present.length !== 1) return undefined;
+  const [value, unit] = present[0];
+  if (unit === 'y') return `${Number(value) * 12}mo`;
+  if (unit === 's') return undefined;
+  return `${value}${unit}`;
+}
+
+/**
+ * Default allocator: sequential IDs from the `ubml add` range, in steps of 10.
+ */
+function defaultAllocator(requests: { prefix: IdPrefix; count: number }[]): Map<IdPrefix, string[]> {
+  const result = new Map<IdPrefix, string[]>();
+  for (const { prefix, count } of requests) {
+    result.set(prefix, Array.from({ length: count }, (_, i) => formatId(prefix, ID_CONFIG.addOffset + i * 10)));
+  }
+  return result;
+}
+
+// =============================================================================
+// Reading
+// =============================================================================
+
+/**
+ * Read a flow node into the intermediate model.
+ * Returns undefined for elements that are not flow nodes.
+ */
+function readFlowNode(element: XmlElement, warnings: BpmnImportWarning[]): ImportedNode | undefined {
+  const type = localName(element.name);
+  const bpmnId = attr(element, 'id') ?? '';
+  const node: ImportedNode = {
+    bpmnId,
+    element: type,
+    name: attr(element, 'name')?.trim() || bpmnId,
+    kind: 'action',
+    description: documentation(element),
+  };
+  const definitions = eventDefinitions(element);
+  const definitionType = definitions[0] ? localName(definitions[0].name).replace(/EventDefinition$/, '') : undefined;
+
+  if (TASK_ELEMENTS.has(type)) {
+    node.kind = 'action';
+  } else if (type === 'callActivity') {
+    node.kind = 'subprocess';
+    node.calledElement = attr(element, 'calledElement');
+  } else if (type === 'subProcess' || type === 'adHocSubProcess' || type === 'transaction') {
+    node.kind = 'subprocess';
+    if (type !== 'subProcess') {
+      warnings.push({ element: type, bpmnId, message: `${type} imported as a plain subprocess` });
+    }
+    node.children = [];
+    for (const child of childElements(element)) {
+      const childNode = readFlowNode(child, warnings);
+      if (childNode) node.children.push(childNode);
+    }
+    if (childElements(element, 'sequenceFlow').length > 0) {
+      warnings.push({
+        element: type,
+        bpmnId,
+        message: 'Sequence flows inside the subprocess were not imported (inline steps have no links)',
+      });
+    }
+  } else if (GATEWAY_ELEMENTS[type]) {
+    node.kind = 'decision';
+    node.gateway = GATEWAY_ELEMENTS[type];
+    node.defaultFlow = attr(element, 'default');
+  } else if (type === 'startEvent') {
+    node.kind = 'start';
+    if (definitionType === 'timer') {
+      node.trigger = { type: 'scheduled' };
+    } else if (definitionType) {
+      node.trigger = { type: 'event' };
+    }
+  } else if (type === 'endEvent') {
+    node.kind = 'end';
+    if (definitionType) {
+      warnings.push({ element: type, bpmnId, message: `${definitionType} end event imported as a plain end step` });
+    }
+  } else if (type === 'intermediateCatchEvent') {
+    node.kind = 'wait';
+    if (definitionType === 'timer') {
+      const timeDuration = childElements(definitions[0], 'timeDuration')[0];
+      if (timeDuration) {
+        const iso = textContent(timeDuration);
+        node.duration = fromIsoDuration(iso);
+        if (!node.duration) {
+          warnings.push({ element: type, bpmnId, message: `Timer duration "${iso.trim()}" has no UBML equivalent` });
+        }
+      } else {
+        node.trigger = { type: 'scheduled' };
+      }
+    } else if (definitionType) {
+      node.trigger = { type: 'event' };
+    }
+  } else if (type === 'intermediateThrowEvent') {
+    node.kind = 'milestone';
+    if (definitionType) {
+      warnings.push({ element: type, bpmnId, message: `${definitionType} throw event imported as a milestone` });
+    }
+  } else {
+    return undefined;
+  }
+
+  // Loop markers
+  const standardLoop = childElements(element, 'standardLoopCharacteristics')[0];
+  const multiInstance = childElements(element, 'multiInstanceLoopCharacteristics')[0];
+  if (standardLoop) {
+    const maximum = attr(standardLoop, 'loopMaximum');
+    node.loop = { kind: 'repeat', ...(maximum ? { max: Number(maximum) } : {}) };
+  } else if (multiInstance) {
+    node.loop = { kind: 'forEach' };
+  }
+
+  return node;
+}
+
+/**
+ * Assign lane names to nodes (nested lanes override their parents).
+ */
+function readLanes(laneSet: XmlElement, nodes: Map<string, ImportedNode>): void {
+  for (const lane of childElements(laneSet, 'lane')) {
+    const name = attr(lane, 'name')?.trim();
+    if (name) {
+      for (const ref of childElements(lane, 'flowNodeRef')) {
+        const node = nodes.get(textContent(ref).trim());
+        if (node) node.lane = name;
+      }
+    }
+    for (const child of childElements(lane, 'childLaneSet')) {
+      readLanes(child, nodes);
+    }
+  }
+}
+
+/**
+ * Read a bpmn:process element.
+ */
+function readProcess(element: XmlElement, name: string | undefined, warnings: BpmnImportWarning[]): ImportedProcess {
+  const bpmnId = attr(element, 'id') ?? '';
+  const process: ImportedProcess = {
+    bpmnId,
+    name: name ?? attr(element, 'name')?.trim() ?? bpmnId,
+    description: documentation(element),
+    nodes: new Map(),
+    flows: [],
+    blocks: [],
+  };
+
+  for (const child of childElements(element)) {
+    const type = localName(child.name);
+    if (STRUCTURAL_ELEMENTS.has(type)) continue;
+
+    if (type === 'boundaryEvent') {
+      warnings.push({
+        element: type,
+        bpmnId: attr(child, 'id'),
+        message: `Boundary event on ${attr(child, 'attachedToRef')} not imported (model exception paths as links or async calls)`,
+      });
+      continue;
+    }
+
+    const node = readFlowNode(child, warnings);
+    if (node) {
+      process.nodes.set(node.bpmnId, node);
+    } else {
+      warnings.push({ element: type, bpmnId: attr(child, 'id'), message: `Unsupported element ${type} not imported` });
+    }
+  }
+
+  for (const flow of childElements(element, 'sequenceFlow')) {
+    const source = attr(flow, 'sourceRef') ?? '';
+    const target = attr(flow, 'targetRef') ?? '';
+    if (!process.nodes.has(source) || !process.nodes.has(target)) {
+      warnings.push({
+        element: 'sequenceFlow',
+        bpmnId: attr(flow, 'id'),
+        message: `Sequence flow ${source} → ${target} connects elements that were not imported`,
+      });
+      continue;
+    }
+    const condition = childElements(flow, 'conditionExpression')[0];
+    process.flows.push({
+      bpmnId: attr(flow, 'id') ?? `${source}_${target}`,
+      source,
+      target,
+      name: attr(flow, 'name')?.trim() || undefined,
+      condition: condition ? textContent(condition).trim() || undefined : undefined,
+    });
+  }
+
+  for (const laneSet of childElements(element, 'laneSet')) {
+    readLanes(laneSet, process.nodes);
+  }
+
+  return process;
+}
+
+// =============================================================================
+// Gateway Reduction
+// =============================================================================
+
+/**
+ * Remove a gateway, connecting each predecessor directly to each successor.
+ */
+function bypass(process: ImportedProcess, nodeId: string): void {
+  const incoming = process.flows.filter((flow) => flow.target === nodeId);
+  const outgoing = process.flows.filter((flow) => flow.source === nodeId);
+  process.flows = process.flows.filter((flow) => flow.source !== nodeId && flow.target !== nodeId);
+  for (const before of incoming) {
+    for (const after of outgoing) {
+      process.flows.push({
+        bpmnId: after.bpmnId === before.bpmnId ? before.bpmnId : `${before.bpmnId}+${after.bpmnId}`,
+        source: before.source,
+        target: after.target,
+        name: before.name ?? after.name,
+        condition: before.condition ?? after.condition,
+      });
+    }
+  }
+  process.nodes.delete(nodeId);
+}
+
+/**
+ * Find the join gateway matching a parallel split and the nodes between them.
+ */
+function findParallelJoin(process: ImportedProcess, splitId: string): { join: string; members: string[] } | undefined {
+  const successors = (id: string) => process.flows.filter((flow) => flow.source === id).map((flow) => flow.target);
+  const isJoin = (id: string) => {
+    const node = process.nodes.get(id);
+    return node?.gateway === 'parallel' && process.flows.filter((flow) => flow.target === id).length > 1;
+  };
+
+  // Joins reachable from each branch, in breadth-first order
+  const branchJoins = successors(splitId).map((head) => {
+    const seen = new Set<string>([head]);
+    const queue = [head];
+    const joins: string[] = [];
+    while (queue.length > 0) {
+      const current = queue.shift()!;
+      if (isJoin(current)) joins.push(current);
+      for (const next of successors(current)) {
+        if (next !== splitId && !seen.has(next)) {
+          seen.add(next);
+          queue.push(next);
+        }
+      }
+    }
+    return joins;
+  });
+
+  const join = branchJoins[0]?.find((candidate) => branchJoins.every((joins) => joins.includes(candidate)));
+  if (!join) return undefined;
+
+  // Members: everything between split and join
+  const members: string[] = [];
+  const seen = new Set<string>([splitId, join]);
+  const queue = successors(splitId).filter((id) => id !== join);
+  queue.forEach((id) => seen.add(id));
+  while (queue.length > 0) {
+    const current = queue.shift()!;
+    members.push(current);
+    for (const next of successors(current)) {
+      if (!seen.has(next)) {
+        seen.add(next);
+        queue.push(next);
+      }
+    }
+  }
+  return { join, members };
+}
+
+/**
+ * Reduce gateways to UBML constructs.
+ *
+ * - Parallel fork/join pairs become `par` blocks
+ * - Exclusive splits stay as decisions; pure merges and pass-throughs are removed
+ * - Inclusive, event-based and complex gateways become decisions with a warning
+ */
+function reduceGateways(process: ImportedProcess, warnings: BpmnImportWarning[]): void {
+  const incomingCount = (id: string) => process.flows.filter((flow) => flow.target === id).length;
+  const outgoingCount = (id: string) => process.flows.filter((flow) => flow.source === id).length;
+  const gateways = [...process.nodes.values()].filter((node) => node.gateway);
+
+  // Parallel blocks (detected before any gateway is removed)
+  const parallel = gateways.filter((node) => node.gateway === 'parallel');
+  const matchedJoins = new Set<string>();
+  for (const split of parallel.filter((node) => outgoingCount(node.bpmnId) > 1)) {
+    const found = findParallelJoin(process, split.bpmnId);
+    if (!found) {
+      warnings.push({
+        element: split.element,
+        bpmnId: split.bpmnId,
+        message: 'Parallel split without a matching join imported as plain links',
+      });
+      continue;
+    }
+    matchedJoins.add(found.join);
+    process.blocks.push({
+      split: split.bpmnId,
+      join: found.join,
+      name: split.name !== split.bpmnId ? split.name : 'Parallel',
+      members: found.members,
+    });
+  }
+  for (const join of parallel.filter((node) => incomingCount(node.bpmnId) > 1 && !matchedJoins.has(node.bpmnId))) {
+    if (!process.blocks.some((block) => block.split === join.bpmnId)) {
+      warnings.push({
+        element: join.element,
+        bpmnId: join.bpmnId,
+        message: 'Parallel join without a matching split imported as plain links',
+      });
+    }
+  }
+  for (const gateway of parallel) {
+    bypass(process, gateway.bpmnId);
+  }
+
+  // Non-parallel gateways: keep splits as decisions, remove merges
+  for (const gateway of gateways.filter((node) => node.gateway !== 'parallel')) {
+    if (outgoingCount(gateway.bpmnId) > 1) {
+      if (gateway.gateway !== 'exclusive') {
+        warnings.push({
+          element: gateway.element,
+          bpmnId: gateway.bpmnId,
+          message: `${gateway.gateway} gateway imported as an exclusive decision`,
+        });
+      }
+      continue;
+    }
+    bypass(process, gateway.bpmnId);
+  }
+
+  // Blocks only keep members that are still steps
+  for (const block of process.blocks) {
+    block.members = block.members.filter((id) => process.nodes.has(id));
+  }
+}
+
+// =============================================================================
+// Public API
+// =============================================================================
+
+/**
+ * Import BPMN 2.0 XML as a UBML process document.
+ *
+ * Each `bpmn:process` with flow elements becomes a UBML process. Lanes are
+ * mapped to actors by name; lanes without a matching actor produce
+ * placeholder actors in the result, referenced through `RACI.responsible`.
+ *
+ * @param xml - BPMN 2.0 XML source
+ * @param options - Import options
+ * @throws Error if the XML is not well-formed or contains no BPMN definitions
+ *
+ * @example
+ * ```typescript
+ * import { fromBpmn, serialize } from 'ubml';
+ *
+ * const { document, actors, warnings } = fromBpmn(xml);
+ * const yaml = serialize(document);
+ * ```
+ */
+export function fromBpmn(xml: string, options: BpmnImportOptions = {}): BpmnImportResult {
+  const definitions = parseXml(xml);
+  if (localName(definitions.name) !== 'definitions') {
+    throw new Error(`Not a BPMN document: root element is <${definitions.name}>`);
+  }
+
+  const warnings: BpmnImportWarning[] = [];
+  const allocateIds = options.allocateIds ?? defaultAllocator;
+
+  // Pool names take precedence over process names
+  const participantNames = new Map<string, string>();
+  for (const collaboration of childElements(definitions, 'collaboration')) {
+    for (const participant of childElements(collaboration, 'participant')) {
+      const processRef = attr(participant, 'processRef');
+      const name = attr(participant, 'name')?.trim();
+      if (processRef && name) participantNames.set(processRef, name);
+    }
+    for (const child of childElements(collaboration)) {
+      const type = localName(child.name);
+      if (type !== 'participant' && !STRUCTURAL_ELEMENTS.has(type)) {
+        warnings.push({ element: type, bpmnId: attr(child, 'id'), message: `Unsupported element ${type} not imported` });
+      }
+    }
+  }
+
+  const processElements = childElements(definitions, 'process')
+    .filter((element) => !options.processId || attr(element, 'id') === options.processId);
+  if (options.processId && processElements.length === 0) {
+    throw new Error(`Process ${options.processId} not found in BPMN document`);
+  }
+
+  const processes: ImportedProcess[] = [];
+  for (const element of processElements) {
+    const process = readProcess(element, participantNames.get(attr(element, 'id') ?? ''), warnings);
+    if (process.nodes.size === 0) {
+      warnings.push({ element: 'process', bpmnId: process.bpmnId, message: 'Process has no flow elements and was skipped' });
+      continue;
+    }
+    reduceGateways(process, warnings);
+    processes.push(process);
+  }
+  if (processes.length === 0) {
+    throw new Error('BPMN document contains no importable processes');
+  }
+
+  // Match lanes to existing actors; collect lanes needing placeholders
+  const actorsByName = new Map<string, string>();
+  for (const [id, actor] of Object.entries(options.actors ?? {})) {
+    actorsByName.set(actor.name.trim().toLowerCase(), id);
+  }
+  const newLanes: string[] = [];
+  const countSteps = (nodes: Iterable<ImportedNode>): number => {
+    let count = 0;
+    for (const node of nodes) {
+      count += 1 + countSteps(node.children ?? []);
+      if (node.lane && !actorsByName.has(node.lane.toLowerCase()) && !newLanes.includes(node.lane)) {
+        newLanes.push(node.lane);
+      }
+    }
+    return count;
+  };
+  const stepCount = processes.reduce((sum, process) => sum + countSteps(process.nodes.values()), 0);
+
+  // Allocate all IDs in one batch
+  const allocated = allocateIds([
+    { prefix: 'PR', count: processes.length },
+    { prefix: 'ST', count: stepCount },
+    { prefix: 'BK', count: processes.reduce((sum, process) => sum + process.blocks.length, 0) },
+    { prefix: 'AC', count: newLanes.length },
+  ]);
+  const take = (prefix: IdPrefix): string => {
+    const id = allocated.get(prefix)?.shift();
+    if (!id) throw new Error(`ID allocator returned too few ${prefix} IDs`);
+    return id;
+  };
+
+  const actors: Record<string, Actor> = {};
+  for (const lane of newLanes) {
+    const id = take('AC');
+    actors[id] = {
+      name: lane,
+      type: 'role',
+      kind: 'human',
+      description: `Placeholder created from BPMN lane "${lane}"`,
+    };
+    actorsByName.set(lane.toLowerCase(), id);
+  }
+
+  const idMap: Record<string, string> = {};
+  for (const process of processes) {
+    idMap[process.bpmnId] = take('PR');
+  }
+
+  const buildStep = (node: ImportedNode): Step => {
+    const step: Step = { name: node.name, kind: node.kind };
+    if (node.description) step.description = node.description;
+    if (node.duration) step.duration = node.duration;
+    if (node.trigger) step.trigger = node.trigger;
+    if (node.loop) step.loop = node.loop;
+    if (node.lane) step.RACI = { responsible: [actorsByName.get(node.lane.toLowerCase())!] };
+    if (node.calledElement) {
+      const called = idMap[node.calledElement]
+        ?? (isValidId(node.calledElement) && node.calledElement.startsWith('PR') ? node.calledElement : undefined);
+      if (called) {
+        step.calls = [{ process: called }];
+      } else {
+        warnings.push({
+          element: node.element,
+          bpmnId: node.bpmnId,
+          message: `Called element "${node.calledElement}" is not a process in this file; call not imported`,
+        });
+      }
+    }
+    if (node.children && node.children.length > 0) {
+      const children: Record<string, Step> = {};
+      for (const child of node.children) {
+        const childId = take('ST');
+        idMap[child.bpmnId] = childId;
+        children[childId] = buildStep(child);
+      }
+      step.steps = children;
+    }
+    return step;
+  };
+
+  const content: Record<string, Process> = {};
+  for (const process of processes) {
+    const steps: Record<string, Step> = {};
+    for (const node of process.nodes.values()) {
+      const stepId = take('ST');
+      idMap[node.bpmnId] = stepId;
+      steps[stepId] = buildStep(node);
+    }
+
+    // Bypassed gateways reorder flows; emit links in step order instead
+    const order = [...process.nodes.keys()];
+    const flows = [...process.flows].sort((a, b) =>
+      order.indexOf(a.source) - order.indexOf(b.source) || order.indexOf(a.target) - order.indexOf(b.target)
+    );
+
+    const defaults = new Set([...process.nodes.values()].map((node) => node.defaultFlow).filter(Boolean));
+    const defaultSources = new Set<string>();
+    const links: Link[] = [];
+    for (const flow of flows) {
+      const link: Link = { from: idMap[flow.source], to: idMap[flow.target] };
+      if (flow.condition) link.condition = flow.condition;
+      if (flow.bpmnId.split('+').some((id) => defaults.has(id)) && !defaultSources.has(flow.source)) {
+        link.isDefault = true;
+        defaultSources.add(flow.source);
+      }
+      if (flow.name) link.label = flow.name;
+      if (!links.some((existing) => existing.from === link.from && existing.to === link.to && existing.condition === link.condition)) {
+        links.push(link);
+      }
+    }
+
+    const blocks: Record<string, Block> = {};
+    const blockIds = new Map<string, string>();
+    for (const block of process.blocks) {
+      blockIds.set(block.split, take('BK'));
+    }
+    for (const block of process.blocks) {
+      // Nested blocks are referenced by ID instead of repeating their steps
+      const nested = process.blocks.filter((other) =>
+        other !== block && block.members.includes(other.members[0]) && other.members.every((id) => block.members.includes(id))
+      );
+      const nestedMembers = new Set(nested.flatMap((other) => other.members));
+      const direct = nested.filter((other) => !nested.some((outer) =>
+        outer !== other && other.members.every((id) => outer.members.includes(id)) && outer.members.length > other.members.length
+      ));
+      blocks[blockIds.get(block.split)!] = {
+        name: block.name,
+        operator: 'par',
+        steps: [
+          ...block.members.filter((id) => !nestedMembers.has(id)).map((id) => idMap[id]),
+          ...direct.map((other) => blockIds.get(other.split)!),
+        ],
+      };
+    }
+
+    const processId = idMap[process.bpmnId];
+    content[processId] = {
+      name: process.name,
+      ...(process.description ? { description: process.description } : {}),
+      steps,
+      ...(links.length > 0 ? { links } : {}),
+      ...(Object.keys(blocks).length > 0 ? { blocks } : {}),
+    };
+  }
+
+  const documentName = attr(definitions, 'name')?.trim();
+  const document = {
+    ubml: SCHEMA_VERSION,
+    ...(documentName ? { name: documentName } : {}),
+    processes: content,
+  } as ProcessDocument;
+
+  return { document, actors, idMap, warnings };
+}
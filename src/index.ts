@@ -84,6 +84,181 @@ export {
   type WorkspaceValidationResult as WorkspaceStructureResult,
 } from './semantic-validator.js';
 
+// ============================================================================
+// WORKSPACE MODEL (Browser-Safe)
+// ============================================================================
+
+export {
+  loadWorkspace,
+  type Workspace,
+  type WorkspaceElement,
+  type WorkspaceReference,
+  type ElementBase,
+  type ElementOfType,
+  type ProcessElement,
+  type StepElement,
+  type ActorElement,
+  type EntityElement,
+} from './workspace.js';
+
+// ============================================================================
+// EXPRESSIONS (Browser-Safe)
+// ============================================================================
+
+export {
+  parseExpression,
+  type ExpressionNode,
+  type ExpressionSpan,
+  type ExpressionError,
+  type ExpressionParseResult,
+  type LiteralNode,
+  type IdentifierNode,
+  type MemberNode,
+  type UnaryNode,
+  type BinaryNode,
+  type LogicalNode,
+  type ConditionalNode,
+  type CallNode,
+  type BinaryOperator,
+  type LogicalOperator,
+  type UnaryOperator,
+} from './expression/parser.js';
+
+export {
+  evaluateExpression,
+  type EvaluateOptions,
+  type ExpressionScope,
+  type ExpressionValue,
+} from './expression/evaluator.js';
+
+export {
+  checkExpression,
+  type AttributeDeclaration,
+  type CheckExpressionOptions,
+  type ExpressionCheckResult,
+  type ExpressionDiagnostic,
+  type ExpressionType,
+} from './expression/checker.js';
+
+export {
+  DURATION_UNIT_HOURS,
+  formatHours,
+  parseDuration,
+  workingHoursBetween,
+  type DurationUnit,
+} from './utils/duration.js';
+
+// ============================================================================
+// ANALYSIS (Browser-Safe)
+// ============================================================================
+
+export {
+  calculateRoi,
+  compareRoiResults,
+  type RoiCalculation,
+  type RoiDiscrepancy,
+  type RoiPeriod,
+  type RoiResults,
+} from './analysis/roi.js';
+
+export {
+  calculateProcessCost,
+  type ContingentCall,
+  type CostOptions,
+  type ProcessCost,
+  type StepCost,
+} from './analysis/cost.js';
+
+export {
+  checkProcessGraph,
+  type ProcessGraphDiagnostic,
+} from './analysis/process-graph.js';
+
+export {
+  schedule,
+  type DependencyType,
+  type ScheduleConstraint,
+  type ScheduleOptions,
+  type ScheduleResult,
+  type ScheduledStep,
+} from './analysis/schedule.js';
+
+export {
+  diffWorkspaces,
+  type DiffDocument,
+  type DiffSummaryEntry,
+  type ElementChange,
+  type PropertyChange,
+  type WorkspaceDiff,
+} from './analysis/diff.js';
+
+// ============================================================================
+// SIMULATION (Browser-Safe)
+// ============================================================================
+
+export {
+  simulate,
+  type CycleTimeStatistics,
+  type ResourceStatistics,
+  type SimulationOptions,
+  type SimulationResult,
+} from './simulation/engine.js';
+
+export {
+  createRandom,
+  type RandomSource,
+} from './simulation/random.js';
+
+// ============================================================================
+// MINING (Browser-Safe)
+// ============================================================================
+
+export {
+  getTraces,
+  groupCases,
+  mapActivity,
+  mapResource,
+  parseCsvEventLog,
+  parseEventLog,
+  parseTimestamp,
+  parseXesEventLog,
+  profileEventLog,
+  type ActivityInstance,
+  type EventLog,
+  type EventLogEvent,
+  type EventLogProfile,
+  type Trace,
+} from './mining/event-log.js';
+
+export {
+  buildDirectlyFollowsGraph,
+  discoverProcess,
+  type DirectlyFollowsActivity,
+  type DirectlyFollowsEdge,
+  type DirectlyFollowsGraph,
+  type DiscoveredProcess,
+  type DiscoverProcessOptions,
+  type DiscoveryOptions,
+} from './mining/discovery.js';
+
+export {
+  checkConformance,
+  formatConformanceCsv,
+  type CaseConformance,
+  type ConformanceDeviation,
+  type ConformanceResult,
+  type DeviationSummary,
+  type DeviationType,
+} from './mining/conformance.js';
+
+export {
+  computeEvidence,
+  type ComputeEvidenceOptions,
+  type DurationStatistics,
+  type MinedEvidence,
+  type StepEvidence,
+} from './mining/evidence.js';
+
 // ============================================================================
 // SERIALIZER (Browser-Safe)
 // ============================================================================
@@ -93,6 +268,107 @@ export {
   type SerializeOptions,
 } from './serializer.js';
 
+export {
+  format,
+  type FormatOptions,
+} from './formatter.js';
+
+// ============================================================================
+// EDITING (Browser-Safe)
+// ============================================================================
+
+export {
+  editDocument,
+  type EditDocumentOptions,
+  type DocumentEditor,
+  type DocumentEditResult,
+} from './editor.js';
+
+// ============================================================================
+// MIGRATION (Browser-Safe)
+// ============================================================================
+
+export {
+  migrateDocument,
+  MIGRATABLE_VERSIONS,
+  type MigrateOptions,
+  type MigrationChange,
+  type MigrationResult,
+} from './migrate.js';
+
+// ============================================================================
+// EXPORT (Browser-Safe)
+// ============================================================================
+
+export {
+  toBpmn,
+  type BpmnExportOptions,
+  type BpmnExportResult,
+  type BpmnLoss,
+} from './export/bpmn.js';
+
+export {
+  toMermaid,
+  toDot,
+  type DiagramOptions,
+} from './export/diagram.js';
+
+export {
+  toSequenceDiagram,
+  type SequenceDiagramOptions,
+} from './export/sequence.js';
+
+export {
+  toArchimate,
+  type ArchimateExportOptions,
+} from './export/archimate.js';
+
+export {
+  toGantt,
+} from './export/gantt.js';
+
+export {
+  toDiffMarkdown,
+  type DiffMarkdownOptions,
+} from './export/diff.js';
+
+// ============================================================================
+// IMPORT (Browser-Safe)
+// ============================================================================
+
+export {
+  fromBpmn,
+  type BpmnImportOptions,
+  type BpmnImportResult,
+  type BpmnImportWarning,
+  type IdAllocator,
+} from './import/bpmn.js';
+
+// ============================================================================
+// REFACTORING (Browser-Safe)
+// ============================================================================
+
+export {
+  findIdSpans,
+  replaceIds,
+  planRename,
+  planRenumber,
+  applyRenames,
+  type IdRename,
+  type IdSpan,
+  type RefactorChange,
+  type RefactorFile,
+  type RenameOptions,
+  type RenumberOptions,
+} from './refactor/rename.js';
+
+export {
+  mergeDocuments,
+  type MergeConflict,
+  type MergeOptions,
+  type MergeResult,
+} from './refactor/merge.js';
+
 // ============================================================================
 // SCHEMAS (Browser-Safe)
 // ============================================================================
@@ -147,7 +423,10 @@ export {
   SCHEMA_PATHS,
   // Reference field validation
   REFERENCE_FIELDS,
+  REFERENCE_FIELD_TARGETS,
+  CONTAINER_DEFINITIONS,
   isReferenceField,
+  getReferenceTargets,
 } from './metadata.js';
 
 // ============================================================================
@@ -0,0 +1,412 @@
+/**
+ * UBML Language Service
+ *
+ * Editor features over the text of UBML documents, independent of the
+ * transport: hover, ID completion, go-to-definition, find-all-references
+ * and quick fixes. The language server feeds it the open documents and the
+ * rest of the workspace.
+ *
+ * - Hover shows schema descriptions for properties and sections, and the
+ *   definition of IDs.
+ * - Completion offers workspace IDs in reference fields, filtered to the
+ *   element types the field accepts.
+ * - Definitions are ID keys; references are ID values.
+ * - Quick fixes come from the `x-ubml` `valueMistakes` hints of enums.
+ *
+ * @module ubml/lsp/language-service
+ */
+
+import { parseDocument, isMap, isScalar, isSeq, type Node } from 'yaml';
+import {
+  ENUM_HINTS,
+  detectDocumentType,
+  getElementTypeFromId,
+  getIdPrefix,
+  getReferenceTargets,
+  isReferenceField,
+  isValidId,
+} from '../metadata.js';
+import { getDocumentTypeInfo, getElementTypeInfo } from '../schema/introspection.js';
+import {
+  CompletionItemKind,
+  type CodeAction,
+  type CompletionItem,
+  type Diagnostic,
+  type Hover,
+  type Location,
+  type Position,
+  type Range,
+} from './protocol.js';
+
+// =============================================================================
+// Public Types
+// =============================================================================
+
+/**
+ * A document known to the language service.
+ */
+export interface WorkspaceFile {
+  /** Document URI (e.g., 'file:///work/claims.process.ubml.yaml') */
+  uri: string;
+  /** Current text, including unsaved edits */
+  text: string;
+}
+
+/**
+ * An ID defined (as a key) or referenced (as a value) in a document.
+ */
+export interface IdOccurrence {
+  id: string;
+  definition: boolean;
+  path: (string | number)[];
+  range: Range;
+  /** Content of the defined element (definitions only) */
+  element?: Record<string, unknown>;
+}
+
+// =============================================================================
+// Positions
+// =============================================================================
+
+/**
+ * Convert a character offset to a line/character position.
+ */
+export function positionAt(text: string, offset: number): Position {
+  const before = text.slice(0, offset);
+  const line = before.split('\n').length - 1;
+  return { line, character: offset - (before.lastIndexOf('\n') + 1) };
+}
+
+function rangeOf(text: string, start: number, end: number): Range {
+  return { start: positionAt(text, start), end: positionAt(text, end) };
+}
+
+function contains(range: Range, position: Position): boolean {
+  const after = position.line > range.start.line || (position.line === range.start.line && position.character >= range.start.character);
+  const before = position.line < range.end.line || (position.line === range.end.line && position.character <= range.end.character);
+  return after && before;
+}
+
+// =============================================================================
+// YAML Structure
+// =============================================================================
+
+interface ScalarAtPosition {
+  path: (string | number)[];
+  value: string;
+  isKey: boolean;
+  range: Range;
+}
+
+/**
+ * Walk the scalars of a document with their paths, keys before values.
+ * Stops when the callback returns true.
+ */
+function walkScalars(
+  text: string,
+  visit: (scalar: { path: (string | number)[]; value: string; isKey: boolean; start: number; end: number; node?: Node | null }) => boolean | void
+): void {
+  const document = parseDocument(text);
+
+  const walk = (node: unknown, path: (string | number)[]): boolean => {
+    if (isMap(node)) {
+      for (const pair of node.items) {
+        const key = pair.key;
+        if (!isScalar(key) || !key.range) continue;
+        const name = String(key.value);
+        if (visit({ path: [...path, name], value: name, isKey: true, start: key.range[0], end: key.range[1], node: pair.value as Node | null })) return true;
+        if (walk(pair.value, [...path, name])) return true;
+      }
+    } else if (isSeq(node)) {
+      for (let index = 0; index < node.items.length; index++) {
+        if (walk(node.items[index], [...path, index])) return true;
+      }
+    } else if (isScalar(node) && node.range && node.value !== null && node.value !== undefined) {
+      return visit({ path, value: String(node.value), isKey: false, start: node.range[0], end: node.range[1] }) === true;
+    }
+    return false;
+  };
+
+  walk(document.contents, []);
+}
+
+/**
+ * Find the key or scalar value at a position.
+ */
+function scalarAt(text: string, position: Position): ScalarAtPosition | undefined {
+  let found: ScalarAtPosition | undefined;
+  walkScalars(text, ({ path, value, isKey, start, end }) => {
+    const range = rangeOf(text, start, end);
+    if (!contains(range, position)) return false;
+    found = { path, value, isKey, range };
+    return true;
+  });
+  return found;
+}
+
+/**
+ * Find every ID defined or referenced in a document.
+ */
+export function findIdOccurrences(text: string): IdOccurrence[] {
+  const occurrences: IdOccurrence[] = [];
+  walkScalars(text, ({ path, value, isKey, start, end, node }) => {
+    if (!isValidId(value)) return;
+    const occurrence: IdOccurrence = { id: value, definition: isKey, path, range: rangeOf(text, start, end) };
+    if (isKey && isMap(node)) {
+      occurrence.element = node.toJSON() as Record<string, unknown>;
+    }
+    occurrences.push(occurrence);
+  });
+  return occurrences;
+}
+
+function safeOccurrences(text: string): IdOccurrence[] {
+  try {
+    return findIdOccurrences(text);
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Find the definition of an ID across the workspace.
+ */
+function findDefinition(files: WorkspaceFile[], id: string): { file: WorkspaceFile; occurrence: IdOccurrence } | undefined {
+  for (const file of files) {
+    const occurrence = safeOccurrences(file.text).find((o) => o.definition && o.id === id);
+    if (occurrence) return { file, occurrence };
+  }
+  return undefined;
+}
+
+function fileName(uri: string): string {
+  return decodeURIComponent(uri.split('/').pop() ?? uri);
+}
+
+// =============================================================================
+// Hover
+// =============================================================================
+
+/**
+ * Describe the ID, property or section at a position.
+ */
+export function getHover(file: WorkspaceFile, files: WorkspaceFile[], position: Position): Hover | null {
+  const scalar = scalarAt(file.text, position);
+  if (!scalar) return null;
+
+  // IDs: show the defined element
+  if (isValidId(scalar.value)) {
+    const elementType = getElementTypeFromId(scalar.value)!;
+    const lines = [`**${scalar.value}** (${elementType})`];
+    const definition = findDefinition(files, scalar.value);
+    if (definition) {
+      const element = definition.occurrence.element ?? {};
+      if (typeof element.name === 'string') lines[0] += ` ${element.name}`;
+      if (typeof element.description === 'string') lines.push('', element.description.trim());
+      lines.push('', `Defined in ${fileName(definition.file.uri)}:${definition.occurrence.range.start.line + 1}`);
+    } else {
+      lines.push('', 'Not defined in the workspace');
+    }
+    return { contents: { kind: 'markdown', value: lines.join('\n') }, range: scalar.range };
+  }
+
+  if (!scalar.isKey) return null;
+  const name = scalar.value;
+
+  // Top-level sections of the document type
+  if (scalar.path.length === 1) {
+    const documentType = detectDocumentType(fileName(file.uri));
+    const section = documentType ? getDocumentTypeInfo(documentType)?.sections.find((s) => s.name === name) : undefined;
+    if (!section) return null;
+    const lines = [`**${name}**${section.idPrefix ? ` (${section.idPrefix} IDs)` : ''}`, '', section.description];
+    return { contents: { kind: 'markdown', value: lines.join('\n') }, range: scalar.range };
+  }
+
+  // Properties of an element keyed by ID
+  const owner = scalar.path[scalar.path.length - 2];
+  if (typeof owner !== 'string' || !isValidId(owner)) return null;
+  const property = getElementTypeInfo(getElementTypeFromId(owner)!)?.properties.find((p) => p.name === name);
+  if (!property) return null;
+  const lines = [`**${name}**: \`${property.type}\`${property.required ? ' (required)' : ''}`];
+  if (property.description) lines.push('', property.description);
+  if (property.enumValues) lines.push('', `Values: ${property.enumValues.map((v) => `\`${v}\``).join(', ')}`);
+  return { contents: { kind: 'markdown', value: lines.join('\n') }, range: scalar.range };
+}
+
+// =============================================================================
+// Completion
+// =============================================================================
+
+const KEY_LINE = /^(\s*)(-\s+)?([A-Za-z_][\w-]*):/;
+
+/**
+ * Key on a line and its column (after any sequence dash).
+ */
+function keyColumn(line: string): { column: number; key: string } | undefined {
+  const match = line.match(KEY_LINE);
+  if (!match) return undefined;
+  return { column: match[1].length + (match[2]?.length ?? 0), key: match[3] };
+}
+
+/**
+ * Keys of the objects enclosing a line, outermost first, from indentation.
+ * Works on text that does not parse while the user is typing.
+ */
+function enclosingKeys(lines: string[], lineIndex: number, column: number): string[] {
+  const keys: string[] = [];
+  let limit = column;
+  for (let i = lineIndex - 1; i >= 0 && limit > 0; i--) {
+    const entry = keyColumn(lines[i]);
+    if (entry && entry.column < limit) {
+      keys.unshift(entry.key);
+      limit = entry.column;
+    }
+  }
+  return keys;
+}
+
+/**
+ * Find the reference field being edited at a position, from the text of
+ * the current line and the lines above it.
+ */
+function referenceContext(
+  text: string,
+  position: Position
+): { field: string; ownerPath: string[]; partial: string } | undefined {
+  const lines = text.split('\n');
+  const before = (lines[position.line] ?? '').slice(0, position.character);
+
+  // `field: AC`, `- field: AC` or `field: [AC00001, AC`
+  const inline = before.match(/^(\s*)(-\s+)?([A-Za-z_][\w-]*):\s*(?:\[(?:[^\]]*,)?\s*)?([A-Za-z0-9]*)$/);
+  if (inline) {
+    const column = inline[1].length + (inline[2]?.length ?? 0);
+    return { field: inline[3], ownerPath: enclosingKeys(lines, position.line, column), partial: inline[4] };
+  }
+
+  // `- AC` under `field:`
+  const item = before.match(/^(\s*)-\s+([A-Za-z0-9]*)$/);
+  if (item) {
+    const dash = item[1].length;
+    for (let i = position.line - 1; i >= 0; i--) {
+      const entry = keyColumn(lines[i]);
+      if (!entry) continue;
+      if (entry.column <= dash) {
+        if (!/:\s*(#.*)?$/.test(lines[i])) return undefined;
+        return { field: entry.key, ownerPath: enclosingKeys(lines, i, entry.column), partial: item[2] };
+      }
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * Offer workspace IDs for the reference field at a position.
+ */
+export function getCompletions(file: WorkspaceFile, files: WorkspaceFile[], position: Position): CompletionItem[] {
+  const context = referenceContext(file.text, position);
+  if (!context || !isReferenceField(context.field)) return [];
+
+  const prefixes = getReferenceTargets(context.field, context.ownerPath);
+  const range: Range = {
+    start: { line: position.line, character: position.character - context.partial.length },
+    end: position,
+  };
+
+  const items = new Map<string, CompletionItem>();
+  for (const workspaceFile of files) {
+    for (const occurrence of safeOccurrences(workspaceFile.text)) {
+      if (!occurrence.definition || items.has(occurrence.id)) continue;
+      if (!prefixes.includes(getIdPrefix(occurrence.id)!)) continue;
+      const name = occurrence.element?.name;
+      items.set(occurrence.id, {
+        label: occurrence.id,
+        kind: CompletionItemKind.Reference,
+        detail: typeof name === 'string' ? `${name} (${getElementTypeFromId(occurrence.id)})` : getElementTypeFromId(occurrence.id),
+        documentation: fileName(workspaceFile.uri),
+        textEdit: { range, newText: occurrence.id },
+      });
+    }
+  }
+  return [...items.values()].sort((a, b) => a.label.localeCompare(b.label));
+}
+
+// =============================================================================
+// Navigation
+// =============================================================================
+
+/**
+ * Find where the ID at a position is defined.
+ */
+export function getDefinition(file: WorkspaceFile, files: WorkspaceFile[], position: Position): Location | null {
+  const scalar = scalarAt(file.text, position);
+  if (!scalar || !isValidId(scalar.value)) return null;
+  const definition = findDefinition(files, scalar.value);
+  return definition ? { uri: definition.file.uri, range: definition.occurrence.range } : null;
+}
+
+/**
+ * Find every use of the ID at a position across the workspace.
+ */
+export function getReferences(
+  file: WorkspaceFile,
+  files: WorkspaceFile[],
+  position: Position,
+  includeDeclaration = true
+): Location[] {
+  const scalar = scalarAt(file.text, position);
+  if (!scalar || !isValidId(scalar.value)) return [];
+
+  const locations: Location[] = [];
+  for (const workspaceFile of files) {
+    for (const occurrence of safeOccurrences(workspaceFile.text)) {
+      if (occurrence.id !== scalar.value || (occurrence.definition && !includeDeclaration)) continue;
+      locations.push({ uri: workspaceFile.uri, range: occurrence.range });
+    }
+  }
+  return locations;
+}
+
+// =============================================================================
+// Code Actions
+// =============================================================================
+
+/**
+ * Offer replacements for enum values that the schema lists as common
+ * mistakes (e.g., `type: user` -> `person` or `role`).
+ *
+ * The replacements are the quoted valid values in the mistake's hint.
+ */
+export function getCodeActions(file: WorkspaceFile, range: Range, diagnostics: Diagnostic[] = []): CodeAction[] {
+  const actions: CodeAction[] = [];
+  const lines = file.text.split('\n');
+
+  for (let line = range.start.line; line <= range.end.line && line < lines.length; line++) {
+    const match = lines[line].match(/^(\s*(?:-\s+)?([A-Za-z_][\w-]*):\s*)(["']?)([^"'#\s]+)\3\s*(#.*)?$/);
+    if (!match) continue;
+    const [, lead, key, quote, value] = match;
+
+    const hint = ENUM_HINTS.find((h) => h.propertyNames.includes(key) && h.valueMistakes?.[value]);
+    if (!hint) continue;
+    const replacements = [...hint.valueMistakes![value].hint.matchAll(/'([^']+)'/g)]
+      .map((m) => m[1])
+      .filter((candidate, index, all) => hint.values.includes(candidate) && all.indexOf(candidate) === index);
+
+    const valueRange: Range = {
+      start: { line, character: lead.length },
+      end: { line, character: lead.length + quote.length * 2 + value.length },
+    };
+    const related = diagnostics.filter((d) => d.range.start.line <= line && d.range.end.line >= line);
+    replacements.forEach((replacement, index) => {
+      actions.push({
+        title: `Change ${key} to '${replacement}'`,
+        kind: 'quickfix',
+        ...(related.length > 0 && { diagnostics: related }),
+        isPreferred: index === 0,
+        edit: { changes: { [file.uri]: [{ range: valueRange, newText: replacement }] } },
+      });
+    });
+  }
+
+  return actions;
+}
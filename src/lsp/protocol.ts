@@ -0,0 +1,166 @@
+/**
+ * Language Server Protocol Types and Framing
+ *
+ * The subset of the Language Server Protocol used by the UBML language
+ * server, and JSON-RPC message framing (`Content-Length` headers) over
+ * streams. Positions are 0-indexed lines and UTF-16 characters, as in LSP.
+ *
+ * @module ubml/lsp/protocol
+ */
+
+import type { Readable, Writable } from 'stream';
+
+// =============================================================================
+// JSON-RPC
+// =============================================================================
+
+/**
+ * A JSON-RPC request, response or notification.
+ */
+export interface Message {
+  jsonrpc: '2.0';
+  /** Present on requests and responses */
+  id?: number | string | null;
+  /** Present on requests and notifications */
+  method?: string;
+  params?: unknown;
+  result?: unknown;
+  error?: { code: number; message: string };
+}
+
+/** JSON-RPC error codes */
+export const ErrorCodes = {
+  ParseError: -32700,
+  MethodNotFound: -32601,
+  InternalError: -32603,
+  ServerNotInitialized: -32002,
+} as const;
+
+// =============================================================================
+// LSP Types
+// =============================================================================
+
+export interface Position {
+  line: number;
+  character: number;
+}
+
+export interface Range {
+  start: Position;
+  end: Position;
+}
+
+export interface Location {
+  uri: string;
+  range: Range;
+}
+
+/** Diagnostic severities */
+export const DiagnosticSeverity = {
+  Error: 1,
+  Warning: 2,
+  Information: 3,
+  Hint: 4,
+} as const;
+
+/** Message types of `window/logMessage` */
+export const MessageType = {
+  Error: 1,
+  Warning: 2,
+  Info: 3,
+  Log: 4,
+} as const;
+
+export interface Diagnostic {
+  range: Range;
+  severity: (typeof DiagnosticSeverity)[keyof typeof DiagnosticSeverity];
+  code?: string;
+  source: 'ubml';
+  message: string;
+}
+
+export interface TextEdit {
+  range: Range;
+  newText: string;
+}
+
+export interface Hover {
+  contents: { kind: 'markdown'; value: string };
+  range?: Range;
+}
+
+/** Completion item kinds used by the server */
+export const CompletionItemKind = {
+  Reference: 18,
+} as const;
+
+export interface CompletionItem {
+  label: string;
+  kind?: number;
+  detail?: string;
+  documentation?: string;
+  textEdit?: TextEdit;
+}
+
+export interface CodeAction {
+  title: string;
+  kind: 'quickfix';
+  diagnostics?: Diagnostic[];
+  isPreferred?: boolean;
+  edit: { changes: Record<string, TextEdit[]> };
+}
+
+// =============================================================================
+// Framing
+// =============================================================================
+
+/**
+ * Read `Content-Length` framed JSON-RPC messages from a stream.
+ *
+ * Messages that are not valid JSON are passed to `onError` and skipped.
+ */
+export function readMessages(
+  input: Readable,
+  onMessage: (message: Message) => void,
+  onError: (error: Error) => void = () => {}
+): void {
+  let buffer = Buffer.alloc(0);
+
+  input.on('data', (chunk: Buffer | string) => {
+    buffer = Buffer.concat([buffer, typeof chunk === 'string' ? Buffer.from(chunk, 'utf8') : chunk]);
+
+    for (;;) {
+      const headerEnd = buffer.indexOf('\r\n\r\n');
+      if (headerEnd < 0) return;
+
+      const header = buffer.subarray(0, headerEnd).toString('ascii');
+      const match = header.match(/Content-Length:\s*(\d+)/i);
+      if (!match) {
+        // Drop a malformed header and resynchronize on the next one
+        buffer = buffer.subarray(headerEnd + 4);
+        onError(new Error(`Missing Content-Length header: ${header}`));
+        continue;
+      }
+
+      const length = Number(match[1]);
+      const bodyStart = headerEnd + 4;
+      if (buffer.length < bodyStart + length) return;
+
+      const body = buffer.subarray(bodyStart, bodyStart + length).toString('utf8');
+      buffer = buffer.subarray(bodyStart + length);
+      try {
+        onMessage(JSON.parse(body) as Message);
+      } catch (err) {
+        onError(err instanceof Error ? err : new Error(String(err)));
+      }
+    }
+  });
+}
+
+/**
+ * Write a JSON-RPC message with a `Content-Length` header.
+ */
+export function writeMessage(output: Writable, message: Message): void {
+  const body = JSON.stringify(message);
+  output.write(`Content-Length: ${Buffer.byteLength(body, 'utf8')}\r\n\r\n${body}`);
+}
@@ -0,0 +1,372 @@
+/**
+ * UBML Language Server
+ *
+ * Language Server Protocol server for UBML YAML files, so that any editor
+ * with an LSP client (VS Code, Neovim, JetBrains) gets workspace-aware
+ * diagnostics and navigation:
+ *
+ * - diagnostics from schema validation and cross-document reference
+ *   validation, for every UBML file in the workspace
+ * - hover, ID completion, go-to-definition, find-all-references and quick
+ *   fixes from the language service
+ *
+ * The server loads all UBML files under the workspace root on startup and
+ * overlays the text of open documents (full document sync). Documents
+ * without a `file:` URI, such as unsaved buffers, are kept in memory only.
+ * Diagnostics after edits are published once typing pauses.
+ *
+ * @module ubml/lsp/server
+ */
+
+import { relative } from 'path';
+import { fileURLToPath, pathToFileURL } from 'url';
+import type { Readable, Writable } from 'stream';
+import { parse, type ParseError, type ParseWarning, type UBMLDocument } from '../parser.js';
+import { getValidator, type ValidationError, type ValidationWarning } from '../validator.js';
+import { validateDocuments, type ReferenceError, type ReferenceWarning } from '../semantic-validator.js';
+import { getUBMLFilePatterns } from '../metadata.js';
+import { VERSION } from '../constants.js';
+import { nodeFS, type FileSystem } from '../node/fs.js';
+import {
+  getCodeActions,
+  getCompletions,
+  getDefinition,
+  getHover,
+  getReferences,
+  type WorkspaceFile,
+} from './language-service.js';
+import {
+  DiagnosticSeverity,
+  ErrorCodes,
+  MessageType,
+  readMessages,
+  writeMessage,
+  type Diagnostic,
+  type Message,
+  type Position,
+  type Range,
+} from './protocol.js';
+
+// =============================================================================
+// Public Types
+// =============================================================================
+
+/**
+ * Options for creating a language server.
+ */
+export interface LanguageServerOptions {
+  /** Send a message to the client */
+  send(message: Message): void;
+  /** Called when the client sends `exit` */
+  onExit?(code: number): void;
+  /** File system for loading the workspace (default: Node.js) */
+  fs?: FileSystem;
+  /** Milliseconds to wait after the last change before revalidating (default: 300) */
+  changeDelay?: number;
+}
+
+/**
+ * A language server instance.
+ */
+export interface LanguageServer {
+  /** Handle one message from the client */
+  handle(message: Message): Promise<void>;
+}
+
+// =============================================================================
+// Diagnostics
+// =============================================================================
+
+/**
+ * File path of a `file:` URI, or undefined for other schemes (`untitled:`, `git:`).
+ */
+function pathOf(uri: string): string | undefined {
+  if (!uri.startsWith('file:')) return undefined;
+  try {
+    return fileURLToPath(uri);
+  } catch {
+    return undefined;
+  }
+}
+
+function errorMessage(err: unknown): string {
+  return err instanceof Error ? err.message : String(err);
+}
+
+/**
+ * Range of the token starting at a 1-indexed line and column.
+ */
+function tokenRange(text: string, line = 1, column = 1): Range {
+  const lineText = text.split('\n')[line - 1] ?? '';
+  const start = Math.max(0, Math.min(column - 1, lineText.length));
+  const token = lineText.slice(start).match(/^[^\s:,\]}]*/)![0];
+  return {
+    start: { line: line - 1, character: start },
+    end: { line: line - 1, character: start + Math.max(token.length, 1) },
+  };
+}
+
+function toDiagnostic(
+  text: string,
+  problem: ParseError | ParseWarning | ValidationError | ValidationWarning | ReferenceError | ReferenceWarning,
+  severity: Diagnostic['severity']
+): Diagnostic {
+  const range = tokenRange(text, problem.line, problem.column);
+  if ('endLine' in problem && problem.endLine && problem.endColumn) {
+    range.end = { line: problem.endLine - 1, character: problem.endColumn - 1 };
+  }
+  return {
+    range,
+    severity,
+    ...('code' in problem && problem.code && { code: problem.code }),
+    source: 'ubml',
+    message: problem.message,
+  };
+}
+
+// =============================================================================
+// Server
+// =============================================================================
+
+/**
+ * Create a language server that talks to a client through `send`.
+ *
+ * @example
+ * ```typescript
+ * const server = createLanguageServer({ send: (message) => client.receive(message) });
+ * await server.handle({ jsonrpc: '2.0', id: 1, method: 'initialize', params: { rootUri } });
+ * ```
+ */
+export function createLanguageServer(options: LanguageServerOptions): LanguageServer {
+  const fs = options.fs ?? nodeFS;
+  const changeDelay = options.changeDelay ?? 300;
+  // Files without a path exist only in the editor
+  const files = new Map<string, { path?: string; text: string }>();
+  const published = new Set<string>();
+  let root: string | undefined;
+  let shutdownRequested = false;
+  let pendingChange: ReturnType<typeof setTimeout> | undefined;
+
+  const workspaceFiles = (): WorkspaceFile[] => [...files.entries()].map(([uri, file]) => ({ uri, text: file.text }));
+
+  const fileAt = (uri: string): WorkspaceFile => ({ uri, text: files.get(uri)?.text ?? '' });
+
+  const notify = (method: string, params: unknown): void => options.send({ jsonrpc: '2.0', method, params });
+
+  const logError = (message: string): void => notify('window/logMessage', { type: MessageType.Error, message });
+
+  async function loadWorkspace(): Promise<void> {
+    if (!root) return;
+    for (const pattern of getUBMLFilePatterns()) {
+      for (const path of await fs.glob(pattern, { cwd: root })) {
+        if (path.includes('/node_modules/')) continue;
+        const uri = pathToFileURL(path).href;
+        if (files.has(uri)) continue;
+        try {
+          files.set(uri, { path, text: await fs.readFile(path) });
+        } catch {
+          // Unreadable files are skipped; they will be picked up when opened
+        }
+      }
+    }
+  }
+
+  /**
+   * Validate the whole workspace and publish diagnostics for every file.
+   */
+  async function publishDiagnostics(): Promise<void> {
+    cancelPendingChange();
+    const diagnostics = new Map<string, Diagnostic[]>();
+    const uriByPath = new Map<string, string>();
+    const documents: UBMLDocument[] = [];
+    const validator = await getValidator();
+
+    for (const [uri, file] of files) {
+      const list: Diagnostic[] = [];
+      const path = file.path ?? uri;
+      diagnostics.set(uri, list);
+      uriByPath.set(path, uri);
+      try {
+        const result = parse(file.text, path);
+        list.push(...result.errors.map((error) => toDiagnostic(file.text, error, DiagnosticSeverity.Error)));
+        list.push(...result.warnings.map((warning) => toDiagnostic(file.text, warning, DiagnosticSeverity.Warning)));
+        if (!result.document) continue;
+        documents.push(result.document);
+        const schemaResult = validator.validateDocument(result.document);
+        list.push(...schemaResult.errors.map((error) => toDiagnostic(file.text, error, DiagnosticSeverity.Error)));
+        list.push(...schemaResult.warnings.map((warning) => toDiagnostic(file.text, warning, DiagnosticSeverity.Warning)));
+      } catch (err) {
+        list.push(toDiagnostic(file.text, { message: errorMessage(err) }, DiagnosticSeverity.Error));
+      }
+    }
+
+    // Cross-document references are reported in the file that contains them
+    const references = validateDocuments(documents);
+    const report = (problem: ReferenceError | ReferenceWarning, severity: Diagnostic['severity']): void => {
+      const uri = uriByPath.get(problem.filepath);
+      if (uri) diagnostics.get(uri)!.push(toDiagnostic(files.get(uri)!.text, problem, severity));
+    };
+    references.errors.forEach((error) => report(error, DiagnosticSeverity.Error));
+    references.warnings.forEach((warning) => report(warning, DiagnosticSeverity.Warning));
+
+    for (const uri of published) {
+      if (!diagnostics.has(uri)) notify('textDocument/publishDiagnostics', { uri, diagnostics: [] });
+    }
+    published.clear();
+    for (const [uri, list] of diagnostics) {
+      notify('textDocument/publishDiagnostics', { uri, diagnostics: list });
+      published.add(uri);
+    }
+  }
+
+  function cancelPendingChange(): void {
+    if (pendingChange === undefined) return;
+    clearTimeout(pendingChange);
+    pendingChange = undefined;
+  }
+
+  /**
+   * Revalidate once no change has arrived for `changeDelay` milliseconds.
+   */
+  function scheduleDiagnostics(): void {
+    cancelPendingChange();
+    pendingChange = setTimeout(() => {
+      pendingChange = undefined;
+      publishDiagnostics().catch((err) => logError(`Validation failed: ${errorMessage(err)}`));
+    }, changeDelay);
+  }
+
+  type Handler = (params: unknown) => unknown;
+  type PositionParams = { textDocument: { uri: string }; position: Position };
+
+  /** Handlers receive the params of the client's message as sent */
+  const handler = <P>(handle: (params: P) => unknown): Handler => (params) => handle(params as P);
+
+  const requests: Record<string, Handler> = {
+    initialize: handler((params: { rootUri?: string | null; rootPath?: string | null }) => {
+      root = (params.rootUri ? pathOf(params.rootUri) : undefined) ?? params.rootPath ?? undefined;
+      return {
+        capabilities: {
+          textDocumentSync: { openClose: true, change: 1, save: true },
+          hoverProvider: true,
+          completionProvider: { triggerCharacters: [' ', '-', '['] },
+          definitionProvider: true,
+          referencesProvider: true,
+          codeActionProvider: { codeActionKinds: ['quickfix'] },
+        },
+        serverInfo: { name: 'ubml', version: VERSION },
+      };
+    }),
+    shutdown: () => {
+      shutdownRequested = true;
+      return null;
+    },
+    'textDocument/hover': handler(({ textDocument, position }: PositionParams) =>
+      getHover(fileAt(textDocument.uri), workspaceFiles(), position)),
+    'textDocument/completion': handler(({ textDocument, position }: PositionParams) =>
+      getCompletions(fileAt(textDocument.uri), workspaceFiles(), position)),
+    'textDocument/definition': handler(({ textDocument, position }: PositionParams) =>
+      getDefinition(fileAt(textDocument.uri), workspaceFiles(), position)),
+    'textDocument/references': handler(({ textDocument, position, context }: PositionParams & { context?: { includeDeclaration?: boolean } }) =>
+      getReferences(fileAt(textDocument.uri), workspaceFiles(), position, context?.includeDeclaration ?? true)),
+    'textDocument/codeAction': handler(({ textDocument, range, context }: { textDocument: { uri: string }; range: Range; context?: { diagnostics?: Diagnostic[] } }) =>
+      getCodeActions(fileAt(textDocument.uri), range, context?.diagnostics)),
+  };
+
+  const notifications: Record<string, Handler> = {
+    initialized: async () => {
+      await loadWorkspace();
+      await publishDiagnostics();
+    },
+    exit: () => {
+      cancelPendingChange();
+      options.onExit?.(shutdownRequested ? 0 : 1);
+    },
+    'textDocument/didOpen': handler(async ({ textDocument }: { textDocument: { uri: string; text: string } }) => {
+      files.set(textDocument.uri, { path: pathOf(textDocument.uri), text: textDocument.text });
+      await publishDiagnostics();
+    }),
+    'textDocument/didChange': handler(({ textDocument, contentChanges }: { textDocument: { uri: string }; contentChanges: { text: string }[] }) => {
+      const file = files.get(textDocument.uri);
+      const change = contentChanges[contentChanges.length - 1];
+      if (!file || !change) return;
+      file.text = change.text;
+      scheduleDiagnostics();
+    }),
+    'textDocument/didClose': handler(async ({ textDocument }: { textDocument: { uri: string } }) => {
+      const file = files.get(textDocument.uri);
+      if (!file) return;
+      // Fall back to the saved text, or drop files that were never saved
+      const inWorkspace = root !== undefined && file.path !== undefined && !relative(root, file.path).startsWith('..');
+      try {
+        if (!inWorkspace || file.path === undefined) throw new Error('outside workspace');
+        file.text = await fs.readFile(file.path);
+      } catch {
+        files.delete(textDocument.uri);
+      }
+      await publishDiagnostics();
+    }),
+  };
+
+  return {
+    async handle(message: Message): Promise<void> {
+      const { id, method } = message;
+      if (!method) return;
+
+      if (id === undefined || id === null) {
+        try {
+          await notifications[method]?.(message.params ?? {});
+        } catch (err) {
+          logError(`Failed to handle ${method}: ${errorMessage(err)}`);
+        }
+        return;
+      }
+
+      const handler = requests[method];
+      if (!handler) {
+        options.send({ jsonrpc: '2.0', id, error: { code: ErrorCodes.MethodNotFound, message: `Unhandled method ${method}` } });
+        return;
+      }
+      try {
+        options.send({ jsonrpc: '2.0', id, result: (await handler(message.params ?? {})) ?? null });
+      } catch (err) {
+        options.send({
+          jsonrpc: '2.0',
+          id,
+          error: { code: ErrorCodes.InternalError, message: errorMessage(err) },
+        });
+      }
+    },
+  };
+}
+
+/**
+ * Run a language server over streams (stdio) until the client sends `exit`.
+ *
+ * Messages are handled one at a time, in order. Resolves with the exit
+ * code: 0 after `shutdown`, 1 otherwise (including when the input ends).
+ * Errors that escape a message are written to stderr, since stdout carries
+ * the protocol, and the following messages are still handled.
+ */
+export function startLanguageServer(input: Readable, output: Writable): Promise<number> {
+  return new Promise((resolve) => {
+    let queue = Promise.resolve();
+    const server = createLanguageServer({
+      send: (message) => writeMessage(output, message),
+      onExit: resolve,
+    });
+
+    readMessages(
+      input,
+      (message) => {
+        queue = queue
+          .then(() => server.handle(message))
+          .catch((err) => {
+            process.stderr.write(`ubml lsp: ${errorMessage(err)}\n`);
+          });
+      },
+      (error) => writeMessage(output, { jsonrpc: '2.0', id: null, error: { code: ErrorCodes.ParseError, message: error.message } })
+    );
+    input.on('end', () => queue.then(() => resolve(1)));
+  });
+}
@@ -19,6 +19,8 @@ import {
   ID_CONFIG,
   ID_PREFIXES,
   REFERENCE_FIELDS,
+  REFERENCE_FIELD_TARGETS,
+  CONTAINER_DEFINITIONS,
   COMMON_PROPERTIES,
   VALIDATION_PATTERNS,
   CATEGORY_CONFIG,
@@ -44,6 +46,8 @@ export {
   ID_CONFIG,
   ID_PREFIXES,
   REFERENCE_FIELDS,
+  REFERENCE_FIELD_TARGETS,
+  CONTAINER_DEFINITIONS,
   COMMON_PROPERTIES,
   VALIDATION_PATTERNS,
   CATEGORY_CONFIG,
@@ -190,6 +194,34 @@ export function isReferenceField(fieldName: string): boolean {
   return REFERENCE_FIELDS.includes(fieldName as (typeof REFERENCE_FIELDS)[number]);
 }
 
+/**
+ * Get the ID prefixes a reference field accepts in the object at a path.
+ *
+ * Most fields point to the same element type wherever they appear. For the
+ * few that do not (`parent`, `to`, `ref`), the declaring schema definition is
+ * found from the nearest property on the path that holds it, as listed in
+ * CONTAINER_DEFINITIONS (processes -> Process, links -> Link, inputs ->
+ * DataObjectInput). Only outside the schema (no such property on the path)
+ * is any of the field's targets accepted.
+ *
+ * @param fieldName - Reference field (e.g., 'to')
+ * @param ownerPath - Path of the object declaring the field (e.g., ['processes', 'PR00001', 'links', 0])
+ */
+export function getReferenceTargets(fieldName: string, ownerPath: (string | number)[] = []): IdPrefix[] {
+  const targets = REFERENCE_FIELD_TARGETS[fieldName];
+  if (!targets) return [];
+  const definitions = Object.keys(targets);
+  if (definitions.length > 1) {
+    for (let i = ownerPath.length - 1; i >= 0; i--) {
+      const segment = ownerPath[i];
+      if (typeof segment === 'number' || isValidId(segment)) continue;
+      const definition = (CONTAINER_DEFINITIONS[segment] ?? []).find((name) => name in targets);
+      if (definition) return [...targets[definition]];
+    }
+  }
+  return [...new Set(definitions.flatMap((name) => targets[name]))];
+}
+
 // ============================================================================
 // COMMON PROPERTY UTILITIES
 // ============================================================================
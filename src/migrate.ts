@@ -0,0 +1,349 @@
+/**
+ * UBML Schema Migration (Browser-Safe)
+ *
+ * Upgrades documents written for older schema versions, one version at a
+ * time. Each migration rewrites the constructs its version changed, through
+ * `editDocument()`, so comments and key order survive.
+ *
+ * 1.0 → 1.1 (DD-001, DD-002): cross-process invocation moved to step `calls`.
+ * - `processRef` on steps becomes a synchronous call
+ * - Process `triggers` become asynchronous calls on the end steps
+ * - Links to processes become asynchronous calls on their source step
+ *
+ * 1.1 → 1.2:
+ * - `mode` was dropped from calls; a call is asynchronous when it has `on`
+ * - Actors require `kind`, derived from their `type`
+ * - Properties of nested sections written at the outer level (RACI, SCQH)
+ *   are moved into their section, and enum values listed as common mistakes
+ *   with a single replacement are renamed
+ *
+ * @module ubml
+ */
+
+import { SCHEMA_VERSION } from './constants.js';
+import { editDocument, type DocumentEditor } from './editor.js';
+import { ENUM_HINTS, getNestedPropertyHint, isValidId } from './metadata.js';
+import type { UBMLDocument } from './parser.js';
+import { getValidator, type Validator } from './validator.js';
+
+// =============================================================================
+// Public Types
+// =============================================================================
+
+/**
+ * Options for migrating a document.
+ */
+export interface MigrateOptions {
+  /** Target version (default: the current schema version) */
+  to?: string;
+  /** Validator for the schema-driven repairs (default: shared validator) */
+  validator?: Validator;
+}
+
+/**
+ * One change made, or needed, by a migration.
+ */
+export interface MigrationChange {
+  /** Version the change migrates to */
+  version: string;
+  /** JSON pointer of the changed value */
+  path: string;
+  description: string;
+}
+
+/**
+ * Result of migrating a document.
+ */
+export interface MigrationResult {
+  from: string;
+  to: string;
+  /** Migrated source (the original source when nothing changed) */
+  text: string;
+  changes: MigrationChange[];
+  /** Constructs that could not be migrated and need manual changes */
+  warnings: MigrationChange[];
+}
+
+// =============================================================================
+// Migration Framework
+// =============================================================================
+
+interface MigrationContext {
+  editor: DocumentEditor;
+  validator: Validator;
+  /** Content of the document as edited so far */
+  readonly content: Record<string, unknown>;
+  change(path: string, description: string): void;
+  warn(path: string, description: string): void;
+}
+
+interface Migration {
+  from: string;
+  to: string;
+  apply(context: MigrationContext): void;
+}
+
+type UnknownMap = Record<string, unknown>;
+
+function isMap(value: unknown): value is UnknownMap {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function entries(value: unknown): [string, UnknownMap][] {
+  return isMap(value) ? Object.entries(value).filter((entry): entry is [string, UnknownMap] => isMap(entry[1])) : [];
+}
+
+/**
+ * Steps of all processes, including nested steps, with their paths.
+ */
+function findSteps(content: UnknownMap): { path: string; process: string; step: UnknownMap }[] {
+  const found: { path: string; process: string; step: UnknownMap }[] = [];
+  const collect = (process: string, steps: unknown, path: string) => {
+    for (const [id, step] of entries(steps)) {
+      if (!isValidId(id)) continue;
+      found.push({ path: `${path}/${id}`, process, step });
+      collect(process, step.steps, `${path}/${id}/steps`);
+    }
+  };
+  for (const [id, process] of entries(content.processes)) {
+    collect(id, process.steps, `/processes/${id}/steps`);
+  }
+  return found;
+}
+
+/**
+ * Append a call to a step's calls.
+ */
+function addCall(editor: DocumentEditor, stepPath: string, step: UnknownMap, call: UnknownMap): void {
+  if (Array.isArray(step.calls)) {
+    editor.insert(`${stepPath}/calls`, step.calls.length, call);
+  } else {
+    editor.insert(stepPath, 'calls', [call]);
+  }
+}
+
+/**
+ * Look up a value of the document as edited so far.
+ */
+function valueAt(context: MigrationContext, path: string): UnknownMap {
+  let value: unknown = context.content;
+  for (const segment of path.split('/').filter(Boolean)) {
+    value = isMap(value) ? value[segment] : undefined;
+  }
+  return isMap(value) ? value : {};
+}
+
+// =============================================================================
+// Migrations
+// =============================================================================
+
+const migrateTo11: Migration = {
+  from: '1.0',
+  to: '1.1',
+  apply(context) {
+    const { editor } = context;
+
+    for (const { path } of findSteps(context.content)) {
+      const step = valueAt(context, path);
+      if (typeof step.processRef !== 'string') continue;
+      addCall(editor, path, step, { process: step.processRef, mode: 'sync' });
+      editor.delete(`${path}/processRef`);
+      context.change(`${path}/processRef`, `processRef ${step.processRef} is now a synchronous call`);
+    }
+
+    for (const [id, process] of entries(context.content.processes)) {
+      const processPath = `/processes/${id}`;
+
+      if (Array.isArray(process.triggers)) {
+        const endSteps = findSteps(context.content).filter((found) => found.process === id && found.step.kind === 'end');
+        if (endSteps.length === 0) {
+          context.warn(`${processPath}/triggers`, 'triggers need an end step to move to; add calls with on: complete manually');
+        } else {
+          for (const trigger of process.triggers.filter(isMap)) {
+            const call = { process: trigger.process, mode: 'async', on: trigger.on ?? 'complete', ...(trigger.condition !== undefined ? { condition: trigger.condition } : {}) };
+            for (const end of endSteps) {
+              addCall(editor, end.path, valueAt(context, end.path), call);
+            }
+          }
+          editor.delete(`${processPath}/triggers`);
+          context.change(`${processPath}/triggers`, `triggers are now asynchronous calls on ${endSteps.map((end) => end.path.split('/').pop()).join(', ')}`);
+        }
+      }
+
+      if (Array.isArray(process.links)) {
+        // Delete from the end so indexes stay valid
+        const links = process.links.map((link, index) => ({ link, index })).reverse();
+        for (const { link, index } of links) {
+          if (!isMap(link) || typeof link.to !== 'string' || !link.to.startsWith('PR') || typeof link.from !== 'string') continue;
+          const source = findSteps(context.content).find((found) => found.process === id && found.path.endsWith(`/${link.from}`));
+          if (!source) {
+            context.warn(`${processPath}/links/${index}`, `link to process ${link.to} has no source step ${link.from}`);
+            continue;
+          }
+          addCall(editor, source.path, valueAt(context, source.path), { process: link.to, mode: 'async', on: 'complete' });
+          editor.delete(`${processPath}/links/${index}`);
+          context.change(`${processPath}/links/${index}`, `link ${link.from} -> ${link.to} is now an asynchronous call on ${link.from}`);
+        }
+      }
+    }
+  },
+};
+
+/** Actor kind derived from type, as documented on Actor.kind */
+const ACTOR_KINDS: Record<string, string> = {
+  system: 'system',
+  person: 'human',
+  role: 'human',
+  team: 'human',
+  organization: 'org',
+  external: 'org',
+  customer: 'org',
+};
+
+/**
+ * The single allowed value a mistaken enum value should be renamed to, from
+ * the quoted values in its hint.
+ */
+function enumReplacement(value: string, allowed: string[]): string | undefined {
+  const hint = ENUM_HINTS.find((candidate) =>
+    candidate.valueMistakes?.[value] && candidate.values.length === allowed.length && candidate.values.every((v) => allowed.includes(v))
+  )?.valueMistakes?.[value]?.hint;
+  const suggested = [...(hint ?? '').matchAll(/'([^']+)'/g)].map((match) => match[1]).filter((v) => allowed.includes(v));
+  return new Set(suggested).size === 1 ? suggested[0] : undefined;
+}
+
+const migrateTo12: Migration = {
+  from: '1.1',
+  to: '1.2',
+  apply(context) {
+    const { editor } = context;
+
+    for (const { path } of findSteps(context.content)) {
+      const calls = valueAt(context, path).calls;
+      if (!Array.isArray(calls)) continue;
+      calls.forEach((call, index) => {
+        if (!isMap(call) || call.mode === undefined) return;
+        const callPath = `${path}/calls/${index}`;
+        if (call.mode === 'async' && call.on === undefined) {
+          editor.insert(callPath, 'on', 'complete');
+        } else if (call.mode === 'sync' && call.on !== undefined) {
+          context.warn(`${callPath}/on`, `synchronous call with on: ${String(call.on)} is now asynchronous; remove on to keep it synchronous`);
+        }
+        editor.delete(`${callPath}/mode`);
+        context.change(`${callPath}/mode`, `mode: ${String(call.mode)} removed (calls with on are asynchronous)`);
+      });
+    }
+
+    // Schema-driven repairs, on the document as it is now
+    editor.set('/ubml', this.to);
+    for (const error of context.validator.validateDocument(editor.document).errors) {
+      const params = error.ajvError?.params ?? {};
+      const path = error.path ?? '';
+
+      if (error.code === 'additionalProperties' && typeof params.additionalProperty === 'string') {
+        const property = params.additionalProperty;
+        const nested = getNestedPropertyHint(property);
+        const owner = valueAt(context, path);
+        if (!nested || !(property in owner)) continue;
+        const section = owner[nested.parentProperty];
+        if (isMap(section) && property in section) {
+          context.warn(`${path}/${property}`, `${property} is also set in ${nested.parentProperty}; merge them manually`);
+          continue;
+        }
+        const move = (target: DocumentEditor) => (isMap(section) ?
+          target.insert(`${path}/${nested.parentProperty}`, property, owner[property]) :
+          target.insert(path, nested.parentProperty, { [property]: owner[property] })
+        ).delete(`${path}/${property}`);
+        // Only where the section is allowed (e.g., RACI on steps)
+        if (move(editDocument(editor.document, { validator: context.validator })).results.some((result) => result.errors.length > 0)) continue;
+        move(editor);
+        context.change(`${path}/${property}`, `${property} moved into ${nested.parentProperty}`);
+      }
+
+      if (error.code === 'enum' && Array.isArray(params.allowedValues) && typeof error.ajvError?.data === 'string') {
+        const value = error.ajvError.data;
+        const replacement = enumReplacement(value, params.allowedValues as string[]);
+        if (replacement) {
+          editor.set(path, replacement);
+          context.change(path, `${value} renamed to ${replacement}`);
+        }
+      }
+    }
+
+    for (const [id, actor] of entries(context.content.actors)) {
+      if (actor.kind !== undefined) continue;
+      const kind = typeof actor.type === 'string' ? ACTOR_KINDS[actor.type] : undefined;
+      if (kind) {
+        editor.insert(`/actors/${id}`, 'kind', kind);
+        context.change(`/actors/${id}/kind`, `kind: ${kind} derived from type: ${String(actor.type)}`);
+      } else {
+        context.warn(`/actors/${id}`, 'actor needs a kind (human, org or system)');
+      }
+    }
+  },
+};
+
+/** Migrations in version order */
+const MIGRATIONS: readonly Migration[] = [migrateTo11, migrateTo12];
+
+/**
+ * Schema versions documents can be migrated from, oldest first.
+ */
+export const MIGRATABLE_VERSIONS: readonly string[] = [...MIGRATIONS.map((migration) => migration.from), SCHEMA_VERSION];
+
+// =============================================================================
+// Migrate
+// =============================================================================
+
+/**
+ * Migrate a document to a newer schema version.
+ *
+ * @param doc - Document from `parse()`
+ * @param options - Target version and validator
+ * @throws When the document's version is unknown or newer than the target
+ *
+ * @example
+ * ```typescript
+ * import { parse, migrateDocument } from 'ubml';
+ *
+ * const { document } = parse(yaml, 'claims.process.ubml.yaml');
+ * const result = await migrateDocument(document!);
+ * console.log(result.changes.map((c) => `${c.path}: ${c.description}`));
+ * ```
+ */
+export async function migrateDocument(doc: UBMLDocument, options: MigrateOptions = {}): Promise<MigrationResult> {
+  const from = String(doc.meta.version);
+  const to = options.to ?? SCHEMA_VERSION;
+  const start = MIGRATABLE_VERSIONS.indexOf(from);
+  const end = MIGRATABLE_VERSIONS.indexOf(to);
+  if (end < 0) {
+    throw new Error(`Unknown target version ${to} (expected one of ${MIGRATABLE_VERSIONS.join(', ')})`);
+  }
+  if (start < 0) {
+    throw new Error(`Cannot migrate from version ${from} (expected one of ${MIGRATABLE_VERSIONS.join(', ')})`);
+  }
+  if (start > end) {
+    throw new Error(`Cannot migrate from version ${from} down to ${to}`);
+  }
+
+  const result: MigrationResult = { from, to, text: doc.source, changes: [], warnings: [] };
+  if (start === end) return result;
+
+  const editor = editDocument(doc);
+  const validator = options.validator ?? (await getValidator());
+  for (const migration of MIGRATIONS.slice(start, end)) {
+    migration.apply({
+      editor,
+      validator,
+      get content() {
+        return (isMap(editor.document.content) ? editor.document.content : {}) as UnknownMap;
+      },
+      change: (path, description) => result.changes.push({ version: migration.to, path, description }),
+      warn: (path, description) => result.warnings.push({ version: migration.to, path, description }),
+    });
+    editor.set('/ubml', migration.to);
+  }
+
+  result.text = editor.toString();
+  return result;
+}
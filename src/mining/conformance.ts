@@ -0,0 +1,343 @@
+/**
+ * Conformance Checking (Browser-Safe)
+ *
+ * Replays the cases of an event log against the step/link graph of a
+ * process. Activities are mapped to steps with the source's activity
+ * mappings and resources to actors with its resource mappings.
+ *
+ * REPLAY
+ * - Steps that no activity maps to (start and end steps, decisions) are
+ *   silent: the replay passes them freely.
+ * - Each executed step must be reachable from the previous one. Mapped
+ *   steps passed on the way are skipped steps, and the path skipping the
+ *   fewest steps is taken. After the last event the replay continues to
+ *   an end step the same way.
+ * - Branches of a parallel split (a step that is not a decision, with
+ *   several outgoing links without probability or condition) may run in
+ *   any order, each starting once. Continuing from any other earlier
+ *   position is a step out of order, as is a step that cannot be reached
+ *   at all. Branches that never start are skipped up to where they join.
+ * - A step performed by a mapped actor that is neither responsible nor
+ *   accountable for it is a wrong actor. Wrong actors do not lower fitness.
+ *
+ * Fitness is the share of replay moves (executed activities and skipped
+ * steps) without a deviation, for each case and for the whole log.
+ *
+ * @module ubml/mining/conformance
+ */
+
+import type { Link, MiningSource, Process, Step } from '../generated/types.js';
+import { getTraces, mapActivity, mapResource, type EventLog } from './event-log.js';
+
+// =============================================================================
+// Public Types
+// =============================================================================
+
+/**
+ * Kinds of deviation between a case and the process.
+ */
+export type DeviationType = 'skipped-step' | 'unmodeled-activity' | 'unexpected-order' | 'wrong-actor';
+
+/**
+ * One deviation of a case.
+ */
+export interface ConformanceDeviation {
+  type: DeviationType;
+  /** Step involved (not for unmodeled activities) */
+  step?: string;
+  /** Event log activity (not for skipped steps) */
+  activity?: string;
+  /** Event log resource and the actor it maps to (wrong actors) */
+  resource?: string;
+  actor?: string;
+  message: string;
+}
+
+/**
+ * Replay result of one case.
+ */
+export interface CaseConformance {
+  caseId: string;
+  /** Number of executed activities */
+  events: number;
+  /** Share of replay moves without a deviation (0-1) */
+  fitness: number;
+  deviations: ConformanceDeviation[];
+}
+
+/**
+ * A deviation with the number of times it occurred.
+ */
+export interface DeviationSummary {
+  type: DeviationType;
+  message: string;
+  occurrences: number;
+  /** Number of cases with the deviation */
+  cases: number;
+}
+
+/**
+ * Conformance of an event log to a process.
+ */
+export interface ConformanceResult {
+  caseCount: number;
+  /** Cases without control-flow deviations */
+  fittingCases: number;
+  /** Share of all replay moves without a deviation (0-1) */
+  fitness: number;
+  cases: CaseConformance[];
+  /** Deviations, most frequent first */
+  deviations: DeviationSummary[];
+}
+
+// =============================================================================
+// Replay
+// =============================================================================
+
+const START = '';
+
+interface ReplayPath {
+  /** Steps after the origin, ending with the target */
+  steps: string[];
+  /** Number of skipped steps on the way */
+  cost: number;
+}
+
+/**
+ * Check how well the cases of an event log follow a process.
+ *
+ * @param log - Events read from the mining source
+ * @param source - Mining source with activity and resource mappings
+ * @param process - The process the source provides data for
+ *
+ * @example
+ * ```typescript
+ * import { checkConformance, parseEventLog } from 'ubml';
+ *
+ * const result = checkConformance(parseEventLog(csvText, source), source, processes.PR00001);
+ * console.log(`Fitness ${(result.fitness * 100).toFixed(1)}%`);
+ * ```
+ */
+export function checkConformance(log: EventLog, source: MiningSource, process: Process): ConformanceResult {
+  const steps = (process.steps ?? {}) as Record<string, Step>;
+  const stepIds = Object.keys(steps);
+  const links = ((process.links ?? []) as Link[]).filter((link) => steps[link.from] && steps[link.to]);
+
+  const successors = new Map<string, string[]>();
+  const hasIncoming = new Set<string>();
+  const hasOutgoing = new Set<string>();
+  for (const link of links) {
+    successors.set(link.from, [...(successors.get(link.from) ?? []), link.to]);
+    hasIncoming.add(link.to);
+    hasOutgoing.add(link.from);
+  }
+  const boundary = (declared: string[] | undefined, kind: Step['kind'], linked: Set<string>): string[] => {
+    const valid = (declared ?? []).filter((id) => steps[id]);
+    if (valid.length > 0) return valid;
+    const byKind = stepIds.filter((id) => steps[id].kind === kind);
+    return byKind.length > 0 ? byKind : stepIds.filter((id) => !linked.has(id));
+  };
+  successors.set(START, boundary(process.startsWith, 'start', hasIncoming));
+  const ends = new Set(boundary(process.endsWith, 'end', hasOutgoing));
+
+  const parallelSplits = new Set(stepIds.filter((id) => {
+    const outgoing = links.filter((link) => link.from === id);
+    return steps[id].kind !== 'decision' && outgoing.length > 1 &&
+      outgoing.every((link) => link.probability === undefined && link.condition === undefined);
+  }));
+  const observable = new Set((source.activityMappings ?? []).map((mapping) => mapping.step).filter((id) => steps[id]));
+
+  /**
+   * Cheapest path from a step to one of the targets (0-1 BFS), where
+   * passing an observable step that has not run yet costs 1.
+   */
+  const findPath = (origin: string, targets: Set<string>, executed: Set<string>): ReplayPath | undefined => {
+    if (targets.has(origin) && successors.get(origin)?.includes(origin)) return { steps: [origin], cost: 0 };
+    const cost = new Map([[origin, 0]]);
+    const previous = new Map<string, string>();
+    const queue = [origin];
+    const done = new Set<string>();
+    while (queue.length > 0) {
+      const id = queue.shift()!;
+      if (done.has(id)) continue;
+      done.add(id);
+      if (id !== origin && targets.has(id)) {
+        const path = [id];
+        while (previous.get(path[0]) !== origin) path.unshift(previous.get(path[0])!);
+        return { steps: path, cost: cost.get(id)! };
+      }
+      const base = id !== origin && observable.has(id) && !executed.has(id) ? 1 : 0;
+      for (const next of successors.get(id) ?? []) {
+        const nextCost = cost.get(id)! + base;
+        if (cost.has(next) && cost.get(next)! <= nextCost) continue;
+        cost.set(next, nextCost);
+        previous.set(next, id);
+        if (base === 0) queue.unshift(next);
+        else queue.push(next);
+      }
+    }
+    return undefined;
+  };
+
+  /**
+   * Cheapest path from a parallel split through one of its branches that
+   * has not started yet.
+   */
+  const findBranchPath = (split: string, targets: Set<string>, executed: Set<string>, visited: string[]): ReplayPath | undefined => {
+    if (!parallelSplits.has(split)) return undefined;
+    let best: ReplayPath | undefined;
+    for (const branch of successors.get(split) ?? []) {
+      if (visited.includes(branch)) continue;
+      const rest = targets.has(branch) ? { steps: [], cost: 0 } : findPath(branch, targets, executed);
+      if (!rest) continue;
+      const cost = rest.cost + (rest.steps.length > 0 && observable.has(branch) && !executed.has(branch) ? 1 : 0);
+      if (!best || cost < best.cost) best = { steps: [branch, ...rest.steps], cost };
+    }
+    return best;
+  };
+
+  const label = (id: string) => `${id} ${steps[id].name}`;
+  const cases: CaseConformance[] = [];
+  let totalMoves = 0;
+  let totalDeviations = 0;
+
+  for (const trace of getTraces(log)) {
+    const deviations: ConformanceDeviation[] = [];
+    const executed = new Set<string>();
+    const visited: string[] = [START];
+    let current = START;
+
+    const pass = (path: ReplayPath) => {
+      for (const id of path.steps.slice(0, -1)) {
+        if (observable.has(id) && !executed.has(id)) {
+          deviations.push({ type: 'skipped-step', step: id, message: `Skipped ${label(id)}` });
+        }
+      }
+      visited.push(...path.steps);
+    };
+
+    for (const instance of trace.activities) {
+      const step = mapActivity(source, instance.activity);
+      if (!step || !steps[step]) {
+        deviations.push({ type: 'unmodeled-activity', activity: instance.activity, message: `Unmodeled activity "${instance.activity}"` });
+        continue;
+      }
+
+      // Continue from the current step, from a branch of a parallel split
+      // that has not started yet, or (out of order) from an earlier position
+      let best: { path: ReplayPath; cost: number; penalty: number } | undefined;
+      const target = new Set([step]);
+      for (const origin of [current, ...new Set([...visited].reverse().filter((id) => id !== current))]) {
+        let path = origin === current ? findPath(origin, target, executed) : findBranchPath(origin, target, executed, visited);
+        let penalty = 0;
+        if (!path && origin !== current) {
+          path = findPath(origin, target, executed);
+          penalty = 1;
+        }
+        if (!path) continue;
+        if (!best || path.cost + penalty < best.cost) best = { path, cost: path.cost + penalty, penalty };
+        if (best.cost === 0) break;
+      }
+      if (!best || best.penalty > 0) {
+        deviations.push({ type: 'unexpected-order', step, activity: instance.activity, message: `${label(step)} out of order` });
+      }
+      if (best) pass(best.path);
+      else visited.push(step);
+      executed.add(step);
+      current = step;
+
+      const actor = instance.resource ? mapResource(source, instance.resource) : undefined;
+      const raci = steps[step].RACI;
+      const allowed = [...(raci?.responsible ?? []), ...(raci?.accountable ?? [])];
+      if (actor && allowed.length > 0 && !allowed.includes(actor)) {
+        deviations.push({
+          type: 'wrong-actor',
+          step,
+          activity: instance.activity,
+          resource: instance.resource,
+          actor,
+          message: `${label(step)} performed by ${instance.resource} (${actor}) instead of ${allowed.join(', ')}`,
+        });
+      }
+    }
+
+    if (executed.size > 0 && !ends.has(current)) {
+      const path = findPath(current, ends, executed);
+      if (path) pass(path);
+    }
+
+    // Branches of parallel splits that never started, up to where they join
+    for (const split of new Set(visited)) {
+      if (!parallelSplits.has(split)) continue;
+      for (const branch of successors.get(split) ?? []) {
+        if (visited.includes(branch)) continue;
+        const rest = findPath(branch, new Set(visited), executed) ?? findPath(branch, ends, executed);
+        pass({ steps: [branch, ...(rest?.steps ?? [branch])], cost: 0 });
+      }
+    }
+
+    const moves = trace.activities.length + deviations.filter((deviation) => deviation.type === 'skipped-step').length;
+    const failed = deviations.filter((deviation) => deviation.type !== 'wrong-actor').length;
+    totalMoves += moves;
+    totalDeviations += failed;
+    cases.push({
+      caseId: trace.caseId,
+      events: trace.activities.length,
+      fitness: moves === 0 ? 1 : 1 - failed / moves,
+      deviations,
+    });
+  }
+
+  const summaries = new Map<string, DeviationSummary & { caseIds: Set<string> }>();
+  for (const result of cases) {
+    for (const deviation of result.deviations) {
+      const key = `${deviation.type}\u0000${deviation.message}`;
+      const summary = summaries.get(key) ?? { type: deviation.type, message: deviation.message, occurrences: 0, cases: 0, caseIds: new Set() };
+      summary.occurrences++;
+      summary.caseIds.add(result.caseId);
+      summaries.set(key, summary);
+    }
+  }
+
+  return {
+    caseCount: cases.length,
+    fittingCases: cases.filter((result) => result.deviations.every((deviation) => deviation.type === 'wrong-actor')).length,
+    fitness: totalMoves === 0 ? 1 : 1 - totalDeviations / totalMoves,
+    cases,
+    deviations: [...summaries.values()]
+      .map(({ caseIds, ...summary }) => ({ ...summary, cases: caseIds.size }))
+      .sort((a, b) => b.cases - a.cases || b.occurrences - a.occurrences || a.message.localeCompare(b.message)),
+  };
+}
+
+// =============================================================================
+// CSV Output
+// =============================================================================
+
+function csvField(value: string | number): string {
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Format the per-case results of a conformance check as CSV, one row per
+ * case with deviation counts and descriptions.
+ */
+export function formatConformanceCsv(result: ConformanceResult): string {
+  const count = (deviations: ConformanceDeviation[], type: DeviationType) =>
+    deviations.filter((deviation) => deviation.type === type).length;
+  const rows = [
+    ['case_id', 'events', 'fitness', 'skipped_steps', 'unmodeled_activities', 'unexpected_order', 'wrong_actor', 'deviations'],
+    ...result.cases.map(({ caseId, events, fitness, deviations }) => [
+      caseId,
+      events,
+      Math.round(fitness * 1000) / 1000,
+      count(deviations, 'skipped-step'),
+      count(deviations, 'unmodeled-activity'),
+      count(deviations, 'unexpected-order'),
+      count(deviations, 'wrong-actor'),
+      deviations.map((deviation) => deviation.message).join('; '),
+    ]),
+  ];
+  return rows.map((row) => row.map(csvField).join(',')).join('\n') + '\n';
+}
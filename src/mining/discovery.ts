@@ -0,0 +1,328 @@
+/**
+ * Process Discovery (Browser-Safe)
+ *
+ * Builds the directly-follows graph of an event log and turns it into a
+ * draft process: one action step per activity between a start and an end
+ * step, and one link per observed directly-follows relation with its
+ * branch probability.
+ *
+ * NOISE FILTERING
+ * - `activityThreshold` drops activities that occur in fewer than that
+ *   share of cases; their events are removed from the traces, so the
+ *   activities around them become directly connected.
+ * - `pathThreshold` drops relations that carry less than that share of
+ *   the cases leaving their source. Every activity keeps its most frequent
+ *   incoming and outgoing relation, so the draft stays connected.
+ *
+ * Probabilities are recomputed over the relations that are kept.
+ *
+ * @module ubml/mining/discovery
+ */
+
+import type { MiningSource, Process, ProcessDocument, Step } from '../generated/types.js';
+import { SCHEMA_VERSION } from '../constants.js';
+import type { IdAllocator } from '../import/bpmn.js';
+import { ID_CONFIG, formatId, type IdPrefix } from '../metadata.js';
+import { formatHours } from '../utils/duration.js';
+import { getTraces, profileEventLog, type EventLog } from './event-log.js';
+
+// =============================================================================
+// Public Types
+// =============================================================================
+
+/**
+ * An activity of a directly-follows graph.
+ */
+export interface DirectlyFollowsActivity {
+  activity: string;
+  /** Number of executions */
+  frequency: number;
+  /** Number of cases with at least one execution */
+  cases: number;
+  /** Median time from start to completion, when the log records start times */
+  medianDurationHours?: number;
+}
+
+/**
+ * A directly-follows relation. An empty `from` is the start of a case,
+ * an empty `to` its end.
+ */
+export interface DirectlyFollowsEdge {
+  from: string;
+  to: string;
+  /** Number of times `to` directly followed `from` */
+  frequency: number;
+  /** Share of the relations leaving `from` */
+  probability: number;
+  /** Median time from the completion of `from` to the start (or completion) of `to` */
+  medianWaitHours?: number;
+}
+
+/**
+ * Directly-follows graph of an event log, after noise filtering.
+ */
+export interface DirectlyFollowsGraph {
+  /** Number of cases with at least one kept activity */
+  caseCount: number;
+  /** Activities in typical execution order */
+  activities: DirectlyFollowsActivity[];
+  /** Relations, including case starts and ends, ordered by source and frequency */
+  edges: DirectlyFollowsEdge[];
+  /** What noise filtering removed */
+  filtered: { activities: string[]; edges: number };
+}
+
+/**
+ * Noise filtering thresholds, as shares between 0 and 1.
+ */
+export interface DiscoveryOptions {
+  /** Minimum share of cases an activity must occur in (default 0) */
+  activityThreshold?: number;
+  /** Minimum share of the relations leaving an activity (default 0) */
+  pathThreshold?: number;
+}
+
+/**
+ * Options for drafting a process from an event log.
+ */
+export interface DiscoverProcessOptions extends DiscoveryOptions {
+  /** Mining source ID, mentioned in the process description */
+  sourceId?: string;
+  /** ID allocator (default: sequential IDs from the `ubml add` range, in steps of 10) */
+  allocateIds?: IdAllocator;
+}
+
+/**
+ * A draft process discovered from an event log.
+ */
+export interface DiscoveredProcess {
+  /** Process document with one process */
+  document: ProcessDocument;
+  processId: string;
+  graph: DirectlyFollowsGraph;
+  /** Activity mappings from each activity to its step */
+  activityMappings: { activity: string; step: string }[];
+}
+
+// =============================================================================
+// Directly-Follows Graph
+// =============================================================================
+
+function median(values: number[]): number | undefined {
+  if (values.length === 0) return undefined;
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 1 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+}
+
+const HOUR = 3_600_000;
+
+/**
+ * Build the directly-follows graph of an event log.
+ *
+ * @param log - Events read from a mining source
+ * @param options - Noise filtering thresholds
+ */
+export function buildDirectlyFollowsGraph(log: EventLog, options: DiscoveryOptions = {}): DirectlyFollowsGraph {
+  const { activityThreshold = 0, pathThreshold = 0 } = options;
+  const allTraces = getTraces(log);
+
+  const casesByActivity = new Map<string, number>();
+  for (const trace of allTraces) {
+    for (const activity of new Set(trace.activities.map((instance) => instance.activity))) {
+      casesByActivity.set(activity, (casesByActivity.get(activity) ?? 0) + 1);
+    }
+  }
+  const removed = [...casesByActivity]
+    .filter(([, cases]) => cases < activityThreshold * allTraces.length)
+    .map(([activity]) => activity)
+    .sort();
+  const removedSet = new Set(removed);
+  const traces = allTraces
+    .map((trace) => trace.activities.filter((instance) => !removedSet.has(instance.activity)))
+    .filter((activities) => activities.length > 0);
+
+  // Activities with their typical position
+  const stats = new Map<string, { frequency: number; cases: Set<number>; durations: number[]; position: number }>();
+  const edgeStats = new Map<string, { from: string; to: string; frequency: number; waits: number[] }>();
+  traces.forEach((activities, traceIndex) => {
+    activities.forEach((instance, index) => {
+      const stat = stats.get(instance.activity) ?? { frequency: 0, cases: new Set(), durations: [], position: 0 };
+      stat.frequency++;
+      stat.cases.add(traceIndex);
+      stat.position += activities.length === 1 ? 0 : index / (activities.length - 1);
+      if (instance.start !== undefined && instance.end !== undefined && instance.end >= instance.start) {
+        stat.durations.push((instance.end - instance.start) / HOUR);
+      }
+      stats.set(instance.activity, stat);
+    });
+
+    const path = ['', ...activities.map((instance) => instance.activity), ''];
+    for (let i = 0; i < path.length - 1; i++) {
+      const key = `${path[i]}\u0000${path[i + 1]}`;
+      const edge = edgeStats.get(key) ?? { from: path[i], to: path[i + 1], frequency: 0, waits: [] };
+      edge.frequency++;
+      const previous = activities[i - 1];
+      const next = activities[i];
+      const nextTime = next?.start ?? next?.end;
+      if (previous?.end !== undefined && nextTime !== undefined && nextTime >= previous.end) {
+        edge.waits.push((nextTime - previous.end) / HOUR);
+      }
+      edgeStats.set(key, edge);
+    }
+  });
+
+  const activities: DirectlyFollowsActivity[] = [...stats]
+    .sort(([a, statA], [b, statB]) => statA.position / statA.frequency - statB.position / statB.frequency || a.localeCompare(b))
+    .map(([activity, stat]) => ({
+      activity,
+      frequency: stat.frequency,
+      cases: stat.cases.size,
+      medianDurationHours: median(stat.durations),
+    }));
+  const order = new Map(activities.map(({ activity }, index) => [activity, index]));
+  const rank = (activity: string, end: boolean) => (activity === '' ? (end ? activities.length : -1) : order.get(activity)!);
+
+  // Keep frequent paths and the strongest path in and out of every activity
+  const all = [...edgeStats.values()];
+  const outgoing = (from: string, edges: typeof all) => edges.filter((edge) => edge.from === from);
+  const strongest = (edges: typeof all) => edges.reduce((best, edge) => (edge.frequency > best.frequency ? edge : best));
+  const kept = new Set(all.filter((edge) => {
+    const total = outgoing(edge.from, all).reduce((sum, other) => sum + other.frequency, 0);
+    return edge.frequency >= pathThreshold * total;
+  }));
+  for (const activity of ['', ...order.keys()]) {
+    const out = outgoing(activity, all);
+    const incoming = all.filter((edge) => edge.to === activity);
+    if (out.length > 0) kept.add(strongest(out));
+    if (incoming.length > 0) kept.add(strongest(incoming));
+  }
+
+  const edges: DirectlyFollowsEdge[] = [...kept]
+    .sort((a, b) => rank(a.from, false) - rank(b.from, false) || b.frequency - a.frequency || rank(a.to, true) - rank(b.to, true))
+    .map((edge) => {
+      const total = outgoing(edge.from, [...kept]).reduce((sum, other) => sum + other.frequency, 0);
+      return {
+        from: edge.from,
+        to: edge.to,
+        frequency: edge.frequency,
+        probability: edge.frequency / total,
+        medianWaitHours: median(edge.waits),
+      };
+    });
+
+  return {
+    caseCount: traces.length,
+    activities,
+    edges,
+    filtered: { activities: removed, edges: all.length - kept.size },
+  };
+}
+
+// =============================================================================
+// Draft Process
+// =============================================================================
+
+/**
+ * Round branch probabilities to two decimals so they still sum to 1.
+ */
+function roundProbabilities(probabilities: number[]): number[] {
+  const rounded = probabilities.map((probability) => Math.round(probability * 100) / 100);
+  const largest = rounded.indexOf(Math.max(...rounded));
+  rounded[largest] = Math.round((1 - rounded.reduce((sum, value, index) => (index === largest ? sum : sum + value), 0)) * 100) / 100;
+  return rounded;
+}
+
+function defaultAllocator(requests: { prefix: IdPrefix; count: number }[]): Map<IdPrefix, string[]> {
+  const result = new Map<IdPrefix, string[]>();
+  for (const { prefix, count } of requests) {
+    result.set(prefix, Array.from({ length: count }, (_, i) => formatId(prefix, ID_CONFIG.addOffset + i * 10)));
+  }
+  return result;
+}
+
+/**
+ * Draft a process from the directly-follows graph of an event log.
+ *
+ * @param log - Events read from a mining source
+ * @param source - The mining source, which names the process
+ * @param options - Noise filtering thresholds and ID allocation
+ * @throws When no activity is left after filtering
+ *
+ * @example
+ * ```typescript
+ * import { discoverProcess, parseEventLog, serialize } from 'ubml';
+ *
+ * const log = parseEventLog(csvText, source);
+ * const { document } = discoverProcess(log, source, { activityThreshold: 0.05, pathThreshold: 0.1 });
+ * console.log(serialize(document));
+ * ```
+ */
+export function discoverProcess(log: EventLog, source: MiningSource, options: DiscoverProcessOptions = {}): DiscoveredProcess {
+  const graph = buildDirectlyFollowsGraph(log, options);
+  if (graph.activities.length === 0) {
+    throw new Error('No activities left to discover a process from');
+  }
+
+  const allocated = (options.allocateIds ?? defaultAllocator)([
+    { prefix: 'PR', count: 1 },
+    { prefix: 'ST', count: graph.activities.length + 2 },
+  ]);
+  const take = (prefix: IdPrefix): string => {
+    const id = allocated.get(prefix)?.shift();
+    if (!id) throw new Error(`ID allocator returned too few ${prefix} IDs`);
+    return id;
+  };
+  const processId = take('PR');
+
+  const stepIds = new Map<string, string>();
+  const steps: Record<string, Step> = {};
+  const startId = take('ST');
+  steps[startId] = { name: 'Start', kind: 'start' };
+  for (const activity of graph.activities) {
+    const id = take('ST');
+    stepIds.set(activity.activity, id);
+    const duration = activity.medianDurationHours === undefined ? '' : `, median duration ${formatHours(activity.medianDurationHours)}`;
+    steps[id] = {
+      name: activity.activity,
+      kind: 'action',
+      description: `Observed ${activity.frequency} times in ${activity.cases} cases${duration}`,
+    };
+  }
+  const endId = take('ST');
+  steps[endId] = { name: 'End', kind: 'end' };
+
+  const links: NonNullable<Process['links']> = [];
+  for (const from of ['', ...stepIds.keys()]) {
+    const outgoing = graph.edges.filter((edge) => edge.from === from);
+    const probabilities = roundProbabilities(outgoing.map((edge) => edge.probability));
+    outgoing.forEach((edge, index) => {
+      links.push({
+        from: from === '' ? startId : stepIds.get(from)!,
+        to: edge.to === '' ? endId : stepIds.get(edge.to)!,
+        ...(outgoing.length > 1 ? { probability: probabilities[index] } : {}),
+      });
+    });
+  }
+
+  const { dateRange } = profileEventLog(log, source);
+  const period = dateRange ? `, ${dateRange.from} to ${dateRange.to}` : '';
+  const document: ProcessDocument = {
+    ubml: SCHEMA_VERSION as ProcessDocument['ubml'],
+    processes: {
+      [processId]: {
+        name: source.name,
+        description: `Draft discovered from ${options.sourceId ?? 'an event log'} (${graph.caseCount} cases${period}). Review before use.`,
+        steps,
+        links,
+      },
+    },
+  };
+
+  return {
+    document,
+    processId,
+    graph,
+    activityMappings: [...stepIds].map(([activity, step]) => ({ activity, step })),
+  };
+}
@@ -0,0 +1,584 @@
+/**
+ * Event Log Loading (Browser-Safe)
+ *
+ * Reads the event log of a mining source from CSV or XES text, following
+ * the source's `columns`, `timestampFormat` and `filters`, and profiles it
+ * into the statistics a mining source records (`recordCount`, `caseCount`,
+ * `dateRange`, `quality`).
+ *
+ * CSV
+ * - RFC 4180 quoting; the delimiter (comma, semicolon or tab) is detected
+ *   from the header line.
+ * - `columns.caseId` and `columns.activity` are required.
+ *
+ * XES
+ * - The case ID is the trace's `concept:name`. Events use `concept:name`,
+ *   `time:timestamp`, `org:resource` and `lifecycle:transition` unless
+ *   `columns` names other attribute keys.
+ * - Trace attributes are visible to filters on every event of the trace.
+ *
+ * Timestamps without a time zone are read as UTC.
+ *
+ * @module ubml/mining/event-log
+ */
+
+import type { MiningSource } from '../generated/types.js';
+import { childElements, localName, parseXml, type XmlElement } from '../utils/xml.js';
+
+// =============================================================================
+// Public Types
+// =============================================================================
+
+/**
+ * One event of an event log.
+ */
+export interface EventLogEvent {
+  caseId: string;
+  activity: string;
+  /** Event time in milliseconds since the epoch; the end time when start and end are separate */
+  timestamp?: number;
+  /** Start time, when the log has a separate start column */
+  startTimestamp?: number;
+  resource?: string;
+  lifecycle?: string;
+  /** All columns (CSV) or attributes (XES) of the event, as read */
+  attributes: Record<string, string>;
+}
+
+/**
+ * Events read from a mining source, in file order.
+ */
+export interface EventLog {
+  events: EventLogEvent[];
+  /** Rows or events that were skipped or only partly read */
+  warnings: string[];
+}
+
+/**
+ * Statistics of an event log, as recorded on its mining source.
+ */
+export interface EventLogProfile {
+  /** Number of events */
+  recordCount: number;
+  /** Number of distinct cases */
+  caseCount: number;
+  /** First and last event date (YYYY-MM-DD, UTC) */
+  dateRange?: { from: string; to: string };
+  quality: {
+    /** Percentage of cases whose events all have an activity, a timestamp and (when the log records resources) a resource */
+    completeness: number;
+    unmappedActivities: number;
+    unmappedResources: number;
+  };
+  /** Distinct activities and resources without a mapping, sorted */
+  unmapped: { activities: string[]; resources: string[] };
+}
+
+// =============================================================================
+// Timestamps
+// =============================================================================
+
+const ISO_TIMESTAMP = /^(\d{4})-(\d{2})-(\d{2})(?:[T ](\d{2}):(\d{2})(?::(\d{2})(?:[.,](\d+))?)?)?\s*(Z|[+-]\d{2}:?\d{2})?$/i;
+
+const FORMAT_TOKENS: Record<string, string> = {
+  YYYY: '(?<year>\\d{4})',
+  YY: '(?<shortYear>\\d{2})',
+  MM: '(?<month>\\d{1,2})',
+  DD: '(?<day>\\d{1,2})',
+  HH: '(?<hour>\\d{1,2})',
+  mm: '(?<minute>\\d{2})',
+  ss: '(?<second>\\d{2})',
+  SSS: '(?<millisecond>\\d{1,3})',
+};
+
+const formatPatterns = new Map<string, RegExp>();
+
+function formatPattern(format: string): RegExp {
+  let pattern = formatPatterns.get(format);
+  if (!pattern) {
+    const source = format.split(/(YYYY|YY|MM|DD|HH|mm|ss|SSS)/)
+      .map((part) => FORMAT_TOKENS[part] ?? part.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'))
+      .join('');
+    pattern = new RegExp(`^${source}$`);
+    formatPatterns.set(format, pattern);
+  }
+  return pattern;
+}
+
+function utc(year: number, month: number, day: number, hour = 0, minute = 0, second = 0, millisecond = 0): number | undefined {
+  const time = Date.UTC(year, month - 1, day, hour, minute, second, millisecond);
+  const date = new Date(time);
+  // Reject rollovers such as 31/02
+  if (date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day || hour > 23 || minute > 59 || second > 59) {
+    return undefined;
+  }
+  return time;
+}
+
+/**
+ * Parse a timestamp in the given format.
+ *
+ * The format uses the tokens YYYY, YY, MM, DD, HH, mm, ss and SSS; other
+ * characters match literally. Without a format, or with "ISO8601", ISO 8601
+ * date-times are accepted (with a space or T before the time).
+ *
+ * @returns Milliseconds since the epoch, or undefined when the value does not match
+ */
+export function parseTimestamp(value: string, format?: string): number | undefined {
+  const text = value.trim();
+  if (!format || format.toUpperCase() === 'ISO8601') {
+    const match = ISO_TIMESTAMP.exec(text);
+    if (!match) return undefined;
+    const [, year, month, day, hour, minute, second, fraction, zone] = match;
+    const time = utc(+year, +month, +day, +(hour ?? 0), +(minute ?? 0), +(second ?? 0), fraction ? Math.round(+`0.${fraction}` * 1000) : 0);
+    if (time === undefined || !zone || zone.toUpperCase() === 'Z') return time;
+    const sign = zone.startsWith('-') ? -1 : 1;
+    const digits = zone.slice(1).replace(':', '');
+    return time - sign * (+digits.slice(0, 2) * 60 + +digits.slice(2)) * 60_000;
+  }
+
+  const groups = formatPattern(format).exec(text)?.groups;
+  if (!groups) return undefined;
+  const year = groups.year ? +groups.year : 2000 + +(groups.shortYear ?? 0);
+  return utc(
+    year,
+    +(groups.month ?? 1),
+    +(groups.day ?? 1),
+    +(groups.hour ?? 0),
+    +(groups.minute ?? 0),
+    +(groups.second ?? 0),
+    groups.millisecond ? +groups.millisecond.padEnd(3, '0') : 0
+  );
+}
+
+// =============================================================================
+// Mappings
+// =============================================================================
+
+const mappingPatterns = new Map<string, RegExp>();
+
+/**
+ * Compile the pattern of a mapping to match whole values.
+ *
+ * @throws When the pattern is not a valid regular expression
+ */
+function mappingPattern(pattern: string, kind: 'Activity' | 'Resource'): RegExp {
+  let compiled = mappingPatterns.get(pattern);
+  if (!compiled) {
+    try {
+      compiled = new RegExp(`^(?:${pattern})$`);
+    } catch {
+      throw new Error(`${kind} mapping pattern "${pattern}" is not a valid regular expression`);
+    }
+    mappingPatterns.set(pattern, compiled);
+  }
+  return compiled;
+}
+
+/**
+ * Find the step an event log activity maps to.
+ *
+ * @returns The step ID of the first matching activity mapping
+ * @throws When a pattern mapping is not a valid regular expression
+ */
+export function mapActivity(source: MiningSource, activity: string): string | undefined {
+  return source.activityMappings?.find((mapping) => {
+    if (mapping.activity === undefined) return false;
+    if (Array.isArray(mapping.activity)) return mapping.activity.includes(activity);
+    return mapping.type === 'pattern' ? mappingPattern(mapping.activity, 'Activity').test(activity) : mapping.activity === activity;
+  })?.step;
+}
+
+/**
+ * Find the actor an event log resource maps to.
+ *
+ * @returns The actor ID of the first matching resource mapping
+ * @throws When a pattern mapping is not a valid regular expression
+ */
+export function mapResource(source: MiningSource, resource: string): string | undefined {
+  return source.resourceMappings?.find((mapping) =>
+    mapping.type === 'pattern' ? mappingPattern(mapping.resource, 'Resource').test(resource) : mapping.resource === resource
+  )?.actor;
+}
+
+// =============================================================================
+// Reading
+// =============================================================================
+
+/**
+ * Counts skipped or partly read records per problem, reporting the first one.
+ */
+function createIssues() {
+  const issues = new Map<string, { count: number; first: string }>();
+  return {
+    add(problem: string, where: string): void {
+      const issue = issues.get(problem);
+      if (issue) issue.count++;
+      else issues.set(problem, { count: 1, first: where });
+    },
+    list(noun: string): string[] {
+      return [...issues].map(([problem, { count, first }]) =>
+        `${problem}: ${count} ${noun}${count === 1 ? '' : 's'} (first: ${first})`);
+    },
+  };
+}
+
+function compare(actual: string, expected: string | number, timestampFormat: string | undefined, isTime: boolean): number | undefined {
+  if (isTime) {
+    const left = parseTimestamp(actual, timestampFormat);
+    const right = typeof expected === 'number' ? expected : parseTimestamp(expected, timestampFormat) ?? parseTimestamp(expected);
+    return left === undefined || right === undefined ? undefined : left - right;
+  }
+  const left = Number(actual);
+  const right = Number(expected);
+  if (actual.trim() !== '' && !Number.isNaN(left) && !Number.isNaN(right)) return left - right;
+  const text = String(expected);
+  return actual < text ? -1 : actual > text ? 1 : 0;
+}
+
+function createFilter(source: MiningSource, timeColumns: string[]): (attributes: Record<string, string>) => boolean {
+  const filters = source.filters ?? [];
+  return (attributes) => filters.every(({ column, operator, value }) => {
+    const actual = attributes[column] ?? '';
+    const expected = String(value);
+    switch (operator) {
+      case 'equals': return actual === expected;
+      case 'not_equals': return actual !== expected;
+      case 'contains': return actual.includes(expected);
+      case 'starts_with': return actual.startsWith(expected);
+      case 'ends_with': return actual.endsWith(expected);
+      case 'greater_than': return (compare(actual, value, source.timestampFormat, timeColumns.includes(column)) ?? 0) > 0;
+      case 'less_than': return (compare(actual, value, source.timestampFormat, timeColumns.includes(column)) ?? 0) < 0;
+    }
+  });
+}
+
+/**
+ * Split CSV text into records of fields, with the line each record starts on.
+ */
+function readCsvRecords(text: string): { line: number; fields: string[] }[] {
+  const input = text.replace(/^\uFEFF/, '');
+  const headerEnd = input.search(/\r?\n/);
+  const header = headerEnd === -1 ? input : input.slice(0, headerEnd);
+  const unquoted = header.replace(/"[^"]*"/g, '');
+  const delimiter = [',', ';', '\t'].reduce((best, candidate) =>
+    unquoted.split(candidate).length > unquoted.split(best).length ? candidate : best);
+
+  const records: { line: number; fields: string[] }[] = [];
+  let fields: string[] = [];
+  let field = '';
+  let quoted = false;
+  let line = 1;
+  let start = 1;
+  const endRecord = () => {
+    fields.push(field);
+    if (fields.length > 1 || fields[0].trim() !== '') records.push({ line: start, fields });
+    fields = [];
+    field = '';
+  };
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+    if (quoted) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        if (char === '\n') line++;
+        field += char;
+      }
+    } else if (char === '"' && field === '') {
+      quoted = true;
+    } else if (char === delimiter) {
+      fields.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      endRecord();
+      start = ++line;
+    } else {
+      field += char;
+    }
+  }
+  if (field !== '' || fields.length > 0) endRecord();
+  return records;
+}
+
+/**
+ * Read the events of a CSV mining source.
+ *
+ * @param text - CSV file content with a header line
+ * @param source - Mining source with the column mapping
+ * @throws When a mapped or filtered column is not in the header
+ */
+export function parseCsvEventLog(text: string, source: MiningSource): EventLog {
+  const columns = source.columns ?? {};
+  if (!columns.caseId || !columns.activity) {
+    throw new Error('CSV sources need columns.caseId and columns.activity');
+  }
+
+  const [header, ...rows] = readCsvRecords(text);
+  const names = (header?.fields ?? []).map((name) => name.trim());
+  const required = [...Object.values(columns), ...(source.filters ?? []).map((filter) => filter.column)];
+  const missing = required.filter((column) => column && !names.includes(column));
+  if (missing.length > 0) {
+    throw new Error(`Column${missing.length === 1 ? '' : 's'} ${[...new Set(missing)].map((column) => `"${column}"`).join(', ')} not found in CSV header`);
+  }
+
+  const timeColumns = [columns.timestamp, columns.startTimestamp, columns.endTimestamp].filter((column): column is string => !!column);
+  const accept = createFilter(source, timeColumns);
+  const issues = createIssues();
+  const events: EventLogEvent[] = [];
+
+  for (const { line, fields } of rows) {
+    const where = `line ${line}`;
+    if (fields.length !== names.length) issues.add(`${fields.length < names.length ? 'Fewer' : 'More'} fields than the header`, where);
+    const attributes: Record<string, string> = {};
+    names.forEach((name, index) => { attributes[name] = fields[index] ?? ''; });
+    if (!accept(attributes)) continue;
+
+    const event = toEvent(attributes, attributes[columns.caseId], columns, source.timestampFormat, where, issues);
+    if (event) events.push(event);
+  }
+
+  return { events, warnings: issues.list('row') };
+}
+
+function xesAttributes(element: XmlElement): Record<string, string> {
+  const attributes: Record<string, string> = {};
+  for (const child of childElements(element)) {
+    const key = child.attributes?.key;
+    const value = child.attributes?.value;
+    if (localName(child.name) !== 'event' && key !== undefined && value !== undefined) {
+      attributes[String(key)] = String(value);
+    }
+  }
+  return attributes;
+}
+
+/**
+ * Read the events of an XES (IEEE 1849) mining source.
+ *
+ * @param text - XES document
+ * @param source - Mining source; `columns` may name other attribute keys
+ * @throws When the document is not well-formed XML or not an XES log
+ */
+export function parseXesEventLog(text: string, source: MiningSource): EventLog {
+  const root = parseXml(text);
+  if (localName(root.name) !== 'log') {
+    throw new Error(`Expected an XES <log> element, found <${root.name}>`);
+  }
+
+  const columns = source.columns ?? {};
+  const keys: NonNullable<MiningSource['columns']> = {
+    activity: 'concept:name',
+    timestamp: 'time:timestamp',
+    resource: 'org:resource',
+    lifecycle: 'lifecycle:transition',
+    ...columns,
+  };
+  const caseKey = columns.caseId ?? 'concept:name';
+  const timeColumns = [keys.timestamp, keys.startTimestamp, keys.endTimestamp].filter((column): column is string => !!column);
+  const accept = createFilter(source, timeColumns);
+  const issues = createIssues();
+  const events: EventLogEvent[] = [];
+
+  childElements(root, 'trace').forEach((trace, traceIndex) => {
+    const traceAttributes = xesAttributes(trace);
+    childElements(trace, 'event').forEach((element, eventIndex) => {
+      const attributes = { ...traceAttributes, ...xesAttributes(element) };
+      if (!accept(attributes)) return;
+      const event = toEvent(attributes, traceAttributes[caseKey], keys, source.timestampFormat, `trace ${traceIndex + 1}, event ${eventIndex + 1}`, issues);
+      if (event) events.push(event);
+    });
+  });
+
+  return { events, warnings: issues.list('event') };
+}
+
+function toEvent(
+  attributes: Record<string, string>,
+  caseId: string | undefined,
+  columns: NonNullable<MiningSource['columns']>,
+  timestampFormat: string | undefined,
+  where: string,
+  issues: ReturnType<typeof createIssues>
+): EventLogEvent | undefined {
+  const value = (column: string | undefined) => (column ? attributes[column]?.trim() || undefined : undefined);
+
+  caseId = caseId?.trim();
+  if (!caseId) {
+    issues.add('No case ID, skipped', where);
+    return undefined;
+  }
+
+  const time = (column: string | undefined) => {
+    const text = value(column);
+    if (text === undefined) return undefined;
+    const parsed = parseTimestamp(text, timestampFormat);
+    if (parsed === undefined) issues.add(`Unreadable timestamp in "${column}"`, `${where}, "${text}"`);
+    return parsed;
+  };
+  const startTimestamp = time(columns.startTimestamp);
+  const end = columns.endTimestamp ? time(columns.endTimestamp) : undefined;
+  const timestamp = end ?? time(columns.timestamp) ?? startTimestamp;
+
+  return {
+    caseId,
+    activity: value(columns.activity) ?? '',
+    timestamp,
+    startTimestamp,
+    resource: value(columns.resource),
+    lifecycle: value(columns.lifecycle),
+    attributes,
+  };
+}
+
+/**
+ * Read the event log of a mining source.
+ *
+ * @param text - File content
+ * @param source - Mining source of type csv or xes
+ * @throws For other source types and unreadable files
+ *
+ * @example
+ * ```typescript
+ * import { parseEventLog, profileEventLog } from 'ubml';
+ *
+ * const log = parseEventLog(csvText, miningDocument.miningSources.MS00001);
+ * console.log(profileEventLog(log, source).caseCount);
+ * ```
+ */
+export function parseEventLog(text: string, source: MiningSource): EventLog {
+  switch (source.type) {
+    case 'csv': return parseCsvEventLog(text, source);
+    case 'xes': return parseXesEventLog(text, source);
+    default: throw new Error(`Cannot read ${source.type} sources; only csv and xes files are supported`);
+  }
+}
+
+// =============================================================================
+// Profiling
+// =============================================================================
+
+/**
+ * Group events by case, each case sorted by time (events without a
+ * timestamp keep their file position relative to each other).
+ */
+export function groupCases(log: EventLog): Map<string, EventLogEvent[]> {
+  const cases = new Map<string, EventLogEvent[]>();
+  for (const event of log.events) {
+    const events = cases.get(event.caseId);
+    if (events) events.push(event);
+    else cases.set(event.caseId, [event]);
+  }
+  for (const events of cases.values()) {
+    events.sort((a, b) => (a.timestamp ?? a.startTimestamp ?? 0) - (b.timestamp ?? b.startTimestamp ?? 0));
+  }
+  return cases;
+}
+
+/**
+ * One execution of an activity in a case.
+ */
+export interface ActivityInstance {
+  activity: string;
+  /** Start time, from a start column or a `start` lifecycle event */
+  start?: number;
+  /** Completion time */
+  end?: number;
+  resource?: string;
+}
+
+/**
+ * The activity executions of one case, in order.
+ */
+export interface Trace {
+  caseId: string;
+  activities: ActivityInstance[];
+}
+
+/**
+ * Turn the events of each case into activity executions. A `start`
+ * lifecycle event is paired with the next completing event of the same
+ * activity; other lifecycle transitions count as completions.
+ */
+export function getTraces(log: EventLog): Trace[] {
+  const traces: Trace[] = [];
+  for (const [caseId, events] of groupCases(log)) {
+    const activities: ActivityInstance[] = [];
+    const started = new Map<string, ActivityInstance>();
+    for (const event of events) {
+      if (!event.activity) continue;
+      if (event.lifecycle?.toLowerCase() === 'start') {
+        const instance: ActivityInstance = { activity: event.activity, start: event.timestamp, resource: event.resource };
+        activities.push(instance);
+        started.set(event.activity, instance);
+        continue;
+      }
+      const instance = started.get(event.activity);
+      if (instance) {
+        started.delete(event.activity);
+        instance.end = event.timestamp;
+        instance.resource ??= event.resource;
+      } else {
+        activities.push({ activity: event.activity, start: event.startTimestamp, end: event.timestamp, resource: event.resource });
+      }
+    }
+    traces.push({ caseId, activities });
+  }
+  return traces;
+}
+
+function formatDate(time: number): string {
+  return new Date(time).toISOString().slice(0, 10);
+}
+
+/**
+ * Compute the statistics a mining source records for its event log.
+ *
+ * @param log - Events read from the source
+ * @param source - Mining source with activity and resource mappings
+ */
+export function profileEventLog(log: EventLog, source: MiningSource): EventLogProfile {
+  const cases = groupCases(log);
+  const needsResource = log.events.some((event) => event.resource);
+
+  let complete = 0;
+  for (const events of cases.values()) {
+    if (events.every((event) => event.activity && event.timestamp !== undefined && (!needsResource || event.resource))) {
+      complete++;
+    }
+  }
+
+  let first: number | undefined;
+  let last: number | undefined;
+  for (const event of log.events) {
+    for (const time of [event.startTimestamp, event.timestamp]) {
+      if (time === undefined) continue;
+      if (first === undefined || time < first) first = time;
+      if (last === undefined || time > last) last = time;
+    }
+  }
+
+  const activities = [...new Set(log.events.map((event) => event.activity).filter(Boolean))];
+  const resources = [...new Set(log.events.flatMap((event) => (event.resource ? [event.resource] : [])))];
+  const unmapped = {
+    activities: activities.filter((activity) => !mapActivity(source, activity)).sort(),
+    resources: resources.filter((resource) => !mapResource(source, resource)).sort(),
+  };
+
+  return {
+    recordCount: log.events.length,
+    caseCount: cases.size,
+    dateRange: first !== undefined && last !== undefined ? { from: formatDate(first), to: formatDate(last) } : undefined,
+    quality: {
+      completeness: cases.size === 0 ? 0 : Math.round((complete / cases.size) * 1000) / 10,
+      unmappedActivities: unmapped.activities.length,
+      unmappedResources: unmapped.resources.length,
+    },
+    unmapped,
+  };
+}
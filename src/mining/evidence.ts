@@ -0,0 +1,280 @@
+/**
+ * Evidence from Event Logs (Browser-Safe)
+ *
+ * Measures an event log the way scenario evidence records it and turns
+ * the measurements into `Evidence` entries with their sample size and
+ * percentiles. Duration samples are also fitted to `tri()` and
+ * `lognormal()` expressions that can be pasted into step durations.
+ *
+ * MEASUREMENTS
+ * - processingTime: from the start to the completion of an activity, when
+ *   the log records start times.
+ * - waitingTime: from the completion of the previous activity of the case
+ *   to the start of this one. Without a start time the gap up to the
+ *   completion is recorded as elapsedTime, as it includes both.
+ * - cycleTime: from the first to the last event of a case.
+ * - arrivalRate and throughput: cases started and completed per working
+ *   day, from the mean time between case starts and between case completions.
+ *
+ * Durations are working hours, as in step durations and simulation: only
+ * time from 09:00 to 17:00 on weekdays counts, so a wait overnight or over
+ * a weekend is not measured as 16 or 64 hours of work.
+ *
+ * FITTING
+ * - tri(): the 5th and 95th percentiles as bounds and the mode that keeps
+ *   the sample mean, clamped to the bounds.
+ * - lognormal(): the sample mean and standard deviation.
+ *
+ * @module ubml/mining/evidence
+ */
+
+import type { Evidence, MiningSource } from '../generated/types.js';
+import { DURATION_UNIT_HOURS, formatHours, workingHoursBetween } from '../utils/duration.js';
+import { getTraces, mapActivity, profileEventLog, type EventLog } from './event-log.js';
+
+// =============================================================================
+// Public Types
+// =============================================================================
+
+/**
+ * Statistics of a duration sample, in working hours.
+ */
+export interface DurationStatistics {
+  sampleSize: number;
+  mean: number;
+  stdDev: number;
+  min: number;
+  max: number;
+  percentiles: { p5: number; p50: number; p75: number; p90: number; p95: number };
+  /** Distribution expressions for step durations (`lognormal` needs a positive mean) */
+  fit: { tri: string; lognormal?: string };
+}
+
+/**
+ * Durations measured for one step.
+ */
+export interface StepEvidence {
+  step: string;
+  /** Activities mapped to the step */
+  activities: string[];
+  processing?: DurationStatistics;
+  waiting?: DurationStatistics;
+  /** Waiting and processing together, for activities without a start time */
+  elapsed?: DurationStatistics;
+}
+
+/**
+ * Measurements of an event log and the evidence entries recording them.
+ */
+export interface MinedEvidence {
+  caseCount: number;
+  cycleTime?: DurationStatistics;
+  /** Cases started per working day */
+  arrivalRate?: number;
+  /** Cases completed per working day */
+  throughput?: number;
+  /** Steps in order of first occurrence */
+  steps: StepEvidence[];
+  /** Evidence entries: process measurements first, then each step's */
+  evidence: Evidence[];
+}
+
+/**
+ * Options for computing evidence.
+ */
+export interface ComputeEvidenceOptions {
+  /** Mining source ID, recorded as the `source` of each entry */
+  sourceId?: string;
+  /** Process ID, recorded as the `process` of each entry */
+  processId?: string;
+}
+
+// =============================================================================
+// Statistics
+// =============================================================================
+
+/**
+ * Linearly interpolated percentile of sorted values.
+ */
+function percentile(sorted: number[], share: number): number {
+  const position = (sorted.length - 1) * share;
+  const lower = Math.floor(position);
+  const upper = Math.ceil(position);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (position - lower);
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function describeDurations(hours: number[]): DurationStatistics | undefined {
+  if (hours.length === 0) return undefined;
+  const sorted = [...hours].sort((a, b) => a - b);
+  const sampleSize = sorted.length;
+  const mean = sorted.reduce((sum, value) => sum + value, 0) / sampleSize;
+  const variance = sampleSize > 1 ? sorted.reduce((sum, value) => sum + (value - mean) ** 2, 0) / (sampleSize - 1) : 0;
+  const stdDev = Math.sqrt(variance);
+  const percentiles = {
+    p5: percentile(sorted, 0.05),
+    p50: percentile(sorted, 0.5),
+    p75: percentile(sorted, 0.75),
+    p90: percentile(sorted, 0.9),
+    p95: percentile(sorted, 0.95),
+  };
+
+  const low = round(percentiles.p5);
+  const high = round(percentiles.p95);
+  const mode = Math.min(Math.max(round(3 * mean - low - high), low), high);
+  return {
+    sampleSize,
+    mean,
+    stdDev,
+    min: sorted[0],
+    max: sorted[sampleSize - 1],
+    percentiles,
+    fit: {
+      tri: `tri(h(${low}), h(${mode}), h(${high}))`,
+      lognormal: round(mean) > 0 ? `lognormal(h(${round(mean)}), h(${round(stdDev)}))` : undefined,
+    },
+  };
+}
+
+/**
+ * Events per working day, from the mean working time between events.
+ */
+function perDay(times: number[]): number | undefined {
+  if (times.length < 2) return undefined;
+  const span = workingHoursBetween(Math.min(...times), Math.max(...times)) / DURATION_UNIT_HOURS.d;
+  return span > 0 ? (times.length - 1) / span : undefined;
+}
+
+/**
+ * Confidence from the sample size: 1 from 30 observations, less below.
+ */
+function confidence(sampleSize: number): number {
+  return round(Math.min(1, sampleSize / 30));
+}
+
+// =============================================================================
+// Evidence
+// =============================================================================
+
+/**
+ * Measure an event log and record the measurements as scenario evidence.
+ *
+ * @param log - Events read from a mining source
+ * @param source - The mining source, whose activity mappings name the steps
+ * @param options - IDs to record on the evidence entries
+ *
+ * @example
+ * ```typescript
+ * import { computeEvidence, parseEventLog } from 'ubml';
+ *
+ * const log = parseEventLog(csvText, source);
+ * const { evidence, steps } = computeEvidence(log, source, { sourceId: 'MS00001', processId: 'PR00001' });
+ * for (const { step, processing } of steps) {
+ *   if (processing) console.log(step, processing.fit.tri);
+ * }
+ * ```
+ */
+export function computeEvidence(log: EventLog, source: MiningSource, options: ComputeEvidenceOptions = {}): MinedEvidence {
+  const traces = getTraces(log);
+  const samples = new Map<string, { activities: Set<string>; processing: number[]; waiting: number[]; elapsed: number[] }>();
+  const cycleTimes: number[] = [];
+  const caseStarts: number[] = [];
+  const caseEnds: number[] = [];
+
+  for (const trace of traces) {
+    let previousEnd: number | undefined;
+    const times: number[] = [];
+    for (const instance of trace.activities) {
+      if (instance.start !== undefined) times.push(instance.start);
+      if (instance.end !== undefined) times.push(instance.end);
+
+      const step = mapActivity(source, instance.activity);
+      if (step) {
+        const sample = samples.get(step) ?? { activities: new Set(), processing: [], waiting: [], elapsed: [] };
+        samples.set(step, sample);
+        sample.activities.add(instance.activity);
+        if (instance.start !== undefined && instance.end !== undefined && instance.end >= instance.start) {
+          sample.processing.push(workingHoursBetween(instance.start, instance.end));
+        }
+        if (previousEnd !== undefined) {
+          if (instance.start !== undefined) {
+            if (instance.start >= previousEnd) sample.waiting.push(workingHoursBetween(previousEnd, instance.start));
+          } else if (instance.end !== undefined && instance.end >= previousEnd) {
+            sample.elapsed.push(workingHoursBetween(previousEnd, instance.end));
+          }
+        }
+      }
+      previousEnd = instance.end ?? previousEnd;
+    }
+
+    if (times.length > 0) {
+      const first = Math.min(...times);
+      const last = Math.max(...times);
+      caseStarts.push(first);
+      caseEnds.push(last);
+      cycleTimes.push(workingHoursBetween(first, last));
+    }
+  }
+
+  const steps: StepEvidence[] = [...samples].map(([step, sample]) => ({
+    step,
+    activities: [...sample.activities],
+    processing: describeDurations(sample.processing),
+    waiting: describeDurations(sample.waiting),
+    elapsed: describeDurations(sample.elapsed),
+  }));
+  const cycleTime = describeDurations(cycleTimes);
+  const arrivalRate = perDay(caseStarts);
+  const throughput = perDay(caseEnds);
+
+  const { dateRange } = profileEventLog(log, source);
+  const common = {
+    ...(options.processId ? { process: options.processId } : {}),
+    ...(caseEnds.length > 0 ? { observedAt: new Date(Math.max(...caseEnds)).toISOString() } : {}),
+    ...(dateRange ? { period: `${dateRange.from}/${dateRange.to}` } : {}),
+    ...(options.sourceId ? { source: options.sourceId } : {}),
+  };
+  const duration = (metric: string, stats: DurationStatistics, step?: string): Evidence => ({
+    type: 'duration',
+    metric,
+    value: formatHours(stats.mean),
+    ...(step ? { step } : {}),
+    ...common,
+    confidence: confidence(stats.sampleSize),
+    sampleSize: stats.sampleSize,
+    percentiles: {
+      p50: formatHours(stats.percentiles.p50),
+      p75: formatHours(stats.percentiles.p75),
+      p90: formatHours(stats.percentiles.p90),
+      p95: formatHours(stats.percentiles.p95),
+    },
+    notes: `Fit: ${[stats.fit.tri, stats.fit.lognormal].filter(Boolean).join(', ')}`,
+  });
+  const rate = (metric: string, value: number, sampleSize: number, notes: string): Evidence => ({
+    type: 'rate',
+    metric,
+    value: round(value),
+    ...common,
+    confidence: confidence(sampleSize),
+    sampleSize,
+    notes,
+  });
+
+  const evidence: Evidence[] = [];
+  if (traces.length > 0) {
+    evidence.push({ type: 'count', metric: 'caseCount', value: traces.length, ...common });
+  }
+  if (arrivalRate !== undefined) evidence.push(rate('arrivalRate', arrivalRate, caseStarts.length, 'Cases started per working day'));
+  if (throughput !== undefined) evidence.push(rate('throughput', throughput, caseEnds.length, 'Cases completed per working day'));
+  if (cycleTime) evidence.push(duration('cycleTime', cycleTime));
+  for (const { step, processing, waiting, elapsed } of steps) {
+    if (waiting) evidence.push(duration('waitingTime', waiting, step));
+    if (processing) evidence.push(duration('processingTime', processing, step));
+    if (elapsed) evidence.push(duration('elapsedTime', elapsed, step));
+  }
+
+  return { caseCount: traces.length, cycleTime, arrivalRate, throughput, steps, evidence };
+}
@@ -0,0 +1,140 @@
+/**
+ * Workspace Revision Diff (Node.js)
+ *
+ * Loads workspace revisions from directories or git revisions and compares
+ * them with the browser-safe `diffWorkspaces`.
+ *
+ * @module ubml/node/diff
+ */
+
+import { execFileSync } from 'child_process';
+import { existsSync, statSync } from 'fs';
+import { relative, resolve } from 'path';
+import { type FileSystem, nodeFS } from './fs.js';
+import { parse } from '../parser.js';
+import { diffWorkspaces, type DiffDocument, type WorkspaceDiff } from '../analysis/diff.js';
+
+/**
+ * Documents of one workspace revision.
+ */
+export interface WorkspaceRevision {
+  /** Directory path or git revision the documents were read from */
+  source: string;
+  documents: DiffDocument[];
+  /** Documents that could not be parsed and were left out */
+  warnings: string[];
+}
+
+/**
+ * Options for loading revisions.
+ */
+export interface RevisionOptions {
+  /**
+   * Workspace directory for git revisions (default: current directory).
+   * They are read from the repository that contains it, limited to this
+   * directory. Directory revisions are resolved from the current directory.
+   */
+  cwd?: string;
+  /** Custom file system implementation (for directories) */
+  fs?: FileSystem;
+}
+
+/**
+ * Result of comparing two revisions.
+ */
+export interface RevisionDiff extends WorkspaceDiff {
+  before: string;
+  after: string;
+  warnings: string[];
+}
+
+function git(args: string[], cwd: string): string {
+  return execFileSync('git', args, { cwd, encoding: 'utf8', maxBuffer: 256 * 1024 * 1024, stdio: ['ignore', 'pipe', 'pipe'] });
+}
+
+function isGitRevision(spec: string, cwd: string): boolean {
+  try {
+    git(['rev-parse', '--verify', '--quiet', `${spec}^{commit}`], cwd);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function addDocument(revision: WorkspaceRevision, path: string, text: string): void {
+  try {
+    const result = parse(text, path);
+    if (result.document) {
+      revision.documents.push({ path, content: result.document.content });
+    } else {
+      revision.warnings.push(`${path} (${revision.source}): ${result.errors[0]?.message ?? 'parse error'}`);
+    }
+  } catch (err) {
+    revision.warnings.push(`${path} (${revision.source}): ${err instanceof Error ? err.message : String(err)}`);
+  }
+}
+
+/**
+ * Load the UBML documents of a directory or git revision.
+ *
+ * @param spec - Directory path, or a git revision (branch, tag, commit)
+ * @param options - Revision options
+ * @throws When `spec` is neither a directory nor a git revision
+ */
+export async function loadRevision(spec: string, options: RevisionOptions = {}): Promise<WorkspaceRevision> {
+  const { fs = nodeFS } = options;
+  const cwd = resolve(options.cwd ?? '.');
+  const revision: WorkspaceRevision = { source: spec, documents: [], warnings: [] };
+
+  const dir = resolve(spec);
+  if (existsSync(dir) && statSync(dir).isDirectory()) {
+    const paths = (await fs.glob('**/*.ubml.yaml', { cwd: dir }))
+      .map((path) => relative(dir, path))
+      .filter((path) => !path.split(/[\\/]/).some((segment) => segment.startsWith('.') || segment === 'node_modules'))
+      .sort();
+    for (const path of paths) {
+      addDocument(revision, path.split('\\').join('/'), await fs.readFile(resolve(dir, path)));
+    }
+    return revision;
+  }
+
+  if (!isGitRevision(spec, cwd)) {
+    throw new Error(`"${spec}" is neither a directory nor a git revision`);
+  }
+  // Paths are listed relative to cwd, which limits them to the workspace
+  const paths = git(['ls-tree', '-r', '-z', '--name-only', spec, '--', '.'], cwd)
+    .split('\0')
+    .filter((path) => path.endsWith('.ubml.yaml'))
+    .filter((path) => !path.split('/').some((segment) => segment.startsWith('.') || segment === 'node_modules'))
+    .sort();
+  for (const path of paths) {
+    addDocument(revision, path, git(['show', `${spec}:./${path}`], cwd));
+  }
+  return revision;
+}
+
+/**
+ * Compare two workspace revisions element by element.
+ *
+ * @param before - Older revision: directory path or git revision
+ * @param after - Newer revision: directory path or git revision
+ * @param options - Revision options
+ *
+ * @example
+ * ```typescript
+ * import { diffRevisions, toDiffMarkdown } from 'ubml/node';
+ *
+ * const diff = await diffRevisions('main', '.');
+ * console.log(toDiffMarkdown(diff));
+ * ```
+ */
+export async function diffRevisions(before: string, after: string, options: RevisionOptions = {}): Promise<RevisionDiff> {
+  const older = await loadRevision(before, options);
+  const newer = await loadRevision(after, options);
+  return {
+    ...diffWorkspaces(older.documents, newer.documents),
+    before,
+    after,
+    warnings: [...older.warnings, ...newer.warnings],
+  };
+}
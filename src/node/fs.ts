@@ -5,7 +5,8 @@
  * (Node.js, browsers with virtual FS, etc.).
  */
 
-import { readFile, writeFile } from 'fs/promises';
+import { mkdir, readFile, writeFile } from 'fs/promises';
+import { dirname } from 'path';
 import { glob } from 'glob';
 import { existsSync } from 'fs';
 
@@ -20,7 +21,7 @@ export interface FileSystem {
   readFile(path: string): Promise<string>;
   
   /**
-   * Write content to a file as UTF-8.
+   * Write content to a file as UTF-8, creating its directory if needed.
    */
   writeFile(path: string, content: string): Promise<void>;
   
@@ -45,6 +46,7 @@ export function createNodeFS(): FileSystem {
     },
 
     async writeFile(path: string, content: string): Promise<void> {
+      await mkdir(dirname(path), { recursive: true });
       await writeFile(path, content, 'utf8');
     },
 
@@ -19,6 +19,7 @@ import {
   isValidId,
   type IdPrefix,
 } from '../metadata.js';
+import { nodeFS, type FileSystem } from './fs.js';
 
 /**
  * ID statistics stored in workspace document.
@@ -121,29 +122,56 @@ export function writeIdStats(dir: string, stats: IdStats): boolean {
     ensureUbmlDir(dir);
     const cachePath = getIdCachePath(dir);
     
-    // Merge with existing stats (only update, don't remove)
-    const existingStats = readIdStats(dir) ?? {};
-    const mergedStats: IdStats = { ...existingStats };
-    
-    for (const [prefix, value] of Object.entries(stats)) {
-      const existingValue = mergedStats[prefix as IdPrefix] ?? 0;
-      if (value !== undefined && value > existingValue) {
-        mergedStats[prefix as IdPrefix] = value;
+    writeFileSync(cachePath, serializeIdStats(readIdStats(dir), stats), 'utf8');
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Write idStats to the cache file through a file system implementation.
+ * Merges with the existing cache like writeIdStats.
+ */
+export async function saveIdStats(dir: string, stats: IdStats, fs: FileSystem = nodeFS): Promise<boolean> {
+  const cachePath = getIdCachePath(dir);
+
+  try {
+    let existingStats: IdStats | undefined;
+    if (await fs.exists(cachePath)) {
+      const cache = JSON.parse(await fs.readFile(cachePath)) as IdStatsCache;
+      if (cache && cache.version === 1 && typeof cache.maxIds === 'object') {
+        existingStats = cache.maxIds;
       }
     }
-    
-    const cache: IdStatsCache = {
-      version: 1,
-      maxIds: mergedStats,
-    };
-    
-    writeFileSync(cachePath, JSON.stringify(cache, null, 2), 'utf8');
+    await fs.writeFile(cachePath, serializeIdStats(existingStats, stats));
     return true;
   } catch {
     return false;
   }
 }
 
+/**
+ * Serialize the cache with stats merged into the existing stats
+ * (only update, don't remove).
+ */
+function serializeIdStats(existingStats: IdStats | undefined, stats: IdStats): string {
+  const mergedStats: IdStats = { ...existingStats };
+
+  for (const [prefix, value] of Object.entries(stats)) {
+    const existingValue = mergedStats[prefix as IdPrefix] ?? 0;
+    if (value !== undefined && value > existingValue) {
+      mergedStats[prefix as IdPrefix] = value;
+    }
+  }
+
+  const cache: IdStatsCache = {
+    version: 1,
+    maxIds: mergedStats,
+  };
+  return JSON.stringify(cache, null, 2);
+}
+
 /**
  * Recursively extract all IDs from a YAML structure.
  */
@@ -32,7 +32,7 @@ export {
 export { parseFile } from './parser.js';
 
 // Serializer operations
-export { serializeToFile } from './serializer.js';
+export { serializeToFile, formatFile, type FormatFileOptions } from './serializer.js';
 
 // ID scanning operations
 export {
@@ -43,6 +43,7 @@ export {
   findWorkspaceFile,
   readIdStats,
   writeIdStats,
+  saveIdStats,
   syncIdStats,
   type WorkspaceIdScan,
   type IdStats,
@@ -57,6 +58,61 @@ export {
   type ValidateOptions,
 } from './validator.js';
 
+// Migration operations
+export {
+  migrateFile,
+  type MigrateFileOptions,
+} from './migrate.js';
+
+// ID rename operations
+export {
+  renameWorkspaceId,
+  renumberWorkspaceIds,
+  type WorkspaceRenameOptions,
+  type WorkspaceRenameResult,
+} from './rename.js';
+
+// Workspace model operations
+export {
+  openWorkspace,
+  type OpenWorkspaceOptions,
+  type OpenedWorkspace,
+} from './workspace.js';
+
+// Revision diff operations
+export {
+  loadRevision,
+  diffRevisions,
+  type WorkspaceRevision,
+  type RevisionOptions,
+  type RevisionDiff,
+} from './diff.js';
+
+// Merge driver operations
+export {
+  mergeFiles,
+  type MergeFilesOptions,
+  type MergeFilesResult,
+} from './merge.js';
+
+// Mining operations
+export {
+  addMiningEvidence,
+  checkMiningConformance,
+  discoverMiningSource,
+  findMiningSource,
+  loadMiningSource,
+  type AddedMiningEvidence,
+  type AddMiningEvidenceOptions,
+  type CheckedMiningSource,
+  type CheckMiningConformanceOptions,
+  type DiscoveredMiningSource,
+  type DiscoverMiningSourceOptions,
+  type FoundMiningSource,
+  type LoadedMiningSource,
+  type LoadMiningSourceOptions,
+} from './mining.js';
+
 // Re-export browser-safe core for convenience
 export * from '../index.js';
 
@@ -0,0 +1,84 @@
+/**
+ * Git Merge Driver (Node.js)
+ *
+ * Merges the three revisions git hands to a merge driver (%O %A %B) with
+ * the browser-safe `mergeDocuments` and writes the result over the current
+ * revision. Files that are not valid YAML are merged line by line with
+ * `git merge-file` instead.
+ *
+ * @module ubml/node/merge
+ */
+
+import { execFileSync } from 'child_process';
+import { type FileSystem, nodeFS } from './fs.js';
+import { mergeDocuments, type MergeConflict, type MergeOptions } from '../refactor/merge.js';
+
+/**
+ * Options for merging files.
+ */
+export interface MergeFilesOptions extends MergeOptions {
+  /** Custom file system implementation */
+  fs?: FileSystem;
+}
+
+/**
+ * Result of merging files.
+ */
+export interface MergeFilesResult {
+  conflicts: MergeConflict[];
+  renumbered: { from: string; to: string }[];
+  /** Error that made the merge fall back to a line-based merge */
+  fallback?: string;
+}
+
+/**
+ * Merge with `git merge-file`, which writes into the current file.
+ * Returns the number of conflicts.
+ */
+function mergeLines(base: string, current: string, other: string, options: MergeOptions): number {
+  const args = ['merge-file', '-L', options.oursLabel ?? 'ours', '-L', 'base', '-L', options.theirsLabel ?? 'theirs'];
+  if (options.markerSize) args.push(`--marker-size=${options.markerSize}`);
+  try {
+    execFileSync('git', [...args, current, base, other], { stdio: 'pipe' });
+    return 0;
+  } catch (err) {
+    const status = (err as { status?: number }).status;
+    if (typeof status === 'number' && status > 0) return status;
+    throw err;
+  }
+}
+
+/**
+ * Merge three revisions of a UBML file, writing the result to `current`.
+ *
+ * @param base - Common ancestor file (%O)
+ * @param current - Current revision file, overwritten with the result (%A)
+ * @param other - Other revision file (%B)
+ * @param options - Merge options
+ *
+ * @example
+ * ```typescript
+ * import { mergeFiles } from 'ubml/node';
+ *
+ * const result = await mergeFiles(base, current, other);
+ * process.exit(result.conflicts.length > 0 ? 1 : 0);
+ * ```
+ */
+export async function mergeFiles(base: string, current: string, other: string, options: MergeFilesOptions = {}): Promise<MergeFilesResult> {
+  const { fs = nodeFS, ...mergeOptions } = options;
+  const [baseText, currentText, otherText] = await Promise.all([fs.readFile(base), fs.readFile(current), fs.readFile(other)]);
+
+  try {
+    const result = mergeDocuments(baseText, currentText, otherText, mergeOptions);
+    await fs.writeFile(current, result.text);
+    return { conflicts: result.conflicts, renumbered: result.renumbered };
+  } catch (err) {
+    const message = err instanceof Error ? err.message : String(err);
+    const count = mergeLines(base, current, other, mergeOptions);
+    return {
+      conflicts: Array.from({ length: count }, () => ({ path: '', properties: [] })),
+      renumbered: [],
+      fallback: message,
+    };
+  }
+}
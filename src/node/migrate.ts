@@ -0,0 +1,53 @@
+/**
+ * UBML Schema Migration (Node.js)
+ *
+ * Migrates UBML files to a newer schema version in place with the
+ * browser-safe `migrateDocument`.
+ *
+ * @module ubml/node/migrate
+ */
+
+import { resolve } from 'path';
+import { type FileSystem, nodeFS } from './fs.js';
+import { parseFile } from './parser.js';
+import { migrateDocument, type MigrateOptions, type MigrationResult } from '../migrate.js';
+
+/**
+ * Options for migrating a file.
+ */
+export interface MigrateFileOptions extends MigrateOptions {
+  /** Report the changes without writing the file */
+  dryRun?: boolean;
+  /** Custom file system implementation */
+  fs?: FileSystem;
+}
+
+/**
+ * Migrate a UBML file to a newer schema version, keeping its comments.
+ *
+ * @param path - Path to the UBML file
+ * @param options - Migration options
+ * @throws When the file cannot be parsed or its version cannot be migrated
+ *
+ * @example
+ * ```typescript
+ * import { migrateFile } from 'ubml/node';
+ *
+ * const result = await migrateFile('./claims.process.ubml.yaml', { dryRun: true });
+ * console.log(`${result.from} -> ${result.to}: ${result.changes.length} changes`);
+ * ```
+ */
+export async function migrateFile(path: string, options: MigrateFileOptions = {}): Promise<MigrationResult> {
+  const { fs = nodeFS, dryRun = false, ...migrateOptions } = options;
+  const absolutePath = resolve(path);
+  const parsed = await parseFile(absolutePath, { fs });
+  if (!parsed.document) {
+    throw new Error(parsed.errors[0]?.message ?? 'Cannot parse file');
+  }
+
+  const result = await migrateDocument(parsed.document, migrateOptions);
+  if (!dryRun && result.text !== parsed.document.source) {
+    await fs.writeFile(absolutePath, result.text);
+  }
+  return result;
+}
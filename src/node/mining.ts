@@ -0,0 +1,451 @@
+/**
+ * Event Log Loading (Node.js)
+ *
+ * Finds a mining source in a workspace, reads its local CSV or XES file
+ * with the browser-safe `parseEventLog` and records the profile in the
+ * mining document, drafts a process from it with `discoverProcess`,
+ * replays it against the modeled process with `checkConformance` or
+ * records its measurements as scenario evidence with `computeEvidence`.
+ *
+ * @module ubml/node/mining
+ */
+
+import { dirname, isAbsolute, join, relative, resolve } from 'path';
+import { fileURLToPath } from 'url';
+import { type FileSystem, nodeFS } from './fs.js';
+import { getNextAvailableIds } from './id-scanner.js';
+import { parseFile } from './parser.js';
+import { openWorkspace } from './workspace.js';
+import { editDocument } from '../editor.js';
+import type { Evidence, MiningDocument, MiningSource, Process } from '../generated/types.js';
+import type { IdAllocator } from '../import/bpmn.js';
+import type { UBMLDocument } from '../parser.js';
+import { serialize } from '../serializer.js';
+import { getDocumentHeader } from '../templates.js';
+import { mapActivity, parseEventLog, profileEventLog, type EventLog, type EventLogProfile } from '../mining/event-log.js';
+import { discoverProcess, type DiscoveredProcess, type DiscoveryOptions } from '../mining/discovery.js';
+import { checkConformance, type ConformanceResult } from '../mining/conformance.js';
+import { computeEvidence, type MinedEvidence } from '../mining/evidence.js';
+
+/**
+ * Options for loading a mining source.
+ */
+export interface LoadMiningSourceOptions {
+  /** Event log file to read instead of the source's `connection.path` or `connection.url` */
+  file?: string;
+  /** Profile the event log without updating the mining document */
+  dryRun?: boolean;
+  /** Custom file system implementation */
+  fs?: FileSystem;
+}
+
+/**
+ * Options for discovering a process from a mining source.
+ */
+export interface DiscoverMiningSourceOptions extends DiscoveryOptions {
+  /** Event log file to read instead of the source's `connection.path` or `connection.url` */
+  file?: string;
+  /** Process document to create (default: named after the source, next to the mining document) */
+  output?: string;
+  /** Overwrite an existing process document */
+  force?: boolean;
+  /** Discover without writing any file */
+  dryRun?: boolean;
+  /** ID allocator (default: the next free IDs of the workspace) */
+  allocateIds?: IdAllocator;
+  /** Custom file system implementation */
+  fs?: FileSystem;
+}
+
+/**
+ * Options for checking conformance of a mining source.
+ */
+export interface CheckMiningConformanceOptions {
+  /** Event log file to read instead of the source's `connection.path` or `connection.url` */
+  file?: string;
+  /** Process to check against instead of the source's `process` */
+  process?: string;
+  /** Custom file system implementation */
+  fs?: FileSystem;
+}
+
+/**
+ * Options for adding evidence from a mining source to a scenario.
+ */
+export interface AddMiningEvidenceOptions {
+  /** Scenario to add the evidence to */
+  scenario: string;
+  /** Event log file to read instead of the source's `connection.path` or `connection.url` */
+  file?: string;
+  /** Process the evidence relates to instead of the source's `process` */
+  process?: string;
+  /** Compute the evidence without updating the scenario */
+  dryRun?: boolean;
+  /** Custom file system implementation */
+  fs?: FileSystem;
+}
+
+/**
+ * A mining source found in a workspace.
+ */
+export interface FoundMiningSource {
+  id: string;
+  source: MiningSource;
+  /** Mining document defining the source (its path is in `meta.filepath`) */
+  document: UBMLDocument<MiningDocument>;
+}
+
+/**
+ * A mining source with its event log read and profiled.
+ */
+export interface LoadedMiningSource extends FoundMiningSource {
+  /** Absolute path of the event log file */
+  file: string;
+  log: EventLog;
+  profile: EventLogProfile;
+  /** Whether the mining document was updated */
+  updated: boolean;
+}
+
+/**
+ * A draft process discovered from a mining source.
+ */
+export interface DiscoveredMiningSource extends FoundMiningSource {
+  /** Absolute path of the event log file */
+  file: string;
+  log: EventLog;
+  /** The draft process document and the directly-follows graph it was built from */
+  discovery: DiscoveredProcess;
+  /** Absolute path of the process document */
+  output: string;
+  /** Activity mappings added to the mining source (for activities that had none) */
+  addedMappings: { activity: string; step: string }[];
+}
+
+/**
+ * Conformance of a mining source to its process.
+ */
+export interface CheckedMiningSource extends FoundMiningSource {
+  /** Absolute path of the event log file */
+  file: string;
+  log: EventLog;
+  processId: string;
+  process: Process;
+  conformance: ConformanceResult;
+}
+
+/**
+ * Evidence from a mining source added to a scenario.
+ */
+export interface AddedMiningEvidence extends FoundMiningSource {
+  /** Absolute path of the event log file */
+  file: string;
+  log: EventLog;
+  processId?: string;
+  scenarioId: string;
+  /** Scenarios document defining the scenario (its path is in `meta.filepath`) */
+  scenarioDocument: UBMLDocument;
+  mined: MinedEvidence;
+  /** Number of entries from an earlier run for this source that were replaced */
+  replaced: number;
+  /** Whether the scenarios document was updated */
+  updated: boolean;
+}
+
+/**
+ * Find the mining document that defines a mining source.
+ *
+ * @param dir - Workspace directory
+ * @param id - Mining source ID (e.g., MS00001)
+ * @param options - Options
+ * @returns undefined when no mining document in the directory defines the source
+ */
+export async function findMiningSource(
+  dir: string,
+  id: string,
+  options: { fs?: FileSystem } = {}
+): Promise<FoundMiningSource | undefined> {
+  const { fs = nodeFS } = options;
+  const root = resolve(dir);
+  const matches = await Promise.all(['**/*.mining.ubml.yaml', '**/mining.ubml.yaml'].map((pattern) => fs.glob(pattern, { cwd: root })));
+  const paths = [...new Set(matches.flat().map((path) => resolve(root, path)))]
+    .filter((path) => !relative(root, path).split(/[\\/]/).includes('node_modules'))
+    .sort();
+
+  for (const path of paths) {
+    const result = await parseFile<MiningDocument>(path, { fs });
+    const source = result.document?.content.miningSources?.[id];
+    if (result.document && source) return { id, source, document: result.document };
+  }
+  return undefined;
+}
+
+/**
+ * Resolve the event log file of a mining source. Relative paths are
+ * relative to the mining document.
+ */
+function resolveLogFile(found: FoundMiningSource, file: string | undefined): string {
+  if (file) return resolve(file);
+
+  const connection = found.source.connection ?? {};
+  const location = typeof connection.path === 'string' ? connection.path : connection.url;
+  if (!location) {
+    throw new Error(`Mining source ${found.id} has no file; set connection.path or pass a file`);
+  }
+  if (location.startsWith('file:')) return fileURLToPath(location);
+  if (/^[a-z][a-z0-9+.-]*:\/\//i.test(location)) {
+    throw new Error(`Mining source ${found.id} points to ${location}; only local files can be read`);
+  }
+  return isAbsolute(location) ? location : resolve(dirname(found.document.meta.filepath ?? '.'), location);
+}
+
+/**
+ * Read the event log file of a mining source.
+ */
+async function readEventLog(found: FoundMiningSource, path: string | undefined, fs: FileSystem): Promise<{ file: string; log: EventLog }> {
+  const file = resolveLogFile(found, path);
+  let text: string;
+  try {
+    text = await fs.readFile(file);
+  } catch (err) {
+    throw new Error(`Cannot read ${file}: ${err instanceof Error ? err.message : String(err)}`);
+  }
+  return { file, log: parseEventLog(text, found.source) };
+}
+
+/**
+ * Read the event log of a mining source, apply its filters and write
+ * `recordCount`, `caseCount`, `dateRange` and `quality` into the mining
+ * document, keeping its comments.
+ *
+ * @param dir - Workspace directory
+ * @param id - Mining source ID (e.g., MS00001)
+ * @param options - Options
+ * @throws When the source is not found, has no local file or the file cannot be read
+ *
+ * @example
+ * ```typescript
+ * import { loadMiningSource } from 'ubml/node';
+ *
+ * const { profile } = await loadMiningSource('.', 'MS00001');
+ * console.log(`${profile.caseCount} cases, ${profile.quality.completeness}% complete`);
+ * ```
+ */
+export async function loadMiningSource(
+  dir: string,
+  id: string,
+  options: LoadMiningSourceOptions = {}
+): Promise<LoadedMiningSource> {
+  const { fs = nodeFS, dryRun = false } = options;
+  const found = await findMiningSource(dir, id, { fs });
+  if (!found) {
+    throw new Error(`Mining source ${id} not found in ${dir}`);
+  }
+
+  const { file, log } = await readEventLog(found, options.file, fs);
+  const profile = profileEventLog(log, found.source);
+
+  const editor = editDocument(found.document);
+  const base = `/miningSources/${id}`;
+  editor.set(`${base}/recordCount`, profile.recordCount);
+  editor.set(`${base}/caseCount`, profile.caseCount);
+  if (profile.dateRange) {
+    editor.set(`${base}/dateRange/from`, profile.dateRange.from);
+    editor.set(`${base}/dateRange/to`, profile.dateRange.to);
+  }
+  editor.set(`${base}/quality/completeness`, profile.quality.completeness);
+  editor.set(`${base}/quality/unmappedActivities`, profile.quality.unmappedActivities);
+  editor.set(`${base}/quality/unmappedResources`, profile.quality.unmappedResources);
+
+  const updated = editor.changed;
+  if (updated && !dryRun) {
+    await fs.writeFile(found.document.meta.filepath!, editor.toString());
+  }
+  return { ...found, file, log, profile, updated };
+}
+
+/**
+ * Draft a process from the event log of a mining source. Writes the
+ * process document and adds activity mappings for the discovered steps
+ * (and the process, when the source has none) to the mining document,
+ * keeping its comments.
+ *
+ * @param dir - Workspace directory
+ * @param id - Mining source ID (e.g., MS00001)
+ * @param options - Noise filtering thresholds and output options
+ * @throws When the source is not found, its file cannot be read or the
+ *   process document exists without `force`
+ *
+ * @example
+ * ```typescript
+ * import { discoverMiningSource } from 'ubml/node';
+ *
+ * const { output, discovery } = await discoverMiningSource('.', 'MS00001', { pathThreshold: 0.05 });
+ * console.log(`${discovery.graph.activities.length} activities written to ${output}`);
+ * ```
+ */
+export async function discoverMiningSource(
+  dir: string,
+  id: string,
+  options: DiscoverMiningSourceOptions = {}
+): Promise<DiscoveredMiningSource> {
+  const { fs = nodeFS, dryRun = false, force = false } = options;
+  const found = await findMiningSource(dir, id, { fs });
+  if (!found) {
+    throw new Error(`Mining source ${id} not found in ${dir}`);
+  }
+
+  const documentPath = found.document.meta.filepath!;
+  const slug = found.source.name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '') || id.toLowerCase();
+  const output = resolve(options.output ?? join(dirname(documentPath), `${slug}.process.ubml.yaml`));
+  if (!force && await fs.exists(output)) {
+    throw new Error(`File already exists: ${output}`);
+  }
+
+  const { file, log } = await readEventLog(found, options.file, fs);
+  const discovered = discoverProcess(log, found.source, {
+    activityThreshold: options.activityThreshold,
+    pathThreshold: options.pathThreshold,
+    sourceId: id,
+    allocateIds: options.allocateIds
+      ?? ((requests) => getNextAvailableIds(requests.filter((request) => request.count > 0), resolve(dir), { updateStats: !dryRun })),
+  });
+
+  const addedMappings = discovered.activityMappings.filter(({ activity }) => !mapActivity(found.source, activity));
+  const editor = editDocument(found.document);
+  const base = `/miningSources/${id}`;
+  if (!found.source.process) {
+    editor.set(`${base}/process`, discovered.processId);
+  }
+  const existing = found.source.activityMappings?.length ?? 0;
+  if (existing === 0) {
+    if (addedMappings.length > 0) editor.set(`${base}/activityMappings`, addedMappings);
+  } else {
+    addedMappings.forEach((mapping, index) => editor.insert(`${base}/activityMappings`, existing + index, mapping));
+  }
+
+  if (!dryRun) {
+    const process = discovered.document.processes[discovered.processId];
+    await fs.writeFile(output, `${getDocumentHeader('process', process.name)}\n${serialize(discovered.document)}`);
+    if (editor.changed) {
+      await fs.writeFile(documentPath, editor.toString());
+    }
+  }
+  return { ...found, file, log, discovery: discovered, output, addedMappings };
+}
+
+/**
+ * Replay the event log of a mining source against its process.
+ *
+ * @param dir - Workspace directory
+ * @param id - Mining source ID (e.g., MS00001)
+ * @param options - Options
+ * @throws When the source or its process is not found, or its file cannot be read
+ *
+ * @example
+ * ```typescript
+ * import { checkMiningConformance } from 'ubml/node';
+ *
+ * const { conformance } = await checkMiningConformance('.', 'MS00001');
+ * for (const deviation of conformance.deviations.slice(0, 5)) {
+ *   console.log(deviation.cases, deviation.message);
+ * }
+ * ```
+ */
+export async function checkMiningConformance(
+  dir: string,
+  id: string,
+  options: CheckMiningConformanceOptions = {}
+): Promise<CheckedMiningSource> {
+  const { fs = nodeFS } = options;
+  const found = await findMiningSource(dir, id, { fs });
+  if (!found) {
+    throw new Error(`Mining source ${id} not found in ${dir}`);
+  }
+  const processId = options.process ?? found.source.process;
+  if (!processId) {
+    throw new Error(`Mining source ${id} has no process; set process or pass one`);
+  }
+
+  const workspace = await openWorkspace(dir, { fs });
+  const element = workspace.getElement(processId);
+  if (element?.type !== 'process') {
+    throw new Error(`Process ${processId} not found in ${dir}`);
+  }
+  const process = element.data as unknown as Process;
+
+  const { file, log } = await readEventLog(found, options.file, fs);
+  return { ...found, file, log, processId, process, conformance: checkConformance(log, found.source, process) };
+}
+
+/**
+ * Measure the event log of a mining source and add the measurements to a
+ * scenario as evidence, keeping the comments of its document. Evidence
+ * from an earlier run for the same source is replaced; other entries are
+ * kept.
+ *
+ * @param dir - Workspace directory
+ * @param id - Mining source ID (e.g., MS00001)
+ * @param options - Scenario and options
+ * @throws When the source, scenario or process is not found, or the file cannot be read
+ *
+ * @example
+ * ```typescript
+ * import { addMiningEvidence } from 'ubml/node';
+ *
+ * const { mined } = await addMiningEvidence('.', 'MS00001', { scenario: 'SC00001' });
+ * console.log(`${mined.evidence.length} evidence entries, ${mined.arrivalRate} cases per working day`);
+ * ```
+ */
+export async function addMiningEvidence(
+  dir: string,
+  id: string,
+  options: AddMiningEvidenceOptions
+): Promise<AddedMiningEvidence> {
+  const { fs = nodeFS, dryRun = false } = options;
+  const found = await findMiningSource(dir, id, { fs });
+  if (!found) {
+    throw new Error(`Mining source ${id} not found in ${dir}`);
+  }
+
+  const workspace = await openWorkspace(dir, { fs });
+  const scenario = workspace.getElement(options.scenario);
+  if (scenario?.type !== 'scenario') {
+    throw new Error(`Scenario ${options.scenario} not found in ${dir}`);
+  }
+  const processId = options.process ?? found.source.process;
+  if (processId && workspace.getElement(processId)?.type !== 'process') {
+    throw new Error(`Process ${processId} not found in ${dir}`);
+  }
+
+  const { file, log } = await readEventLog(found, options.file, fs);
+  const mined = computeEvidence(log, found.source, { sourceId: id, processId });
+
+  const editor = editDocument(scenario.document);
+  const path = `${scenario.path.map((segment) => `/${segment}`).join('')}/evidence`;
+  const existing = Array.isArray(scenario.data.evidence) ? (scenario.data.evidence as Evidence[]) : [];
+  const previous = existing.flatMap((entry, index) => (entry?.source === id ? [index] : []));
+  const kept = existing.length - previous.length;
+  if (kept === 0) {
+    if (existing.length > 0 || mined.evidence.length > 0) editor.set(path, mined.evidence);
+  } else {
+    for (const index of [...previous].reverse()) editor.delete(`${path}/${index}`);
+    mined.evidence.forEach((entry, index) => editor.insert(path, kept + index, entry));
+  }
+
+  const updated = editor.changed;
+  if (updated && !dryRun) {
+    await fs.writeFile(scenario.document.meta.filepath!, editor.toString());
+  }
+  return {
+    ...found,
+    file,
+    log,
+    processId,
+    scenarioId: options.scenario,
+    scenarioDocument: scenario.document,
+    mined,
+    replaced: previous.length,
+    updated,
+  };
+}
@@ -0,0 +1,139 @@
+/**
+ * Workspace ID Rename and Renumber (Node.js)
+ *
+ * Reads the UBML documents of a workspace, applies an ID rename or
+ * renumber plan to their text, writes the changed files back and records
+ * the new highest IDs in the ID cache (.ubml/id-cache.json).
+ */
+
+import { relative, resolve } from 'path';
+import {
+  applyRenames,
+  findIdSpans,
+  planRename,
+  planRenumber,
+  type IdRename,
+  type RefactorFile,
+  type RenumberOptions,
+} from '../refactor/rename.js';
+import { getIdPrefix, parseIdNumber, type IdPrefix } from '../metadata.js';
+import { nodeFS, type FileSystem } from './fs.js';
+import { saveIdStats, type IdStats } from './id-scanner.js';
+
+/**
+ * Options for workspace renames.
+ */
+export interface WorkspaceRenameOptions {
+  /** Only change definitions in these files (relative to the workspace) */
+  files?: string[];
+  /** Report the changes without writing files */
+  dryRun?: boolean;
+  /** File system (default: Node.js) */
+  fs?: FileSystem;
+}
+
+/**
+ * Result of a workspace rename or renumber.
+ */
+export interface WorkspaceRenameResult {
+  /** Planned ID changes, per defining file (absolute paths) */
+  renames: IdRename[];
+  /** Files that changed, with the number of IDs replaced */
+  files: { path: string; replacements: number }[];
+  /** Whether files were written */
+  written: boolean;
+}
+
+/**
+ * Read every UBML document in a workspace, skipping hidden directories and
+ * node_modules like the ID scanner.
+ */
+async function readWorkspace(dir: string, fs: FileSystem): Promise<RefactorFile[]> {
+  const paths = (await fs.glob('**/*.ubml.yaml', { cwd: dir }))
+    .filter((path) => !relative(dir, path).split(/[\\/]/).some((segment) => segment.startsWith('.') || segment === 'node_modules'))
+    .sort();
+  const files: RefactorFile[] = [];
+  for (const path of paths) {
+    files.push({ path, text: await fs.readFile(path) });
+  }
+  return files;
+}
+
+async function applyToWorkspace(
+  dir: string,
+  files: RefactorFile[],
+  renames: IdRename[],
+  options: WorkspaceRenameOptions
+): Promise<WorkspaceRenameResult> {
+  const fs = options.fs ?? nodeFS;
+  const changes = applyRenames(files, renames);
+  if (!options.dryRun) {
+    for (const change of changes) {
+      await fs.writeFile(change.path, change.text);
+    }
+
+    // Record the highest ID now defined for each renamed prefix
+    const prefixes = new Set(renames.map(({ to }) => getIdPrefix(to)!));
+    const texts = files.map((file) => changes.find((change) => change.path === file.path)?.text ?? file.text);
+    const stats: IdStats = {};
+    for (const span of texts.flatMap((text) => findIdSpans(text))) {
+      const prefix = getIdPrefix(span.id)!;
+      if (span.definition && prefixes.has(prefix)) {
+        stats[prefix] = Math.max(stats[prefix] ?? 0, parseIdNumber(span.id) ?? 0);
+      }
+    }
+    if (prefixes.size > 0) await saveIdStats(dir, stats, fs);
+  }
+
+  return {
+    renames,
+    files: changes.map(({ path, replacements }) => ({ path, replacements })),
+    written: !options.dryRun && changes.length > 0,
+  };
+}
+
+/**
+ * Rename an ID across a workspace: its definition and every reference.
+ *
+ * @example
+ * ```typescript
+ * import { renameWorkspaceId } from 'ubml/node';
+ *
+ * const result = await renameWorkspaceId('./workspace', 'ST00010', 'ST00110', {
+ *   files: ['claims.process.ubml.yaml'],
+ * });
+ * console.log(`Updated ${result.files.length} files`);
+ * ```
+ */
+export async function renameWorkspaceId(
+  dir: string,
+  from: string,
+  to: string,
+  options: WorkspaceRenameOptions = {}
+): Promise<WorkspaceRenameResult> {
+  const absoluteDir = resolve(dir);
+  const files = await readWorkspace(absoluteDir, options.fs ?? nodeFS);
+  const renames = planRename(files, from, to, {
+    files: options.files?.map((file) => resolve(absoluteDir, file)),
+  });
+  return applyToWorkspace(absoluteDir, files, renames, options);
+}
+
+/**
+ * Renumber the IDs with a prefix across a workspace, or only those defined
+ * in some files (e.g., to separate duplicate IDs after a merge).
+ */
+export async function renumberWorkspaceIds(
+  dir: string,
+  prefix: IdPrefix,
+  options: WorkspaceRenameOptions & Omit<RenumberOptions, 'files'> = {}
+): Promise<WorkspaceRenameResult> {
+  const absoluteDir = resolve(dir);
+  const files = await readWorkspace(absoluteDir, options.fs ?? nodeFS);
+  const renames = planRenumber(files, prefix, {
+    files: options.files?.map((file) => resolve(absoluteDir, file)),
+    start: options.start,
+    step: options.step,
+  });
+  return applyToWorkspace(absoluteDir, files, renames, options);
+}
@@ -1,13 +1,14 @@
 /**
  * UBML File Serializer (Node.js)
  * 
- * File system operations for serializing UBML documents.
+ * File system operations for serializing and formatting UBML documents.
  */
 
 import { resolve, dirname } from 'path';
 import { mkdir } from 'fs/promises';
 import { type FileSystem, nodeFS } from './fs.js';
 import { serialize, type SerializeOptions } from '../serializer.js';
+import { format, type FormatOptions } from '../formatter.js';
 
 /**
  * Options for serializing to a file.
@@ -53,3 +54,38 @@ export async function serializeToFile(
   const yaml = serialize(content, serializeOpts);
   await fs.writeFile(absolutePath, yaml);
 }
+
+/**
+ * Options for formatting a file.
+ */
+export interface FormatFileOptions extends FormatOptions {
+  /** Custom file system implementation */
+  fs?: FileSystem;
+  /** Only check the formatting, without writing the file */
+  check?: boolean;
+}
+
+/**
+ * Format a UBML file in place, keeping comments.
+ *
+ * @param path - Path to the file
+ * @param options - Format options
+ * @returns Whether the file was (or, with `check`, would be) changed
+ *
+ * @example
+ * ```typescript
+ * import { formatFile } from 'ubml/node';
+ *
+ * const changed = await formatFile('./claims.process.ubml.yaml', { check: true });
+ * ```
+ */
+export async function formatFile(path: string, options: FormatFileOptions = {}): Promise<boolean> {
+  const { fs = nodeFS, check = false, ...formatOpts } = options;
+  const absolutePath = resolve(path);
+  const source = await fs.readFile(absolutePath);
+  const formatted = format(source, { filename: absolutePath, ...formatOpts });
+
+  if (formatted === source) return false;
+  if (!check) await fs.writeFile(absolutePath, formatted);
+  return true;
+}
@@ -0,0 +1,74 @@
+/**
+ * UBML Workspace Model (Node.js)
+ *
+ * Reads the UBML documents of a directory and links them with the
+ * browser-safe `loadWorkspace`.
+ *
+ * @module ubml/node/workspace
+ */
+
+import { relative, resolve } from 'path';
+import { type FileSystem, nodeFS } from './fs.js';
+import { parseFile } from './parser.js';
+import { getUBMLFilePatterns } from '../metadata.js';
+import type { UBMLDocument } from '../parser.js';
+import { loadWorkspace, type Workspace } from '../workspace.js';
+
+/**
+ * Options for opening a workspace.
+ */
+export interface OpenWorkspaceOptions {
+  /** Custom file system implementation */
+  fs?: FileSystem;
+}
+
+/**
+ * A workspace read from a directory.
+ */
+export interface OpenedWorkspace extends Workspace {
+  /** Absolute path of the workspace directory */
+  dir: string;
+  /** Files that could not be parsed and were left out */
+  warnings: string[];
+}
+
+/**
+ * Read and link the UBML documents of a directory, including
+ * subdirectories. Hidden directories and node_modules are skipped.
+ * Document paths are in `document.meta.filepath`.
+ *
+ * @param dir - Workspace directory
+ * @param options - Options
+ *
+ * @example
+ * ```typescript
+ * import { openWorkspace } from 'ubml/node';
+ *
+ * const workspace = await openWorkspace('./my-workspace');
+ * for (const actor of workspace.getElements('actor')) {
+ *   console.log(actor.name, actor.performedSteps.map((step) => step.id));
+ * }
+ * ```
+ */
+export async function openWorkspace(dir: string, options: OpenWorkspaceOptions = {}): Promise<OpenedWorkspace> {
+  const { fs = nodeFS } = options;
+  const root = resolve(dir);
+
+  const matches = await Promise.all(getUBMLFilePatterns().map((pattern) => fs.glob(pattern, { cwd: root })));
+  const paths = [...new Set(matches.flat().map((path) => resolve(root, path)))]
+    .filter((path) => !relative(root, path).split(/[\\/]/).some((segment) => segment.startsWith('.') || segment === 'node_modules'))
+    .sort();
+
+  const documents: UBMLDocument[] = [];
+  const warnings: string[] = [];
+  for (const path of paths) {
+    const result = await parseFile(path, { fs });
+    if (result.document) {
+      documents.push(result.document);
+    } else {
+      warnings.push(`${relative(root, path)}: ${result.errors[0]?.message ?? 'parse error'}`);
+    }
+  }
+
+  return { ...loadWorkspace(documents), dir: root, warnings };
+}
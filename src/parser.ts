@@ -59,6 +59,8 @@ export interface DocumentMeta {
   type: DocumentType | undefined;
   /** Original filename (if provided) */
   filename?: string;
+  /** Absolute path of the file (set when read from disk) */
+  filepath?: string;
 }
 
 /**
@@ -71,6 +73,12 @@ export interface UBMLDocument<T = unknown> {
   meta: DocumentMeta;
   /** Original source string */
   source: string;
+  /**
+   * Underlying YAML document, with comments and formatting.
+   * Use `editDocument()` to change it without re-serializing `content`.
+   * Set by `parse()`; documents built by hand may leave it out.
+   */
+  yamlDocument?: Document;
   /**
    * Get source location for a JSON path.
    * 
@@ -271,6 +279,7 @@ export function parse<T = unknown>(content: string, filename?: string): ParseRes
     content: parsedContent,
     meta,
     source: content,
+    yamlDocument: yamlDoc,
     getSourceLocation,
   };
 
@@ -0,0 +1,494 @@
+/**
+ * Three-Way Semantic Merge (Browser-Safe)
+ *
+ * Merges two revisions of a UBML document against their common ancestor by
+ * structure instead of by line. Maps are merged key by key, so independent
+ * edits to different elements or properties never conflict. Lists are
+ * merged item by item when their items can be told apart (scalars, links by
+ * `from` and `to`); otherwise a list changed on both sides conflicts.
+ *
+ * IDs added on both sides for different elements (e.g., two analysts adding
+ * ST00005 to the same process) are resolved by renumbering the other side's
+ * element, and its references, to the next free number.
+ *
+ * The result keeps the current revision's comments and formatting, and its
+ * long lines are not wrapped; elements taken from the other revision keep
+ * their comments. Remaining conflicts are written
+ * as conflict markers around the smallest element (ID-keyed entry) that
+ * contains them. Both sides of a conflict include all merged changes, so
+ * picking either side loses nothing but the conflicting values.
+ *
+ * @module ubml/refactor/merge
+ */
+
+import { parseDocument, isMap, isScalar, isSeq, type Document, type Pair } from 'yaml';
+import { formatId, getIdPrefix, isValidId, parseIdNumber, type IdPrefix } from '../metadata.js';
+import { stringifyYaml } from '../utils/yaml-layout.js';
+import { findIdSpans, replaceIds } from './rename.js';
+
+// =============================================================================
+// Public Types
+// =============================================================================
+
+/**
+ * Options for merging.
+ */
+export interface MergeOptions {
+  /** Label after `<<<<<<<` (default: "ours") */
+  oursLabel?: string;
+  /** Label after `>>>>>>>` (default: "theirs") */
+  theirsLabel?: string;
+  /** Length of conflict markers (default: 7) */
+  markerSize?: number;
+}
+
+/**
+ * An element with conflicting changes.
+ */
+export interface MergeConflict {
+  /** JSON pointer of the element in conflict markers ("" for the whole document) */
+  path: string;
+  /** JSON pointers of the conflicting values within the element */
+  properties: string[];
+}
+
+/**
+ * Result of a three-way merge.
+ */
+export interface MergeResult {
+  /** Merged text, with conflict markers when there are conflicts */
+  text: string;
+  conflicts: MergeConflict[];
+  /** IDs of the other revision renumbered because both sides added them */
+  renumbered: { from: string; to: string }[];
+}
+
+// =============================================================================
+// Value Merge
+// =============================================================================
+
+/** Marks a key or item that does not exist in a revision */
+const ABSENT = Symbol('absent');
+
+type Segment = string;
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Deep equality that ignores key order.
+ */
+function isDeepEqual(a: unknown, b: unknown): boolean {
+  if (a === b) return true;
+  if (Array.isArray(a) && Array.isArray(b)) {
+    return a.length === b.length && a.every((item, index) => isDeepEqual(item, b[index]));
+  }
+  if (isObject(a) && isObject(b)) {
+    const keys = Object.keys(a);
+    return keys.length === Object.keys(b).length && keys.every((key) => key in b && isDeepEqual(a[key], b[key]));
+  }
+  return false;
+}
+
+/**
+ * Identity of a list item, or undefined when items cannot be told apart.
+ * Item segments are bracketed so they are never taken for element IDs.
+ */
+function itemKey(item: unknown): string | undefined {
+  if (typeof item === 'string' || typeof item === 'number' || typeof item === 'boolean') return `[${String(item)}]`;
+  if (isObject(item) && 'from' in item && 'to' in item) return `[${String(item.from)} -> ${String(item.to)}]`;
+  if (isObject(item) && typeof item.ref === 'string') return `[ref ${item.ref}]`;
+  return undefined;
+}
+
+function keyItems(list: unknown[]): Map<string, unknown> | undefined {
+  const items = new Map<string, unknown>();
+  for (const item of list) {
+    const key = itemKey(item);
+    if (key === undefined || items.has(key)) return undefined;
+    items.set(key, item);
+  }
+  return items;
+}
+
+interface ValueMerge {
+  conflicts: Segment[][];
+}
+
+/**
+ * Merge one value. Returns the merge resolving conflicts with our values
+ * and the one resolving them with theirs.
+ */
+function mergeValue(state: ValueMerge, base: unknown, ours: unknown, theirs: unknown, path: Segment[]): [unknown, unknown] {
+  if (isDeepEqual(ours, theirs)) return [ours, ours];
+  if (isDeepEqual(base, ours)) return [theirs, theirs];
+  if (isDeepEqual(base, theirs)) return [ours, ours];
+
+  if (isObject(ours) && isObject(theirs)) {
+    const baseMap = isObject(base) ? base : {};
+    const resultOurs: Record<string, unknown> = {};
+    const resultTheirs: Record<string, unknown> = {};
+    const keys = [...Object.keys(ours), ...Object.keys(theirs).filter((key) => !(key in ours))];
+    for (const key of keys) {
+      const [mergedOurs, mergedTheirs] = mergeValue(
+        state,
+        key in baseMap ? baseMap[key] : ABSENT,
+        key in ours ? ours[key] : ABSENT,
+        key in theirs ? theirs[key] : ABSENT,
+        [...path, key]
+      );
+      if (mergedOurs !== ABSENT) resultOurs[key] = mergedOurs;
+      if (mergedTheirs !== ABSENT) resultTheirs[key] = mergedTheirs;
+    }
+    return [resultOurs, resultTheirs];
+  }
+
+  if (Array.isArray(ours) && Array.isArray(theirs)) {
+    const baseItems = keyItems(Array.isArray(base) ? base : []);
+    const ourItems = keyItems(ours);
+    const theirItems = keyItems(theirs);
+    if (baseItems && ourItems && theirItems) {
+      const resultOurs: unknown[] = [];
+      const resultTheirs: unknown[] = [];
+      const keys = [...ourItems.keys(), ...[...theirItems.keys()].filter((key) => !ourItems.has(key))];
+      for (const key of keys) {
+        const [mergedOurs, mergedTheirs] = mergeValue(
+          state,
+          baseItems.has(key) ? baseItems.get(key) : ABSENT,
+          ourItems.has(key) ? ourItems.get(key) : ABSENT,
+          theirItems.has(key) ? theirItems.get(key) : ABSENT,
+          [...path, key]
+        );
+        if (mergedOurs !== ABSENT) resultOurs.push(mergedOurs);
+        if (mergedTheirs !== ABSENT) resultTheirs.push(mergedTheirs);
+      }
+      return [resultOurs, resultTheirs];
+    }
+  }
+
+  state.conflicts.push(path);
+  return [ours, theirs];
+}
+
+// =============================================================================
+// ID Collisions
+// =============================================================================
+
+function definedIds(text: string): Map<string, number> {
+  const ids = new Map<string, number>();
+  for (const span of findIdSpans(text)) {
+    if (span.definition && !ids.has(span.id)) ids.set(span.id, span.start);
+  }
+  return ids;
+}
+
+/**
+ * Find the value defined under an ID key (first definition).
+ */
+function findDefinition(value: unknown, id: string): unknown {
+  if (Array.isArray(value)) {
+    for (const item of value) {
+      const found = findDefinition(item, id);
+      if (found !== ABSENT) return found;
+    }
+  } else if (isObject(value)) {
+    if (id in value) return value[id];
+    for (const child of Object.values(value)) {
+      const found = findDefinition(child, id);
+      if (found !== ABSENT) return found;
+    }
+  }
+  return ABSENT;
+}
+
+/**
+ * Whether two definitions of an ID describe different elements. Named
+ * elements are told apart by name, so the same element added on both sides
+ * with different details is merged (or conflicts) instead of duplicated.
+ */
+function isDifferentElement(ours: unknown, theirs: unknown): boolean {
+  if (isObject(ours) && isObject(theirs) && 'name' in ours && 'name' in theirs) {
+    return !isDeepEqual(ours.name, theirs.name);
+  }
+  return !isDeepEqual(ours, theirs);
+}
+
+/**
+ * Renumber IDs that both sides added for different elements, in their text.
+ */
+function renumberCollisions(base: string, ours: string, theirs: string): { text: string; renumbered: { from: string; to: string }[] } {
+  const baseIds = definedIds(base);
+  const ourIds = definedIds(ours);
+  const oursContent = parseDocument(ours).toJS();
+  const theirsContent = parseDocument(theirs).toJS();
+
+  const colliding = [...definedIds(theirs).keys()].filter(
+    (id) => ourIds.has(id) && !baseIds.has(id) && isDifferentElement(findDefinition(oursContent, id), findDefinition(theirsContent, id))
+  );
+  if (colliding.length === 0) return { text: theirs, renumbered: [] };
+
+  const highest = new Map<IdPrefix, number>();
+  for (const text of [base, ours, theirs]) {
+    for (const span of findIdSpans(text)) {
+      const prefix = getIdPrefix(span.id)!;
+      highest.set(prefix, Math.max(highest.get(prefix) ?? 0, parseIdNumber(span.id) ?? 0));
+    }
+  }
+
+  const renames: Record<string, string> = {};
+  const renumbered = colliding.map((from) => {
+    const prefix = getIdPrefix(from)!;
+    const next = (highest.get(prefix) ?? 0) + 1;
+    highest.set(prefix, next);
+    const to = formatId(prefix, next);
+    renames[from] = to;
+    return { from, to };
+  });
+  return { text: replaceIds(theirs, renames).text, renumbered };
+}
+
+// =============================================================================
+// Writing the Result
+// =============================================================================
+
+function scalarValue(value: unknown): boolean {
+  return value === null || ['string', 'number', 'boolean'].includes(typeof value);
+}
+
+/**
+ * Make a YAML node hold a value, reusing existing nodes (and their comments
+ * and style) where they already match, and copying nodes from the donor
+ * revision where it has the value.
+ */
+function syncNode(doc: Document, current: unknown, value: unknown, donor: unknown): unknown {
+  const js = (node: unknown): unknown => (isMap(node) || isSeq(node) || isScalar(node) ? node.toJS(doc) : ABSENT);
+  if (current !== undefined && isDeepEqual(js(current), value)) return current;
+
+  if (isMap(current) && isObject(value)) {
+    for (const pair of [...current.items]) {
+      const key = isScalar(pair.key) ? String(pair.key.value) : undefined;
+      if (key === undefined || !(key in value)) current.delete(pair.key);
+    }
+    for (const [key, child] of Object.entries(value)) {
+      const existing = current.get(key, true);
+      const donorPair = isMap(donor) ? (donor.items.find((p) => isScalar(p.key) && String(p.key.value) === key) as Pair | undefined) : undefined;
+      if (existing === undefined && !current.has(key)) {
+        if (donorPair && isDeepEqual(js(donorPair.value), child)) {
+          current.items.push(donorPair.clone() as Pair);
+        } else {
+          current.set(key, syncNode(doc, undefined, child, donorPair?.value));
+        }
+        continue;
+      }
+      const synced = syncNode(doc, existing, child, donorPair?.value);
+      if (synced !== existing) current.set(key, synced);
+    }
+    return current;
+  }
+
+  if (isSeq(current) && Array.isArray(value)) {
+    const unused = [...current.items];
+    const donorItems = isSeq(donor) ? donor.items : [];
+    current.items = value.map((item) => {
+      const index = unused.findIndex((node) => isDeepEqual(js(node), item));
+      if (index >= 0) return unused.splice(index, 1)[0];
+      const donorItem = donorItems.find((node) => isDeepEqual(js(node), item));
+      return donorItem ? (donorItem as { clone(): unknown }).clone() : doc.createNode(item);
+    }) as typeof current.items;
+    return current;
+  }
+
+  if (isScalar(current) && scalarValue(value)) {
+    current.value = value;
+    if (typeof value !== 'string') current.type = undefined;
+    return current;
+  }
+
+  if (donor !== undefined && isDeepEqual(js(donor), value)) return (donor as { clone(): unknown }).clone();
+  return doc.createNode(value);
+}
+
+/**
+ * The smallest element containing a path: up to its last ID segment, else
+ * its top-level key.
+ */
+function conflictScope(path: Segment[]): Segment[] {
+  for (let i = path.length - 1; i >= 0; i--) {
+    if (isValidId(path[i])) return path.slice(0, i + 1);
+  }
+  return path.slice(0, 1);
+}
+
+/**
+ * Line range [start, end) of the entry at a path, including the comment
+ * lines directly above it.
+ */
+function entryLines(text: string, lines: string[], path: Segment[]): [number, number] | undefined {
+  if (path.length === 0) return [0, lines.length];
+  let node: unknown = parseDocument(text).contents;
+  let pair: Pair | undefined;
+  for (const segment of path) {
+    if (!isMap(node)) return undefined;
+    pair = node.items.find((p) => isScalar(p.key) && String(p.key.value) === segment) as Pair | undefined;
+    if (!pair) return undefined;
+    node = pair.value;
+  }
+  const key = pair!.key as { range?: [number, number, number] };
+  const value = pair!.value as { range?: [number, number, number] } | null;
+  if (!key.range) return undefined;
+
+  const lineOf = (offset: number): number => text.slice(0, offset).split('\n').length - 1;
+  let start = lineOf(key.range[0]);
+  const end = lineOf(Math.max((value?.range?.[1] ?? key.range[1]) - 1, key.range[0])) + 1;
+  while (start > 0 && lines[start - 1].trim().startsWith('#')) start--;
+  return [start, end];
+}
+
+function splitLines(text: string): string[] {
+  const lines = text.split('\n');
+  if (lines[lines.length - 1] === '') lines.pop();
+  return lines;
+}
+
+/**
+ * Combine the two resolutions of a merge into one text with conflict
+ * markers around each conflicting element.
+ */
+function writeConflicts(oursText: string, theirsText: string, scopes: Segment[][], options: MergeOptions): string {
+  const size = options.markerSize ?? 7;
+  const block = (ours: string[], theirs: string[]): string[] => [
+    `${'<'.repeat(size)} ${options.oursLabel ?? 'ours'}`,
+    ...ours,
+    '='.repeat(size),
+    ...theirs,
+    `${'>'.repeat(size)} ${options.theirsLabel ?? 'theirs'}`,
+  ];
+
+  const oursLines = splitLines(oursText);
+  const theirsLines = splitLines(theirsText);
+  const regions = scopes.map((scope) => ({
+    ours: entryLines(oursText, oursLines, scope),
+    theirs: entryLines(theirsText, theirsLines, scope),
+  }));
+
+  // Lines outside the conflicting elements are the same on both sides
+  const common = (lines: string[], ranges: ([number, number] | undefined)[]): { lines: string[]; anchors: Map<number, number> } => {
+    const inRange = (line: number) => ranges.some((range) => range && line >= range[0] && line < range[1]);
+    const result: string[] = [];
+    const anchors = new Map<number, number>();
+    lines.forEach((line, index) => {
+      ranges.forEach((range, scope) => {
+        if (range && range[0] === index) anchors.set(scope, result.length);
+      });
+      if (!inRange(index)) result.push(line);
+    });
+    ranges.forEach((range, scope) => {
+      if (range && range[0] >= lines.length) anchors.set(scope, result.length);
+    });
+    return { lines: result, anchors };
+  };
+  const commonOurs = common(oursLines, regions.map((region) => region.ours));
+  const commonTheirs = common(theirsLines, regions.map((region) => region.theirs));
+
+  const overlapping = regions.some((region, i) =>
+    regions.some((other, j) => i !== j && region.ours && other.ours && region.ours[0] < other.ours[1] && other.ours[0] < region.ours[1])
+  );
+  if (overlapping || !isDeepEqual(commonOurs.lines, commonTheirs.lines) || regions.some((r) => !r.ours && !r.theirs)) {
+    return block(oursLines, theirsLines).join('\n') + '\n';
+  }
+
+  const output: string[] = [];
+  const emit = (anchor: number) => {
+    regions.forEach((region, scope) => {
+      if ((commonOurs.anchors.get(scope) ?? commonTheirs.anchors.get(scope)) !== anchor) return;
+      const ours = region.ours ? oursLines.slice(...region.ours) : [];
+      const theirs = region.theirs ? theirsLines.slice(...region.theirs) : [];
+      output.push(...block(ours, theirs));
+    });
+  };
+  commonOurs.lines.forEach((line, index) => {
+    emit(index);
+    output.push(line);
+  });
+  emit(commonOurs.lines.length);
+  return output.join('\n') + '\n';
+}
+
+// =============================================================================
+// Merge
+// =============================================================================
+
+function parseYaml(text: string, label: string): Document {
+  const doc = parseDocument(text);
+  if (doc.errors.length > 0) {
+    throw new Error(`Cannot merge: ${label} is not valid YAML: ${doc.errors[0].message}`);
+  }
+  return doc;
+}
+
+/**
+ * Merge two revisions of a UBML document against their common ancestor.
+ *
+ * @param base - Common ancestor text (empty when the file was added on both sides)
+ * @param ours - Current revision text; its formatting is kept
+ * @param theirs - Other revision text
+ * @param options - Conflict marker options
+ * @throws When a revision is not valid YAML
+ *
+ * @example
+ * ```typescript
+ * import { mergeDocuments } from 'ubml';
+ *
+ * const result = mergeDocuments(base, ours, theirs);
+ * if (result.conflicts.length > 0) console.log('Resolve conflicts in', result.conflicts.map((c) => c.path));
+ * ```
+ */
+export function mergeDocuments(base: string, ours: string, theirs: string, options: MergeOptions = {}): MergeResult {
+  const baseDoc = parseYaml(base, 'the base revision');
+  const oursDoc = parseYaml(ours, 'our revision');
+  parseYaml(theirs, 'their revision');
+
+  const renumbering = renumberCollisions(base, ours, theirs);
+  const theirsDoc = parseYaml(renumbering.text, 'their revision');
+
+  const state: ValueMerge = { conflicts: [] };
+  const baseContent = baseDoc.contents ? baseDoc.toJS() : ABSENT;
+  const [mergedOurs, mergedTheirs] = mergeValue(state, baseContent, oursDoc.toJS(), theirsDoc.toJS(), []);
+
+  if (state.conflicts.length === 0 && isDeepEqual(mergedOurs, oursDoc.toJS())) {
+    return { text: ours, conflicts: [], renumbered: renumbering.renumbered };
+  }
+
+  const resultDoc = oursDoc.clone();
+  resultDoc.contents = syncNode(resultDoc, resultDoc.contents ?? undefined, mergedOurs, theirsDoc.contents) as Document['contents'];
+  const text = stringifyYaml(resultDoc, ours);
+
+  if (state.conflicts.length === 0) {
+    return { text, conflicts: [], renumbered: renumbering.renumbered };
+  }
+
+  // Group conflicting values by element, outermost element first
+  const scopes: Segment[][] = [];
+  const conflicts: MergeConflict[] = [];
+  const pointer = (path: Segment[]) => path.map((segment) => `/${segment}`).join('');
+  for (const path of state.conflicts) {
+    const scope = conflictScope(path);
+    let index = scopes.findIndex((other) => other.length <= scope.length && other.every((segment, i) => scope[i] === segment));
+    if (index < 0) {
+      index = scopes.length;
+      scopes.push(scope);
+      conflicts.push({ path: pointer(scope), properties: [] });
+    }
+    conflicts[index].properties.push(pointer(path));
+  }
+
+  const theirsView = resultDoc.clone();
+  theirsView.contents = syncNode(theirsView, theirsView.contents ?? undefined, mergedTheirs, theirsDoc.contents) as Document['contents'];
+
+  return {
+    text: writeConflicts(text, stringifyYaml(theirsView, ours), scopes, options),
+    conflicts,
+    renumbered: renumbering.renumbered,
+  };
+}
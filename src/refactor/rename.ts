@@ -0,0 +1,297 @@
+/**
+ * ID Rename and Renumber (Browser-Safe)
+ *
+ * Plans and applies ID changes across the documents of a workspace. IDs are
+ * replaced in place in the YAML text, at the ranges of the keys and scalar
+ * values that hold them, so comments and formatting are preserved.
+ *
+ * Duplicate IDs (e.g., after merging two branches) are handled per
+ * definition: a document's own definition of an ID decides what its
+ * references are renamed to, and references in other documents follow the
+ * renamed definition only when no unrenamed definition of the ID exists.
+ *
+ * @module ubml/refactor/rename
+ */
+
+import { parseDocument, isMap, isScalar, isSeq } from 'yaml';
+import { ID_CONFIG, formatId, getIdPrefix, isValidId, parseIdNumber, type IdPrefix } from '../metadata.js';
+
+// =============================================================================
+// Public Types
+// =============================================================================
+
+/**
+ * A document to rewrite.
+ */
+export interface RefactorFile {
+  /** File path (used to scope and report changes) */
+  path: string;
+  /** YAML text */
+  text: string;
+}
+
+/**
+ * An ID key or value in a document's text.
+ */
+export interface IdSpan {
+  id: string;
+  /** True for keys (definitions), false for values (references) */
+  definition: boolean;
+  /** Offset of the ID in the text */
+  start: number;
+  end: number;
+}
+
+/**
+ * A planned change of one definition's ID.
+ */
+export interface IdRename {
+  from: string;
+  to: string;
+  /** File that defines the ID */
+  path: string;
+  /**
+   * Offset of the definition in the file's text. Without it, every
+   * definition of the ID in the file is renamed.
+   */
+  start?: number;
+}
+
+/**
+ * A rewritten document.
+ */
+export interface RefactorChange {
+  path: string;
+  text: string;
+  /** Number of IDs replaced */
+  replacements: number;
+}
+
+/**
+ * Options for planning a rename.
+ */
+export interface RenameOptions {
+  /** Only rename definitions in these files (paths as in the file list) */
+  files?: string[];
+}
+
+/**
+ * Options for planning a renumber.
+ */
+export interface RenumberOptions {
+  /** Only renumber IDs defined in these files */
+  files?: string[];
+  /**
+   * First number to assign. Defaults to the init offset when renumbering
+   * the whole workspace, and to one past the highest number still in use
+   * when renumbering selected files.
+   */
+  start?: number;
+  /** Increment between numbers (default: 1) */
+  step?: number;
+}
+
+// =============================================================================
+// Text Rewriting
+// =============================================================================
+
+/**
+ * Find every ID key and ID scalar value in YAML text.
+ */
+export function findIdSpans(text: string): IdSpan[] {
+  const spans: IdSpan[] = [];
+
+  const add = (value: unknown, range: [number, number, number] | null | undefined, definition: boolean): void => {
+    if (typeof value !== 'string' || !isValidId(value) || !range) return;
+    // Quoted scalars include their quotes in the range
+    const start = text.indexOf(value, range[0]);
+    if (start < 0 || start + value.length > range[1]) return;
+    spans.push({ id: value, definition, start, end: start + value.length });
+  };
+
+  const walk = (node: unknown): void => {
+    if (isMap(node)) {
+      for (const pair of node.items) {
+        if (isScalar(pair.key)) add(pair.key.value, pair.key.range, true);
+        walk(pair.value);
+      }
+    } else if (isSeq(node)) {
+      node.items.forEach(walk);
+    } else if (isScalar(node)) {
+      add(node.value, node.range, false);
+    }
+  };
+
+  walk(parseDocument(text).contents);
+  return spans;
+}
+
+/**
+ * Replace IDs in YAML text, leaving everything else untouched.
+ */
+export function replaceIds(text: string, renames: Record<string, string>): { text: string; replacements: number } {
+  return rewriteSpans(text, findIdSpans(text), (span) => renames[span.id]);
+}
+
+/**
+ * Replace the spans that get a new ID.
+ */
+function rewriteSpans(
+  text: string,
+  spans: IdSpan[],
+  newId: (span: IdSpan) => string | undefined
+): { text: string; replacements: number } {
+  const replaced = spans.filter((span) => newId(span) !== undefined && newId(span) !== span.id);
+  let result = text;
+  for (const span of [...replaced].sort((a, b) => b.start - a.start)) {
+    result = result.slice(0, span.start) + newId(span)! + result.slice(span.end);
+  }
+  return { text: result, replacements: replaced.length };
+}
+
+// =============================================================================
+// Planning
+// =============================================================================
+
+/**
+ * Defined IDs of each file, in document order.
+ */
+function definitionsByFile(files: RefactorFile[]): Map<string, string[]> {
+  const definitions = new Map<string, string[]>();
+  for (const file of files) {
+    const ids = findIdSpans(file.text).filter((span) => span.definition).map((span) => span.id);
+    definitions.set(file.path, [...new Set(ids)]);
+  }
+  return definitions;
+}
+
+function selectFiles(files: RefactorFile[], selected: string[] | undefined): Set<string> {
+  if (!selected || selected.length === 0) return new Set(files.map((file) => file.path));
+  const paths = new Set(files.map((file) => file.path));
+  for (const path of selected) {
+    if (!paths.has(path)) throw new Error(`File ${path} is not a UBML document in the workspace`);
+  }
+  return new Set(selected);
+}
+
+/**
+ * Plan renaming the definition of one ID.
+ *
+ * @throws When the ID is not defined (in the selected files), is defined in
+ * more than one file without `files` to choose one, or the new ID is
+ * invalid, has a different prefix or is already defined.
+ */
+export function planRename(files: RefactorFile[], from: string, to: string, options: RenameOptions = {}): IdRename[] {
+  if (!isValidId(from)) throw new Error(`Invalid ID "${from}"`);
+  if (!isValidId(to)) throw new Error(`Invalid ID "${to}"`);
+  if (getIdPrefix(from) !== getIdPrefix(to)) {
+    throw new Error(`Cannot rename ${from} to ${to}: IDs must keep their prefix (${getIdPrefix(from)})`);
+  }
+
+  const definitions = definitionsByFile(files);
+  const selected = selectFiles(files, options.files);
+  const definedIn = files.filter((file) => definitions.get(file.path)!.includes(from)).map((file) => file.path);
+  const targets = definedIn.filter((path) => selected.has(path));
+
+  if (targets.length === 0) {
+    throw new Error(`ID ${from} is not defined${options.files?.length ? ' in the selected files' : ''}`);
+  }
+  if (targets.length > 1 && !options.files?.length) {
+    throw new Error(`ID ${from} is defined in ${targets.length} files (${targets.join(', ')}); choose one with --file`);
+  }
+  const existing = files.find((file) => definitions.get(file.path)!.includes(to));
+  if (existing) throw new Error(`ID ${to} is already defined in ${existing.path}`);
+
+  return targets.map((path) => ({ from, to, path }));
+}
+
+/**
+ * Plan renumbering every definition with a prefix, in workspace order
+ * (files in the given order, then document order). Each definition gets its
+ * own number, including an ID defined twice in one file.
+ *
+ * New numbers skip IDs that stay in use: definitions that are not
+ * renumbered and references to undefined IDs.
+ */
+export function planRenumber(files: RefactorFile[], prefix: IdPrefix, options: RenumberOptions = {}): IdRename[] {
+  const step = options.step ?? 1;
+  if (!Number.isInteger(step) || step < 1) throw new Error(`Invalid step ${options.step} (expected a positive integer)`);
+
+  const definitions = definitionsByFile(files);
+  const selected = selectFiles(files, options.files);
+
+  const targets: { id: string; path: string; start: number }[] = [];
+  const taken = new Set<string>();
+  for (const file of files) {
+    for (const span of findIdSpans(file.text)) {
+      if (getIdPrefix(span.id) !== prefix) continue;
+      if (span.definition && selected.has(file.path)) {
+        targets.push({ id: span.id, path: file.path, start: span.start });
+      } else if (span.definition || !files.some((f) => definitions.get(f.path)!.includes(span.id))) {
+        taken.add(span.id);
+      }
+    }
+  }
+
+  const highest = Math.max(0, ...[...taken].map((id) => parseIdNumber(id) ?? 0));
+  const wholeWorkspace = selected.size === files.length;
+  let next = options.start ?? (wholeWorkspace ? ID_CONFIG.initOffset : highest + 1);
+  if (!Number.isInteger(next) || next < 0) throw new Error(`Invalid start ${options.start} (expected a non-negative integer)`);
+
+  const renames = targets.map(({ id, path, start }) => {
+    while (taken.has(formatId(prefix, next))) next += step;
+    const to = formatId(prefix, next);
+    taken.add(to);
+    next += step;
+    return { from: id, to, path, start };
+  });
+  return renames.filter((rename) => rename.from !== rename.to);
+}
+
+// =============================================================================
+// Applying
+// =============================================================================
+
+/**
+ * Apply planned renames to the workspace documents.
+ *
+ * Each document renames its own definitions as planned, and its references
+ * to an ID follow its first definition of that ID. References to an ID it
+ * does not define follow the first renamed definition of that ID, unless
+ * the ID also has a definition that is not renamed.
+ *
+ * @returns The documents that changed
+ */
+export function applyRenames(files: RefactorFile[], renames: IdRename[]): RefactorChange[] {
+  const spansByFile = new Map(files.map((file) => [file.path, findIdSpans(file.text)]));
+
+  // New ID of each renamed definition, by file and offset
+  const renamedAt = new Map<string, Map<number, string>>();
+  for (const rename of renames) {
+    if (!renamedAt.has(rename.path)) renamedAt.set(rename.path, new Map());
+    for (const span of spansByFile.get(rename.path) ?? []) {
+      if (span.definition && span.id === rename.from && (rename.start === undefined || rename.start === span.start)) {
+        renamedAt.get(rename.path)!.set(span.start, rename.to);
+      }
+    }
+  }
+  const keptSomewhere = (id: string): boolean =>
+    files.some((file) => spansByFile.get(file.path)!.some((span) => span.definition && span.id === id && !renamedAt.get(file.path)?.has(span.start)));
+
+  const changes: RefactorChange[] = [];
+  for (const file of files) {
+    const spans = spansByFile.get(file.path)!;
+    const renamed = renamedAt.get(file.path);
+    const mapping: Record<string, string> = {};
+    for (const rename of renames) {
+      if (rename.from in mapping) continue;
+      const own = spans.find((span) => span.definition && span.id === rename.from);
+      const to = own ? renamed?.get(own.start) : keptSomewhere(rename.from) ? undefined : rename.to;
+      if (to !== undefined) mapping[rename.from] = to;
+    }
+
+    const result = rewriteSpans(file.text, spans, (span) => (span.definition ? renamed?.get(span.start) : mapping[span.id]));
+    if (result.replacements > 0) changes.push({ path: file.path, text: result.text, replacements: result.replacements });
+  }
+  return changes;
+}
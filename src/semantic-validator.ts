@@ -5,8 +5,23 @@
  * For file system operations, use the Node.js version in `node/semantic-validator.ts`.
  */
 
-import { isValidId, REFERENCE_FIELDS, type DocumentType, getIdPrefix } from './metadata.js';
+import { isScalar, Scalar } from 'yaml';
+import {
+  isValidId,
+  REFERENCE_FIELDS,
+  REFERENCE_FIELD_TARGETS,
+  ID_PREFIXES,
+  type DocumentType,
+  getIdPrefix,
+  getElementTypeFromId,
+  getReferenceTargets,
+} from './metadata.js';
 import type { UBMLDocument } from './parser.js';
+import { parseExpression } from './expression/parser.js';
+import { checkExpression, type AttributeDeclaration } from './expression/checker.js';
+import { calculateRoi, compareRoiResults, type RoiResults } from './analysis/roi.js';
+import { checkProcessGraph } from './analysis/process-graph.js';
+import type { Process, ROI } from './generated/types.js';
 
 // =============================================================================
 // Fuzzy Matching Utilities
@@ -92,6 +107,14 @@ export interface ReferenceError {
   code?: string;
   /** Suggested IDs that might be intended */
   suggestions?: string[];
+  /** Element type the reference field expects (e.g., 'system actor') */
+  expectedType?: string;
+  /** Element type the reference actually points to (e.g., 'step') */
+  actualType?: string;
+  /** Line number (1-indexed) */
+  line?: number;
+  /** Column number (1-indexed) */
+  column?: number;
 }
 
 /**
@@ -348,6 +371,22 @@ export function validateDocuments(
     }
   }
 
+  // Check that references point to the element types their fields expect
+  errors.push(...validateReferenceTypes(documents));
+
+  // Check guards, link conditions and computed durations against work attributes
+  const expressionResult = validateExpressions(documents);
+  errors.push(...expressionResult.errors);
+  warnings.push(...expressionResult.warnings);
+
+  // Check stored ROI results against the cost and benefit lines
+  warnings.push(...validateRoiResults(documents));
+
+  // Check the step/link graph of every process
+  const graphResult = validateProcessGraphs(documents);
+  errors.push(...graphResult.errors);
+  warnings.push(...graphResult.warnings);
+
   return {
     valid: errors.length === 0,
     errors,
@@ -357,6 +396,486 @@ export function validateDocuments(
   };
 }
 
+// ============================================================================
+// EXPRESSION VALIDATION
+// ============================================================================
+
+/**
+ * An expression found in a document.
+ */
+interface ExpressionSite {
+  /** Expression source */
+  source: string;
+  /** Path segments to the expression value */
+  path: (string | number)[];
+  /** Type the expression must produce */
+  expected?: AttributeDeclaration['type'];
+  /** What the expression is, used in messages */
+  role: string;
+}
+
+/**
+ * Properties typed as Duration in the schemas. Only `{ expr }` objects
+ * under these keys are duration expressions.
+ */
+const DURATION_PROPERTIES = new Set([
+  'duration',
+  'effort',
+  'delay',
+  'lag',
+  'retentionPeriod',
+  'burstInterval',
+  'warmupPeriod',
+  'runLength',
+]);
+
+/**
+ * Map a work attribute's declared type to its expression type.
+ */
+function attributeDeclaration(attribute: Record<string, unknown>): AttributeDeclaration | undefined {
+  switch (attribute.type) {
+    case 'numeric':
+      return { type: 'number' };
+    case 'boolean':
+      return { type: 'boolean' };
+    case 'categorical': {
+      const values = Array.isArray(attribute.values)
+        ? attribute.values.map((value) => (value as { name?: string })?.name).filter((name): name is string => typeof name === 'string')
+        : [];
+      return { type: 'string', values };
+    }
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Collect work attributes declared by any scenario (including work mix overrides).
+ */
+function collectWorkAttributes(documents: UBMLDocument[]): Record<string, AttributeDeclaration> {
+  const attributes: Record<string, AttributeDeclaration> = {};
+  const add = (declared: unknown) => {
+    if (!declared || typeof declared !== 'object') return;
+    for (const [name, attribute] of Object.entries(declared as Record<string, Record<string, unknown>>)) {
+      const declaration = attribute && typeof attribute === 'object' ? attributeDeclaration(attribute) : undefined;
+      if (!declaration) continue;
+      const existing = attributes[name];
+      if (!existing) {
+        attributes[name] = declaration;
+      } else if (existing.values && declaration.values) {
+        existing.values = [...new Set([...existing.values, ...declaration.values])];
+      }
+    }
+  };
+
+  for (const document of documents) {
+    if (document.meta.type !== 'scenarios') continue;
+    const scenarios = (document.content as { scenarios?: Record<string, Record<string, unknown>> }).scenarios ?? {};
+    for (const scenario of Object.values(scenarios)) {
+      add(scenario?.workAttributes);
+      for (const item of (Array.isArray(scenario?.workMix) ? scenario.workMix : []) as Record<string, unknown>[]) {
+        add(item?.attributes);
+      }
+    }
+  }
+  return attributes;
+}
+
+/**
+ * Find guards, link conditions, duration expressions and work attribute
+ * expressions in document content.
+ */
+function findExpressions(content: unknown, path: (string | number)[] = [], sites: ExpressionSite[] = []): ExpressionSite[] {
+  if (!content || typeof content !== 'object') return sites;
+
+  if (Array.isArray(content)) {
+    content.forEach((item, index) => findExpressions(item, [...path, index], sites));
+    return sites;
+  }
+
+  const obj = content as Record<string, unknown>;
+  const parentKey = path[path.length - 2];
+
+  if (typeof obj.expr === 'string') {
+    const isAttribute = parentKey === 'workAttributes' || (parentKey === 'attributes' && path.includes('workMix'));
+    if (isAttribute) {
+      sites.push({
+        source: obj.expr,
+        path: [...path, 'expr'],
+        expected: attributeDeclaration(obj)?.type,
+        role: `Work attribute "${path[path.length - 1]}"`,
+      });
+    } else if (DURATION_PROPERTIES.has(String(path[path.length - 1]))) {
+      sites.push({ source: obj.expr, path: [...path, 'expr'], expected: 'number', role: 'Duration expression' });
+    }
+  }
+  if (typeof obj.guard === 'string' && parentKey === 'steps') {
+    sites.push({ source: obj.guard, path: [...path, 'guard'], expected: 'boolean', role: 'Guard' });
+  }
+  if (typeof obj.condition === 'string' && parentKey === 'links') {
+    sites.push({ source: obj.condition, path: [...path, 'condition'], expected: 'boolean', role: 'Link condition' });
+  }
+
+  for (const [key, value] of Object.entries(obj)) {
+    findExpressions(value, [...path, key], sites);
+  }
+  return sites;
+}
+
+/**
+ * Format path segments in dot notation: processes.PR00001.links[0].condition
+ */
+function formatPath(path: (string | number)[]): string {
+  return path.reduce<string>(
+    (result, segment) => (typeof segment === 'number' ? `${result}[${segment}]` : result ? `${result}.${segment}` : segment),
+    ''
+  );
+}
+
+/**
+ * Map a position inside an expression to a position in the document.
+ *
+ * Positions map into plain and quoted scalars written exactly as their
+ * value, and line by line into literal (`|`) block scalars. Folded (`>`)
+ * scalars, escaped strings and scalars wrapped over lines report the start
+ * of the scalar.
+ */
+function locateInDocument(
+  document: UBMLDocument,
+  path: (string | number)[],
+  position: { line: number; column: number }
+): { line?: number; column?: number } {
+  const location = document.getSourceLocation('/' + path.join('/'));
+  if (!location) return {};
+  const start = { line: location.line, column: location.column };
+  const node = document.yamlDocument?.getIn(path, true);
+  if (!isScalar(node) || typeof node.value !== 'string' || !node.range) return start;
+
+  const source = document.source;
+  const value = node.value;
+  const [from, to] = node.range;
+  let offset: number | undefined;
+  if (node.type === Scalar.PLAIN || node.type === Scalar.QUOTE_SINGLE || node.type === Scalar.QUOTE_DOUBLE) {
+    const opening = node.type === Scalar.PLAIN ? 0 : 1;
+    if (position.line === 1 && source.slice(from + opening, to - opening) === value) {
+      offset = from + opening + position.column - 1;
+    }
+  } else if (node.type === Scalar.BLOCK_LITERAL) {
+    // Content lines follow the header line, at the indentation of the first non-blank one
+    let lineStart = source.indexOf('\n', from) + 1;
+    const indent = source.slice(lineStart).match(/^(?:[ \t]*\n)*( *)/)![1].length;
+    for (let line = 1; line < position.line && lineStart > 0; line++) lineStart = source.indexOf('\n', lineStart) + 1;
+    const text = value.split('\n')[position.line - 1];
+    if (lineStart > 0 && text !== undefined && source.startsWith(text, lineStart + indent)) {
+      offset = lineStart + indent + position.column - 1;
+    }
+  }
+  if (offset === undefined) return start;
+
+  const lineStart = source.lastIndexOf('\n', offset - 1) + 1;
+  return { line: source.slice(0, offset).split('\n').length, column: offset - lineStart + 1 };
+}
+
+/**
+ * Parse and type-check every guard, link condition, duration expression and
+ * work attribute expression against the work attributes declared in scenarios.
+ *
+ * Unknown identifiers are errors once the workspace declares work attributes,
+ * and warnings while it declares none.
+ */
+function validateExpressions(documents: UBMLDocument[]): { errors: ReferenceError[]; warnings: ReferenceWarning[] } {
+  const errors: ReferenceError[] = [];
+  const warnings: ReferenceWarning[] = [];
+  const attributes = collectWorkAttributes(documents);
+  const attributeNames = Object.keys(attributes);
+
+  for (const document of documents) {
+    const filepath = document.meta.filename || 'unknown';
+
+    for (const site of findExpressions(document.content)) {
+      const path = formatPath(site.path);
+      const parsed = parseExpression(site.source);
+      if (!parsed.ok || !parsed.ast) {
+        for (const error of parsed.errors) {
+          errors.push({
+            message: `${site.role}: ${error.message}`,
+            filepath,
+            path,
+            code: error.code,
+            ...locateInDocument(document, site.path, error),
+          });
+        }
+        continue;
+      }
+
+      const result = checkExpression(parsed.ast, attributes, { expected: site.expected });
+      for (const diagnostic of result.diagnostics) {
+        let message = `${site.role}: ${diagnostic.message}`;
+        let suggestions: string[] | undefined;
+        if (diagnostic.identifier) {
+          suggestions = attributeNames
+            .map((name) => ({ name, distance: levenshteinDistance(diagnostic.identifier!, name) }))
+            .filter((candidate) => candidate.distance <= 2)
+            .sort((a, b) => a.distance - b.distance)
+            .slice(0, 3)
+            .map((candidate) => candidate.name);
+          if (suggestions.length > 0) {
+            message += ` - did you mean: ${suggestions.join(', ')}?`;
+          } else {
+            suggestions = undefined;
+          }
+        }
+
+        const entry = {
+          message,
+          filepath,
+          path,
+          code: diagnostic.code,
+          ...locateInDocument(document, site.path, diagnostic),
+        };
+        if (diagnostic.identifier && attributeNames.length === 0) {
+          warnings.push(entry);
+        } else {
+          errors.push({ ...entry, suggestions });
+        }
+      }
+    }
+  }
+
+  return { errors, warnings };
+}
+
+// ============================================================================
+// ROI RESULTS VALIDATION
+// ============================================================================
+
+/**
+ * Warn when the stored `results` of an ROI analysis no longer match the
+ * results computed from its costs and benefits.
+ */
+function validateRoiResults(documents: UBMLDocument[]): ReferenceWarning[] {
+  const warnings: ReferenceWarning[] = [];
+
+  for (const document of documents) {
+    if (document.meta.type !== 'metrics') continue;
+    const filepath = document.meta.filename || 'unknown';
+    const analyses = ((document.content as Record<string, unknown>).roiAnalyses ?? {}) as Record<string, ROI>;
+
+    for (const [id, roi] of Object.entries(analyses)) {
+      if (!roi?.results || !Array.isArray(roi.costs) || !Array.isArray(roi.benefits)) continue;
+      const location = document.getSourceLocation(`/roiAnalyses/${id}/results`);
+      const position = location ? { line: location.line, column: location.column } : {};
+
+      let computed: RoiResults;
+      try {
+        computed = calculateRoi(roi).results;
+      } catch (err) {
+        warnings.push({
+          message: `Cannot check results of ${id}: ${err instanceof Error ? err.message : String(err)}`,
+          filepath,
+          path: `roiAnalyses.${id}.results`,
+          code: 'ubml/roi-invalid',
+          ...position,
+        });
+        continue;
+      }
+
+      for (const discrepancy of compareRoiResults(roi.results, computed)) {
+        const fieldLocation = document.getSourceLocation(`/roiAnalyses/${id}/results/${discrepancy.field}`);
+        warnings.push({
+          message:
+            `${id} results.${discrepancy.field} is ${discrepancy.stored} but the costs and benefits give ` +
+            `${discrepancy.computed ?? 'no value'} (run 'ubml roi ${id} --write' to update)`,
+          filepath,
+          path: `roiAnalyses.${id}.results.${discrepancy.field}`,
+          code: 'ubml/roi-results-outdated',
+          ...(fieldLocation ? { line: fieldLocation.line, column: fieldLocation.column } : position),
+        });
+      }
+    }
+  }
+
+  return warnings;
+}
+
+// ============================================================================
+// PROCESS GRAPH VALIDATION
+// ============================================================================
+
+/**
+ * Check the step/link graph of every process and subprocess for
+ * unreachable steps, dead ends, unbalanced branches and unmodelled cycles.
+ */
+function validateProcessGraphs(documents: UBMLDocument[]): { errors: ReferenceError[]; warnings: ReferenceWarning[] } {
+  const errors: ReferenceError[] = [];
+  const warnings: ReferenceWarning[] = [];
+
+  const visit = (document: UBMLDocument, processes: unknown, prefix: (string | number)[]): void => {
+    if (!processes || typeof processes !== 'object') return;
+    for (const [id, process] of Object.entries(processes as Record<string, Process>)) {
+      if (!process || typeof process !== 'object') continue;
+      const processPath = [...prefix, id];
+
+      for (const diagnostic of checkProcessGraph(process)) {
+        const path = [...processPath, ...diagnostic.path];
+        const location = document.getSourceLocation('/' + path.join('/'));
+        const entry = {
+          message: `${id}: ${diagnostic.message}`,
+          filepath: document.meta.filename || 'unknown',
+          path: formatPath(path),
+          code: diagnostic.code,
+          ...(location && { line: location.line, column: location.column }),
+        };
+        (diagnostic.severity === 'error' ? errors : warnings).push(entry);
+      }
+
+      visit(document, process.subprocesses, [...processPath, 'subprocesses']);
+    }
+  };
+
+  for (const document of documents) {
+    if (document.meta.type !== 'process') continue;
+    visit(document, (document.content as Record<string, unknown>).processes, ['processes']);
+  }
+
+  return { errors, warnings };
+}
+
+// ============================================================================
+// REFERENCE TYPE VALIDATION
+// ============================================================================
+
+/**
+ * Semantic constraints on referenced elements beyond their ID prefix,
+ * as documented on the reference fields in the schemas.
+ */
+const REFERENCE_CONSTRAINTS: Record<string, {
+  expected: string;
+  accepts: (element: Record<string, unknown>) => boolean;
+  describe: (element: Record<string, unknown>) => string;
+}> = {
+  systems: {
+    expected: 'system actor',
+    accepts: (actor) => actor.type === 'system',
+    describe: (actor) => `${actor.type ?? 'untyped'} actor`,
+  },
+  reportsTo: {
+    expected: 'non-system actor',
+    accepts: (actor) => actor.type !== 'system',
+    describe: () => 'system actor',
+  },
+  startMilestone: {
+    expected: 'milestone step',
+    accepts: (step) => step.kind === 'milestone',
+    describe: (step) => `${step.kind ?? 'action'} step`,
+  },
+  endMilestone: {
+    expected: 'milestone step',
+    accepts: (step) => step.kind === 'milestone',
+    describe: (step) => `${step.kind ?? 'action'} step`,
+  },
+};
+
+/**
+ * A reference field value found in a document.
+ */
+interface ReferenceSite {
+  field: string;
+  id: string;
+  /** Path of the object declaring the field */
+  owner: (string | number)[];
+  path: (string | number)[];
+}
+
+/**
+ * Find every ID in a reference field, with its path.
+ */
+function findReferences(content: unknown, path: (string | number)[] = [], sites: ReferenceSite[] = []): ReferenceSite[] {
+  if (Array.isArray(content)) {
+    content.forEach((item, index) => findReferences(item, [...path, index], sites));
+  } else if (content && typeof content === 'object') {
+    for (const [key, value] of Object.entries(content as Record<string, unknown>)) {
+      if (REFERENCE_FIELD_TARGETS[key]) {
+        if (typeof value === 'string' && isValidId(value)) {
+          sites.push({ field: key, id: value, owner: path, path: [...path, key] });
+        } else if (Array.isArray(value)) {
+          value.forEach((item, index) => {
+            if (typeof item === 'string' && isValidId(item)) {
+              sites.push({ field: key, id: item, owner: path, path: [...path, key, index] });
+            }
+          });
+        }
+      }
+      findReferences(value, [...path, key], sites);
+    }
+  }
+  return sites;
+}
+
+/**
+ * Indefinite article for an element type ('an actor', 'a step').
+ */
+function article(type: string): string {
+  return /^[aeiou]/i.test(type) ? `an ${type}` : `a ${type}`;
+}
+
+/**
+ * Check that every reference points to an element of the type its field
+ * expects, from the field's `$ref` targets in refs.defs.yaml, and that the
+ * referenced element meets the field's semantic constraints.
+ *
+ * References to undefined IDs are left to the undefined-reference check.
+ */
+function validateReferenceTypes(documents: UBMLDocument[]): ReferenceError[] {
+  const errors: ReferenceError[] = [];
+
+  const elements = new Map<string, Record<string, unknown>>();
+  const collect = (content: unknown): void => {
+    if (!content || typeof content !== 'object') return;
+    for (const [key, value] of Object.entries(content as Record<string, unknown>)) {
+      if (isValidId(key) && value && typeof value === 'object' && !elements.has(key)) {
+        elements.set(key, value as Record<string, unknown>);
+      }
+      collect(value);
+    }
+  };
+  documents.forEach((document) => collect(document.content));
+
+  for (const document of documents) {
+    for (const { field, id, owner, path } of findReferences(document.content)) {
+      const location = document.getSourceLocation('/' + path.join('/'));
+      const report = (expectedType: string, actualType: string, message: string): void => {
+        errors.push({
+          message,
+          filepath: document.meta.filename || 'unknown',
+          path: formatPath(path),
+          code: 'ubml/reference-type-mismatch',
+          expectedType,
+          actualType,
+          ...(location && { line: location.line, column: location.column }),
+        });
+      };
+
+      const prefixes = getReferenceTargets(field, owner);
+      const actualType = getElementTypeFromId(id)!;
+      if (!prefixes.includes(getIdPrefix(id)!)) {
+        const expectedType = prefixes.map((prefix) => ID_PREFIXES[prefix]).join(' or ');
+        report(expectedType, actualType, `"${field}" must reference ${article(expectedType)}, but ${id} is ${article(actualType)}`);
+        continue;
+      }
+
+      const constraint = REFERENCE_CONSTRAINTS[field];
+      const element = elements.get(id);
+      if (constraint && element && !constraint.accepts(element)) {
+        const actual = constraint.describe(element);
+        report(constraint.expected, actual, `"${field}" must reference ${article(constraint.expected)}, but ${id} is ${article(actual)}`);
+      }
+    }
+  }
+
+  return errors;
+}
+
 // ============================================================================
 // WORKSPACE STRUCTURE VALIDATION
 // ============================================================================
@@ -0,0 +1,257 @@
+/**
+ * Arrival Streams (Browser-Safe)
+ *
+ * Turns a scenario's `arrivals` definition into a stream of arrival events
+ * on the simulation clock.
+ *
+ * The clock counts working hours from the start of the run, matching the
+ * duration units: a day is 8 hours, a week 5 days and a month 4 weeks
+ * (20 days). Calendar-based settings use that working calendar: the run
+ * starts on Monday 09:00 of the first month, cron schedules fire on working
+ * days only (Monday to Friday, day-of-month 1-20), and firings outside
+ * 09:00-17:00 are picked up at the nearest working moment.
+ *
+ * @module ubml/simulation/arrivals
+ */
+
+import type { Arrivals } from '../generated/types.js';
+import { DURATION_UNIT_HOURS, parseDuration } from '../utils/duration.js';
+import { sampleExponential, type RandomSource } from './random.js';
+
+// =============================================================================
+// Public Types
+// =============================================================================
+
+/**
+ * Work items entering the process at one moment.
+ */
+export interface ArrivalEvent {
+  /** Simulation time in working hours */
+  time: number;
+  /** Number of work items arriving */
+  count: number;
+}
+
+/**
+ * Returns the next arrival event, or undefined when no more work arrives.
+ */
+export type ArrivalStream = () => ArrivalEvent | undefined;
+
+// =============================================================================
+// Working Calendar
+// =============================================================================
+
+const HOURS_PER_DAY = DURATION_UNIT_HOURS.d;
+const DAYS_PER_MONTH = DURATION_UNIT_HOURS.mo / DURATION_UNIT_HOURS.d;
+const WORKDAY_START = 9;
+
+const RATE_UNIT_HOURS: Record<NonNullable<Arrivals['rateUnit']>, number> = {
+  'per-minute': DURATION_UNIT_HOURS.min,
+  'per-hour': DURATION_UNIT_HOURS.h,
+  'per-day': DURATION_UNIT_HOURS.d,
+  'per-week': DURATION_UNIT_HOURS.wk,
+  'per-month': DURATION_UNIT_HOURS.mo,
+};
+
+const WEEKDAY_NAMES = ['SUN', 'MON', 'TUE', 'WED', 'THU', 'FRI', 'SAT'];
+const MONTH_NAMES = ['JAN', 'FEB', 'MAR', 'APR', 'MAY', 'JUN', 'JUL', 'AUG', 'SEP', 'OCT', 'NOV', 'DEC'];
+
+interface CalendarDay {
+  /** Day of week, 1 (Monday) to 5 (Friday) */
+  weekday: number;
+  /** Working day of the month, 1-20 */
+  dayOfMonth: number;
+  /** Month, 1-12 */
+  month: number;
+}
+
+function calendarDay(day: number): CalendarDay {
+  return {
+    weekday: (day % 5) + 1,
+    dayOfMonth: (day % DAYS_PER_MONTH) + 1,
+    month: (Math.floor(day / DAYS_PER_MONTH) % 12) + 1,
+  };
+}
+
+/**
+ * Seasonality factor at a point in time: the product of all matching
+ * `Q1`-`Q4`, `JAN`-`DEC` and `MON`-`FRI` keys (case-insensitive).
+ */
+function seasonalityFactor(seasonality: Record<string, number> | undefined, time: number): number {
+  if (!seasonality) return 1;
+  const { weekday, month } = calendarDay(Math.floor(time / HOURS_PER_DAY));
+  const keys = new Set([`Q${Math.ceil(month / 3)}`, MONTH_NAMES[month - 1], WEEKDAY_NAMES[weekday]]);
+  let factor = 1;
+  for (const [key, value] of Object.entries(seasonality)) {
+    if (keys.has(key.toUpperCase())) factor *= value;
+  }
+  return factor;
+}
+
+// =============================================================================
+// Cron Schedules
+// =============================================================================
+
+/**
+ * Parse one cron field into the set of values it matches.
+ */
+function parseCronField(field: string, min: number, max: number, names: string[] = []): Set<number> {
+  const values = new Set<number>();
+  const toNumber = (text: string): number => {
+    const index = names.indexOf(text.toUpperCase());
+    const value = index >= 0 ? index : Number(text);
+    if (!Number.isInteger(value)) {
+      throw new Error(`Invalid cron value "${text}"`);
+    }
+    return value;
+  };
+
+  for (const part of field.split(',')) {
+    const [range, stepText] = part.split('/');
+    const step = stepText === undefined ? 1 : Number(stepText);
+    if (!Number.isInteger(step) || step < 1) {
+      throw new Error(`Invalid cron step "${part}"`);
+    }
+    let [from, to] = [min, max];
+    if (range !== '*') {
+      const [start, end] = range.split('-');
+      from = toNumber(start);
+      to = end === undefined ? (stepText === undefined ? from : max) : toNumber(end);
+    }
+    if (from < min || to > max || from > to) {
+      throw new Error(`Cron value "${part}" is out of range ${min}-${max}`);
+    }
+    for (let value = from; value <= to; value += step) {
+      values.add(value);
+    }
+  }
+  return values;
+}
+
+/**
+ * Create a generator of cron firing times on the working calendar.
+ *
+ * @throws Error if the schedule is malformed or never fires on a working day
+ */
+function cronFirings(schedule: string): () => number {
+  const fields = schedule.trim().split(/\s+/);
+  if (fields.length !== 5) {
+    throw new Error(`Cron schedule "${schedule}" must have 5 fields (minute hour day month weekday)`);
+  }
+  const minutes = [...parseCronField(fields[0], 0, 59)].sort((a, b) => a - b);
+  const hours = [...parseCronField(fields[1], 0, 23)].sort((a, b) => a - b);
+  const daysOfMonth = parseCronField(fields[2], 1, 31);
+  const months = parseCronField(fields[3], 1, 12, ['', ...MONTH_NAMES]);
+  const weekdays = parseCronField(fields[4], 0, 7, WEEKDAY_NAMES);
+  if (weekdays.has(7)) weekdays.add(0);
+
+  const matches = (day: number) => {
+    const { weekday, dayOfMonth, month } = calendarDay(day);
+    return weekdays.has(weekday) && daysOfMonth.has(dayOfMonth) && months.has(month);
+  };
+
+  // Firing offsets within a working day, clamped to working hours
+  const offsets: number[] = [];
+  for (const hour of hours) {
+    for (const minute of minutes) {
+      offsets.push(Math.min(Math.max(hour + minute / 60 - WORKDAY_START, 0), HOURS_PER_DAY));
+    }
+  }
+
+  const yearDays = DAYS_PER_MONTH * 12;
+  let day = 0;
+  let index = 0;
+  return () => {
+    let searched = 0;
+    while (index >= offsets.length || !matches(day)) {
+      if (index < offsets.length) {
+        searched++;
+        if (searched > yearDays) {
+          throw new Error(`Cron schedule "${schedule}" never fires on a working day`);
+        }
+      }
+      day++;
+      index = 0;
+    }
+    return day * HOURS_PER_DAY + offsets[index++];
+  };
+}
+
+// =============================================================================
+// Arrival Streams
+// =============================================================================
+
+/**
+ * Create the arrival stream for a scenario's arrivals definition.
+ *
+ * Rates default to per-hour; uniform and burst arrivals start at time 0.
+ * Seasonality scales the rate of poisson and uniform arrivals and the item
+ * count of scheduled and burst arrivals.
+ *
+ * @throws Error if required settings for the pattern are missing or invalid
+ */
+export function createArrivalStream(arrivals: Arrivals, random: RandomSource): ArrivalStream {
+  const batchSize = arrivals.batchSize ?? 1;
+  const seasonality = arrivals.seasonality as Record<string, number> | undefined;
+
+  switch (arrivals.pattern) {
+    case 'poisson':
+    case 'uniform': {
+      if (arrivals.rate === undefined) {
+        throw new Error(`Arrival pattern "${arrivals.pattern}" requires a rate`);
+      }
+      const hourlyRate = arrivals.rate / RATE_UNIT_HOURS[arrivals.rateUnit ?? 'per-hour'];
+      const horizon = DURATION_UNIT_HOURS.mo * 12;
+      let time = 0;
+      let started = false;
+      return () => {
+        let rate = hourlyRate * seasonalityFactor(seasonality, time);
+        // Skip periods where seasonality switches arrivals off
+        for (let start = time; rate <= 0; rate = hourlyRate * seasonalityFactor(seasonality, time)) {
+          time = (Math.floor(time / HOURS_PER_DAY) + 1) * HOURS_PER_DAY;
+          if (hourlyRate <= 0 || time - start > horizon) return undefined;
+        }
+        if (arrivals.pattern === 'poisson') {
+          time += sampleExponential(random, rate);
+        } else if (started) {
+          time += 1 / rate;
+        }
+        started = true;
+        return { time, count: batchSize };
+      };
+    }
+
+    case 'burst': {
+      const interval = arrivals.burstInterval === undefined ? undefined : durationHours(arrivals.burstInterval);
+      if (!interval || interval <= 0) {
+        throw new Error('Arrival pattern "burst" requires a positive burstInterval');
+      }
+      const size = arrivals.burstSize ?? batchSize;
+      let time = -interval;
+      return () => {
+        time += interval;
+        return { time, count: Math.round(size * seasonalityFactor(seasonality, time)) };
+      };
+    }
+
+    case 'scheduled': {
+      if (!arrivals.schedule) {
+        throw new Error('Arrival pattern "scheduled" requires a schedule');
+      }
+      const next = cronFirings(arrivals.schedule);
+      return () => {
+        const time = next();
+        return { time, count: Math.round(batchSize * seasonalityFactor(seasonality, time)) };
+      };
+    }
+  }
+}
+
+/**
+ * Convert a fixed duration value to hours.
+ */
+function durationHours(duration: NonNullable<Arrivals['burstInterval']>): number | undefined {
+  if (typeof duration === 'string') return parseDuration(duration);
+  if ('fixed' in duration) return parseDuration(duration.fixed);
+  return undefined;
+}
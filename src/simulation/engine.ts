@@ -0,0 +1,892 @@
+/**
+ * Discrete-Event Simulation (Browser-Safe)
+ *
+ * Runs a scenario against a process: work items arrive according to the
+ * scenario's `arrivals`, receive a work type from `workMix` and attributes
+ * sampled from `workAttributes`, and flow through the process steps.
+ *
+ * MODEL
+ * - The clock counts working hours (a day is 8 hours, see `parseDuration`).
+ * - A step occupies its resource for `effort` and completes after
+ *   `duration` (whichever is longer); either one alone is used for both.
+ * - The resource of a step is the resource pool of its first responsible
+ *   actor. Without a pool, a person actor is a single resource and other
+ *   actors (roles, teams, systems) have unlimited capacity.
+ * - Steps whose `guard` is false are skipped. `loop` repeats a step,
+ *   `batch` waits until enough work items are collected and processes
+ *   them together.
+ * - Outgoing links are filtered by `condition`; `probability` picks one of
+ *   the remaining links, decisions follow the first one, and other steps
+ *   follow all of them in parallel. `isDefault` links are followed when
+ *   nothing else matches.
+ * - A step with several incoming links waits until no other active branch
+ *   of the same work item can still reach it.
+ *
+ * Runs are deterministic: the same seed always gives the same results.
+ *
+ * @module ubml/simulation/engine
+ */
+
+import type {
+  Actor,
+  ActorsDocument,
+  Duration,
+  Link,
+  Process,
+  ProcessDocument,
+  ResourcePool,
+  Scenario,
+  ScenariosDocument,
+  Step,
+  WorkAttribute,
+} from '../generated/types.js';
+import type { UBMLDocument } from '../parser.js';
+import { evaluateExpression, type ExpressionScope, type ExpressionValue } from '../expression/evaluator.js';
+import { parseExpression, type ExpressionNode } from '../expression/parser.js';
+import { findProcess } from '../export/common.js';
+import { DURATION_UNIT_HOURS, parseDuration } from '../utils/duration.js';
+import { createArrivalStream } from './arrivals.js';
+import {
+  createRandom,
+  pickWeighted,
+  sampleExponential,
+  sampleLognormal,
+  sampleNormal,
+  sampleTriangular,
+  type RandomSource,
+} from './random.js';
+
+// =============================================================================
+// Public Types
+// =============================================================================
+
+/**
+ * Options for a simulation run. Unset values come from the scenario's
+ * `simulationConfig`.
+ */
+export interface SimulationOptions {
+  /** Process to simulate (default: the only top-level process) */
+  processId?: string;
+  /** Number of replications (default: 10) */
+  replications?: number;
+  /** Random seed (default: 1) */
+  seed?: number;
+  /** Run length in working hours (default: 1 month) */
+  runLength?: number;
+  /** Warmup period in working hours, excluded from statistics (default: 0) */
+  warmupPeriod?: number;
+}
+
+/**
+ * Cycle time statistics in working hours.
+ */
+export interface CycleTimeStatistics {
+  mean: number;
+  p50: number;
+  p90: number;
+  p95: number;
+  max: number;
+}
+
+/**
+ * Statistics for one resource pool or actor.
+ */
+export interface ResourceStatistics {
+  /** Resource pool or actor ID */
+  id: string;
+  name: string;
+  kind: 'pool' | 'actor';
+  /** Concurrent work items (null when unlimited) */
+  capacity: number | null;
+  /** Share of capacity in use, 0-1 (null when capacity is unlimited) */
+  utilization: number | null;
+  /** Busy hours per replication, summed over all servers */
+  busyHours: number;
+  /** Work items waiting for this resource */
+  queue: { mean: number; max: number };
+  /** Mean wait for the resource in working hours */
+  meanWait: number;
+}
+
+/**
+ * Aggregated simulation results. Counts and averages are means over the
+ * replications, measured after the warmup period.
+ */
+export interface SimulationResult {
+  scenario: { id: string; name: string };
+  processId: string;
+  replications: number;
+  seed: number;
+  /** Run length in working hours */
+  runLength: number;
+  /** Warmup period in working hours */
+  warmupPeriod: number;
+  /** Work items arrived per replication */
+  arrivals: number;
+  /** Work items completed per replication */
+  completed: number;
+  /** Cycle time of completed work items (null when none completed) */
+  cycleTime: CycleTimeStatistics | null;
+  /** Completed work items per working hour and working day */
+  throughput: { perHour: number; perDay: number };
+  /** Work items in process */
+  wip: { mean: number; max: number };
+  resources: ResourceStatistics[];
+}
+
+// =============================================================================
+// Model
+// =============================================================================
+
+/** Step executions allowed per work item before a loop is considered endless */
+const MAX_STEP_EXECUTIONS = 10000;
+
+interface ResourceModel {
+  id: string;
+  name: string;
+  kind: 'pool' | 'actor';
+  capacity: number;
+}
+
+interface StepModel {
+  id: string;
+  step: Step;
+  resource?: ResourceModel;
+  incoming: number;
+  outgoing: Link[];
+}
+
+interface ProcessModel {
+  processId: string;
+  steps: Map<string, StepModel>;
+  entry: string;
+  /** Steps reachable from each step through one or more links */
+  reach: Map<string, Set<string>>;
+  resources: ResourceModel[];
+}
+
+/**
+ * Collect the contents of all documents of one type.
+ */
+function contentsOf<T>(documents: UBMLDocument[], type: string): T[] {
+  return documents.filter((document) => document.meta.type === type).map((document) => document.content as T);
+}
+
+/**
+ * Resolve a scenario, merging the scenarios it is based on.
+ */
+function resolveScenario(scenarios: Record<string, Scenario>, id: string, seen = new Set<string>()): Scenario {
+  const scenario = scenarios[id];
+  if (!scenario) {
+    throw new Error(`Scenario ${id} not found`);
+  }
+  if (!scenario.basedOn) return scenario;
+  if (seen.has(id)) {
+    throw new Error(`Scenario ${id} is based on itself`);
+  }
+  seen.add(id);
+  const parent = resolveScenario(scenarios, scenario.basedOn, seen);
+  return {
+    ...parent,
+    ...scenario,
+    arrivals: parent.arrivals || scenario.arrivals ? ({ ...parent.arrivals, ...scenario.arrivals } as Scenario['arrivals']) : undefined,
+    workAttributes: { ...parent.workAttributes, ...scenario.workAttributes },
+    simulationConfig: { ...parent.simulationConfig, ...scenario.simulationConfig },
+  };
+}
+
+/**
+ * Select the process to simulate.
+ */
+function selectProcess(processDocuments: ProcessDocument[], processId?: string): [string, Process] {
+  if (processId) {
+    for (const document of processDocuments) {
+      const process = findProcess(document, processId);
+      if (process) return [processId, process];
+    }
+    throw new Error(`Process ${processId} not found`);
+  }
+  const processes = processDocuments.flatMap((document) => Object.entries((document.processes ?? {}) as Record<string, Process>));
+  if (processes.length !== 1) {
+    throw new Error(
+      processes.length === 0
+        ? 'No process found to simulate'
+        : `Several processes found; choose one of: ${processes.map(([id]) => id).join(', ')}`
+    );
+  }
+  return processes[0];
+}
+
+/**
+ * Build the simulation model of a process.
+ */
+function buildProcessModel(processId: string, process: Process, actorsDocuments: ActorsDocument[]): ProcessModel {
+  const actors = new Map<string, Actor>();
+  const pools: [string, ResourcePool][] = [];
+  for (const document of actorsDocuments) {
+    for (const [id, actor] of Object.entries((document.actors ?? {}) as Record<string, Actor>)) actors.set(id, actor);
+    pools.push(...Object.entries((document.resourcePools ?? {}) as Record<string, ResourcePool>));
+  }
+  pools.sort(([a], [b]) => a.localeCompare(b));
+
+  const resources = new Map<string, ResourceModel>();
+  const resourceFor = (actorId: string): ResourceModel | undefined => {
+    const existing = resources.get(actorId);
+    if (existing) return existing;
+    let resource: ResourceModel | undefined;
+    const pool = pools.find(([, candidate]) => candidate.actor === actorId);
+    if (pool) {
+      const [id, { name, capacity, wipLimit, equipment }] = pool;
+      resource = {
+        id,
+        name,
+        kind: 'pool',
+        capacity: Math.min(capacity ?? 1, wipLimit ?? Infinity, equipment?.length || Infinity),
+      };
+    } else if (actors.has(actorId)) {
+      const actor = actors.get(actorId)!;
+      resource = { id: actorId, name: actor.name, kind: 'actor', capacity: actor.type === 'person' ? 1 : Infinity };
+    }
+    if (resource) resources.set(actorId, resource);
+    return resource;
+  };
+
+  const stepEntries = Object.entries((process.steps ?? {}) as Record<string, Step>);
+  if (stepEntries.length === 0) {
+    throw new Error(`Process ${processId} has no steps`);
+  }
+
+  const steps = new Map<string, StepModel>();
+  for (const [id, step] of stepEntries) {
+    const actorId = step.RACI?.responsible?.[0];
+    steps.set(id, { id, step, resource: actorId ? resourceFor(actorId) : undefined, incoming: 0, outgoing: [] });
+  }
+  for (const link of (process.links ?? []) as Link[]) {
+    const from = steps.get(link.from);
+    const to = steps.get(link.to);
+    if (!from || !to) continue;
+    from.outgoing.push(link);
+    to.incoming++;
+  }
+
+  const entry =
+    stepEntries.find(([, step]) => step.kind === 'start')?.[0] ??
+    stepEntries.find(([id]) => steps.get(id)!.incoming === 0)?.[0] ??
+    stepEntries[0][0];
+
+  const reach = new Map<string, Set<string>>();
+  for (const id of steps.keys()) {
+    const seen = new Set<string>();
+    const queue = steps.get(id)!.outgoing.map((link) => link.to);
+    while (queue.length > 0) {
+      const current = queue.shift()!;
+      if (seen.has(current)) continue;
+      seen.add(current);
+      queue.push(...steps.get(current)!.outgoing.map((link) => link.to));
+    }
+    reach.set(id, seen);
+  }
+
+  const used = [...new Set([...resources.values()])].sort((a, b) => a.id.localeCompare(b.id));
+  return { processId, steps, entry, reach, resources: used };
+}
+
+// =============================================================================
+// Expressions and Sampling
+// =============================================================================
+
+type Evaluate = (source: string, scope: ExpressionScope, context: string) => ExpressionValue;
+
+/**
+ * Create an expression evaluator that parses each expression once and
+ * prefixes errors with their context.
+ */
+function createEvaluator(random: RandomSource): Evaluate {
+  const compiled = new Map<string, ExpressionNode>();
+  return (source, scope, context) => {
+    try {
+      let ast = compiled.get(source);
+      if (!ast) {
+        const result = parseExpression(source);
+        if (!result.ok || !result.ast) {
+          const [error] = result.errors;
+          throw new Error(`${error.message} at line ${error.line}, column ${error.column}`);
+        }
+        ast = result.ast;
+        compiled.set(source, ast);
+      }
+      return evaluateExpression(ast, scope, { random });
+    } catch (err) {
+      throw new Error(`${context}: ${err instanceof Error ? err.message : String(err)}`);
+    }
+  };
+}
+
+/**
+ * Convert a duration value to working hours.
+ */
+function durationHours(duration: Duration, scope: ExpressionScope, evaluate: Evaluate, context: string): number {
+  if (typeof duration === 'string' || 'fixed' in duration) {
+    const literal = typeof duration === 'string' ? duration : duration.fixed;
+    const hours = parseDuration(literal);
+    if (hours === undefined) {
+      throw new Error(`${context}: invalid duration "${literal}"`);
+    }
+    return hours;
+  }
+  const value = evaluate(duration.expr, scope, context);
+  if (typeof value !== 'number' || !Number.isFinite(value)) {
+    throw new Error(`${context}: expression must evaluate to a number of hours`);
+  }
+  return Math.max(value, 0);
+}
+
+/**
+ * Sample a work attribute that is not computed.
+ *
+ * Boolean attributes use `value` as the probability of being true.
+ */
+function sampleAttribute(name: string, attribute: WorkAttribute, random: RandomSource): ExpressionValue {
+  const param = (key: 'value' | 'min' | 'max' | 'mean' | 'stdDev' | 'rate' | 'mode'): number => {
+    const value = attribute[key];
+    if (value === undefined) {
+      throw new Error(`Work attribute "${name}": distribution "${attribute.distribution}" requires ${key}`);
+    }
+    return value;
+  };
+
+  switch (attribute.type) {
+    case 'categorical':
+      return pickWeighted(random, attribute.values ?? [], (value) => value.probability)?.name ?? null;
+    case 'boolean':
+      return random() < (attribute.value ?? 0);
+    case 'numeric':
+      switch (attribute.distribution) {
+        case 'uniform':
+          return param('min') + random() * (param('max') - param('min'));
+        case 'normal':
+          return sampleNormal(random, param('mean'), param('stdDev'));
+        case 'exponential':
+          return sampleExponential(random, param('rate'));
+        case 'lognormal':
+          return sampleLognormal(random, param('mean'), param('stdDev'));
+        case 'triangular':
+          return sampleTriangular(random, param('min'), param('mode'), param('max'));
+        default:
+          return attribute.value ?? attribute.mean ?? null;
+      }
+  }
+}
+
+/**
+ * Sample the attributes of a new work item: sampled attributes first, then
+ * computed attributes in declaration order.
+ */
+function sampleWorkItem(scenario: Scenario, random: RandomSource, evaluate: Evaluate): ExpressionScope {
+  const mix = pickWeighted(random, scenario.workMix ?? [], (item) => item.probability);
+  const attributes = {
+    ...(scenario.workAttributes as Record<string, WorkAttribute> | undefined),
+    ...(mix?.attributes as Record<string, WorkAttribute> | undefined),
+  };
+
+  const scope: ExpressionScope = {};
+  for (const [name, attribute] of Object.entries(attributes)) {
+    if (attribute.expr === undefined) scope[name] = sampleAttribute(name, attribute, random);
+  }
+  for (const [name, attribute] of Object.entries(attributes)) {
+    if (attribute.expr !== undefined) scope[name] = evaluate(attribute.expr, scope, `Work attribute "${name}"`);
+  }
+  return scope;
+}
+
+// =============================================================================
+// Event Queue
+// =============================================================================
+
+interface ScheduledEvent {
+  time: number;
+  sequence: number;
+  run: () => void;
+}
+
+function isBefore(a: ScheduledEvent, b: ScheduledEvent): boolean {
+  return a.time < b.time || (a.time === b.time && a.sequence < b.sequence);
+}
+
+/**
+ * Push onto a binary min-heap ordered by time, then insertion order.
+ */
+function pushEvent(heap: ScheduledEvent[], event: ScheduledEvent): void {
+  heap.push(event);
+  let index = heap.length - 1;
+  while (index > 0) {
+    const parent = (index - 1) >> 1;
+    if (!isBefore(heap[index], heap[parent])) break;
+    [heap[index], heap[parent]] = [heap[parent], heap[index]];
+    index = parent;
+  }
+}
+
+function popEvent(heap: ScheduledEvent[]): ScheduledEvent | undefined {
+  const top = heap[0];
+  const last = heap.pop();
+  if (heap.length > 0 && last) {
+    heap[0] = last;
+    let index = 0;
+    for (;;) {
+      const left = index * 2 + 1;
+      const right = left + 1;
+      let smallest = index;
+      if (left < heap.length && isBefore(heap[left], heap[smallest])) smallest = left;
+      if (right < heap.length && isBefore(heap[right], heap[smallest])) smallest = right;
+      if (smallest === index) break;
+      [heap[index], heap[smallest]] = [heap[smallest], heap[index]];
+      index = smallest;
+    }
+  }
+  return top;
+}
+
+// =============================================================================
+// Replication
+// =============================================================================
+
+/**
+ * A time-weighted level (WIP, queue length, busy servers).
+ */
+interface Level {
+  value: number;
+  since: number;
+  area: number;
+  max: number;
+}
+
+interface WorkItem {
+  arrival: number;
+  scope: ExpressionScope;
+  tokens: Token[];
+  executions: number;
+}
+
+interface Token {
+  item: WorkItem;
+  step: string;
+  /** Waiting at a join for other branches */
+  waiting: boolean;
+}
+
+interface Job {
+  model: StepModel;
+  tokens: Token[];
+  iterations: number;
+  queuedAt: number;
+}
+
+interface ResourceState {
+  busy: number;
+  queue: Job[];
+  queueLevel: Level;
+  busyLevel: Level;
+  waitTotal: number;
+  waitCount: number;
+}
+
+interface ReplicationResult {
+  arrivals: number;
+  completed: number;
+  cycleTimes: number[];
+  wip: Level;
+  resources: ResourceState[];
+}
+
+interface RunSettings {
+  runLength: number;
+  warmupPeriod: number;
+}
+
+/**
+ * Run one replication of the simulation.
+ */
+function runReplication(model: ProcessModel, scenario: Scenario, settings: RunSettings, seed: number): ReplicationResult {
+  const random = createRandom(seed);
+  const evaluate = createEvaluator(random);
+  const { runLength: end, warmupPeriod: warmup } = settings;
+  const heap: ScheduledEvent[] = [];
+  let sequence = 0;
+  let now = 0;
+
+  const schedule = (time: number, run: () => void) => pushEvent(heap, { time, sequence: sequence++, run });
+
+  const newLevel = (): Level => ({ value: 0, since: 0, area: 0, max: 0 });
+  const accumulate = (level: Level, time: number) => {
+    const from = Math.max(level.since, warmup);
+    const to = Math.min(time, end);
+    if (to > from) level.area += level.value * (to - from);
+    level.since = time;
+  };
+  const change = (level: Level, delta: number) => {
+    accumulate(level, now);
+    level.value += delta;
+    if (now >= warmup) level.max = Math.max(level.max, level.value);
+  };
+
+  const result: ReplicationResult = { arrivals: 0, completed: 0, cycleTimes: [], wip: newLevel(), resources: [] };
+  const resourceStates = new Map<ResourceModel, ResourceState>();
+  for (const resource of model.resources) {
+    const state: ResourceState = { busy: 0, queue: [], queueLevel: newLevel(), busyLevel: newLevel(), waitTotal: 0, waitCount: 0 };
+    resourceStates.set(resource, state);
+    result.resources.push(state);
+  }
+  const levels = [result.wip, ...result.resources.flatMap((state) => [state.queueLevel, state.busyLevel])];
+  const batches = new Map<string, Token[]>();
+
+  // --- Work item flow ---
+
+  const finish = (item: WorkItem) => {
+    change(result.wip, -1);
+    if (now >= warmup) result.completed++;
+    if (item.arrival >= warmup) result.cycleTimes.push(now - item.arrival);
+  };
+
+  const route = (stepModel: StepModel, token: Token) => {
+    const item = token.item;
+    const links = chooseLinks(stepModel, item.scope);
+    if (links.length === 0) {
+      item.tokens.splice(item.tokens.indexOf(token), 1);
+      if (item.tokens.length === 0) {
+        finish(item);
+        return;
+      }
+    } else {
+      const branches = links.map((link, index) => {
+        const branch = index === 0 ? token : { item, step: link.to, waiting: false };
+        branch.step = link.to;
+        if (index > 0) item.tokens.push(branch);
+        return branch;
+      });
+      for (const branch of branches) enter(branch);
+    }
+    releaseJoins(item);
+  };
+
+  const chooseLinks = (stepModel: StepModel, scope: ExpressionScope): Link[] => {
+    const matched = stepModel.outgoing.filter((link) =>
+      link.condition === undefined
+        ? !link.isDefault
+        : Boolean(evaluate(link.condition, scope, `Link ${stepModel.id} -> ${link.to} condition`))
+    );
+    const candidates = matched.length > 0 ? matched : stepModel.outgoing.filter((link) => link.isDefault).slice(0, 1);
+
+    const assigned = candidates.reduce((sum, link) => sum + (link.probability ?? 0), 0);
+    const unassigned = candidates.filter((link) => link.probability === undefined).length;
+    if (unassigned < candidates.length) {
+      const remainder = unassigned > 0 ? Math.max(1 - assigned, 0) / unassigned : 0;
+      const chosen = pickWeighted(random, candidates, (link) => link.probability ?? remainder);
+      return chosen ? [chosen] : [];
+    }
+    return stepModel.step.kind === 'decision' ? candidates.slice(0, 1) : candidates;
+  };
+
+  const enter = (token: Token) => {
+    const stepModel = model.steps.get(token.step)!;
+    if (stepModel.incoming > 1) {
+      token.waiting = true;
+      return;
+    }
+    arrive(stepModel, token);
+  };
+
+  /** Fire joins that no other active branch of the work item can still reach. */
+  const releaseJoins = (item: WorkItem) => {
+    const waitingSteps = [...new Set(item.tokens.filter((token) => token.waiting).map((token) => token.step))];
+    let released = false;
+    for (const stepId of waitingSteps) {
+      const blocked = item.tokens.some(
+        (token) => !(token.waiting && token.step === stepId) && model.reach.get(token.step)!.has(stepId)
+      );
+      if (!blocked) {
+        join(item, stepId);
+        released = true;
+      }
+    }
+    // Branches waiting for each other at joins inside a loop: release the first
+    if (!released && waitingSteps.length > 0 && item.tokens.every((token) => token.waiting)) {
+      join(item, waitingSteps[0]);
+    }
+  };
+
+  const join = (item: WorkItem, stepId: string) => {
+    const [first, ...rest] = item.tokens.filter((token) => token.waiting && token.step === stepId);
+    item.tokens = item.tokens.filter((token) => !rest.includes(token));
+    first.waiting = false;
+    arrive(model.steps.get(stepId)!, first);
+  };
+
+  const arrive = (stepModel: StepModel, token: Token) => {
+    const { step } = stepModel;
+    const item = token.item;
+    if (++item.executions > MAX_STEP_EXECUTIONS) {
+      throw new Error(`A work item executed more than ${MAX_STEP_EXECUTIONS} steps; check loops in ${model.processId} for an exit`);
+    }
+    if (step.guard !== undefined && !evaluate(step.guard, item.scope, `Step ${stepModel.id} guard`)) {
+      schedule(now, () => route(stepModel, token));
+      return;
+    }
+    const size = step.batch?.size ?? 1;
+    if (size > 1) {
+      const batch = batches.get(stepModel.id) ?? [];
+      batch.push(token);
+      batches.set(stepModel.id, batch);
+      if (batch.length < size) return;
+      batches.delete(stepModel.id);
+      startJob(stepModel, batch);
+    } else {
+      startJob(stepModel, [token]);
+    }
+  };
+
+  const startJob = (stepModel: StepModel, tokens: Token[]) => {
+    const job: Job = { model: stepModel, tokens, iterations: 0, queuedAt: now };
+    const loop = stepModel.step.loop;
+    if (loop?.kind === 'forEach' && loop.over !== undefined) {
+      const count = tokens[0].item.scope[loop.over];
+      if (typeof count === 'number' && count < 1) {
+        schedule(now, () => tokens.forEach((token) => route(stepModel, token)));
+        return;
+      }
+    }
+    request(job);
+  };
+
+  /** Decide whether a job runs another iteration of its loop. */
+  const repeats = (job: Job): boolean => {
+    const loop = job.model.step.loop;
+    if (!loop || loop.kind === 'none' || loop.kind === undefined) return false;
+    const max = loop.max ?? MAX_STEP_EXECUTIONS;
+    if (job.iterations >= max) return false;
+    if (loop.kind === 'forEach') {
+      const count = loop.over === undefined ? 1 : job.tokens[0].item.scope[loop.over];
+      return typeof count === 'number' && job.iterations < Math.round(count);
+    }
+    if (loop.kind === 'repeat' && loop.probability === undefined) {
+      return loop.max !== undefined;
+    }
+    return random() < (loop.probability ?? 0);
+  };
+
+  const request = (job: Job) => {
+    const resource = job.model.resource;
+    const state = resource && resourceStates.get(resource);
+    if (!resource || !state || state.busy < resource.capacity) {
+      start(job);
+      return;
+    }
+    state.queue.push(job);
+    change(state.queueLevel, 1);
+  };
+
+  const start = (job: Job) => {
+    const { id, step, resource } = job.model;
+    const state = resource && resourceStates.get(resource);
+    const scope = job.tokens[0].item.scope;
+    const duration = step.duration === undefined ? undefined : durationHours(step.duration, scope, evaluate, `Step ${id} duration`);
+    const effort = step.effort === undefined ? undefined : durationHours(step.effort, scope, evaluate, `Step ${id} effort`);
+    const elapsed = Math.max(duration ?? 0, effort ?? 0);
+
+    if (state) {
+      state.busy++;
+      change(state.busyLevel, 1);
+      if (now >= warmup) {
+        state.waitTotal += now - job.queuedAt;
+        state.waitCount++;
+      }
+      schedule(now + (effort ?? elapsed), () => release(state));
+    }
+    schedule(now + elapsed, () => complete(job));
+  };
+
+  const release = (state: ResourceState) => {
+    state.busy--;
+    change(state.busyLevel, -1);
+    const next = state.queue.shift();
+    if (next) {
+      change(state.queueLevel, -1);
+      start(next);
+    }
+  };
+
+  const complete = (job: Job) => {
+    job.iterations++;
+    if (repeats(job)) {
+      job.queuedAt = now;
+      request(job);
+      return;
+    }
+    for (const token of job.tokens) route(job.model, token);
+  };
+
+  // --- Arrivals ---
+
+  const arrivalStream = scenario.arrivals ? createArrivalStream(scenario.arrivals, random) : undefined;
+  const scheduleArrival = () => {
+    const arrival = arrivalStream?.();
+    if (!arrival || arrival.time >= end) return;
+    schedule(arrival.time, () => {
+      for (let i = 0; i < arrival.count; i++) {
+        const item: WorkItem = { arrival: now, scope: sampleWorkItem(scenario, random, evaluate), tokens: [], executions: 0 };
+        const token: Token = { item, step: model.entry, waiting: false };
+        item.tokens.push(token);
+        change(result.wip, 1);
+        if (now >= warmup) result.arrivals++;
+        arrive(model.steps.get(model.entry)!, token);
+      }
+      scheduleArrival();
+    });
+  };
+  scheduleArrival();
+
+  // Levels at the end of the warmup period are the starting maxima
+  schedule(warmup, () => levels.forEach((level) => (level.max = level.value)));
+
+  for (let event = popEvent(heap); event && event.time < end; event = popEvent(heap)) {
+    now = event.time;
+    event.run();
+  }
+  now = end;
+  levels.forEach((level) => accumulate(level, end));
+  return result;
+}
+
+// =============================================================================
+// Results
+// =============================================================================
+
+function mean(values: number[]): number {
+  return values.length === 0 ? 0 : values.reduce((sum, value) => sum + value, 0) / values.length;
+}
+
+/**
+ * Nearest-rank percentile of sorted values.
+ */
+function percentile(sorted: number[], p: number): number {
+  return sorted[Math.max(Math.ceil(p * sorted.length) - 1, 0)];
+}
+
+function round(value: number): number {
+  return Math.round(value * 10000) / 10000;
+}
+
+function summarize(
+  model: ProcessModel,
+  replications: ReplicationResult[],
+  settings: RunSettings
+): Omit<SimulationResult, 'scenario' | 'processId' | 'replications' | 'seed' | 'runLength' | 'warmupPeriod'> {
+  const window = settings.runLength - settings.warmupPeriod;
+  const cycleTimes = replications.flatMap((replication) => replication.cycleTimes).sort((a, b) => a - b);
+  const completed = mean(replications.map((replication) => replication.completed));
+
+  return {
+    arrivals: round(mean(replications.map((replication) => replication.arrivals))),
+    completed: round(completed),
+    cycleTime:
+      cycleTimes.length === 0
+        ? null
+        : {
+            mean: round(mean(cycleTimes)),
+            p50: round(percentile(cycleTimes, 0.5)),
+            p90: round(percentile(cycleTimes, 0.9)),
+            p95: round(percentile(cycleTimes, 0.95)),
+            max: round(cycleTimes[cycleTimes.length - 1]),
+          },
+    throughput: {
+      perHour: round(completed / window),
+      perDay: round((completed / window) * DURATION_UNIT_HOURS.d),
+    },
+    wip: {
+      mean: round(mean(replications.map((replication) => replication.wip.area / window))),
+      max: Math.max(...replications.map((replication) => replication.wip.max)),
+    },
+    resources: model.resources.map((resource, index) => {
+      const states = replications.map((replication) => replication.resources[index]);
+      const busyHours = mean(states.map((state) => state.busyLevel.area));
+      const waitCount = states.reduce((sum, state) => sum + state.waitCount, 0);
+      const bounded = Number.isFinite(resource.capacity);
+      return {
+        id: resource.id,
+        name: resource.name,
+        kind: resource.kind,
+        capacity: bounded ? resource.capacity : null,
+        utilization: bounded ? round(busyHours / (resource.capacity * window)) : null,
+        busyHours: round(busyHours),
+        queue: {
+          mean: round(mean(states.map((state) => state.queueLevel.area / window))),
+          max: Math.max(...states.map((state) => state.queueLevel.max)),
+        },
+        meanWait: waitCount === 0 ? 0 : round(states.reduce((sum, state) => sum + state.waitTotal, 0) / waitCount),
+      };
+    }),
+  };
+}
+
+// =============================================================================
+// Public API
+// =============================================================================
+
+/**
+ * Simulate a scenario against a process.
+ *
+ * @param documents - Workspace documents (scenarios, processes and actors)
+ * @param scenarioId - Scenario to run (e.g., 'SC00001')
+ * @param options - Overrides for the scenario's simulation settings
+ * @throws Error if the scenario or process cannot be found or the model
+ *   contains invalid durations, distributions or expressions
+ *
+ * @example
+ * ```typescript
+ * import { simulate } from 'ubml';
+ *
+ * const result = simulate(documents, 'SC00001', { replications: 20, seed: 7 });
+ * console.log(result.cycleTime?.p90, result.throughput.perDay);
+ * ```
+ */
+export function simulate(documents: UBMLDocument[], scenarioId: string, options: SimulationOptions = {}): SimulationResult {
+  const scenarios = Object.assign(
+    {},
+    ...contentsOf<ScenariosDocument>(documents, 'scenarios').map((document) => document.scenarios ?? {})
+  ) as Record<string, Scenario>;
+  const scenario = resolveScenario(scenarios, scenarioId);
+  const [processId, process] = selectProcess(contentsOf<ProcessDocument>(documents, 'process'), options.processId);
+  const model = buildProcessModel(processId, process, contentsOf<ActorsDocument>(documents, 'actors'));
+
+  const config = scenario.simulationConfig ?? {};
+  const evaluate = createEvaluator(() => 0.5);
+  const configHours = (duration: Duration | undefined, name: string) =>
+    duration === undefined ? undefined : durationHours(duration, {}, evaluate, `Scenario ${scenarioId} ${name}`);
+  const settings: RunSettings = {
+    runLength: options.runLength ?? configHours(config.runLength, 'runLength') ?? DURATION_UNIT_HOURS.mo,
+    warmupPeriod: options.warmupPeriod ?? configHours(config.warmupPeriod, 'warmupPeriod') ?? 0,
+  };
+  if (settings.warmupPeriod >= settings.runLength) {
+    throw new Error(`Warmup period (${settings.warmupPeriod}h) must be shorter than the run length (${settings.runLength}h)`);
+  }
+  const replicationCount = options.replications ?? config.replications ?? 10;
+  if (!Number.isInteger(replicationCount) || replicationCount < 1) {
+    throw new Error('Replications must be a positive integer');
+  }
+  const seed = options.seed ?? config.randomSeed ?? 1;
+
+  const replications: ReplicationResult[] = [];
+  for (let i = 0; i < replicationCount; i++) {
+    replications.push(runReplication(model, scenario, settings, seed + i));
+  }
+
+  return {
+    scenario: { id: scenarioId, name: scenario.name },
+    processId,
+    replications: replicationCount,
+    seed,
+    runLength: settings.runLength,
+    warmupPeriod: settings.warmupPeriod,
+    ...summarize(model, replications, settings),
+  };
+}
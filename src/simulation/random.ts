@@ -0,0 +1,87 @@
+/**
+ * Seedable Random Numbers (Browser-Safe)
+ *
+ * A small deterministic pseudo-random generator (mulberry32) and the
+ * distributions used by scenario simulation. The same seed always
+ * produces the same sequence on every platform.
+ *
+ * @module ubml/simulation/random
+ */
+
+/**
+ * Random source returning numbers in [0, 1).
+ */
+export type RandomSource = () => number;
+
+/**
+ * Create a deterministic random source from an integer seed.
+ *
+ * @example
+ * ```typescript
+ * const random = createRandom(42);
+ * random(); // same value on every run
+ * ```
+ */
+export function createRandom(seed: number): RandomSource {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Sample an exponential distribution with the given rate (mean 1 / rate).
+ */
+export function sampleExponential(random: RandomSource, rate: number): number {
+  return -Math.log(1 - random()) / rate;
+}
+
+/**
+ * Sample a normal distribution (Box-Muller).
+ */
+export function sampleNormal(random: RandomSource, mean: number, stdDev: number): number {
+  const u = 1 - random();
+  const v = random();
+  return mean + stdDev * Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * v);
+}
+
+/**
+ * Sample a log-normal distribution given the mean and standard deviation
+ * of the resulting values (not of the underlying normal).
+ */
+export function sampleLognormal(random: RandomSource, mean: number, stdDev: number): number {
+  const sigma2 = Math.log(1 + (stdDev * stdDev) / (mean * mean));
+  const mu = Math.log(mean) - sigma2 / 2;
+  return Math.exp(sampleNormal(random, mu, Math.sqrt(sigma2)));
+}
+
+/**
+ * Sample a triangular distribution.
+ */
+export function sampleTriangular(random: RandomSource, min: number, mode: number, max: number): number {
+  if (max === min) return min;
+  const u = random();
+  const split = (mode - min) / (max - min);
+  return u < split
+    ? min + Math.sqrt(u * (max - min) * (mode - min))
+    : max - Math.sqrt((1 - u) * (max - min) * (max - mode));
+}
+
+/**
+ * Pick an item with probability proportional to its weight.
+ * Returns undefined when all weights are zero.
+ */
+export function pickWeighted<T>(random: RandomSource, items: T[], weight: (item: T) => number): T | undefined {
+  const total = items.reduce((sum, item) => sum + weight(item), 0);
+  if (total <= 0) return undefined;
+  let threshold = random() * total;
+  for (const item of items) {
+    threshold -= weight(item);
+    if (threshold < 0) return item;
+  }
+  return [...items].reverse().find((item) => weight(item) > 0);
+}
@@ -0,0 +1,106 @@
+/**
+ * Duration Utilities (Browser-Safe)
+ *
+ * Converts UBML duration literals ("30min", "2h", "1.5d", "1wk", "3mo") to
+ * working hours. Days are 8 working hours, weeks 5 working days and months
+ * 4 working weeks, matching the units documented in `ubml help durations`.
+ * Measured times convert to working hours on a Monday-to-Friday,
+ * 09:00-17:00 calendar.
+ *
+ * @module ubml/utils/duration
+ */
+
+/**
+ * Duration units supported by UBML.
+ */
+export type DurationUnit = 'min' | 'h' | 'd' | 'wk' | 'mo';
+
+/**
+ * Working hours per duration unit.
+ */
+export const DURATION_UNIT_HOURS: Record<DurationUnit, number> = {
+  min: 1 / 60,
+  h: 1,
+  d: 8,
+  wk: 40,
+  mo: 160,
+};
+
+/**
+ * Parse a duration literal into working hours.
+ *
+ * @returns Hours, or undefined if the string is not a valid duration literal
+ *
+ * @example
+ * ```typescript
+ * parseDuration('1.5d'); // 12
+ * parseDuration('30min'); // 0.5
+ * ```
+ */
+export function parseDuration(duration: string): number | undefined {
+  const match = duration.trim().match(/^([0-9]+(?:\.[0-9]+)?)(min|h|d|wk|mo)$/);
+  if (!match) return undefined;
+  return Number(match[1]) * DURATION_UNIT_HOURS[match[2] as DurationUnit];
+}
+
+/**
+ * Format hours as a duration literal in minutes or hours.
+ *
+ * @example
+ * ```typescript
+ * formatHours(0.25); // "15min"
+ * formatHours(4.56); // "4.6h"
+ * ```
+ */
+export function formatHours(hours: number): string {
+  return hours < 1 ? `${Math.round(hours * 60)}min` : `${Math.round(hours * 10) / 10}h`;
+}
+
+// =============================================================================
+// Working Calendar
+// =============================================================================
+
+const MS_PER_HOUR = 3_600_000;
+const MS_PER_DAY = 24 * MS_PER_HOUR;
+
+/** Working day from 09:00 to 17:00, Monday to Friday, as in schedules */
+const WORKDAY_START_HOUR = 9;
+const WORKDAY_END_HOUR = WORKDAY_START_HOUR + DURATION_UNIT_HOURS.d;
+
+function isWeekend(day: number): boolean {
+  const weekday = new Date(day * MS_PER_DAY).getUTCDay();
+  return weekday === 0 || weekday === 6;
+}
+
+/**
+ * Working hours between two times, counting 09:00-17:00 on weekdays.
+ * Times are milliseconds since the epoch, read as wall-clock times in UTC
+ * (as event log timestamps without a zone are).
+ *
+ * @example
+ * ```typescript
+ * // Friday 16:00 to Monday 10:00
+ * workingHoursBetween(Date.UTC(2024, 0, 5, 16), Date.UTC(2024, 0, 8, 10)); // 2
+ * ```
+ */
+export function workingHoursBetween(start: number, end: number): number {
+  if (!(end > start)) return 0;
+  const firstDay = Math.floor(start / MS_PER_DAY);
+  const lastDay = Math.floor(end / MS_PER_DAY);
+  let hours = 0;
+  for (let day = firstDay; day <= lastDay; ) {
+    // Whole weeks strictly between the first and last day
+    if (day > firstDay && day + 7 < lastDay) {
+      hours += DURATION_UNIT_HOURS.wk;
+      day += 7;
+      continue;
+    }
+    if (!isWeekend(day)) {
+      const open = day * MS_PER_DAY + WORKDAY_START_HOUR * MS_PER_HOUR;
+      const close = day * MS_PER_DAY + WORKDAY_END_HOUR * MS_PER_HOUR;
+      hours += Math.max(0, Math.min(end, close) - Math.max(start, open)) / MS_PER_HOUR;
+    }
+    day++;
+  }
+  return hours;
+}
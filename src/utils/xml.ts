@@ -0,0 +1,256 @@
+/**
+ * XML Utilities (Browser-Safe)
+ *
+ * Minimal XML building and reading helpers used by the exporters and importers.
+ * No DOM dependency, so they work in any JavaScript runtime.
+ *
+ * @module ubml/utils/xml
+ */
+
+/**
+ * Attribute values accepted by the XML builder.
+ * Undefined values are omitted from the output.
+ */
+export type XmlAttributeValue = string | number | boolean | undefined;
+
+/**
+ * An XML element in the builder tree.
+ */
+export interface XmlElement {
+  /** Qualified element name (e.g., "bpmn:task") */
+  name: string;
+  /** Attributes in output order */
+  attributes?: Record<string, XmlAttributeValue>;
+  /** Child elements or text content */
+  children?: Array<XmlElement | string>;
+}
+
+/**
+ * Escape a string for use in XML text or attribute values.
+ */
+export function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+/**
+ * Create an XML element.
+ *
+ * @example
+ * ```typescript
+ * const task = xmlElement('bpmn:task', { id: 'ST00001', name: 'Review' });
+ * ```
+ */
+export function xmlElement(
+  name: string,
+  attributes?: Record<string, XmlAttributeValue>,
+  children?: Array<XmlElement | string | undefined>
+): XmlElement {
+  return {
+    name,
+    attributes,
+    children: children?.filter((child): child is XmlElement | string => child !== undefined),
+  };
+}
+
+/**
+ * Render attributes as a string with a leading space.
+ */
+function renderAttributes(attributes: Record<string, XmlAttributeValue> | undefined): string {
+  if (!attributes) return '';
+  let result = '';
+  for (const [key, value] of Object.entries(attributes)) {
+    if (value === undefined) continue;
+    result += ` ${key}="${escapeXml(String(value))}"`;
+  }
+  return result;
+}
+
+/**
+ * Render an element and its children at the given depth.
+ */
+function renderElement(node: XmlElement, depth: number, indent: string, lines: string[]): void {
+  const pad = indent.repeat(depth);
+  const open = `<${node.name}${renderAttributes(node.attributes)}`;
+  const children = node.children ?? [];
+
+  if (children.length === 0) {
+    lines.push(`${pad}${open} />`);
+    return;
+  }
+
+  // Text-only content stays on a single line
+  if (children.every((child) => typeof child === 'string')) {
+    const text = (children as string[]).map(escapeXml).join('');
+    lines.push(`${pad}${open}>${text}</${node.name}>`);
+    return;
+  }
+
+  lines.push(`${pad}${open}>`);
+  for (const child of children) {
+    if (typeof child === 'string') {
+      lines.push(`${indent.repeat(depth + 1)}${escapeXml(child)}`);
+    } else {
+      renderElement(child, depth + 1, indent, lines);
+    }
+  }
+  lines.push(`${pad}</${node.name}>`);
+}
+
+/**
+ * Render an XML element tree as a document string (with XML declaration).
+ *
+ * @param root - Root element
+ * @param options - Rendering options
+ */
+export function renderXml(root: XmlElement, options: { indent?: string } = {}): string {
+  const lines: string[] = ['<?xml version="1.0" encoding="UTF-8"?>'];
+  renderElement(root, 0, options.indent ?? '  ', lines);
+  return lines.join('\n') + '\n';
+}
+
+// =============================================================================
+// Reading
+// =============================================================================
+
+const XML_ENTITIES: Record<string, string> = {
+  lt: '<',
+  gt: '>',
+  amp: '&',
+  quot: '"',
+  apos: "'",
+};
+
+/**
+ * Decode XML entity and character references.
+ */
+export function unescapeXml(value: string): string {
+  return value.replace(/&(#x[0-9a-fA-F]+|#[0-9]+|[a-zA-Z]+);/g, (match, entity: string) => {
+    if (entity.startsWith('#x')) return String.fromCodePoint(parseInt(entity.slice(2), 16));
+    if (entity.startsWith('#')) return String.fromCodePoint(parseInt(entity.slice(1), 10));
+    return XML_ENTITIES[entity] ?? match;
+  });
+}
+
+/**
+ * Get the local part of a qualified name (e.g., "bpmn:task" → "task").
+ */
+export function localName(name: string): string {
+  const index = name.indexOf(':');
+  return index === -1 ? name : name.slice(index + 1);
+}
+
+/**
+ * Get the child elements of an element, optionally filtered by local name.
+ */
+export function childElements(element: XmlElement, name?: string): XmlElement[] {
+  return (element.children ?? []).filter((child): child is XmlElement =>
+    typeof child !== 'string' && (name === undefined || localName(child.name) === name)
+  );
+}
+
+/**
+ * Get the concatenated text content of an element and its descendants.
+ */
+export function textContent(element: XmlElement): string {
+  return (element.children ?? [])
+    .map((child) => (typeof child === 'string' ? child : textContent(child)))
+    .join('');
+}
+
+/**
+ * Parse an XML document into an element tree.
+ *
+ * Supports elements, attributes, text, CDATA sections and character references.
+ * Comments, processing instructions and DOCTYPE declarations are skipped.
+ * Whitespace-only text between elements is dropped.
+ *
+ * @param source - XML source text
+ * @returns The root element
+ * @throws Error with line and column when the document is not well-formed
+ */
+export function parseXml(source: string): XmlElement {
+  let pos = 0;
+  const stack: XmlElement[] = [];
+  let root: XmlElement | undefined;
+
+  const fail = (message: string): never => {
+    const before = source.slice(0, pos).split('\n');
+    throw new Error(`${message} at line ${before.length}, column ${before[before.length - 1].length + 1}`);
+  };
+
+  const append = (child: XmlElement | string) => {
+    const parent = stack[stack.length - 1];
+    if (!parent) {
+      if (typeof child === 'string') {
+        if (child.trim() !== '') fail('Text outside of root element');
+        return;
+      }
+      if (root) fail('Multiple root elements');
+      root = child;
+      return;
+    }
+    if (typeof child === 'string' && child.trim() === '') return;
+    (parent.children ??= []).push(child);
+  };
+
+  const skipPast = (terminator: string, what: string) => {
+    const end = source.indexOf(terminator, pos);
+    if (end === -1) fail(`Unterminated ${what}`);
+    pos = end + terminator.length;
+  };
+
+  while (pos < source.length) {
+    const next = source.indexOf('<', pos);
+    if (next === -1) {
+      append(unescapeXml(source.slice(pos)));
+      break;
+    }
+    if (next > pos) {
+      append(unescapeXml(source.slice(pos, next)));
+      pos = next;
+    }
+
+    if (source.startsWith('<!--', pos)) {
+      skipPast('-->', 'comment');
+    } else if (source.startsWith('<![CDATA[', pos)) {
+      const end = source.indexOf(']]>', pos);
+      if (end === -1) fail('Unterminated CDATA section');
+      const text = source.slice(pos + 9, end);
+      pos = end + 3;
+      if (!stack.length) fail('CDATA outside of root element');
+      (stack[stack.length - 1].children ??= []).push(text);
+    } else if (source.startsWith('<?', pos)) {
+      skipPast('?>', 'processing instruction');
+    } else if (source.startsWith('<!', pos)) {
+      skipPast('>', 'declaration');
+    } else if (source.startsWith('</', pos)) {
+      const match = /^<\/([^\s>]+)\s*>/.exec(source.slice(pos));
+      if (!match) fail('Malformed closing tag');
+      const open = stack.pop();
+      if (!open || open.name !== match![1]) fail(`Unexpected closing tag </${match![1]}>`);
+      pos += match![0].length;
+    } else {
+      const match = /^<([^\s/>]+)((?:\s+[^\s=/>]+\s*=\s*(?:"[^"]*"|'[^']*'))*)\s*(\/?)>/.exec(source.slice(pos));
+      if (!match) fail('Malformed start tag');
+      const attributes: Record<string, XmlAttributeValue> = {};
+      const attributePattern = /([^\s=/>]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g;
+      let attribute: RegExpExecArray | null;
+      while ((attribute = attributePattern.exec(match![2])) !== null) {
+        attributes[attribute[1]] = unescapeXml(attribute[2] ?? attribute[3]);
+      }
+      const element: XmlElement = { name: match![1], attributes, children: [] };
+      append(element);
+      pos += match![0].length;
+      if (!match![3]) stack.push(element);
+    }
+  }
+
+  if (stack.length > 0) fail(`Unclosed element <${stack[stack.length - 1].name}>`);
+  if (!root) fail('No root element');
+  return root!;
+}
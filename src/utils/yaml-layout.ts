@@ -0,0 +1,64 @@
+/**
+ * YAML Layout Utilities (Browser-Safe)
+ *
+ * Stringify an edited YAML document in the layout of the text it was parsed
+ * from: the same indentation, the same indentation of block sequences and
+ * the same padding inside flow collections, and no wrapping of long
+ * scalars. Write-backs that use it change only the lines they edit.
+ *
+ * @module ubml/utils/yaml-layout
+ */
+
+import { isCollection, isMap, isScalar, isSeq, parseDocument, visit, type Document, type ToStringOptions } from 'yaml';
+
+function columnAt(source: string, offset: number): number {
+  return offset - (source.lastIndexOf('\n', offset - 1) + 1);
+}
+
+/**
+ * Detect the stringify options that reproduce the layout of YAML text.
+ * Layout the text does not show falls back to the yaml defaults.
+ */
+export function detectYamlLayout(source: string): ToStringOptions {
+  const layout: ToStringOptions = { lineWidth: 0, minContentWidth: 0 };
+  const doc = parseDocument(source);
+  let mapStep: number | undefined;
+  let seqStep: number | undefined;
+
+  visit(doc, {
+    Pair(_, pair) {
+      const key = isScalar(pair.key) ? pair.key : undefined;
+      const value = pair.value;
+      if (!key?.range || !isCollection(value) || value.flow || !value.range) return;
+      const step = columnAt(source, value.range[0]) - columnAt(source, key.range[0]);
+      if (isSeq(value)) seqStep ??= step;
+      else if (isMap(value) && step > 0) mapStep ??= step;
+    },
+    Map(_, map) {
+      if (map.flow && map.range && map.items.length > 0 && layout.flowCollectionPadding === undefined) {
+        layout.flowCollectionPadding = source[map.range[0] + 1] === ' ';
+      }
+    },
+    Seq(_, seq) {
+      if (seq.flow && seq.range && seq.items.length > 0 && layout.flowCollectionPadding === undefined) {
+        layout.flowCollectionPadding = source[seq.range[0] + 1] === ' ';
+      }
+    },
+  });
+
+  // Indentation of nested maps, else of indented sequences
+  const indent = mapStep ?? (seqStep ? seqStep : undefined);
+  if (indent !== undefined) layout.indent = indent;
+  if (seqStep !== undefined) layout.indentSeq = seqStep > 0;
+  return layout;
+}
+
+/**
+ * Stringify a YAML document in the layout of the source it was parsed from.
+ *
+ * @param doc - Edited document
+ * @param source - Text the document was parsed from
+ */
+export function stringifyYaml(doc: Document, source: string): string {
+  return doc.toString(detectYamlLayout(source));
+}
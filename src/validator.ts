@@ -497,6 +497,8 @@ export async function validate(
       message: refError.message,
       filepath: refError.filepath,
       path: refError.path,
+      line: refError.line,
+      column: refError.column,
     });
   }
   
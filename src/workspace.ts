@@ -0,0 +1,273 @@
+/**
+ * UBML Workspace Model (Browser-Safe)
+ *
+ * Links the elements of parsed documents into one graph: every ID-keyed
+ * element with its document, source location, enclosing element and nested
+ * elements, and every reference field resolved in both directions. The
+ * most used relations have typed shortcuts (`process.steps`, `step.actor`,
+ * `actor.performedSteps`, `entity.producedBy`).
+ *
+ * The graph has cycles (a step points to its process and back), so
+ * serialize `data` rather than elements.
+ *
+ * @module ubml
+ */
+
+import type { SourceLocation, UBMLDocument } from './parser.js';
+import { getElementTypeFromId, isValidId, REFERENCE_FIELD_TARGETS, type ElementType } from './metadata.js';
+
+// =============================================================================
+// Public Types
+// =============================================================================
+
+/**
+ * A reference field value, resolved to the element it points to.
+ */
+export interface WorkspaceReference {
+  /** Reference field (e.g., 'responsible', 'ref', 'to') */
+  field: string;
+  /** Referenced ID */
+  id: string;
+  /** Element declaring the reference (undefined for document-level fields) */
+  source?: WorkspaceElement;
+  /** Referenced element (undefined when the ID is not defined) */
+  target?: WorkspaceElement;
+  document: UBMLDocument;
+  /** Path of the reference value in its document */
+  path: (string | number)[];
+  location?: SourceLocation;
+}
+
+/**
+ * Properties shared by all elements.
+ */
+export interface ElementBase<T extends ElementType = ElementType> {
+  id: string;
+  type: T;
+  name?: string;
+  /** Element content as parsed */
+  data: Record<string, unknown>;
+  /** Document defining the element */
+  document: UBMLDocument;
+  /** Path of the element in its document (e.g., ['processes', 'PR00001', 'steps', 'ST00001']) */
+  path: string[];
+  location?: SourceLocation;
+  /** Enclosing element (the process of a step) */
+  parent?: WorkspaceElement;
+  /** Elements defined inside this one */
+  children: WorkspaceElement[];
+  /** References declared by this element, excluding nested elements */
+  references: WorkspaceReference[];
+  /** References to this element */
+  referencedBy: WorkspaceReference[];
+}
+
+export interface ProcessElement extends ElementBase<'process'> {
+  /** Top-level steps of the process */
+  steps: StepElement[];
+}
+
+export interface StepElement extends ElementBase<'step'> {
+  /** Process containing the step (also for nested steps) */
+  process?: ProcessElement;
+  /** First responsible actor (RACI) */
+  actor?: ActorElement;
+  /** Entities and documents the step consumes */
+  inputs: WorkspaceElement[];
+  /** Entities and documents the step produces or modifies */
+  outputs: WorkspaceElement[];
+}
+
+export interface ActorElement extends ElementBase<'actor'> {
+  /** Steps the actor is responsible for (RACI) */
+  performedSteps: StepElement[];
+}
+
+export interface EntityElement extends ElementBase<'entity'> {
+  /** Steps with the entity as output */
+  producedBy: StepElement[];
+  /** Steps with the entity as input */
+  consumedBy: StepElement[];
+}
+
+type TypedElementType = 'process' | 'step' | 'actor' | 'entity';
+
+/**
+ * Element of a given type.
+ */
+export type ElementOfType<T extends ElementType> =
+  T extends 'process' ? ProcessElement :
+  T extends 'step' ? StepElement :
+  T extends 'actor' ? ActorElement :
+  T extends 'entity' ? EntityElement :
+  ElementBase<T>;
+
+/**
+ * Any workspace element; narrow with `type`.
+ */
+export type WorkspaceElement =
+  | ProcessElement
+  | StepElement
+  | ActorElement
+  | EntityElement
+  | ElementBase<Exclude<ElementType, TypedElementType>>;
+
+/**
+ * Linked elements of a set of documents.
+ */
+export interface Workspace {
+  /** Workspace name and description, from the workspace document */
+  name?: string;
+  description?: string;
+  documents: UBMLDocument[];
+  /** All elements, in document order */
+  elements: WorkspaceElement[];
+  /** All references, in document order */
+  references: WorkspaceReference[];
+  /** References to IDs that are not defined */
+  unresolved: WorkspaceReference[];
+  /** Get an element by ID. The first definition wins for duplicate IDs. */
+  getElement(id: string): WorkspaceElement | undefined;
+  /** Get the elements of a type, in document order. */
+  getElements<T extends ElementType>(type: T): ElementOfType<T>[];
+}
+
+// =============================================================================
+// Loading
+// =============================================================================
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function pointer(path: (string | number)[]): string {
+  return path.map((segment) => `/${segment}`).join('');
+}
+
+/**
+ * Build the workspace model of parsed documents.
+ *
+ * @param documents - Parsed UBML documents
+ *
+ * @example
+ * ```typescript
+ * import { parse, loadWorkspace } from 'ubml';
+ *
+ * const workspace = loadWorkspace([actors.document!, process.document!]);
+ * const step = workspace.getElement('ST00012');
+ * if (step?.type === 'step') {
+ *   console.log(step.actor?.name, step.process?.name);
+ * }
+ * ```
+ */
+export function loadWorkspace(documents: UBMLDocument[]): Workspace {
+  const elements: WorkspaceElement[] = [];
+  const byId = new Map<string, WorkspaceElement>();
+  const references: WorkspaceReference[] = [];
+
+  const walk = (document: UBMLDocument, value: unknown, path: (string | number)[], owner: WorkspaceElement | undefined): void => {
+    if (Array.isArray(value)) {
+      value.forEach((item, index) => walk(document, item, [...path, index], owner));
+      return;
+    }
+    if (!isRecord(value)) return;
+
+    for (const [key, child] of Object.entries(value)) {
+      const childPath = [...path, key];
+
+      if (isValidId(key) && isRecord(child)) {
+        const element = {
+          id: key,
+          type: getElementTypeFromId(key)!,
+          name: typeof child.name === 'string' ? child.name : undefined,
+          data: child,
+          document,
+          path: childPath.map(String),
+          location: document.getSourceLocation(pointer(childPath)),
+          parent: owner,
+          children: [],
+          references: [],
+          referencedBy: [],
+        } as WorkspaceElement;
+        elements.push(element);
+        if (!byId.has(key)) byId.set(key, element);
+        owner?.children.push(element);
+        walk(document, child, childPath, element);
+        continue;
+      }
+
+      if (REFERENCE_FIELD_TARGETS[key]) {
+        const values: [(string | number)[], unknown][] = typeof child === 'string' ? [[childPath, child]] :
+          Array.isArray(child) ? child.map((item, index) => [[...childPath, index], item]) : [];
+        for (const [referencePath, id] of values) {
+          if (typeof id !== 'string' || !isValidId(id)) continue;
+          const reference: WorkspaceReference = {
+            field: key,
+            id,
+            source: owner,
+            document,
+            path: referencePath,
+            location: document.getSourceLocation(pointer(referencePath)),
+          };
+          references.push(reference);
+          owner?.references.push(reference);
+        }
+      }
+      walk(document, child, childPath, owner);
+    }
+  };
+  for (const document of documents) {
+    walk(document, document.content, [], undefined);
+  }
+
+  for (const reference of references) {
+    reference.target = byId.get(reference.id);
+    reference.target?.referencedBy.push(reference);
+  }
+
+  // Typed shortcuts
+  const targets = (element: WorkspaceElement, matches: (reference: WorkspaceReference) => boolean) =>
+    element.references.filter(matches).flatMap((reference) => (reference.target ? [reference.target] : []));
+  const sources = <T extends WorkspaceElement>(element: WorkspaceElement, type: T['type'], matches: (reference: WorkspaceReference) => boolean) =>
+    [...new Set(element.referencedBy.filter((reference) => reference.source?.type === type && matches(reference)).map((reference) => reference.source as T))];
+  const isResponsible = (reference: WorkspaceReference) => reference.field === 'responsible' && reference.path.includes('RACI');
+  const isIn = (list: string) => (reference: WorkspaceReference) => reference.field === 'ref' && reference.path.includes(list);
+
+  for (const element of elements) {
+    switch (element.type) {
+      case 'process':
+        element.steps = element.children.filter((child): child is StepElement => child.type === 'step');
+        break;
+      case 'step': {
+        let parent = element.parent;
+        while (parent && parent.type !== 'process') parent = parent.parent;
+        element.process = parent;
+        element.actor = targets(element, isResponsible).find((target): target is ActorElement => target.type === 'actor');
+        element.inputs = targets(element, isIn('inputs'));
+        element.outputs = targets(element, isIn('outputs'));
+        break;
+      }
+      case 'actor':
+        element.performedSteps = sources<StepElement>(element, 'step', isResponsible);
+        break;
+      case 'entity':
+        element.producedBy = sources<StepElement>(element, 'step', isIn('outputs'));
+        element.consumedBy = sources<StepElement>(element, 'step', isIn('inputs'));
+        break;
+    }
+  }
+
+  const workspaceContent = documents.find((document) => document.meta.type === 'workspace')?.content;
+  const info = isRecord(workspaceContent) ? workspaceContent : {};
+
+  return {
+    name: typeof info.name === 'string' ? info.name : undefined,
+    description: typeof info.description === 'string' ? info.description : undefined,
+    documents,
+    elements,
+    references,
+    unresolved: references.filter((reference) => !reference.target),
+    getElement: (id) => byId.get(id),
+    getElements: <T extends ElementType>(type: T) => elements.filter((element) => element.type === type) as ElementOfType<T>[],
+  };
+}
@@ -3,6 +3,8 @@
  */
 
 import { describe, it, expect } from 'vitest';
+import { execSync } from 'child_process';
+import { join } from 'path';
 import { createProgram } from '../../src/cli/index.js';
 import type { Command } from 'commander';
 
@@ -24,5 +26,97 @@ describe('CLI', () => {
       const initCmd = program.commands.find((cmd: Command) => cmd.name() === 'init');
       expect(initCmd).toBeDefined();
     });
+
+    it('should have export command with bpmn, mermaid, dot, sequence and archimate', () => {
+      const program = createProgram();
+      const exportCmd = program.commands.find((cmd: Command) => cmd.name() === 'export');
+      expect(exportCmd).toBeDefined();
+      expect(exportCmd?.commands.map((cmd: Command) => cmd.name())).toEqual(['bpmn', 'mermaid', 'dot', 'sequence', 'archimate']);
+    });
+
+    it('should have import bpmn command', () => {
+      const program = createProgram();
+      const importCmd = program.commands.find((cmd: Command) => cmd.name() === 'import');
+      expect(importCmd).toBeDefined();
+      expect(importCmd?.commands.map((cmd: Command) => cmd.name())).toContain('bpmn');
+    });
+
+    it('should have simulate command', () => {
+      const program = createProgram();
+      const simulateCmd = program.commands.find((cmd: Command) => cmd.name() === 'simulate');
+      expect(simulateCmd).toBeDefined();
+    });
+
+    it('should have roi command', () => {
+      const program = createProgram();
+      const roiCmd = program.commands.find((cmd: Command) => cmd.name() === 'roi');
+      expect(roiCmd).toBeDefined();
+    });
+
+    it('should have schedule command', () => {
+      const program = createProgram();
+      const scheduleCmd = program.commands.find((cmd: Command) => cmd.name() === 'schedule');
+      expect(scheduleCmd).toBeDefined();
+    });
+
+    it('should have lsp command', () => {
+      const program = createProgram();
+      const lspCmd = program.commands.find((cmd: Command) => cmd.name() === 'lsp');
+      expect(lspCmd).toBeDefined();
+    });
+
+    it('should have rename and renumber commands', () => {
+      const program = createProgram();
+      const names = program.commands.map((cmd: Command) => cmd.name());
+      expect(names).toContain('rename');
+      expect(names).toContain('renumber');
+    });
+
+    it('should have fmt command', () => {
+      const program = createProgram();
+      const fmtCmd = program.commands.find((cmd: Command) => cmd.name() === 'fmt');
+      expect(fmtCmd).toBeDefined();
+    });
+
+    it('should have diff command', () => {
+      const program = createProgram();
+      const diffCmd = program.commands.find((cmd: Command) => cmd.name() === 'diff');
+      expect(diffCmd).toBeDefined();
+    });
+
+    it('should have migrate command', () => {
+      const program = createProgram();
+      const migrateCmd = program.commands.find((cmd: Command) => cmd.name() === 'migrate');
+      expect(migrateCmd).toBeDefined();
+    });
+
+    it('should have mine command', () => {
+      const program = createProgram();
+      const mineCmd = program.commands.find((cmd: Command) => cmd.name() === 'mine');
+      expect(mineCmd).toBeDefined();
+      expect(mineCmd?.commands.map((cmd: Command) => cmd.name())).toEqual(['load', 'discover', 'conformance', 'evidence']);
+    });
+
+    it('should have cost command', () => {
+      const program = createProgram();
+      const costCmd = program.commands.find((cmd: Command) => cmd.name() === 'cost');
+      expect(costCmd).toBeDefined();
+    });
+
+    it('should have merge-driver command', () => {
+      const program = createProgram();
+      const mergeDriverCmd = program.commands.find((cmd: Command) => cmd.name() === 'merge-driver');
+      expect(mergeDriverCmd).toBeDefined();
+    });
+  });
+
+  describe('show', () => {
+    it('should count collection elements and process steps in the summary', () => {
+      const ubmlBin = join(process.cwd(), 'bin', 'ubml.ts');
+      const stdout = execSync(`npx tsx ${ubmlBin} show summary example`, { encoding: 'utf8' });
+
+      // 4 actors, 1 process with 6 steps, 3 entities and 3 KPIs; skills are not counted
+      expect(stdout).toContain('Total: 5 files, 17 elements');
+    });
   });
 });
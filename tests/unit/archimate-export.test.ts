@@ -0,0 +1,153 @@
+/**
+ * ArchiMate export unit tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import { SCHEMA_VERSION } from '../../src/constants.js';
+import { parse, toArchimate, type UBMLDocument } from '../../src/index.js';
+import { childElements, parseXml, textContent } from '../../src/utils/xml.js';
+
+const v = `ubml: "${SCHEMA_VERSION}"`;
+
+const sources: Record<string, string> = {
+  'workspace.ubml.yaml': `${v}
+name: Retail
+description: Retail operations
+`,
+  'actors.ubml.yaml': `${v}
+actors:
+  AC00001: { name: Clerk, type: role, kind: human }
+  AC00002: { name: Shop, type: system, kind: system }
+  AC00003: { name: Acme Ltd, type: customer, kind: org }
+`,
+  'entities.ubml.yaml': `${v}
+entities:
+  EN00001:
+    name: Order
+    relationships:
+      lines: { target: EN00002, type: one-to-many }
+  EN00002: { name: Order Line }
+`,
+  'order.process.ubml.yaml': `${v}
+processes:
+  PR00001:
+    name: Order Handling
+    steps:
+      ST00001: { kind: start, name: Received }
+      ST00002:
+        kind: action
+        name: Check Order
+        RACI: { responsible: [AC00001] }
+        systems: [AC00002]
+        inputs: [{ ref: EN00001 }]
+        outputs: [{ ref: EN00001 }]
+        calls: [{ process: PR00002 }]
+      ST00003: { kind: end, name: Done }
+    links:
+      - { from: ST00001, to: ST00002 }
+      - { from: ST00002, to: ST00003 }
+  PR00002:
+    name: Billing
+    level: 1
+    steps:
+      ST00010: { kind: action, name: Invoice, outputs: [{ ref: EN00099 }] }
+`,
+  'strategy.ubml.yaml': `${v}
+capabilities:
+  CP00001: { name: Sales, processes: [PR00001] }
+  CP00002: { name: Order Capture, parent: CP00001, systems: [AC00002] }
+valueStreams:
+  VS00001:
+    name: Order to Cash
+    customer: AC00003
+    stages:
+      - { name: Order, processes: [PR00001] }
+      - { name: Pay, processes: [PR00002] }
+`,
+};
+
+function load(): UBMLDocument[] {
+  return Object.entries(sources).map(([filename, source]) => parse(source, filename).document!);
+}
+
+function parseModel(xml: string) {
+  const model = parseXml(xml);
+  const [elements] = childElements(model, 'elements');
+  const [relationships] = childElements(model, 'relationships');
+  const elementTypes = new Map(childElements(elements, 'element').map((element) => [
+    String(element.attributes?.identifier),
+    String(element.attributes?.['xsi:type']),
+  ]));
+  const relations = childElements(relationships, 'relationship').map((relationship) => relationship.attributes ?? {});
+  return { model, elementTypes, relations };
+}
+
+function hasRelation(relations: Record<string, unknown>[], type: string, source: string, target: string) {
+  return relations.some((r) => r['xsi:type'] === type && r.source === source && r.target === target);
+}
+
+describe('ArchiMate Export', () => {
+  it('should produce an Open Exchange model named after the workspace', () => {
+    const { model } = parseModel(toArchimate(load()));
+
+    expect(model.name).toBe('model');
+    expect(model.attributes?.xmlns).toBe('http://www.opengroup.org/xsd/archimate/3.0/');
+    expect(textContent(childElements(model, 'name')[0])).toBe('Retail');
+    expect(textContent(childElements(model, 'documentation')[0])).toBe('Retail operations');
+  });
+
+  it('should honor an explicit model name', () => {
+    const { model } = parseModel(toArchimate(load(), { name: 'Discovery' }));
+
+    expect(textContent(childElements(model, 'name')[0])).toBe('Discovery');
+  });
+
+  it('should map UBML elements to ArchiMate element types', () => {
+    const { elementTypes } = parseModel(toArchimate(load()));
+
+    expect(elementTypes.get('AC00001')).toBe('BusinessRole');
+    expect(elementTypes.get('AC00002')).toBe('ApplicationComponent');
+    expect(elementTypes.get('AC00003')).toBe('BusinessActor');
+    expect(elementTypes.get('EN00001')).toBe('BusinessObject');
+    expect(elementTypes.get('PR00001')).toBe('BusinessProcess');
+    expect(elementTypes.get('PR00002')).toBe('BusinessFunction');
+    expect(elementTypes.get('ST00001')).toBe('BusinessEvent');
+    expect(elementTypes.get('ST00002')).toBe('BusinessProcess');
+    expect(elementTypes.get('CP00001')).toBe('Capability');
+    expect(elementTypes.get('VS00001')).toBe('ValueStream');
+    expect(elementTypes.get('VS00001_stage2')).toBe('ValueStream');
+  });
+
+  it('should derive relationships from steps', () => {
+    const { relations } = parseModel(toArchimate(load()));
+
+    expect(hasRelation(relations, 'Composition', 'PR00001', 'ST00002')).toBe(true);
+    expect(hasRelation(relations, 'Triggering', 'ST00001', 'ST00002')).toBe(true);
+    expect(hasRelation(relations, 'Triggering', 'ST00002', 'PR00002')).toBe(true);
+    expect(hasRelation(relations, 'Assignment', 'AC00001', 'ST00002')).toBe(true);
+    expect(hasRelation(relations, 'Serving', 'AC00002', 'ST00002')).toBe(true);
+
+    const access = relations.filter((r) => r['xsi:type'] === 'Access' && r.source === 'ST00002');
+    expect(access).toHaveLength(1);
+    expect(access[0].accessType).toBe('ReadWrite');
+  });
+
+  it('should derive relationships from strategy and entities', () => {
+    const { relations } = parseModel(toArchimate(load()));
+
+    expect(hasRelation(relations, 'Realization', 'PR00001', 'CP00001')).toBe(true);
+    expect(hasRelation(relations, 'Realization', 'AC00002', 'CP00002')).toBe(true);
+    expect(hasRelation(relations, 'Composition', 'CP00001', 'CP00002')).toBe(true);
+    expect(hasRelation(relations, 'Composition', 'VS00001', 'VS00001_stage1')).toBe(true);
+    expect(hasRelation(relations, 'Triggering', 'VS00001_stage1', 'VS00001_stage2')).toBe(true);
+    expect(hasRelation(relations, 'Realization', 'PR00002', 'VS00001_stage2')).toBe(true);
+    expect(hasRelation(relations, 'Serving', 'VS00001', 'AC00003')).toBe(true);
+    expect(hasRelation(relations, 'Association', 'EN00001', 'EN00002')).toBe(true);
+  });
+
+  it('should omit relationships to elements outside the model', () => {
+    const { relations } = parseModel(toArchimate(load()));
+
+    expect(relations.some((r) => r.target === 'EN00099')).toBe(false);
+  });
+});
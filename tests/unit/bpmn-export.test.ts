@@ -0,0 +1,200 @@
+/**
+ * BPMN export unit tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import { SCHEMA_VERSION } from '../../src/constants.js';
+import { toBpmn, type LinksDocument, type ProcessDocument } from '../../src/index.js';
+
+function processDocument(process: Record<string, unknown>): ProcessDocument {
+  return {
+    ubml: SCHEMA_VERSION,
+    processes: { PR00001: { name: 'Order Handling', ...process } },
+  } as unknown as ProcessDocument;
+}
+
+describe('BPMN Export', () => {
+  describe('toBpmn', () => {
+    it('should produce a BPMN definitions document with a pool per process', () => {
+      const { xml } = toBpmn(processDocument({
+        steps: {
+          ST00001: { kind: 'start', name: 'Order Received' },
+          ST00002: { kind: 'action', name: 'Pack Order' },
+          ST00003: { kind: 'end', name: 'Done' },
+        },
+        links: [
+          { from: 'ST00001', to: 'ST00002' },
+          { from: 'ST00002', to: 'ST00003' },
+        ],
+      }));
+
+      expect(xml).toMatch(/^<\?xml version="1.0" encoding="UTF-8"\?>/);
+      expect(xml).toContain('<bpmn:definitions');
+      expect(xml).toContain('<bpmn:participant id="Participant_PR00001" name="Order Handling" processRef="PR00001" />');
+      expect(xml).toContain('<bpmn:startEvent id="ST00001" name="Order Received">');
+      expect(xml).toContain('<bpmn:task id="ST00002" name="Pack Order">');
+      expect(xml).toContain('<bpmn:endEvent id="ST00003" name="Done">');
+      expect(xml).toContain('<bpmn:sequenceFlow id="Flow_ST00001_ST00002" sourceRef="ST00001" targetRef="ST00002" />');
+      expect(xml).toContain('<bpmndi:BPMNShape id="ST00002_di" bpmnElement="ST00002">');
+    });
+
+    it('should map decisions to exclusive gateways with conditions and default flows', () => {
+      const { xml, losses } = toBpmn(processDocument({
+        steps: {
+          ST00001: { kind: 'decision', name: 'Approved?' },
+          ST00002: { kind: 'action', name: 'Ship' },
+          ST00003: { kind: 'action', name: 'Reject' },
+        },
+        links: [
+          { from: 'ST00001', to: 'ST00002', condition: 'approved == true', probability: 0.8 },
+          { from: 'ST00001', to: 'ST00003', isDefault: true, label: 'otherwise' },
+        ],
+      }));
+
+      expect(xml).toContain('<bpmn:exclusiveGateway id="ST00001" name="Approved?" default="Flow_ST00001_ST00003">');
+      expect(xml).toContain('<bpmn:conditionExpression xsi:type="bpmn:tFormalExpression">approved == true</bpmn:conditionExpression>');
+      expect(xml).toContain('name="otherwise"');
+      expect(losses).toContainEqual(expect.objectContaining({ construct: 'link.probability', elementId: 'ST00001' }));
+    });
+
+    it('should map synchronous calls to call activities and error calls to error throw events', () => {
+      const { xml } = toBpmn(processDocument({
+        steps: {
+          ST00001: {
+            kind: 'action',
+            name: 'Charge Card',
+            calls: [
+              { process: 'PR00002' },
+              { process: 'PR00003', on: 'error' },
+            ],
+          },
+        },
+      }));
+
+      expect(xml).toContain('<bpmn:callActivity id="ST00001" name="Charge Card" calledElement="PR00002"');
+      expect(xml).toContain('<bpmn:boundaryEvent id="ST00001_error1" attachedToRef="ST00001">');
+      expect(xml).toContain('<bpmn:errorEventDefinition id="ST00001_call1_definition" errorRef="Error_PR00003" />');
+      expect(xml).toContain('<bpmn:error id="Error_PR00003" name="PR00003" errorCode="PR00003" />');
+    });
+
+    it('should project par blocks onto parallel gateways', () => {
+      const { xml } = toBpmn(processDocument({
+        steps: {
+          ST00001: { kind: 'action', name: 'Prepare' },
+          ST00002: { kind: 'action', name: 'Pick' },
+          ST00003: { kind: 'action', name: 'Invoice' },
+          ST00004: { kind: 'action', name: 'Ship' },
+        },
+        blocks: {
+          BK00001: { operator: 'par', steps: ['ST00002', 'ST00003'] },
+        },
+        links: [
+          { from: 'ST00001', to: 'ST00002' },
+          { from: 'ST00001', to: 'ST00003' },
+          { from: 'ST00002', to: 'ST00004' },
+          { from: 'ST00003', to: 'ST00004' },
+        ],
+      }));
+
+      expect(xml).toContain('<bpmn:parallelGateway id="BK00001_split">');
+      expect(xml).toContain('<bpmn:parallelGateway id="BK00001_join">');
+      expect(xml).toContain('sourceRef="ST00001" targetRef="BK00001_split"');
+      expect(xml).toContain('sourceRef="BK00001_join" targetRef="ST00004"');
+      expect(xml).not.toContain('sourceRef="ST00001" targetRef="ST00002"');
+    });
+
+    it('should map lifecycle phases to lanes and delivery phases to groups', () => {
+      const { xml } = toBpmn(processDocument({
+        steps: {
+          ST00001: { kind: 'action', name: 'Intake' },
+          ST00002: { kind: 'action', name: 'Fulfil' },
+        },
+        links: [{ from: 'ST00001', to: 'ST00002' }],
+        phases: {
+          PH00001: { name: 'Intake', kind: 'lifecycle', includeSteps: ['ST00001'] },
+          PH00002: { name: 'Fulfilment', kind: 'lifecycle', includeSteps: ['ST00002'] },
+          PH00003: { name: 'Sprint 1', kind: 'delivery', includeSteps: ['ST00001', 'ST00002'] },
+        },
+      }));
+
+      expect(xml).toContain('<bpmn:lane id="PH00001" name="Intake">');
+      expect(xml).toContain('<bpmn:flowNodeRef>ST00002</bpmn:flowNodeRef>');
+      expect(xml).toContain('<bpmn:group id="PH00003" categoryValueRef="PH00003_category_value" />');
+      expect(xml).toContain('<bpmn:categoryValue id="PH00003_category_value" value="Sprint 1" />');
+    });
+
+    it('should report cross-process links from links documents', () => {
+      const links = {
+        ubml: SCHEMA_VERSION,
+        links: [{ from: 'ST00001', to: 'ST09999' }],
+      } as unknown as LinksDocument;
+
+      const { losses } = toBpmn(processDocument({
+        steps: { ST00001: { kind: 'action', name: 'Hand Over' } },
+      }), { linksDocuments: [links] });
+
+      expect(losses).toContainEqual(expect.objectContaining({
+        construct: 'link.crossProcess',
+        processId: 'PR00001',
+        elementId: 'ST00001',
+      }));
+    });
+
+    it('should project links between inline subprocess steps as flows inside the subprocess', () => {
+      const { xml, losses } = toBpmn(processDocument({
+        steps: {
+          ST00001: {
+            kind: 'subprocess',
+            name: 'Packing',
+            steps: {
+              ST00011: { kind: 'action', name: 'Pick' },
+              ST00012: { kind: 'action', name: 'Pack' },
+            },
+          },
+          ST00002: { kind: 'action', name: 'Ship' },
+        },
+        links: [
+          { from: 'ST00011', to: 'ST00012', label: 'picked' },
+          { from: 'ST00012', to: 'ST00002' },
+          { from: 'ST00001', to: 'ST00002' },
+        ],
+      }));
+
+      expect(xml).toMatch(
+        /<bpmn:task id="ST00011" name="Pick">\s*<bpmn:outgoing>Flow_ST00011_ST00012<\/bpmn:outgoing>\s*<\/bpmn:task>/
+      );
+      expect(xml).toMatch(/<bpmn:sequenceFlow id="Flow_ST00011_ST00012" name="picked" sourceRef="ST00011" targetRef="ST00012" \/>\s*<\/bpmn:subProcess>/);
+      expect(losses).toEqual([expect.objectContaining({ construct: 'link.subprocessBoundary', elementId: 'ST00001' })]);
+    });
+
+    it('should report messages as losses', () => {
+      const { losses } = toBpmn(processDocument({
+        steps: {
+          ST00001: { kind: 'action', name: 'Notify', messages: [{ to: 'AC00001', name: 'Order confirmation' }] },
+        },
+      }));
+
+      expect(losses.map((loss) => loss.construct)).toContain('step.messages');
+    });
+
+    it('should convert wait durations to timer events', () => {
+      const { xml } = toBpmn(processDocument({
+        steps: { ST00001: { kind: 'wait', name: 'Cool Off', duration: '2d' } },
+      }));
+
+      expect(xml).toContain('<bpmn:timeDuration xsi:type="bpmn:tFormalExpression">P2D</bpmn:timeDuration>');
+    });
+
+    it('should omit diagram interchange when requested', () => {
+      const { xml } = toBpmn(processDocument({
+        steps: { ST00001: { kind: 'action', name: 'Only' } },
+      }), { includeDiagram: false });
+
+      expect(xml).not.toContain('bpmndi:BPMNDiagram');
+    });
+
+    it('should throw for an unknown process', () => {
+      expect(() => toBpmn(processDocument({ steps: {} }), { processId: 'PR09999' })).toThrow('PR09999');
+    });
+  });
+});
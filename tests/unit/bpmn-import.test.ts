@@ -0,0 +1,184 @@
+/**
+ * BPMN import unit tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import { fromBpmn, toBpmn, type Actor, type ProcessDocument } from '../../src/index.js';
+
+const ORDER_BPMN = `<?xml version="1.0" encoding="UTF-8"?>
+<bpmn:definitions xmlns:bpmn="http://www.omg.org/spec/BPMN/20100524/MODEL" id="Definitions_1">
+  <bpmn:collaboration id="Collaboration_1">
+    <bpmn:participant id="Participant_1" name="Order to Cash" processRef="Process_1" />
+  </bpmn:collaboration>
+  <bpmn:process id="Process_1">
+    <bpmn:laneSet id="LaneSet_1">
+      <bpmn:lane id="Lane_1" name="Sales">
+        <bpmn:flowNodeRef>Start</bpmn:flowNodeRef>
+        <bpmn:flowNodeRef>Check</bpmn:flowNodeRef>
+      </bpmn:lane>
+      <bpmn:lane id="Lane_2" name="warehouse">
+        <bpmn:flowNodeRef>Pick</bpmn:flowNodeRef>
+      </bpmn:lane>
+    </bpmn:laneSet>
+    <bpmn:startEvent id="Start" name="Order Received" />
+    <bpmn:userTask id="Check" name="Check Order">
+      <bpmn:documentation>Verify stock &amp; credit</bpmn:documentation>
+    </bpmn:userTask>
+    <bpmn:exclusiveGateway id="Ok" name="Order OK?" default="Flow_No" />
+    <bpmn:parallelGateway id="Fork" />
+    <bpmn:task id="Pick" name="Pick Goods" />
+    <bpmn:task id="Invoice" name="Send Invoice" />
+    <bpmn:parallelGateway id="Sync" />
+    <bpmn:task id="Reject" name="Reject Order" />
+    <bpmn:exclusiveGateway id="Merge" />
+    <bpmn:intermediateCatchEvent id="Cool" name="Cooling Period">
+      <bpmn:timerEventDefinition><bpmn:timeDuration>P2D</bpmn:timeDuration></bpmn:timerEventDefinition>
+    </bpmn:intermediateCatchEvent>
+    <bpmn:endEvent id="End" name="Done" />
+    <bpmn:dataObjectReference id="Data_1" />
+    <bpmn:sequenceFlow id="Flow_1" sourceRef="Start" targetRef="Check" />
+    <bpmn:sequenceFlow id="Flow_2" sourceRef="Check" targetRef="Ok" />
+    <bpmn:sequenceFlow id="Flow_No" name="no" sourceRef="Ok" targetRef="Reject" />
+    <bpmn:sequenceFlow id="Flow_Yes" sourceRef="Ok" targetRef="Fork">
+      <bpmn:conditionExpression>approved == true</bpmn:conditionExpression>
+    </bpmn:sequenceFlow>
+    <bpmn:sequenceFlow id="Flow_3" sourceRef="Fork" targetRef="Pick" />
+    <bpmn:sequenceFlow id="Flow_4" sourceRef="Fork" targetRef="Invoice" />
+    <bpmn:sequenceFlow id="Flow_5" sourceRef="Pick" targetRef="Sync" />
+    <bpmn:sequenceFlow id="Flow_6" sourceRef="Invoice" targetRef="Sync" />
+    <bpmn:sequenceFlow id="Flow_7" sourceRef="Sync" targetRef="Merge" />
+    <bpmn:sequenceFlow id="Flow_8" sourceRef="Reject" targetRef="Merge" />
+    <bpmn:sequenceFlow id="Flow_9" sourceRef="Merge" targetRef="Cool" />
+    <bpmn:sequenceFlow id="Flow_10" sourceRef="Cool" targetRef="End" />
+  </bpmn:process>
+</bpmn:definitions>
+`;
+
+describe('BPMN Import', () => {
+  describe('fromBpmn', () => {
+    it('should create a process named after the pool with freshly allocated IDs', () => {
+      const { document, idMap } = fromBpmn(ORDER_BPMN);
+
+      expect(Object.keys(document.processes)).toEqual(['PR01000']);
+      expect(document.processes.PR01000.name).toBe('Order to Cash');
+      expect(idMap.Start).toBe('ST01000');
+      expect(idMap.Check).toBe('ST01010');
+    });
+
+    it('should map BPMN elements to step kinds', () => {
+      const { document, idMap } = fromBpmn(ORDER_BPMN);
+      const steps = document.processes.PR01000.steps;
+
+      expect(steps[idMap.Start].kind).toBe('start');
+      expect(steps[idMap.Check]).toMatchObject({ kind: 'action', description: 'Verify stock & credit' });
+      expect(steps[idMap.Ok].kind).toBe('decision');
+      expect(steps[idMap.Cool]).toMatchObject({ kind: 'wait', duration: '2d' });
+      expect(steps[idMap.End].kind).toBe('end');
+    });
+
+    it('should remove merge gateways and keep conditions and defaults on links', () => {
+      const { document, idMap } = fromBpmn(ORDER_BPMN);
+      const process = document.processes.PR01000;
+
+      expect(idMap.Merge).toBeUndefined();
+      expect(process.links).toContainEqual({ from: idMap.Reject, to: idMap.Cool });
+      expect(process.links).toContainEqual({ from: idMap.Ok, to: idMap.Reject, isDefault: true, label: 'no' });
+      expect(process.links).toContainEqual({ from: idMap.Ok, to: idMap.Pick, condition: 'approved == true' });
+    });
+
+    it('should turn parallel fork/join pairs into par blocks', () => {
+      const { document, idMap } = fromBpmn(ORDER_BPMN);
+      const blocks = document.processes.PR01000.blocks!;
+
+      expect(Object.values(blocks)).toEqual([
+        { name: 'Parallel', operator: 'par', steps: [idMap.Pick, idMap.Invoice] },
+      ]);
+      expect(idMap.Fork).toBeUndefined();
+      expect(idMap.Sync).toBeUndefined();
+    });
+
+    it('should map lanes to existing actors and create placeholders for the rest', () => {
+      const existing: Record<string, Actor> = {
+        AC00010: { name: 'Warehouse', type: 'team', kind: 'org' },
+      };
+      const { document, actors, idMap } = fromBpmn(ORDER_BPMN, { actors: existing });
+      const steps = document.processes.PR01000.steps;
+
+      expect(actors).toEqual({
+        AC01000: expect.objectContaining({ name: 'Sales', type: 'role', kind: 'human' }),
+      });
+      expect(steps[idMap.Check].RACI).toEqual({ responsible: ['AC01000'] });
+      expect(steps[idMap.Pick].RACI).toEqual({ responsible: ['AC00010'] });
+      expect(steps[idMap.Invoice].RACI).toBeUndefined();
+    });
+
+    it('should report unsupported elements as warnings', () => {
+      const { warnings } = fromBpmn(ORDER_BPMN);
+
+      expect(warnings).toContainEqual(expect.objectContaining({ element: 'dataObjectReference', bpmnId: 'Data_1' }));
+    });
+
+    it('should use the provided ID allocator', () => {
+      const requests: { prefix: string; count: number }[] = [];
+      const { document } = fromBpmn(ORDER_BPMN, {
+        allocateIds: (batch) => {
+          requests.push(...batch);
+          return new Map(batch.map(({ prefix, count }) => [
+            prefix,
+            Array.from({ length: count }, (_, i) => `${prefix}${String(5000 + i).padStart(5, '0')}`),
+          ]));
+        },
+      });
+
+      expect(requests).toContainEqual({ prefix: 'ST', count: 8 });
+      expect(Object.keys(document.processes)).toEqual(['PR05000']);
+    });
+
+    it('should import call activities as calls', () => {
+      const { document } = fromBpmn(`<definitions xmlns="http://www.omg.org/spec/BPMN/20100524/MODEL">
+        <process id="Main" name="Main">
+          <callActivity id="Call" name="Run Billing" calledElement="Billing" />
+        </process>
+        <process id="Billing" name="Billing">
+          <task id="Bill" name="Bill" />
+        </process>
+      </definitions>`);
+
+      expect(document.processes.PR01000.steps.ST01000).toMatchObject({
+        kind: 'subprocess',
+        calls: [{ process: 'PR01010' }],
+      });
+    });
+
+    it('should round-trip steps exported by toBpmn', () => {
+      const original = {
+        ubml: '1.2',
+        processes: {
+          PR00001: {
+            name: 'Approval',
+            steps: {
+              ST00001: { kind: 'start', name: 'Start' },
+              ST00002: { kind: 'action', name: 'Review' },
+              ST00003: { kind: 'end', name: 'End' },
+            },
+            links: [
+              { from: 'ST00001', to: 'ST00002' },
+              { from: 'ST00002', to: 'ST00003' },
+            ],
+          },
+        },
+      } as unknown as ProcessDocument;
+
+      const { document } = fromBpmn(toBpmn(original).xml);
+      const steps = Object.values(document.processes.PR01000.steps);
+
+      expect(steps.map((step) => step.name)).toEqual(['Start', 'Review', 'End']);
+      expect(document.processes.PR01000.links).toHaveLength(2);
+    });
+
+    it('should reject documents that are not BPMN', () => {
+      expect(() => fromBpmn('<root />')).toThrow('Not a BPMN document');
+      expect(() => fromBpmn('<definitions><process id="P"></definitions>')).toThrow(/line 1/);
+    });
+  });
+});
@@ -0,0 +1,297 @@
+/**
+ * Activity-based cost model unit tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import { SCHEMA_VERSION } from '../../src/constants.js';
+import { calculateProcessCost, parse, type ProcessCost, type UBMLDocument } from '../../src/index.js';
+
+function documents(files: Record<string, string>): UBMLDocument[] {
+  return Object.entries(files).map(([filename, yaml]) => parse(`ubml: "${SCHEMA_VERSION}"\n${yaml}`, filename).document!);
+}
+
+const actors = `actors:
+  AC00001: { name: Clerk, type: person, kind: human, rate: { amount: 40, currency: EUR, per: h } }
+  AC00002: { name: Reviewers, type: role, kind: human, rate: { amount: 400, currency: EUR, per: d } }
+  AC00003: { name: Contractor, type: person, kind: human, rate: { amount: 50, currency: USD, per: h } }
+  AC00004: { name: Intern, type: person, kind: human }
+resourcePools:
+  RP00001: { name: Review Team, actor: AC00002, capacity: 2, rate: { amount: 60, currency: EUR, per: h } }
+`;
+
+const workspace = `name: Costing
+defaults:
+  currency: EUR
+  exchangeRates:
+    USD: 0.9
+`;
+
+function costOf(process: string, files: Record<string, string> = {}): UBMLDocument[] {
+  return documents({
+    'orders.process.ubml.yaml': process,
+    'org.actors.ubml.yaml': actors,
+    'costing.workspace.ubml.yaml': workspace,
+    ...files,
+  });
+}
+
+function stepOf(cost: ProcessCost, id: string) {
+  return cost.steps.find((step) => step.id === id)!;
+}
+
+describe('Cost Model', () => {
+  describe('calculateProcessCost', () => {
+    it('should cost steps along link probabilities', () => {
+      const cost = calculateProcessCost(costOf(`processes:
+  PR00001:
+    name: Orders
+    steps:
+      ST00001: { name: Received, kind: start }
+      ST00002: { name: Enter order, kind: action, RACI: { responsible: [AC00001] }, effort: "1h" }
+      ST00003: { name: Needs review?, kind: decision }
+      ST00004: { name: Review, kind: action, RACI: { responsible: [AC00002] }, effort: "2h", duration: "1d" }
+      ST00005: { name: Done, kind: end }
+    links:
+      - { from: ST00001, to: ST00002 }
+      - { from: ST00002, to: ST00003 }
+      - { from: ST00003, to: ST00004, probability: 0.25 }
+      - { from: ST00003, to: ST00005 }
+      - { from: ST00004, to: ST00005 }
+`), 'PR00001');
+
+      expect(cost).toMatchObject({ processId: 'PR00001', name: 'Orders', currency: 'EUR', costPerCase: 70, hoursPerCase: 1.5, warnings: [] });
+      expect(stepOf(cost, 'ST00002')).toEqual({
+        id: 'ST00002',
+        name: 'Enter order',
+        executions: 1,
+        hours: 1,
+        actor: 'AC00001',
+        hourlyRate: 40,
+        unitCost: 40,
+        cost: 40,
+        share: 0.5714,
+      });
+      expect(stepOf(cost, 'ST00004')).toMatchObject({ executions: 0.25, hours: 2, pool: 'RP00001', hourlyRate: 60, unitCost: 120, cost: 30 });
+      expect(stepOf(cost, 'ST00005')).toMatchObject({ executions: 1, cost: 0 });
+    });
+
+    it('should count parallel branches once where they join', () => {
+      const cost = calculateProcessCost(costOf(`processes:
+  PR00001:
+    name: Onboarding
+    steps:
+      ST00001: { name: Start, kind: start }
+      ST00002: { name: Accounts, kind: action, RACI: { responsible: [AC00001] }, effort: "1h" }
+      ST00003: { name: Equipment, kind: action, RACI: { responsible: [AC00001] }, effort: "2h" }
+      ST00004: { name: Welcome, kind: action, RACI: { responsible: [AC00001] }, effort: "1h" }
+      ST00005: { name: Done, kind: end }
+    links:
+      - { from: ST00001, to: ST00002 }
+      - { from: ST00001, to: ST00003 }
+      - { from: ST00002, to: ST00004 }
+      - { from: ST00003, to: ST00004 }
+      - { from: ST00004, to: ST00005 }
+`), 'PR00001');
+
+      expect(cost.steps.map((step) => step.executions)).toEqual([1, 1, 1, 1, 1]);
+      expect(cost.costPerCase).toBe(160);
+    });
+
+    it('should repeat the steps of a rework link', () => {
+      const cost = calculateProcessCost(costOf(`processes:
+  PR00001:
+    name: Drafting
+    steps:
+      ST00001: { name: Start, kind: start }
+      ST00002: { name: Draft, kind: action, RACI: { responsible: [AC00001] }, effort: "1h" }
+      ST00003: { name: Approved?, kind: decision }
+      ST00004: { name: Done, kind: end }
+    links:
+      - { from: ST00001, to: ST00002 }
+      - { from: ST00002, to: ST00003 }
+      - { from: ST00003, to: ST00002, probability: 0.5 }
+      - { from: ST00003, to: ST00004, probability: 0.5 }
+`), 'PR00001');
+
+      expect(stepOf(cost, 'ST00002').executions).toBe(2);
+      expect(stepOf(cost, 'ST00004').executions).toBe(1);
+      expect(cost.costPerCase).toBe(80);
+    });
+
+    it('should reject a cycle without an exit', () => {
+      const documents = costOf(`processes:
+  PR00001:
+    name: Forever
+    steps:
+      ST00001: { name: Start, kind: start }
+      ST00002: { name: Draft, kind: action }
+      ST00003: { name: Check, kind: decision }
+    links:
+      - { from: ST00001, to: ST00002 }
+      - { from: ST00002, to: ST00003 }
+      - { from: ST00003, to: ST00002, probability: 1 }
+`);
+
+      expect(() => calculateProcessCost(documents, 'PR00001')).toThrow('Process PR00001 has a cycle without an exit');
+    });
+
+    it('should multiply cost by expected loop iterations', () => {
+      const cost = calculateProcessCost(costOf(`processes:
+  PR00001:
+    name: Lines
+    steps:
+      ST00001: { name: Fix, kind: action, RACI: { responsible: [AC00001] }, effort: "1h", loop: { kind: rework, probability: 0.5, max: 3 } }
+      ST00002: { name: Pick, kind: action, RACI: { responsible: [AC00001] }, effort: "30min", loop: { kind: forEach, over: orderLines } }
+      ST00003: { name: Call, kind: action, RACI: { responsible: [AC00001] }, effort: "15min", loop: { kind: repeat, max: 4 } }
+    links:
+      - { from: ST00001, to: ST00002 }
+      - { from: ST00002, to: ST00003 }
+`), 'PR00001', { scope: { orderLines: 6 } });
+
+      expect(cost.steps.map((step) => step.executions)).toEqual([1.75, 6, 4]);
+      expect(cost.costPerCase).toBe(70 + 120 + 40);
+    });
+
+    it('should use fixed costs and convert currencies', () => {
+      const cost = calculateProcessCost(costOf(`processes:
+  PR00001:
+    name: Audit
+    steps:
+      ST00001: { name: External audit, kind: action, RACI: { responsible: [AC00001] }, effort: "1d", fixedCost: { amount: 1000, currency: USD } }
+      ST00002: { name: Translation, kind: action, RACI: { responsible: [AC00003] }, effort: "2h" }
+    links:
+      - { from: ST00001, to: ST00002 }
+`), 'PR00001');
+
+      expect(stepOf(cost, 'ST00001')).toMatchObject({ unitCost: 900, cost: 900 });
+      expect(stepOf(cost, 'ST00002')).toMatchObject({ hourlyRate: 45, cost: 90 });
+      expect(cost.costPerCase).toBe(990);
+      expect(cost.hoursPerCase).toBe(10);
+    });
+
+    it('should report a missing exchange rate', () => {
+      const documents = costOf(`processes:
+  PR00001:
+    name: Translation
+    steps:
+      ST00001: { name: Translate, kind: action, RACI: { responsible: [AC00003] }, effort: "2h" }
+`);
+
+      expect(calculateProcessCost(documents, 'PR00001', { currency: 'USD' }).costPerCase).toBe(100);
+      expect(calculateProcessCost(documents, 'PR00001', { currency: 'CHF', exchangeRates: { USD: 0.8 } }).costPerCase).toBe(80);
+      expect(() => calculateProcessCost(documents, 'PR00001', { currency: 'GBP' })).toThrow(
+        'Step ST00001 rate: no exchange rate from USD to GBP; add it to defaults.exchangeRates of the workspace'
+      );
+    });
+
+    it('should warn about steps without a rate', () => {
+      const cost = calculateProcessCost(costOf(`processes:
+  PR00001:
+    name: Filing
+    steps:
+      ST00001: { name: File, kind: action, RACI: { responsible: [AC00004] }, effort: "1h" }
+      ST00002: { name: Archive, kind: action, effort: "1h" }
+      ST00003: { name: Route, kind: decision }
+      ST00004: { name: Left, kind: end }
+      ST00005: { name: Right, kind: end }
+    links:
+      - { from: ST00001, to: ST00002 }
+      - { from: ST00002, to: ST00003 }
+      - { from: ST00003, to: ST00004 }
+      - { from: ST00003, to: ST00005 }
+`), 'PR00001');
+
+      expect(cost.costPerCase).toBe(0);
+      expect(stepOf(cost, 'ST00004').executions).toBe(0.5);
+      expect(cost.warnings).toEqual([
+        'ST00003 Route: no link probabilities, assuming equal shares',
+        'ST00001 File: no rate for AC00004, labor not costed',
+        'ST00002 Archive: no responsible actor, labor not costed',
+      ]);
+    });
+
+    it('should warn when link probabilities add up to more than 1', () => {
+      const cost = calculateProcessCost(costOf(`processes:
+  PR00001:
+    name: Triage
+    steps:
+      ST00001: { name: Route, kind: decision }
+      ST00002: { name: Fast, kind: end }
+      ST00003: { name: Slow, kind: end }
+      ST00004: { name: Other, kind: end }
+    links:
+      - { from: ST00001, to: ST00002, probability: 0.7 }
+      - { from: ST00001, to: ST00003, probability: 0.5 }
+      - { from: ST00001, to: ST00004 }
+`), 'PR00001');
+
+      expect(stepOf(cost, 'ST00004').executions).toBe(0);
+      expect(cost.warnings).toEqual(['ST00001 Route: link probabilities add up to 1.2, links without one get no share']);
+    });
+
+    it('should warn when no currency is known', () => {
+      const cost = calculateProcessCost(documents({
+        'orders.process.ubml.yaml': `processes:
+  PR00001:
+    name: Orders
+    steps:
+      ST00001: { name: Enter order, kind: action, effort: "1h" }
+`,
+      }), 'PR00001');
+
+      expect(cost.currency).toBe('USD');
+      expect(cost.warnings).toContain('No currency in the options, the workspace defaults or any cost, assuming USD');
+    });
+
+    it('should add the cost of called and triggered processes', () => {
+      const cost = calculateProcessCost(costOf(`processes:
+  PR00001:
+    name: Orders
+    steps:
+      ST00001:
+        name: Enter order
+        kind: action
+        RACI: { responsible: [AC00001] }
+        effort: "1h"
+        calls: [{ process: PR00002 }, { process: PR00002, on: complete }, { process: PR00003, on: error }]
+  PR00002:
+    name: Credit check
+    steps:
+      ST00011: { name: Check credit, kind: action, RACI: { responsible: [AC00001] }, effort: "30min" }
+  PR00003:
+    name: Escalate
+    steps:
+      ST00021: { name: Escalate, kind: action, fixedCost: { amount: 5, currency: EUR } }
+`), 'PR00001');
+
+      expect(stepOf(cost, 'ST00001')).toMatchObject({ unitCost: 80, cost: 80 });
+      expect(cost.contingentCalls).toEqual([{ step: 'ST00001', process: 'PR00003', on: 'error', cost: 5 }]);
+      expect(cost.hoursPerCase).toBe(1);
+      expect(() => calculateProcessCost(costOf(`processes:
+  PR00001:
+    name: Loop
+    steps:
+      ST00001: { name: Again, kind: action, calls: [{ process: PR00001 }] }
+`), 'PR00001')).toThrow('Process PR00001 calls itself (PR00001 -> PR00001)');
+    });
+
+    it('should round called processes only in the result', () => {
+      const cost = calculateProcessCost(costOf(`processes:
+  PR00001:
+    name: Batch
+    steps:
+      ST00001: { name: Notify, kind: action, calls: [{ process: PR00002 }, { process: PR00002 }, { process: PR00002 }] }
+  PR00002:
+    name: Notify
+    steps:
+      ST00011: { name: Send notice, kind: action, fixedCost: { amount: 0.004, currency: EUR } }
+`), 'PR00001');
+
+      expect(cost.costPerCase).toBe(0.01);
+    });
+
+    it('should report an unknown process', () => {
+      expect(() => calculateProcessCost(costOf('processes: {}\n'), 'PR00009')).toThrow('Process PR00009 not found');
+    });
+  });
+});
@@ -0,0 +1,131 @@
+/**
+ * Diagram export unit tests (Mermaid and Graphviz DOT)
+ */
+
+import { describe, it, expect } from 'vitest';
+import { SCHEMA_VERSION } from '../../src/constants.js';
+import { toDot, toMermaid, type ProcessDocument } from '../../src/index.js';
+
+const document = {
+  ubml: SCHEMA_VERSION,
+  processes: {
+    PR00001: {
+      name: 'Order Handling',
+      steps: {
+        ST00001: { kind: 'start', name: 'Received' },
+        ST00002: { kind: 'decision', name: 'Order OK?' },
+        ST00003: { kind: 'action', name: 'Pick' },
+        ST00004: { kind: 'action', name: 'Invoice' },
+        ST00005: { kind: 'wait', name: 'Cool Off' },
+        ST00006: { kind: 'subprocess', name: 'Ship' },
+        ST00007: { kind: 'end', name: 'Done' },
+      },
+      links: [
+        { from: 'ST00001', to: 'ST00002' },
+        { from: 'ST00002', to: 'ST00003', condition: 'ok == true', probability: 0.8 },
+        { from: 'ST00002', to: 'ST00007', isDefault: true, label: 'reject' },
+        { from: 'ST00003', to: 'ST00005' },
+        { from: 'ST00004', to: 'ST00005' },
+        { from: 'ST00005', to: 'ST00006' },
+        { from: 'ST00006', to: 'ST00007' },
+      ],
+      blocks: {
+        BK00001: { name: 'Fulfil', operator: 'par', steps: ['ST00003', 'ST00004'] },
+      },
+      phases: {
+        PH00001: { name: 'Intake', kind: 'lifecycle', includeSteps: ['ST00001', 'ST00002'] },
+        PH00002: { name: 'Delivery', kind: 'lifecycle', includeSteps: ['ST00003', 'ST00004', 'ST00005'] },
+      },
+    },
+    PR00002: {
+      name: 'Returns',
+      steps: { ST00010: { kind: 'action', name: 'Inspect' } },
+    },
+  },
+} as unknown as ProcessDocument;
+
+describe('Diagram Export', () => {
+  describe('toMermaid', () => {
+    it('should render step kinds with distinct shapes', () => {
+      const mermaid = toMermaid(document, { processId: 'PR00001' });
+
+      expect(mermaid.startsWith('flowchart LR\n')).toBe(true);
+      expect(mermaid).toContain('ST00001(("Received"))');
+      expect(mermaid).toContain('ST00002{"Order OK?"}');
+      expect(mermaid).toContain('ST00003("Pick")');
+      expect(mermaid).toContain('ST00005{{"Cool Off"}}');
+      expect(mermaid).toContain('ST00006[["Ship"]]');
+      expect(mermaid).toContain('ST00007((("Done")))');
+    });
+
+    it('should render link conditions, probabilities, labels and defaults', () => {
+      const mermaid = toMermaid(document, { processId: 'PR00001' });
+
+      expect(mermaid).toContain('ST00002 -->|"[ok == true] 80%"| ST00003');
+      expect(mermaid).toContain('ST00002 -.->|"reject (default)"| ST00007');
+      expect(mermaid).toContain('ST00001 --> ST00002');
+    });
+
+    it('should nest blocks inside the phase that contains them', () => {
+      const mermaid = toMermaid(document, { processId: 'PR00001' });
+      const phase = mermaid.indexOf('subgraph PH00002["Delivery"]');
+      const block = mermaid.indexOf('subgraph BK00001["Fulfil (par)"]');
+
+      expect(phase).toBeGreaterThan(-1);
+      expect(block).toBeGreaterThan(phase);
+      expect(mermaid).toContain('subgraph PH00001["Intake"]');
+    });
+
+    it('should wrap each process in a subgraph when rendering several', () => {
+      const mermaid = toMermaid(document, { direction: 'TB' });
+
+      expect(mermaid.startsWith('flowchart TB\n')).toBe(true);
+      expect(mermaid).toContain('subgraph PR00001["Order Handling"]');
+      expect(mermaid).toContain('subgraph PR00002["Returns"]');
+    });
+
+    it('should escape quotes in labels', () => {
+      const quoted = {
+        ubml: SCHEMA_VERSION,
+        processes: { PR00001: { name: 'P', steps: { ST00001: { kind: 'action', name: 'Say "hi"' } } } },
+      } as unknown as ProcessDocument;
+
+      expect(toMermaid(quoted)).toContain('ST00001("Say #quot;hi#quot;")');
+    });
+
+    it('should throw for an unknown process', () => {
+      expect(() => toMermaid(document, { processId: 'PR09999' })).toThrow('PR09999');
+    });
+  });
+
+  describe('toDot', () => {
+    it('should render a digraph with shapes, clusters and edge labels', () => {
+      const dot = toDot(document, { processId: 'PR00001' });
+
+      expect(dot.startsWith('digraph PR00001 {\n  rankdir=LR;')).toBe(true);
+      expect(dot).toContain('ST00002 [label="Order OK?", shape=diamond];');
+      expect(dot).toContain('ST00007 [label="Done", shape=doublecircle];');
+      expect(dot).toContain('subgraph cluster_BK00001 {');
+      expect(dot).toContain('label="Fulfil (par)";');
+      expect(dot).toContain('ST00002 -> ST00003 [label="[ok == true]\\n80%"];');
+      expect(dot).toContain('ST00002 -> ST00007 [label="reject\\n(default)", style=dashed];');
+      expect(dot.trimEnd().endsWith('}')).toBe(true);
+    });
+
+    it('should draw delivery phases when requested', () => {
+      const withDelivery = {
+        ubml: SCHEMA_VERSION,
+        processes: {
+          PR00001: {
+            name: 'P',
+            steps: { ST00001: { kind: 'action', name: 'A' } },
+            phases: { PH00001: { name: 'MVP', kind: 'delivery', includeSteps: ['ST00001'] } },
+          },
+        },
+      } as unknown as ProcessDocument;
+
+      expect(toDot(withDelivery)).not.toContain('cluster_PH00001');
+      expect(toDot(withDelivery, { phaseKind: 'delivery' })).toContain('subgraph cluster_PH00001 {');
+    });
+  });
+});
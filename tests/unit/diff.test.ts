@@ -0,0 +1,120 @@
+/**
+ * Semantic diff unit tests
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { execFileSync } from 'child_process';
+import { mkdtempSync, mkdirSync, rmSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import { SCHEMA_VERSION } from '../../src/constants.js';
+import { diffWorkspaces, parse, toDiffMarkdown, type DiffDocument } from '../../src/index.js';
+import { diffRevisions, loadRevision } from '../../src/node/index.js';
+
+const claims = `ubml: "${SCHEMA_VERSION}"
+processes:
+  PR00001:
+    name: Claims
+    steps:
+      ST00001:
+        name: Assess
+        kind: decision
+        duration: { value: 2, unit: h }
+      ST00002:
+        name: Pay
+      ST00003:
+        name: Reject
+    links:
+      - from: ST00001
+        to: ST00002
+        label: Approved
+      - from: ST00001
+        to: ST00003
+        label: Rejected
+`;
+
+const revised = claims
+  .replace('name: Assess', 'name: Assess claim')
+  .replace('value: 2', 'value: 3')
+  .replace('label: Rejected', 'label: Declined')
+  .replace('      ST00003:\n        name: Reject\n', '      ST00003:\n        name: Reject\n      ST00004:\n        name: Escalate\n')
+  .replace('        to: ST00002\n', '        to: ST00004\n');
+
+function doc(path: string, text: string): DiffDocument {
+  return { path, content: parse(text, path).document!.content };
+}
+
+describe('Semantic Diff', () => {
+  it('should report element and property changes by ID', () => {
+    const diff = diffWorkspaces([doc('claims.process.ubml.yaml', claims)], [doc('claims.process.ubml.yaml', revised)]);
+
+    expect(diff.changes.map((c) => [c.kind, c.type, c.id, c.changes.map((p) => [p.property, p.before, p.after])])).toEqual([
+      ['changed', 'step', 'ST00001', [['name', 'Assess', 'Assess claim'], ['duration.value', 2, 3]]],
+      ['added', 'step', 'ST00004', []],
+      ['added', 'link', 'ST00001 -> ST00004', []],
+      ['changed', 'link', 'ST00001 -> ST00003', [['label', 'Rejected', 'Declined']]],
+      ['removed', 'link', 'ST00001 -> ST00002', []],
+    ]);
+    expect(diff.changes[1]).toMatchObject({ name: 'Escalate', parent: 'PR00001', path: 'claims.process.ubml.yaml' });
+    expect(diff.summary).toEqual([
+      { type: 'link', added: 1, removed: 1, changed: 1 },
+      { type: 'step', added: 1, removed: 0, changed: 1 },
+    ]);
+  });
+
+  it('should report elements that moved to another document', () => {
+    const actors = `ubml: "${SCHEMA_VERSION}"\nactors:\n  AC00001:\n    name: Handler\n    type: role\n`;
+    const diff = diffWorkspaces([doc('team.actors.ubml.yaml', actors)], [doc('claims.actors.ubml.yaml', actors)]);
+
+    expect(diff.changes).toEqual([
+      { kind: 'changed', id: 'AC00001', type: 'actor', name: 'Handler', path: 'claims.actors.ubml.yaml', movedFrom: 'team.actors.ubml.yaml', changes: [] },
+    ]);
+    expect(diffWorkspaces([doc('a.actors.ubml.yaml', actors)], [doc('a.actors.ubml.yaml', actors)]).changes).toEqual([]);
+  });
+
+  it('should render a Markdown summary', () => {
+    const diff = diffWorkspaces([doc('claims.process.ubml.yaml', claims)], [doc('claims.process.ubml.yaml', revised)]);
+    const markdown = toDiffMarkdown(diff);
+
+    expect(markdown).toContain('| step | 1 | 0 | 1 |');
+    expect(markdown).toContain('### Removed\n\n- **link ST00001 -> ST00002** Approved (in PR00001, `claims.process.ubml.yaml`)');
+    expect(markdown).toContain('  - `name`: `Assess` → `Assess claim`');
+    expect(toDiffMarkdown({ changes: [], summary: [] }, { title: 'Claims model' })).toBe('## Claims model\n\nNo model changes.\n');
+  });
+
+  describe('revisions', () => {
+    let tempDir: string;
+
+    beforeEach(() => {
+      tempDir = mkdtempSync(join(tmpdir(), 'ubml-test-diff-'));
+    });
+
+    afterEach(() => {
+      rmSync(tempDir, { recursive: true, force: true });
+    });
+
+    it('should compare directories and git revisions', async () => {
+      mkdirSync(join(tempDir, 'model'));
+      writeFileSync(join(tempDir, 'model', 'claims.process.ubml.yaml'), claims);
+      writeFileSync(join(tempDir, 'model', 'broken.process.ubml.yaml'), 'name: [\n');
+      const git = (...args: string[]) =>
+        execFileSync('git', ['-c', 'user.name=Test', '-c', 'user.email=test@example.com', ...args], { cwd: tempDir, stdio: 'pipe' });
+      git('init', '-q');
+      git('add', '-A');
+      git('commit', '-q', '-m', 'Initial model');
+      writeFileSync(join(tempDir, 'model', 'claims.process.ubml.yaml'), revised);
+
+      const revision = await loadRevision('HEAD', { cwd: join(tempDir, 'model') });
+      expect(revision.documents.map((d) => d.path)).toEqual(['claims.process.ubml.yaml']);
+      expect(revision.warnings).toHaveLength(1);
+
+      const diff = await diffRevisions('HEAD', join(tempDir, 'model'), { cwd: join(tempDir, 'model') });
+      expect(diff.summary).toEqual([
+        { type: 'link', added: 1, removed: 1, changed: 1 },
+        { type: 'step', added: 1, removed: 0, changed: 1 },
+      ]);
+
+      await expect(loadRevision('no-such-branch', { cwd: tempDir })).rejects.toThrow('neither a directory nor a git revision');
+    });
+  });
+});
@@ -0,0 +1,158 @@
+/**
+ * Document editor unit tests
+ */
+
+import { describe, it, expect, beforeAll } from 'vitest';
+import { SCHEMA_VERSION } from '../../src/constants.js';
+import { createValidator, editDocument, parse, type Validator } from '../../src/index.js';
+
+const source = `ubml: "${SCHEMA_VERSION}"
+# Claims handling
+processes:
+  PR00001:
+    name: "Claims" # shown in reports
+    description: Handle incoming claims
+    startsWith: [ ST00001 ]
+    steps:
+      ST00001:
+        name: Receive
+        kind: action
+
+      ST00002:
+        name: Pay
+        kind: action
+`;
+
+const claims = () => parse(source, 'claims.process.ubml.yaml').document!;
+
+describe('Document Editor', () => {
+  let validator: Validator;
+
+  beforeAll(async () => {
+    validator = await createValidator();
+  });
+
+  it('should keep comments, quoting and layout around edits', () => {
+    const editor = editDocument(claims())
+      .set('/processes/PR00001/name', 'Claims Handling')
+      .delete('/processes/PR00001/description')
+      .insert('/processes/PR00001/steps', 'ST00003', { name: 'Archive', kind: 'action' })
+      .insert('/processes/PR00001/startsWith', 1, 'ST00002');
+
+    expect(editor.toString()).toBe(`ubml: "${SCHEMA_VERSION}"
+# Claims handling
+processes:
+  PR00001:
+    name: "Claims Handling" # shown in reports
+    startsWith: [ ST00001, ST00002 ]
+    steps:
+      ST00001:
+        name: Receive
+        kind: action
+
+      ST00002:
+        name: Pay
+        kind: action
+      ST00003:
+        name: Archive
+        kind: action
+`);
+    expect(editor.document.content).toMatchObject({
+      processes: { PR00001: { name: 'Claims Handling', startsWith: ['ST00001', 'ST00002'] } },
+    });
+  });
+
+  it('should report updated source locations and leave the original document alone', () => {
+    const original = claims();
+    const editor = editDocument(original)
+      .insert('/processes/PR00001/steps', 'ST00003', { name: 'Archive' })
+      .set('/processes/PR00001/steps/ST00004/name', 'Notify');
+
+    expect(editor.results.map((r) => [r.op, r.path, r.location?.line])).toEqual([
+      ['insert', '/processes/PR00001/steps/ST00003', 17],
+      ['set', '/processes/PR00001/steps/ST00004/name', 19],
+    ]);
+    expect(editor.document.getSourceLocation('/processes/PR00001/steps/ST00002')?.line).toBe(14);
+    expect(original.source).toBe(source);
+    expect(original.yamlDocument!.toString()).toBe(source);
+  });
+
+  it('should re-parse the source of documents without a YAML document', () => {
+    const { yamlDocument: _, ...built } = claims();
+    const editor = editDocument(built).set('/processes/PR00001/name', 'Claims Handling');
+
+    expect(editor.toString()).toBe(source.replace('"Claims" #', '"Claims Handling" #'));
+    expect(() => editDocument({ ...built, source: 'a: [' }).set('/a', 1)).toThrow(/^Cannot edit claims\.process\.ubml\.yaml: /);
+  });
+
+  it('should keep long lines and the indentation of untouched lines', () => {
+    const description = 'Handle incoming claims from intake through assessment, approval and payment, including all escalations';
+    const fourSpaces = `ubml: "${SCHEMA_VERSION}"
+processes:
+    PR00001:
+        name: Claims
+        description: ${description}
+        startsWith: [ST00001]
+        steps:
+            ST00001:
+                name: Receive
+            ST00002:
+                name: Pay
+        links:
+            - from: ST00001
+              to: ST00002
+`;
+    const flushSequences = `ubml: "${SCHEMA_VERSION}"
+processes:
+  PR00001:
+    name: Claims
+    description: ${description}
+    startsWith: [ST00001]
+    links:
+    - from: ST00001
+      to: ST00002
+`;
+
+    for (const wide of [fourSpaces, flushSequences]) {
+      const editor = editDocument(parse(wide, 'claims.process.ubml.yaml').document!).set('/processes/PR00001/name', 'Claims Handling');
+
+      expect(editor.changed).toBe(true);
+      expect(editor.toString()).toBe(wide.replace('name: Claims\n', 'name: Claims Handling\n'));
+    }
+  });
+
+  it('should leave the source alone when edits change nothing', () => {
+    const editor = editDocument(claims()).set('/processes/PR00001/name', 'Claims').set('/processes/PR00001/startsWith/0', 'ST00001');
+
+    expect(editor.results.map((r) => r.changed)).toEqual([false, false]);
+    expect(editor.changed).toBe(false);
+    expect(editor.toString()).toBe(source);
+
+    const undone = editDocument(claims()).delete('/processes/PR00001/startsWith/0').insert('/processes/PR00001/startsWith', 0, 'ST00001');
+    expect(undone.results.map((r) => r.changed)).toEqual([true, true]);
+    expect(undone.changed).toBe(false);
+  });
+
+  it('should validate each edit against the schema', () => {
+    const editor = editDocument(claims(), { validator })
+      .set('/processes/PR00001/steps/ST00001/kind', 'bogus')
+      .set('/processes/PR00001/steps/ST00001/kind', 'action');
+
+    expect(editor.results[0].errors.map((e) => [e.path, e.code])).toContainEqual(['/processes/PR00001/steps/ST00001/kind', 'enum']);
+    expect(editor.results[1].errors).toEqual([]);
+    expect(editor.errors).toEqual([]);
+
+    const unknown = editDocument(claims(), { validator }).insert('/processes/PR00001', 'owners', ['AC00001']);
+    expect(unknown.results[0].errors.map((e) => e.code)).toContain('additionalProperties');
+  });
+
+  it('should reject edits of missing paths', () => {
+    const editor = editDocument(claims());
+
+    expect(() => editor.delete('/processes/PR00009')).toThrow('Path not found: /processes/PR00009');
+    expect(() => editor.insert('/processes/PR00001/steps', 'ST00001', {})).toThrow('Key already exists');
+    expect(() => editor.insert('/processes/PR00001/name', 'x', 1)).toThrow('Not a map or sequence');
+    expect(editor.results).toEqual([]);
+    expect(editor.toString()).toBe(source);
+  });
+});
@@ -0,0 +1,221 @@
+/**
+ * Expression validation tests (guards, link conditions, computed durations)
+ */
+
+import { describe, it, expect } from 'vitest';
+import { SCHEMA_VERSION } from '../../src/constants.js';
+import { checkExpression, parseExpression, parse, validate, validateDocuments } from '../../src/index.js';
+
+const scenariosYaml = `ubml: "${SCHEMA_VERSION}"
+scenarios:
+  SC00001:
+    name: Base
+    workAttributes:
+      orderValue: { type: numeric, distribution: fixed, value: 1000 }
+      isHighValue: { type: boolean, expr: "orderValue > 50000" }
+      region:
+        type: categorical
+        values:
+          - { name: North, probability: 0.5 }
+          - { name: South, probability: 0.5 }
+    workMix:
+      - name: Export
+        probability: 1
+        attributes:
+          region:
+            type: categorical
+            values:
+              - { name: Abroad, probability: 1 }
+`;
+
+function processYaml(step: string, link = ''): string {
+  return `ubml: "${SCHEMA_VERSION}"
+processes:
+  PR00001:
+    name: Orders
+    steps:
+      ST00001:
+        name: Check
+        kind: decision
+      ST00002:
+        name: Approve
+        kind: action
+${step}
+    links:
+      - from: ST00001
+        to: ST00002
+${link}`;
+}
+
+function validateProcess(step: string, link = '', withScenarios = true) {
+  const documents = [parse(processYaml(step, link), 'orders.process.ubml.yaml').document!];
+  if (withScenarios) {
+    documents.push(parse(scenariosYaml, 'base.scenarios.ubml.yaml').document!);
+  }
+  const result = validateDocuments(documents, { suppressUnusedWarnings: true });
+  return {
+    errors: result.errors.filter((error) => error.code?.startsWith('ubml/expression')),
+    warnings: result.warnings.filter((warning) => warning.code?.startsWith('ubml/expression')),
+  };
+}
+
+describe('Expression Validation', () => {
+  describe('checkExpression', () => {
+    const attributes = {
+      orderValue: { type: 'number' as const },
+      isHighValue: { type: 'boolean' as const },
+      region: { type: 'string' as const, values: ['North', 'South'] },
+    };
+    const check = (source: string, expected?: 'number' | 'boolean') =>
+      checkExpression(parseExpression(source).ast!, attributes, { expected });
+
+    it('should infer types', () => {
+      expect(check('orderValue * 2').type).toBe('number');
+      expect(check("isHighValue && region == 'North'").type).toBe('boolean');
+      expect(check("orderValue > 10 ? 'big' : 'small'").type).toBe('string');
+    });
+
+    it('should accept well-typed expressions', () => {
+      expect(check("orderValue > 50000 && region != 'South'", 'boolean').diagnostics).toEqual([]);
+      expect(check('isHighValue ? d(2) : h(4)', 'number').diagnostics).toEqual([]);
+      expect(check("customer.segment == 'enterprise'", 'boolean').diagnostics).toEqual([]);
+    });
+
+    it('should report numeric/boolean mismatches', () => {
+      expect(check('orderValue && isHighValue').diagnostics[0]).toMatchObject({
+        code: 'ubml/expression-type-mismatch',
+        message: 'Operator "&&" expects boolean, but "orderValue" is number',
+        column: 1,
+      });
+      expect(check('isHighValue * 2').diagnostics[0].message).toBe('Operator "*" expects number, but "isHighValue" is boolean');
+      expect(check('orderValue == true').diagnostics[0].message).toBe('Comparing number "orderValue" with boolean true');
+      expect(check('orderValue', 'boolean').diagnostics[0].message).toBe(
+        'Expected a boolean result, but the expression evaluates to number'
+      );
+    });
+
+    it('should report categorical values not declared', () => {
+      const [diagnostic] = check("'Est' == region").diagnostics;
+
+      expect(diagnostic).toMatchObject({ code: 'ubml/expression-invalid-value', column: 1 });
+      expect(diagnostic.message).toBe('"Est" is not a value of categorical attribute "region" (North, South)');
+    });
+
+    it('should report unknown identifiers', () => {
+      const [diagnostic] = check('isHighValu').diagnostics;
+
+      expect(diagnostic).toMatchObject({ code: 'ubml/expression-unknown-identifier', identifier: 'isHighValu' });
+    });
+  });
+
+  describe('validateDocuments', () => {
+    it('should report unknown identifiers in guards with suggestions and position', () => {
+      const { errors } = validateProcess('        guard: "isHighValu"');
+
+      expect(errors).toHaveLength(1);
+      expect(errors[0]).toMatchObject({
+        code: 'ubml/expression-unknown-identifier',
+        path: 'processes.PR00001.steps.ST00002.guard',
+        line: 12,
+        column: 17,
+        suggestions: ['isHighValue'],
+      });
+      expect(errors[0].message).toContain('Guard: Unknown identifier "isHighValu"');
+      expect(errors[0].message).toContain('did you mean: isHighValue?');
+    });
+
+    it('should check link conditions', () => {
+      const { errors } = validateProcess('', "        condition: region == 'West'");
+
+      expect(errors).toHaveLength(1);
+      expect(errors[0]).toMatchObject({
+        code: 'ubml/expression-invalid-value',
+        path: 'processes.PR00001.links[0].condition',
+        line: 16,
+        column: 30,
+      });
+      expect(errors[0].message).toContain('(North, South, Abroad)');
+    });
+
+    it('should locate errors in multi-line literal expressions', () => {
+      const { errors } = validateProcess('        guard: |\n          isHighValue &&\n            isHighValu');
+
+      expect(errors).toHaveLength(1);
+      expect(errors[0]).toMatchObject({ code: 'ubml/expression-unknown-identifier', line: 14, column: 13 });
+    });
+
+    it('should report the start of folded and escaped expressions', () => {
+      const folded = validateProcess('        guard: >\n          isHighValue &&\n          isHighValu').errors;
+      const escaped = validateProcess('        guard: "region == \\"North\\" && isHighValu"').errors;
+
+      expect(folded).toHaveLength(1);
+      expect(folded[0]).toMatchObject({ line: 12, column: 16 });
+      expect(escaped).toHaveLength(1);
+      expect(escaped[0]).toMatchObject({ line: 12, column: 16 });
+    });
+
+    it('should check duration expressions', () => {
+      const { errors } = validateProcess('        duration: { expr: "isHighValue" }');
+
+      expect(errors).toHaveLength(1);
+      expect(errors[0].code).toBe('ubml/expression-type-mismatch');
+      expect(errors[0].message).toContain('Duration expression: Expected a number result');
+    });
+
+    it('should only check expressions in Duration properties as durations', () => {
+      expect(validateProcess('        custom: { approvedBy: { expr: "isHighValue" } }').errors).toEqual([]);
+      expect(validateProcess('', '        schedule: { lag: { expr: "isHighValue" } }').errors.map((e) => e.path)).toEqual([
+        'processes.PR00001.links[0].schedule.lag.expr',
+      ]);
+    });
+
+    it('should report syntax errors with position', () => {
+      const { errors } = validateProcess('        effort: { expr: "orderValue * * 2" }');
+
+      expect(errors).toHaveLength(1);
+      expect(errors[0]).toMatchObject({ code: 'ubml/expression-syntax', line: 12, column: 39 });
+    });
+
+    it('should check work attribute expressions against their declared type', () => {
+      const scenarios = parse(
+        scenariosYaml.replace('expr: "orderValue > 50000"', 'expr: "orderValue * 2"'),
+        'base.scenarios.ubml.yaml'
+      ).document!;
+
+      const result = validateDocuments([scenarios], { suppressUnusedWarnings: true });
+
+      expect(result.errors).toHaveLength(1);
+      expect(result.errors[0].path).toBe('scenarios.SC00001.workAttributes.isHighValue.expr');
+      expect(result.errors[0].message).toContain('Work attribute "isHighValue": Expected a boolean result');
+    });
+
+    it('should accept valid expressions', () => {
+      const { errors, warnings } = validateProcess(
+        '        guard: "isHighValue && region == \'North\'"\n        duration: { expr: "orderValue > 100 ? d(2) : h(4)" }',
+        '        condition: "!isHighValue"'
+      );
+
+      expect(errors).toEqual([]);
+      expect(warnings).toEqual([]);
+    });
+
+    it('should only warn about unknown identifiers when no work attributes are declared', () => {
+      const { errors, warnings } = validateProcess('        guard: "isHighValue"', '', false);
+
+      expect(errors).toEqual([]);
+      expect(warnings).toHaveLength(1);
+      expect(warnings[0].code).toBe('ubml/expression-unknown-identifier');
+    });
+
+    it('should surface expression errors with line and column from validate()', async () => {
+      const process = parse(processYaml('        guard: "isHighValu"'), 'orders.process.ubml.yaml').document!;
+      const scenarios = parse(scenariosYaml, 'base.scenarios.ubml.yaml').document!;
+
+      const result = await validate([process, scenarios]);
+      const error = result.errors.find((e) => e.code === 'ubml/expression-unknown-identifier');
+
+      expect(result.valid).toBe(false);
+      expect(error).toMatchObject({ line: 12, column: 17 });
+    });
+  });
+});
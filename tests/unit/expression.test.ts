@@ -0,0 +1,173 @@
+/**
+ * Expression engine unit tests (ts-subset-v1)
+ */
+
+import { describe, it, expect } from 'vitest';
+import { evaluateExpression, parseDuration, parseExpression } from '../../src/index.js';
+
+describe('Expression Engine', () => {
+  describe('parseExpression', () => {
+    it('should build an AST with positions', () => {
+      const result = parseExpression("orderValue > 50000 && customer.segment == 'enterprise'");
+
+      expect(result.ok).toBe(true);
+      expect(result.ast).toMatchObject({
+        type: 'Logical',
+        operator: '&&',
+        left: { type: 'Binary', operator: '>', left: { type: 'Identifier', name: 'orderValue' } },
+        right: {
+          type: 'Binary',
+          operator: '==',
+          left: { type: 'Member', property: 'segment', object: { type: 'Identifier', name: 'customer' } },
+          right: { type: 'Literal', value: 'enterprise', column: 43 },
+        },
+      });
+    });
+
+    it('should respect operator precedence', () => {
+      expect(evaluateExpression('1 + 2 * 3')).toBe(7);
+      expect(evaluateExpression('(1 + 2) * 3')).toBe(9);
+      expect(evaluateExpression('10 - 4 - 3')).toBe(3);
+      expect(evaluateExpression('true || false && false')).toBe(true);
+      expect(evaluateExpression('1 < 2 == true')).toBe(true);
+    });
+
+    it('should report syntax errors with line and column', () => {
+      const result = parseExpression('a +\n  * b');
+
+      expect(result.ok).toBe(false);
+      expect(result.errors[0]).toMatchObject({
+        code: 'ubml/expression-syntax',
+        message: 'Unexpected "*"',
+        line: 2,
+        column: 3,
+        offset: 6,
+      });
+    });
+
+    it('should report unterminated strings and unbalanced parentheses', () => {
+      expect(parseExpression("status == 'open").errors[0].message).toBe('Unterminated string literal');
+      expect(parseExpression('max(a, b').errors[0]).toMatchObject({
+        message: 'Expected ")" but found end of expression',
+        column: 9,
+      });
+    });
+
+    it('should suggest duration helpers for unit suffixes', () => {
+      expect(parseExpression('2d + 1').errors[0].message).toContain('d(2)');
+    });
+
+    it.each([
+      ['x = 1', 'Assignments are not allowed'],
+      ['x += 1', 'Assignments are not allowed'],
+      ['x++', 'Assignments are not allowed'],
+      ['new Date()', "'new' is not allowed"],
+      ['class', 'Classes are not allowed'],
+      ['import', 'Imports are not allowed'],
+      ['for', 'Loops are not allowed'],
+      ['if', 'If statements are not allowed'],
+      ['window.location', 'Global access is not allowed'],
+      ['globalThis', 'Global access is not allowed'],
+      ['a.constructor', 'Access to "constructor" is not allowed'],
+      ['a; b', 'Statements are not allowed'],
+      ['(x) => x', 'Arrow functions are not allowed'],
+      ['a.b()', 'Method calls are not allowed'],
+      ['a[0]', 'Computed property access is not allowed'],
+      ['`x`', 'Template literals are not allowed'],
+    ])('should reject %s', (source, message) => {
+      const result = parseExpression(source);
+
+      expect(result.ok).toBe(false);
+      expect(result.errors[0].code).toBe('ubml/expression-disallowed');
+      expect(result.errors[0].message).toContain(message);
+    });
+
+    it('should reject unknown functions and wrong arity', () => {
+      expect(parseExpression('sqrt(4)').errors[0].message).toContain('Unknown function "sqrt"');
+      expect(parseExpression('tri(1, 2)').errors[0]).toMatchObject({
+        message: 'tri() takes tri(min, mode, max), got 2 argument(s)',
+        column: 1,
+      });
+    });
+  });
+
+  describe('evaluateExpression', () => {
+    it('should evaluate guards against a scope', () => {
+      const scope = { orderValue: 72000, isHighValue: true, customer: { segment: 'enterprise' } };
+
+      expect(evaluateExpression("orderValue > 50000 && customer.segment == 'enterprise'", scope)).toBe(true);
+      expect(evaluateExpression('isHighValue', scope)).toBe(true);
+      expect(evaluateExpression('!isHighValue || orderValue < 100', scope)).toBe(false);
+      expect(evaluateExpression("orderValue >= 100000 ? 'large' : 'medium'", scope)).toBe('medium');
+      expect(evaluateExpression('customer.region', scope)).toBeNull();
+    });
+
+    it('should evaluate built-in functions', () => {
+      expect(evaluateExpression('clamp(15, 0, 10)')).toBe(10);
+      expect(evaluateExpression('round(2.345, 2)')).toBe(2.35);
+      expect(evaluateExpression('round(2.5)')).toBe(3);
+      expect(evaluateExpression('floor(2.7) + ceil(2.1)')).toBe(5);
+      expect(evaluateExpression('max(1, 5, 3)')).toBe(5);
+      expect(evaluateExpression('min(4, 2, 3)')).toBe(2);
+    });
+
+    it('should evaluate duration helpers in working hours', () => {
+      expect(evaluateExpression('min(30)')).toBe(0.5);
+      expect(evaluateExpression('h(2) + d(1)')).toBe(10);
+      expect(evaluateExpression('wk(1)')).toBe(40);
+      expect(evaluateExpression('mo(1)')).toBe(160);
+      expect(evaluateExpression('baseEffort * 1.5', { baseEffort: d(2) })).toBe(24);
+      expect(parseDuration('1.5d')).toBe(12);
+    });
+
+    it('should return the mean of tri() without a random source', () => {
+      expect(evaluateExpression('tri(d(1), d(2), d(3))')).toBe(16);
+    });
+
+    it('should sample tri() from the random source', () => {
+      expect(evaluateExpression('tri(1, 2, 4)', {}, { random: () => 0 })).toBe(1);
+      expect(evaluateExpression('tri(1, 2, 4)', {}, { random: () => 1 })).toBe(4);
+      const sample = evaluateExpression('tri(1, 2, 4)', {}, { random: () => 0.5 }) as number;
+      expect(sample).toBeGreaterThan(1);
+      expect(sample).toBeLessThan(4);
+    });
+
+    it('should return the mean of lognormal() without a random source', () => {
+      expect(evaluateExpression('lognormal(h(6), h(3))')).toBe(6);
+      expect(evaluateExpression('lognormal(6, 0)', {}, { random: () => 0.3 })).toBeCloseTo(6);
+      expect(() => evaluateExpression('lognormal(0, 1)')).toThrow('lognormal() expects mean > 0 and stdDev >= 0');
+    });
+
+    it('should accept a parsed AST', () => {
+      const { ast } = parseExpression('a * 2');
+
+      expect(evaluateExpression(ast!, { a: 3 })).toBe(6);
+      expect(evaluateExpression(ast!, { a: 4 })).toBe(8);
+    });
+
+    it('should report unknown identifiers with their position', () => {
+      expect(() => evaluateExpression('a + missing', { a: 1 })).toThrow('Unknown identifier "missing" at line 1, column 5');
+    });
+
+    it('should not resolve inherited properties', () => {
+      expect(() => evaluateExpression('toString', {})).toThrow('Unknown identifier "toString"');
+      expect(evaluateExpression('customer.hasOwnProperty', { customer: {} })).toBeNull();
+    });
+
+    it('should report type errors', () => {
+      expect(() => evaluateExpression("a * 'x'", { a: 1 })).toThrow('Operator "*" expects a number, got string at line 1, column 5');
+      expect(() => evaluateExpression('a.b', { a: null })).toThrow('Cannot read property "b" of null');
+      expect(() => evaluateExpression('tri(3, 2, 1)')).toThrow('tri() expects min <= mode <= max');
+      expect(() => evaluateExpression('a +')).toThrow('Unexpected end of expression at line 1, column 4');
+    });
+
+    it('should use strict equality and concatenate strings', () => {
+      expect(evaluateExpression("1 == '1'")).toBe(false);
+      expect(evaluateExpression("'ID-' + 42")).toBe('ID-42');
+    });
+  });
+});
+
+function d(days: number): number {
+  return days * 8;
+}
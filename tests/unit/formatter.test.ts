@@ -0,0 +1,113 @@
+/**
+ * Formatter unit tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import { SCHEMA_VERSION } from '../../src/constants.js';
+import { format, parse } from '../../src/index.js';
+
+describe('Formatter', () => {
+  it('should order keys canonically and keep comments with their nodes', () => {
+    const source = `# Claims handling
+ubml: "${SCHEMA_VERSION}"
+processes:
+  PR00001:
+    steps:
+      # Second step
+      ST00002:
+        duration: 2h   # estimate
+        name: 'Pay'
+      ST00001:
+        description: "Check the claim"
+        kind: action
+        name: Assess
+    name: Claims
+`;
+
+    expect(format(source, { filename: 'claims.process.ubml.yaml' })).toBe(`# Claims handling
+ubml: "${SCHEMA_VERSION}"
+processes:
+  PR00001:
+    name: Claims
+    steps:
+      ST00001:
+        name: Assess
+        kind: action
+        description: Check the claim
+      # Second step
+      ST00002:
+        name: Pay
+        duration: 2h # estimate
+`);
+  });
+
+  it('should sort ID-keyed maps numerically and keep free-form maps as written', () => {
+    const source = `ubml: "${SCHEMA_VERSION}"
+entities:
+  EN00010:
+    name: Policy
+  EN00002:
+    name: Claim
+    attributes:
+      status:
+        type: string
+      amount:
+        type: decimal
+`;
+
+    const formatted = format(source, { filename: 'model.entities.ubml.yaml' });
+    expect(formatted.indexOf('EN00002')).toBeLessThan(formatted.indexOf('EN00010'));
+    expect(formatted.indexOf('status:')).toBeLessThan(formatted.indexOf('amount:'));
+  });
+
+  it('should normalize mixed quoting to one style', () => {
+    const source = `ubml: "${SCHEMA_VERSION}"
+processes:
+  "PR00001":
+    name: "Proc"
+    description: 'Owner: claims team'
+    steps:
+      ST00001:
+        name: 'Second'
+        kind: "action"
+`;
+
+    expect(format(source, { filename: 'claims.process.ubml.yaml' })).toBe(`ubml: "${SCHEMA_VERSION}"
+processes:
+  PR00001:
+    name: Proc
+    description: "Owner: claims team"
+    steps:
+      ST00001:
+        name: Second
+        kind: action
+`);
+  });
+
+  it('should keep quotes that change meaning and preserve the document', () => {
+    const source = `ubml: '${SCHEMA_VERSION}'
+name: "true"
+description: "owner: claims team"
+tags: ["", "#x", "plain"]
+`;
+
+    const formatted = format(source);
+    expect(formatted).toBe(`ubml: "${SCHEMA_VERSION}"
+name: "true"
+description: "owner: claims team"
+tags: [ "", "#x", plain ]
+`);
+    expect(parse(formatted, 'workspace.ubml.yaml').document?.content).toEqual(
+      parse(source, 'workspace.ubml.yaml').document?.content
+    );
+  });
+
+  it('should be idempotent and reject invalid YAML', () => {
+    const source = `ubml: "${SCHEMA_VERSION}"\nactors:\n    AC00002:\n        type: role\n        name: B\n    AC00001:\n        name: A\n`;
+
+    const formatted = format(source);
+    expect(formatted).toBe(`ubml: "${SCHEMA_VERSION}"\nactors:\n  AC00001:\n    name: A\n  AC00002:\n    name: B\n    type: role\n`);
+    expect(format(formatted)).toBe(formatted);
+    expect(() => format('a: [b')).toThrow('Cannot format invalid YAML');
+  });
+});
@@ -0,0 +1,266 @@
+/**
+ * Language server unit tests
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { PassThrough } from 'stream';
+import { SCHEMA_VERSION } from '../../src/constants.js';
+import {
+  findIdOccurrences,
+  getCodeActions,
+  getCompletions,
+  getDefinition,
+  getHover,
+  getReferences,
+  type WorkspaceFile,
+} from '../../src/lsp/language-service.js';
+import { createLanguageServer } from '../../src/lsp/server.js';
+import { readMessages, writeMessage, type Message } from '../../src/lsp/protocol.js';
+import type { FileSystem } from '../../src/node/fs.js';
+
+const actors: WorkspaceFile = {
+  uri: 'file:///work/team.actors.ubml.yaml',
+  text: `ubml: "${SCHEMA_VERSION}"
+actors:
+  AC00001:
+    name: Claims Handler
+    type: role
+    description: Assesses incoming claims
+  AC00002:
+    name: Claims System
+    type: system
+`,
+};
+
+const claims: WorkspaceFile = {
+  uri: 'file:///work/claims.process.ubml.yaml',
+  text: `ubml: "${SCHEMA_VERSION}"
+processes:
+  PR00001:
+    name: Claims
+    owner: AC00001
+    steps:
+      ST00001:
+        name: Assess
+        kind: action
+        systems:
+          - AC00002
+      ST00002:
+        name: Pay
+    links:
+      - from: ST00001
+        to: ST00002
+`,
+};
+
+const files = [actors, claims];
+
+describe('Language Server', () => {
+  describe('language service', () => {
+    it('should find ID definitions and references', () => {
+      expect(findIdOccurrences(claims.text).map((o) => [o.id, o.definition, o.range.start.line])).toEqual([
+        ['PR00001', true, 2],
+        ['AC00001', false, 4],
+        ['ST00001', true, 6],
+        ['AC00002', false, 10],
+        ['ST00002', true, 11],
+        ['ST00001', false, 14],
+        ['ST00002', false, 15],
+      ]);
+    });
+
+    it('should go to definitions and find references across files', () => {
+      const owner = { line: 4, character: 12 };
+
+      expect(getDefinition(claims, files, owner)).toEqual({
+        uri: actors.uri,
+        range: { start: { line: 2, character: 2 }, end: { line: 2, character: 9 } },
+      });
+      expect(getReferences(actors, files, { line: 2, character: 4 }).map((l) => [l.uri, l.range.start.line])).toEqual([
+        [actors.uri, 2],
+        [claims.uri, 4],
+      ]);
+      expect(getReferences(actors, files, { line: 2, character: 4 }, false)).toHaveLength(1);
+      expect(getDefinition(claims, files, { line: 3, character: 10 })).toBeNull();
+    });
+
+    it('should describe IDs and properties on hover', () => {
+      expect(getHover(claims, files, { line: 4, character: 12 })?.contents.value).toBe(
+        '**AC00001** (actor) Claims Handler\n\nAssesses incoming claims\n\nDefined in team.actors.ubml.yaml:3'
+      );
+
+      const kind = getHover(claims, files, { line: 8, character: 9 })?.contents.value;
+      expect(kind).toMatch(/^\*\*kind\*\*: `enum`/);
+      expect(kind).toContain('`decision`');
+
+      expect(getHover(claims, files, { line: 1, character: 3 })?.contents.value).toMatch(/^\*\*processes\*\* \(PR IDs\)/);
+    });
+
+    it('should complete IDs of the type a reference field accepts', () => {
+      const editing: WorkspaceFile = {
+        uri: claims.uri,
+        text: claims.text.replace('          - AC00002\n', '          - AC\n').replace('        to: ST00002\n', '        to: \n'),
+      };
+
+      const systems = getCompletions(editing, [actors, editing], { line: 10, character: 14 });
+      expect(systems.map((item) => [item.label, item.detail])).toEqual([
+        ['AC00001', 'Claims Handler (actor)'],
+        ['AC00002', 'Claims System (actor)'],
+      ]);
+      expect(systems[0].textEdit).toEqual({
+        range: { start: { line: 10, character: 12 }, end: { line: 10, character: 14 } },
+        newText: 'AC00001',
+      });
+
+      const linkTarget = getCompletions(editing, [actors, editing], { line: 15, character: 12 });
+      expect(linkTarget.map((item) => item.label)).toEqual(['ST00001', 'ST00002']);
+
+      expect(getCompletions(editing, [actors, editing], { line: 7, character: 14 })).toEqual([]);
+    });
+
+    it('should offer quick fixes from enum value mistake hints', () => {
+      const mistaken: WorkspaceFile = { uri: actors.uri, text: actors.text.replace('type: role', 'type: user') };
+
+      const actions = getCodeActions(mistaken, { start: { line: 4, character: 0 }, end: { line: 4, character: 14 } });
+      expect(actions.map((action) => [action.title, action.isPreferred])).toEqual([
+        ["Change type to 'person'", true],
+        ["Change type to 'role'", false],
+      ]);
+      expect(actions[0].edit.changes[actors.uri]).toEqual([
+        { range: { start: { line: 4, character: 10 }, end: { line: 4, character: 14 } }, newText: 'person' },
+      ]);
+      expect(getCodeActions(actors, { start: { line: 0, character: 0 }, end: { line: 8, character: 0 } })).toEqual([]);
+    });
+  });
+
+  describe('server', () => {
+    function memoryFS(contents: Record<string, string>): FileSystem {
+      return {
+        readFile: async (path) => contents[path],
+        writeFile: async () => {},
+        glob: async (pattern) => Object.keys(contents).filter((path) => path.endsWith(pattern.replace('**/*', '').replace('**/', '/'))),
+        exists: async (path) => path in contents,
+      };
+    }
+
+    it('should publish workspace diagnostics and answer requests', async () => {
+      const sent: Message[] = [];
+      let exitCode: number | undefined;
+      const server = createLanguageServer({
+        send: (message) => sent.push(message),
+        onExit: (code) => (exitCode = code),
+        fs: memoryFS({ '/work/team.actors.ubml.yaml': actors.text, '/work/claims.process.ubml.yaml': claims.text }),
+      });
+
+      await server.handle({ jsonrpc: '2.0', id: 1, method: 'initialize', params: { rootUri: 'file:///work' } });
+      expect(sent[0]).toMatchObject({ id: 1, result: { capabilities: { hoverProvider: true, definitionProvider: true } } });
+
+      await server.handle({ jsonrpc: '2.0', method: 'initialized', params: {} });
+      const published = sent.filter((m) => m.method === 'textDocument/publishDiagnostics');
+      expect(published.map((m) => (m.params as { uri: string }).uri).sort()).toEqual([claims.uri, actors.uri]);
+
+      // Pointing systems at a role is reported in the edited file
+      sent.length = 0;
+      await server.handle({
+        jsonrpc: '2.0',
+        method: 'textDocument/didOpen',
+        params: { textDocument: { uri: claims.uri, text: claims.text.replace('- AC00002', '- AC00001') } },
+      });
+      const diagnostics = sent.find((m) => (m.params as { uri: string }).uri === claims.uri)!.params as {
+        diagnostics: { range: { start: { line: number } }; severity: number; code: string; message: string }[];
+      };
+      expect(diagnostics.diagnostics).toContainEqual(
+        expect.objectContaining({
+          severity: 1,
+          code: 'ubml/reference-type-mismatch',
+          message: '"systems" must reference a system actor, but AC00001 is a role actor',
+          range: expect.objectContaining({ start: { line: 10, character: 12 } }),
+        })
+      );
+
+      sent.length = 0;
+      await server.handle({
+        jsonrpc: '2.0',
+        id: 2,
+        method: 'textDocument/definition',
+        params: { textDocument: { uri: claims.uri }, position: { line: 10, character: 14 } },
+      });
+      expect(sent).toEqual([{ jsonrpc: '2.0', id: 2, result: { uri: actors.uri, range: expect.any(Object) } }]);
+
+      await server.handle({ jsonrpc: '2.0', id: 3, method: 'workspace/symbol', params: {} });
+      expect(sent[1]).toMatchObject({ id: 3, error: { code: -32601 } });
+
+      await server.handle({ jsonrpc: '2.0', id: 4, method: 'shutdown' });
+      await server.handle({ jsonrpc: '2.0', method: 'exit' });
+      expect(exitCode).toBe(0);
+    });
+
+    it('should keep unsaved buffers in memory and debounce changes', async () => {
+      vi.useFakeTimers();
+      try {
+        const sent: Message[] = [];
+        const server = createLanguageServer({
+          send: (message) => sent.push(message),
+          fs: memoryFS({ '/work/team.actors.ubml.yaml': actors.text }),
+          changeDelay: 100,
+        });
+        await server.handle({ jsonrpc: '2.0', id: 1, method: 'initialize', params: { rootUri: 'file:///work' } });
+        await server.handle({ jsonrpc: '2.0', method: 'initialized', params: {} });
+
+        sent.length = 0;
+        const uri = 'untitled:Untitled-1';
+        await server.handle({ jsonrpc: '2.0', method: 'textDocument/didOpen', params: { textDocument: { uri, text: actors.text } } });
+        expect(sent.map((m) => (m.params as { uri: string }).uri)).toContain(uri);
+
+        sent.length = 0;
+        for (const text of ['ubml: "1.2"\n', 'ubml: "1.2"\nactors: {}\n']) {
+          await server.handle({
+            jsonrpc: '2.0',
+            method: 'textDocument/didChange',
+            params: { textDocument: { uri }, contentChanges: [{ text }] },
+          });
+        }
+        expect(sent).toEqual([]);
+        await vi.advanceTimersByTimeAsync(100);
+        expect(sent.filter((m) => (m.params as { uri: string }).uri === uri)).toHaveLength(1);
+
+        sent.length = 0;
+        await server.handle({ jsonrpc: '2.0', method: 'textDocument/didClose', params: { textDocument: { uri } } });
+        expect(sent.map((m) => (m.params as { uri: string }).uri)).toContain(uri);
+        expect(sent.find((m) => (m.params as { uri: string }).uri === uri)!.params).toEqual({ uri, diagnostics: [] });
+      } finally {
+        vi.useRealTimers();
+      }
+    });
+
+    it('should report failing messages without stopping', async () => {
+      const sent: Message[] = [];
+      const server = createLanguageServer({ send: (message) => sent.push(message) });
+
+      await server.handle({ jsonrpc: '2.0', method: 'textDocument/didOpen', params: {} });
+      expect(sent[0]).toMatchObject({ method: 'window/logMessage', params: { type: 1 } });
+      expect((sent[0].params as { message: string }).message).toMatch(/^Failed to handle textDocument\/didOpen: /);
+
+      await server.handle({ jsonrpc: '2.0', id: 1, method: 'textDocument/hover', params: {} });
+      expect(sent[1]).toMatchObject({ id: 1, error: { code: -32603 } });
+    });
+
+    it('should frame messages with Content-Length headers', async () => {
+      const stream = new PassThrough();
+      const received: Message[] = [];
+      readMessages(stream, (message) => received.push(message));
+
+      writeMessage(stream, { jsonrpc: '2.0', id: 1, method: 'initialize', params: { rootUri: 'file:///wörk' } });
+      const framed = `${JSON.stringify({ jsonrpc: '2.0', method: 'initialized' })}`;
+      const header = `Content-Length: ${Buffer.byteLength(framed)}\r\n\r\n`;
+      stream.write(header + framed.slice(0, 10));
+      stream.write(framed.slice(10));
+      await new Promise((resolve) => setImmediate(resolve));
+
+      expect(received).toEqual([
+        { jsonrpc: '2.0', id: 1, method: 'initialize', params: { rootUri: 'file:///wörk' } },
+        { jsonrpc: '2.0', method: 'initialized' },
+      ]);
+    });
+  });
+});
@@ -0,0 +1,133 @@
+/**
+ * Semantic merge unit tests
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import { SCHEMA_VERSION } from '../../src/constants.js';
+import { mergeDocuments } from '../../src/index.js';
+import { mergeFiles } from '../../src/node/index.js';
+
+const base = `ubml: "${SCHEMA_VERSION}"
+processes:
+  PR00001:
+    name: Claims
+    steps:
+      # Triage happens on intake
+      ST00001:
+        name: Assess
+        kind: action
+      ST00002:
+        name: Pay
+    links:
+      - from: ST00001
+        to: ST00002
+`;
+
+const addStep = (text: string, id: string, name: string) =>
+  text.replace('        name: Pay\n', `        name: Pay\n      ${id}:\n        name: ${name}\n`);
+
+describe('Semantic Merge', () => {
+  it('should merge independent edits to different steps', () => {
+    const ours = base.replace('name: Assess', 'name: Assess claim');
+    const theirs = base.replace('name: Pay', 'name: Pay out').replace('kind: action', 'kind: decision');
+    const result = mergeDocuments(base, ours, theirs);
+
+    expect(result.conflicts).toEqual([]);
+    expect(result.text).toBe(base.replace('name: Assess', 'name: Assess claim').replace('name: Pay', 'name: Pay out').replace('kind: action', 'kind: decision'));
+  });
+
+  it('should leave long untouched lines as they are', () => {
+    const long = base.replace('    name: Claims\n', '    name: Claims\n    description: Handle incoming claims from intake through assessment, approval and payment, with escalations\n');
+    const ours = long.replace('name: Assess', 'name: Assess claim');
+    const theirs = long.replace('kind: action', 'kind: decision');
+
+    expect(mergeDocuments(long, ours, theirs).text).toBe(ours.replace('kind: action', 'kind: decision'));
+
+    const conflicting = mergeDocuments(long, ours, long.replace('name: Assess', 'name: Triage')).text;
+    expect(conflicting).toContain('\n    description: Handle incoming claims from intake through assessment, approval and payment, with escalations\n');
+  });
+
+  it('should renumber IDs added on both sides for different elements', () => {
+    const ours = addStep(base, 'ST00003', 'Archive');
+    const theirs = addStep(base, 'ST00003', 'Notify').replace('        to: ST00002\n', '        to: ST00002\n      - from: ST00002\n        to: ST00003\n');
+    const result = mergeDocuments(base, ours, theirs);
+
+    expect(result.conflicts).toEqual([]);
+    expect(result.renumbered).toEqual([{ from: 'ST00003', to: 'ST00004' }]);
+    expect(result.text).toContain('      ST00003:\n        name: Archive\n      ST00004:\n        name: Notify\n');
+    expect(result.text).toContain('      - from: ST00002\n        to: ST00004\n');
+
+    // The same element added on both sides is not duplicated
+    expect(mergeDocuments(base, ours, addStep(base, 'ST00003', 'Archive')).text).toBe(ours);
+  });
+
+  it('should mark conflicts around the smallest element', () => {
+    const ours = base.replace('kind: action', 'kind: decision').replace('name: Pay', 'name: Pay out');
+    const theirs = base.replace('kind: action', 'kind: wait');
+    const result = mergeDocuments(base, ours, theirs, { theirsLabel: 'feature' });
+
+    expect(result.conflicts).toEqual([{ path: '/processes/PR00001/steps/ST00001', properties: ['/processes/PR00001/steps/ST00001/kind'] }]);
+    expect(result.text).toBe(`ubml: "${SCHEMA_VERSION}"
+processes:
+  PR00001:
+    name: Claims
+    steps:
+<<<<<<< ours
+      # Triage happens on intake
+      ST00001:
+        name: Assess
+        kind: decision
+=======
+      # Triage happens on intake
+      ST00001:
+        name: Assess
+        kind: wait
+>>>>>>> feature
+      ST00002:
+        name: Pay out
+    links:
+      - from: ST00001
+        to: ST00002
+`);
+
+    const deleted = mergeDocuments(base, base.replace('      ST00002:\n        name: Pay\n', ''), base.replace('name: Pay', 'name: Pay out'));
+    expect(deleted.conflicts.map((c) => c.path)).toEqual(['/processes/PR00001/steps/ST00002']);
+    expect(deleted.text).toContain('<<<<<<< ours\n=======\n      ST00002:\n        name: Pay out\n>>>>>>> theirs\n');
+  });
+
+  describe('files', () => {
+    let tempDir: string;
+
+    beforeEach(() => {
+      tempDir = mkdtempSync(join(tmpdir(), 'ubml-test-merge-'));
+    });
+
+    afterEach(() => {
+      rmSync(tempDir, { recursive: true, force: true });
+    });
+
+    it('should write the merge over the current file', async () => {
+      const files = { base: join(tempDir, 'O'), current: join(tempDir, 'A'), other: join(tempDir, 'B') };
+      writeFileSync(files.base, base);
+      writeFileSync(files.current, base.replace('name: Assess', 'name: Assess claim'));
+      writeFileSync(files.other, base.replace('name: Pay', 'name: Pay out'));
+
+      const result = await mergeFiles(files.base, files.current, files.other);
+      expect(result).toEqual({ conflicts: [], renumbered: [] });
+      expect(readFileSync(files.current, 'utf8')).toContain('name: Assess claim');
+      expect(readFileSync(files.current, 'utf8')).toContain('name: Pay out');
+
+      // Invalid YAML falls back to a line merge
+      writeFileSync(files.base, 'a: 1\nb: [\n');
+      writeFileSync(files.current, 'a: 2\nb: [\n');
+      writeFileSync(files.other, 'a: 3\nb: [\n');
+      const fallback = await mergeFiles(files.base, files.current, files.other);
+      expect(fallback.fallback).toContain('not valid YAML');
+      expect(fallback.conflicts).toHaveLength(1);
+      expect(readFileSync(files.current, 'utf8')).toContain('<<<<<<< ours\na: 2\n=======\na: 3\n>>>>>>> theirs\n');
+    });
+  });
+});
@@ -0,0 +1,153 @@
+/**
+ * Schema migration unit tests
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import { SCHEMA_VERSION } from '../../src/constants.js';
+import { getValidator, migrateDocument, parse } from '../../src/index.js';
+import { migrateFile } from '../../src/node/index.js';
+
+const claims10 = `ubml: "1.0"
+# Claims intake
+processes:
+  PR00001:
+    name: Claims
+    triggers:
+      - process: PR00003
+    steps:
+      ST00001:
+        name: Register # on receipt
+        kind: action
+        processRef: PR00002
+        responsible: [AC00001]
+      ST00002:
+        name: Close
+        kind: end
+    links:
+      - from: ST00001
+        to: ST00002
+      - from: ST00001
+        to: PR00004
+`;
+
+const actors11 = `ubml: "1.1"
+actors:
+  AC00001:
+    name: Adjusters
+    type: group # claims team
+  AC00002:
+    name: Claims System
+    type: system
+`;
+
+describe('Schema Migration', () => {
+  it('should move cross-process invocation to step calls', async () => {
+    const result = await migrateDocument(parse(claims10, 'claims.process.ubml.yaml').document!);
+
+    expect(result).toMatchObject({ from: '1.0', to: SCHEMA_VERSION, warnings: [] });
+    expect(result.text).toBe(`ubml: "${SCHEMA_VERSION}"
+# Claims intake
+processes:
+  PR00001:
+    name: Claims
+    steps:
+      ST00001:
+        name: Register # on receipt
+        kind: action
+        calls:
+          - process: PR00002
+          - process: PR00004
+            on: complete
+        RACI:
+          responsible:
+            - AC00001
+      ST00002:
+        name: Close
+        kind: end
+        calls:
+          - process: PR00003
+            on: complete
+    links:
+      - from: ST00001
+        to: ST00002
+`);
+    expect(result.changes.map((c) => [c.version, c.path])).toEqual([
+      ['1.1', '/processes/PR00001/steps/ST00001/processRef'],
+      ['1.1', '/processes/PR00001/triggers'],
+      ['1.1', '/processes/PR00001/links/1'],
+      ['1.2', '/processes/PR00001/steps/ST00001/calls/0/mode'],
+      ['1.2', '/processes/PR00001/steps/ST00001/calls/1/mode'],
+      ['1.2', '/processes/PR00001/steps/ST00002/calls/0/mode'],
+      ['1.2', '/processes/PR00001/steps/ST00001/responsible'],
+    ]);
+    const validator = await getValidator();
+    expect(validator.validateDocument(parse(result.text, 'claims.process.ubml.yaml').document!).errors).toEqual([]);
+
+    const to11 = await migrateDocument(parse(claims10, 'claims.process.ubml.yaml').document!, { to: '1.1' });
+    expect(to11.text).toContain('ubml: "1.1"');
+    expect(to11.text).toContain('          - process: PR00002\n            mode: sync\n');
+  });
+
+  it('should derive actor kinds and rename mistaken enum values', async () => {
+    const result = await migrateDocument(parse(actors11, 'team.actors.ubml.yaml').document!);
+
+    expect(result.text).toBe(`ubml: "${SCHEMA_VERSION}"
+actors:
+  AC00001:
+    name: Adjusters
+    type: team # claims team
+    kind: human
+  AC00002:
+    name: Claims System
+    type: system
+    kind: system
+`);
+    expect(result.changes.map((c) => c.description)).toEqual([
+      'group renamed to team',
+      'kind: human derived from type: team',
+      'kind: system derived from type: system',
+    ]);
+
+    const description = '    description: Registers and routes incoming claims for all lines of business, including the legacy motor portfolio\n';
+    const long = await migrateDocument(parse(actors11.replace('    type: system\n', `${description}    type: system\n`), 'team.actors.ubml.yaml').document!);
+    expect(long.text).toContain(`    name: Claims System\n${description}    type: system\n`);
+
+    const unknown = await migrateDocument(parse(actors11.replace('type: group', 'type: user'), 'team.actors.ubml.yaml').document!);
+    expect(unknown.warnings).toEqual([{ version: '1.2', path: '/actors/AC00001', description: 'actor needs a kind (human, org or system)' }]);
+  });
+
+  it('should reject versions it cannot migrate', async () => {
+    const current = parse(`ubml: "${SCHEMA_VERSION}"\nactors: {}\n`, 'team.actors.ubml.yaml').document!;
+    expect(await migrateDocument(current)).toMatchObject({ text: current.source, changes: [] });
+
+    await expect(migrateDocument(current, { to: '1.1' })).rejects.toThrow(`Cannot migrate from version ${SCHEMA_VERSION} down to 1.1`);
+    await expect(migrateDocument(parse('ubml: "0.9"\nactors: {}\n', 'team.actors.ubml.yaml').document!)).rejects.toThrow('Cannot migrate from version 0.9');
+  });
+
+  describe('files', () => {
+    let tempDir: string;
+
+    beforeEach(() => {
+      tempDir = mkdtempSync(join(tmpdir(), 'ubml-test-migrate-'));
+    });
+
+    afterEach(() => {
+      rmSync(tempDir, { recursive: true, force: true });
+    });
+
+    it('should rewrite files unless it is a dry run', async () => {
+      const file = join(tempDir, 'team.actors.ubml.yaml');
+      writeFileSync(file, actors11);
+
+      const dryRun = await migrateFile(file, { dryRun: true });
+      expect(dryRun.changes).toHaveLength(3);
+      expect(readFileSync(file, 'utf8')).toBe(actors11);
+
+      await migrateFile(file);
+      expect(readFileSync(file, 'utf8')).toBe(dryRun.text);
+    });
+  });
+});
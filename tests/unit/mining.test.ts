@@ -0,0 +1,484 @@
+/**
+ * Process mining unit tests
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import {
+  buildDirectlyFollowsGraph,
+  checkConformance,
+  computeEvidence,
+  discoverProcess,
+  evaluateExpression,
+  formatConformanceCsv,
+  mapActivity,
+  mapResource,
+  parseEventLog,
+  parseTimestamp,
+  profileEventLog,
+  workingHoursBetween,
+  type MiningSource,
+  type Process,
+} from '../../src/index.js';
+import { addMiningEvidence, discoverMiningSource, loadMiningSource } from '../../src/node/index.js';
+
+const orders: MiningSource = {
+  name: 'ERP orders',
+  type: 'csv',
+  columns: { caseId: 'Order', activity: 'Activity', timestamp: 'Time', resource: 'User' },
+  timestampFormat: 'DD/MM/YYYY HH:mm',
+  filters: [{ column: 'Type', operator: 'equals', value: 'Standard' }],
+  activityMappings: [
+    { activity: 'Create Order', step: 'ST00001' },
+    { activity: 'Approve.*', step: 'ST00002', type: 'pattern' },
+  ],
+  resourceMappings: [{ resource: 'jdoe', actor: 'AC00001' }],
+};
+
+const ordersCsv = `﻿Order;Activity;Time;User;Type
+1001;Create Order;02/01/2024 09:15;jdoe;Standard
+1001;"Approve; manager";03/01/2024 14:00;asmith;Standard
+1002;Create Order;05/01/2024 10:00;jdoe;Standard
+1002;Ship;31/02/2024 08:00;;Standard
+1003;Create Order;06/01/2024 10:00;jdoe;Rush
+;Create Order;07/01/2024 10:00;jdoe;Standard
+`;
+
+const ordersXes = `<?xml version="1.0" encoding="UTF-8"?>
+<log xes.version="1.0">
+  <trace>
+    <string key="concept:name" value="1001"/>
+    <string key="Type" value="Standard"/>
+    <event>
+      <string key="concept:name" value="Create Order"/>
+      <date key="time:timestamp" value="2024-01-02T09:15:00.000+01:00"/>
+      <string key="org:resource" value="jdoe"/>
+    </event>
+    <event>
+      <string key="concept:name" value="Approve"/>
+      <date key="time:timestamp" value="2024-01-03T14:00:00Z"/>
+      <string key="org:resource" value="asmith"/>
+    </event>
+  </trace>
+  <trace>
+    <string key="concept:name" value="1003"/>
+    <string key="Type" value="Rush"/>
+    <event>
+      <string key="concept:name" value="Create Order"/>
+      <date key="time:timestamp" value="2024-01-06T10:00:00Z"/>
+    </event>
+  </trace>
+</log>
+`;
+
+describe('Process Mining', () => {
+  it('should parse timestamps in configured formats', () => {
+    expect(parseTimestamp('02/01/2024 09:15', 'DD/MM/YYYY HH:mm')).toBe(Date.UTC(2024, 0, 2, 9, 15));
+    expect(parseTimestamp('2024-01-02 09:15:30', 'YYYY-MM-DD HH:mm:ss')).toBe(Date.UTC(2024, 0, 2, 9, 15, 30));
+    expect(parseTimestamp('2024-01-02T09:15:00+01:00', 'ISO8601')).toBe(Date.UTC(2024, 0, 2, 8, 15));
+    expect(parseTimestamp('2024-01-02')).toBe(Date.UTC(2024, 0, 2));
+    expect(parseTimestamp('31/02/2024 08:00', 'DD/MM/YYYY HH:mm')).toBeUndefined();
+    expect(parseTimestamp('2024-01-02', 'DD/MM/YYYY HH:mm')).toBeUndefined();
+  });
+
+  it('should read CSV rows with quoting, filters and columns', () => {
+    const log = parseEventLog(ordersCsv, orders);
+
+    expect(log.events.map((event) => [event.caseId, event.activity, event.resource])).toEqual([
+      ['1001', 'Create Order', 'jdoe'],
+      ['1001', 'Approve; manager', 'asmith'],
+      ['1002', 'Create Order', 'jdoe'],
+      ['1002', 'Ship', undefined],
+    ]);
+    expect(log.events[0].attributes.Type).toBe('Standard');
+    expect(log.warnings).toEqual([
+      'Unreadable timestamp in "Time": 1 row (first: line 5, "31/02/2024 08:00")',
+      'No case ID, skipped: 1 row (first: line 7)',
+    ]);
+
+    expect(profileEventLog(log, orders)).toEqual({
+      recordCount: 4,
+      caseCount: 2,
+      dateRange: { from: '2024-01-02', to: '2024-01-05' },
+      quality: { completeness: 50, unmappedActivities: 1, unmappedResources: 1 },
+      unmapped: { activities: ['Ship'], resources: ['asmith'] },
+    });
+
+    expect(() => parseEventLog(ordersCsv, { ...orders, columns: { ...orders.columns, caseId: 'Case' } }))
+      .toThrow('Column "Case" not found in CSV header');
+    expect(() => parseEventLog(ordersCsv, { ...orders, type: 'database' })).toThrow('only csv and xes');
+  });
+
+  it('should match pattern mappings against whole names', () => {
+    const source: MiningSource = {
+      ...orders,
+      activityMappings: [{ activity: 'Approve|Reject', step: 'ST00002', type: 'pattern' }],
+      resourceMappings: [{ resource: '[a-z]+', actor: 'AC00001', type: 'pattern' }],
+    };
+
+    expect(mapActivity(source, 'Reject')).toBe('ST00002');
+    expect(mapActivity(source, 'Auto-Approve later')).toBeUndefined();
+    expect(mapResource(source, 'jdoe')).toBe('AC00001');
+    expect(mapResource(source, 'jdoe2')).toBeUndefined();
+
+    const invalid: MiningSource = { ...orders, activityMappings: [{ activity: 'Approve[', step: 'ST00002', type: 'pattern' }] };
+    expect(() => mapActivity(invalid, 'Approve')).toThrow('Activity mapping pattern "Approve[" is not a valid regular expression');
+  });
+
+  it('should read XES traces with trace attributes', () => {
+    const source: MiningSource = { ...orders, type: 'xes', columns: undefined, timestampFormat: 'ISO8601' };
+    const log = parseEventLog(ordersXes, source);
+
+    expect(log.events.map((event) => [event.caseId, event.activity, event.timestamp])).toEqual([
+      ['1001', 'Create Order', Date.UTC(2024, 0, 2, 8, 15)],
+      ['1001', 'Approve', Date.UTC(2024, 0, 3, 14)],
+    ]);
+    expect(profileEventLog(log, source).quality).toEqual({ completeness: 100, unmappedActivities: 0, unmappedResources: 1 });
+  });
+
+  it('should discover a draft process with branch probabilities', () => {
+    const source: MiningSource = {
+      name: 'Claims',
+      type: 'csv',
+      columns: { caseId: 'Case', activity: 'Activity', timestamp: 'Time', lifecycle: 'Lifecycle' },
+    };
+    const traces = [
+      ...Array.from({ length: 6 }, () => ['Register', 'Assess', 'Pay']),
+      ...Array.from({ length: 3 }, () => ['Register', 'Assess', 'Reject']),
+      ['Register', 'Call Customer', 'Assess', 'Pay'],
+    ];
+    const rows = traces.flatMap((activities, index) => activities.flatMap((activity, position) => [
+      `C${index},${activity},2024-05-01 ${String(9 + position).padStart(2, '0')}:00,start`,
+      `C${index},${activity},2024-05-01 ${String(9 + position).padStart(2, '0')}:15,complete`,
+    ]));
+    const log = parseEventLog(['Case,Activity,Time,Lifecycle', ...rows].join('\n'), source);
+
+    const graph = buildDirectlyFollowsGraph(log, { activityThreshold: 0.2 });
+    expect(graph.filtered).toEqual({ activities: ['Call Customer'], edges: 0 });
+    expect(graph.activities.map(({ activity, frequency }) => [activity, frequency])).toEqual([
+      ['Register', 10], ['Assess', 10], ['Pay', 7], ['Reject', 3],
+    ]);
+    expect(graph.activities[0].medianDurationHours).toBe(0.25);
+    expect(graph.edges.find((edge) => edge.from === 'Register')).toMatchObject({ to: 'Assess', frequency: 10, medianWaitHours: 0.75 });
+
+    const { document, processId, activityMappings } = discoverProcess(log, source, { activityThreshold: 0.2, pathThreshold: 0.5 });
+    const process = document.processes[processId];
+    expect(Object.values(process.steps).map((step) => step.name)).toEqual(['Start', 'Register', 'Assess', 'Pay', 'Reject', 'End']);
+    // Reject stays connected through its strongest incoming path
+    expect(process.links).toContainEqual({ from: 'ST01020', to: 'ST01030', probability: 0.7 });
+    expect(process.links).toContainEqual({ from: 'ST01020', to: 'ST01040', probability: 0.3 });
+    expect(activityMappings).toEqual([
+      { activity: 'Register', step: 'ST01010' },
+      { activity: 'Assess', step: 'ST01020' },
+      { activity: 'Pay', step: 'ST01030' },
+      { activity: 'Reject', step: 'ST01040' },
+    ]);
+  });
+
+  it('should replay cases against the process and report deviations', () => {
+    const process: Process = {
+      name: 'Orders',
+      steps: {
+        ST00001: { name: 'Received', kind: 'start' },
+        ST00002: { name: 'Create Order', kind: 'action', RACI: { responsible: ['AC00001'] } },
+        ST00003: { name: 'Pick', kind: 'action' },
+        ST00004: { name: 'Invoice', kind: 'action' },
+        ST00005: { name: 'Approved?', kind: 'decision' },
+        ST00006: { name: 'Ship', kind: 'action' },
+        ST00007: { name: 'Cancel', kind: 'action' },
+        ST00008: { name: 'Done', kind: 'end' },
+      },
+      links: [
+        { from: 'ST00001', to: 'ST00002' },
+        // Picking and invoicing run in parallel
+        { from: 'ST00002', to: 'ST00003' },
+        { from: 'ST00002', to: 'ST00004' },
+        { from: 'ST00003', to: 'ST00005' },
+        { from: 'ST00004', to: 'ST00005' },
+        { from: 'ST00005', to: 'ST00006' },
+        { from: 'ST00005', to: 'ST00007' },
+        { from: 'ST00006', to: 'ST00008' },
+        { from: 'ST00007', to: 'ST00008' },
+      ],
+    };
+    const source: MiningSource = {
+      name: 'Orders',
+      type: 'csv',
+      columns: { caseId: 'Case', activity: 'Activity', resource: 'User' },
+      activityMappings: [
+        { activity: 'Create Order', step: 'ST00002' },
+        { activity: 'Pick.*', step: 'ST00003', type: 'pattern' },
+        { activity: ['Invoice', 'Invoice Copy'], step: 'ST00004', type: 'group' },
+        { activity: 'Ship', step: 'ST00006' },
+        { activity: 'Cancel', step: 'ST00007' },
+      ],
+      resourceMappings: [{ resource: 'jdoe', actor: 'AC00001' }, { resource: 'bob', actor: 'AC00002' }],
+    };
+    const log = parseEventLog(`Case,Activity,User
+1,Create Order,jdoe
+1,Invoice Copy,
+1,Picking,
+1,Ship,
+2,Create Order,bob
+2,Pick,
+2,Call Customer,
+2,Ship,
+3,Create Order,jdoe
+3,Pick,
+3,Invoice,
+3,Ship,
+3,Cancel,
+`, source);
+
+    const result = checkConformance(log, source, process);
+    expect(result.cases.map(({ caseId, fitness }) => [caseId, fitness])).toEqual([['1', 1], ['2', 0.6], ['3', 0.8]]);
+    expect(result).toMatchObject({ caseCount: 3, fittingCases: 1, fitness: 11 / 14 });
+    expect(result.deviations).toEqual([
+      { type: 'skipped-step', message: 'Skipped ST00004 Invoice', occurrences: 1, cases: 1 },
+      { type: 'wrong-actor', message: 'ST00002 Create Order performed by bob (AC00002) instead of AC00001', occurrences: 1, cases: 1 },
+      { type: 'unexpected-order', message: 'ST00007 Cancel out of order', occurrences: 1, cases: 1 },
+      { type: 'unmodeled-activity', message: 'Unmodeled activity "Call Customer"', occurrences: 1, cases: 1 },
+    ]);
+
+    expect(formatConformanceCsv(result).split('\n').slice(0, 3)).toEqual([
+      'case_id,events,fitness,skipped_steps,unmodeled_activities,unexpected_order,wrong_actor,deviations',
+      '1,4,1,0,0,0,0,',
+      '2,4,0.6,1,1,0,1,"ST00002 Create Order performed by bob (AC00002) instead of AC00001; Unmodeled activity ""Call Customer""; Skipped ST00004 Invoice"',
+    ]);
+  });
+
+  it('should measure durations and rates as evidence with distribution fits', () => {
+    const source: MiningSource = {
+      name: 'Claims',
+      type: 'csv',
+      columns: { caseId: 'Case', activity: 'Activity', startTimestamp: 'Start', endTimestamp: 'End' },
+      activityMappings: [
+        { activity: 'Receive', step: 'ST00001' },
+        { activity: 'Review', step: 'ST00002' },
+      ],
+    };
+    const log = parseEventLog(`Case,Activity,Start,End
+1,Receive,,2024-01-01T09:00:00Z
+1,Review,2024-01-01T10:00:00Z,2024-01-01T12:00:00Z
+2,Receive,,2024-01-02T09:00:00Z
+2,Review,2024-01-02T13:00:00Z,2024-01-02T14:00:00Z
+3,Receive,,2024-01-03T09:00:00Z
+3,Review,2024-01-03T09:00:00Z,2024-01-03T13:00:00Z
+`, source);
+
+    const mined = computeEvidence(log, source, { sourceId: 'MS00001', processId: 'PR00001' });
+    expect(mined).toMatchObject({ caseCount: 3, arrivalRate: 1 });
+    expect(mined.throughput).toBeCloseTo(16 / 17);
+    expect(mined.evidence.map(({ metric, step, value }) => [metric, step, value])).toEqual([
+      ['caseCount', undefined, 3],
+      ['arrivalRate', undefined, 1],
+      ['throughput', undefined, 0.94],
+      ['cycleTime', undefined, '4h'],
+      ['waitingTime', 'ST00002', '1.7h'],
+      ['processingTime', 'ST00002', '2.3h'],
+    ]);
+    expect(mined.evidence[5]).toEqual({
+      type: 'duration',
+      metric: 'processingTime',
+      value: '2.3h',
+      step: 'ST00002',
+      process: 'PR00001',
+      observedAt: '2024-01-03T13:00:00.000Z',
+      period: '2024-01-01/2024-01-03',
+      source: 'MS00001',
+      confidence: 0.1,
+      sampleSize: 3,
+      percentiles: { p50: '2h', p75: '3h', p90: '3.6h', p95: '3.8h' },
+      notes: 'Fit: tri(h(1.1), h(2.1), h(3.8)), lognormal(h(2.33), h(1.53))',
+    });
+
+    const { fit } = mined.steps.find(({ step }) => step === 'ST00002')!.processing!;
+    expect(evaluateExpression(fit.tri)).toBeCloseTo(7 / 3);
+    expect(evaluateExpression(fit.lognormal!)).toBe(2.33);
+  });
+
+  it('should measure durations in working hours', () => {
+    const source: MiningSource = {
+      name: 'Claims',
+      type: 'csv',
+      columns: { caseId: 'Case', activity: 'Activity', startTimestamp: 'Start', endTimestamp: 'End' },
+      activityMappings: [{ activity: 'Review', step: 'ST00002' }],
+    };
+    // Received Friday afternoon, reviewed on Monday morning
+    const log = parseEventLog(`Case,Activity,Start,End
+1,Receive,,2024-01-05T16:00:00Z
+1,Review,2024-01-08T10:00:00Z,2024-01-08T11:30:00Z
+`, source);
+
+    const [review] = computeEvidence(log, source).steps;
+    expect(review.waiting?.mean).toBe(2);
+    expect(review.processing?.mean).toBe(1.5);
+    expect(workingHoursBetween(Date.UTC(2024, 0, 1, 12), Date.UTC(2024, 0, 31, 12))).toBe(22 * 8);
+    expect(workingHoursBetween(Date.UTC(2024, 0, 6, 9), Date.UTC(2024, 0, 7, 17))).toBe(0);
+  });
+
+  describe('mining sources on disk', () => {
+    let dir: string;
+
+    beforeEach(() => {
+      dir = mkdtempSync(join(tmpdir(), 'ubml-test-mining-'));
+    });
+
+    afterEach(() => {
+      rmSync(dir, { recursive: true, force: true });
+    });
+
+    it('should write the profile into the mining document', async () => {
+      const miningPath = join(dir, 'orders.mining.ubml.yaml');
+      writeFileSync(join(dir, 'orders.csv'), ordersCsv);
+      writeFileSync(miningPath, `ubml: "1.2"
+miningSources:
+  MS00001:
+    name: ERP orders # monthly extract
+    description: Monthly extract of standard orders from the ERP system, without rush orders and without test data
+    type: csv
+    connection:
+      path: orders.csv
+    columns:
+      caseId: Order
+      activity: Activity
+      timestamp: Time
+      resource: User
+    timestampFormat: DD/MM/YYYY HH:mm
+    filters:
+    - column: Type
+      operator: equals
+      value: Standard
+    recordCount: 10 # stale
+`);
+
+      const dryRun = await loadMiningSource(dir, 'MS00001', { dryRun: true });
+      expect(dryRun).toMatchObject({ updated: true, file: join(dir, 'orders.csv') });
+      expect(readFileSync(miningPath, 'utf8')).toContain('recordCount: 10');
+
+      const loaded = await loadMiningSource(dir, 'MS00001');
+      expect(loaded.profile.quality.unmappedActivities).toBe(3);
+      const text = readFileSync(miningPath, 'utf8');
+      expect(text).toContain('name: ERP orders # monthly extract');
+      expect(text).toContain('recordCount: 4 # stale');
+      expect(text).toContain(`caseCount: 2
+    dateRange:
+      from: 2024-01-02
+      to: 2024-01-05
+    quality:
+      completeness: 50
+      unmappedActivities: 3
+      unmappedResources: 2
+`);
+
+      expect(text).toContain('without test data\n    type: csv\n');
+      expect(text).toContain('    filters:\n    - column: Type\n');
+
+      expect((await loadMiningSource(dir, 'MS00001')).updated).toBe(false);
+      expect(readFileSync(miningPath, 'utf8')).toBe(text);
+      await expect(loadMiningSource(dir, 'MS00002')).rejects.toThrow('Mining source MS00002 not found');
+    });
+
+    it('should write a discovered process and its activity mappings', async () => {
+      const miningPath = join(dir, 'orders.mining.ubml.yaml');
+      writeFileSync(join(dir, 'orders.csv'), ordersCsv);
+      writeFileSync(miningPath, `ubml: "1.2"
+miningSources:
+  MS00001:
+    name: ERP orders
+    description: Monthly extract of standard orders from the ERP system, without rush orders and without test data
+    type: csv
+    connection:
+      path: orders.csv
+    columns:
+      caseId: Order
+      activity: Activity
+    activityMappings:
+      - activity: Create Order
+        step: ST00010 # reviewed
+`);
+
+      const discovered = await discoverMiningSource(dir, 'MS00001');
+      expect(discovered.output).toBe(join(dir, 'erp-orders.process.ubml.yaml'));
+      expect(discovered.addedMappings.map((mapping) => mapping.activity)).toEqual(['Approve; manager', 'Ship']);
+      expect(readFileSync(discovered.output, 'utf8')).toContain('name: ERP orders');
+      expect(readFileSync(miningPath, 'utf8')).toContain(`      - activity: Create Order
+        step: ST00010 # reviewed
+      - activity: Approve; manager
+        step: ${discovered.addedMappings[0].step}
+`);
+      expect(readFileSync(miningPath, 'utf8')).toContain(`process: ${discovered.discovery.processId}`);
+      expect(readFileSync(miningPath, 'utf8')).toContain('without test data\n    type: csv\n');
+
+      await expect(discoverMiningSource(dir, 'MS00001')).rejects.toThrow('File already exists');
+      const mapped = readFileSync(miningPath, 'utf8');
+      const rediscovered = await discoverMiningSource(dir, 'MS00001', { force: true });
+      expect(rediscovered.addedMappings).toEqual([]);
+      expect(readFileSync(miningPath, 'utf8')).toBe(mapped);
+    });
+
+    it('should add evidence to a scenario and replace it on the next run', async () => {
+      const scenariosPath = join(dir, 'scenarios.ubml.yaml');
+      writeFileSync(join(dir, 'orders.csv'), ordersCsv);
+      writeFileSync(join(dir, 'orders.mining.ubml.yaml'), `ubml: "1.2"
+miningSources:
+  MS00001:
+    name: ERP orders
+    type: csv
+    connection:
+      path: orders.csv
+    columns:
+      caseId: Order
+      activity: Activity
+      timestamp: Time
+    timestampFormat: DD/MM/YYYY HH:mm
+    activityMappings:
+      - activity: Create Order
+        step: ST00001
+      - activity: Approve.*
+        step: ST00002
+        type: pattern
+`);
+      writeFileSync(scenariosPath, `ubml: "1.2"
+scenarios:
+  SC00001:
+    name: Current State
+    description: Order handling as it runs today, measured from the monthly ERP extract and the team's own reports
+    evidence:
+      - type: count # from the monthly report
+        metric: dailyVolume
+        value: 45
+`);
+
+      const added = await addMiningEvidence(dir, 'MS00001', { scenario: 'SC00001' });
+      expect(added).toMatchObject({ updated: true, replaced: 0 });
+      expect(added.mined.evidence.map(({ metric, step }) => [metric, step])).toEqual([
+        ['caseCount', undefined],
+        ['arrivalRate', undefined],
+        ['throughput', undefined],
+        ['cycleTime', undefined],
+        ['elapsedTime', 'ST00002'],
+      ]);
+      const text = readFileSync(scenariosPath, 'utf8');
+      expect(text).toContain('- type: count # from the monthly report');
+      expect(text).toContain("the team's own reports\n    evidence:\n");
+      expect(text).toContain(`      - type: duration
+        metric: elapsedTime
+        value: 12.8h
+        step: ST00002
+        observedAt: 2024-01-06T10:00:00.000Z
+        period: 2024-01-02/2024-01-06
+        source: MS00001
+        confidence: 0.03
+        sampleSize: 1
+`);
+
+      const again = await addMiningEvidence(dir, 'MS00001', { scenario: 'SC00001' });
+      expect(again).toMatchObject({ updated: false, replaced: 5 });
+      expect(readFileSync(scenariosPath, 'utf8')).toBe(text);
+      await expect(addMiningEvidence(dir, 'MS00001', { scenario: 'SC00009' })).rejects.toThrow('Scenario SC00009 not found');
+    });
+  });
+});
@@ -0,0 +1,198 @@
+/**
+ * Process graph checker unit tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import { SCHEMA_VERSION } from '../../src/constants.js';
+import { checkProcessGraph, parse, validateDocuments, type Process } from '../../src/index.js';
+
+function process(steps: Record<string, object>, links: object[], extra: object = {}): Process {
+  return { name: 'Claims', steps, links, ...extra } as unknown as Process;
+}
+
+const codes = (target: Process) => checkProcessGraph(target).map((diagnostic) => diagnostic.code);
+
+describe('Process Graph Checker', () => {
+  it('should accept a sound process', () => {
+    const sound = process(
+      {
+        ST00001: { name: 'Receive', kind: 'start' },
+        ST00002: { name: 'Assess', kind: 'decision' },
+        ST00003: { name: 'Pay' },
+        ST00004: { name: 'Reject' },
+        ST00005: { name: 'Close', kind: 'end' },
+      },
+      [
+        { from: 'ST00001', to: 'ST00002' },
+        { from: 'ST00002', to: 'ST00003', probability: 0.7 },
+        { from: 'ST00002', to: 'ST00004', probability: 0.3, isDefault: true },
+        { from: 'ST00003', to: 'ST00005' },
+        { from: 'ST00004', to: 'ST00005' },
+      ]
+    );
+
+    expect(checkProcessGraph(sound)).toEqual([]);
+  });
+
+  it('should report unreachable steps and dead ends', () => {
+    const broken = process(
+      {
+        ST00001: { name: 'Receive' },
+        ST00002: { name: 'Assess' },
+        ST00003: { name: 'Archive' },
+        ST00004: { name: 'Escalate' },
+        ST00005: { name: 'Close' },
+      },
+      [
+        { from: 'ST00001', to: 'ST00002' },
+        { from: 'ST00002', to: 'ST00005' },
+        { from: 'ST00001', to: 'ST00004' },
+        { from: 'ST00003', to: 'ST00005' },
+      ],
+      { startsWith: ['ST00001'], endsWith: ['ST00005'] }
+    );
+
+    expect(checkProcessGraph(broken)).toEqual([
+      {
+        code: 'ubml/unreachable-step',
+        severity: 'warning',
+        message: 'Step ST00003 cannot be reached from the start (ST00001)',
+        path: ['steps', 'ST00003'],
+      },
+      {
+        code: 'ubml/dead-end-step',
+        severity: 'warning',
+        message: 'Step ST00004 cannot reach an end (ST00005)',
+        path: ['steps', 'ST00004'],
+      },
+    ]);
+  });
+
+  it('should report decisions with fewer than two branches', () => {
+    const decision = process(
+      { ST00001: { name: 'Assess', kind: 'decision' }, ST00002: { name: 'Pay' } },
+      [{ from: 'ST00001', to: 'ST00002' }]
+    );
+
+    expect(checkProcessGraph(decision)).toMatchObject([
+      { code: 'ubml/decision-branches', message: 'Decision ST00001 has 1 outgoing link (expected at least 2)' },
+    ]);
+  });
+
+  it('should report probabilities that do not sum to 1', () => {
+    const steps = { ST00001: { name: 'Assess' }, ST00002: { name: 'Pay' }, ST00003: { name: 'Reject' } };
+
+    const incomplete = process(steps, [
+      { from: 'ST00001', to: 'ST00002', probability: 0.6 },
+      { from: 'ST00001', to: 'ST00003', probability: 0.3 },
+    ]);
+    expect(checkProcessGraph(incomplete)).toMatchObject([
+      { code: 'ubml/probability-sum', severity: 'error', message: 'Outgoing probabilities of ST00001 sum to 0.9 (expected 1)', path: ['links', 0] },
+    ]);
+
+    const remainder = process(steps, [
+      { from: 'ST00001', to: 'ST00002', probability: 0.6 },
+      { from: 'ST00001', to: 'ST00003' },
+    ]);
+    expect(codes(remainder)).toEqual([]);
+
+    const excess = process(steps, [
+      { from: 'ST00001', to: 'ST00002', probability: 1.2 },
+      { from: 'ST00001', to: 'ST00003' },
+    ]);
+    expect(codes(excess)).toEqual(['ubml/probability-sum']);
+  });
+
+  it('should report more than one default link', () => {
+    const defaults = process(
+      { ST00001: { name: 'Assess', kind: 'decision' }, ST00002: { name: 'Pay' }, ST00003: { name: 'Reject' } },
+      [
+        { from: 'ST00001', to: 'ST00002', isDefault: true },
+        { from: 'ST00001', to: 'ST00003', isDefault: true },
+      ]
+    );
+
+    expect(checkProcessGraph(defaults)).toMatchObject([
+      { code: 'ubml/multiple-defaults', severity: 'error', path: ['links', 1] },
+    ]);
+  });
+
+  it('should report cycles that are not modelled as loops', () => {
+    const steps = {
+      ST00001: { name: 'Receive', kind: 'start' },
+      ST00002: { name: 'Review' },
+      ST00003: { name: 'Fix' },
+      ST00004: { name: 'Close', kind: 'end' },
+    };
+    const links = [
+      { from: 'ST00001', to: 'ST00002' },
+      { from: 'ST00002', to: 'ST00003', probability: 0.2 },
+      { from: 'ST00003', to: 'ST00002' },
+      { from: 'ST00002', to: 'ST00004', probability: 0.8 },
+    ];
+
+    expect(checkProcessGraph(process(steps, links))).toMatchObject([
+      { code: 'ubml/uncovered-cycle', message: 'Steps ST00002, ST00003 form a cycle that is not inside a loop block and has no step loop' },
+    ]);
+    expect(codes(process(steps, links, { blocks: { BK00001: { name: 'Rework', operator: 'loop', steps: ['ST00002', 'ST00003'] } } }))).toEqual([]);
+    expect(codes(process({ ...steps, ST00003: { name: 'Fix', loop: { kind: 'rework', probability: 0.2 } } }, links))).toEqual([]);
+    expect(codes(process(steps, links, { blocks: { BK00001: { name: 'Rework', operator: 'par', steps: ['ST00002', 'ST00003'] } } }))).toEqual([
+      'ubml/uncovered-cycle',
+    ]);
+  });
+
+  it('should report links into start steps and out of end steps', () => {
+    const boundaries = process(
+      { ST00001: { name: 'Receive', kind: 'start' }, ST00002: { name: 'Work' }, ST00003: { name: 'Close', kind: 'end' } },
+      [
+        { from: 'ST00001', to: 'ST00002' },
+        { from: 'ST00002', to: 'ST00003' },
+        { from: 'ST00003', to: 'ST00001' },
+      ]
+    );
+
+    expect(checkProcessGraph(boundaries)).toMatchObject([
+      { code: 'ubml/start-step-incoming', severity: 'error', message: 'Start step ST00001 has an incoming link from ST00003', path: ['links', 2] },
+      { code: 'ubml/end-step-outgoing', severity: 'error', message: 'End step ST00003 has an outgoing link to ST00001', path: ['links', 2] },
+      { code: 'ubml/uncovered-cycle' },
+    ]);
+  });
+
+  it('should report graph problems from validateDocuments with locations', () => {
+    const yaml = `ubml: "${SCHEMA_VERSION}"
+processes:
+  PR00001:
+    name: Claims
+    steps:
+      ST00001:
+        name: Assess
+        kind: decision
+      ST00002:
+        name: Pay
+      ST00003:
+        name: Reject
+    links:
+      - from: ST00001
+        to: ST00002
+        probability: 0.5
+      - from: ST00001
+        to: ST00003
+        probability: 0.4
+`;
+    const document = parse(yaml, 'claims.process.ubml.yaml').document!;
+
+    const result = validateDocuments([document], { suppressUnusedWarnings: true });
+
+    expect(result.valid).toBe(false);
+    expect(result.errors).toEqual([
+      {
+        message: 'PR00001: Outgoing probabilities of ST00001 sum to 0.9 (expected 1)',
+        filepath: 'claims.process.ubml.yaml',
+        path: 'processes.PR00001.links[0]',
+        code: 'ubml/probability-sum',
+        line: 14,
+        column: 9,
+      },
+    ]);
+  });
+});
@@ -0,0 +1,194 @@
+/**
+ * Reference type validation unit tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import { SCHEMA_VERSION } from '../../src/constants.js';
+import {
+  parse,
+  validateDocuments,
+  getReferenceTargets,
+  CONTAINER_DEFINITIONS,
+  REFERENCE_FIELD_TARGETS,
+  type UBMLDocument,
+} from '../../src/index.js';
+
+const actors = `ubml: "${SCHEMA_VERSION}"
+actors:
+  AC00001:
+    name: Claims Handler
+    type: role
+    kind: human
+  AC00002:
+    name: Claims System
+    type: system
+    kind: system
+`;
+
+function documents(process: string): UBMLDocument[] {
+  return [
+    parse(actors, 'actors.actors.ubml.yaml').document!,
+    parse(`ubml: "${SCHEMA_VERSION}"\n${process}`, 'claims.process.ubml.yaml').document!,
+  ];
+}
+
+const mismatches = (docs: UBMLDocument[]) =>
+  validateDocuments(docs, { suppressUnusedWarnings: true }).errors.filter((error) => error.code === 'ubml/reference-type-mismatch');
+
+describe('Reference Type Validation', () => {
+  it('should resolve reference targets from the schema $refs', () => {
+    expect(REFERENCE_FIELD_TARGETS.systems).toEqual({ Step: ['AC'] });
+    expect(REFERENCE_FIELD_TARGETS.parent).toEqual({ Capability: ['CP'], Location: ['LC'], Process: ['PR'] });
+    expect(REFERENCE_FIELD_TARGETS.to).toEqual({ Link: ['ST'], Message: ['AC'] });
+  });
+
+  it('should find the declaring definition from the property holding the owner', () => {
+    expect(CONTAINER_DEFINITIONS.processes).toEqual(['Process']);
+    expect(CONTAINER_DEFINITIONS.links).toEqual(['Link']);
+    expect(CONTAINER_DEFINITIONS.inputs).toEqual(['DataObjectInput']);
+
+    expect(getReferenceTargets('to', ['processes', 'PR00001', 'links', 0])).toEqual(['ST']);
+    expect(getReferenceTargets('to', ['processes', 'PR00001', 'steps', 'ST00001', 'messages', 0])).toEqual(['AC']);
+    expect(getReferenceTargets('ref', ['processes', 'PR00001', 'steps', 'ST00001', 'inputs', 0])).toEqual(['DC', 'EN']);
+    // Keys that are not IDs do not hide the property above them
+    expect(getReferenceTargets('parent', ['processes', 'Claims'])).toEqual(['PR']);
+    expect(getReferenceTargets('parent', ['locations', 'HQ'])).toEqual(['LC']);
+    // Outside the schema any target is accepted
+    expect(getReferenceTargets('parent', [])).toEqual(['CP', 'LC', 'PR']);
+  });
+
+  it('should report references to the wrong element type with expected and actual types', () => {
+    const docs = documents(`processes:
+  PR00001:
+    name: Claims
+    owner: AC00001
+    steps:
+      ST00001:
+        name: Assess
+        systems:
+          - ST00002
+      ST00002:
+        name: Pay
+`);
+
+    expect(mismatches(docs)).toEqual([
+      {
+        message: '"systems" must reference an actor, but ST00002 is a step',
+        filepath: 'claims.process.ubml.yaml',
+        path: 'processes.PR00001.steps.ST00001.systems[0]',
+        code: 'ubml/reference-type-mismatch',
+        expectedType: 'actor',
+        actualType: 'step',
+        line: 10,
+        column: 13,
+      },
+    ]);
+  });
+
+  it('should pick the target of a field from the element that declares it', () => {
+    const docs = documents(`processes:
+  PR00001:
+    name: Claims
+    parent: ST00001
+    steps:
+      ST00001:
+        name: Assess
+        messages:
+          - to: AC00001
+            message: Please review
+          - to: ST00002
+            message: Done
+      ST00002:
+        name: Pay
+    links:
+      - from: ST00001
+        to: ST00002
+      - from: ST00001
+        to: AC00001
+`);
+
+    expect(mismatches(docs).map((error) => [error.path, error.expectedType, error.actualType])).toEqual([
+      ['processes.PR00001.parent', 'process', 'step'],
+      ['processes.PR00001.steps.ST00001.messages[1].to', 'actor', 'step'],
+      ['processes.PR00001.links[1].to', 'step', 'actor'],
+    ]);
+  });
+
+  it('should check systems and reporting lines against the actor type', () => {
+    const docs = documents(`processes:
+  PR00001:
+    name: Claims
+    steps:
+      ST00001:
+        name: Assess
+        systems:
+          - AC00001
+          - AC00002
+`);
+    docs.push(
+      parse(
+        `ubml: "${SCHEMA_VERSION}"\nactors:\n  AC00003:\n    name: Analyst\n    type: role\n    reportsTo: AC00002\n`,
+        'team.actors.ubml.yaml'
+      ).document!
+    );
+
+    expect(mismatches(docs)).toMatchObject([
+      {
+        message: '"systems" must reference a system actor, but AC00001 is a role actor',
+        path: 'processes.PR00001.steps.ST00001.systems[0]',
+        expectedType: 'system actor',
+        actualType: 'role actor',
+      },
+      {
+        message: '"reportsTo" must reference a non-system actor, but AC00002 is a system actor',
+        filepath: 'team.actors.ubml.yaml',
+        path: 'actors.AC00003.reportsTo',
+      },
+    ]);
+  });
+
+  it('should require phase boundaries to be milestone steps', () => {
+    const docs = documents(`processes:
+  PR00001:
+    name: Claims
+    steps:
+      ST00001:
+        name: Kickoff
+        kind: milestone
+      ST00002:
+        name: Build
+      ST00003:
+        name: Go-live
+        kind: milestone
+    phases:
+      PH00001:
+        name: Delivery
+        kind: delivery
+        startMilestone: ST00001
+        endMilestone: ST00002
+`);
+
+    expect(mismatches(docs)).toMatchObject([
+      {
+        message: '"endMilestone" must reference a milestone step, but ST00002 is an action step',
+        expectedType: 'milestone step',
+        actualType: 'action step',
+      },
+    ]);
+  });
+
+  it('should leave undefined references to the undefined-reference check', () => {
+    const docs = documents(`processes:
+  PR00001:
+    name: Claims
+    steps:
+      ST00001:
+        name: Assess
+        systems:
+          - AC00009
+`);
+
+    const result = validateDocuments(docs, { suppressUnusedWarnings: true });
+    expect(result.errors.map((error) => error.code)).toEqual(['ubml/undefined-reference']);
+  });
+});
@@ -0,0 +1,178 @@
+/**
+ * ID rename and renumber unit tests
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, rmSync, writeFileSync, readFileSync } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import { SCHEMA_VERSION } from '../../src/constants.js';
+import { applyRenames, planRename, planRenumber, replaceIds, type RefactorFile } from '../../src/index.js';
+import { renameWorkspaceId, renumberWorkspaceIds, readIdStats } from '../../src/node/index.js';
+import type { FileSystem } from '../../src/node/fs.js';
+
+const claims = `ubml: "${SCHEMA_VERSION}"
+# Claims handling
+processes:
+  PR00001:
+    name: Claims   # main flow
+    steps:
+      ST00001:
+        name: Receive
+      "ST00002":
+        name: Assess
+        description: Compare with ST00001 notes
+    links: [{ from: ST00001, to: "ST00002" }]
+`;
+
+const actors = `ubml: "${SCHEMA_VERSION}"
+actors:
+  AC00001:
+    name: Handler
+    type: role
+`;
+
+describe('ID Rename', () => {
+  describe('replaceIds', () => {
+    it('should replace keys and values and keep comments, quotes and free text', () => {
+      const result = replaceIds(claims, { ST00001: 'ST00010', ST00002: 'ST00020' });
+
+      expect(result.replacements).toBe(4);
+      expect(result.text).toBe(
+        claims
+          .replace('      ST00001:', '      ST00010:')
+          .replace('"ST00002":', '"ST00020":')
+          .replace('{ from: ST00001, to: "ST00002" }', '{ from: ST00010, to: "ST00020" }')
+      );
+      expect(result.text).toContain('Compare with ST00001 notes');
+      expect(result.text).toContain('# main flow');
+    });
+  });
+
+  describe('planning', () => {
+    const files: RefactorFile[] = [
+      { path: 'a.process.ubml.yaml', text: claims },
+      { path: 'actors.actors.ubml.yaml', text: actors },
+    ];
+
+    it('should reject invalid renames', () => {
+      expect(() => planRename(files, 'ST00001', 'AC00009')).toThrow('IDs must keep their prefix (ST)');
+      expect(() => planRename(files, 'ST00009', 'ST00010')).toThrow('ID ST00009 is not defined');
+      expect(() => planRename(files, 'ST00001', 'ST00002')).toThrow('ID ST00002 is already defined in a.process.ubml.yaml');
+      expect(() => planRename(files, 'ST00001', 'ST00010', { files: ['b.process.ubml.yaml'] })).toThrow(
+        'File b.process.ubml.yaml is not a UBML document in the workspace'
+      );
+    });
+
+    it('should renumber in workspace order, skipping IDs still in use', () => {
+      const withDangling: RefactorFile[] = [
+        ...files,
+        { path: 'b.process.ubml.yaml', text: `ubml: "${SCHEMA_VERSION}"\nprocesses:\n  PR00002:\n    name: Other\n    startsWith: [ST00001, ST00003]\n` },
+      ];
+
+      expect(planRenumber(withDangling, 'ST', { start: 2 })).toEqual([
+        { from: 'ST00001', to: 'ST00002', path: 'a.process.ubml.yaml', start: claims.indexOf('ST00001:') },
+        { from: 'ST00002', to: 'ST00004', path: 'a.process.ubml.yaml', start: claims.indexOf('ST00002":') },
+      ]);
+      expect(() => planRenumber(files, 'ST', { step: 0 })).toThrow('Invalid step 0');
+    });
+  });
+
+  describe('duplicate IDs', () => {
+    const branchA = `ubml: "${SCHEMA_VERSION}"\nprocesses:\n  PR00001:\n    name: A\n    steps:\n      ST00001:\n        name: A1\n    startsWith: [ST00001]\n`;
+    const branchB = `ubml: "${SCHEMA_VERSION}"\nprocesses:\n  PR00002:\n    name: B\n    steps:\n      ST00001:\n        name: B1\n      ST00002:\n        name: B2\n    startsWith: [ST00001]\n`;
+    const views = `ubml: "${SCHEMA_VERSION}"\nviews:\n  VW00001:\n    name: Overview\n    includes: [ST00001, ST00002]\n`;
+    const files: RefactorFile[] = [
+      { path: 'a.process.ubml.yaml', text: branchA },
+      { path: 'b.process.ubml.yaml', text: branchB },
+      { path: 'overview.views.ubml.yaml', text: views },
+    ];
+
+    it('should require choosing a definition to rename', () => {
+      expect(() => planRename(files, 'ST00001', 'ST00005')).toThrow(
+        'ID ST00001 is defined in 2 files (a.process.ubml.yaml, b.process.ubml.yaml); choose one with --file'
+      );
+    });
+
+    it('should renumber one branch and leave references to the other definition', () => {
+      const renames = planRenumber(files, 'ST', { files: ['b.process.ubml.yaml'] });
+      expect(renames).toEqual([
+        { from: 'ST00001', to: 'ST00002', path: 'b.process.ubml.yaml', start: branchB.indexOf('ST00001:') },
+        { from: 'ST00002', to: 'ST00003', path: 'b.process.ubml.yaml', start: branchB.indexOf('ST00002:') },
+      ]);
+
+      const changes = applyRenames(files, renames);
+      expect(changes.map((change) => [change.path, change.replacements])).toEqual([
+        ['b.process.ubml.yaml', 3],
+        ['overview.views.ubml.yaml', 1],
+      ]);
+      expect(changes[0].text).toContain('ST00002:\n        name: B1\n      ST00003:\n        name: B2\n    startsWith: [ST00002]');
+      // ST00001 is still defined in branch A; ST00002 only in branch B
+      expect(changes[1].text).toContain('includes: [ST00001, ST00003]');
+    });
+
+    it('should give each definition of an ID in one file its own number', () => {
+      const merged = `ubml: "${SCHEMA_VERSION}"\nprocesses:\n  PR00001:\n    name: A\n    steps:\n      ST00001:\n        name: A1\n    startsWith: [ST00001]\n  PR00002:\n    name: B\n    steps:\n      ST00001:\n        name: B1\n`;
+      const mergedFiles: RefactorFile[] = [{ path: 'merged.process.ubml.yaml', text: merged }];
+
+      const renames = planRenumber(mergedFiles, 'ST', { start: 1 });
+      expect(renames).toEqual([
+        { from: 'ST00001', to: 'ST00002', path: 'merged.process.ubml.yaml', start: merged.lastIndexOf('ST00001:') },
+      ]);
+
+      const [change] = applyRenames(mergedFiles, renames);
+      expect(change.replacements).toBe(1);
+      // References follow the first definition in the file
+      expect(change.text).toBe(merged.replace('      ST00001:\n        name: B1', '      ST00002:\n        name: B1'));
+    });
+  });
+
+  describe('workspace', () => {
+    let tempDir: string;
+
+    beforeEach(() => {
+      tempDir = mkdtempSync(join(tmpdir(), 'ubml-test-rename-'));
+      writeFileSync(join(tempDir, 'claims.process.ubml.yaml'), claims.replace('    name: Claims   # main flow', '    name: Claims   # main flow\n    owner: AC00001'));
+      writeFileSync(join(tempDir, 'team.actors.ubml.yaml'), actors);
+    });
+
+    afterEach(() => {
+      rmSync(tempDir, { recursive: true, force: true });
+    });
+
+    it('should rewrite files and update the ID cache', async () => {
+      const result = await renameWorkspaceId(tempDir, 'AC00001', 'AC00050');
+
+      expect(result.written).toBe(true);
+      expect(result.files.map((file) => file.replacements)).toEqual([1, 1]);
+      expect(readFileSync(join(tempDir, 'claims.process.ubml.yaml'), 'utf8')).toContain('    owner: AC00050\n');
+      expect(readFileSync(join(tempDir, 'team.actors.ubml.yaml'), 'utf8')).toContain('  AC00050:\n');
+      expect(readIdStats(tempDir)).toEqual({ AC: 50 });
+    });
+
+    it('should not write files on a dry run', async () => {
+      const result = await renumberWorkspaceIds(tempDir, 'ST', { start: 100, step: 10, dryRun: true });
+
+      expect(result.renames.map((rename) => rename.to)).toEqual(['ST00100', 'ST00110']);
+      expect(result.written).toBe(false);
+      expect(readFileSync(join(tempDir, 'claims.process.ubml.yaml'), 'utf8')).toContain('ST00001:');
+      expect(readIdStats(tempDir)).toBeUndefined();
+    });
+
+    it('should write files and the ID cache through the given file system', async () => {
+      const contents: Record<string, string> = { '/work/team.actors.ubml.yaml': actors };
+      const fs: FileSystem = {
+        readFile: async (path) => contents[path],
+        writeFile: async (path, content) => void (contents[path] = content),
+        glob: async () => Object.keys(contents).filter((path) => path.endsWith('.ubml.yaml')),
+        exists: async (path) => path in contents,
+      };
+
+      await renameWorkspaceId('/work', 'AC00001', 'AC00050', { fs });
+
+      expect(contents['/work/team.actors.ubml.yaml']).toContain('  AC00050:\n');
+      expect(JSON.parse(contents[join('/work', '.ubml', 'id-cache.json')])).toEqual({ version: 1, maxIds: { AC: 50 } });
+      expect(readIdStats('/work')).toBeUndefined();
+    });
+  });
+});
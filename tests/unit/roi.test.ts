@@ -0,0 +1,135 @@
+/**
+ * ROI calculator unit tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import { SCHEMA_VERSION } from '../../src/constants.js';
+import { calculateRoi, compareRoiResults, parse, validateDocuments, type ROI } from '../../src/index.js';
+
+const eur = (amount: number) => ({ amount, currency: 'EUR' });
+
+const businessCase: ROI = {
+  name: 'Process Automation Business Case',
+  analysisPeriod: 36,
+  discountRate: 0.08,
+  costs: [
+    { name: 'License', amount: eur(50000), timing: 'one-time' },
+    { name: 'Implementation', amount: eur(30000), timing: 'one-time' },
+    { name: 'Maintenance', amount: eur(10000), timing: 'recurring', frequency: 'annually' },
+  ],
+  benefits: [{ name: 'FTE Reduction', amount: eur(5000), timing: 'recurring', frequency: 'monthly' }],
+};
+
+describe('ROI Calculator', () => {
+  describe('calculateRoi', () => {
+    it('should compute totals, NPV, IRR and payback', () => {
+      const { results, currency, periods } = calculateRoi(businessCase);
+
+      expect(currency).toBe('EUR');
+      expect(periods).toHaveLength(37);
+      expect(results).toEqual({
+        totalCosts: eur(110000),
+        totalBenefits: eur(180000),
+        netBenefit: eur(70000),
+        roiPercent: 63.64,
+        npv: eur(52561.94),
+        paybackMonths: 20,
+        irr: 0.5274,
+      });
+    });
+
+    it('should build the cumulative cash flow per period', () => {
+      const { periods } = calculateRoi(businessCase);
+
+      expect(periods[0]).toEqual({ period: 0, costs: 80000, benefits: 0, net: -80000, cumulative: -80000 });
+      expect(periods[1]).toEqual({ period: 1, costs: 10000, benefits: 5000, net: -5000, cumulative: -85000 });
+      expect(periods[13].costs).toBe(10000);
+      expect(periods[20].cumulative).toBe(0);
+      expect(periods[36].cumulative).toBe(70000);
+    });
+
+    it('should respect start and end periods', () => {
+      const { periods, results } = calculateRoi({
+        name: 'Pilot',
+        analysisPeriod: 12,
+        costs: [{ name: 'Rollout', amount: eur(1000), startPeriod: 2 }],
+        benefits: [{ name: 'Savings', amount: eur(300), frequency: 'quarterly', startPeriod: 3, endPeriod: 9 }],
+      });
+
+      expect(periods.filter((period) => period.benefits > 0).map((period) => period.period)).toEqual([3, 6, 9]);
+      expect(periods[2].costs).toBe(1000);
+      expect(results.totalBenefits).toEqual(eur(900));
+      expect(results.paybackMonths).toBeUndefined();
+      expect(results.irr).toBeLessThan(0);
+    });
+
+    it('should annualize the IRR', () => {
+      const { results } = calculateRoi({
+        name: 'Deposit',
+        analysisPeriod: 12,
+        costs: [{ name: 'Investment', amount: eur(1000) }],
+        benefits: [{ name: 'Return', amount: eur(1100), startPeriod: 12 }],
+      });
+
+      expect(results.irr).toBe(0.1);
+      expect(results.paybackMonths).toBe(12);
+    });
+
+    it('should reject mixed currencies and unknown frequencies', () => {
+      expect(() =>
+        calculateRoi({ ...businessCase, benefits: [{ name: 'Savings', amount: { amount: 10, currency: 'USD' } }] })
+      ).toThrow('mixes currencies (EUR, USD)');
+      expect(() =>
+        calculateRoi({ ...businessCase, benefits: [{ name: 'Savings', amount: eur(10), frequency: 'fortnightly' }] })
+      ).toThrow('Benefit "Savings": unknown frequency "fortnightly"');
+    });
+  });
+
+  describe('compareRoiResults', () => {
+    const { results } = calculateRoi(businessCase);
+
+    it('should accept rounded values', () => {
+      expect(compareRoiResults({ npv: eur(52500), roiPercent: 63.6, irr: 0.527, paybackMonths: 20 }, results)).toEqual([]);
+    });
+
+    it('should report outdated values', () => {
+      expect(compareRoiResults({ npv: eur(50000), paybackMonths: 12, totalCosts: { amount: 110000, currency: 'USD' } }, results)).toEqual([
+        { field: 'npv', stored: 50000, computed: 52561.94 },
+        { field: 'paybackMonths', stored: 12, computed: 20 },
+        { field: 'totalCosts', stored: 110000, computed: 110000 },
+      ]);
+    });
+  });
+
+  describe('validation', () => {
+    it('should warn when stored results are out of date', () => {
+      const yaml = `ubml: "${SCHEMA_VERSION}"
+roiAnalyses:
+  ROI00001:
+    name: Automation
+    analysisPeriod: 12
+    costs:
+      - name: License
+        amount: { amount: 1000, currency: EUR }
+    benefits:
+      - name: Savings
+        amount: { amount: 200, currency: EUR }
+        frequency: monthly
+    results:
+      netBenefit: { amount: 1400, currency: EUR }
+      paybackMonths: 3
+`;
+      const document = parse(yaml, 'automation.metrics.ubml.yaml').document!;
+
+      const { warnings } = validateDocuments([document], { suppressUnusedWarnings: true });
+
+      expect(warnings).toHaveLength(1);
+      expect(warnings[0]).toMatchObject({
+        code: 'ubml/roi-results-outdated',
+        path: 'roiAnalyses.ROI00001.results.paybackMonths',
+        line: 15,
+      });
+      expect(warnings[0].message).toContain('results.paybackMonths is 3 but the costs and benefits give 5');
+    });
+  });
+});
@@ -0,0 +1,239 @@
+/**
+ * Critical path schedule unit tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import { SCHEMA_VERSION } from '../../src/constants.js';
+import { schedule, toGantt, type ProcessDocument, type ScheduleResult } from '../../src/index.js';
+
+function plan(steps: Record<string, object>, links: object[] = [], extra: object = {}): ProcessDocument {
+  return {
+    ubml: SCHEMA_VERSION,
+    processes: {
+      PR00001: { name: 'Rollout', steps, links, ...extra },
+    },
+  } as unknown as ProcessDocument;
+}
+
+function stepOf(result: ScheduleResult, id: string) {
+  return result.steps.find((step) => step.id === id)!;
+}
+
+// Monday
+const start = '2025-03-03';
+
+describe('Critical Path Schedule', () => {
+  describe('schedule', () => {
+    const document = plan(
+      {
+        ST00001: { name: 'Design', duration: '2d' },
+        ST00002: { name: 'Build', duration: '3d' },
+        ST00003: { name: 'Documentation', duration: '1d' },
+        ST00004: { name: 'Release', duration: '8h' },
+      },
+      [
+        { from: 'ST00001', to: 'ST00002' },
+        { from: 'ST00001', to: 'ST00003' },
+        { from: 'ST00002', to: 'ST00004' },
+        { from: 'ST00003', to: 'ST00004' },
+      ]
+    );
+
+    it('should compute early and late times, float and the critical path', () => {
+      const result = schedule(document, 'PR00001', { start });
+
+      expect(result.duration).toBe(48);
+      expect(result.criticalPath).toEqual(['ST00001', 'ST00002', 'ST00004']);
+      expect(stepOf(result, 'ST00002')).toMatchObject({ earlyStart: 16, earlyFinish: 40, lateStart: 16, totalFloat: 0, critical: true });
+      expect(stepOf(result, 'ST00003')).toMatchObject({ earlyStart: 16, earlyFinish: 24, lateStart: 32, lateFinish: 40, totalFloat: 16, critical: false });
+    });
+
+    it('should place times on a working calendar', () => {
+      const result = schedule(document, 'PR00001', { start: '2025-03-01' });
+
+      expect(result.start).toBe('2025-03-03 09:00');
+      expect(result.finish).toBe('2025-03-10 17:00');
+      expect(stepOf(result, 'ST00001').dates.earlyFinish).toBe('2025-03-04 17:00');
+      expect(stepOf(result, 'ST00002').dates).toEqual({
+        earlyStart: '2025-03-05 09:00',
+        earlyFinish: '2025-03-07 17:00',
+        lateStart: '2025-03-05 09:00',
+        lateFinish: '2025-03-07 17:00',
+      });
+    });
+
+    it('should honour dependency types and lag', () => {
+      const result = schedule(
+        plan(
+          {
+            ST00001: { name: 'Build', duration: '2d' },
+            ST00002: { name: 'Test', duration: '1d' },
+            ST00003: { name: 'Document', duration: '1d' },
+            ST00004: { name: 'Prepare', duration: '1d' },
+            ST00005: { name: 'Train', duration: '1d' },
+          },
+          [
+            { from: 'ST00001', to: 'ST00002', schedule: { type: 'start-to-start', lag: '4h' } },
+            { from: 'ST00001', to: 'ST00003', schedule: { type: 'finish-to-finish', lag: { fixed: '1d' } } },
+            { from: 'ST00001', to: 'ST00004', schedule: { type: 'start-to-finish', lag: '2d' } },
+            { from: 'ST00001', to: 'ST00005', schedule: { lag: '-1d' } },
+          ]
+        ),
+        'PR00001',
+        { start }
+      );
+
+      expect(stepOf(result, 'ST00002').earlyStart).toBe(4);
+      expect(stepOf(result, 'ST00003')).toMatchObject({ earlyStart: 16, earlyFinish: 24 });
+      expect(stepOf(result, 'ST00004')).toMatchObject({ earlyStart: 8, earlyFinish: 16 });
+      expect(stepOf(result, 'ST00005').earlyStart).toBe(8);
+      expect(result.criticalPath).toEqual(['ST00001', 'ST00003']);
+    });
+
+    it('should honour start and finish constraints', () => {
+      const result = schedule(
+        plan({
+          ST00001: { name: 'Kickoff', duration: '1d', constraint: 'mustStartOn', constraintDate: '2025-03-05' },
+          ST00002: { name: 'Audit', duration: '1d', constraint: 'startNoEarlierThan', constraintDate: '2025-03-04T13:00' },
+          ST00003: { name: 'Handover', duration: '1d', constraint: 'mustFinishOn', constraintDate: '2025-03-07' },
+          ST00004: { name: 'Cleanup', duration: '1d', constraint: 'alap' },
+        }),
+        'PR00001',
+        { start }
+      );
+
+      expect(stepOf(result, 'ST00001')).toMatchObject({ earlyStart: 16, lateStart: 16, critical: true });
+      expect(stepOf(result, 'ST00002').dates.earlyStart).toBe('2025-03-04 13:00');
+      expect(stepOf(result, 'ST00003')).toMatchObject({ earlyStart: 32, earlyFinish: 40, totalFloat: 0 });
+      expect(stepOf(result, 'ST00004')).toMatchObject({ earlyStart: 0, lateStart: 32, start: '2025-03-07 09:00' });
+      expect(result.warnings).toEqual([]);
+    });
+
+    it('should report constraints that dependencies cannot meet', () => {
+      const result = schedule(
+        plan(
+          {
+            ST00001: { name: 'Build', duration: '2d' },
+            ST00002: { name: 'Deliver', duration: '1d', constraint: 'finishNoLaterThan', constraintDate: '2025-03-04' },
+          },
+          [{ from: 'ST00001', to: 'ST00002' }]
+        ),
+        'PR00001',
+        { start }
+      );
+
+      expect(result.warnings).toEqual([
+        'Step ST00002 must finish by 2025-03-04 but its dependencies allow 2025-03-05 17:00 at the earliest',
+      ]);
+      expect(stepOf(result, 'ST00001').totalFloat).toBe(-8);
+      expect(result.criticalPath).toEqual(['ST00001', 'ST00002']);
+    });
+
+    it('should chain critical steps along driving links', () => {
+      const result = schedule(
+        plan(
+          {
+            ST00001: { name: 'Order', duration: '1d' },
+            ST00002: { name: 'Ship', duration: '2d' },
+            ST00003: { name: 'Permit', duration: '3d' },
+          },
+          [{ from: 'ST00001', to: 'ST00002' }]
+        ),
+        'PR00001',
+        { start }
+      );
+
+      expect(result.criticalPath).toEqual(['ST00001', 'ST00003', 'ST00002']);
+      expect(result.criticalPaths).toEqual([['ST00001', 'ST00002'], ['ST00003']]);
+    });
+
+    it('should plan decisions for their longest branch', () => {
+      const result = schedule(
+        plan(
+          {
+            ST00001: { name: 'Assess', duration: '1d' },
+            ST00002: { name: 'Approved?', kind: 'decision' },
+            ST00003: { name: 'Quick fix', duration: '1d' },
+            ST00004: { name: 'Redesign', duration: '5d' },
+            ST00005: { name: 'Deploy', duration: '1d' },
+            ST00006: { name: 'Reject', duration: '1h' },
+          },
+          [
+            { from: 'ST00001', to: 'ST00002' },
+            { from: 'ST00002', to: 'ST00003' },
+            { from: 'ST00002', to: 'ST00004' },
+            { from: 'ST00002', to: 'ST00006' },
+            { from: 'ST00003', to: 'ST00005' },
+            { from: 'ST00004', to: 'ST00005' },
+          ]
+        ),
+        'PR00001',
+        { start }
+      );
+
+      expect(result.duration).toBe(56);
+      expect(result.alternatives).toEqual(['ST00003', 'ST00006']);
+      expect(result.steps.map((step) => step.id)).toEqual(['ST00001', 'ST00002', 'ST00004', 'ST00005']);
+      expect(result.criticalPaths).toEqual([['ST00001', 'ST00002', 'ST00004', 'ST00005']]);
+    });
+
+    it('should warn about steps without a duration', () => {
+      const result = schedule(plan({ ST00001: { name: 'Start', kind: 'start' }, ST00002: { name: 'Work' } }), 'PR00001', { start });
+
+      expect(result.warnings).toEqual(['Step ST00002 has no duration or effort; scheduled as 0h']);
+    });
+
+    it('should reject cycles and invalid input', () => {
+      const cyclic = plan(
+        { ST00001: { name: 'A', duration: '1d' }, ST00002: { name: 'B', duration: '1d' } },
+        [{ from: 'ST00001', to: 'ST00002' }, { from: 'ST00002', to: 'ST00001' }]
+      );
+
+      expect(() => schedule(cyclic, 'PR00001', { start })).toThrow('dependency cycle through ST00001, ST00002');
+      expect(() => schedule(plan({ ST00001: { name: 'A', constraint: 'mustStartOn' } }), 'PR00001', { start })).toThrow(
+        'Step ST00001 has constraint mustStartOn but no constraintDate'
+      );
+      expect(() => schedule(plan({ ST00001: { name: 'A', duration: '2 days' } }), 'PR00001', { start })).toThrow(
+        'Step ST00001 duration: invalid duration "2 days"'
+      );
+      expect(() => schedule(document, 'PR00009')).toThrow('Process PR00009 not found');
+    });
+  });
+
+  describe('toGantt', () => {
+    it('should render phases as sections with critical steps and milestones', () => {
+      const result = schedule(
+        plan(
+          {
+            ST00001: { name: 'Design: API', duration: '2d' },
+            ST00002: { name: 'Review', duration: '1d' },
+            ST00003: { name: 'Go-live', kind: 'milestone' },
+          },
+          [
+            { from: 'ST00001', to: 'ST00003' },
+            { from: 'ST00002', to: 'ST00003' },
+          ],
+          { phases: { PH00001: { name: 'Design', kind: 'delivery', includeSteps: ['ST00001'] } } }
+        ),
+        'PR00001',
+        { start }
+      );
+
+      expect(toGantt(result)).toBe(
+        [
+          'gantt',
+          '  title Rollout',
+          '  dateFormat YYYY-MM-DD HH:mm',
+          '  axisFormat %Y-%m-%d',
+          '  excludes weekends',
+          '  section Rollout',
+          '    Review :ST00002, 2025-03-03 09:00, 2025-03-03 17:00',
+          '    Go-live :crit, milestone, ST00003, 2025-03-04 17:00, 0d',
+          '  section Design',
+          '    Design API :crit, ST00001, 2025-03-03 09:00, 2025-03-04 17:00',
+          '',
+        ].join('\n')
+      );
+    });
+  });
+});
@@ -0,0 +1,157 @@
+/**
+ * Sequence diagram export unit tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import { SCHEMA_VERSION } from '../../src/constants.js';
+import { toSequenceDiagram, type Actor, type ProcessDocument } from '../../src/index.js';
+
+const actors = {
+  AC00001: { name: 'Customer', type: 'customer', kind: 'human' },
+  AC00002: { name: 'Shop', type: 'system', kind: 'system' },
+  AC00003: { name: 'Warehouse', type: 'organization', kind: 'org' },
+} as unknown as Record<string, Actor>;
+
+const document = {
+  ubml: SCHEMA_VERSION,
+  processes: {
+    PR00001: {
+      name: 'Order Handling',
+      steps: {
+        ST00001: { kind: 'start', name: 'Order', RACI: { responsible: ['AC00001'] }, messages: [{ to: 'AC00002', name: 'Place order', channel: 'web' }] },
+        ST00002: { kind: 'action', name: 'Confirm', systems: ['AC00002'], messages: [{ to: 'AC00001', name: 'Confirmation' }] },
+        ST00003: { kind: 'action', name: 'Pick', systems: ['AC00002'], messages: [{ to: 'AC00003', name: 'Pick list' }] },
+        ST00004: { kind: 'action', name: 'Bill', systems: ['AC00002'], messages: [{ to: 'AC00001', name: 'Invoice' }] },
+        ST00005: { kind: 'action', name: 'Remind', systems: ['AC00002'], messages: [{ to: 'AC00001', name: 'Reminder' }] },
+        ST00006: { kind: 'end', name: 'Done' },
+      },
+      links: [
+        { from: 'ST00001', to: 'ST00002' },
+        { from: 'ST00002', to: 'ST00003' },
+        { from: 'ST00002', to: 'ST00004' },
+        { from: 'ST00004', to: 'ST00005' },
+        { from: 'ST00003', to: 'ST00006' },
+        { from: 'ST00005', to: 'ST00006' },
+      ],
+      blocks: {
+        BK00001: { name: 'Fulfil', operator: 'par', steps: ['ST00003', 'ST00004', 'BK00002'] },
+        BK00002: { name: 'Dunning', operator: 'loop', guard: 'unpaid', steps: ['ST00005'] },
+      },
+    },
+  },
+} as unknown as ProcessDocument;
+
+describe('Sequence Diagram Export', () => {
+  describe('toSequenceDiagram (Mermaid)', () => {
+    it('should declare participants from the actors catalog', () => {
+      const mermaid = toSequenceDiagram(document, { actors });
+
+      expect(mermaid.startsWith('sequenceDiagram\n')).toBe(true);
+      expect(mermaid).toContain('title Order Handling');
+      expect(mermaid).toContain('actor AC00001 as Customer');
+      expect(mermaid).toContain('participant AC00002 as Shop');
+      expect(mermaid).toContain('participant AC00003 as Warehouse');
+      expect(mermaid.indexOf('AC00001 as')).toBeLessThan(mermaid.indexOf('AC00002 as'));
+    });
+
+    it('should draw messages in link order from the performer', () => {
+      const mermaid = toSequenceDiagram(document, { actors });
+
+      expect(mermaid).toContain('AC00001->>AC00002: Place order (web)');
+      expect(mermaid).toContain('AC00002->>AC00001: Confirmation');
+      expect(mermaid.indexOf('Place order')).toBeLessThan(mermaid.indexOf('Confirmation'));
+      expect(mermaid.indexOf('Confirmation')).toBeLessThan(mermaid.indexOf('Pick list'));
+    });
+
+    it('should render par blocks with nested loop fragments', () => {
+      const lines = toSequenceDiagram(document, { actors }).split('\n').map((line) => line.trim());
+
+      const par = lines.indexOf('par Fulfil');
+      const and = lines.indexOf('and');
+      const loop = lines.indexOf('loop unpaid');
+      expect(par).toBeGreaterThan(-1);
+      expect(lines[par + 1]).toBe('AC00002->>AC00003: Pick list');
+      expect(and).toBeGreaterThan(par);
+      expect(lines[and + 1]).toBe('AC00002->>AC00001: Invoice');
+      expect(loop).toBeGreaterThan(and);
+      expect(lines[loop + 1]).toBe('AC00002->>AC00001: Reminder');
+      expect(lines.filter((line) => line === 'end')).toHaveLength(2);
+    });
+
+    it('should fall back to actor IDs without a catalog', () => {
+      const mermaid = toSequenceDiagram(document);
+
+      expect(mermaid).toContain('participant AC00001 as AC00001');
+    });
+
+    it('should escape semicolons and hashes in message text', () => {
+      const doc = {
+        ubml: SCHEMA_VERSION,
+        processes: {
+          PR00001: {
+            name: 'Notify',
+            steps: { ST00001: { kind: 'action', name: 'Send', messages: [{ to: 'AC00001', name: 'Ticket #1; urgent' }] } },
+          },
+        },
+      } as unknown as ProcessDocument;
+
+      const mermaid = toSequenceDiagram(doc);
+
+      expect(mermaid).toContain('PR00001->>AC00001: Ticket #35;1#59; urgent');
+      expect(mermaid).toContain('participant PR00001 as Notify');
+    });
+  });
+
+  describe('toSequenceDiagram (PlantUML)', () => {
+    it('should render participants, messages and fragments', () => {
+      const plantuml = toSequenceDiagram(document, { format: 'plantuml', actors });
+
+      expect(plantuml.startsWith('@startuml\n')).toBe(true);
+      expect(plantuml.trimEnd().endsWith('@enduml')).toBe(true);
+      expect(plantuml).toContain('actor "Customer" as AC00001');
+      expect(plantuml).toContain('participant "Shop" as AC00002');
+      expect(plantuml).toContain('AC00001 -> AC00002 : Place order (web)');
+      expect(plantuml).toContain('par Fulfil');
+      expect(plantuml).toContain('loop unpaid');
+    });
+
+    it('should render alt and opt blocks with guards', () => {
+      const doc = {
+        ubml: SCHEMA_VERSION,
+        processes: {
+          PR00001: {
+            name: 'Approval',
+            steps: {
+              ST00001: { kind: 'action', name: 'Approve', guard: 'amount < 1000', systems: ['AC00002'], messages: [{ to: 'AC00001', name: 'Approved' }] },
+              ST00002: { kind: 'action', name: 'Reject', guard: 'amount >= 1000', systems: ['AC00002'], messages: [{ to: 'AC00001', name: 'Rejected' }] },
+              ST00003: { kind: 'action', name: 'Notify', systems: ['AC00002'], messages: [{ to: 'AC00003', name: 'Audit' }] },
+            },
+            blocks: {
+              BK00001: { name: 'Outcome', operator: 'alt', steps: ['ST00001', 'ST00002'] },
+              BK00002: { name: 'Audit', operator: 'opt', guard: 'audited', steps: ['ST00003'] },
+            },
+          },
+        },
+      } as unknown as ProcessDocument;
+
+      const lines = toSequenceDiagram(doc, { format: 'plantuml', actors }).split('\n').map((line) => line.trim());
+
+      expect(lines).toContain('alt amount < 1000');
+      expect(lines).toContain('else amount >= 1000');
+      expect(lines).toContain('opt audited');
+    });
+  });
+
+  it('should require processId when the document has several processes', () => {
+    const doc = {
+      ubml: SCHEMA_VERSION,
+      processes: {
+        PR00001: { name: 'A', steps: {} },
+        PR00002: { name: 'B', steps: {} },
+      },
+    } as unknown as ProcessDocument;
+
+    expect(() => toSequenceDiagram(doc)).toThrow(/choose one with processId/);
+    expect(toSequenceDiagram(doc, { processId: 'PR00002' })).toContain('title B');
+  });
+});
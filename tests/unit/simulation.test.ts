@@ -0,0 +1,271 @@
+/**
+ * Discrete-event simulation unit tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import { SCHEMA_VERSION } from '../../src/constants.js';
+import { createRandom, parse, simulate, type UBMLDocument } from '../../src/index.js';
+import { createArrivalStream } from '../../src/simulation/arrivals.js';
+
+function documents(files: Record<string, string>): UBMLDocument[] {
+  return Object.entries(files).map(([filename, yaml]) => parse(`ubml: "${SCHEMA_VERSION}"\n${yaml}`, filename).document!);
+}
+
+const actors = `actors:
+  AC00001: { name: Clerk, type: person, kind: human }
+  AC00002: { name: Reviewers, type: role, kind: human }
+  AC00003: { name: ERP, type: system, kind: system }
+resourcePools:
+  RP00001: { name: Review Team, actor: AC00002, capacity: 2 }
+`;
+
+function scenario(arrivals: string, extra = ''): string {
+  return `scenarios:
+  SC00001:
+    name: Baseline
+    arrivals: ${arrivals}
+${extra}`;
+}
+
+function workspace(process: string, scenarioYaml = scenario('{ pattern: uniform, rate: 1, rateUnit: per-hour }')) {
+  return documents({
+    'orders.process.ubml.yaml': process,
+    'org.actors.ubml.yaml': actors,
+    'base.scenarios.ubml.yaml': scenarioYaml,
+  });
+}
+
+const sequential = `processes:
+  PR00001:
+    name: Orders
+    steps:
+      ST00001: { name: Received, kind: start }
+      ST00002:
+        name: Enter order
+        kind: action
+        RACI: { responsible: [AC00001] }
+        effort: "30min"
+      ST00003: { name: Done, kind: end }
+    links:
+      - { from: ST00001, to: ST00002 }
+      - { from: ST00002, to: ST00003 }
+`;
+
+describe('Simulation', () => {
+  describe('simulate', () => {
+    it('should measure a single server with steady arrivals', () => {
+      const result = simulate(workspace(sequential), 'SC00001', { runLength: 100, replications: 1 });
+
+      expect(result.arrivals).toBe(100);
+      expect(result.completed).toBe(100);
+      expect(result.cycleTime).toEqual({ mean: 0.5, p50: 0.5, p90: 0.5, p95: 0.5, max: 0.5 });
+      expect(result.throughput).toEqual({ perHour: 1, perDay: 8 });
+      expect(result.resources).toEqual([
+        {
+          id: 'AC00001',
+          name: 'Clerk',
+          kind: 'actor',
+          capacity: 1,
+          utilization: 0.5,
+          busyHours: 50,
+          queue: { mean: 0, max: 0 },
+          meanWait: 0,
+        },
+      ]);
+    });
+
+    it('should queue work when capacity is exceeded', () => {
+      const process = sequential.replace('effort: "30min"', 'effort: "2h"');
+      const result = simulate(workspace(process), 'SC00001', { runLength: 40, replications: 1 });
+
+      expect(result.resources[0].utilization).toBe(1);
+      expect(result.resources[0].queue.max).toBeGreaterThan(10);
+      expect(result.cycleTime!.max).toBeGreaterThan(result.cycleTime!.p50);
+      expect(result.wip.max).toBeGreaterThan(10);
+    });
+
+    it('should be deterministic for a seed', () => {
+      const docs = workspace(
+        sequential.replace('effort: "30min"', 'effort: { expr: "tri(min(10), min(30), h(1))" }'),
+        scenario('{ pattern: poisson, rate: 8, rateUnit: per-day }')
+      );
+
+      const first = simulate(docs, 'SC00001', { seed: 7 });
+      const second = simulate(docs, 'SC00001', { seed: 7 });
+      const other = simulate(docs, 'SC00001', { seed: 8 });
+
+      expect(second).toEqual(first);
+      expect(other.cycleTime).not.toEqual(first.cycleTime);
+      expect(first.replications).toBe(10);
+      expect(first.runLength).toBe(160);
+    });
+
+    it('should use simulationConfig and scenarios it is based on', () => {
+      const scenarios = `scenarios:
+  SC00001:
+    name: Baseline
+    arrivals: { pattern: uniform, rate: 2, rateUnit: per-day }
+    simulationConfig: { runLength: "2wk", warmupPeriod: "1wk", replications: 2, randomSeed: 5 }
+  SC00002:
+    name: Growth
+    basedOn: SC00001
+    arrivals: { rate: 4 }
+`;
+      const result = simulate(workspace(sequential, scenarios), 'SC00002');
+
+      expect(result).toMatchObject({ replications: 2, seed: 5, runLength: 80, warmupPeriod: 40, arrivals: 20 });
+      expect(result.scenario).toEqual({ id: 'SC00002', name: 'Growth' });
+    });
+
+    it('should run parallel branches and wait at the join', () => {
+      const process = `processes:
+  PR00001:
+    name: Onboarding
+    steps:
+      ST00001: { name: Start, kind: start }
+      ST00002: { name: Split, kind: action }
+      ST00003: { name: Account, kind: action, duration: "2h" }
+      ST00004: { name: Laptop, kind: action, duration: "5h" }
+      ST00005: { name: Welcome, kind: action, duration: "1h" }
+    links:
+      - { from: ST00001, to: ST00002 }
+      - { from: ST00002, to: ST00003 }
+      - { from: ST00002, to: ST00004 }
+      - { from: ST00003, to: ST00005 }
+      - { from: ST00004, to: ST00005 }
+`;
+      const result = simulate(workspace(process, scenario('{ pattern: uniform, rate: 1, rateUnit: per-day }')), 'SC00001', {
+        replications: 1,
+      });
+
+      expect(result.cycleTime!.max).toBe(6);
+      expect(result.cycleTime!.p50).toBe(6);
+    });
+
+    it('should route by conditions, guards and work attributes', () => {
+      const process = `processes:
+  PR00001:
+    name: Approvals
+    steps:
+      ST00001: { name: Start, kind: start }
+      ST00002: { name: Check value, kind: decision }
+      ST00003:
+        name: Review
+        kind: action
+        RACI: { responsible: [AC00002] }
+        duration: "1d"
+      ST00004: { name: Book, kind: action, RACI: { responsible: [AC00003] }, duration: "1h" }
+      ST00005: { name: Audit, kind: action, guard: "region == 'North'", duration: "3h" }
+    links:
+      - { from: ST00001, to: ST00002 }
+      - { from: ST00002, to: ST00003, condition: "orderValue > 1000" }
+      - { from: ST00002, to: ST00004, isDefault: true }
+      - { from: ST00003, to: ST00005 }
+      - { from: ST00004, to: ST00005 }
+`;
+      const scenarios = scenario(
+        '{ pattern: uniform, rate: 2, rateUnit: per-day }',
+        `    workAttributes:
+      orderValue: { type: numeric, distribution: uniform, min: 0, max: 2000 }
+      region:
+        type: categorical
+        values:
+          - { name: North, probability: 0.5 }
+          - { name: South, probability: 0.5 }
+`
+      );
+      const result = simulate(workspace(process, scenarios), 'SC00001', { runLength: 400, replications: 1 });
+      const review = result.resources.find((resource) => resource.id === 'RP00001')!;
+      const erp = result.resources.find((resource) => resource.id === 'AC00003')!;
+
+      expect(result.resources.map((resource) => resource.id)).toEqual(['AC00003', 'RP00001']);
+      expect(review.capacity).toBe(2);
+      expect(erp.capacity).toBeNull();
+      expect(erp.utilization).toBeNull();
+      // About half of the 100 orders need review, the rest are booked
+      expect(review.busyHours / 8 + erp.busyHours).toBeGreaterThan(98);
+      expect(review.busyHours / 8).toBeGreaterThan(30);
+      expect(erp.busyHours).toBeGreaterThan(30);
+      // Booking (1h) or review (8h), plus the audit (3h) for the North region
+      for (const value of [result.cycleTime!.p50, result.cycleTime!.p90]) {
+        expect([1, 4, 8, 11]).toContain(value);
+      }
+      expect(result.cycleTime!.max).toBe(11);
+    });
+
+    it('should repeat loops and batch work items', () => {
+      const process = `processes:
+  PR00001:
+    name: Printing
+    steps:
+      ST00001:
+        name: Print
+        kind: action
+        effort: "1h"
+        loop: { kind: repeat, max: 3 }
+      ST00002:
+        name: Mail
+        kind: action
+        duration: "2h"
+        batch: { size: 2 }
+    links:
+      - { from: ST00001, to: ST00002 }
+`;
+      const result = simulate(workspace(process, scenario('{ pattern: uniform, rate: 1, rateUnit: per-day }')), 'SC00001', {
+        replications: 1,
+      });
+
+      // Every second item waits a day for its batch partner
+      expect(result.cycleTime!.max).toBe(8 + 3 + 2);
+      expect(result.cycleTime!.p50).toBe(5);
+    });
+
+    it('should report model errors', () => {
+      const docs = workspace(sequential);
+
+      expect(() => simulate(docs, 'SC00009')).toThrow('Scenario SC00009 not found');
+      expect(() => simulate(docs, 'SC00001', { processId: 'PR00009' })).toThrow('Process PR00009 not found');
+      expect(() => simulate(docs, 'SC00001', { runLength: 10, warmupPeriod: 10 })).toThrow('Warmup period');
+      expect(() =>
+        simulate(workspace(sequential.replace('effort: "30min"', 'effort: { expr: "missing * 2" }')), 'SC00001')
+      ).toThrow('Step ST00002 effort: Unknown identifier "missing"');
+    });
+  });
+
+  describe('createArrivalStream', () => {
+    it('should fire cron schedules on working days', () => {
+      const next = createArrivalStream({ pattern: 'scheduled', schedule: '0 9 * * MON,WED', batchSize: 5 }, createRandom(1));
+
+      expect([next(), next(), next()]).toEqual([
+        { time: 0, count: 5 },
+        { time: 16, count: 5 },
+        { time: 40, count: 5 },
+      ]);
+    });
+
+    it('should pick up firings outside working hours at the next working moment', () => {
+      const next = createArrivalStream({ pattern: 'scheduled', schedule: '30 7,13,18 * * *' }, createRandom(1));
+
+      expect([next(), next(), next()].map((arrival) => arrival!.time)).toEqual([0, 4.5, 8]);
+    });
+
+    it('should apply seasonality to bursts', () => {
+      const next = createArrivalStream(
+        { pattern: 'burst', burstSize: 10, burstInterval: '1mo', seasonality: { JAN: 0.5, FEB: 2 } },
+        createRandom(1)
+      );
+
+      expect([next(), next(), next()]).toEqual([
+        { time: 0, count: 5 },
+        { time: 160, count: 20 },
+        { time: 320, count: 10 },
+      ]);
+    });
+
+    it('should reject schedules that never fire', () => {
+      expect(() => createArrivalStream({ pattern: 'scheduled', schedule: '0 9 * * SAT' }, createRandom(1))()).toThrow(
+        'never fires on a working day'
+      );
+    });
+  });
+});
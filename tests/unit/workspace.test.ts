@@ -0,0 +1,116 @@
+/**
+ * Workspace model unit tests
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, mkdirSync, rmSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import { SCHEMA_VERSION } from '../../src/constants.js';
+import { loadWorkspace, parse } from '../../src/index.js';
+import { openWorkspace } from '../../src/node/index.js';
+
+const actors = `ubml: "${SCHEMA_VERSION}"
+actors:
+  AC00001:
+    name: Claims Handler
+    type: role
+`;
+
+const entities = `ubml: "${SCHEMA_VERSION}"
+entities:
+  EN00001:
+    name: Claim
+`;
+
+const claims = `ubml: "${SCHEMA_VERSION}"
+processes:
+  PR00001:
+    name: Claims
+    steps:
+      ST00001:
+        name: Register
+        RACI:
+          responsible: [AC00001]
+          informed: [AC00002]
+        outputs:
+          - ref: EN00001
+      ST00002:
+        name: Assess
+        RACI:
+          responsible: [AC00001]
+        inputs:
+          - ref: EN00001
+    links:
+      - from: ST00001
+        to: ST00002
+`;
+
+function load() {
+  return loadWorkspace([
+    parse(actors, 'team.actors.ubml.yaml').document!,
+    parse(entities, 'claims.entities.ubml.yaml').document!,
+    parse(claims, 'claims.process.ubml.yaml').document!,
+  ]);
+}
+
+describe('Workspace Model', () => {
+  it('should link elements with their documents and locations', () => {
+    const workspace = load();
+
+    expect(workspace.elements.map((element) => element.id)).toEqual(['AC00001', 'EN00001', 'PR00001', 'ST00001', 'ST00002']);
+    const step = workspace.getElement('ST00002');
+    expect(step).toMatchObject({ type: 'step', name: 'Assess', path: ['processes', 'PR00001', 'steps', 'ST00002'], location: { line: 14 } });
+    expect(step?.document.meta.filename).toBe('claims.process.ubml.yaml');
+    expect(step?.parent?.id).toBe('PR00001');
+    expect(workspace.getElements('process')[0].steps.map((s) => s.id)).toEqual(['ST00001', 'ST00002']);
+    expect(workspace.getElement('AC99999')).toBeUndefined();
+  });
+
+  it('should resolve references in both directions', () => {
+    const workspace = load();
+    const [register, assess] = workspace.getElements('step');
+    const [handler] = workspace.getElements('actor');
+    const [claim] = workspace.getElements('entity');
+
+    expect(register.actor).toBe(handler);
+    expect(register.process?.id).toBe('PR00001');
+    expect(register.outputs).toEqual([claim]);
+    expect(assess.inputs).toEqual([claim]);
+    expect(handler.performedSteps).toEqual([register, assess]);
+    expect(claim.producedBy).toEqual([register]);
+    expect(claim.consumedBy).toEqual([assess]);
+
+    // Links are owned by the process
+    expect(assess.referencedBy.map((r) => [r.field, r.source?.id, r.path.join('.')])).toEqual([['to', 'PR00001', 'processes.PR00001.links.0.to']]);
+    expect(workspace.unresolved.map((r) => [r.id, r.source?.id, r.location?.line])).toEqual([['AC00002', 'ST00001', 10]]);
+  });
+
+  describe('openWorkspace', () => {
+    let tempDir: string;
+
+    beforeEach(() => {
+      tempDir = mkdtempSync(join(tmpdir(), 'ubml-test-workspace-'));
+    });
+
+    afterEach(() => {
+      rmSync(tempDir, { recursive: true, force: true });
+    });
+
+    it('should read the documents of a directory', async () => {
+      mkdirSync(join(tempDir, 'processes'));
+      writeFileSync(join(tempDir, 'team.actors.ubml.yaml'), actors);
+      writeFileSync(join(tempDir, 'processes', 'claims.process.ubml.yaml'), claims);
+      writeFileSync(join(tempDir, 'broken.entities.ubml.yaml'), 'entities: [\n');
+
+      const workspace = await openWorkspace(tempDir);
+      expect(workspace.documents.map((d) => d.meta.filepath)).toEqual([
+        join(tempDir, 'processes', 'claims.process.ubml.yaml'),
+        join(tempDir, 'team.actors.ubml.yaml'),
+      ]);
+      expect(workspace.warnings).toHaveLength(1);
+      expect(workspace.warnings[0]).toMatch(/^broken\.entities\.ubml\.yaml: /);
+      expect(workspace.getElements('actor')[0].performedSteps.map((s) => s.id)).toEqual(['ST00001', 'ST00002']);
+    });
+  });
+});